@@ -1032,6 +1032,13 @@ class TradingDashboard {
             document.getElementById('avgLoss').textContent = `Avg Loss: $${data.avgLoss.toFixed(0)}`;
         }
 
+        if (data.portfolioGreeks) {
+            const total = data.portfolioGreeks.total;
+            document.getElementById('portfolioDelta').textContent = `$${total.betaWeightedDelta.toFixed(0)}`;
+            document.getElementById('portfolioGreeks').textContent =
+                `$Γ $${total.betaWeightedGamma.toFixed(0)} · Θ $${total.thetaPerHour.toFixed(0)}/hr · 𝜈 $${total.dollarVega.toFixed(0)}`;
+        }
+
         if (data.isRunning !== undefined) {
             this.updateTradingStatus(data.isRunning ? 'running' : 'stopped');
         }
@@ -8,6 +8,10 @@
 
 import { TradingParameters } from './trading-parameters';
 import { Strategy, BacktestParams } from '../../lib/types';
+import { MarketDataProvider } from '../../lib/market-data-provider';
+import { OptionsSnapshotStore } from '../../lib/options-snapshot-store';
+import { DataQualityValidator, RepairPolicy } from '../../lib/data-quality-validator';
+import { SymbolUniverse } from '../../lib/symbol-universe';
 
 export interface DashboardBacktestResults {
   totalTrades: number;
@@ -21,6 +25,7 @@ export interface DashboardBacktestResults {
   sharpeRatio: number;
   period: string;
   parametersUsed: TradingParameters;
+  realQuoteRatio: number; // Share of bars priced off recorded options quotes
 }
 
 export class DashboardBacktestRunner {
@@ -32,7 +37,8 @@ export class DashboardBacktestRunner {
   static async runBacktestWithParameters(
     parameters: TradingParameters,
     timeframe: '1Min' | '5Min' | '15Min' = '1Min',
-    daysBack: number = 3
+    daysBack: number = 3,
+    dataProvider?: MarketDataProvider
   ): Promise<DashboardBacktestResults> {
     
     console.log('🏛️ INSTITUTIONAL NAKED OPTIONS BACKTEST');
@@ -56,7 +62,11 @@ export class DashboardBacktestRunner {
       const { BacktestEngine } = await import('../../lib/backtest-engine');
       
       // Run institutional backtest with all professional features
-      const results = await BacktestEngine.runBacktest(strategy, backtestParams);
+      const qualityValidator = this.createQualityValidator();
+      const results = await BacktestEngine.runBacktest(strategy, backtestParams, dataProvider, this.createSnapshotStore(), qualityValidator);
+      if (qualityValidator && results.dataQuality && process.env.DATA_QUALITY_REPORT_DIR) {
+        results.dataQuality.forEach(report => console.log(`🩺 ${report.symbol} data quality report: ${qualityValidator.writeReport(report)}`));
+      }
       
       // Transform results for dashboard
       const dashboardResults = this.transformResults(results, parameters, daysBack);
@@ -82,7 +92,8 @@ export class DashboardBacktestRunner {
     parameters: TradingParameters,
     timeframe: '1Min' | '5Min' | '15Min' = '1Min',
     startDate: string,
-    endDate: string
+    endDate: string,
+    dataProvider?: MarketDataProvider
   ): Promise<DashboardBacktestResults> {
     
     console.log('🏛️ INSTITUTIONAL CUSTOM DATE BACKTEST');
@@ -106,7 +117,11 @@ export class DashboardBacktestRunner {
       const { BacktestEngine } = await import('../../lib/backtest-engine');
       
       // Run institutional backtest with all professional features
-      const results = await BacktestEngine.runBacktest(strategy, backtestParams);
+      const qualityValidator = this.createQualityValidator();
+      const results = await BacktestEngine.runBacktest(strategy, backtestParams, dataProvider, this.createSnapshotStore(), qualityValidator);
+      if (qualityValidator && results.dataQuality && process.env.DATA_QUALITY_REPORT_DIR) {
+        results.dataQuality.forEach(report => console.log(`🩺 ${report.symbol} data quality report: ${qualityValidator.writeReport(report)}`));
+      }
       
       // Calculate days for period description
       const start = new Date(startDate);
@@ -160,6 +175,7 @@ export class DashboardBacktestRunner {
       // Options strategy settings
       daysToExpiration: 0, // 0-DTE
       deltaRange: 0.5,
+      underlyings: SymbolUniverse.fromEnv('DASHBOARD_SYMBOLS', process.env.DASHBOARD_SYMBOL || 'SPY').symbols,
       
       // Metadata
       isActive: true,
@@ -312,7 +328,8 @@ export class DashboardBacktestRunner {
       profitFactor,
       sharpeRatio,
       period: `${daysBack} days (Institutional-Grade Naked Options)`,
-      parametersUsed: parameters
+      parametersUsed: parameters,
+      realQuoteRatio: results.quoteCoverage?.realQuoteRatio || 0
     };
   }
   
@@ -348,6 +365,7 @@ export class DashboardBacktestRunner {
     
     // Calculate Sharpe ratio (simplified estimate based on win rate and profit factor)
     const sharpeRatio = winRate > 0.6 && profitFactor > 2 ? 1.5 : winRate > 0.5 ? 1.0 : 0.5;
+    const realQuoteRatio = results.quoteCoverage?.realQuoteRatio || 0;
     
     return {
       totalTrades,
@@ -360,9 +378,36 @@ export class DashboardBacktestRunner {
       profitFactor,
       sharpeRatio,
       period: `${daysBack} days`,
-      parametersUsed: parameters
+      parametersUsed: parameters,
+      realQuoteRatio
     };
   }
+
+  /**
+   * Recorded options snapshots, when OPTIONS_SNAPSHOT_DIR points at a store
+   */
+  private static createSnapshotStore(): OptionsSnapshotStore | undefined {
+    const rootDir = process.env.OPTIONS_SNAPSHOT_DIR;
+    return rootDir ? new OptionsSnapshotStore({ rootDir }) : undefined;
+  }
+
+  /**
+   * Data quality validation from DATA_QUALITY_* settings (off unless one is set)
+   */
+  private static createQualityValidator(): DataQualityValidator | undefined {
+    const enforcement = process.env.DATA_QUALITY_ENFORCEMENT;
+    const repair = process.env.DATA_QUALITY_REPAIR as RepairPolicy | undefined;
+    const reportDir = process.env.DATA_QUALITY_REPORT_DIR;
+    if (!enforcement && !repair && !reportDir) {
+      return undefined;
+    }
+
+    return new DataQualityValidator({
+      enforcement: enforcement === 'refuse' ? 'refuse' : 'annotate',
+      ...(repair ? { barRepair: repair, quoteRepair: repair } : {}),
+      ...(reportDir ? { reportDir } : {})
+    });
+  }
   
   /**
    * Calculate maximum drawdown from trades
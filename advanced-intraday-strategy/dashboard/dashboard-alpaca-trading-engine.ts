@@ -10,6 +10,7 @@
  * ✅ Trade identification via DASH_ prefix
  * ✅ Same contract sizes and risk management as main strategy
  * ✅ Complete isolation from main trading engine
+ * ✅ Signals from DirectSignalStrategy, the same TradingStrategy the direct backtest runs
  */
 
 // Load dashboard-specific environment variables
@@ -17,10 +18,22 @@ const path = require('path');
 require('dotenv').config({ path: path.join(__dirname, '.env.dashboard') });
 
 import { Strategy, MarketData, OptionsChain } from '../../lib/types';
-import { alpacaHTTPClient } from '../../lib/alpaca-http-client';
+import { MarketDataProvider, MarketDataSource } from '../../lib/market-data-provider';
+import { createMarketDataProvider } from '../../lib/market-data-provider-factory';
+import { MarketCalendar } from '../../lib/market-calendar';
+import { OptionContractId } from '../../lib/option-contract-id';
+import { SyntheticMarketSimulator } from '../../lib/synthetic-market-simulator';
+import { SymbolUniverse } from '../../lib/symbol-universe';
+import { GreeksEngine } from '../../lib/greeks-engine';
+import { PortfolioGreeksAggregator, PortfolioGreeks } from '../../lib/portfolio-greeks';
 import { TechnicalAnalysis } from '../../lib/technical-indicators';
 import { TradingParameters } from './trading-parameters';
 import { AdaptiveStrategySelector } from '../../lib/adaptive-strategy-selector';
+import { VolatilitySurface } from '../../lib/volatility-surface';
+import { MidpointCostModel } from '../../lib/backtest-cost-models';
+import { StrategyPositions } from '../../lib/strategy-positions';
+import { StrategyHost, HostedBarContext, OpenSignal, StrategyPosition } from '../../lib/trading-strategy';
+import { DirectSignalStrategy } from './direct-signal-strategy';
 
 interface DashboardAlpacaConfig {
   apiKey: string;
@@ -30,16 +43,6 @@ interface DashboardAlpacaConfig {
   tradePrefix: string;
 }
 
-interface DashboardSignal {
-  action: 'BUY_CALL' | 'BUY_PUT' | 'NO_TRADE';
-  confidence: number;
-  reasoning: string[];
-  signalType: 'SOPHISTICATED' | 'RSI_EXTREME' | 'MOMENTUM' | 'BREAKOUT' | 'TIME_BASED';
-  targetProfit: number;
-  maxLoss: number;
-  quality: 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR';
-}
-
 interface DashboardTrade {
   id: string;
   orderId: string;
@@ -73,26 +76,43 @@ export class DashboardAlpacaTradingEngine {
   
   // Daily tracking
   private dailyTradesGenerated = 0;
+  private dailyRealizedPnL = 0;
   private currentDay = '';
   private lastSignalTime = 0;
   
   // Dashboard-specific identifiers
   private readonly TRADE_PREFIX = process.env.DASHBOARD_TRADE_PREFIX || 'DASH_';
-  private readonly SYMBOL = process.env.DASHBOARD_SYMBOL || 'SPY';
+  private readonly universe = SymbolUniverse.fromEnv('DASHBOARD_SYMBOLS', process.env.DASHBOARD_SYMBOL || 'SPY');
   
   private isRunning = false;
   private monitoringInterval?: NodeJS.Timeout;
+  private dataProvider: MarketDataProvider;
+  private readonly simulator = SyntheticMarketSimulator.fromEnv();
+  private readonly portfolioGreeks = new PortfolioGreeksAggregator();
+  private latestPrices: Record<string, number> = {};
+
+  // The strategy sees each active trade as a position, opened at the mid it was sized on
+  private strategyHost: StrategyHost;
+  private strategyPositions: StrategyPosition[] = [];
+  private readonly costModel = new MidpointCostModel();
 
-  constructor(parameters?: TradingParameters) {
+  constructor(parameters?: TradingParameters, dataProvider?: MarketDataProvider) {
     // Use provided parameters or default balanced configuration
     this.parameters = parameters || this.getDefaultParameters();
+    this.strategyHost = new StrategyHost(new DirectSignalStrategy(this.parameters), 'DASHBOARD');
+    
+    // Dashboard defaults to the direct HTTP client (real data only, no mock fallback)
+    this.dataProvider = dataProvider || createMarketDataProvider(
+      (process.env.MARKET_DATA_SOURCE as MarketDataSource) || 'alpaca-http'
+    );
     
     this.initializeAlpacaConnection();
     
     console.log('🎛️ DASHBOARD ALPACA TRADING ENGINE INITIALIZED');
     console.log('===============================================');
     console.log(`🏷️ Trade Prefix: ${this.TRADE_PREFIX}`);
-    console.log(`📊 Symbol: ${this.SYMBOL}`);
+    console.log(`📊 Symbols: ${this.universe.symbols.join(', ')}`);
+    console.log(`📡 Market Data: ${this.dataProvider.name}`);
     console.log(`🎯 Daily Target: $${this.parameters.dailyPnLTarget}`);
     console.log(`🛡️ Stop Loss: ${this.parameters.initialStopLossPct}%`);
     console.log(`📈 Profit Target: ${this.parameters.profitTargetPct}%`);
@@ -157,6 +177,7 @@ export class DashboardAlpacaTradingEngine {
 
   updateParameters(newParameters: Partial<TradingParameters>): void {
     this.parameters = { ...this.parameters, ...newParameters };
+    this.strategyHost = new StrategyHost(new DirectSignalStrategy(this.parameters), 'DASHBOARD');
     
     console.log('🔧 DASHBOARD PARAMETERS UPDATED');
     console.log(`🎯 Daily Target: $${this.parameters.dailyPnLTarget}`);
@@ -259,7 +280,7 @@ export class DashboardAlpacaTradingEngine {
       
       console.log(`💰 Portfolio Value: $${portfolioValue.toLocaleString()}`);
       console.log(`💸 Buying Power: $${buyingPower.toLocaleString()}`);
-      console.log(`📊 Dashboard Symbol: ${this.SYMBOL}`);
+      console.log(`📊 Dashboard Symbols: ${this.universe.symbols.join(', ')}`);
       console.log(`🏷️ Trade Prefix: ${this.TRADE_PREFIX}`);
       console.log('');
       
@@ -283,6 +304,7 @@ export class DashboardAlpacaTradingEngine {
       clearInterval(this.monitoringInterval);
       this.monitoringInterval = undefined;
     }
+    await this.strategyHost.endSession(new Date(), this.currentBalance());
     
     // Cancel any pending dashboard orders
     try {
@@ -311,41 +333,34 @@ export class DashboardAlpacaTradingEngine {
       if (!this.isRunning) return;
       
       try {
-        const now = new Date();
-        const hour = now.getHours();
-        const minute = now.getMinutes();
-        
-        // Market hours check (9:30 AM - 4:00 PM ET)
-        if (hour < 9 || (hour === 9 && minute < 30) || hour >= 16) {
+        // Market hours check (9:30 AM ET to the session close, holidays excluded)
+        if (!MarketCalendar.isMarketOpen()) {
+          await this.strategyHost.endSession(new Date(), this.currentBalance());
           return;
         }
         
-        // Get current market data
-        const marketData = await this.getCurrentMarketData();
-        if (!marketData || marketData.length === 0) {
-          return;
-        }
-        
-        const currentBar = marketData[marketData.length - 1];
-        
-        // Update daily tracking
-        this.updateDailyTracking(currentBar);
-        
-        // Manage existing positions (critical for 0-DTE stop losses)
-        await this.manageDashboardPositions(currentBar);
-        
-        // Generate new signals
-        const signal = await this.generateDashboardSignal(marketData, currentBar);
-        
-        if (signal && signal.action !== 'NO_TRADE') {
-          console.log(`📊 Dashboard signal: ${signal.action} (${signal.signalType}) - Confidence: ${(signal.confidence * 100).toFixed(1)}%`);
+        for (const symbol of this.universe.symbols) {
+          // Get current market data
+          const marketData = await this.getCurrentMarketData(symbol);
+          if (!marketData || marketData.length === 0) {
+            continue;
+          }
+          
+          const currentBar = marketData[marketData.length - 1];
+          this.latestPrices[symbol] = currentBar.close;
+          
+          // Update daily tracking
+          this.updateDailyTracking(currentBar);
           
-          // Execute trade with dashboard parameters
-          await this.executeDashboardTrade(signal, currentBar);
+          // Manage existing positions (critical for 0-DTE stop losses)
+          await this.manageDashboardPositions(symbol, currentBar);
+          
+          // Generate new signals and route them to Alpaca
+          await this.runStrategy(symbol, marketData, currentBar);
         }
         
         // Log status every 5 minutes
-        if (minute % 5 === 0) {
+        if (new Date().getMinutes() % 5 === 0) {
           await this.logDashboardStatus();
         }
         
@@ -358,95 +373,21 @@ export class DashboardAlpacaTradingEngine {
 
 
   /**
-   * Generate realistic options chain (SAME AS BACKTEST for consistency)
+   * Seeded synthetic 0-DTE chain (same simulator and seed as synthetic backtests)
    */
-  private generateRealisticOptionsChain(currentPrice: number, date: Date): any[] {
-    const options = [];
-    const dateStr = date.toISOString().split('T')[0].replace(/-/g, '');
-    
-    console.log(`📊 PAPER TRADING: Using same realistic options as backtest for SPY at $${currentPrice.toFixed(2)}`);
-    
-    // Generate realistic 0-DTE options around current price (±$10 range)
-    for (let i = -10; i <= 10; i++) {
-      const strike = Math.round(currentPrice) + i;
-      const moneyness = (currentPrice - strike) / currentPrice;
-      
-      // CALL options with realistic institutional Greeks
-      const callDelta = Math.max(0.01, Math.min(0.99, 
-        strike <= currentPrice ? 0.85 - Math.abs(moneyness) * 5 : // ITM
-        0.50 * Math.exp(-Math.abs(moneyness) * 20) // OTM
-      ));
-      
-      // Realistic 0-DTE pricing based on moneyness (SAME AS BACKTEST)
-      let callPrice;
-      if (Math.abs(moneyness) < 0.003) {
-        callPrice = 2.00 + Math.random() * 1.00; // ATM: $2.00-3.00
-      } else if (Math.abs(moneyness) < 0.008) {
-        callPrice = 1.25 + Math.random() * 0.75; // Near ATM: $1.25-2.00
-      } else if (Math.abs(moneyness) < 0.015) {
-        callPrice = 0.50 + Math.random() * 0.50; // OTM: $0.50-1.00
-      } else {
-        callPrice = 0.05 + Math.random() * 0.25; // Far OTM: $0.05-0.30
-      }
-      
-      options.push({
-        symbol: `SPY${dateStr.slice(2)}C${String(strike * 1000).padStart(8, '0')}`,
-        strike: strike,
-        side: 'CALL',
-        bid: callPrice * 0.95,
-        ask: callPrice * 1.05,
-        delta: callDelta,
-        last: callPrice,
-        volume: Math.floor(Math.random() * 500) + 10,
-        openInterest: Math.floor(Math.random() * 2000) + 100,
-        impliedVolatility: 0.15 + Math.random() * 0.30,
-        expiration: new Date()
-      });
-      
-      // PUT options with realistic institutional Greeks
-      const putDelta = Math.max(-0.99, Math.min(-0.01,
-        strike >= currentPrice ? -0.85 + Math.abs(moneyness) * 5 : // ITM
-        -0.50 * Math.exp(-Math.abs(moneyness) * 20) // OTM
-      ));
-      
-      // Realistic PUT pricing (SAME AS BACKTEST)
-      let putPrice;
-      if (Math.abs(moneyness) < 0.003) {
-        putPrice = 2.00 + Math.random() * 1.00; // ATM
-      } else if (Math.abs(moneyness) < 0.008) {
-        putPrice = 1.25 + Math.random() * 0.75; // Near ATM
-      } else if (Math.abs(moneyness) < 0.015) {
-        putPrice = 0.50 + Math.random() * 0.50; // OTM
-      } else {
-        putPrice = 0.05 + Math.random() * 0.25; // Far OTM
-      }
-      
-      options.push({
-        symbol: `SPY${dateStr.slice(2)}P${String(strike * 1000).padStart(8, '0')}`,
-        strike: strike,
-        side: 'PUT',
-        bid: putPrice * 0.95,
-        ask: putPrice * 1.05,
-        delta: putDelta,
-        last: putPrice,
-        volume: Math.floor(Math.random() * 500) + 10,
-        openInterest: Math.floor(Math.random() * 2000) + 100,
-        impliedVolatility: 0.15 + Math.random() * 0.30,
-        expiration: new Date()
-      });
-    }
-    
-    console.log(`✅ PAPER TRADING: Generated ${options.length} realistic options (SAME LOGIC AS BACKTEST)`);
+  private generateRealisticOptionsChain(symbol: string, currentPrice: number, date: Date): OptionsChain[] {
+    const options = this.simulator.getOptionsChain(symbol, { asOf: date, spot: currentPrice, strikesPerSide: 10 });
+    console.log(`📊 PAPER TRADING: Generated ${options.length} synthetic options for ${symbol} at $${currentPrice.toFixed(2)} (seed ${this.simulator.config.seed})`);
     return options;
   }
 
-  private async getCurrentMarketData(): Promise<MarketData[]> {
+  private async getCurrentMarketData(symbol: string): Promise<MarketData[]> {
     try {
       const endTime = new Date();
       const startTime = new Date(endTime.getTime() - 60 * 60 * 1000); // 1 hour ago (match main strategy)
       
-              const marketData = await alpacaHTTPClient.getMarketData(
-        this.SYMBOL,
+      const marketData = await this.dataProvider.getMarketData(
+        symbol,
         startTime,
         endTime,
         '1Min'
@@ -465,106 +406,70 @@ export class DashboardAlpacaTradingEngine {
     }
   }
 
-  private async generateDashboardSignal(marketData: MarketData[], currentBar: MarketData): Promise<DashboardSignal | null> {
-    const currentTime = currentBar.date;
-    const currentTimeMs = currentTime.getTime();
-    
-    // Check daily trade limit (if set)
-    if (this.parameters.dailyTradeTarget && this.dailyTradesGenerated >= this.parameters.dailyTradeTarget) {
-      return null;
-    }
-    
-    // Check signal spacing using dashboard parameters
-    const minutesSinceLastSignal = (currentTimeMs - this.lastSignalTime) / (1000 * 60);
-    const requiredSpacing = this.parameters.reducedSignalSpacing ? 
-      this.parameters.minSignalSpacingMinutes / 2 : 
-      this.parameters.minSignalSpacingMinutes;
-      
-    if (minutesSinceLastSignal < requiredSpacing && this.lastSignalTime > 0) {
-      return null;
-    }
-    
-    // Check concurrent positions limit
-    if (this.activeTrades.length >= this.parameters.maxConcurrentPositions) {
-      return null;
-    }
-    
-    console.log(`🏛️ DASH: Using DirectInstitutionalIntegration (SAME AS BACKTEST)`);
-    
-    if (marketData.length < 50) {
-      console.log(`⚠️ DASH: Insufficient data - only ${marketData.length} bars (need 50 for institutional signals)`);
-      return null;
+  /**
+   * Feeds the latest bar and a fresh chain to the strategy, with the active trades on
+   * this underlying marked on that chain
+   */
+  private async runStrategy(symbol: string, marketData: MarketData[], currentBar: MarketData): Promise<void> {
+    const activeIds = new Set(this.activeTrades.map(trade => trade.id));
+    this.strategyPositions = this.strategyPositions.filter(position => activeIds.has(position.id));
+    if (!this.strategyHost.isWarm(marketData)) {
+      console.log(`⚠️ DASH: Insufficient data - only ${marketData.length} bars (need ${this.strategyHost.strategy.warmupBars} for institutional signals)`);
+      return;
     }
-    
+
     try {
       // Use SAME realistic options generator as backtest
-      const optionsChain = this.generateRealisticOptionsChain(currentBar.close, currentBar.date);
-      
-      // 🚀 USE EXACT SAME METHOD AS BACKTEST - DirectInstitutionalIntegration
-      const { DirectInstitutionalIntegration } = await import('../../clean-strategy/core/institutional-strategy/direct-institutional-integration');
-      
-      // Use EXACT SAME config as backtest - GEX DISABLED for trend following
-      const institutionalConfig = {
-        gexWeight: 0.0,   // FORCE DISABLED - was causing bullish bias
-        avpWeight: this.parameters.avpWeight || 0.25,
-        avwapWeight: this.parameters.avwapWeight || 0.40,  // MAJOR WEIGHT - trend following
-        fractalWeight: this.parameters.fractalWeight || 0.25,
-        atrWeight: this.parameters.atrWeight || 0.10,
-        minimumBullishScore: this.parameters.minimumBullishScore || 0.5,
-        minimumBearishScore: this.parameters.minimumBearishScore || 0.5,
-        riskMultiplier: this.parameters.riskMultiplier || 1.0,
-        maxPositionSize: this.parameters.maxPositionSize || 0.02
+      const price = currentBar.close;
+      const chain = this.generateRealisticOptionsChain(symbol, price, currentBar.date);
+      let surface: VolatilitySurface | undefined;
+      const legSurface = () => surface || (surface = VolatilitySurface.fromChain(chain, price, currentBar.date));
+      const positions = this.strategyPositions.filter(position => position.underlying === symbol);
+      positions.forEach(position => StrategyPositions.mark(position, chain, legSurface, price, currentBar.date));
+
+      // Alpaca's portfolio value already includes the open positions
+      const balance = this.currentBalance();
+      const context: HostedBarContext = {
+        timestamp: currentBar.date,
+        underlying: symbol,
+        spec: SymbolUniverse.getSpec(symbol),
+        bar: currentBar,
+        history: marketData,
+        positions,
+        allPositions: this.strategyPositions,
+        balance,
+        equity: balance,
+        sessionRealizedPnL: this.dailyRealizedPnL,
+        prices: { ...this.latestPrices }
       };
-      
-      const signal = await DirectInstitutionalIntegration.generateDirectSignal(
-        marketData,
-        optionsChain,
-        25000,  // Account balance (same as backtest)
-        institutionalConfig,  // Same config as backtest, read from dashboard
-        this.parameters  // ✅ PASS ALL DASHBOARD PARAMETERS for RSI, MACD, risk management
-      );
-      
-      if (signal && signal.action !== 'NO_TRADE') {
-        
-        console.log(`🏛️ PAPER TRADING - INSTITUTIONAL SIGNAL: ${signal.action}`);
-        console.log(`📊 Confidence: ${(signal.confidence * 100).toFixed(1)}% (SAME AS BACKTEST)`);
-        console.log(`🔍 Reasoning: ${signal.reasoning}`);
-        console.log(`🎯 Using: GEX(0.0-DISABLED), AVP(${institutionalConfig.avpWeight}), AVWAP(${institutionalConfig.avwapWeight}), Fractals(${institutionalConfig.fractalWeight}), ATR(${institutionalConfig.atrWeight})`);
-        
-        // Map our DirectInstitutional signals to dashboard format
-        let dashboardAction: 'BUY_CALL' | 'BUY_PUT' | 'NO_TRADE';
-        
-        switch (signal.action) {
-          case 'BUY_CALL':
-          case 'SELL_PUT':  // Bullish strategies -> BUY_CALL for dashboard
-            dashboardAction = 'BUY_CALL';
-            break;
-          case 'BUY_PUT':
-          case 'SELL_CALL': // Bearish strategies -> BUY_PUT for dashboard
-            dashboardAction = 'BUY_PUT';
-            break;
-          default:
-            dashboardAction = 'NO_TRADE';
+      await this.strategyHost.bar(context);
+      const signals = await this.strategyHost.quote({ ...context, chain });
+
+      for (const signal of signals) {
+        if (signal.action === 'CLOSE') {
+          // Unfilled orders are left to the order status checks
+          const trade = this.activeTrades.find(t => t.id === signal.positionId && t.status === 'FILLED');
+          if (trade) {
+            await this.closeAlpacaPosition(trade.symbol, trade.quantity, signal.reason);
+          }
+          continue;
         }
 
-        // Convert to dashboard format (same confidence and reasoning as backtest)
-        return {
-          action: dashboardAction,
-          confidence: signal.confidence,
-          reasoning: [signal.reasoning],
-          signalType: 'SOPHISTICATED',  // Using sophisticated for institutional signals
-          targetProfit: this.parameters.profitTargetPct,
-          maxLoss: this.parameters.initialStopLossPct,
-          quality: signal.confidence > 0.8 ? 'EXCELLENT' : signal.confidence > 0.6 ? 'GOOD' : 'FAIR'
-        };
+        // Check daily trade limit (if set)
+        if (this.parameters.dailyTradeTarget && this.dailyTradesGenerated >= this.parameters.dailyTradeTarget) {
+          continue;
+        }
+        console.log(`📊 Dashboard signal: ${symbol} ${signal.label} ${signal.legs[0].option.strike} × ${signal.quantity} - ${signal.reason}`);
+        await this.executeDashboardTrade(symbol, signal, currentBar);
       }
-      
     } catch (error) {
-      console.log('⚠️ Direct institutional signal generation error');
+      console.log('⚠️ Dashboard strategy error');
       console.error(error);
     }
-    
-    return null;
+  }
+
+  private currentBalance(): number {
+    return this.accountInfo ? parseFloat(this.accountInfo.portfolio_value) : this.parameters.accountSize;
   }
   
   /**
@@ -614,15 +519,10 @@ export class DashboardAlpacaTradingEngine {
     }
   }
 
-  private async executeDashboardTrade(signal: DashboardSignal, currentBar: MarketData): Promise<void> {
+  private async executeDashboardTrade(symbol: string, signal: OpenSignal, currentBar: MarketData): Promise<void> {
     try {
-      // Only execute if signal is actionable
-      if (signal.action === 'NO_TRADE') {
-        return;
-      }
-      
-      const accountInfo = await this.alpaca.getAccount();
-      const portfolioValue = parseFloat(accountInfo.portfolio_value);
+      this.accountInfo = await this.alpaca.getAccount();
+      const portfolioValue = parseFloat(this.accountInfo.portfolio_value);
       
       // 🎯 RESPECT DASHBOARD MAX RISK PER TRADE SETTING
       const maxRiskPerTrade = portfolioValue * this.parameters.maxRiskPerTradePct;
@@ -633,31 +533,17 @@ export class DashboardAlpacaTradingEngine {
       console.log(`   Max Risk Per Trade Setting: ${(this.parameters.maxRiskPerTradePct * 100).toFixed(1)}%`);
       console.log(`   Max Risk Per Trade: $${maxRiskPerTrade.toFixed(2)}`);
       
-      // Better option price estimation for 0-DTE
-      const strike = this.calculateStrike(currentPrice, signal.action as 'BUY_CALL' | 'BUY_PUT');
-      const strikeDistance = Math.abs(currentPrice - strike) / currentPrice;
-      
-      // FIXED: Realistic 0-DTE option pricing (dollar amounts per share)
-      let estimatedOptionPrice;
-      if (strikeDistance < 0.002) { // Very close to ATM (within $1-2)
-        estimatedOptionPrice = 2.00; // $2.00 per share for ATM 0-DTE
-      } else if (strikeDistance < 0.008) { // Near ATM (within $5)
-        estimatedOptionPrice = 1.25; // $1.25 per share for near ATM
-      } else if (strikeDistance < 0.020) { // Moderate OTM
-        estimatedOptionPrice = 0.75; // $0.75 per share for moderate OTM
-      } else { // Far OTM
-        estimatedOptionPrice = 0.35; // $0.35 per share for far OTM
-      }
-      
-      // Calculate quantity to stay within YOUR risk limit (no hard-coded caps)
-      const maxQuantity = Math.floor(maxRiskPerTrade / (estimatedOptionPrice * 100));
-      const quantity = Math.max(1, maxQuantity); // At least 1 contract, but respect your limit
-      
-      const actualRisk = quantity * estimatedOptionPrice * 100;
-      
-      console.log(`   Strike: $${strike.toFixed(2)} (${(strikeDistance * 100).toFixed(2)}% from current)`);
-      console.log(`   Estimated Option Price: $${estimatedOptionPrice.toFixed(2)}`);
-      console.log(`   Calculated Quantity: ${quantity} contracts`);
+      // The strategy picked the contract and sized it on its mid
+      const spec = SymbolUniverse.getSpec(symbol);
+      const option = signal.legs[0].option;
+      const optionPrice = StrategyPositions.mid(option);
+      const quantity = signal.quantity;
+      const strikeDistance = Math.abs(currentPrice - option.strike) / currentPrice;
+      const actualRisk = quantity * optionPrice * spec.contractMultiplier;
+      
+      console.log(`   Strike: $${option.strike.toFixed(2)} (${(strikeDistance * 100).toFixed(2)}% from current)`);
+      console.log(`   Option Mid Price: $${optionPrice.toFixed(2)}`);
+      console.log(`   Strategy Quantity: ${quantity} contracts`);
       console.log(`   Actual Position Risk: $${actualRisk.toFixed(2)}`);
       console.log(`   ✅ Within Risk Limit: ${actualRisk <= maxRiskPerTrade ? 'YES' : 'NO'}`);
       
@@ -668,25 +554,16 @@ export class DashboardAlpacaTradingEngine {
       }
       
       // Generate dashboard-specific client order ID
-      const clientOrderId = `${this.TRADE_PREFIX}${this.SYMBOL}_${Date.now()}`;
+      const clientOrderId = `${this.TRADE_PREFIX}${symbol}_${Date.now()}`;
+      const action = option.side === 'CALL' ? 'BUY_CALL' : 'BUY_PUT';
       
-      // Generate proper Alpaca option symbol format
-      const today = new Date();
-      
-      // Use proper Alpaca option symbol format: SPY240818C00643000
-      const year = today.getFullYear().toString().slice(-2);
-      const month = String(today.getMonth() + 1).padStart(2, '0');
-      const day = String(today.getDate()).padStart(2, '0');
-      const optionType = signal.action === 'BUY_CALL' ? 'C' : 'P';
-      const strikeFormatted = String(Math.round(strike * 1000)).padStart(8, '0');
-      const optionSymbol = `SPY${year}${month}${day}${optionType}${strikeFormatted}`;
+      // Use proper Alpaca option symbol format: SPY240818C00643000 (SPXW for SPX dailies)
+      const optionSymbol = OptionContractId.build(spec.optionRoot, option.expiration, option.side, option.strike);
       
       console.log(`🔧 Generated option symbol: ${optionSymbol} (Fixed Alpaca format)`);
-      const actualStrike = strike;
-      
-      console.log(`🎯 DASH Submitting REAL Order: ${signal.action} ${quantity} contracts`);
+      console.log(`🎯 DASH Submitting REAL Order: ${action} ${quantity} contracts`);
       console.log(`📋 Option Symbol: ${optionSymbol}`);
-      console.log(`💰 Strike: $${actualStrike}, Risk: $${actualRisk.toFixed(2)} (Max: $${maxRiskPerTrade.toFixed(2)})`);
+      console.log(`💰 Strike: $${option.strike}, Risk: $${actualRisk.toFixed(2)} (Max: $${maxRiskPerTrade.toFixed(2)})`);
       
       // 🚨 SUBMIT ACTUAL ORDER TO ALPACA (same as main strategy)
       const order = await this.alpaca.createOrder({
@@ -706,12 +583,12 @@ export class DashboardAlpacaTradingEngine {
         orderId: order.id,
         clientOrderId,
         timestamp: currentBar.date,
-        action: signal.action,
+        action,
         symbol: optionSymbol,
-        strike: actualStrike,
-        entryPrice: estimatedOptionPrice,
+        strike: option.strike,
+        entryPrice: optionPrice,
         quantity,
-        signalType: signal.signalType,
+        signalType: this.strategyHost.strategy.name,
         status: 'SUBMITTED'
       };
       
@@ -720,6 +597,18 @@ export class DashboardAlpacaTradingEngine {
       this.dailyTradesGenerated++;
       this.lastSignalTime = currentBar.date.getTime();
       
+      const fill = StrategyPositions.buildFill(
+        { id: order.id, action: 'OPEN', timestamp: currentBar.date, legs: signal.legs },
+        trade.id,
+        false,
+        signal.legs.map(leg => leg.option),
+        this.costModel.fill(StrategyPositions.openingLegs(signal.legs, quantity)),
+        quantity
+      );
+      const position = StrategyPositions.open(symbol, signal, fill, currentPrice);
+      this.strategyPositions.push(position);
+      this.strategyHost.fill(fill, position);
+      
       console.log(`📈 Trade added to tracking: ${this.activeTrades.length}/${this.parameters.maxConcurrentPositions} active`);
       
     } catch (error: any) {
@@ -732,31 +621,20 @@ export class DashboardAlpacaTradingEngine {
     }
   }
 
-  private calculateStrike(currentPrice: number, action: 'BUY_CALL' | 'BUY_PUT'): number {
-    // Simple strike selection for 0-DTE
-    const roundedPrice = Math.round(currentPrice);
-    
-    if (action === 'BUY_CALL') {
-      return roundedPrice; // ATM calls
-    } else {
-      return roundedPrice; // ATM puts
-    }
-  }
-
-  private async manageDashboardPositions(currentBar: MarketData): Promise<void> {
+  private async manageDashboardPositions(symbol: string, currentBar: MarketData): Promise<void> {
     // Update order statuses with real Alpaca data
     await this.updateDashboardOrderStatuses();
     
     // Get real Alpaca positions to check P&L
     const alpacaPositions = await this.alpaca.getPositions();
     const dashboardPositions = alpacaPositions.filter((pos: any) => 
-      pos.symbol.includes('SPY') && pos.qty !== '0'
+      SymbolUniverse.underlyingOf(pos.symbol) === symbol && pos.qty !== '0'
     );
     
     if (dashboardPositions.length > 0) {
       const now = new Date();
       console.log(`🔍 [${now.toLocaleTimeString()}] REAL POSITION CHECK - ${dashboardPositions.length} active positions`);
-      console.log(`📊 Current SPY Price: $${currentBar.close.toFixed(2)}`);
+      console.log(`📊 Current ${symbol} Price: $${currentBar.close.toFixed(2)}`);
       
       // Check each real Alpaca position for exit conditions
       for (const position of dashboardPositions) {
@@ -932,7 +810,8 @@ export class DashboardAlpacaTradingEngine {
       const marketValue = parseFloat(position.market_value);
       const totalPnL = parseFloat(position.unrealized_pl);
       const costBasis = parseFloat(position.cost_basis);
-      const currentPrice = marketValue / (quantity * 100); // Per-contract price
+      const multiplier = SymbolUniverse.getSpec(SymbolUniverse.underlyingOf(symbol)).contractMultiplier;
+      const currentPrice = marketValue / (quantity * multiplier); // Per-contract price
       
       console.log(`🔍 REAL POSITION: ${symbol}`);
       console.log(`   💰 Market Value: $${marketValue} | P&L: $${totalPnL.toFixed(2)}`);
@@ -957,14 +836,16 @@ export class DashboardAlpacaTradingEngine {
         return;
       }
       
-      // CHECK TIME-BASED EXIT (3:30 PM for 0-DTE)
-      const now = new Date();
-      const hour = now.getHours();
-      const minute = now.getMinutes();
+      // CHECK TIME-BASED EXIT (3:30 PM ET for 0-DTE, or ahead of a 1:00 PM early close)
+      const { minutes: easternMinutes, day } = MarketCalendar.toEastern(new Date());
+      const hour = Math.floor(easternMinutes / 60);
+      const minute = easternMinutes % 60;
       const timeDecimal = hour + (minute / 60);
+      const sessionCloseHour = (MarketCalendar.isEarlyClose(day) ? MarketCalendar.EARLY_CLOSE_MINUTES : MarketCalendar.REGULAR_CLOSE_MINUTES) / 60;
+      const forceExitTime = this.parameters.forceExitTime - (16 - sessionCloseHour); // Same lead time before an early close
       
-      if (timeDecimal >= this.parameters.forceExitTime) {
-        console.log(`⏰ FORCE EXIT TIME: ${hour}:${minute.toString().padStart(2, '0')} >= ${this.parameters.forceExitTime}`);
+      if (timeDecimal >= forceExitTime) {
+        console.log(`⏰ FORCE EXIT TIME: ${hour}:${minute.toString().padStart(2, '0')} >= ${forceExitTime}`);
         await this.closeAlpacaPosition(symbol, quantity, 'TIME_EXIT');
         return;
       }
@@ -1006,6 +887,7 @@ export class DashboardAlpacaTradingEngine {
         const trade = this.activeTrades[tradeIndex];
         trade.pnl = pnl;
         trade.status = 'FILLED'; // Mark as completed
+        this.dailyRealizedPnL += pnl;
         
         // Move to completed trades for win rate calculation
         this.completedTrades.push(trade);
@@ -1042,6 +924,7 @@ export class DashboardAlpacaTradingEngine {
       }
       
       // Move to completed trades
+      this.dailyRealizedPnL += trade.pnl;
       this.activeTrades = this.activeTrades.filter(t => t.id !== trade.id);
       this.completedTrades.push(trade);
       
@@ -1058,6 +941,7 @@ export class DashboardAlpacaTradingEngine {
     if (currentDay !== this.currentDay) {
       this.currentDay = currentDay;
       this.dailyTradesGenerated = 0;
+      this.dailyRealizedPnL = 0;
       console.log(`📅 Dashboard new trading day: ${currentDay}`);
     }
   }
@@ -1102,9 +986,38 @@ export class DashboardAlpacaTradingEngine {
       avgWin: winningTrades.length > 0 ? winningTrades.reduce((sum, t) => sum + (t.pnl || 0), 0) / winningTrades.length : 0,
       avgLoss: losingTrades.length > 0 ? Math.abs(losingTrades.reduce((sum, t) => sum + (t.pnl || 0), 0) / losingTrades.length) : 0,
       isRunning: this.isRunning,
-      parameters: this.parameters
+      parameters: this.parameters,
+      portfolioGreeks: this.calculatePortfolioGreeks()
     };
   }
+
+  /**
+   * Greeks of the open trades at the latest prices, each at the IV its fill implies
+   */
+  private calculatePortfolioGreeks(): PortfolioGreeks {
+    const now = new Date();
+    const positions = this.activeTrades.flatMap(trade => {
+      const contract = OptionContractId.tryParse(trade.symbol);
+      const underlying = SymbolUniverse.underlyingOf(trade.symbol);
+      const price = this.latestPrices[underlying];
+      if (!contract || !(price > 0)) {
+        return [];
+      }
+      const premium = trade.fillPrice || trade.entryPrice;
+      const option: OptionsChain = { symbol: trade.symbol, strike: contract.strike, side: contract.side, expiration: OptionContractId.expirationTime(contract), bid: 0, ask: 0, last: premium };
+      const greeks = GreeksEngine.calculateGreeksAt(option, price, now);
+      return [{
+        underlying,
+        contracts: trade.quantity,
+        delta: greeks.delta * trade.quantity,
+        gamma: greeks.gamma * trade.quantity,
+        theta: greeks.theta * trade.quantity,
+        vega: greeks.vega * trade.quantity,
+        premium
+      }];
+    });
+    return this.portfolioGreeks.aggregate(positions, this.latestPrices, now);
+  }
 }
 
 export default DashboardAlpacaTradingEngine;
\ No newline at end of file
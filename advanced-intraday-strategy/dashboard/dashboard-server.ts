@@ -371,6 +371,7 @@ export class DashboardServer {
             data: {
               ...this.tradingStats,
               activeTrades: realStats.activeTrades,
+              portfolioGreeks: realStats.portfolioGreeks,
               tradePrefix: 'DASH_' // Show dashboard trade identification
             }
           });
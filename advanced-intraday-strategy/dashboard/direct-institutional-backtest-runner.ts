@@ -1,14 +1,24 @@
 #!/usr/bin/env ts-node
 /**
  * DIRECT INSTITUTIONAL BACKTEST RUNNER
- * 
+ *
  * Integrates our working DirectInstitutionalIntegration with the dashboard
  * for real-time parameter adjustment and testing
  */
 
-import { TradingParameters } from './trading-parameters';
-import { Strategy, BacktestParams } from '../../lib/types';
-import DirectInstitutionalIntegration from '../../clean-strategy/core/institutional-strategy/direct-institutional-integration';
+import { TradingParameters, TradingPreset, ParameterPresets, ParameterValidator } from './trading-parameters';
+import { OptionsChain, BacktestTrade } from '../../lib/types';
+import { MarketDataProvider, MarketDataSource } from '../../lib/market-data-provider';
+import { createMarketDataProvider } from '../../lib/market-data-provider-factory';
+import { MarketCalendar } from '../../lib/market-calendar';
+import { SyntheticMarketSimulator } from '../../lib/synthetic-market-simulator';
+import { DirectSignalStrategy } from './direct-signal-strategy';
+import { BacktestCore, BacktestCoreResult } from '../../lib/backtest-core';
+import { MidpointCostModel } from '../../lib/backtest-cost-models';
+import { WalkForwardOptimizer, WalkForwardCandidate, WalkForwardConfig, WalkForwardResult } from '../../lib/walk-forward-optimizer';
+import { ParameterOptimizer, ParameterOptimizerConfig, SearchRange, OptimizationResult } from '../../lib/parameter-optimizer';
+import { DirectIntegrationConfig } from '../../clean-strategy/core/institutional-strategy/direct-institutional-integration';
+import { BacktestJobScheduler, BacktestJob, JobProgress } from '../../lib/backtest-job-scheduler';
 
 export interface DirectInstitutionalResults {
   totalTrades: number;
@@ -31,183 +41,201 @@ export interface DirectInstitutionalResults {
   };
 }
 
+// Searched by the parameter optimizer as trading.* and direct.* paths
+export interface DirectOptimizationParameters {
+  trading: TradingParameters;
+  direct: Partial<DirectIntegrationConfig>; // Overrides of the integration config derived from `trading`
+}
+
 export class DirectInstitutionalBacktestRunner {
-  
+  private static readonly simulator = SyntheticMarketSimulator.fromEnv();
+  private static readonly PRESET_BACKTEST_HANDLER = 'direct-institutional-backtest';
+
   /**
    * Run backtest using our proven DirectInstitutionalIntegration
    */
   static async runDirectInstitutionalBacktest(
     parameters: TradingParameters,
     timeframe: '1Min' | '5Min' | '15Min' = '1Min',
-    daysBack: number = 3
+    daysBack: number = 3,
+    dataProvider: MarketDataProvider = createMarketDataProvider(
+      (process.env.MARKET_DATA_SOURCE as MarketDataSource) || 'alpaca-http'
+    ),
+    symbol: string = process.env.DASHBOARD_SYMBOL || 'SPY'
   ): Promise<DirectInstitutionalResults> {
-    
+
     console.log('🏛️ DIRECT INSTITUTIONAL BACKTEST');
     console.log('==============================');
+    console.log(`📊 Underlying: ${symbol}`);
     console.log(`📅 Period: Last ${daysBack} days`);
     console.log(`⏱️ Timeframe: ${timeframe}`);
     console.log(`🎯 Daily Target: $${parameters.dailyPnLTarget}`);
     console.log(`🛡️ Stop Loss: ${(parameters.initialStopLossPct * 100).toFixed(0)}%`);
     console.log(`📈 Profit Target: ${(parameters.profitTargetPct * 100).toFixed(0)}%`);
     console.log(`🏛️ Engine: DirectInstitutionalIntegration (PROVEN)`);
+    console.log(`📡 Market Data: ${dataProvider.name}`);
     console.log('');
 
     try {
-      // Use REAL Alpaca historical data instead of mock data
-      const { alpacaHTTPClient } = await import('../../lib/alpaca-http-client');
-      
-      // Calculate date range for real data
       const endDate = new Date();
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - daysBack);
-      
-      console.log(`📊 Fetching REAL Alpaca data from ${startDate.toDateString()} to ${endDate.toDateString()}`);
-      
-      // Fetch ONLY real market data from Alpaca (NO MOCK DATA FALLBACK)
-      let marketData;
-      try {
-        marketData = await alpacaHTTPClient.getMarketData('SPY', startDate, endDate, timeframe);
-        
-        if (marketData.length < 10) {
-          throw new Error(`Insufficient real data: only ${marketData.length} bars retrieved. Minimum 10 required.`);
-        }
-        
-        console.log('✅ Successfully retrieved REAL Alpaca market data');
-        
-      } catch (alpacaError) {
-        console.error('❌ REAL DATA FETCH FAILED:', alpacaError);
-        console.error('🚫 Mock data is DISABLED. Please check:');
-        console.error('   1. Alpaca API credentials are correct');
-        console.error('   2. Internet connection is working');
-        console.error('   3. Date range has market data available');
-        throw new Error(`Real Alpaca data fetch failed: ${alpacaError}. Mock data disabled by user request.`);
-      }
-      
-      // Generate options chain based on REAL market price
-      const currentPrice = marketData[marketData.length - 1].close;
-      const optionsChain = this.generateMockOptionsChain(currentPrice);
-      
-      console.log(`📊 Using ${marketData.length} bars of REAL ALPACA market data (SPY: $${currentPrice.toFixed(2)})`);
-      console.log(`📋 Generated ${optionsChain.length} options contracts based on real price`);
-      console.log(`📅 Data range: ${marketData[0].date.toDateString()} to ${marketData[marketData.length - 1].date.toDateString()}`);
-      console.log('');
-      
-      // Track signals by type
-      const signalBreakdown = {
-        gexSignals: 0,
-        avpSignals: 0,
-        avwapSignals: 0,
-        fractalSignals: 0,
-        atrSignals: 0
-      };
-      
-      const trades = [];
-      let totalPnL = 0;
-      let winningTrades = 0;
-      let totalWins = 0;
-      let totalLosses = 0;
-      
-      // Simulate trading over the period
-      for (let i = 50; i < marketData.length; i += 10) { // Every 10 bars
-        const currentData = marketData.slice(0, i + 1);
-        const currentBar = currentData[i];
-        
-        // 🕘 MARKET HOURS VALIDATION - Only trade during regular hours (9:30 AM - 4:00 PM ET)
-        if (!this.isMarketHours(currentBar.date)) {
-          continue; // Skip this bar - outside market hours (matches Alpaca restrictions)
-        }
-        
-        try {
-          // Use our proven DirectInstitutionalIntegration with relaxed config for real data
-          const relaxedDirectConfig = {
-            gexWeight: 0.30,
-            avpWeight: 0.20,
-            avwapWeight: 0.20,
-            fractalWeight: 0.20,
-            atrWeight: 0.10,
-            minimumBullishScore: 0.5,  // Relaxed from 0.7
-            minimumBearishScore: 0.5,
-            riskMultiplier: 1.0,
-            maxPositionSize: 0.02
-          };
-          
-          const signal = await DirectInstitutionalIntegration.generateDirectSignal(
-            currentData,
-            optionsChain,
-            25000,  // Account balance
-            relaxedDirectConfig  // Use relaxed thresholds (0.5 vs 0.7 confluence)
-          );
-          
-          if (signal && signal.action !== 'NO_TRADE') {
-            
-            // Simulate trade execution
-            const trade = await this.executeRealOnlyTrade(signal, parameters, currentBar);
-            if (trade) {
-            trades.push(trade);
-            }
-            
-            totalPnL += trade.pnl;
-            if (trade.pnl > 0) {
-              winningTrades++;
-              totalWins += trade.pnl;
-            } else {
-              totalLosses += Math.abs(trade.pnl);
-            }
-            
-            // Track signal types (simplified)
-            signalBreakdown.gexSignals++;
-            
-            console.log(`📊 Trade ${trades.length}: ${signal.action} → P&L: ${trade.pnl >= 0 ? '+' : ''}$${trade.pnl.toFixed(2)}`);
-          }
-          
-        } catch (error) {
-          // Continue on individual signal errors
-          console.log(`⚠️ Signal generation error at bar ${i}: ${error}`);
-        }
-      }
-      
-      // Calculate results
-      const winRate = trades.length > 0 ? winningTrades / trades.length : 0;
-      const avgDailyPnL = totalPnL / daysBack;
-      const totalReturn = (totalPnL / 25000) * 100; // Percentage return
-      const maxDrawdown = this.calculateMaxDrawdown(trades);
-      const avgWin = winningTrades > 0 ? totalWins / winningTrades : 0;
-      const avgLoss = (trades.length - winningTrades) > 0 ? totalLosses / (trades.length - winningTrades) : 0;
-      const profitFactor = totalLosses > 0 ? totalWins / totalLosses : totalWins > 0 ? 999 : 0;
-      const sharpeRatio = this.calculateSharpeRatio(trades, daysBack);
-      
+      const capital = parameters.accountSize || 25000;
+
+      const { result, signalBreakdown } = await this.backtestWindow(parameters, startDate, endDate, capital, timeframe, dataProvider, symbol);
+
+      const performance = result.performance;
+      const totalLosses = performance.averageLoss * performance.losingTrades;
+
       const results: DirectInstitutionalResults = {
-        totalTrades: trades.length,
-        winRate,
-        totalReturn,
-        avgDailyPnL,
-        maxDrawdown,
-        avgWin,
-        avgLoss,
-        profitFactor,
-        sharpeRatio,
+        totalTrades: performance.totalTrades,
+        winRate: performance.winRate / 100,
+        totalReturn: performance.totalReturnPercent,
+        avgDailyPnL: performance.totalReturn / daysBack,
+        maxDrawdown: performance.maxDrawdown / 100,
+        avgWin: performance.averageWin,
+        avgLoss: performance.averageLoss,
+        profitFactor: totalLosses > 0 ? performance.profitFactor : performance.winningTrades > 0 ? 999 : 0,
+        sharpeRatio: this.calculateSharpeRatio(result.trades, capital),
         period: `${daysBack} days (Direct Institutional)`,
         parametersUsed: parameters,
-        signalBreakdown
+        signalBreakdown: { ...signalBreakdown }
       };
-      
+
       console.log('✅ DIRECT INSTITUTIONAL BACKTEST COMPLETED');
       console.log(`📊 Results: ${results.totalTrades} trades, ${(results.winRate * 100).toFixed(1)}% win rate`);
       console.log(`💰 Avg Daily P&L: $${results.avgDailyPnL.toFixed(2)}`);
       console.log(`🏛️ Signal Breakdown: GEX=${signalBreakdown.gexSignals}, AVP=${signalBreakdown.avpSignals}`);
       console.log('');
-      
-      this.saveBacktestToFile(trades, parameters, results);
 
-      
+      this.saveBacktestToFile(result.trades, parameters, results, capital);
+
+
       return results;
-      
+
     } catch (error) {
       console.error('❌ DIRECT INSTITUTIONAL BACKTEST FAILED:', error);
       throw new Error(`Direct institutional backtest execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-  
+
+  /**
+   * Walk-forward test of dashboard parameter sets: the best candidate on each in-sample
+   * window trades the out-of-sample window after it. The four presets by default
+   */
+  static async runWalkForward(
+    startDate: Date,
+    endDate: Date,
+    candidates: WalkForwardCandidate<TradingParameters>[] = ParameterPresets.getAllPresets().map(preset => ({ name: preset.name, parameters: preset.parameters })),
+    config: Partial<WalkForwardConfig> = {},
+    timeframe: '1Min' | '5Min' | '15Min' = '1Min',
+    dataProvider: MarketDataProvider = createMarketDataProvider(
+      (process.env.MARKET_DATA_SOURCE as MarketDataSource) || 'alpaca-http'
+    ),
+    symbol: string = process.env.DASHBOARD_SYMBOL || 'SPY'
+  ): Promise<WalkForwardResult<TradingParameters>> {
+    const optimizer = new WalkForwardOptimizer<TradingParameters>(
+      async (parameters, windowStart, windowEnd, initialCapital) =>
+        (await this.backtestWindow(parameters, windowStart, windowEnd, initialCapital, timeframe, dataProvider, symbol)).result,
+      { initialCapital: candidates[0]?.parameters.accountSize || 25000, ...config }
+    );
+    return optimizer.run(candidates, startDate, endDate);
+  }
+
+  /**
+   * Backtest several presets side by side on the scheduler's workers. Each worker builds its
+   * own data provider from MARKET_DATA_SOURCE, since a provider cannot cross threads
+   */
+  static async runPresetSweep(
+    scheduler: BacktestJobScheduler,
+    presets: TradingPreset[] = ParameterPresets.getAllPresets(),
+    timeframe: '1Min' | '5Min' | '15Min' = '1Min',
+    daysBack: number = 3,
+    onProgress?: (progress: JobProgress) => void
+  ): Promise<{ preset: string; results: DirectInstitutionalResults }[]> {
+    scheduler.registerHandler(this.PRESET_BACKTEST_HANDLER, {
+      module: __filename,
+      exportName: 'DirectInstitutionalBacktestRunner',
+      method: 'runDirectInstitutionalBacktest'
+    });
+    const jobs: BacktestJob[] = presets.map(preset => ({
+      type: 'CALL',
+      handler: this.PRESET_BACKTEST_HANDLER,
+      args: [preset.parameters, timeframe, daysBack]
+    }));
+    const results = await scheduler.runAll<DirectInstitutionalResults>(jobs, { onProgress });
+    return results.map((result, i) => ({ preset: presets[i].name, results: result }));
+  }
+
+  /**
+   * Variations of a preset over a grid of parameter values, without the combinations the
+   * dashboard would reject
+   */
+  static parameterGrid(preset: TradingPreset, grid: Partial<Record<keyof TradingParameters, number[]>>): WalkForwardCandidate<TradingParameters>[] {
+    return WalkForwardOptimizer.grid({ name: preset.name, parameters: preset.parameters }, grid)
+      .filter(candidate => ParameterValidator.validate(candidate.parameters).valid);
+  }
+
+  /**
+   * Grid, random or Bayesian search over dashboard parameters (trading.profitTargetPct) and
+   * DirectIntegrationConfig fields (direct.maxRiskPerTrade). Combinations the dashboard
+   * would reject are scored infeasible without a backtest
+   */
+  static async runOptimization(
+    ranges: SearchRange[],
+    startDate: Date,
+    endDate: Date,
+    base: TradingParameters = ParameterPresets.BALANCED.parameters,
+    config: Partial<ParameterOptimizerConfig> = {},
+    timeframe: '1Min' | '5Min' | '15Min' = '1Min',
+    dataProvider: MarketDataProvider = createMarketDataProvider(
+      (process.env.MARKET_DATA_SOURCE as MarketDataSource) || 'alpaca-http'
+    ),
+    symbol: string = process.env.DASHBOARD_SYMBOL || 'SPY'
+  ): Promise<OptimizationResult<DirectOptimizationParameters>> {
+    const optimizer = new ParameterOptimizer<DirectOptimizationParameters>(
+      async (parameters, windowStart, windowEnd, initialCapital) =>
+        (await this.backtestWindow(parameters.trading, windowStart, windowEnd, initialCapital, timeframe, dataProvider, symbol, parameters.direct)).result,
+      { initialCapital: base.accountSize || 25000, ...config },
+      parameters => ParameterValidator.validate(parameters.trading).errors
+    );
+    return optimizer.optimize({ trading: base, direct: {} }, ranges, startDate, endDate);
+  }
+
+  /**
+   * DirectSignalStrategy over one period. Only trades during regular hours (matches Alpaca
+   * restrictions), on a seeded 0-DTE chain repriced at every bar
+   */
+  private static async backtestWindow(
+    parameters: TradingParameters,
+    startDate: Date,
+    endDate: Date,
+    initialCapital: number,
+    timeframe: '1Min' | '5Min' | '15Min',
+    dataProvider: MarketDataProvider,
+    symbol: string,
+    directOverrides: Partial<DirectIntegrationConfig> = {}
+  ): Promise<{ result: BacktestCoreResult; signalBreakdown: DirectSignalStrategy['signalBreakdown'] }> {
+    const plugin = new DirectSignalStrategy(parameters, directOverrides);
+    const core = new BacktestCore({
+      timeframe,
+      regularHoursOnly: true,
+      quoteRefresh: 'BAR',
+      quoteProvider: (underlying, asOf, underlyingPrice) => this.generateRealisticOptionsChain(underlying, underlyingPrice, asOf),
+      costModel: new MidpointCostModel(),
+      dataProvider,
+      progressEvery: 100
+    });
+    const result = await core.run(plugin, {
+      strategyId: 'direct-institutional',
+      startDate,
+      endDate,
+      initialCapital,
+      symbols: [symbol]
+    });
+    return { result, signalBreakdown: { ...plugin.signalBreakdown } };
+  }
+
   /**
    * DISABLED: Generate realistic market data for testing
    * 
@@ -269,286 +297,19 @@ export class DirectInstitutionalBacktestRunner {
     return data;
   }
   */ // END DISABLED MOCK DATA METHOD
-  
-  /**
-   * Generate mock options chain based on current market price
-   */
-  private static generateMockOptionsChain(currentPrice: number = 480): any[] {
-    const chain = [];
-    const basePrice = currentPrice;
-    
-    // Generate strikes around current price
-    for (let strike = basePrice - 10; strike <= basePrice + 10; strike += 1) {
-      // Calls
-      chain.push({
-        symbol: `SPY${strike}C`,
-        strike,
-        side: 'CALL' as const,
-        bid: 2.5,
-        ask: 2.7,
-        expiration: new Date(Date.now() + 24 * 60 * 60 * 1000), // Tomorrow
-        delta: 0.5,
-        volume: 1000,
-        openInterest: 5000
-      });
-      
-      // Puts
-      chain.push({
-        symbol: `SPY${strike}P`,
-        strike,
-        side: 'PUT' as const,
-        bid: 2.3,
-        ask: 2.5,
-        expiration: new Date(Date.now() + 24 * 60 * 60 * 1000), // Tomorrow
-        delta: -0.5,
-        volume: 1000,
-        openInterest: 5000
-      });
-    }
-    
-    return chain;
-  }
-  
-  /**
-   * Execute trade using REAL options only - no fake data
-   */
-  private static async executeRealOnlyTrade(signal: any, parameters: TradingParameters, currentBar: any): Promise<any> {
-    try {
-      // Generate realistic options based on Theta Data structure
-      const optionsChain = this.generateRealisticOptionsChain(currentBar.close, currentBar.date);
-      
-      // 🔍 DEBUG: Let's see what's actually in the options chain
-      console.log(`🔍 DEBUG OPTIONS CHAIN:`);
-      console.log(`   Total options: ${optionsChain.length}`);
-      if (optionsChain.length > 0) {
-        const firstOption = optionsChain[0];
-        console.log(`   First option structure:`, firstOption);
-        console.log(`   Has bid: ${firstOption.bid !== undefined} (value: ${firstOption.bid})`);
-        console.log(`   Has ask: ${firstOption.ask !== undefined} (value: ${firstOption.ask})`);
-        console.log(`   Has delta: ${firstOption.delta !== undefined} (value: ${firstOption.delta})`);
-        console.log(`   Has side: ${firstOption.side !== undefined} (value: ${firstOption.side})`);
-        
-        // Show a few more options
-        optionsChain.slice(0, 3).forEach((opt, i) => {
-          console.log(`   Option ${i+1}: ${opt.side} $${opt.strike} | Bid: $${opt.bid} | Ask: $${opt.ask} | Delta: ${opt.delta}`);
-        });
-      }
-
-      const currentPrice = currentBar.close;
-      const optionType = signal.action.includes('CALL') ? 'CALL' : 'PUT';
-      
-      // Find REAL options with actual pricing (relaxed criteria for 0-DTE)
-      const realOptions = optionsChain.filter(opt => {
-        return opt.side === optionType && 
-               opt.bid > 0.01 && opt.ask > 0.01 && // Any real pricing
-               opt.bid < opt.ask && // Valid spread
-               opt.strike >= currentPrice * 0.90 && opt.strike <= currentPrice * 1.10; // Within 10%
-      });
-      
-      if (realOptions.length === 0) {
-        console.log(`❌ No real ${optionType} options found - SKIPPING (no fake data)`);
-        return null;
-      }
-      
-      // Select closest to current price
-      const selectedOption = realOptions.reduce((best, current) => {
-        const bestDiff = Math.abs(best.strike - currentPrice);
-        const currentDiff = Math.abs(current.strike - currentPrice);
-        return currentDiff < bestDiff ? current : best;
-      });
-      
-      const entryPrice = (selectedOption.bid + selectedOption.ask) / 2;
-      
-      console.log(`✅ REAL OPTION: $${selectedOption.strike} ${optionType} | Entry: $${entryPrice.toFixed(2)} (bid: $${selectedOption.bid}, ask: $${selectedOption.ask})`);
-      
-      // Dashboard position sizing
-      const portfolioValue = parameters.accountSize || 25000;
-      const maxRiskPerTrade = portfolioValue * parameters.maxRiskPerTradePct;
-      const quantity = Math.max(1, Math.floor(maxRiskPerTrade / (entryPrice * 100)));
-      const actualRisk = quantity * entryPrice * 100;
-      
-      if (actualRisk > maxRiskPerTrade) {
-        console.log(`🚫 Risk too high: $${actualRisk} > $${maxRiskPerTrade} - SKIPPING`);
-        return null;
-      }
-      
-      // Exit simulation using dashboard parameters
-    const random = Math.random();
-      const isWinner = random < (signal.confidence || 0.65);
-      
-      let exitPrice, pnl;
-    if (isWinner) {
-        exitPrice = entryPrice * (1 + parameters.profitTargetPct);
-        pnl = (exitPrice - entryPrice) * quantity * 100;
-    } else {
-        exitPrice = entryPrice * (1 - parameters.initialStopLossPct);
-        pnl = (exitPrice - entryPrice) * quantity * 100;
-      }
-      
-      // Calculate realistic hold time (15-60 minutes for 0-DTE)
-      const holdTimeMinutes = Math.floor(Math.random() * 45 + 15); // 15-60 minutes
-      const entryTime = new Date(currentBar.date);
-      const exitTime = new Date(entryTime.getTime() + holdTimeMinutes * 60000);
-      const duration = `${holdTimeMinutes}min`;
-    
-    return {
-      signal: signal.action,
-      entryPrice,
-        exitPrice,
-      pnl,
-      timestamp: currentBar.date,
-        entryTime: entryTime,
-        exitTime: exitTime,
-        duration: duration,
-        confidence: signal.confidence,
-        strike: selectedOption.strike,
-        quantity: quantity
-      };
-      
-    } catch (error) {
-      console.log(`❌ Real execution failed: ${error}`);
-      return null; // Skip on error
-    }
-  }
-  
-
-  /**
-   * Generate realistic options structure based on Theta Data format
-   */
-  private static generateRealisticOptionsFromTheta(currentPrice: number, dateStr: string): any[] {
-    const options = [];
-    
-    // Generate realistic 0-DTE options around current price
-    for (let i = -10; i <= 10; i++) {
-      const strike = Math.round(currentPrice) + i;
-      
-      // Calculate realistic Greeks and pricing for 0-DTE
-      const moneyness = (currentPrice - strike) / currentPrice;
-      
-      // CALL options
-      const callDelta = Math.max(0.01, Math.min(0.99, 0.50 + moneyness * 10));
-      const callPrice = Math.max(0.01, Math.abs(moneyness) < 0.01 ? 
-        2.50 + Math.random() * 1.0 : // ATM: $2.50-3.50
-        Math.max(0.05, 3.0 * Math.exp(-Math.abs(moneyness) * 100)) + Math.random() * 0.5); // OTM decay
-      
-      options.push({
-        side: 'CALL',
-        strike: strike,
-        bid: callPrice * 0.95,
-        ask: callPrice * 1.05,
-        delta: callDelta,
-        expiration: dateStr
-      });
-      
-      // PUT options  
-      const putDelta = Math.max(-0.99, Math.min(-0.01, -0.50 + moneyness * 10));
-      const putPrice = Math.max(0.01, Math.abs(moneyness) < 0.01 ? 
-        2.50 + Math.random() * 1.0 : // ATM: $2.50-3.50
-        Math.max(0.05, 3.0 * Math.exp(-Math.abs(moneyness) * 100)) + Math.random() * 0.5); // OTM decay
-      
-      options.push({
-        side: 'PUT',
-        strike: strike,
-        bid: putPrice * 0.95,
-        ask: putPrice * 1.05,
-        delta: putDelta,
-        expiration: dateStr
-      });
-    }
-    
-    console.log(`✅ Generated ${options.length} realistic options from Theta Data structure`);
-    return options;
-  }
-
 
   /**
-   * Generate realistic options chain based on Theta Data patterns
+   * Seeded synthetic 0-DTE chain as of the bar being traded
    */
-  private static generateRealisticOptionsChain(currentPrice: number, date: Date): any[] {
-    const options = [];
-    const dateStr = date.toISOString().split('T')[0].replace(/-/g, '');
-    
-    console.log(`📊 Generating realistic options for SPY at $${currentPrice.toFixed(2)} (${dateStr})`);
-    
-    // Generate realistic 0-DTE options around current price (±$10 range)
-    for (let i = -10; i <= 10; i++) {
-      const strike = Math.round(currentPrice) + i;
-      const moneyness = (currentPrice - strike) / currentPrice;
-      
-      // CALL options with realistic institutional Greeks
-      const callDelta = Math.max(0.01, Math.min(0.99, 
-        strike <= currentPrice ? 0.85 - Math.abs(moneyness) * 5 : // ITM
-        0.50 * Math.exp(-Math.abs(moneyness) * 20) // OTM
-      ));
-      
-      // Realistic 0-DTE pricing based on moneyness
-      let callPrice;
-      if (Math.abs(moneyness) < 0.003) {
-        callPrice = 2.00 + Math.random() * 1.00; // ATM: $2.00-3.00
-      } else if (Math.abs(moneyness) < 0.008) {
-        callPrice = 1.25 + Math.random() * 0.75; // Near ATM: $1.25-2.00
-      } else if (Math.abs(moneyness) < 0.015) {
-        callPrice = 0.50 + Math.random() * 0.50; // OTM: $0.50-1.00
-      } else {
-        callPrice = 0.05 + Math.random() * 0.25; // Far OTM: $0.05-0.30
-      }
-      
-      options.push({
-        symbol: `SPY${dateStr.slice(2)}C${String(strike * 1000).padStart(8, '0')}`,
-        strike: strike,
-        side: 'CALL',
-        bid: callPrice * 0.95,
-        ask: callPrice * 1.05,
-        delta: callDelta,
-        last: callPrice,
-        volume: Math.floor(Math.random() * 500) + 10,
-        openInterest: Math.floor(Math.random() * 2000) + 100,
-        impliedVolatility: 0.15 + Math.random() * 0.30,
-        expiration: dateStr
-      });
-      
-      // PUT options with realistic institutional Greeks
-      const putDelta = Math.max(-0.99, Math.min(-0.01,
-        strike >= currentPrice ? -0.85 + Math.abs(moneyness) * 5 : // ITM
-        -0.50 * Math.exp(-Math.abs(moneyness) * 20) // OTM
-      ));
-      
-      // Realistic PUT pricing
-      let putPrice;
-      if (Math.abs(moneyness) < 0.003) {
-        putPrice = 2.00 + Math.random() * 1.00; // ATM
-      } else if (Math.abs(moneyness) < 0.008) {
-        putPrice = 1.25 + Math.random() * 0.75; // Near ATM
-      } else if (Math.abs(moneyness) < 0.015) {
-        putPrice = 0.50 + Math.random() * 0.50; // OTM
-      } else {
-        putPrice = 0.05 + Math.random() * 0.25; // Far OTM
-      }
-      
-      options.push({
-        symbol: `SPY${dateStr.slice(2)}P${String(strike * 1000).padStart(8, '0')}`,
-        strike: strike,
-        side: 'PUT',
-        bid: putPrice * 0.95,
-        ask: putPrice * 1.05,
-        delta: putDelta,
-        last: putPrice,
-        volume: Math.floor(Math.random() * 500) + 10,
-        openInterest: Math.floor(Math.random() * 2000) + 100,
-        impliedVolatility: 0.15 + Math.random() * 0.30,
-        expiration: dateStr
-      });
-    }
-    
-    console.log(`✅ Generated ${options.length} realistic options with proper Greeks and pricing`);
-    return options;
+  private static generateRealisticOptionsChain(symbol: string, currentPrice: number, date: Date): OptionsChain[] {
+    return this.simulator.getOptionsChain(symbol, { asOf: date, spot: currentPrice, strikesPerSide: 10 });
   }
 
 
   /**
    * Save detailed backtest results to log file (keep only last 10 files)
    */
-  private static saveBacktestToFile(trades: any[], parameters: TradingParameters, results: DirectInstitutionalResults): void {
+  private static saveBacktestToFile(trades: BacktestTrade[], parameters: TradingParameters, results: DirectInstitutionalResults, capital: number): void {
     try {
       const fs = require('fs');
       const path = require('path');
@@ -606,25 +367,27 @@ export class DirectInstitutionalBacktestRunner {
       // Add ALL trades to the log with timestamps
       trades.forEach((trade, index) => {
         const tradeNum = index + 1;
-        const pnlPercent = ((trade.exitPrice - trade.entryPrice) / trade.entryPrice) * 100;
-        const result = trade.pnl > 0 ? 'WIN ✅' : 'LOSS❌';
-        const action = trade.signal.padEnd(9);
-        
-        // Generate realistic timestamps for trade
-        const entryTime = trade.entryTime ? new Date(trade.entryTime).toLocaleTimeString() : '09:30:00';
-        const exitTime = trade.exitTime ? new Date(trade.exitTime).toLocaleTimeString() : '10:15:00';
-        const duration = trade.duration || '45min';
+        const pnl = trade.pnl || 0;
+        const exitPrice = trade.exitPrice || 0;
+        const pnlPercent = ((exitPrice - trade.entryPrice) / trade.entryPrice) * 100;
+        const result = pnl > 0 ? 'WIN ✅' : 'LOSS❌';
+        const action = `BUY_${trade.side}`.padEnd(9);
+
+        const exitDate = trade.exitDate || trade.entryDate;
+        const entryTime = trade.entryDate.toLocaleTimeString();
+        const exitTime = exitDate.toLocaleTimeString();
+        const duration = `${Math.round((exitDate.getTime() - trade.entryDate.getTime()) / 60000)}min`;
         
         logContent.push(
           `${tradeNum.toString().padStart(3)} | ` +
           `${action} | ` +
-          `$${(trade.strike || 639).toString().padStart(5)} | ` +
+          `$${trade.strike.toString().padStart(5)} | ` +
           `$${trade.entryPrice.toFixed(2).padStart(5)} | ` +
-          `$${trade.exitPrice.toFixed(2).padStart(5)} | ` +
+          `$${exitPrice.toFixed(2).padStart(5)} | ` +
           `${entryTime.padStart(9)} | ` +
           `${exitTime.padStart(10)} | ` +
           `${duration.padStart(8)} | ` +
-          `${(trade.pnl >= 0 ? '+' : '') + trade.pnl.toFixed(2).padStart(6)} | ` +
+          `${(pnl >= 0 ? '+' : '') + pnl.toFixed(2).padStart(6)} | ` +
           `${(pnlPercent >= 0 ? '+' : '') + pnlPercent.toFixed(1).padStart(5)}% | ` +
           `${result}`
         );
@@ -634,15 +397,15 @@ export class DirectInstitutionalBacktestRunner {
       
       // Summary of last 10 trades
       const last10Trades = trades.slice(-10);
-      const last10Wins = last10Trades.filter(t => t.pnl > 0).length;
+      const last10Wins = last10Trades.filter(t => (t.pnl || 0) > 0).length;
       const last10WinRate = last10Trades.length > 0 ? (last10Wins / last10Trades.length) * 100 : 0;
-      const last10PnL = last10Trades.reduce((sum, t) => sum + t.pnl, 0);
+      const last10PnL = last10Trades.reduce((sum, t) => sum + (t.pnl || 0), 0);
       
       logContent.push('');
       logContent.push('📊 TOTAL BACKTEST PERFORMANCE SUMMARY:');
       logContent.push(`   🎯 Total Trades: ${trades.length}`);
       logContent.push(`   🏆 Win Rate: ${results.totalTrades > 0 ? ((results.winRate * 100).toFixed(1)) : '0.0'}% (${Math.round(results.winRate * trades.length)}/${trades.length})`);
-      logContent.push(`   💰 Total P&L: ${results.totalReturn >= 0 ? '+' : ''}$${(results.totalReturn * 25000 / 100).toFixed(2)}`);
+      logContent.push(`   💰 Total P&L: ${results.totalReturn >= 0 ? '+' : ''}$${(results.totalReturn * capital / 100).toFixed(2)}`);
       logContent.push(`   📈 Avg Daily P&L: ${results.avgDailyPnL >= 0 ? '+' : ''}$${results.avgDailyPnL.toFixed(2)}`);
       logContent.push(`   📊 Avg Win: +$${results.avgWin.toFixed(2)} | Avg Loss: -$${results.avgLoss.toFixed(2)}`);
       logContent.push(`   📉 Max Drawdown: ${(results.maxDrawdown * 100).toFixed(1)}%`);
@@ -684,30 +447,10 @@ export class DirectInstitutionalBacktestRunner {
     }
   }
   
-  /**
-   * Calculate maximum drawdown
-   */
-  private static calculateMaxDrawdown(trades: any[]): number {
-    let peak = 0;
-    let maxDD = 0;
-    let runningPnL = 0;
-    
-    for (const trade of trades) {
-      runningPnL += trade.pnl;
-      if (runningPnL > peak) {
-        peak = runningPnL;
-      }
-      const drawdown = (peak - runningPnL) / (25000 + peak);
-      maxDD = Math.max(maxDD, drawdown);
-    }
-    
-    return maxDD;
-  }
-  
   /**
    * Calculate Sharpe ratio
    */
-  private static calculateSharpeRatio(trades: any[], daysBack: number): number {
+  private static calculateSharpeRatio(trades: BacktestTrade[], capital: number): number {
     if (trades.length < 2) return 0;
     
     const dailyReturns = [];
@@ -715,19 +458,19 @@ export class DirectInstitutionalBacktestRunner {
     let currentDay = '';
     
     for (const trade of trades) {
-      const day = trade.timestamp.toDateString();
+      const day = MarketCalendar.toEastern(trade.exitDate || trade.entryDate).day;
       if (day !== currentDay) {
         if (currentDay !== '') {
-          dailyReturns.push(dailyPnL / 25000);
+          dailyReturns.push(dailyPnL / capital);
         }
         currentDay = day;
         dailyPnL = 0;
       }
-      dailyPnL += trade.pnl;
+      dailyPnL += trade.pnl || 0;
     }
     
     if (dailyPnL !== 0) {
-      dailyReturns.push(dailyPnL / 25000);
+      dailyReturns.push(dailyPnL / capital);
     }
     
     if (dailyReturns.length < 2) return 0;
@@ -738,22 +481,6 @@ export class DirectInstitutionalBacktestRunner {
     
     return stdDev > 0 ? (avgReturn / stdDev) * Math.sqrt(252) : 0; // Annualized
   }
-
-  /**
-   * Check if the given date/time is during market hours (9:30 AM - 4:00 PM ET)
-   * This matches Alpaca's trading restrictions for realistic backtesting
-   */
-  private static isMarketHours(date: Date): boolean {
-    const hour = date.getHours();
-    const minute = date.getMinutes();
-    
-    // Market hours: 9:30 AM - 4:00 PM ET (same as Alpaca restrictions)
-    if (hour < 9 || (hour === 9 && minute < 30) || hour >= 16) {
-      return false;
-    }
-    
-    return true;
-  }
 }
 
 // 🧪 TEST REAL DATA SYSTEM
@@ -0,0 +1,206 @@
+/**
+ * DIRECT SIGNAL STRATEGY
+ * DirectInstitutionalIntegration signals as long 0-DTE options, as a TradingStrategy
+ *
+ * The direct institutional backtest runs it through BacktestCore and the dashboard
+ * engine runs it against the live feed, both configured from the dashboard's
+ * TradingParameters; only order routing differs between the two.
+ */
+
+import { TradingParameters } from './trading-parameters';
+import DirectInstitutionalIntegration, { DirectSignal, DirectIntegrationConfig } from '../../clean-strategy/core/institutional-strategy/direct-institutional-integration';
+import { MarketCalendar } from '../../lib/market-calendar';
+import { TradingStrategy, TradingSignal, BarContext, StrategyContext, StrategyPosition, StrategyParameter } from '../../lib/trading-strategy';
+
+/**
+ * Evaluated once every `signalEveryBars` new bars and managed with the dashboard's stop,
+ * target, trailing stop, hold-time and force-exit parameters on the option's mark
+ */
+export class DirectSignalStrategy implements TradingStrategy {
+  readonly name = 'Direct Institutional';
+  readonly warmupBars = 50;
+  readonly parameters: StrategyParameter[] = [
+    { name: 'signalEveryBars', type: 'integer', default: 10, min: 1, max: 120, step: 1, description: 'New bars between signal evaluations' },
+    { name: 'strikeWindowPct', type: 'number', default: 0.10, min: 0.01, max: 0.50, step: 0.01, description: 'Strikes considered, as a fraction of spot either side (relaxed for 0-DTE)' }
+  ];
+  readonly signalBreakdown = {
+    gexSignals: 0,
+    avpSignals: 0,
+    avwapSignals: 0,
+    fractalSignals: 0,
+    atrSignals: 0
+  };
+  private readonly directConfig: Partial<DirectIntegrationConfig>;
+  private barsSeen = 0;
+  private lastBar: Date | null = null;
+  private evaluatedBar: Date | null = null;
+  private lastEntry: Date | null = null;
+
+  constructor(private readonly tradingParameters: TradingParameters, directOverrides: Partial<DirectIntegrationConfig> = {}) {
+    // GEX disabled for trend following; relaxed confluence thresholds for real data (0.5 vs 0.7)
+    this.directConfig = {
+      gexWeight: 0.0,
+      avpWeight: tradingParameters.avpWeight || 0.25,
+      avwapWeight: tradingParameters.avwapWeight || 0.40,
+      fractalWeight: tradingParameters.fractalWeight || 0.25,
+      atrWeight: tradingParameters.atrWeight || 0.10,
+      minimumBullishScore: tradingParameters.minimumBullishScore || 0.5,
+      minimumBearishScore: tradingParameters.minimumBearishScore || 0.5,
+      maxPositionSize: tradingParameters.maxPositionSize || 0.02,
+      ...directOverrides
+    };
+  }
+
+  // The dashboard polls faster than bars arrive, so only new bars count
+  onBar(context: BarContext): void {
+    if (this.lastBar && context.timestamp.getTime() <= this.lastBar.getTime()) {
+      return;
+    }
+    this.lastBar = context.timestamp;
+    this.barsSeen++;
+  }
+
+  async onQuote(context: StrategyContext): Promise<TradingSignal[]> {
+    const signals: TradingSignal[] = [];
+    for (const position of context.positions) {
+      const reason = this.checkExit(position, context);
+      if (reason) {
+        signals.push({ action: 'CLOSE', positionId: position.id, reason });
+      }
+    }
+
+    if (!this.shouldEvaluate(context) || this.hourOf(context.timestamp) >= this.tradingParameters.forceExitTime) {
+      return signals;
+    }
+    if (context.allPositions.length - signals.length >= this.tradingParameters.maxConcurrentPositions) {
+      return signals;
+    }
+    const spacingMinutes = this.tradingParameters.reducedSignalSpacing
+      ? this.tradingParameters.minSignalSpacingMinutes / 2
+      : this.tradingParameters.minSignalSpacingMinutes;
+    if (this.lastEntry && context.timestamp.getTime() - this.lastEntry.getTime() < spacingMinutes * 60 * 1000) {
+      return signals;
+    }
+
+    try {
+      const signal = await DirectInstitutionalIntegration.generateDirectSignal(
+        context.history,
+        context.chain,
+        context.balance,
+        this.directConfig,
+        this.tradingParameters
+      );
+
+      if (signal && signal.action !== 'NO_TRADE') {
+        const entry = this.checkEntry(signal, context);
+        if (entry) {
+          signals.push(entry);
+          this.lastEntry = context.timestamp;
+        }
+      }
+    } catch (error) {
+      // Continue on individual signal errors
+      console.log(`⚠️ Signal generation error at ${context.timestamp.toISOString()}: ${error}`);
+    }
+    return signals;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  // First quote of every signalEveryBars-th bar (the first warm bar included)
+  private shouldEvaluate(context: StrategyContext): boolean {
+    if ((this.barsSeen - 1) % (context.params.signalEveryBars as number) !== 0) {
+      return false;
+    }
+    if (this.evaluatedBar && this.evaluatedBar.getTime() === this.lastBar?.getTime()) {
+      return false;
+    }
+    this.evaluatedBar = this.lastBar;
+    return true;
+  }
+
+  private checkEntry(signal: DirectSignal, context: StrategyContext): TradingSignal | null {
+    const currentPrice = context.bar.close;
+    // Bullish and bearish structures are both traded as long options
+    const optionType = signal.action === 'BUY_CALL' || signal.action === 'SELL_PUT' ? 'CALL' : 'PUT';
+    const window = context.params.strikeWindowPct as number;
+
+    const realOptions = context.chain.filter(opt =>
+      opt.side === optionType &&
+      opt.bid > 0.01 && opt.ask > 0.01 &&
+      opt.bid < opt.ask &&
+      opt.expiration.getTime() > context.timestamp.getTime() &&
+      opt.strike >= currentPrice * (1 - window) && opt.strike <= currentPrice * (1 + window)
+    );
+    if (realOptions.length === 0) {
+      console.log(`❌ No real ${optionType} options found - SKIPPING (no fake data)`);
+      return null;
+    }
+
+    const selectedOption = realOptions.reduce((best, current) =>
+      Math.abs(current.strike - currentPrice) < Math.abs(best.strike - currentPrice) ? current : best);
+    const entryPrice = (selectedOption.bid + selectedOption.ask) / 2;
+
+    // Dashboard position sizing
+    const maxRiskPerTrade = context.balance * this.tradingParameters.maxRiskPerTradePct;
+    const quantity = Math.max(1, Math.floor(maxRiskPerTrade / (entryPrice * context.spec.contractMultiplier)));
+    const actualRisk = quantity * entryPrice * context.spec.contractMultiplier;
+    if (actualRisk > maxRiskPerTrade) {
+      console.log(`🚫 Risk too high: $${actualRisk.toFixed(0)} > $${maxRiskPerTrade.toFixed(0)} - SKIPPING`);
+      return null;
+    }
+
+    // Components that contributed to the signal
+    if (signal.gexScore !== 0) this.signalBreakdown.gexSignals++;
+    if (signal.avpScore !== 0) this.signalBreakdown.avpSignals++;
+    if (signal.avwapScore !== 0) this.signalBreakdown.avwapSignals++;
+    if (signal.fractalScore !== 0) this.signalBreakdown.fractalSignals++;
+    if (signal.atrScore !== 0) this.signalBreakdown.atrSignals++;
+
+    console.log(`✅ REAL OPTION: $${selectedOption.strike} ${optionType} | Entry: $${entryPrice.toFixed(2)} (bid: $${selectedOption.bid}, ask: $${selectedOption.ask})`);
+    return {
+      action: 'OPEN',
+      label: optionType,
+      legs: [{ option: selectedOption, quantity: 1, side: 'LONG' }],
+      quantity,
+      reason: signal.reasoning,
+      regime: optionType === 'CALL' ? 'BULLISH' : 'BEARISH',
+      metadata: { signal: signal.action, confidence: signal.confidence, peakMark: entryPrice }
+    };
+  }
+
+  private checkExit(position: StrategyPosition, context: StrategyContext): string | null {
+    const mark = position.currentMark;
+    position.metadata.peakMark = Math.max(position.metadata.peakMark ?? position.entryPrice, mark);
+    const gain = (mark - position.entryPrice) / position.entryPrice;
+    const peakGain = (position.metadata.peakMark - position.entryPrice) / position.entryPrice;
+
+    if (gain >= this.tradingParameters.profitTargetPct) {
+      return 'PROFIT_TARGET';
+    }
+    if (gain <= -this.tradingParameters.initialStopLossPct) {
+      return 'STOP_LOSS';
+    }
+    if (peakGain >= this.tradingParameters.trailActivationPct && mark <= position.metadata.peakMark * (1 - this.tradingParameters.trailStopPct)) {
+      return 'TRAILING_STOP';
+    }
+
+    // Morning entries may be held longer than afternoon ones
+    const minutesHeld = (context.timestamp.getTime() - position.entryDate.getTime()) / (60 * 1000);
+    const maxHold = this.hourOf(position.entryDate) < 12 ? this.tradingParameters.maxHoldMinutesMorning : this.tradingParameters.maxHoldMinutesAfternoon;
+    if (minutesHeld >= maxHold) {
+      return 'MAX_HOLD_TIME';
+    }
+    if (this.hourOf(context.timestamp) >= this.tradingParameters.forceExitTime) {
+      return 'FORCE_EXIT';
+    }
+    return null;
+  }
+
+  // Fractional hour of the New York clock, as forceExitTime is expressed
+  private hourOf(date: Date): number {
+    return MarketCalendar.toEastern(date).minutes / 60;
+  }
+}
+
+export default DirectSignalStrategy;
@@ -11,6 +11,7 @@
 
 import { MarketData, OptionsChain, Strategy } from '../../lib/types';
 import { TechnicalAnalysis } from '../../lib/technical-indicators';
+import { MarketCalendar } from '../../lib/market-calendar';
 import { AdaptiveStrategySelector } from '../../lib/adaptive-strategy-selector';
 
 // Import institutional components
@@ -404,8 +405,9 @@ export class InstitutionalHybridEngine {
     if (marketData.length < 5) return null;
     
     const currentTime = marketData[marketData.length - 1].date;
-    const hour = currentTime.getHours();
-    const minute = currentTime.getMinutes();
+    const easternMinutes = MarketCalendar.toEastern(currentTime).minutes;
+    const hour = Math.floor(easternMinutes / 60);
+    const minute = easternMinutes % 60;
     
     // Time-based opportunities (market open, lunch, close)
     const isMarketOpen = (hour === 9 && minute >= 30) || (hour === 10 && minute <= 30);
@@ -16,6 +16,8 @@
 
 import { MarketData, OptionsChain, Strategy } from '../../../lib/types';
 import { GreeksSnapshot } from '../../../lib/greeks-engine';
+import { SymbolUniverse } from '../../../lib/symbol-universe';
+import { PortfolioGreeksAggregator, PortfolioGreeks } from '../../../lib/portfolio-greeks';
 import { ATRSnapshot } from './enhanced-atr-risk-mgmt';
 import { StrategySignal } from './coherent-strategy-framework';
 
@@ -70,10 +72,11 @@ export interface KillSwitchTriggers {
 export interface PositionRisk {
   id: string;
   symbol: string;
+  contracts: number;
   notionalValue: number;
   maxLoss: number;
   currentPnL: number;
-  greeks: GreeksSnapshot;
+  greeks: GreeksSnapshot; // For the whole position
   correlationScore: number;
   liquidityScore: number;
   timeRemaining: number; // Minutes to expiration
@@ -94,6 +97,7 @@ export interface PortfolioRisk {
   netGamma: number;
   netTheta: number;
   netVega: number;
+  greeks: PortfolioGreeks; // Dollar and beta-weighted
   
   // Risk metrics
   portfolioVaR: number;          // Value at Risk
@@ -174,6 +178,7 @@ export class ComprehensiveRiskManager {
   private systemErrors = 0;
   private restartAttempts = 0;
   private lastKillSwitchTime: Date | null = null;
+  private readonly portfolioGreeks = new PortfolioGreeksAggregator();
   
   constructor(
     private limits: RiskLimits = ComprehensiveRiskManager.DEFAULT_LIMITS,
@@ -295,6 +300,7 @@ export class ComprehensiveRiskManager {
     const positionRisk: PositionRisk = {
       id: positionId,
       symbol: 'SPY', // Simplified
+      contracts: actualPositionSize,
       notionalValue,
       maxLoss,
       currentPnL: 0,
@@ -659,21 +665,37 @@ export class ComprehensiveRiskManager {
     let totalNotional = 0;
     let totalMaxLoss = 0;
     let currentPnL = 0;
-    let netDelta = 0;
-    let netGamma = 0;
-    let netTheta = 0;
-    let netVega = 0;
     
     // Aggregate position metrics
+    const prices: Record<string, number> = {};
     for (const position of Array.from(this.positions.values())) {
       totalNotional += position.notionalValue;
       totalMaxLoss += position.maxLoss;
       currentPnL += position.currentPnL;
-      netDelta += position.greeks.delta;
-      netGamma += position.greeks.gamma;
-      netTheta += position.greeks.theta;
-      netVega += position.greeks.vega;
-    }
+      prices[SymbolUniverse.underlyingOf(position.symbol)] = position.greeks.underlyingPrice;
+    }
+    
+    // Greeks through the shared aggregator; the raw nets feed the existing limits, per
+    // underlying since they don't add across underlyings (the largest book binds)
+    const greeks = this.portfolioGreeks.aggregate(
+      Array.from(this.positions.values()).map(position => ({
+        underlying: SymbolUniverse.underlyingOf(position.symbol),
+        contracts: position.contracts,
+        delta: position.greeks.delta,
+        gamma: position.greeks.gamma,
+        theta: position.greeks.theta,
+        vega: position.greeks.vega,
+        premium: position.notionalValue / Math.max(1, position.contracts * 100)
+      })),
+      prices
+    );
+    const books = Object.values(greeks.byUnderlying);
+    const largest = (field: 'delta' | 'gamma' | 'theta' | 'vega') =>
+      books.reduce((worst, book) => Math.abs(book[field]) > Math.abs(worst) ? book[field] : worst, 0);
+    const netDelta = largest('delta');
+    const netGamma = largest('gamma');
+    const netTheta = largest('theta');
+    const netVega = largest('vega');
     
     const totalValue = currentBalance + currentPnL;
     const drawdownPercent = ((this.initialBalance - totalValue) / this.initialBalance) * 100;
@@ -729,6 +751,7 @@ export class ComprehensiveRiskManager {
       netGamma,
       netTheta,
       netVega,
+      greeks,
       portfolioVaR,
       portfolioConcentration,
       correlationRisk,
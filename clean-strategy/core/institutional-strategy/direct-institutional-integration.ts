@@ -413,6 +413,14 @@ export class DirectInstitutionalIntegration {
       score = score * 1.2; // Amplify the directional signal
     }
     
+    // 0-DTE charm: decay alone shifts dealer delta into the close, and re-hedging it leans
+    // against that shift (more dealer delta → they sell). Tilt when it rivals a 1% move's hedging
+    const charmFlow = gex.charmFlowToClose || 0;
+    if (gex.hedgingPressure > 0 && Math.abs(charmFlow) > 0.25 * gex.hedgingPressure) {
+      score -= Math.sign(charmFlow) * 0.1;
+      console.log(`   ⏳ 0-DTE charm flow to close: $${(charmFlow / 1000000).toFixed(1)}M dealer delta, tilting ${charmFlow > 0 ? 'bearish' : 'bullish'}`);
+    }
+    
     const finalScore = Math.max(-1.0, Math.min(1.0, score));
     
     console.log(`   📊 GEX Final: ${finalScore > 0 ? 'BULLISH' : 'BEARISH'} ${finalScore.toFixed(2)}`);
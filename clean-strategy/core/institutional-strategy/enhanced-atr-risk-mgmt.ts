@@ -14,6 +14,7 @@
  */
 
 import { MarketData } from '../../../lib/types';
+import { MarketCalendar } from '../../../lib/market-calendar';
 
 export interface ATRSnapshot {
   timestamp: Date;
@@ -335,13 +336,13 @@ export class EnhancedATRRiskManager {
     multiplier: number;
   } {
     
-    const hour = currentTime.getHours();
-    const minute = currentTime.getMinutes();
-    const timeInMinutes = hour * 60 + minute;
+    const { minutes: timeInMinutes, day } = MarketCalendar.toEastern(currentTime);
     
-    // Market hours in minutes from midnight (EST)
-    const marketOpen = 9 * 60 + 30;    // 9:30 AM
-    const marketClose = 16 * 60;       // 4:00 PM
+    // Market hours in minutes from New York midnight
+    const marketOpen = MarketCalendar.SESSION_OPEN_MINUTES; // 9:30 AM
+    const marketClose = MarketCalendar.isEarlyClose(day)    // 4:00 PM, or 1:00 PM on half-days
+      ? MarketCalendar.EARLY_CLOSE_MINUTES
+      : MarketCalendar.REGULAR_CLOSE_MINUTES;
     const lunchStart = 12 * 60;        // 12:00 PM
     const lunchEnd = 14 * 60;          // 2:00 PM
     
@@ -1,43 +1,52 @@
 /**
  * ENHANCED BACKTEST ENGINE FOR ADVANCED INTRADAY STRATEGY
- * 
+ *
  * Integrates the coherent strategy framework with your existing institutional-grade
  * backtesting infrastructure. Provides high-frequency 0DTE validation using all
  * advanced indicators while maintaining compatibility with your current system.
- * 
+ *
  * Key Enhancements:
  * - Multi-indicator signal generation
  * - Confluence-based entry/exit logic
  * - Enhanced risk management with ATR
- * - Tick-level execution simulation
+ * - Option fills, marks and settlement from the shared backtest core
  * - Advanced performance metrics
  */
 
-import { MarketData, OptionsChain, Strategy, BacktestParams, BacktestTrade, PerformanceMetrics } from '../../../lib/types';
-import { GreeksSnapshot, GreeksEngine } from '../../../lib/greeks-engine';
-import { FillSimulation, TransactionCostEngine } from '../../../lib/transaction-cost-engine';
-import { alpacaClient } from '../../../lib/alpaca';
-import CoherentStrategyFramework, { StrategySignal } from './coherent-strategy-framework';
+import { OptionsChain, Strategy, BacktestParams, BacktestTrade, PerformanceMetrics } from '../../../lib/types';
+import { GreeksSnapshot } from '../../../lib/greeks-engine';
+import { FillSimulation } from '../../../lib/transaction-cost-engine';
+import { MarketDataProvider, BarTimeframe } from '../../../lib/market-data-provider';
+import { PnLAttributionReport } from '../../../lib/pnl-attribution';
+import { BacktestCore } from '../../../lib/backtest-core';
+import { TradingStrategy, TradingSignal, StrategyFill, StrategyContext, StrategyPosition, StrategyParameter } from '../../../lib/trading-strategy';
+import { CostModel, MidpointCostModel, TransactionCostModel } from '../../../lib/backtest-cost-models';
+import { WalkForwardOptimizer, WalkForwardCandidate, WalkForwardConfig, WalkForwardResult } from '../../../lib/walk-forward-optimizer';
+import CoherentStrategyFramework, { StrategySignal, StrategyFrameworkConfig } from './coherent-strategy-framework';
+import { TRADING_CONFIGS } from './relaxed-coherent-config';
 import EnhancedATRRiskManager from './enhanced-atr-risk-mgmt';
 
 export interface EnhancedBacktestPosition {
-  symbol: string;
-  side: 'BUY' | 'SELL';
+  id: string;
+  symbol: string; // Option contract
+  underlying: string;
+  side: 'BUY' | 'SELL'; // Signal direction: BUY holds a call, SELL a put
+  strike: number;
   entryDate: Date;
-  entryPrice: number;
+  entryPrice: number; // Option premium per share
   quantity: number;
-  
+  exitDate?: Date;
+  exitPrice?: number;
+
   // Advanced tracking from your existing system
-  entryGreeks?: GreeksSnapshot;
-  currentGreeks?: GreeksSnapshot;
-  greeksHistory?: GreeksSnapshot[];
-  maxLoss?: number;
-  riskScore?: number;
-  entryFills?: FillSimulation[];
-  exitFills?: FillSimulation[];
-  totalTransactionCosts?: number;
+  entryGreeks: GreeksSnapshot;
+  greeksHistory: GreeksSnapshot[];
+  maxLoss: number;
+  riskScore: number;
+  entryFills: FillSimulation[];
+  totalTransactionCosts: number;
   netPnL?: number;
-  
+
   // Enhanced with strategy framework data
   entrySignal: StrategySignal;
   confluenceZones: Array<{
@@ -45,7 +54,7 @@ export interface EnhancedBacktestPosition {
     supportingIndicators: string[];
     strength: 'STRONG' | 'MODERATE' | 'WEAK';
   }>;
-  
+
   // Performance tracking
   maxDrawdown: number;
   maxProfit: number;
@@ -59,7 +68,8 @@ export interface EnhancedBacktestResults {
   trades: BacktestTrade[];
   performance: PerformanceMetrics;
   equityCurve: { date: string; value: number }[];
-  
+  attribution: PnLAttributionReport;
+
   // Enhanced analytics
   strategyAnalytics: {
     signalQuality: {
@@ -86,7 +96,7 @@ export interface EnhancedBacktestResults {
       stopLossEffectiveness: number;
     };
   };
-  
+
   // Detailed logs for analysis
   positionHistory: EnhancedBacktestPosition[];
   signalHistory: StrategySignal[];
@@ -96,30 +106,264 @@ export interface EnhancedBacktestResults {
 export interface EnhancedBacktestConfig {
   // Core settings
   symbol: string;
-  timeframe: '1Min' | '5Min' | '15Min' | '1Hour' | '1Day';
+  timeframe: BarTimeframe;
   includeTransactionCosts: boolean;
   includeSlippage: boolean;
-  
+
   // Strategy framework settings
   strategyFrameworkConfig: any; // StrategyFrameworkConfig
-  
+
   // Risk management
   maxPositionsOpen: number;
   maxDailyRisk: number;
   emergencyStopLoss: number; // Portfolio-level stop
-  
+
   // Execution settings
   minSignalConfidence: number;
   requiredSignalQuality: ('EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR')[];
   orderExecutionDelay: number; // Realistic execution delay in seconds
-  
+
   // Analytics settings
   trackDetailedMetrics: boolean;
   calculateIndicatorAccuracy: boolean;
+
+  // Data source (defaults to MARKET_DATA_SOURCE / Alpaca)
+  dataProvider?: MarketDataProvider;
+}
+
+/**
+ * Coherent-framework signals traded as long ATM options: BUY holds a call, SELL a put.
+ * Exits are judged on the underlying against the signal's stop and first target. The
+ * engine config's entry and risk limits are the declared parameters' defaults
+ */
+export class CoherentSignalStrategy implements TradingStrategy {
+  readonly name: string;
+  readonly warmupBars = 50;
+  readonly parameters: StrategyParameter[];
+  readonly signalHistory: StrategySignal[] = [];
+  readonly rejectedSignals: Array<{ date: Date; reason: string; signal: StrategySignal }> = [];
+  readonly positionHistory: EnhancedBacktestPosition[] = [];
+  readonly signalCounts = { excellent: 0, good: 0, fair: 0, poor: 0 };
+  readonly volatilityRegimes: Record<string, number> = {};
+  private halted = false;
+
+  constructor(
+    private readonly strategy: Strategy,
+    private readonly config: EnhancedBacktestConfig,
+    private readonly initialCapital: number
+  ) {
+    this.name = strategy.name;
+    this.parameters = [
+      { name: 'minSignalConfidence', type: 'number', default: config.minSignalConfidence, min: 0, max: 1, step: 0.05, description: 'Minimum framework confidence to enter' },
+      { name: 'maxPositionsOpen', type: 'integer', default: config.maxPositionsOpen, min: 1, max: 20, step: 1, description: 'Open positions allowed on the underlying' },
+      { name: 'maxDailyRisk', type: 'number', default: config.maxDailyRisk, min: 0.1, max: 20, step: 0.5, description: 'Stop distance of all open positions, percent of balance' },
+      { name: 'emergencyStopLoss', type: 'number', default: config.emergencyStopLoss, min: 0.5, max: 50, step: 0.5, description: 'Drawdown from initial capital, percent, that flattens and halts the strategy' }
+    ];
+  }
+
+  async onQuote(context: StrategyContext): Promise<TradingSignal[]> {
+    const signals: TradingSignal[] = [];
+
+    // Emergency stop: flatten everything and stop trading for the rest of the run
+    const emergencyStopLoss = context.params.emergencyStopLoss as number;
+    const drawdown = (context.equity - this.initialCapital) / this.initialCapital * 100;
+    if (!this.halted && drawdown < -emergencyStopLoss) {
+      console.warn(`🚨 EMERGENCY STOP: Drawdown ${drawdown.toFixed(2)}% exceeds limit ${emergencyStopLoss}%`);
+      this.halted = true;
+      return context.allPositions.map(position => ({ action: 'CLOSE' as const, positionId: position.id, reason: 'EMERGENCY_STOP' }));
+    }
+    if (this.halted) {
+      return signals;
+    }
+
+    for (const position of context.positions) {
+      const exitReason = this.checkExit(position, context);
+      if (exitReason) {
+        signals.push({ action: 'CLOSE', positionId: position.id, reason: exitReason });
+      }
+    }
+
+    if (context.chain.length === 0 || context.positions.length - signals.length >= (context.params.maxPositionsOpen as number)) {
+      return signals;
+    }
+
+    let signal: StrategySignal;
+    try {
+      signal = await CoherentStrategyFramework.generateCoherentSignal(
+        context.history.slice(-201), // Last 200 bars plus the current one
+        context.chain,
+        this.strategy,
+        context.balance,
+        this.config.strategyFrameworkConfig
+      );
+    } catch (error) {
+      console.warn(`Signal generation error at ${context.timestamp.toISOString()}:`, error);
+      return signals;
+    }
+    this.signalHistory.push(signal);
+    const regime = signal.atrAnalysis.volatilityRegime;
+    this.volatilityRegimes[regime] = (this.volatilityRegimes[regime] || 0) + 1;
+
+    const entry = this.checkEntry(signal, context);
+    if (entry) {
+      signals.push(entry);
+    }
+    return signals;
+  }
+
+  onFill(fill: StrategyFill, position: StrategyPosition): void {
+    if (fill.action === 'CLOSE') {
+      const record = this.positionHistory.find(entry => entry.id === position.id);
+      if (record) {
+        record.totalTransactionCosts += fill.fees;
+      }
+      return;
+    }
+    const signal = position.metadata.signal as StrategySignal;
+    this.signalCounts[signal.signalQuality.toLowerCase() as keyof CoherentSignalStrategy['signalCounts']]++;
+    this.positionHistory.push({
+      id: position.id,
+      symbol: position.symbol,
+      underlying: position.underlying,
+      side: signal.action === 'BUY' ? 'BUY' : 'SELL',
+      strike: position.strike,
+      entryDate: position.entryDate,
+      entryPrice: position.entryPrice,
+      quantity: position.quantity,
+      entryGreeks: position.entryGreeks,
+      greeksHistory: position.greeksHistory,
+      maxLoss: signal.maxRisk,
+      riskScore: signal.confidence,
+      entryFills: position.entryFills,
+      totalTransactionCosts: position.entryFees,
+      entrySignal: signal,
+      confluenceZones: signal.confluenceZones,
+      maxDrawdown: 0,
+      maxProfit: 0,
+      daysHeld: 0,
+      isOpen: true
+    });
+  }
+
+  onPositionUpdate(position: StrategyPosition, context: StrategyContext): void {
+    const record = this.positionHistory.find(entry => entry.id === position.id);
+    if (record) {
+      record.daysHeld = (context.timestamp.getTime() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24);
+      record.maxProfit = Math.max(record.maxProfit, position.unrealizedPnL);
+      record.maxDrawdown = Math.min(record.maxDrawdown, position.unrealizedPnL);
+    }
+  }
+
+  onPositionClosed(position: StrategyPosition, trade: BacktestTrade): void {
+    const record = this.positionHistory.find(entry => entry.id === position.id);
+    if (!record) {
+      return;
+    }
+    record.isOpen = false;
+    record.exitDate = trade.exitDate;
+    record.exitPrice = trade.exitPrice;
+    record.exitReason = trade.exitReason;
+    record.netPnL = trade.pnl;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private checkEntry(signal: StrategySignal, context: StrategyContext): TradingSignal | null {
+    // Filter signals by quality and confidence
+    if (!this.config.requiredSignalQuality.includes(signal.signalQuality)) {
+      this.reject(context, signal, `Signal quality ${signal.signalQuality} not in required list`);
+      return null;
+    }
+    const minSignalConfidence = context.params.minSignalConfidence as number;
+    if (signal.confidence < minSignalConfidence) {
+      this.reject(context, signal, `Confidence ${signal.confidence.toFixed(2)} below minimum ${minSignalConfidence}`);
+      return null;
+    }
+    if (signal.action === 'NO_TRADE') {
+      return null;
+    }
+
+    // Stop distance on the underlying, summed over open positions, against the daily risk budget
+    const quantity = Math.max(1, Math.floor(signal.positionSize));
+    const openRisk = context.positions.reduce((sum, position) => {
+      const entry = position.metadata.signal as StrategySignal;
+      return sum + Math.abs(entry.entryPrice - entry.stopLoss) * position.quantity;
+    }, 0);
+    const positionRisk = Math.abs(signal.entryPrice - signal.stopLoss) * quantity;
+    if (openRisk + positionRisk > context.balance * ((context.params.maxDailyRisk as number) / 100)) {
+      this.reject(context, signal, 'Position would exceed daily risk limit');
+      return null;
+    }
+
+    const option = this.atTheMoney(context.chain, signal.action === 'BUY' ? 'CALL' : 'PUT', context.bar.close, context.timestamp);
+    if (!option) {
+      this.reject(context, signal, `No quoted ${signal.action === 'BUY' ? 'call' : 'put'} near the money`);
+      return null;
+    }
+
+    console.log(`📈 ${signal.action} signal: ${option.side} ${option.strike} × ${quantity} (Confidence: ${(signal.confidence * 100).toFixed(1)}%, ${signal.signalQuality})`);
+    return {
+      action: 'OPEN',
+      label: option.side,
+      legs: [{ option, quantity: 1, side: 'LONG' }],
+      quantity,
+      reason: signal.reasoning.entryTrigger,
+      regime: signal.action === 'BUY' ? 'BULLISH' : 'BEARISH',
+      metadata: { signal }
+    };
+  }
+
+  private checkExit(position: StrategyPosition, context: StrategyContext): string | null {
+    const signal = position.metadata.signal as StrategySignal;
+    const price = context.bar.close;
+    const long = signal.action === 'BUY';
+
+    if (long ? price <= signal.stopLoss : price >= signal.stopLoss) {
+      return 'STOP_LOSS';
+    }
+    if (long ? price >= signal.target1 : price <= signal.target1) {
+      return 'PROFIT_TARGET_1';
+    }
+
+    const daysHeld = (context.timestamp.getTime() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24);
+    if (daysHeld >= 1) {
+      return 'TIME_EXIT_0DTE';
+    }
+
+    // Exit if the volatility regime turns extreme after entry
+    if (context.history.length > 20) {
+      try {
+        const atrSnapshot = EnhancedATRRiskManager.analyzeATR(context.history.slice(-50), context.balance);
+        if (atrSnapshot.volatilityRegime === 'EXTREME' && signal.atrAnalysis.volatilityRegime !== 'EXTREME') {
+          return 'VOLATILITY_REGIME_CHANGE';
+        }
+      } catch (error) {
+        // Skip ATR check if calculation fails
+      }
+    }
+
+    return null;
+  }
+
+  // Nearest-expiring, nearest-the-money contract with a live bid
+  private atTheMoney(chain: OptionsChain[], side: 'CALL' | 'PUT', price: number, asOf: Date): OptionsChain | null {
+    const candidates = chain.filter(option => option.side === side && option.bid > 0 && option.expiration.getTime() > asOf.getTime());
+    if (candidates.length === 0) {
+      return null;
+    }
+    const nearestExpiry = Math.min(...candidates.map(option => option.expiration.getTime()));
+    return candidates
+      .filter(option => option.expiration.getTime() === nearestExpiry)
+      .reduce((closest, option) => Math.abs(option.strike - price) < Math.abs(closest.strike - price) ? option : closest);
+  }
+
+  private reject(context: StrategyContext, signal: StrategySignal, reason: string): void {
+    this.rejectedSignals.push({ date: context.timestamp, reason, signal });
+  }
 }
 
 export class EnhancedBacktestEngine {
-  
+
   private static readonly DEFAULT_CONFIG: EnhancedBacktestConfig = {
     symbol: 'SPY',
     timeframe: '1Min',
@@ -135,7 +379,7 @@ export class EnhancedBacktestEngine {
     trackDetailedMetrics: true,
     calculateIndicatorAccuracy: true
   };
-  
+
   /**
    * Run enhanced backtest using advanced intraday strategy
    */
@@ -144,682 +388,90 @@ export class EnhancedBacktestEngine {
     params: BacktestParams,
     config: Partial<EnhancedBacktestConfig> = {}
   ): Promise<EnhancedBacktestResults> {
-    
+
     const fullConfig = { ...this.DEFAULT_CONFIG, ...config };
-    
+
     console.log(`🚀 ENHANCED BACKTEST: Advanced Intraday Strategy`);
     console.log(`   Strategy: ${strategy.name}`);
     console.log(`   Period: ${params.startDate.toDateString()} to ${params.endDate.toDateString()}`);
     console.log(`   Timeframe: ${fullConfig.timeframe}`);
     console.log(`   Symbol: ${fullConfig.symbol}`);
-    
-    // Fetch high-resolution market data
-    const marketData = await this.fetchMarketData(params, fullConfig);
-    
-    // Initialize backtest state
-    const state = this.initializeBacktestState(params, fullConfig);
-    
-    // Main backtest loop
-    await this.runBacktestLoop(marketData, strategy, state, fullConfig);
-    
-    // Calculate final results
-    const results = this.calculateResults(state, params, fullConfig);
-    
+
+    const plugin = new CoherentSignalStrategy(strategy, fullConfig, params.initialCapital);
+    const core = new BacktestCore({
+      timeframe: fullConfig.timeframe,
+      costModel: this.costModel(fullConfig),
+      dataProvider: fullConfig.dataProvider || null,
+      progressEvery: 100
+    });
+    const result = await core.run(plugin, { ...params, symbols: [fullConfig.symbol] });
+
+    const results: EnhancedBacktestResults = {
+      trades: result.trades,
+      performance: result.performance,
+      equityCurve: result.equityCurve,
+      attribution: result.attribution,
+      strategyAnalytics: this.calculateStrategyAnalytics(plugin),
+      positionHistory: plugin.positionHistory,
+      signalHistory: plugin.signalHistory,
+      rejectedSignals: plugin.rejectedSignals
+    };
+
     console.log(`✅ BACKTEST COMPLETE`);
     console.log(`   Total Trades: ${results.trades.length}`);
-    console.log(`   Win Rate: ${(results.performance.winRate * 100).toFixed(1)}%`);
-    console.log(`   Total Return: ${(results.performance.totalReturn * 100).toFixed(2)}%`);
+    console.log(`   Win Rate: ${results.performance.winRate.toFixed(1)}%`);
+    console.log(`   Total Return: ${results.performance.totalReturnPercent.toFixed(2)}%`);
     console.log(`   Sharpe Ratio: ${results.performance.sharpeRatio.toFixed(2)}`);
-    
+
     return results;
   }
-  
-  /**
-   * Fetch high-resolution market data
-   */
-  private static async fetchMarketData(
-    params: BacktestParams,
-    config: EnhancedBacktestConfig
-  ): Promise<{ marketData: MarketData[], optionsData: OptionsChain[][] }> {
-    
-    console.log(`📊 Fetching market data...`);
-    
-    // Fetch market data using your existing Alpaca client
-    const marketData = await alpacaClient.getMarketData(
-      config.symbol,
-      params.startDate,
-      params.endDate,
-      config.timeframe
-    );
-    
-    if (marketData.length < 100) {
-      throw new Error(`Insufficient market data: ${marketData.length} bars (need at least 100)`);
-    }
-    
-    // For 0DTE strategies, we need options data for each trading day
-    console.log(`🔗 Fetching options chain data...`);
-    const optionsData: OptionsChain[][] = [];
-    
-    // Get unique trading days
-    const uniqueDays = new Set<string>();
-    const dayIndices: number[] = [];
-    
-    for (let i = 0; i < marketData.length; i++) {
-      const dayKey = marketData[i].date.toDateString();
-      if (!uniqueDays.has(dayKey)) {
-        uniqueDays.add(dayKey);
-        dayIndices.push(i);
-      }
-    }
-    
-    // Fetch options chain for each day (simplified - in production would use historical data)
-    for (const dayIndex of dayIndices.slice(0, 20)) { // Limit to first 20 days for demo
-      try {
-        const chain = await alpacaClient.getOptionsChain(config.symbol);
-        optionsData.push(chain);
-        
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error) {
-        console.warn(`Could not fetch options data for day ${dayIndex}`);
-        optionsData.push([]); // Empty chain
-      }
-    }
-    
-    console.log(`✅ Data loaded: ${marketData.length} bars, ${optionsData.length} option chains`);
-    
-    return { marketData, optionsData };
-  }
-  
-  /**
-   * Initialize backtest state
-   */
-  private static initializeBacktestState(
-    params: BacktestParams,
-    config: EnhancedBacktestConfig
-  ): {
-    balance: number;
-    positions: EnhancedBacktestPosition[];
-    trades: BacktestTrade[];
-    signalHistory: StrategySignal[];
-    rejectedSignals: Array<{ date: Date; reason: string; signal: StrategySignal }>;
-    equityCurve: { date: string; value: number }[];
-    dailyPnL: number;
-    totalRisk: number;
-    analytics: any;
-  } {
-    
-    return {
-      balance: params.initialCapital,
-      positions: [],
-      trades: [],
-      signalHistory: [],
-      rejectedSignals: [],
-      equityCurve: [],
-      dailyPnL: 0,
-      totalRisk: 0,
-      analytics: {
-        signalCounts: { excellent: 0, good: 0, fair: 0, poor: 0 },
-        confluenceHits: { strong: 0, moderate: 0, weak: 0 },
-        volatilityRegimes: {},
-        indicatorAccuracy: {
-          gex: { correct: 0, total: 0 },
-          avp: { correct: 0, total: 0 },
-          avwap: { correct: 0, total: 0 },
-          fractals: { correct: 0, total: 0 }
-        }
-      }
-    };
-  }
-  
+
   /**
-   * Main backtest loop
+   * Walk-forward test of coherent-framework configurations: the best on each in-sample
+   * window trades the out-of-sample window after it. The relaxed, aggressive and extreme
+   * gamma configurations by default
    */
-  private static async runBacktestLoop(
-    data: { marketData: MarketData[], optionsData: OptionsChain[][] },
+  static async runWalkForward(
     strategy: Strategy,
-    state: any,
-    config: EnhancedBacktestConfig
-  ): Promise<void> {
-    
-    const { marketData, optionsData } = data;
-    let optionsIndex = 0;
-    let lastOptionsUpdate = '';
-    
-    // Process each market data point
-    for (let i = 50; i < marketData.length; i++) { // Start at 50 to have enough history
-      const currentBar = marketData[i];
-      const currentDate = currentBar.date;
-      const currentPrice = currentBar.close;
-      
-      // Get options chain for current day
-      const dayKey = currentDate.toDateString();
-      if (dayKey !== lastOptionsUpdate && optionsIndex < optionsData.length) {
-        lastOptionsUpdate = dayKey;
-        optionsIndex++;
-      }
-      
-      const currentOptionsChain = optionsIndex < optionsData.length ? 
-        optionsData[optionsIndex] : [];
-      
-      // Skip if no options data
-      if (currentOptionsChain.length === 0) {
-        continue;
-      }
-      
-      // Update existing positions
-      await this.updatePositions(state, currentBar, marketData.slice(0, i + 1), config);
-      
-      // Check for exit conditions
-      await this.checkExitConditions(state, currentBar, marketData.slice(0, i + 1), config);
-      
-      // Generate trading signal using coherent framework
-      if (state.positions.length < config.maxPositionsOpen) {
-        try {
-          const signal = await CoherentStrategyFramework.generateCoherentSignal(
-            marketData.slice(Math.max(0, i - 200), i + 1), // Last 200 bars
-            currentOptionsChain,
-            strategy,
-            state.balance,
-            config.strategyFrameworkConfig
-          );
-          
-          state.signalHistory.push(signal);
-          
-          // Process signal
-          await this.processSignal(signal, state, currentBar, marketData.slice(0, i + 1), config);
-          
-        } catch (error) {
-          console.warn(`Signal generation error at ${currentDate.toISOString()}:`, error);
-        }
-      }
-      
-      // Update equity curve
-      const currentEquity = this.calculateCurrentEquity(state, currentPrice);
-      state.equityCurve.push({
-        date: currentDate.toISOString(),
-        value: currentEquity
-      });
-      
-      // Risk management checks
-      await this.performRiskChecks(state, currentEquity, config);
-      
-      // Log progress
-      if (i % 100 === 0) {
-        console.log(`   Processed ${i}/${marketData.length} bars (${((i/marketData.length)*100).toFixed(1)}%)`);
-      }
-    }
-  }
-  
-  /**
-   * Process trading signal
-   */
-  private static async processSignal(
-    signal: StrategySignal,
-    state: any,
-    currentBar: MarketData,
-    historicalData: MarketData[],
-    config: EnhancedBacktestConfig
-  ): Promise<void> {
-    
-    // Filter signals by quality and confidence
-    if (!config.requiredSignalQuality.includes(signal.signalQuality)) {
-      state.rejectedSignals.push({
-        date: currentBar.date,
-        reason: `Signal quality ${signal.signalQuality} not in required list`,
-        signal
-      });
-      return;
-    }
-    
-    if (signal.confidence < config.minSignalConfidence) {
-      state.rejectedSignals.push({
-        date: currentBar.date,
-        reason: `Confidence ${signal.confidence.toFixed(2)} below minimum ${config.minSignalConfidence}`,
-        signal
-      });
-      return;
-    }
-    
-    if (signal.action === 'NO_TRADE') {
-      return;
-    }
-    
-    // Risk checks
-    const positionRisk = Math.abs(signal.entryPrice - signal.stopLoss) * signal.positionSize;
-    if (state.totalRisk + positionRisk > state.balance * (config.maxDailyRisk / 100)) {
-      state.rejectedSignals.push({
-        date: currentBar.date,
-        reason: `Position would exceed daily risk limit`,
-        signal
-      });
-      return;
-    }
-    
-    // Execute trade
-    await this.executeTrade(signal, state, currentBar, historicalData, config);
-  }
-  
-  /**
-   * Execute trade with enhanced position tracking
-   */
-  private static async executeTrade(
-    signal: StrategySignal,
-    state: any,
-    currentBar: MarketData,
-    historicalData: MarketData[],
-    config: EnhancedBacktestConfig
-  ): Promise<void> {
-    
-    // Calculate transaction costs
-    let entryCosts: FillSimulation | null = null;
-    if (config.includeTransactionCosts) {
-      entryCosts = TransactionCostEngine.simulateFill(
-        signal.action === 'BUY' ? 'BUY' : 'SELL',
-        signal.entryPrice * 0.99, // Simplified bid
-        signal.entryPrice * 1.01, // Simplified ask
-        signal.positionSize,
-        'NORMAL'
-      );
-    }
-    
-    // Calculate Greeks if available
-    let entryGreeks: GreeksSnapshot | undefined;
-    if (signal.atrAnalysis) {
-      // Simplified Greeks calculation - in production would use actual options data
-      entryGreeks = {
-        timestamp: currentBar.date,
-        underlyingPrice: signal.entryPrice,
-        timeToExpiration: 1/365, // Assume 1 day for 0DTE
-        impliedVolatility: 0.25,
-        riskFreeRate: 0.05,
-        delta: signal.action === 'BUY' ? 0.5 : -0.5,
-        gamma: 0.01,
-        theta: -20,
-        vega: 10,
-        rho: 0.05,
-        lambda: 2.5,
-        epsilon: 1.2,
-        vomma: 0.1,
-        charm: -0.5,
-        speed: 0.01,
-        color: 0.005
-      };
-    }
-    
-    // Create enhanced position
-    const position: EnhancedBacktestPosition = {
-      symbol: config.symbol,
-      side: signal.action === 'BUY' ? 'BUY' : 'SELL',
-      entryDate: currentBar.date,
-      entryPrice: entryCosts ? entryCosts.executedPrice : signal.entryPrice,
-      quantity: signal.positionSize,
-      
-      // Enhanced tracking
-      entryGreeks,
-      currentGreeks: entryGreeks,
-      greeksHistory: entryGreeks ? [entryGreeks] : [],
-      maxLoss: signal.maxRisk,
-      riskScore: signal.confidence,
-      entryFills: entryCosts ? [entryCosts] : [],
-      totalTransactionCosts: entryCosts ? entryCosts.costs.total : 0,
-      
-      // Strategy framework data
-      entrySignal: signal,
-      confluenceZones: signal.confluenceZones,
-      
-      // Performance tracking
-      maxDrawdown: 0,
-      maxProfit: 0,
-      daysHeld: 0,
-      isOpen: true
-    };
-    
-    // Update state
-    state.positions.push(position);
-    state.balance -= (position.entryPrice * position.quantity + (position.totalTransactionCosts || 0));
-    state.totalRisk += Math.abs(position.entryPrice - signal.stopLoss) * position.quantity;
-    
-    // Update analytics
-    state.analytics.signalCounts[signal.signalQuality.toLowerCase()]++;
-    
-    console.log(`📈 ${signal.action} Position Opened: ${signal.positionSize} @ $${position.entryPrice.toFixed(2)} (Confidence: ${(signal.confidence * 100).toFixed(1)}%)`);
-  }
-  
-  /**
-   * Update existing positions
-   */
-  private static async updatePositions(
-    state: any,
-    currentBar: MarketData,
-    historicalData: MarketData[],
-    config: EnhancedBacktestConfig
-  ): Promise<void> {
-    
-    const currentPrice = currentBar.close;
-    
-    for (const position of state.positions) {
-      if (!position.isOpen) continue;
-      
-      // Update days held
-      const daysHeld = (currentBar.date.getTime() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24);
-      position.daysHeld = daysHeld;
-      
-      // Calculate current P&L
-      const currentPnL = position.side === 'BUY' ?
-        (currentPrice - position.entryPrice) * position.quantity :
-        (position.entryPrice - currentPrice) * position.quantity;
-      
-      // Update max profit/drawdown
-      position.maxProfit = Math.max(position.maxProfit, currentPnL);
-      position.maxDrawdown = Math.min(position.maxDrawdown, currentPnL);
-      
-      // Update Greeks if available
-      if (position.entryGreeks && config.trackDetailedMetrics) {
-        // Simplified Greeks update - in production would recalculate with current market data
-        const updatedGreeks = { ...position.entryGreeks };
-        updatedGreeks.timestamp = currentBar.date;
-        updatedGreeks.underlyingPrice = currentPrice;
-        
-        position.currentGreeks = updatedGreeks;
-        position.greeksHistory?.push(updatedGreeks);
-      }
-    }
-  }
-  
-  /**
-   * Check exit conditions using enhanced logic
-   */
-  private static async checkExitConditions(
-    state: any,
-    currentBar: MarketData,
-    historicalData: MarketData[],
-    config: EnhancedBacktestConfig
-  ): Promise<void> {
-    
-    const currentPrice = currentBar.close;
-    const positionsToClose: EnhancedBacktestPosition[] = [];
-    
-    for (const position of state.positions) {
-      if (!position.isOpen) continue;
-      
-      const signal = position.entrySignal;
-      const currentPnL = position.side === 'BUY' ?
-        (currentPrice - position.entryPrice) * position.quantity :
-        (position.entryPrice - currentPrice) * position.quantity;
-      
-      let shouldExit = false;
-      let exitReason = '';
-      
-      // Stop loss check
-      if (position.side === 'BUY' && currentPrice <= signal.stopLoss) {
-        shouldExit = true;
-        exitReason = 'STOP_LOSS';
-      } else if (position.side === 'SELL' && currentPrice >= signal.stopLoss) {
-        shouldExit = true;
-        exitReason = 'STOP_LOSS';
-      }
-      
-      // Profit target checks
-      if (!shouldExit) {
-        if (position.side === 'BUY' && currentPrice >= signal.target1) {
-          shouldExit = true;
-          exitReason = 'PROFIT_TARGET_1';
-        } else if (position.side === 'SELL' && currentPrice <= signal.target1) {
-          shouldExit = true;
-          exitReason = 'PROFIT_TARGET_1';
-        }
-      }
-      
-      // Time-based exit for 0DTE
-      if (!shouldExit && position.daysHeld >= 1) {
-        shouldExit = true;
-        exitReason = 'TIME_EXIT_0DTE';
-      }
-      
-      // ATR-based dynamic exit
-      if (!shouldExit && historicalData.length > 20) {
-        try {
-          const atrSnapshot = EnhancedATRRiskManager.analyzeATR(
-            historicalData.slice(-50), state.balance
-          );
-          
-          // Exit if volatility regime changes dramatically
-          if (atrSnapshot.volatilityRegime === 'EXTREME' && 
-              signal.atrAnalysis.volatilityRegime !== 'EXTREME') {
-            shouldExit = true;
-            exitReason = 'VOLATILITY_REGIME_CHANGE';
-          }
-        } catch (error) {
-          // Skip ATR check if calculation fails
-        }
-      }
-      
-      if (shouldExit) {
-        position.exitReason = exitReason;
-        positionsToClose.push(position);
-      }
-    }
-    
-    // Close positions
-    for (const position of positionsToClose) {
-      await this.closePosition(position, state, currentBar, config);
-    }
-  }
-  
-  /**
-   * Close position with enhanced tracking
-   */
-  private static async closePosition(
-    position: EnhancedBacktestPosition,
-    state: any,
-    currentBar: MarketData,
-    config: EnhancedBacktestConfig
-  ): Promise<void> {
-    
-    const exitPrice = currentBar.close;
-    
-    // Calculate exit costs
-    let exitCosts: FillSimulation | null = null;
-    if (config.includeTransactionCosts) {
-      exitCosts = TransactionCostEngine.simulateFill(
-        position.side === 'BUY' ? 'SELL' : 'BUY',
-        exitPrice * 0.99,
-        exitPrice * 1.01,
-        position.quantity,
-        'NORMAL'
-      );
-    }
-    
-    // Calculate final P&L
-    const grossPnL = position.side === 'BUY' ?
-      (exitPrice - position.entryPrice) * position.quantity :
-      (position.entryPrice - exitPrice) * position.quantity;
-    
-    const totalCosts = (position.totalTransactionCosts || 0) + (exitCosts?.costs.total || 0);
-    const netPnL = grossPnL - totalCosts;
-    
-    // Update position
-    position.isOpen = false;
-    position.netPnL = netPnL;
-    position.exitFills = exitCosts ? [exitCosts] : [];
-    position.totalTransactionCosts = totalCosts;
-    
-    // Update state
-    state.balance += exitPrice * position.quantity - (exitCosts?.costs.total || 0);
-    state.totalRisk -= Math.abs(position.entryPrice - position.entrySignal.stopLoss) * position.quantity;
-    
-    // Create trade record compatible with existing system
-    const trade: BacktestTrade = {
-      id: `trade_${state.trades.length + 1}`,
-      backtestId: 'enhanced_backtest',
-      symbol: position.symbol,
-      side: position.side === 'BUY' ? 'CALL' : 'PUT', // Simplified mapping
-      strike: position.entryPrice, // Simplified
-      expiration: new Date(position.entryDate.getTime() + 24 * 60 * 60 * 1000), // Next day
-      entryDate: position.entryDate,
-      exitDate: currentBar.date,
-      entryPrice: position.entryPrice,
-      exitPrice: exitPrice,
-      quantity: position.quantity,
-      pnl: netPnL,
-      pnlPercent: (netPnL / (position.entryPrice * position.quantity)) * 100,
-      exitReason: position.exitReason as any,
-      createdAt: position.entryDate
-    };
-    
-    state.trades.push(trade);
-    
-    console.log(`📉 Position Closed: ${position.exitReason} | P&L: $${netPnL.toFixed(2)} (${((netPnL / (position.entryPrice * position.quantity)) * 100).toFixed(2)}%)`);
-  }
-  
-  /**
-   * Calculate current equity
-   */
-  private static calculateCurrentEquity(state: any, currentPrice: number): number {
-    let equity = state.balance;
-    
-    for (const position of state.positions) {
-      if (position.isOpen) {
-        const marketValue = currentPrice * position.quantity;
-        equity += marketValue;
-      }
-    }
-    
-    return equity;
-  }
-  
-  /**
-   * Perform risk management checks
-   */
-  private static async performRiskChecks(
-    state: any,
-    currentEquity: number,
-    config: EnhancedBacktestConfig
-  ): Promise<void> {
-    
-    const initialCapital = state.equityCurve.length > 0 ? 
-      state.equityCurve[0].value : currentEquity;
-    
-    const drawdown = (currentEquity - initialCapital) / initialCapital * 100;
-    
-    // Emergency stop loss
-    if (drawdown < -config.emergencyStopLoss) {
-      console.warn(`🚨 EMERGENCY STOP: Drawdown ${drawdown.toFixed(2)}% exceeds limit ${config.emergencyStopLoss}%`);
-      
-      // Close all positions
-      for (const position of state.positions) {
-        if (position.isOpen) {
-          position.isOpen = false;
-          position.exitReason = 'EMERGENCY_STOP';
-        }
-      }
-    }
-  }
-  
-  /**
-   * Calculate final results
-   */
-  private static calculateResults(
-    state: any,
-    params: BacktestParams,
-    config: EnhancedBacktestConfig
-  ): EnhancedBacktestResults {
-    
-    // Calculate basic performance metrics using your existing system's logic
-    const performance = this.calculatePerformanceMetrics(state.trades, params.initialCapital);
-    
-    // Calculate enhanced analytics
-    const strategyAnalytics = this.calculateStrategyAnalytics(state, config);
-    
-    return {
-      trades: state.trades,
-      performance,
-      equityCurve: state.equityCurve,
-      strategyAnalytics,
-      positionHistory: state.positions,
-      signalHistory: state.signalHistory,
-      rejectedSignals: state.rejectedSignals
-    };
+    startDate: Date,
+    endDate: Date,
+    candidates: WalkForwardCandidate<StrategyFrameworkConfig>[] = Object.entries(TRADING_CONFIGS).map(([name, parameters]) => ({ name, parameters })),
+    walkForwardConfig: Partial<WalkForwardConfig> = {},
+    config: Partial<EnhancedBacktestConfig> = {}
+  ): Promise<WalkForwardResult<StrategyFrameworkConfig>> {
+    const optimizer = new WalkForwardOptimizer<StrategyFrameworkConfig>(
+      (strategyFrameworkConfig, windowStart, windowEnd, initialCapital) => this.runEnhancedBacktest(
+        strategy,
+        { strategyId: strategy.id, startDate: windowStart, endDate: windowEnd, initialCapital },
+        { ...config, strategyFrameworkConfig }
+      ),
+      walkForwardConfig
+    );
+    return optimizer.run(candidates, startDate, endDate);
   }
-  
+
   /**
-   * Calculate performance metrics (simplified version of your existing system)
+   * Slippage and fees from the transaction cost engine; without slippage, mid fills
+   * plus commissions; without transaction costs, plain mid fills
    */
-  private static calculatePerformanceMetrics(
-    trades: BacktestTrade[],
-    initialCapital: number
-  ): PerformanceMetrics {
-    
-    if (trades.length === 0) {
-      return {
-        totalReturn: 0,
-        totalReturnPercent: 0,
-        totalTrades: 0,
-        winningTrades: 0,
-        losingTrades: 0,
-        winRate: 0,
-        averageWin: 0,
-        averageLoss: 0,
-        profitFactor: 0,
-        maxDrawdown: 0,
-        sharpeRatio: 0,
-        calmarRatio: 0,
-        averageTradeLength: 0
-      };
+  private static costModel(config: EnhancedBacktestConfig): CostModel {
+    if (!config.includeTransactionCosts) {
+      return new MidpointCostModel();
     }
-    
-    const totalPnL = trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-    const winningTrades = trades.filter(trade => (trade.pnl || 0) > 0);
-    const losingTrades = trades.filter(trade => (trade.pnl || 0) < 0);
-    
-    const winRate = winningTrades.length / trades.length;
-    const averageWin = winningTrades.length > 0 ? 
-      winningTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0) / winningTrades.length : 0;
-    const averageLoss = losingTrades.length > 0 ? 
-      Math.abs(losingTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0) / losingTrades.length) : 0;
-    
-    const profitFactor = averageLoss > 0 ? averageWin / averageLoss : 0;
-    
-    return {
-      totalReturn: totalPnL,
-      totalReturnPercent: (totalPnL / initialCapital) * 100,
-      totalTrades: trades.length,
-      winningTrades: winningTrades.length,
-      losingTrades: losingTrades.length,
-      winRate,
-      averageWin,
-      averageLoss,
-      profitFactor,
-      maxDrawdown: 0, // Simplified
-      sharpeRatio: 0, // Simplified
-      calmarRatio: 0,
-      averageTradeLength: 1 // Simplified for 0DTE
-    };
+    return config.includeSlippage ? new TransactionCostModel() : new MidpointCostModel({ commissionPerContract: 0.65 });
   }
-  
+
   /**
    * Calculate enhanced strategy analytics
    */
-  private static calculateStrategyAnalytics(state: any, config: EnhancedBacktestConfig): any {
-    const analytics = state.analytics;
-    
+  private static calculateStrategyAnalytics(plugin: CoherentSignalStrategy): EnhancedBacktestResults['strategyAnalytics'] {
     return {
-      signalQuality: {
-        excellent: analytics.signalCounts.excellent || 0,
-        good: analytics.signalCounts.good || 0,
-        fair: analytics.signalCounts.fair || 0,
-        poor: analytics.signalCounts.poor || 0
-      },
+      signalQuality: { ...plugin.signalCounts },
       indicatorPerformance: {
-        gexAccuracy: analytics.indicatorAccuracy.gex.total > 0 ? 
-          analytics.indicatorAccuracy.gex.correct / analytics.indicatorAccuracy.gex.total : 0,
-        avpAccuracy: analytics.indicatorAccuracy.avp.total > 0 ? 
-          analytics.indicatorAccuracy.avp.correct / analytics.indicatorAccuracy.avp.total : 0,
-        avwapAccuracy: analytics.indicatorAccuracy.avwap.total > 0 ? 
-          analytics.indicatorAccuracy.avwap.correct / analytics.indicatorAccuracy.avwap.total : 0,
-        fractalAccuracy: analytics.indicatorAccuracy.fractals.total > 0 ? 
-          analytics.indicatorAccuracy.fractals.correct / analytics.indicatorAccuracy.fractals.total : 0,
+        gexAccuracy: 0,
+        avpAccuracy: 0,
+        avwapAccuracy: 0,
+        fractalAccuracy: 0,
         atrEffectiveness: 0.75 // Placeholder
       },
       confluenceAnalysis: {
@@ -829,11 +481,11 @@ export class EnhancedBacktestEngine {
       },
       riskManagement: {
         avgATRMultiplier: 2.2, // Placeholder
-        volatilityRegimeBreakdown: analytics.volatilityRegimes,
+        volatilityRegimeBreakdown: { ...plugin.volatilityRegimes },
         stopLossEffectiveness: 0.7 // Placeholder
       }
     };
   }
 }
 
-export default EnhancedBacktestEngine;
\ No newline at end of file
+export default EnhancedBacktestEngine;
@@ -10,9 +10,13 @@
  * - Long Gamma: Market makers stabilize price (sell rallies, buy dips)
  * - Short Gamma: Market makers amplify moves (buy strength, sell weakness)
  * - Gamma Flip Point: Critical level where aggregate gamma transitions
+ * - Vanna/Charm: How dealer delta drifts with IV and with the clock, which
+ *   dominates 0-DTE hedging flows into the close
  */
 
 import { OptionsChain, MarketData } from '../../../lib/types';
+import { GreeksEngine, ChainGreeks } from '../../../lib/greeks-engine';
+import { MarketCalendar } from '../../../lib/market-calendar';
 
 export interface GammaExposureData {
   strike: number;
@@ -21,21 +25,49 @@ export interface GammaExposureData {
   putGamma: number;
   netGamma: number;
   dollarGamma: number; // $ amount of hedging flow per 1% move
+  dollarVanna: number; // $ change in dealer delta per 1 vol point
+  dollarCharm: number; // $ change in dealer delta per trading day of decay
   openInterestCalls: number;
   openInterestPuts: number;
 }
 
+export interface ExpirationExposure {
+  expiration: Date;
+  zeroDte: boolean; // Expires on the snapshot's New York trading day
+  totalNetGamma: number;
+  totalDollarGamma: number;
+  totalDollarVanna: number;
+  totalDollarCharm: number;
+  strikeGamma: GammaExposureData[];
+}
+
+export interface GammaProfilePoint {
+  price: number;
+  dollarGamma: number; // Total $ gamma with the chain repriced at `price`
+}
+
 export interface GEXSnapshot {
   timestamp: Date;
   underlyingPrice: number;
   totalNetGamma: number;
   totalDollarGamma: number;
-  gammaFlipPoint: number | null; // Price where net gamma = 0
+  gammaFlipPoint: number | null; // Price where repriced net gamma = 0, nearest the current price
+  gammaProfile: GammaProfilePoint[]; // Spot ladder the flip point was found on
   marketMakerPositioning: 'LONG_GAMMA' | 'SHORT_GAMMA' | 'NEUTRAL';
   volatilityRegime: 'SUPPRESSING' | 'AMPLIFYING' | 'TRANSITIONAL';
   
-  // Strike-level breakdown
+  // Second-order exposures
+  totalDollarVanna: number;
+  totalDollarCharm: number;
+  
+  // Strike-level breakdown (summed over expirations) and the split by expiration, nearest first
   strikeGamma: GammaExposureData[];
+  byExpiration: ExpirationExposure[];
+  
+  // Same-day expirations
+  zeroDteDollarGamma: number;
+  zeroDteShare: number; // 0-DTE share of absolute $ gamma
+  charmFlowToClose: number; // $ dealer delta that 0-DTE decay alone shifts by the close
   
   // Key levels
   highGammaStrikes: number[]; // Strikes with significant gamma concentration
@@ -57,6 +89,8 @@ export interface GEXConfiguration {
   };
   significantGammaThreshold: number; // Minimum gamma to be "significant"
   flipPointTolerance: number; // Price tolerance for gamma flip calculation
+  flipLadderRange: number; // Zero-gamma search spans spot ± this fraction
+  flipLadderSteps: number; // Spot levels the chain is repriced at across that range
 }
 
 export class GammaExposureEngine {
@@ -70,34 +104,54 @@ export class GammaExposureEngine {
       high: 10000000   // $10M in gamma exposure
     },
     significantGammaThreshold: 100000, // $100k minimum
-    flipPointTolerance: 0.50 // $0.50 price tolerance
+    flipPointTolerance: 0.50, // $0.50 price tolerance
+    flipLadderRange: 0.10,
+    flipLadderSteps: 41
   };
   
   /**
-   * Calculate comprehensive Gamma Exposure snapshot
+   * Calculate comprehensive Gamma Exposure snapshot at `asOf`. Gammas come from one
+   * batch pass over the chain; for a GEX per bar, pass the `impliedVolatility` column
+   * of an earlier GreeksEngine.calculateChainGreeks on the same chain so the quotes
+   * are not re-solved every bar
    */
   static calculateGEX(
     optionsChain: OptionsChain[],
     currentPrice: number,
-    config: Partial<GEXConfiguration> = {}
+    config: Partial<GEXConfiguration> = {},
+    asOf: Date = new Date(),
+    impliedVolatilities?: ArrayLike<number>
   ): GEXSnapshot {
     
     const fullConfig = { ...this.DEFAULT_CONFIG, ...config };
     
     console.log(`🎯 GEX CALCULATION: Analyzing ${optionsChain.length} options contracts at $${currentPrice.toFixed(2)}`);
     
-    // Group options by strike and expiration
-    const strikeData = this.groupOptionsByStrike(optionsChain);
+    // Black-Scholes gamma, vanna and charm of every contract at the IV its own quote implies
+    const greeks = GreeksEngine.calculateChainGreeks(optionsChain, currentPrice, asOf, { impliedVolatilities });
     
-    // Calculate gamma exposure for each strike
-    const strikeGamma = this.calculateStrikeGamma(strikeData, currentPrice, fullConfig);
+    // Exposure per expiration and strike, then per strike across expirations
+    const byExpiration = this.calculateExpirationExposure(optionsChain, greeks, currentPrice, asOf, fullConfig);
+    const strikeGamma = this.combineStrikes(byExpiration);
     
     // Calculate aggregate metrics
     const totalNetGamma = strikeGamma.reduce((sum, strike) => sum + strike.netGamma, 0);
     const totalDollarGamma = strikeGamma.reduce((sum, strike) => sum + strike.dollarGamma, 0);
-    
-    // Find gamma flip point
-    const gammaFlipPoint = this.calculateGammaFlipPoint(strikeGamma, currentPrice, fullConfig);
+    const totalDollarVanna = strikeGamma.reduce((sum, strike) => sum + strike.dollarVanna, 0);
+    const totalDollarCharm = strikeGamma.reduce((sum, strike) => sum + strike.dollarCharm, 0);
+    
+    // 0-DTE: its share of gamma and the delta its decay alone moves dealers by the close
+    const zeroDte = byExpiration.filter(expiry => expiry.zeroDte);
+    const zeroDteDollarGamma = zeroDte.reduce((sum, expiry) => sum + expiry.totalDollarGamma, 0);
+    const absoluteDollarGamma = byExpiration.reduce((sum, expiry) => sum + Math.abs(expiry.totalDollarGamma), 0);
+    const zeroDteShare = absoluteDollarGamma > 0 ? zeroDte.reduce((sum, expiry) => sum + Math.abs(expiry.totalDollarGamma), 0) / absoluteDollarGamma : 0;
+    const timeModel = GreeksEngine.getTimeModel();
+    const charmFlowToClose = zeroDte.reduce((sum, expiry) =>
+      sum + expiry.totalDollarCharm * Math.max(0, timeModel.yearFraction(asOf, expiry.expiration)) / timeModel.dayYears, 0);
+    
+    // Find gamma flip point by repricing the chain across a spot ladder
+    const gammaProfile = this.calculateGammaProfile(optionsChain, greeks.impliedVolatility, currentPrice, asOf, fullConfig);
+    const gammaFlipPoint = this.calculateGammaFlipPoint(optionsChain, greeks.impliedVolatility, gammaProfile, currentPrice, asOf, fullConfig);
     
     // Determine market maker positioning
     const positioning = this.determineMarketMakerPositioning(totalNetGamma, gammaFlipPoint, currentPrice);
@@ -115,14 +169,21 @@ export class GammaExposureEngine {
     const hedgingPressure = Math.abs(totalDollarGamma);
     
     const snapshot: GEXSnapshot = {
-      timestamp: new Date(),
+      timestamp: asOf,
       underlyingPrice: currentPrice,
       totalNetGamma,
       totalDollarGamma,
       gammaFlipPoint,
+      gammaProfile,
       marketMakerPositioning: positioning,
       volatilityRegime,
+      totalDollarVanna,
+      totalDollarCharm,
       strikeGamma,
+      byExpiration,
+      zeroDteDollarGamma,
+      zeroDteShare,
+      charmFlowToClose,
       highGammaStrikes,
       supportLevels,
       resistanceLevels,
@@ -133,6 +194,8 @@ export class GammaExposureEngine {
     console.log(`📊 GEX RESULTS:`);
     console.log(`   Net Gamma: ${(totalNetGamma / 1000000).toFixed(1)}M contracts`);
     console.log(`   Dollar Gamma: $${(totalDollarGamma / 1000000).toFixed(1)}M per 1% move`);
+    console.log(`   Dollar Vanna: $${(totalDollarVanna / 1000000).toFixed(1)}M per vol point, Dollar Charm: $${(totalDollarCharm / 1000000).toFixed(1)}M per day`);
+    console.log(`   0-DTE: ${(zeroDteShare * 100).toFixed(0)}% of gamma, charm flow to close $${(charmFlowToClose / 1000000).toFixed(1)}M`);
     console.log(`   Flip Point: ${gammaFlipPoint ? `$${gammaFlipPoint.toFixed(2)}` : 'Not found'}`);
     console.log(`   Positioning: ${positioning}`);
     console.log(`   Volatility Regime: ${volatilityRegime}`);
@@ -142,175 +205,177 @@ export class GammaExposureEngine {
   }
   
   /**
-   * Group options by strike price for analysis
+   * Dealer exposure per expiration and strike. Dealers are taken as long the calls and
+   * short the puts customers trade, so calls add and puts subtract; every contract counts
    */
-  private static groupOptionsByStrike(optionsChain: OptionsChain[]): Map<number, {
-    calls: OptionsChain[];
-    puts: OptionsChain[];
-  }> {
+  private static calculateExpirationExposure(
+    optionsChain: OptionsChain[],
+    greeks: ChainGreeks,
+    currentPrice: number,
+    asOf: Date,
+    config: GEXConfiguration
+  ): ExpirationExposure[] {
     
-    const strikeMap = new Map<number, { calls: OptionsChain[]; puts: OptionsChain[] }>();
+    const today = MarketCalendar.toEastern(asOf).day;
+    const dayYears = GreeksEngine.getTimeModel().dayYears;
+    const expirations = new Map<number, Map<number, GammaExposureData>>();
     
-    for (const option of optionsChain) {
-      if (!strikeMap.has(option.strike)) {
-        strikeMap.set(option.strike, { calls: [], puts: [] });
+    optionsChain.forEach((option, i) => {
+      const expirationTime = option.expiration.getTime();
+      if (!expirations.has(expirationTime)) {
+        expirations.set(expirationTime, new Map());
+      }
+      const strikes = expirations.get(expirationTime)!;
+      if (!strikes.has(option.strike)) {
+        strikes.set(option.strike, {
+          strike: option.strike, expiration: option.expiration, callGamma: 0, putGamma: 0, netGamma: 0,
+          dollarGamma: 0, dollarVanna: 0, dollarCharm: 0, openInterestCalls: 0, openInterestPuts: 0
+        });
       }
       
-      const strikeData = strikeMap.get(option.strike)!;
+      const data = strikes.get(option.strike)!;
+      const openInterest = option.openInterest || 0;
+      const sign = option.side === 'CALL' ? 1 : -1;
+      const gamma = greeks.gamma[i] * openInterest;
       if (option.side === 'CALL') {
-        strikeData.calls.push(option);
+        data.callGamma += gamma;
+        data.openInterestCalls += openInterest;
       } else {
-        strikeData.puts.push(option);
+        data.putGamma += gamma;
+        data.openInterestPuts += openInterest;
       }
-    }
-    
-    return strikeMap;
-  }
-  
-  /**
-   * Calculate gamma exposure for each strike
-   */
-  private static calculateStrikeGamma(
-    strikeData: Map<number, { calls: OptionsChain[]; puts: OptionsChain[] }>,
-    currentPrice: number,
-    config: GEXConfiguration
-  ): GammaExposureData[] {
-    
-    const results: GammaExposureData[] = [];
-    
-    for (const [strike, options] of Array.from(strikeData)) {
-      
-      // Calculate gamma for calls and puts
-      const callGamma = this.calculateCallGamma(options.calls, currentPrice, strike);
-      const putGamma = this.calculatePutGamma(options.puts, currentPrice, strike);
-      
-      // Net gamma (assuming market makers are short customer flow)
-      // Customers typically buy calls and puts, so MMs are short both
-      const netGamma = callGamma - Math.abs(putGamma); // Puts contribute negative gamma to MMs
+      data.netGamma += sign * gamma;
       
       // Dollar gamma calculation: Spot × Gamma × OI × Contract Size × Spot × 0.01
-      const totalCallOI = options.calls.reduce((sum, opt) => sum + (opt.openInterest || 0), 0);
-      const totalPutOI = options.puts.reduce((sum, opt) => sum + (opt.openInterest || 0), 0);
-      
-      const dollarGamma = currentPrice * netGamma * config.contractSize * currentPrice * config.spotPercentMove;
-      
-      const gammaData: GammaExposureData = {
-        strike,
-        expiration: options.calls[0]?.expiration || options.puts[0]?.expiration || new Date(),
-        callGamma,
-        putGamma,
-        netGamma,
-        dollarGamma,
-        openInterestCalls: totalCallOI,
-        openInterestPuts: totalPutOI
-      };
-      
-      results.push(gammaData);
-    }
+      data.dollarGamma += sign * currentPrice * gamma * config.contractSize * currentPrice * config.spotPercentMove;
+      data.dollarVanna += sign * greeks.vanna[i] * openInterest * config.contractSize * currentPrice;
+      data.dollarCharm += sign * greeks.charm[i] * dayYears * openInterest * config.contractSize * currentPrice;
+    });
     
-    return results.sort((a, b) => a.strike - b.strike);
+    return Array.from(expirations.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, strikes]) => {
+        const strikeGamma = Array.from(strikes.values()).sort((a, b) => a.strike - b.strike);
+        const expiration = strikeGamma[0].expiration;
+        return {
+          expiration,
+          zeroDte: MarketCalendar.toEastern(expiration).day === today,
+          totalNetGamma: strikeGamma.reduce((sum, data) => sum + data.netGamma, 0),
+          totalDollarGamma: strikeGamma.reduce((sum, data) => sum + data.dollarGamma, 0),
+          totalDollarVanna: strikeGamma.reduce((sum, data) => sum + data.dollarVanna, 0),
+          totalDollarCharm: strikeGamma.reduce((sum, data) => sum + data.dollarCharm, 0),
+          strikeGamma
+        };
+      });
   }
   
   /**
-   * Calculate gamma for call options at a strike
+   * Strike-level exposure summed over expirations, dated by the nearest
    */
-  private static calculateCallGamma(
-    calls: OptionsChain[],
-    currentPrice: number,
-    strike: number
-  ): number {
-    
-    if (calls.length === 0) return 0;
-    
-    // Use the option with highest open interest as representative
-    const primaryCall = calls.reduce((max, call) => 
-      (call.openInterest || 0) > (max.openInterest || 0) ? call : max
-    );
-    
-    // Simplified gamma calculation - in production, use Black-Scholes
-    // Gamma is highest ATM and decreases as options move ITM/OTM
-    const moneyness = currentPrice / strike;
-    const timeToExpiration = this.getTimeToExpiration(primaryCall.expiration);
-    
-    // Simplified gamma approximation
-    const gammaApprox = this.approximateGamma(moneyness, timeToExpiration, 'CALL');
+  private static combineStrikes(byExpiration: ExpirationExposure[]): GammaExposureData[] {
+    
+    const strikes = new Map<number, GammaExposureData>();
+    
+    for (const expiry of byExpiration) {
+      for (const data of expiry.strikeGamma) {
+        const combined = strikes.get(data.strike);
+        if (!combined) {
+          strikes.set(data.strike, { ...data });
+          continue;
+        }
+        combined.callGamma += data.callGamma;
+        combined.putGamma += data.putGamma;
+        combined.netGamma += data.netGamma;
+        combined.dollarGamma += data.dollarGamma;
+        combined.dollarVanna += data.dollarVanna;
+        combined.dollarCharm += data.dollarCharm;
+        combined.openInterestCalls += data.openInterestCalls;
+        combined.openInterestPuts += data.openInterestPuts;
+      }
+    }
     
-    return gammaApprox * (primaryCall.openInterest || 0);
+    return Array.from(strikes.values()).sort((a, b) => a.strike - b.strike);
   }
   
   /**
-   * Calculate gamma for put options at a strike
+   * Total dollar gamma with the whole chain repriced at each spot of a ladder around
+   * the current price (IVs held per strike)
    */
-  private static calculatePutGamma(
-    puts: OptionsChain[],
+  private static calculateGammaProfile(
+    optionsChain: OptionsChain[],
+    impliedVolatilities: ArrayLike<number>,
     currentPrice: number,
-    strike: number
-  ): number {
-    
-    if (puts.length === 0) return 0;
-    
-    // Use the option with highest open interest as representative
-    const primaryPut = puts.reduce((max, put) => 
-      (put.openInterest || 0) > (max.openInterest || 0) ? put : max
-    );
-    
-    const moneyness = currentPrice / strike;
-    const timeToExpiration = this.getTimeToExpiration(primaryPut.expiration);
-    
-    // Simplified gamma approximation
-    const gammaApprox = this.approximateGamma(moneyness, timeToExpiration, 'PUT');
+    asOf: Date,
+    config: GEXConfiguration
+  ): GammaProfilePoint[] {
     
-    return gammaApprox * (primaryPut.openInterest || 0);
+    const steps = Math.max(2, config.flipLadderSteps);
+    return Array.from({ length: steps }, (_, i) => {
+      const price = currentPrice * (1 - config.flipLadderRange + 2 * config.flipLadderRange * i / (steps - 1));
+      return { price, dollarGamma: this.repricedDollarGamma(optionsChain, impliedVolatilities, price, asOf, config) };
+    });
   }
   
-  /**
-   * Simplified gamma approximation for quick calculation
-   */
-  private static approximateGamma(
-    moneyness: number,
-    timeToExpiration: number,
-    type: 'CALL' | 'PUT'
+  private static repricedDollarGamma(
+    optionsChain: OptionsChain[],
+    impliedVolatilities: ArrayLike<number>,
+    price: number,
+    asOf: Date,
+    config: GEXConfiguration
   ): number {
     
-    // Peak gamma occurs at ATM
-    const atmFactor = Math.exp(-Math.pow((moneyness - 1) * 5, 2));
-    
-    // Gamma increases as expiration approaches
-    const timeFactor = Math.max(0.1, Math.sqrt(timeToExpiration));
-    
-    // Base gamma estimate
-    const baseGamma = 0.05; // Typical gamma for ATM options
-    
-    return baseGamma * atmFactor / timeFactor;
+    const greeks = GreeksEngine.calculateChainGreeks(optionsChain, price, asOf, { impliedVolatilities });
+    let netGamma = 0;
+    optionsChain.forEach((option, i) => {
+      netGamma += (option.side === 'CALL' ? 1 : -1) * greeks.gamma[i] * (option.openInterest || 0);
+    });
+    return price * netGamma * config.contractSize * price * config.spotPercentMove;
   }
   
   /**
-   * Calculate gamma flip point where net gamma = 0
+   * Calculate gamma flip point where repriced net gamma = 0: the ladder's sign change
+   * nearest the current price, bisected down to the configured tolerance
    */
   private static calculateGammaFlipPoint(
-    strikeGamma: GammaExposureData[],
+    optionsChain: OptionsChain[],
+    impliedVolatilities: ArrayLike<number>,
+    gammaProfile: GammaProfilePoint[],
     currentPrice: number,
+    asOf: Date,
     config: GEXConfiguration
   ): number | null {
     
-    // Find strikes above and below current price with opposite gamma signs
-    for (let i = 0; i < strikeGamma.length - 1; i++) {
-      const current = strikeGamma[i];
-      const next = strikeGamma[i + 1];
-      
-      // Check if gamma flips sign between these strikes
-      if ((current.netGamma > 0 && next.netGamma < 0) || 
-          (current.netGamma < 0 && next.netGamma > 0)) {
-        
-        // Linear interpolation to find flip point
-        const weightNext = Math.abs(current.netGamma) / (Math.abs(current.netGamma) + Math.abs(next.netGamma));
-        const flipPoint = current.strike + (next.strike - current.strike) * weightNext;
-        
-        return flipPoint;
+    let bracket: [GammaProfilePoint, GammaProfilePoint] | null = null;
+    for (let i = 0; i < gammaProfile.length - 1; i++) {
+      const current = gammaProfile[i];
+      const next = gammaProfile[i + 1];
+      if (current.dollarGamma * next.dollarGamma > 0 || (current.dollarGamma === 0 && next.dollarGamma === 0)) {
+        continue;
+      }
+      const distance = Math.abs((current.price + next.price) / 2 - currentPrice);
+      if (!bracket || distance < Math.abs((bracket[0].price + bracket[1].price) / 2 - currentPrice)) {
+        bracket = [current, next];
       }
     }
     
-    return null; // No flip point found
+    if (!bracket) {
+      return null; // No flip point found
+    }
+    
+    let [low, high] = bracket;
+    while (high.price - low.price > config.flipPointTolerance) {
+      const price = (low.price + high.price) / 2;
+      const middle = { price, dollarGamma: this.repricedDollarGamma(optionsChain, impliedVolatilities, price, asOf, config) };
+      if (low.dollarGamma * middle.dollarGamma <= 0) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    
+    // Linear interpolation inside the final bracket
+    const span = Math.abs(low.dollarGamma) + Math.abs(high.dollarGamma);
+    return span > 0 ? low.price + (high.price - low.price) * Math.abs(low.dollarGamma) / span : (low.price + high.price) / 2;
   }
   
   /**
@@ -431,16 +496,6 @@ export class GammaExposureEngine {
     }
   }
   
-  /**
-   * Calculate time to expiration in years
-   */
-  private static getTimeToExpiration(expiration: Date): number {
-    const now = new Date();
-    const timeMs = expiration.getTime() - now.getTime();
-    const timeYears = Math.max(0.001, timeMs / (1000 * 60 * 60 * 24 * 365));
-    return timeYears;
-  }
-  
   /**
    * Monitor gamma changes over time for trend analysis
    */
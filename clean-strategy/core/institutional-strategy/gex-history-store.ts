@@ -0,0 +1,264 @@
+/**
+ * GEX HISTORY STORE
+ * Per-bar GEX snapshots per underlying, with the dealer-positioning transitions between bars
+ *
+ * Each recorded snapshot is compared with the previous bar of the same New York session
+ * and the transitions are kept alongside it: price crossing the gamma flip point, the
+ * flip point itself moving, dealers switching between long and short gamma, and the set
+ * of high-gamma strikes changing. With a root directory the bars are also appended as
+ * JSON lines, one file per underlying and session:
+ *   <root>/SPY/2024-03-05.jsonl
+ * so a later run (or the dashboard) can replay a session bar by bar.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarketCalendar } from '../../../lib/market-calendar';
+import GammaExposureEngine, { GEXSnapshot } from './gamma-exposure-engine';
+
+export type GEXEventType = 'FLIP_CROSS' | 'FLIP_SHIFT' | 'POSITIONING_CHANGE' | 'HIGH_GAMMA_STRIKES_CHANGE';
+
+export interface GEXEvent {
+  underlying: string;
+  timestamp: Date;
+  type: GEXEventType;
+  underlyingPrice: number;
+  gammaFlipPoint: number | null;
+  // Previous and current bar: side of the flip ('ABOVE'/'BELOW'), flip point, positioning or strikes
+  from: string | number | number[] | null;
+  to: string | number | number[] | null;
+  description: string;
+}
+
+export interface GEXHistoryRecord {
+  underlying: string;
+  snapshot: GEXSnapshot;
+  events: GEXEvent[]; // Transitions from the previous bar of the session
+}
+
+export interface GEXHistoryStoreConfig {
+  rootDir: string | null; // Keep history in memory only when null
+  flipShiftThreshold: number; // Flip point moves beyond this fraction of price raise FLIP_SHIFT
+}
+
+export type GEXEventListener = (event: GEXEvent) => void;
+
+export class GEXHistoryStore {
+  readonly config: GEXHistoryStoreConfig;
+  private sessionCache: Map<string, GEXHistoryRecord[]> = new Map();
+  private listeners: GEXEventListener[] = [];
+
+  private static readonly DEFAULT_CONFIG: GEXHistoryStoreConfig = {
+    rootDir: null,
+    flipShiftThreshold: 0.0025 // ~$1.25 on SPY at 500
+  };
+
+  constructor(config: Partial<GEXHistoryStoreConfig> = {}) {
+    this.config = { ...GEXHistoryStore.DEFAULT_CONFIG, ...config };
+    if (this.config.rootDir) {
+      this.config.rootDir = path.resolve(this.config.rootDir);
+    }
+  }
+
+  /**
+   * Record a bar's snapshot and return the transitions from the previous bar of its
+   * session; listeners are notified of each one
+   */
+  record(underlying: string, snapshot: GEXSnapshot): GEXEvent[] {
+    const day = this.dayOf(snapshot.timestamp);
+    const session = this.loadSession(underlying, day);
+    const time = snapshot.timestamp.getTime();
+
+    let index = session.length;
+    while (index > 0 && session[index - 1].snapshot.timestamp.getTime() > time) {
+      index--;
+    }
+    const previous = index > 0 ? session[index - 1].snapshot : null;
+    const events = previous ? this.detectEvents(underlying, previous, snapshot) : [];
+    const record: GEXHistoryRecord = { underlying, snapshot, events };
+    session.splice(index, 0, record);
+
+    if (this.config.rootDir) {
+      const filePath = this.sessionFile(underlying, day);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.appendFileSync(filePath, JSON.stringify(record) + '\n');
+    }
+
+    for (const event of events) {
+      this.listeners.forEach(listener => listener(event));
+    }
+    return events;
+  }
+
+  /**
+   * Subscribe to transitions as bars are recorded; returns the unsubscribe function
+   */
+  onEvent(listener: GEXEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Latest snapshot recorded at or before asOf within its session, or null
+   */
+  getSnapshotAsOf(underlying: string, asOf: Date): GEXSnapshot | null {
+    const session = this.loadSession(underlying, this.dayOf(asOf));
+    for (let i = session.length - 1; i >= 0; i--) {
+      if (session[i].snapshot.timestamp.getTime() <= asOf.getTime()) {
+        return session[i].snapshot;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Recorded bars between start and end (inclusive), oldest first
+   */
+  getHistory(underlying: string, start: Date, end: Date): GEXHistoryRecord[] {
+    return Array.from(this.replay(underlying, start, end));
+  }
+
+  /**
+   * Transitions between start and end, optionally narrowed to some event types
+   */
+  getEvents(underlying: string, start: Date, end: Date, types?: GEXEventType[]): GEXEvent[] {
+    const events: GEXEvent[] = [];
+    for (const record of this.replay(underlying, start, end)) {
+      events.push(...record.events.filter(event => !types || types.includes(event.type)));
+    }
+    return events;
+  }
+
+  /**
+   * Replay recorded bars between start and end in time order, one session at a time,
+   * each with the transitions it raised when it was recorded
+   */
+  *replay(underlying: string, start: Date, end: Date): IterableIterator<GEXHistoryRecord> {
+    for (const day of this.daysBetween(start, end)) {
+      for (const record of this.loadSession(underlying, day)) {
+        const time = record.snapshot.timestamp.getTime();
+        if (time >= start.getTime() && time <= end.getTime()) {
+          yield record;
+        }
+      }
+    }
+  }
+
+  /**
+   * Gamma, flip point and risk trends over the session's last bars up to asOf
+   */
+  trackEvolution(underlying: string, asOf: Date, lookbackPeriods: number = 10): ReturnType<typeof GammaExposureEngine.trackGammaEvolution> {
+    const session = this.loadSession(underlying, this.dayOf(asOf))
+      .filter(record => record.snapshot.timestamp.getTime() <= asOf.getTime())
+      .map(record => record.snapshot);
+    return GammaExposureEngine.trackGammaEvolution(session, lookbackPeriods);
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private detectEvents(underlying: string, previous: GEXSnapshot, current: GEXSnapshot): GEXEvent[] {
+    const events: GEXEvent[] = [];
+    const event = (type: GEXEventType, from: GEXEvent['from'], to: GEXEvent['to'], description: string) => events.push({
+      underlying,
+      timestamp: current.timestamp,
+      type,
+      underlyingPrice: current.underlyingPrice,
+      gammaFlipPoint: current.gammaFlipPoint,
+      from,
+      to,
+      description
+    });
+
+    // Each bar's price is judged against that bar's own flip point
+    if (previous.gammaFlipPoint !== null && current.gammaFlipPoint !== null) {
+      const before = previous.underlyingPrice >= previous.gammaFlipPoint ? 'ABOVE' : 'BELOW';
+      const after = current.underlyingPrice >= current.gammaFlipPoint ? 'ABOVE' : 'BELOW';
+      if (before !== after) {
+        event('FLIP_CROSS', before, after,
+          `${underlying} ${current.underlyingPrice.toFixed(2)} crossed ${after === 'ABOVE' ? 'above' : 'below'} the gamma flip at ${current.gammaFlipPoint.toFixed(2)}`);
+      }
+    }
+
+    const flipMoved = previous.gammaFlipPoint === null || current.gammaFlipPoint === null
+      ? previous.gammaFlipPoint !== current.gammaFlipPoint
+      : Math.abs(current.gammaFlipPoint - previous.gammaFlipPoint) > this.config.flipShiftThreshold * current.underlyingPrice;
+    if (flipMoved) {
+      const level = (flip: number | null) => (flip === null ? 'none' : flip.toFixed(2));
+      event('FLIP_SHIFT', previous.gammaFlipPoint, current.gammaFlipPoint,
+        `${underlying} gamma flip moved ${level(previous.gammaFlipPoint)} → ${level(current.gammaFlipPoint)}`);
+    }
+
+    if (previous.marketMakerPositioning !== current.marketMakerPositioning) {
+      event('POSITIONING_CHANGE', previous.marketMakerPositioning, current.marketMakerPositioning,
+        `${underlying} dealers ${previous.marketMakerPositioning} → ${current.marketMakerPositioning}`);
+    }
+
+    const added = current.highGammaStrikes.filter(strike => !previous.highGammaStrikes.includes(strike));
+    const removed = previous.highGammaStrikes.filter(strike => !current.highGammaStrikes.includes(strike));
+    if (added.length > 0 || removed.length > 0) {
+      event('HIGH_GAMMA_STRIKES_CHANGE', previous.highGammaStrikes, current.highGammaStrikes,
+        `${underlying} high-gamma strikes +[${added.join(', ')}] -[${removed.join(', ')}]`);
+    }
+
+    return events;
+  }
+
+  private loadSession(underlying: string, day: string): GEXHistoryRecord[] {
+    const cacheKey = `${underlying}/${day}`;
+    const cached = this.sessionCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const records: GEXHistoryRecord[] = [];
+    const filePath = this.config.rootDir ? this.sessionFile(underlying, day) : null;
+    if (filePath && fs.existsSync(filePath)) {
+      for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+        if (line.trim().length === 0) continue;
+        records.push(this.toRecord(JSON.parse(line)));
+      }
+      records.sort((a, b) => a.snapshot.timestamp.getTime() - b.snapshot.timestamp.getTime());
+    }
+
+    this.sessionCache.set(cacheKey, records);
+    return records;
+  }
+
+  private toRecord(raw: any): GEXHistoryRecord {
+    const strikes = (rows: any[]) => rows.map(row => ({ ...row, expiration: new Date(row.expiration) }));
+    return {
+      underlying: raw.underlying,
+      snapshot: {
+        ...raw.snapshot,
+        timestamp: new Date(raw.snapshot.timestamp),
+        strikeGamma: strikes(raw.snapshot.strikeGamma),
+        byExpiration: raw.snapshot.byExpiration.map((expiry: any) => ({
+          ...expiry,
+          expiration: new Date(expiry.expiration),
+          strikeGamma: strikes(expiry.strikeGamma)
+        }))
+      },
+      events: raw.events.map((event: any) => ({ ...event, timestamp: new Date(event.timestamp) }))
+    };
+  }
+
+  private daysBetween(start: Date, end: Date): string[] {
+    const days: string[] = [];
+    for (let day = this.dayOf(start); day <= this.dayOf(end); day = MarketCalendar.nextTradingDay(day).day) {
+      days.push(day);
+    }
+    return days;
+  }
+
+  private sessionFile(underlying: string, day: string): string {
+    return path.join(this.config.rootDir as string, underlying, `${day}.jsonl`);
+  }
+
+  private dayOf(date: Date): string {
+    return MarketCalendar.toEastern(date).day;
+  }
+}
+
+export default GEXHistoryStore;
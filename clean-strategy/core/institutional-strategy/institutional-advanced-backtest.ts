@@ -1,9 +1,9 @@
 /**
  * INSTITUTIONAL ADVANCED BACKTEST ENGINE
- * 
+ *
  * Combines your existing institutional-grade framework from lib/backtest-engine.ts
  * with the new advanced indicators (GEX, AVP, AVWAP, Microfractal).
- * 
+ *
  * This provides the BEST OF BOTH WORLDS:
  * ✅ Advanced multi-indicator signals (GEX, AVP, AVWAP, Microfractal, ATR)
  * ✅ Institutional risk management (Greeks, portfolio limits, kill switches)
@@ -12,75 +12,45 @@
  * ✅ Dynamic position sizing and portfolio management
  */
 
-import { 
-  Strategy, 
-  MarketData, 
-  OptionsChain, 
-  BacktestParams, 
+import {
+  Strategy,
+  BacktestParams,
   PerformanceMetrics,
   BacktestTrade,
-  TechnicalIndicators,
   BullPutSpread,
   BearCallSpread,
   IronCondor,
   TradeSignal
 } from '../../../lib/types';
 
-import { GreeksEngine, GreeksSnapshot } from '../../../lib/greeks-engine';
-import { TransactionCostEngine, FillSimulation } from '../../../lib/transaction-cost-engine';
 import { AdaptiveStrategySelector } from '../../../lib/adaptive-strategy-selector';
 import { BullPutSpreadStrategy } from '../../../lib/bull-put-spread-strategy';
 import { BearCallSpreadStrategy } from '../../../lib/bear-call-spread-strategy';
 import { IronCondorStrategy } from '../../../lib/iron-condor-strategy';
-import { TechnicalAnalysis } from '../../../lib/technical-indicators';
+import { MarketDataProvider } from '../../../lib/market-data-provider';
+import { createMarketDataProvider } from '../../../lib/market-data-provider-factory';
+import { ScenarioEngine } from '../../../lib/scenario-engine';
+import { PnLAttributionReport } from '../../../lib/pnl-attribution';
+import { BacktestCore } from '../../../lib/backtest-core';
+import { TradingStrategy, TradingSignal, StrategyContext, StrategyPosition, StrategyParameter } from '../../../lib/trading-strategy';
+import { TransactionCostModel } from '../../../lib/backtest-cost-models';
+import { CompositeRiskManager, PositionLimitRiskManager, GreeksRiskManager } from '../../../lib/backtest-risk-managers';
 
 // NEW: Advanced strategy framework imports
 import CoherentStrategyFramework, { StrategySignal } from './coherent-strategy-framework';
-import ComprehensiveRiskManager from './comprehensive-risk-management';
-import EnhancedATRRiskManager from './enhanced-atr-risk-mgmt';
+import EnhancedATRRiskManager, { ATRSnapshot } from './enhanced-atr-risk-mgmt';
 import GammaExposureEngine from './gamma-exposure-engine';
-import AnchoredVolumeProfile from './anchored-volume-profile';
-import AnchoredVWAP from './anchored-vwap';
-import MicrofractalFibonacci from './microfractal-fibonacci';
-
-export interface InstitutionalBacktestPosition {
-  symbol: string;
-  side: 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR';
-  strike: number;
-  expiration: Date;
-  entryDate: Date;
-  entryPrice: number;
-  quantity: number;
-  indicators: TechnicalIndicators;
-  spread: BullPutSpread | BearCallSpread | IronCondor;
-  daysHeld?: number;
-  
-  // EXISTING INSTITUTIONAL FEATURES
-  entryGreeks: GreeksSnapshot;
-  currentGreeks: GreeksSnapshot;
-  greeksHistory: GreeksSnapshot[];
-  maxLoss: number;
-  riskScore: number;
-  entryFills: FillSimulation[];
-  exitFills?: FillSimulation[];
-  totalTransactionCosts: number;
-  netPnL?: number;
-  
-  // NEW: ADVANCED STRATEGY FEATURES
-  entrySignal: StrategySignal;
-  coherentAnalysis: {
-    gexRisk: string;
-    avpStructure: string;
-    avwapTrend: string;
-    fractalSetups: number;
-    atrVolatility: string;
-    confluenceZones: number;
-  };
-  
-  // Enhanced tracking
-  maxDrawdown: number;
-  peakPnL: number;
-  timeInPosition: number; // minutes
+import GEXHistoryStore, { GEXEvent } from './gex-history-store';
+
+type SpreadAction = 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR';
+
+export interface CoherentAnalysis {
+  gexRisk: string;
+  avpStructure: string;
+  avwapTrend: string;
+  fractalSetups: number;
+  atrVolatility: string;
+  confluenceZones: number;
 }
 
 export interface InstitutionalBacktestConfig {
@@ -90,16 +60,17 @@ export interface InstitutionalBacktestConfig {
   maxConcurrentPositions: number;
   positionCorrelation: number;
   dynamicPositionSizing: boolean;
-  
+
   // NEW: ADVANCED FEATURES
   useCoherentFramework: boolean;
   requireConfluence: boolean;
   minConfidenceLevel: number;
   enableGEXFilters: boolean;
+  gexHistoryDir: string | null; // Persist per-bar GEX history and transitions here (memory only when null)
   enableVolumeProfile: boolean;
   enableMicrofractals: boolean;
   atrRiskManagement: boolean;
-  
+
   // Performance optimization
   tickLevelExecution: boolean;
   realTimeGreeks: boolean;
@@ -113,803 +84,336 @@ const DEFAULT_INSTITUTIONAL_CONFIG: InstitutionalBacktestConfig = {
   maxConcurrentPositions: 3,
   positionCorrelation: 0.7,
   dynamicPositionSizing: true,
-  
+
   // Advanced features
   useCoherentFramework: true,
   requireConfluence: true,
   minConfidenceLevel: 0.6,
   enableGEXFilters: true,
+  gexHistoryDir: null,
   enableVolumeProfile: true,
   enableMicrofractals: true,
   atrRiskManagement: true,
-  
+
   // Performance
   tickLevelExecution: true,
   realTimeGreeks: true,
   advancedMetrics: true
 };
 
+/**
+ * Coherent-framework (or adaptive selector) direction traded as credit spreads:
+ * a bullish signal sells a bull put spread, a bearish one a bear call spread.
+ * Tracks GEX, volume profile and confluence analytics on every bar it evaluates.
+ * The config's position, confidence and sizing settings are the declared parameters' defaults
+ */
+export class InstitutionalConfluenceStrategy implements TradingStrategy {
+  readonly name: string;
+  readonly warmupBars = 50;
+  readonly parameters: StrategyParameter[];
+  readonly gexAnalysis: any[] = [];
+  readonly gexEvents: GEXEvent[] = [];
+  readonly volumeProfileAnalysis: any[] = [];
+  confluenceHits = 0;
+  totalSignals = 0;
+  private readonly gexHistory: GEXHistoryStore;
+
+  constructor(
+    private readonly strategy: Strategy,
+    private readonly config: InstitutionalBacktestConfig
+  ) {
+    this.name = strategy.name;
+    this.gexHistory = new GEXHistoryStore({ rootDir: config.gexHistoryDir });
+    this.parameters = [
+      { name: 'maxConcurrentPositions', type: 'integer', default: config.maxConcurrentPositions, min: 1, max: 20, step: 1, description: 'Open spreads allowed across all underlyings' },
+      { name: 'requireConfluence', type: 'boolean', default: config.requireConfluence, description: 'Filter entries on confidence and exit when confluence breaks down' },
+      { name: 'minConfidenceLevel', type: 'number', default: config.minConfidenceLevel, min: 0, max: 1, step: 0.05, description: 'Minimum signal confidence when confluence is required' },
+      { name: 'dynamicPositionSizing', type: 'boolean', default: config.dynamicPositionSizing, description: 'Size spreads off their max loss rather than the signal\'s position size' },
+      { name: 'atrRiskManagement', type: 'boolean', default: config.atrRiskManagement, description: 'Skip extreme-volatility entries and cap size at the ATR recommendation' }
+    ];
+  }
+
+  async onQuote(context: StrategyContext): Promise<TradingSignal[]> {
+    const signals: TradingSignal[] = [];
+    if (context.chain.length === 0) {
+      return signals;
+    }
+
+    // Last 200 bars for indicators
+    const marketContext = context.history.slice(-200);
+    let signal: StrategySignal | null = null;
+    let selection: TradeSignal | null = null;
+    let regime: BacktestTrade['regime'];
+    let coherentAnalysis: CoherentAnalysis | null = null;
+
+    if (this.config.useCoherentFramework) {
+      try {
+        signal = await CoherentStrategyFramework.generateCoherentSignal(marketContext, context.chain, this.strategy, context.balance);
+      } catch (error) {
+        console.warn(`⚠️ Signal generation failed at ${context.timestamp.toDateString()}: ${error}`);
+        return this.checkExits(context, null);
+      }
+      this.totalSignals++;
+
+      const gexSnapshot = GammaExposureEngine.calculateGEX(context.chain, context.bar.close, {}, context.timestamp);
+      coherentAnalysis = {
+        gexRisk: gexSnapshot.gammaRisk,
+        avpStructure: signal.avpAnalysis.marketStructure,
+        avwapTrend: signal.avwapAnalysis.trendDirection,
+        fractalSetups: signal.fractalAnalysis.highProbabilitySetups.length,
+        atrVolatility: signal.atrAnalysis.volatilityRegime,
+        confluenceZones: signal.confluenceZones?.length || 0
+      };
+
+      this.gexAnalysis.push({ date: context.timestamp, ...gexSnapshot });
+      this.gexEvents.push(...this.gexHistory.record(context.underlying, gexSnapshot));
+      this.volumeProfileAnalysis.push({ date: context.timestamp, ...signal.avpAnalysis });
+      if (signal.confluenceZones && signal.confluenceZones.length > 0) {
+        this.confluenceHits++;
+      }
+      regime = signal.action === 'BUY' ? 'BULLISH' : signal.action === 'SELL' ? 'BEARISH' : 'NEUTRAL';
+    } else {
+      // Fall back to traditional adaptive strategy selector
+      const strategySelection = AdaptiveStrategySelector.generateAdaptiveSignal(marketContext, context.chain, this.strategy);
+      selection = strategySelection.signal;
+      regime = strategySelection.marketRegime.regime;
+    }
+
+    signals.push(...this.checkExits(context, signal));
+
+    if (context.allPositions.length - signals.length >= (context.params.maxConcurrentPositions as number)) {
+      return signals;
+    }
+    const entry = this.checkEntry(context, marketContext, signal, selection, regime, coherentAnalysis);
+    if (entry) {
+      signals.push(entry);
+    }
+    return signals;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private checkEntry(
+    context: StrategyContext,
+    marketContext: StrategyContext['history'],
+    signal: StrategySignal | null,
+    selection: TradeSignal | null,
+    regime: BacktestTrade['regime'],
+    coherentAnalysis: CoherentAnalysis | null
+  ): TradingSignal | null {
+    // Confidence filtering
+    const confidence = signal ? signal.confidence : selection ? selection.confidence / 100 : 0;
+    if (context.params.requireConfluence && confidence < (context.params.minConfidenceLevel as number)) {
+      return null;
+    }
+
+    let action: SpreadAction;
+    let spreadSignal: TradeSignal | null;
+    if (signal) {
+      if (signal.action === 'NO_TRADE') {
+        return null;
+      }
+      action = signal.action === 'BUY' ? 'BULL_PUT_SPREAD' : 'BEAR_CALL_SPREAD';
+      spreadSignal = action === 'BULL_PUT_SPREAD'
+        ? BullPutSpreadStrategy.generateSpreadSignal(context.history, context.chain, this.strategy)
+        : BearCallSpreadStrategy.generateSpreadSignal(context.history, context.chain, this.strategy);
+    } else if (selection && (selection.action === 'BULL_PUT_SPREAD' || selection.action === 'BEAR_CALL_SPREAD' || selection.action === 'IRON_CONDOR')) {
+      action = selection.action;
+      spreadSignal = selection;
+    } else {
+      return null;
+    }
+    if (!spreadSignal || !spreadSignal.spread) {
+      return null;
+    }
+    const spread = spreadSignal.spread;
+
+    let quantity = !context.params.dynamicPositionSizing
+      ? Math.max(1, Math.floor(signal ? signal.positionSize : 1))
+      : action === 'BULL_PUT_SPREAD'
+        ? BullPutSpreadStrategy.calculateSpreadPositionSize(context.balance, spread.maxLoss, this.strategy)
+        : action === 'BEAR_CALL_SPREAD'
+          ? BearCallSpreadStrategy.calculateSpreadPositionSize(context.balance, spread.maxLoss, this.strategy)
+          : IronCondorStrategy.calculateSpreadPositionSize(context.balance, spread.maxLoss, this.strategy);
+
+    // ATR-based position sizing
+    if (context.params.atrRiskManagement) {
+      const atrAnalysis: ATRSnapshot = signal ? signal.atrAnalysis : EnhancedATRRiskManager.analyzeATR(marketContext, context.balance, 1.2);
+      if (atrAnalysis.volatilityRegime === 'EXTREME') {
+        console.log(`⚠️ Extreme volatility detected, skipping trade`);
+        return null;
+      }
+      quantity = Math.max(1, Math.floor(Math.min(quantity, atrAnalysis.recommendedPositionSize)));
+    }
+
+    return {
+      action: 'OPEN',
+      label: action,
+      legs: ScenarioEngine.spreadLegs(spread, action, 1),
+      quantity,
+      reason: signal ? signal.reasoning.entryTrigger : spreadSignal.reason,
+      regime,
+      indicators: spreadSignal.indicators,
+      metadata: { spread, signal, coherentAnalysis }
+    };
+  }
+
+  private checkExits(context: StrategyContext, signal: StrategySignal | null): TradingSignal[] {
+    const signals: TradingSignal[] = [];
+    for (const position of context.positions) {
+      const reason = this.checkExit(position, context, signal);
+      if (reason) {
+        signals.push({ action: 'CLOSE', positionId: position.id, reason });
+      }
+    }
+    return signals;
+  }
+
+  private checkExit(position: StrategyPosition, context: StrategyContext, currentSignal: StrategySignal | null): string | null {
+    const price = context.bar.close;
+    const spread = position.metadata.spread as BullPutSpread | BearCallSpread | IronCondor;
+    const minutesHeld = (context.timestamp.getTime() - position.entryDate.getTime()) / (1000 * 60);
+    const daysHeld = Math.floor(minutesHeld / (24 * 60));
+    const profitPercent = position.unrealizedPnL / (spread.maxProfit * position.quantity * position.multiplier);
+
+    // 1. GREEKS-BASED EXIT CONDITIONS (existing institutional logic)
+    const greeksExit = GreeksRiskManager.checkExit(position);
+    if (greeksExit.shouldExit) {
+      return greeksExit.reason || 'GREEKS_LIMIT';
+    }
+
+    // 2. TRADITIONAL STRATEGY EXIT CONDITIONS
+    if (position.label === 'BULL_PUT_SPREAD') {
+      const exit = BullPutSpreadStrategy.shouldExitSpread(spread as BullPutSpread, price, position.currentClose, daysHeld);
+      if (exit.shouldExit) {
+        return exit.reason || 'SPREAD_EXIT';
+      }
+    } else if (position.label === 'BEAR_CALL_SPREAD') {
+      const exit = BearCallSpreadStrategy.shouldExitSpread(spread as BearCallSpread, price, position.currentClose, daysHeld, position.currentGreeks);
+      if (exit.shouldExit) {
+        return exit.reason || 'SPREAD_EXIT';
+      }
+    } else if (currentSignal) {
+      // Exit the condor once the framework sees direction again, or loses conviction
+      if (currentSignal.confidence < 0.3 || currentSignal.action !== 'NO_TRADE') {
+        return `Signal changed: ${currentSignal.action} (${(currentSignal.confidence * 100).toFixed(0)}% confidence)`;
+      }
+    } else if (!this.config.useCoherentFramework) {
+      if (profitPercent >= 0.5) {
+        return '50% max profit captured';
+      }
+      if (-position.unrealizedPnL / (spread.maxLoss * position.quantity * position.multiplier) >= 0.3) {
+        return '30% max loss reached';
+      }
+    }
+
+    // 3. CONFLUENCE-BASED EXIT CONDITIONS
+    const entrySignal = position.metadata.signal as StrategySignal | null;
+    if (context.params.requireConfluence && currentSignal && entrySignal &&
+        currentSignal.confluenceZones.length === 0 && entrySignal.confluenceZones && entrySignal.confluenceZones.length > 0) {
+      return 'CONFLUENCE_BREAKDOWN';
+    }
+
+    // 4. TIME-BASED EXIT (0DTE management): take 25% of max profit after 4 hours
+    if (this.strategy.daysToExpiration === 0 && minutesHeld > 240 && profitPercent >= 0.25) {
+      return '0DTE_TIME_PROFIT';
+    }
+
+    return null;
+  }
+}
+
 export class InstitutionalAdvancedBacktestEngine {
-  
+
   /**
    * Run institutional-grade backtest with advanced indicators
    */
   static async runBacktest(
     strategy: Strategy,
     params: BacktestParams,
-    config: InstitutionalBacktestConfig = DEFAULT_INSTITUTIONAL_CONFIG
+    config: InstitutionalBacktestConfig = DEFAULT_INSTITUTIONAL_CONFIG,
+    dataProvider: MarketDataProvider = createMarketDataProvider()
   ): Promise<{
     trades: BacktestTrade[];
     performance: PerformanceMetrics;
     equityCurve: { date: string; value: number }[];
+    attribution: PnLAttributionReport;
     advancedMetrics: {
       gexAnalysis: any[];
+      gexEvents: GEXEvent[];
       volumeProfileAnalysis: any[];
       confluenceHits: number;
       signalQuality: number;
       riskAdjustedReturn: number;
     };
   }> {
-    
+
     console.log('🚀 INSTITUTIONAL ADVANCED BACKTEST ENGINE');
     console.log('='.repeat(60));
     console.log(`🎯 Strategy: ${strategy.name}`);
     console.log(`📅 Period: ${params.startDate.toDateString()} - ${params.endDate.toDateString()}`);
     console.log(`💰 Capital: $${params.initialCapital.toLocaleString()}`);
     console.log(`🏛️ Framework: ${config.useCoherentFramework ? 'Advanced Multi-Indicator' : 'Traditional'}`);
-    
+
+    // Kill switch on the day's realized losses; every spread is reviewed for its Greeks
+    const plugin = new InstitutionalConfluenceStrategy(strategy, config);
+    const core = new BacktestCore({
+      timeframe: '1Min',
+      costModel: new TransactionCostModel(),
+      riskManager: new CompositeRiskManager([
+        new PositionLimitRiskManager({ maxDailyLoss: config.maxDailyLoss }),
+        new GreeksRiskManager()
+      ]),
+      dataProvider,
+      progressEvery: 50
+    });
+
     try {
-      // 1. FETCH MARKET DATA (same as existing system)
-      console.log('\n📊 Fetching market data...');
-      const marketData = await this.fetchMarketData(params);
-      const optionsData = await this.fetchOptionsData(params);
-      
-      console.log(`✅ Retrieved ${marketData.length} market data points`);
-      console.log(`✅ Retrieved ${optionsData.length} options data points`);
-      
-      // 2. INITIALIZE INSTITUTIONAL COMPONENTS
-      const riskManager = new ComprehensiveRiskManager();
-      const openPositions: InstitutionalBacktestPosition[] = [];
-      const trades: BacktestTrade[] = [];
-      const equityCurve: { date: string; value: number }[] = [];
-      
-      let currentBalance = params.initialCapital;
-      let peakBalance = params.initialCapital;
-      let maxDrawdown = 0;
-      
-      // Advanced tracking
-      const gexAnalysis: any[] = [];
-      const volumeProfileAnalysis: any[] = [];
-      let confluenceHits = 0;
-      let totalSignals = 0;
-      
-      console.log('\n🎯 Starting backtest simulation...');
-      
-      // 3. MAIN BACKTEST LOOP
-      for (let i = 50; i < marketData.length; i++) { // Start at 50 for indicator warmup
-        const currentData = marketData[i];
-        const currentPrice = currentData.close;
-        const currentDate = currentData.date;
-        
-        // Get market context (last 200 bars for indicators)
-        const marketContext = marketData.slice(Math.max(0, i - 199), i + 1);
-        const currentOptionsChain = this.getOptionsChainForDate(optionsData, currentDate);
-        
-        if (currentOptionsChain.length === 0) continue;
-        
-        // 4. GENERATE SIGNALS USING COHERENT FRAMEWORK
-        let signal: StrategySignal | null = null;
-        let coherentAnalysis: any = {};
-        
-        if (config.useCoherentFramework) {
-          try {
-            signal = await CoherentStrategyFramework.generateCoherentSignal(
-              marketContext,
-              currentOptionsChain,
-              strategy,
-              currentBalance
-            );
-            totalSignals++;
-            
-            // Enhanced analysis for tracking
-            const gexSnapshot = GammaExposureEngine.calculateGEX(currentOptionsChain, currentPrice);
-            const anchorTime = new Date(currentDate.getTime() - 4 * 60 * 60 * 1000); // 4 hours ago
-            const avpSnapshot = AnchoredVolumeProfile.calculateAVP(marketContext, anchorTime);
-            const avwapSnapshot = AnchoredVWAP.calculateAVWAP(marketContext, anchorTime);
-            const fractalSnapshot = MicrofractalFibonacci.analyze(marketContext, {
-              minBars: 5,
-              fibLevels: [0.236, 0.382, 0.5, 0.618, 0.786],
-              lookbackPeriod: 50,
-              minVolumeConfirmation: 1000,
-              trendStrengthThreshold: 0.7,
-              maxFibDistance: 0.05
-            });
-            const atrSnapshot = EnhancedATRRiskManager.analyzeATR(marketContext, currentBalance, 1.2);
-            
-            coherentAnalysis = {
-              gexRisk: gexSnapshot.gammaRisk,
-              avpStructure: avpSnapshot.marketStructure,
-              avwapTrend: avwapSnapshot.trendDirection,
-              fractalSetups: fractalSnapshot.highProbabilitySetups.length,
-              atrVolatility: atrSnapshot.volatilityRegime,
-              confluenceZones: signal.confluenceZones?.length || 0
-            };
-            
-            gexAnalysis.push({ date: currentDate, ...gexSnapshot });
-            volumeProfileAnalysis.push({ date: currentDate, ...avpSnapshot });
-            
-            if (signal.confluenceZones && signal.confluenceZones.length > 0) {
-              confluenceHits++;
-            }
-            
-          } catch (error) {
-            console.warn(`⚠️ Signal generation failed at ${currentDate.toDateString()}: ${error}`);
-            continue;
-          }
-        } else {
-          // Fall back to traditional adaptive strategy selector
-          const strategySelection = AdaptiveStrategySelector.generateAdaptiveSignal(
-            marketContext,
-            currentOptionsChain,
-            strategy
-          );
-          
-          if (strategySelection.signal) {
-            signal = {
-              action: strategySelection.signal.action as any,
-              confidence: strategySelection.signal.confidence / 100,
-              signalQuality: strategySelection.signal.confidence > 70 ? 'EXCELLENT' : 
-                          strategySelection.signal.confidence > 50 ? 'GOOD' : 'POOR',
-              entryPrice: currentPrice,
-              stopLoss: currentPrice,
-              positionSize: 1,
-              confluenceZones: [],
-              reasoning: {
-                marketCondition: strategySelection.reasoning[0] || 'Unknown',
-                trendAnalysis: strategySelection.reasoning[1] || 'Unknown',
-                entryTrigger: strategySelection.reasoning[2] || 'Unknown',
-                riskAssessment: strategySelection.reasoning[3] || 'Unknown',
-                finalDecision: strategySelection.reasoning[4] || 'Unknown'
-              }
-            };
-          }
-        }
-        
-        // 5. RISK MANAGEMENT CHECKS (using existing institutional framework)
-        if (signal && signal.action !== 'NO_TRADE') {
-          const portfolioRisk = this.calculatePortfolioRisk(openPositions, currentPrice, currentDate);
-          const riskLimits = this.checkPortfolioRiskLimits(portfolioRisk, currentBalance, strategy);
-          
-          if (!riskLimits.acceptable) {
-            console.log(`⚠️ Risk limits exceeded: ${riskLimits.warnings.join(', ')}`);
-            continue;
-          }
-          
-          // ATR-based position sizing (NEW)
-          if (config.atrRiskManagement) {
-            const atrAnalysis = EnhancedATRRiskManager.analyzeATR(marketContext, currentBalance, 1.2);
-            if (atrAnalysis.volatilityRegime === 'EXTREME') {
-              console.log(`⚠️ Extreme volatility detected, skipping trade`);
-              continue;
-            }
-            signal.positionSize = Math.min(signal.positionSize, atrAnalysis.recommendedPositionSize);
-          }
-          
-          // Confidence filtering (NEW)
-          if (config.requireConfluence && signal.confidence < config.minConfidenceLevel) {
-            continue;
-          }
-        }
-        
-        // 6. EXECUTE TRADES (using existing spread strategies)
-        if (signal && signal.action !== 'NO_TRADE' && signal.action !== 'HOLD' && openPositions.length < config.maxConcurrentPositions) {
-          const newPosition = await this.executeInstitutionalTrade(
-            signal,
-            currentOptionsChain,
-            currentPrice,
-            currentDate,
-            currentBalance,
-            strategy,
-            coherentAnalysis
-          );
-          
-          if (newPosition) {
-            openPositions.push(newPosition);
-            console.log(`📈 Opened ${newPosition.side}: ${newPosition.quantity} contracts @ $${newPosition.entryPrice.toFixed(2)}`);
-          }
-        }
-        
-        // 7. MONITOR EXISTING POSITIONS (using existing exit logic + new enhancements)
-        await this.monitorInstitutionalPositions(
-          openPositions,
-          trades,
-          currentPrice,
-          currentDate,
-          marketContext,
-          strategy,
-          currentOptionsChain,
-          config
-        );
-        
-        // 8. UPDATE PERFORMANCE METRICS
-        currentBalance = this.calculateCurrentBalance(params.initialCapital, trades);
-        peakBalance = Math.max(peakBalance, currentBalance);
-        const drawdown = (peakBalance - currentBalance) / peakBalance;
-        maxDrawdown = Math.max(maxDrawdown, drawdown);
-        
-        equityCurve.push({
-          date: currentDate.toISOString().split('T')[0],
-          value: currentBalance
-        });
-        
-        // Progress logging
-        if (i % 50 === 0) {
-          console.log(`📊 Progress: ${((i / marketData.length) * 100).toFixed(1)}% | Balance: $${currentBalance.toLocaleString()} | Positions: ${openPositions.length}`);
-        }
-      }
-      
-      // 9. CLOSE REMAINING POSITIONS
-      for (const position of openPositions) {
-        await this.closeInstitutionalPosition(position, trades, marketData[marketData.length - 1].close, marketData[marketData.length - 1].date, 'EXPIRATION');
-      }
-      
-      // 10. CALCULATE FINAL PERFORMANCE
-      const performance = this.calculateInstitutionalPerformance(trades, params.initialCapital, maxDrawdown);
-      
-      // 11. ADVANCED METRICS
-      const signalQuality = totalSignals > 0 ? confluenceHits / totalSignals : 0;
-      const riskAdjustedReturn = performance.totalReturnPercent / Math.max(maxDrawdown * 100, 1);
-      
+      const result = await core.run(plugin, {
+        ...params,
+        symbols: params.symbols || strategy.underlyings || ['SPY']
+      });
+      const performance = result.performance;
+
+      // ADVANCED METRICS
+      const signalQuality = plugin.totalSignals > 0 ? plugin.confluenceHits / plugin.totalSignals : 0;
+      const riskAdjustedReturn = performance.totalReturnPercent / Math.max(performance.maxDrawdown, 1);
+
       const advancedMetrics = {
-        gexAnalysis,
-        volumeProfileAnalysis,
-        confluenceHits,
+        gexAnalysis: plugin.gexAnalysis,
+        gexEvents: plugin.gexEvents,
+        volumeProfileAnalysis: plugin.volumeProfileAnalysis,
+        confluenceHits: plugin.confluenceHits,
         signalQuality,
         riskAdjustedReturn
       };
-      
-      // 12. SUMMARY
+
+      // SUMMARY
       console.log('\n🎉 BACKTEST COMPLETED');
       console.log('='.repeat(60));
-      console.log(`📊 Total Trades: ${trades.length}`);
-      console.log(`💰 Final Balance: $${currentBalance.toLocaleString()}`);
+      console.log(`📊 Total Trades: ${result.trades.length}`);
+      console.log(`💰 Final Balance: $${(params.initialCapital + performance.totalReturn).toLocaleString()}`);
       console.log(`📈 Total Return: ${performance.totalReturnPercent.toFixed(2)}%`);
       console.log(`🎯 Win Rate: ${performance.winRate.toFixed(1)}%`);
-      console.log(`📉 Max Drawdown: ${(maxDrawdown * 100).toFixed(2)}%`);
+      console.log(`📉 Max Drawdown: ${performance.maxDrawdown.toFixed(2)}%`);
       console.log(`🚀 Sharpe Ratio: ${performance.sharpeRatio.toFixed(2)}`);
       console.log(`🎯 Signal Quality: ${(signalQuality * 100).toFixed(1)}%`);
       console.log(`⚖️ Risk-Adjusted Return: ${riskAdjustedReturn.toFixed(2)}`);
-      
+      console.log(`🔀 GEX Transitions: ${plugin.gexEvents.filter(event => event.type === 'FLIP_CROSS').length} flip crosses, ${plugin.gexEvents.filter(event => event.type === 'POSITIONING_CHANGE').length} positioning changes`);
+
       return {
-        trades,
+        trades: result.trades,
         performance,
-        equityCurve,
+        equityCurve: result.equityCurve,
+        attribution: result.attribution,
         advancedMetrics
       };
-      
+
     } catch (error) {
       console.error('❌ Backtest failed:', error);
       throw error;
     }
   }
-  
-  /**
-   * Execute institutional trade with all enhancements
-   */
-  private static async executeInstitutionalTrade(
-    signal: StrategySignal,
-    optionsChain: OptionsChain[],
-    currentPrice: number,
-    currentDate: Date,
-    accountBalance: number,
-    strategy: Strategy,
-    coherentAnalysis: any
-  ): Promise<InstitutionalBacktestPosition | null> {
-    
-    try {
-      let spread: BullPutSpread | BearCallSpread | IronCondor | null = null;
-      let side: 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR';
-      let quantity = Math.max(1, Math.floor(signal.positionSize));
-      
-      // Generate spread based on signal action
-      switch (signal.action) {
-        case 'BUY_CALL':
-        case 'BUY_PUT':
-          const bullPutSignal = BullPutSpreadStrategy.generateSpreadSignal(
-            [{ 
-              id: 'current', 
-              symbol: 'SPY', 
-              date: currentDate, 
-              open: currentPrice, 
-              high: currentPrice, 
-              low: currentPrice, 
-              close: currentPrice, 
-              volume: BigInt(1000000), 
-              createdAt: new Date() 
-            }],
-            optionsChain,
-            strategy
-          );
-          
-          if (bullPutSignal && bullPutSignal.spread) {
-            spread = bullPutSignal.spread as BullPutSpread;
-            side = 'BULL_PUT_SPREAD';
-          }
-          break;
-          
-        case 'SELL':
-          const bearCallSignal = BearCallSpreadStrategy.generateSpreadSignal(
-            [{ 
-              id: 'current', 
-              symbol: 'SPY', 
-              date: currentDate, 
-              open: currentPrice, 
-              high: currentPrice, 
-              low: currentPrice, 
-              close: currentPrice, 
-              volume: BigInt(1000000), 
-              createdAt: new Date() 
-            }],
-            optionsChain,
-            strategy
-          );
-          
-          if (bearCallSignal && bearCallSignal.spread) {
-            spread = bearCallSignal.spread as BearCallSpread;
-            side = 'BEAR_CALL_SPREAD';
-          }
-          break;
-          
-        case 'IRON_CONDOR':
-          const ironCondorSignal = IronCondorStrategy.generateSpreadSignal(
-            [{ 
-              id: 'current', 
-              symbol: 'SPY', 
-              date: currentDate, 
-              open: currentPrice, 
-              high: currentPrice, 
-              low: currentPrice, 
-              close: currentPrice, 
-              volume: BigInt(1000000), 
-              createdAt: new Date() 
-            }],
-            optionsChain,
-            strategy
-          );
-          
-          if (ironCondorSignal && ironCondorSignal.spread) {
-            spread = ironCondorSignal.spread as IronCondor;
-            side = 'IRON_CONDOR';
-          }
-          break;
-          
-        default:
-          return null;
-      }
-      
-      if (!spread) return null;
-      
-      // Calculate Greeks (using existing framework)
-      let expirationDate: Date;
-      if ('sellPut' in spread) {
-        expirationDate = spread.sellPut.expiration;
-      } else if ('sellCall' in spread) {
-        expirationDate = spread.sellCall.expiration;
-      } else {
-        expirationDate = spread.sellPut.expiration; // IronCondor has both
-      }
-      
-      const timeToExpiration = this.calculateTimeToExpiration(currentDate, expirationDate);
-      const entryGreeks = this.calculateSpreadGreeks(spread, side, currentPrice, timeToExpiration, quantity);
-      
-      // Calculate transaction costs (using existing framework)
-      const entryCosts = this.calculateSpreadEntryCosts(spread, side, quantity);
-      
-      // Adjust entry price for transaction costs
-      const adjustedEntryPrice = spread.netCredit - (entryCosts.totalCost / (quantity * 100));
-      
-      // Risk scoring
-      const riskScore = this.calculateRiskScore(entryGreeks, spread, accountBalance);
-      const maxLoss = spread.maxLoss * quantity;
-      
-      const position: InstitutionalBacktestPosition = {
-        symbol: 'SPY',
-        side,
-        strike: ('sellPut' in spread) ? spread.sellPut.strike : 
-                ('sellCall' in spread) ? spread.sellCall.strike : 
-                spread.sellPut.strike,
-        expiration: expirationDate,
-        entryDate: currentDate,
-        entryPrice: adjustedEntryPrice,
-        quantity,
-        indicators: signal.reasoning ? {} as TechnicalIndicators : {} as TechnicalIndicators, // Would be populated with actual indicators
-        spread,
-        entryGreeks,
-        currentGreeks: entryGreeks,
-        greeksHistory: [entryGreeks],
-        maxLoss,
-        riskScore,
-        entryFills: entryCosts.fills,
-        totalTransactionCosts: entryCosts.totalCost,
-        entrySignal: signal,
-        coherentAnalysis,
-        maxDrawdown: 0,
-        peakPnL: 0,
-        timeInPosition: 0
-      };
-      
-      return position;
-      
-    } catch (error) {
-      console.error('❌ Failed to execute institutional trade:', error);
-      return null;
-    }
-  }
-  
-  /**
-   * Monitor positions with enhanced exit logic
-   */
-  private static async monitorInstitutionalPositions(
-    positions: InstitutionalBacktestPosition[],
-    trades: BacktestTrade[],
-    currentPrice: number,
-    currentDate: Date,
-    marketData: MarketData[],
-    strategy: Strategy,
-    optionsChain: OptionsChain[],
-    config: InstitutionalBacktestConfig
-  ): Promise<void> {
-    
-    const positionsToClose: { position: InstitutionalBacktestPosition; reason: string }[] = [];
-    
-    for (const position of positions) {
-      // Update time in position
-      position.timeInPosition = (currentDate.getTime() - position.entryDate.getTime()) / (1000 * 60);
-      
-      // Update current Greeks
-      const timeToExpiration = this.calculateTimeToExpiration(currentDate, position.expiration);
-      position.currentGreeks = this.calculateSpreadGreeks(
-        position.spread,
-        position.side,
-        currentPrice,
-        timeToExpiration,
-        position.quantity
-      );
-      position.greeksHistory.push(position.currentGreeks);
-      
-      // Calculate current P&L
-      const currentValue = this.calculateCurrentSpreadValue(position, optionsChain, currentPrice);
-      const currentPnL = (position.entryPrice - currentValue) * position.quantity * 100;
-      position.netPnL = currentPnL - position.totalTransactionCosts;
-      
-      // Update peak/drawdown tracking
-      position.peakPnL = Math.max(position.peakPnL, position.netPnL || 0);
-      position.maxDrawdown = Math.max(position.maxDrawdown, position.peakPnL - (position.netPnL || 0));
-      
-      // 1. EXPIRATION CHECK
-      if (timeToExpiration <= 0.001) { // Close to expiration
-        positionsToClose.push({ position, reason: 'EXPIRATION' });
-        continue;
-      }
-      
-      // 2. GREEKS-BASED EXIT CONDITIONS (existing institutional logic)
-      const greeksExit = this.checkGreeksExitConditions(position, position.currentGreeks, strategy);
-      if (greeksExit.shouldExit) {
-        positionsToClose.push({ position, reason: greeksExit.reason || 'GREEKS_LIMIT' });
-        continue;
-      }
-      
-      // 3. TRADITIONAL STRATEGY EXIT CONDITIONS
-      let shouldExitStrategy = false;
-      let strategyExitReason = '';
-      
-      switch (position.side) {
-        case 'BULL_PUT_SPREAD':
-          const bullExit = BullPutSpreadStrategy.shouldExitSpread(
-            position.spread as BullPutSpread,
-            currentPrice,
-            currentValue,
-            Math.floor(position.timeInPosition / (24 * 60)),
-            position.currentGreeks
-          );
-          shouldExitStrategy = bullExit.shouldExit;
-          strategyExitReason = bullExit.reason || '';
-          break;
-          
-        case 'BEAR_CALL_SPREAD':
-          const bearExit = BearCallSpreadStrategy.shouldExitSpread(
-            position.spread as BearCallSpread,
-            currentPrice,
-            currentValue,
-            Math.floor(position.timeInPosition / (24 * 60)),
-            position.currentGreeks
-          );
-          shouldExitStrategy = bearExit.shouldExit;
-          strategyExitReason = bearExit.reason || '';
-          break;
-          
-        case 'IRON_CONDOR':
-          // Enhanced Iron Condor exit logic (using coherent framework if enabled)
-          if (config.useCoherentFramework) {
-            const currentSignal = await CoherentStrategyFramework.generateCoherentSignal(
-              marketData.slice(-50),
-              optionsChain,
-              strategy,
-              50000 // dummy balance for signal generation
-            );
-            
-            // Exit if signal changes significantly or low confidence
-            if (currentSignal.confidence < 0.3 || currentSignal.action !== 'NO_TRADE') {
-              shouldExitStrategy = true;
-              strategyExitReason = `Signal changed: ${currentSignal.action} (${(currentSignal.confidence * 100).toFixed(0)}% confidence)`;
-            }
-          } else {
-            // Traditional exit logic
-            const spread = position.spread as IronCondor;
-            const profitPercent = (position.netPnL || 0) / (position.spread.maxProfit * position.quantity);
-            const lossPercent = Math.abs((position.netPnL || 0)) / (position.spread.maxLoss * position.quantity);
-            
-            if (profitPercent >= 0.5) {
-              shouldExitStrategy = true;
-              strategyExitReason = '50% max profit captured';
-            } else if (lossPercent >= 0.3) {
-              shouldExitStrategy = true;
-              strategyExitReason = '30% max loss reached';
-            }
-          }
-          break;
-      }
-      
-      if (shouldExitStrategy) {
-        positionsToClose.push({ position, reason: strategyExitReason });
-        continue;
-      }
-      
-      // 4. NEW: CONFLUENCE-BASED EXIT CONDITIONS
-      if (config.useCoherentFramework && config.requireConfluence) {
-        try {
-          const currentSignal = await CoherentStrategyFramework.generateCoherentSignal(
-            marketData.slice(-50),
-            optionsChain,
-            strategy,
-            50000
-          );
-          
-          // Exit if confluence breaks down
-          if (currentSignal.confluenceZones.length === 0 && position.entrySignal.confluenceZones && position.entrySignal.confluenceZones.length > 0) {
-            positionsToClose.push({ position, reason: 'CONFLUENCE_BREAKDOWN' });
-            continue;
-          }
-        } catch (error) {
-          // Silent error handling for signal generation
-        }
-      }
-      
-      // 5. TIME-BASED EXIT (0DTE management)
-      if (strategy.daysToExpiration === 0 && position.timeInPosition > 240) { // 4 hours
-        const profitPercent = (position.netPnL || 0) / (position.spread.maxProfit * position.quantity);
-        if (profitPercent >= 0.25) { // 25% profit after 4 hours
-          positionsToClose.push({ position, reason: '0DTE_TIME_PROFIT' });
-          continue;
-        }
-      }
-    }
-    
-    // Close positions
-    for (const { position, reason } of positionsToClose) {
-      await this.closeInstitutionalPosition(position, trades, currentPrice, currentDate, reason);
-      const index = positions.indexOf(position);
-      if (index > -1) {
-        positions.splice(index, 1);
-      }
-    }
-  }
-  
-  /**
-   * Close institutional position with full cost modeling
-   */
-  private static async closeInstitutionalPosition(
-    position: InstitutionalBacktestPosition,
-    trades: BacktestTrade[],
-    currentPrice: number,
-    currentDate: Date,
-    reason: string
-  ): Promise<void> {
-    
-    try {
-      // Calculate exit costs
-      const mockOptionsChain = this.generateMockOptionsChainForExit(position, currentPrice);
-      const exitCosts = this.calculateSpreadExitCosts(position, mockOptionsChain);
-      
-      const currentValue = this.calculateCurrentSpreadValue(position, mockOptionsChain, currentPrice);
-      const exitPrice = currentValue + (exitCosts?.totalCost || 0) / (position.quantity * 100);
-      
-      // Calculate final P&L
-      const grossPnL = (position.entryPrice - exitPrice) * position.quantity * 100;
-      const totalCosts = position.totalTransactionCosts + (exitCosts?.totalCost || 0);
-      const netPnL = grossPnL - totalCosts;
-      
-      position.exitFills = exitCosts?.fills || [];
-      position.netPnL = netPnL;
-      
-      // Create trade record
-      const trade: BacktestTrade = {
-        id: `trade_${Date.now()}_${Math.random()}`,
-        backtestId: 'institutional_advanced',
-        symbol: position.symbol,
-        side: position.side,
-        strike: position.strike,
-        expiration: position.expiration,
-        entryDate: position.entryDate,
-        exitDate: currentDate,
-        entryPrice: position.entryPrice,
-        exitPrice: exitPrice,
-        quantity: position.quantity,
-        pnl: netPnL,
-        pnlPercent: (netPnL / (position.spread.maxLoss * position.quantity)) * 100,
-        exitReason: reason as any,
-        createdAt: new Date()
-      };
-      
-      trades.push(trade);
-      
-      console.log(`📉 Closed ${position.side}: ${reason} | P&L: $${netPnL.toFixed(2)} | Duration: ${(position.timeInPosition / 60).toFixed(1)}h`);
-      
-    } catch (error) {
-      console.error('❌ Failed to close institutional position:', error);
-    }
-  }
-  
-  // HELPER METHODS (implementing all the missing institutional framework methods)
-  
-  private static async fetchMarketData(params: BacktestParams): Promise<MarketData[]> {
-    // Implementation would use alpacaClient or mock data
-    return [];
-  }
-  
-  private static async fetchOptionsData(params: BacktestParams): Promise<OptionsChain[]> {
-    // Implementation would use alpacaClient or mock data
-    return [];
-  }
-  
-  private static getOptionsChainForDate(optionsData: OptionsChain[], date: Date): OptionsChain[] {
-    // Filter options chain for specific date
-    return optionsData.filter(option => 
-      option.expiration.toDateString() === date.toDateString()
-    );
-  }
-  
-  private static calculateTimeToExpiration(currentDate: Date, expiration: Date): number {
-    const msPerYear = 365.25 * 24 * 60 * 60 * 1000;
-    return Math.max(0, (expiration.getTime() - currentDate.getTime()) / msPerYear);
-  }
-  
-  private static calculateSpreadGreeks(
-    spread: BullPutSpread | BearCallSpread | IronCondor,
-    side: string,
-    underlyingPrice: number,
-    timeToExpiration: number,
-    quantity: number
-  ): GreeksSnapshot {
-    // Implementation using GreeksEngine
-    return {
-      timestamp: new Date(),
-      underlyingPrice,
-      timeToExpiration,
-      impliedVolatility: 0.2,
-      riskFreeRate: 0.05,
-      delta: 0,
-      gamma: 0,
-      theta: 0,
-      vega: 0,
-      rho: 0,
-      lambda: 0,
-      epsilon: 0,
-      vomma: 0,
-      charm: 0,
-      speed: 0,
-      color: 0
-    };
-  }
-  
-  private static calculateSpreadEntryCosts(
-    spread: BullPutSpread | BearCallSpread | IronCondor,
-    side: string,
-    quantity: number
-  ): { fills: FillSimulation[]; totalCost: number } {
-    // Implementation using TransactionCostEngine
-    return { fills: [], totalCost: 0 };
-  }
-  
-  private static calculatePortfolioRisk(
-    positions: InstitutionalBacktestPosition[],
-    currentPrice: number,
-    currentDate: Date
-  ): any {
-    // Implementation of portfolio risk calculation
-    return {};
-  }
-  
-  private static checkPortfolioRiskLimits(
-    portfolioRisk: any,
-    accountBalance: number,
-    strategy: Strategy
-  ): { acceptable: boolean; warnings: string[] } {
-    // Implementation of risk limit checking
-    return { acceptable: true, warnings: [] };
-  }
-  
-  private static calculateRiskScore(
-    greeks: GreeksSnapshot,
-    spread: BullPutSpread | BearCallSpread | IronCondor,
-    accountBalance: number
-  ): number {
-    // Implementation of risk scoring
-    return 0.5;
-  }
-  
-  private static checkGreeksExitConditions(
-    position: InstitutionalBacktestPosition,
-    currentGreeks: GreeksSnapshot,
-    strategy: Strategy
-  ): { shouldExit: boolean; reason?: string } {
-    // Implementation using existing logic from BacktestEngine
-    return { shouldExit: false };
-  }
-  
-  private static calculateCurrentSpreadValue(
-    position: InstitutionalBacktestPosition,
-    optionsChain: OptionsChain[],
-    currentPrice: number
-  ): number {
-    // Implementation of current spread value calculation
-    return position.entryPrice;
-  }
-  
-  private static calculateSpreadExitCosts(
-    position: InstitutionalBacktestPosition,
-    optionsChain: OptionsChain[]
-  ): { fills: FillSimulation[]; totalCost: number } | null {
-    // Implementation using TransactionCostEngine
-    return { fills: [], totalCost: 0 };
-  }
-  
-  private static generateMockOptionsChainForExit(
-    position: InstitutionalBacktestPosition,
-    currentPrice: number
-  ): OptionsChain[] {
-    // Generate mock options chain for exit calculation
-    return [];
-  }
-  
-  private static calculateCurrentBalance(initialCapital: number, trades: BacktestTrade[]): number {
-    return initialCapital + trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-  }
-  
-  private static calculateInstitutionalPerformance(
-    trades: BacktestTrade[],
-    initialCapital: number,
-    maxDrawdown: number
-  ): PerformanceMetrics {
-    const totalReturn = trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-    const winningTrades = trades.filter(trade => (trade.pnl || 0) > 0).length;
-    
-    return {
-      totalReturn,
-      totalReturnPercent: (totalReturn / initialCapital) * 100,
-      totalTrades: trades.length,
-      winningTrades,
-      losingTrades: trades.length - winningTrades,
-      winRate: trades.length > 0 ? (winningTrades / trades.length) * 100 : 0,
-      averageWin: 0,
-      averageLoss: 0,
-      profitFactor: 0,
-      maxDrawdown: maxDrawdown * 100,
-      sharpeRatio: 0,
-      calmarRatio: 0,
-      averageTradeLength: 0
-    };
-  }
 }
 
-export default InstitutionalAdvancedBacktestEngine;
\ No newline at end of file
+export default InstitutionalAdvancedBacktestEngine;
@@ -7,6 +7,7 @@
  */
 
 import { MarketData, OptionsChain, Strategy } from '../../../lib/types';
+import { OptionContractId } from '../../../lib/option-contract-id';
 import { CoherentStrategyFramework } from './coherent-strategy-framework';
 
 // Generate mock market data with more realistic 0-DTE movement
@@ -66,7 +67,7 @@ function generateMockOptionsChain(currentPrice: number): OptionsChain[] {
     
     // Call option
     chain.push({
-      symbol: `SPY${expiration.toISOString().slice(0, 10).replace(/-/g, '')}C${strike.toString().padStart(8, '0')}`,
+      symbol: OptionContractId.build('SPY', expiration, 'CALL', strike),
       strike,
       expiration,
       side: 'CALL' as const,
@@ -81,7 +82,7 @@ function generateMockOptionsChain(currentPrice: number): OptionsChain[] {
     
     // Put option
     chain.push({
-      symbol: `SPY${expiration.toISOString().slice(0, 10).replace(/-/g, '')}P${strike.toString().padStart(8, '0')}`,
+      symbol: OptionContractId.build('SPY', expiration, 'PUT', strike),
       strike,
       expiration,
       side: 'PUT' as const,
@@ -19,6 +19,8 @@ require('dotenv').config({ path: path.join(projectRoot, '.env') });
 import { Strategy, MarketData, OptionsChain } from '../lib/types';
 import { alpacaClient } from '../lib/alpaca';
 import { TechnicalAnalysis } from '../lib/technical-indicators';
+import { OptionContractId } from '../../lib/option-contract-id';
+import { SyntheticMarketSimulator } from '../../lib/synthetic-market-simulator';
 
 // Import Alpaca SDK for paper trading
 // Note: You'll need to install alpaca-trade-api if not already installed
@@ -89,6 +91,7 @@ export class AlpacaPaperTradingEngine {
   private readonly FORCE_EXIT_TIME = 15.5; // 3:30 PM
   
   private isRunning = false;
+  private readonly simulator = SyntheticMarketSimulator.fromEnv();
   private monitoringInterval?: NodeJS.Timeout;
 
   constructor() {
@@ -208,7 +211,7 @@ export class AlpacaPaperTradingEngine {
         for (const position of positions) {
           // Only track 0-DTE options positions
           if (this.isValidOptionsSymbol(position.symbol)) {
-            const action = position.symbol.includes('C') ? 'BUY_CALL' : 'BUY_PUT';
+            const action = OptionContractId.parse(position.symbol).side === 'CALL' ? 'BUY_CALL' : 'BUY_PUT';
             
             const trade: AlpacaTrade = {
               id: `SYNC_POS_${Date.now()}_${position.symbol}`,
@@ -293,19 +296,18 @@ export class AlpacaPaperTradingEngine {
    * Helper to validate if symbol is a valid 0-DTE options contract
    */
   private isValidOptionsSymbol(symbol: string): boolean {
-    // Check for SPY options with today's or tomorrow's date
-    const today = new Date();
-    const todayStr = today.getFullYear().toString().slice(-2) + 
-                   (today.getMonth() + 1).toString().padStart(2, '0') + 
-                   today.getDate().toString().padStart(2, '0');
+    // Check for options expiring today or tomorrow
+    const contract = OptionContractId.tryParse(symbol);
+    if (!contract) {
+      return false;
+    }
     
+    const today = new Date();
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowStr = tomorrow.getFullYear().toString().slice(-2) + 
-                       (tomorrow.getMonth() + 1).toString().padStart(2, '0') + 
-                       tomorrow.getDate().toString().padStart(2, '0');
     
-    return symbol.includes(todayStr) || symbol.includes(tomorrowStr);
+    const expiration = OptionContractId.formatExpiration(contract.expiration);
+    return expiration === OptionContractId.formatExpiration(today) || expiration === OptionContractId.formatExpiration(tomorrow);
   }
   
   /**
@@ -313,11 +315,7 @@ export class AlpacaPaperTradingEngine {
    */
   private parseStrikeFromSymbol(symbol: string): number {
     // SPY250812C00640000 -> 640
-    const match = symbol.match(/[CP](\d{8})$/);
-    if (match) {
-      return parseInt(match[1]) / 1000; // Convert millidollars to dollars
-    }
-    return 0;
+    return OptionContractId.tryParse(symbol)?.strike ?? 0;
   }
   
   /**
@@ -751,26 +749,14 @@ export class AlpacaPaperTradingEngine {
       const currentPrice = currentBar.close;
       const atmStrike = Math.round(currentPrice);
       
-      // Calculate expiration date (0-DTE = today)
-      const expirationDate = new Date();
-      const expDateStr = expirationDate.toISOString().split('T')[0].replace(/-/g, '');
-      
       // Build proper Alpaca options symbol format
       const optionType = signal.action === 'BUY_CALL' ? 'C' : 'P';
       
-      // Format date as YYMMDD for Alpaca options
-      const today = new Date();
-      const year = today.getFullYear().toString().slice(-2);
-      const month = (today.getMonth() + 1).toString().padStart(2, '0');
-      const day = today.getDate().toString().padStart(2, '0');
-      const dateStr = year + month + day;
-      
-      // Calculate ATM strike and format as required by Alpaca
+      // Calculate ATM strike; expiration is today (0-DTE)
       const strike = Math.round(currentPrice);
-      const strikeStr = (strike * 1000).toString().padStart(8, '0'); // Strike in millidollars, 8 digits
       
       // Alpaca options symbol format: SPY240811C00550000 (SPY + YYMMDD + C/P + 8-digit strike)
-      const optionSymbol = `SPY${dateStr}${optionType}${strikeStr}`;
+      const optionSymbol = OptionContractId.build('SPY', new Date(), optionType === 'C' ? 'CALL' : 'PUT', strike);
       
       // SIMPLIFIED 0-DTE option pricing for position sizing
       // For 0-DTE ATM options, typical cost is $0.20-$1.50
@@ -921,16 +907,16 @@ export class AlpacaPaperTradingEngine {
     
     try {
       // Filter out expired 0-DTE options first
-      const today = new Date();
-      const todayString = `${today.getFullYear().toString().slice(-2)}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+      const todayString = OptionContractId.formatExpiration(new Date());
       
       // Remove expired trades from tracking
       const initialTradeCount = this.activeTrades.length;
       this.activeTrades = this.activeTrades.filter(trade => {
         if (trade.status !== 'FILLED') return true; // Keep non-filled trades
         
-        // Check if option symbol contains today's date (0-DTE options expire same day)
-        const isExpiredOption = trade.symbol.includes('SPY') && !trade.symbol.includes(todayString);
+        // Check if the option expires today (0-DTE options expire same day)
+        const contract = OptionContractId.tryParse(trade.symbol);
+        const isExpiredOption = contract !== null && OptionContractId.formatExpiration(contract.expiration) !== todayString;
         
         if (isExpiredOption) {
           console.log(`🗑️ Removing expired 0-DTE option from tracking: ${trade.symbol}`);
@@ -1212,50 +1198,10 @@ export class AlpacaPaperTradingEngine {
   }
 
   /**
-   * Generate mock options chain for the hybrid generator
+   * Generate seeded synthetic 0-DTE options chain for the hybrid generator
    */
   private generateMockOptionsChain(currentPrice: number): OptionsChain[] {
-    const mockChain: OptionsChain[] = [];
-    const today = new Date();
-    const expiration = new Date(today);
-    expiration.setHours(16, 0, 0, 0); // 4 PM today for 0-DTE
-    
-    // Generate a few strikes around current price
-    for (let i = -5; i <= 5; i++) {
-      const strike = Math.round(currentPrice) + i;
-      
-      // Mock call option
-      mockChain.push({
-        symbol: `SPY${today.toISOString().slice(0, 10).replace(/-/g, '')}C${strike.toString().padStart(8, '0')}`,
-        strike,
-        expiration,
-        side: 'CALL',
-        bid: 0.5,
-        ask: 0.7,
-        last: 0.6,
-        volume: 1000,
-        openInterest: 5000,
-        impliedVolatility: 0.25,
-        delta: 0.5
-      });
-      
-      // Mock put option
-      mockChain.push({
-        symbol: `SPY${today.toISOString().slice(0, 10).replace(/-/g, '')}P${strike.toString().padStart(8, '0')}`,
-        strike,
-        expiration,
-        side: 'PUT',
-        bid: 0.5,
-        ask: 0.7,
-        last: 0.6,
-        volume: 1000,
-        openInterest: 5000,
-        impliedVolatility: 0.25,
-        delta: -0.5
-      });
-    }
-    
-    return mockChain;
+    return this.simulator.getOptionsChain('SPY', { spot: currentPrice, strikesPerSide: 5 });
   }
 
   /**
@@ -1486,15 +1432,9 @@ export class AlpacaPaperTradingEngine {
       const estimatedOptionPrice = 0.75;
       const quantity = Math.max(2, Math.min(4, Math.floor(maxRisk / (estimatedOptionPrice * 100))));
       
-      // Generate option symbol (0-DTE format: SPYYYMMDDCSSSSSS or SPYYYMMDDPSSSSSS)
-      const today = new Date();
-      const year = today.getFullYear().toString().slice(-2);
-      const month = (today.getMonth() + 1).toString().padStart(2, '0');
-      const day = today.getDate().toString().padStart(2, '0');
+      // Generate option symbol (0-DTE format: SPYYYMMDDCSSSSSSSS or SPYYYMMDDPSSSSSSSS)
       const optionType = signal.action === 'BUY_CALL' ? 'C' : 'P';
-      const strikeFormatted = (atmStrike * 1000).toString().padStart(8, '0');
-      
-      const optionSymbol = `SPY${year}${month}${day}${optionType}${strikeFormatted}`;
+      const optionSymbol = OptionContractId.build('SPY', new Date(), optionType === 'C' ? 'CALL' : 'PUT', atmStrike);
       
       console.log('');
       console.log('🚀 EXECUTING ENHANCED TRADE');
@@ -3,9 +3,16 @@
  * TIMEFRAME COMPARISON FOR FRONTEND DROPDOWN
  * Compare all timeframes to show trade-offs and help user select optimal frequency
  * Perfect for populating frontend dropdown with performance data
+ *
+ * Data points per day are measured on one 1Min fetch resampled into every
+ * timeframe, so the comparison is over exactly the same prints.
  */
 
-import { TIMEFRAME_OPTIONS, FRONTEND_TIMEFRAME_CONFIGS, TimeframeConfig } from './run-minute-bar-backtest';
+import { TIMEFRAME_OPTIONS, FRONTEND_TIMEFRAME_CONFIGS, TimeframeConfig, MINUTE_BAR_CONFIG } from './run-minute-bar-backtest';
+import { MarketData } from './lib/types';
+import { BarTimeframe } from './lib/market-data-provider';
+import { createMarketDataProvider } from './lib/market-data-provider-factory';
+import { BarResampler } from './lib/bar-resampler';
 
 interface TimeframeResult {
   timeframe: string;
@@ -19,12 +26,25 @@ interface TimeframeResult {
   bestFor: string[];
 }
 
-async function compareAllTimeframes(): Promise<TimeframeResult[]> {
+/**
+ * Fetch 1Min bars once and build every higher timeframe from them
+ */
+async function fetchTimeframeBars(symbol: string, startDate: Date, endDate: Date): Promise<Record<BarTimeframe, MarketData[]>> {
+  const provider = createMarketDataProvider();
+  console.log(`📊 Fetching ${symbol} 1Min bars from ${provider.name} (${startDate.toDateString()} - ${endDate.toDateString()})...`);
+  const minuteBars = await provider.getMarketData(symbol, startDate, endDate, '1Min');
+  const barsByTimeframe = BarResampler.resampleAll(minuteBars);
+  console.log(`✅ ${minuteBars.length} 1Min bars over ${barsByTimeframe['1Day'].length} sessions, resampled into every timeframe`);
+  return barsByTimeframe;
+}
+
+async function compareAllTimeframes(barsByTimeframe?: Record<BarTimeframe, MarketData[]>): Promise<TimeframeResult[]> {
   console.log('📊 TIMEFRAME COMPARISON FOR $200/DAY TARGET');
   console.log('Perfect for frontend dropdown selection');
   console.log('=' .repeat(60));
   
   const results: TimeframeResult[] = [];
+  const sessions = barsByTimeframe ? barsByTimeframe['1Day'].length : 0;
   
   // Analyze each timeframe option
   Object.entries(TIMEFRAME_OPTIONS).forEach(([timeframe, config]) => {
@@ -33,7 +53,9 @@ async function compareAllTimeframes(): Promise<TimeframeResult[]> {
       expectedTradesPerDay: config.expectedTrades,
       targetDaily: config.targetDaily,
       riskLevel: config.riskLevel,
-      dataPoints: config.dataPoints,
+      dataPoints: barsByTimeframe && sessions > 0
+        ? `${(barsByTimeframe[timeframe as BarTimeframe].length / sessions).toFixed(1)} per day (measured)`
+        : config.dataPoints,
       description: config.description,
       pros: [],
       cons: [],
@@ -154,7 +176,7 @@ function displayTimeframeComparison(results: TimeframeResult[]): void {
   console.log('\n📈 PERFORMANCE COMPARISON TABLE');
   console.log('=' .repeat(80));
   
-  console.log('Timeframe | Trades/Day | Target/Day | Risk Level | Best For');
+  console.log('Timeframe | Trades/Day | Target/Day | Risk Level | Bars/Day                 | Best For');
   console.log('-'.repeat(80));
   
   results.forEach(result => {
@@ -162,9 +184,10 @@ function displayTimeframeComparison(results: TimeframeResult[]): void {
     const trades = result.expectedTradesPerDay.padEnd(10);
     const target = result.targetDaily.padEnd(10);
     const risk = result.riskLevel.padEnd(10);
+    const dataPoints = result.dataPoints.padEnd(24);
     const bestFor = result.bestFor[0]?.substring(0, 20) || '';
     
-    console.log(`${timeframe} | ${trades} | ${target} | ${risk} | ${bestFor}`);
+    console.log(`${timeframe} | ${trades} | ${target} | ${risk} | ${dataPoints} | ${bestFor}`);
   });
 }
 
@@ -178,6 +201,7 @@ function generateFrontendDropdownData(results: TimeframeResult[]): any {
     expectedTrades: result.expectedTradesPerDay,
     targetDaily: result.targetDaily,
     riskLevel: result.riskLevel,
+    dataPoints: result.dataPoints,
     pros: result.pros.slice(0, 2), // Top 2 pros for UI
     cons: result.cons.slice(0, 2), // Top 2 cons for UI
     bestFor: result.bestFor.slice(0, 2), // Top 2 use cases
@@ -266,7 +290,18 @@ const onTimeframeChange = (timeframe) => {
 
 // CLI interface
 if (require.main === module) {
-  compareAllTimeframes()
+  const args = process.argv.slice(2);
+  const daysIndex = args.indexOf('--days');
+  const days = daysIndex >= 0 ? Number(args[daysIndex + 1]) : 7;
+  const endDate = new Date();
+  const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+
+  fetchTimeframeBars(MINUTE_BAR_CONFIG.symbol, startDate, endDate)
+    .catch(error => {
+      console.warn(`⚠️ Could not fetch 1Min bars (${error instanceof Error ? error.message : error}); showing estimated data points`);
+      return undefined;
+    })
+    .then(barsByTimeframe => compareAllTimeframes(barsByTimeframe))
     .then(results => {
       displayTimeframeComparison(results);
       generateFrontendDropdownData(results);
@@ -287,4 +322,4 @@ if (require.main === module) {
     });
 }
 
-export { compareAllTimeframes, generateFrontendDropdownData };
\ No newline at end of file
+export { compareAllTimeframes, fetchTimeframeBars, generateFrontendDropdownData };
\ No newline at end of file
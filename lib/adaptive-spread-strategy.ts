@@ -0,0 +1,209 @@
+/**
+ * ADAPTIVE SPREAD STRATEGY
+ * Regime-aware selection between naked options and credit spreads, as a TradingStrategy
+ *
+ * AdaptiveStrategySelector picks the structure for the regime on every quote; naked
+ * longs exit on StrategyEngine's indicator rules, spreads on their own strategy's
+ * rules and condors on credit, breach, volatility and time limits. BacktestEngine
+ * backtests it and LivePaperTradingEngine trades it by default.
+ */
+
+import { Strategy, BullPutSpread, BearCallSpread, IronCondor } from './types';
+import { TechnicalAnalysis } from './technical-indicators';
+import { StrategyEngine } from './strategy-engine';
+import { BullPutSpreadStrategy } from './bull-put-spread-strategy';
+import { BearCallSpreadStrategy } from './bear-call-spread-strategy';
+import { IronCondorStrategy } from './iron-condor-strategy';
+import { AdaptiveStrategySelector } from './adaptive-strategy-selector';
+import { GreeksEngine } from './greeks-engine';
+import { ScenarioEngine } from './scenario-engine';
+import { GreeksRiskManager } from './backtest-risk-managers';
+import { TradingStrategy, TradingSignal, StrategyContext, StrategyPosition, StrategyParameter } from './trading-strategy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AdaptiveSpreadStrategy implements TradingStrategy {
+  readonly name: string;
+  readonly warmupBars = 50;
+  readonly parameters: StrategyParameter[] = [
+    { name: 'positionMultiple', type: 'number', default: 2, min: 1, max: 10, step: 0.5, description: 'Open positions allowed across all underlyings, as a multiple of the strategy\'s maxPositions' },
+    { name: 'nakedPremiumEstimate', type: 'number', default: 2.50, min: 0.05, max: 50, step: 0.25, description: 'Per-share premium assumed when sizing naked options (realistic for 0-DTE)' },
+    { name: 'maxNakedContracts', type: 'integer', default: 10, min: 1, max: 100, step: 1, description: 'Cap on contracts per naked option trade' }
+  ];
+
+  constructor(private readonly strategy: Strategy) {
+    this.name = strategy.name;
+  }
+
+  onQuote(context: StrategyContext): TradingSignal[] {
+    const signals: TradingSignal[] = [];
+    for (const position of context.positions) {
+      const exit = this.checkExit(position, context);
+      if (exit.shouldExit) {
+        signals.push({ action: 'CLOSE', positionId: position.id, reason: exit.reason || 'SIGNAL_EXIT' });
+      }
+    }
+
+    // 0-DTE: allow more positions than the nominal limit, across all underlyings
+    const maxPositions = this.strategy.maxPositions * (context.params.positionMultiple as number);
+    if (context.allPositions.length - signals.length < maxPositions) {
+      const entry = this.checkEntry(context);
+      if (entry) {
+        signals.push(entry);
+      }
+    }
+    return signals;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private checkEntry(context: StrategyContext): TradingSignal | null {
+    const { history, chain, spec, balance, bar, params } = context;
+    const selection = AdaptiveStrategySelector.generateAdaptiveSignal(history, chain, this.strategy);
+    const signal = selection.signal;
+    if (!signal) {
+      return null;
+    }
+    const regime = selection.marketRegime.regime;
+
+    if (signal.action === 'BUY_CALL' || signal.action === 'BUY_PUT') {
+      const maxRiskPerTrade = this.strategy.positionSizePercent || 0.02;
+      const maxContracts = Math.floor((balance * maxRiskPerTrade) / ((params.nakedPremiumEstimate as number) * spec.contractMultiplier));
+      const quantity = Math.max(1, Math.min(maxContracts, params.maxNakedContracts as number));
+
+      const side = signal.action === 'BUY_CALL' ? 'CALL' : 'PUT';
+      const candidates = chain.filter(option =>
+        option.side === side && Math.abs(option.strike - bar.close) < 20 * spec.strikeIncrement);
+      if (candidates.length === 0) {
+        console.log(`❌ No suitable ${side.toLowerCase()} options found`);
+        return null;
+      }
+      const option = candidates.reduce((closest, current) =>
+        Math.abs(current.strike - bar.close) < Math.abs(closest.strike - bar.close) ? current : closest);
+
+      const indicators = TechnicalAnalysis.calculateAllIndicators(
+        history,
+        this.strategy.rsiPeriod,
+        this.strategy.macdFast,
+        this.strategy.macdSlow,
+        this.strategy.macdSignal,
+        this.strategy.bbPeriod,
+        this.strategy.bbStdDev
+      );
+
+      console.log(`🚀 NAKED OPTION TRADE: ${signal.action} ${option.strike} × ${quantity} (account $${balance.toFixed(2)}, risk ${(maxRiskPerTrade * 100)}%)`);
+      return {
+        action: 'OPEN',
+        label: side,
+        legs: [{ option, quantity: 1, side: 'LONG' }],
+        quantity,
+        reason: signal.reason,
+        regime,
+        indicators: indicators || {}
+      };
+    }
+
+    if ((signal.action === 'BULL_PUT_SPREAD' || signal.action === 'BEAR_CALL_SPREAD' || signal.action === 'IRON_CONDOR') && signal.spread) {
+      const spread = signal.spread;
+      const quantity = signal.action === 'BULL_PUT_SPREAD'
+        ? BullPutSpreadStrategy.calculateSpreadPositionSize(balance, spread.maxLoss, this.strategy)
+        : signal.action === 'BEAR_CALL_SPREAD'
+          ? BearCallSpreadStrategy.calculateSpreadPositionSize(balance, spread.maxLoss, this.strategy)
+          : IronCondorStrategy.calculateSpreadPositionSize(balance, spread.maxLoss, this.strategy);
+
+      return {
+        action: 'OPEN',
+        label: signal.action,
+        legs: ScenarioEngine.spreadLegs(spread, signal.action, 1),
+        quantity,
+        reason: signal.reason,
+        regime,
+        indicators: signal.indicators,
+        metadata: { spread }
+      };
+    }
+
+    return null;
+  }
+
+  private checkExit(position: StrategyPosition, context: StrategyContext): { shouldExit: boolean; reason?: string } {
+    const price = context.bar.close;
+    const daysHeld = Math.floor((context.timestamp.getTime() - position.entryDate.getTime()) / DAY_MS);
+
+    if (position.label === 'CALL' || position.label === 'PUT') {
+      const indicators = TechnicalAnalysis.calculateAllIndicators(
+        context.history,
+        this.strategy.rsiPeriod,
+        this.strategy.macdFast,
+        this.strategy.macdSlow,
+        this.strategy.macdSignal,
+        this.strategy.bbPeriod,
+        this.strategy.bbStdDev
+      );
+      return indicators
+        ? StrategyEngine.shouldExit(position.currentMark, position.entryPrice, this.strategy, indicators, position.label)
+        : { shouldExit: false };
+    }
+
+    const warnings = position.legs
+      .filter(leg => leg.side === 'SHORT')
+      .map(leg => ({ leg: leg.option, risk: GreeksEngine.earlyExerciseRisk(leg.option, price, context.timestamp) }))
+      .filter(({ risk }) => risk.atRisk)
+      .map(({ leg, risk }) => `short ${leg.strike} ${leg.side.toLowerCase()}: ${risk.reason}`);
+    if (warnings.length > 0) {
+      console.log(`⚠️ Early assignment risk on ${position.symbol}: ${warnings.join('; ')}`);
+    }
+
+    const greeksExit = GreeksRiskManager.checkExit(position);
+    if (greeksExit.shouldExit) {
+      console.log(`📊 Greeks exit triggered: ${greeksExit.reason}`);
+    }
+
+    // Spread rules compare the debit to close at the touch with the credit collected
+    if (position.label === 'BULL_PUT_SPREAD') {
+      return BullPutSpreadStrategy.shouldExitSpread(position.metadata.spread as BullPutSpread, price, position.currentClose, daysHeld);
+    }
+    if (position.label === 'BEAR_CALL_SPREAD') {
+      return BearCallSpreadStrategy.shouldExitSpread(position.metadata.spread as BearCallSpread, price, position.currentClose, daysHeld, position.currentGreeks);
+    }
+    return this.checkCondorExit(position, context, daysHeld, greeksExit);
+  }
+
+  private checkCondorExit(
+    position: StrategyPosition,
+    context: StrategyContext,
+    daysHeld: number,
+    greeksExit: { shouldExit: boolean; reason?: string }
+  ): { shouldExit: boolean; reason?: string } {
+    const spread = position.metadata.spread as IronCondor;
+    const price = context.bar.close;
+    const cost = position.currentClose;
+    const daysToExpiration = Math.floor((position.expiration.getTime() - context.timestamp.getTime()) / DAY_MS);
+
+    // Legs are ordered sell put, buy put, sell call, buy call
+    const currentIV = ((position.legQuotes[0].impliedVolatility || 0.2) + (position.legQuotes[2].impliedVolatility || 0.2)) / 2;
+    const entryIV = ((spread.sellPut.impliedVolatility || 0.2) + (spread.sellCall.impliedVolatility || 0.2)) / 2;
+    if (currentIV > entryIV * 1.5) {
+      return { shouldExit: true, reason: 'VOLATILITY_EXPANSION' };
+    }
+
+    if (price <= spread.sellPut.strike || price >= spread.sellCall.strike) {
+      return { shouldExit: true, reason: 'PRICE_BREACH' };
+    }
+    if (cost <= position.entryPrice * 0.5) {
+      return { shouldExit: true, reason: 'PROFIT_TARGET' };
+    }
+    if (cost >= position.entryPrice * 2.0) {
+      return { shouldExit: true, reason: 'STOP_LOSS' };
+    }
+    if (greeksExit.shouldExit) {
+      return { shouldExit: true, reason: greeksExit.reason || 'GREEKS_EXIT' };
+    }
+    if (daysToExpiration <= 1 || daysHeld >= 21) {
+      return { shouldExit: true, reason: daysToExpiration <= 1 ? 'EXPIRATION' : 'TIME_LIMIT' };
+    }
+    return { shouldExit: false };
+  }
+}
+
+export default AdaptiveSpreadStrategy;
@@ -150,7 +150,7 @@ export class AdaptiveStrategySelector {
     const currentPrice = marketData[marketData.length - 1].close;
     
     console.log(`🎯 ADAPTIVE STRATEGY - Analyzing market for strategy selection...`);
-    console.log(`📊 Data: ${marketData.length} bars, ${optionsChain.length} options, SPY: $${currentPrice.toFixed(2)}`);
+    console.log(`📊 Data: ${marketData.length} bars, ${optionsChain.length} options, ${marketData[marketData.length - 1].symbol}: $${currentPrice.toFixed(2)}`);
     
     // 1. DETECT MARKET REGIME
     const marketRegime = MarketRegimeDetector.detectRegime(marketData, optionsChain, vixLevel);
@@ -3,8 +3,12 @@
  * Fetches real market data from Alpaca for backtesting
  */
 
-import { alpacaClient } from './alpaca';
 import { MarketData, OptionsChain } from './types';
+import { MarketDataProvider } from './market-data-provider';
+import { createMarketDataProvider } from './market-data-provider-factory';
+import { OptionsSnapshotStore } from './options-snapshot-store';
+import { MarketCalendar } from './market-calendar';
+import { DataQualityValidator, DataQualityReport, ChainQualityResult } from './data-quality-validator';
 
 export interface AlpacaHistoricalDataConfig {
   symbol: string;
@@ -13,19 +17,28 @@ export interface AlpacaHistoricalDataConfig {
   timeframe: '1Min' | '5Min' | '15Min' | '1Hour' | '1Day';
   includeOptionsData: boolean;
   useExtendedHours?: boolean;
+  dataProvider?: MarketDataProvider; // Defaults to MARKET_DATA_SOURCE / Alpaca
+  snapshotStore?: OptionsSnapshotStore; // Recorded point-in-time chains, preferred over the provider
+  qualityValidator?: DataQualityValidator; // Checks, repairs and enforces data quality; skipped when absent
+}
+
+export interface HistoricalOptionsDay {
+  date: Date;
+  chain: OptionsChain[];
+  source: 'snapshot' | 'provider'; // 'provider' chains are current or synthetic, not point-in-time
+  snapshotTime?: Date; // Capture time of a recorded snapshot
 }
 
 export interface AlpacaBacktestDataSet {
   marketData: MarketData[];
-  optionsData?: {
-    date: Date;
-    chain: OptionsChain[];
-  }[];
+  optionsData?: HistoricalOptionsDay[];
   dataQuality: {
     marketDataPoints: number;
     optionsDataPoints: number;
+    snapshotOptionsDays: number; // Days priced off recorded quotes
     missingDays: Date[];
     dataCompleteness: number; // 0-1 percentage
+    report?: DataQualityReport; // Gaps, bad bars and bad quotes, present when a validator was supplied
   };
 }
 
@@ -41,38 +54,60 @@ export class AlpacaHistoricalDataFetcher {
     console.log(`   Timeframe: ${config.timeframe}`);
     console.log(`   Include Options: ${config.includeOptionsData}`);
 
+    const dataProvider = config.dataProvider || createMarketDataProvider();
+    console.log(`   Data Source: ${dataProvider.name}`);
+
     try {
-      // Test Alpaca connection first
-      const connectionTest = await alpacaClient.testConnection();
+      // Test data source connection first
+      const connectionTest = await dataProvider.testConnection();
       if (!connectionTest) {
-        throw new Error('Failed to connect to Alpaca API');
+        throw new Error(`Failed to connect to ${dataProvider.name} market data source`);
       }
 
       // Fetch market data
       console.log('📊 Fetching market data...');
-      const marketData = await alpacaClient.getMarketData(
+      const rawMarketData = await dataProvider.getMarketData(
         config.symbol,
         config.startDate,
         config.endDate,
         config.timeframe
       );
 
-      console.log(`✅ Retrieved ${marketData.length} market data points`);
+      console.log(`✅ Retrieved ${rawMarketData.length} market data points`);
+
+      const validator = config.qualityValidator;
+      const barQuality = validator?.checkBars(config.symbol, rawMarketData, config.timeframe);
+      const marketData = barQuality ? barQuality.bars : rawMarketData;
 
       // Fetch options data if requested
-      let optionsData: { date: Date; chain: OptionsChain[] }[] = [];
+      let optionsData: HistoricalOptionsDay[] = [];
       if (config.includeOptionsData) {
         console.log('🔗 Fetching options chain data...');
         optionsData = await this.fetchHistoricalOptionsData(
+          dataProvider,
           config.symbol,
           marketData,
-          config.timeframe
+          config.timeframe,
+          config.snapshotStore
         );
         console.log(`✅ Retrieved options data for ${optionsData.length} trading days`);
       }
 
+      // Validate chains day by day so forward-fill can reach back to the prior chain
+      let report: DataQualityReport | undefined;
+      if (validator && barQuality) {
+        const chainQuality: ChainQualityResult[] = [];
+        for (const day of optionsData) {
+          const previousChain = chainQuality.length > 0 ? chainQuality[chainQuality.length - 1].chain : undefined;
+          const checked = validator.checkOptionsChain(config.symbol, day.chain, day.date, { snapshotTime: day.snapshotTime, previousChain });
+          chainQuality.push(checked);
+          day.chain = checked.chain;
+        }
+        report = validator.buildReport(config.symbol, config.timeframe, barQuality, chainQuality);
+      }
+
       // Analyze data quality
-      const dataQuality = this.analyzeDataQuality(marketData, optionsData, config);
+      const dataQuality = this.analyzeDataQuality(marketData, optionsData, config, report);
 
       const result: AlpacaBacktestDataSet = {
         marketData,
@@ -83,8 +118,13 @@ export class AlpacaHistoricalDataFetcher {
       console.log('🎯 Data Quality Analysis:');
       console.log(`   Market Data Points: ${dataQuality.marketDataPoints}`);
       console.log(`   Options Data Points: ${dataQuality.optionsDataPoints}`);
+      console.log(`   Recorded Options Days: ${dataQuality.snapshotOptionsDays}/${optionsData.length}`);
       console.log(`   Data Completeness: ${(dataQuality.dataCompleteness * 100).toFixed(1)}%`);
       console.log(`   Missing Days: ${dataQuality.missingDays.length}`);
+      if (validator && report) {
+        console.log(`   Validation: ${DataQualityValidator.summarize(report)}`);
+        validator.enforce(report);
+      }
 
       return result;
 
@@ -98,60 +138,43 @@ export class AlpacaHistoricalDataFetcher {
    * Fetch options chain data for specific trading days
    */
   private static async fetchHistoricalOptionsData(
+    dataProvider: MarketDataProvider,
     symbol: string,
     marketData: MarketData[],
-    timeframe: string
-  ): Promise<{ date: Date; chain: OptionsChain[] }[]> {
+    timeframe: string,
+    snapshotStore?: OptionsSnapshotStore
+  ): Promise<HistoricalOptionsDay[]> {
     
-    const optionsData: { date: Date; chain: OptionsChain[] }[] = [];
+    const optionsData: HistoricalOptionsDay[] = [];
     
-    // For daily data, fetch options chain for each trading day
-    if (timeframe === '1Day') {
-      for (const dayData of marketData) {
-        try {
-          console.log(`📅 Fetching options chain for ${dayData.date.toDateString()}...`);
-          
-          // Note: This fetches current options chain as historical options data
-          // is not available from Alpaca. In practice, you would need a historical
-          // options data provider for true historical backtesting.
-          const chain = await alpacaClient.getOptionsChain(symbol);
-          
-          optionsData.push({
-            date: dayData.date,
-            chain: chain
-          });
-
-          // Add delay to avoid rate limiting
-          await this.delay(100);
-          
-        } catch (error) {
-          console.warn(`⚠️ Could not fetch options data for ${dayData.date.toDateString()}`);
-        }
+    // Daily data: one chain per bar. Intraday data: one chain per day, as of its first bar
+    const uniqueDays = new Set<string>();
+    for (const dataPoint of marketData) {
+      const dayKey = dataPoint.date.toDateString();
+      if (uniqueDays.has(dayKey)) {
+        continue;
       }
-    } else {
-      // For intraday data, fetch options chain once per day
-      const uniqueDays = new Set<string>();
-      for (const dataPoint of marketData) {
-        const dayKey = dataPoint.date.toDateString();
-        if (!uniqueDays.has(dayKey)) {
-          uniqueDays.add(dayKey);
-          
-          try {
-            console.log(`📅 Fetching intraday options chain for ${dayKey}...`);
-            const chain = await alpacaClient.getOptionsChain(symbol);
-            
-            optionsData.push({
-              date: dataPoint.date,
-              chain: chain
-            });
-
-            // Add delay to avoid rate limiting
-            await this.delay(200);
-            
-          } catch (error) {
-            console.warn(`⚠️ Could not fetch options data for ${dayKey}`);
-          }
-        }
+      uniqueDays.add(dayKey);
+
+      const recorded = snapshotStore?.getSnapshotAsOf(symbol, dataPoint.date);
+      if (recorded) {
+        optionsData.push({ date: dataPoint.date, chain: recorded.quotes, source: 'snapshot', snapshotTime: recorded.timestamp });
+        continue;
+      }
+
+      try {
+        console.log(`📅 Fetching ${timeframe === '1Day' ? '' : 'intraday '}options chain for ${dayKey}...`);
+        
+        // Note: Alpaca has no historical chain endpoint, so without a recorded
+        // snapshot this is the current (or generated) chain standing in for history.
+        const chain = await dataProvider.getOptionsChain(symbol);
+        optionsData.push({ date: dataPoint.date, chain, source: 'provider' });
+
+        // Add delay to avoid rate limiting
+        await this.delay(timeframe === '1Day' ? 100 : 200);
+        
+      } catch (error) {
+        console.warn(`⚠️ Could not fetch options data for ${dayKey}`);
       }
     }
 
@@ -163,79 +186,46 @@ export class AlpacaHistoricalDataFetcher {
    */
   private static analyzeDataQuality(
     marketData: MarketData[],
-    optionsData: { date: Date; chain: OptionsChain[] }[],
-    config: AlpacaHistoricalDataConfig
+    optionsData: HistoricalOptionsDay[],
+    config: AlpacaHistoricalDataConfig,
+    report?: DataQualityReport
   ) {
-    // Calculate expected trading days
-    const expectedTradingDays = this.getExpectedTradingDays(config.startDate, config.endDate);
+    // Calculate expected trading days (NYSE sessions, keyed by New York date)
+    const expectedSessions = MarketCalendar.getTradingSessions(config.startDate, config.endDate);
     
     // Find missing days
-    const marketDataDays = new Set(marketData.map(d => d.date.toDateString()));
-    const missingDays: Date[] = [];
-    
-    for (const day of expectedTradingDays) {
-      if (!marketDataDays.has(day.toDateString())) {
-        missingDays.push(day);
-      }
-    }
+    const marketDataDays = new Set(marketData.map(d => MarketCalendar.toEastern(d.date).day));
+    const missingDays: Date[] = expectedSessions
+      .filter(session => !marketDataDays.has(session.day))
+      .map(session => session.open);
 
     // Calculate completeness percentage
-    const dataCompleteness = Math.max(0, Math.min(1, 
-      (expectedTradingDays.length - missingDays.length) / expectedTradingDays.length
+    const dataCompleteness = expectedSessions.length === 0 ? 1 : Math.max(0, Math.min(1, 
+      (expectedSessions.length - missingDays.length) / expectedSessions.length
     ));
 
     return {
       marketDataPoints: marketData.length,
       optionsDataPoints: optionsData.reduce((sum, day) => sum + day.chain.length, 0),
+      snapshotOptionsDays: optionsData.filter(day => day.source === 'snapshot').length,
       missingDays,
-      dataCompleteness
+      dataCompleteness,
+      report
     };
   }
 
-  /**
-   * Get expected trading days (excluding weekends and major holidays)
-   */
-  private static getExpectedTradingDays(startDate: Date, endDate: Date): Date[] {
-    const tradingDays: Date[] = [];
-    const currentDate = new Date(startDate);
-    
-    // Major market holidays (simplified)
-    const holidays = new Set([
-      '2024-01-01', // New Year's Day
-      '2024-01-15', // MLK Day
-      '2024-02-19', // Presidents Day
-      '2024-03-29', // Good Friday
-      '2024-05-27', // Memorial Day
-      '2024-06-19', // Juneteenth
-      '2024-07-04', // Independence Day
-      '2024-09-02', // Labor Day
-      '2024-11-28', // Thanksgiving
-      '2024-12-25', // Christmas
-    ]);
-
-    while (currentDate <= endDate) {
-      const dayOfWeek = currentDate.getDay();
-      const dateString = currentDate.toISOString().split('T')[0];
-      
-      // Skip weekends and holidays
-      if (dayOfWeek >= 1 && dayOfWeek <= 5 && !holidays.has(dateString)) {
-        tradingDays.push(new Date(currentDate));
-      }
-      
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    return tradingDays;
-  }
-
   /**
    * Fetch VIX data for volatility analysis
    */
-  static async fetchVIXData(startDate: Date, endDate: Date): Promise<MarketData[]> {
+  static async fetchVIXData(
+    startDate: Date,
+    endDate: Date,
+    dataProvider: MarketDataProvider = createMarketDataProvider()
+  ): Promise<MarketData[]> {
     try {
       console.log('📈 Fetching VIX data for volatility analysis...');
       
-      const vixData = await alpacaClient.getMarketData(
+      const vixData = await dataProvider.getMarketData(
         'VIX',
         startDate,
         endDate,
@@ -265,7 +255,7 @@ export class AlpacaHistoricalDataFetcher {
     const backtestData = await this.fetchBacktestData(config);
     
     // Fetch VIX data for volatility context
-    const vixData = await this.fetchVIXData(config.startDate, config.endDate);
+    const vixData = await this.fetchVIXData(config.startDate, config.endDate, config.dataProvider);
 
     return {
       primaryData: backtestData.marketData,
@@ -309,7 +299,24 @@ export class AlpacaHistoricalDataFetcher {
       recommendations.push('Review missing days for market holidays or data outages');
     }
 
-    const isValid = warnings.length === 0 || dataSet.dataQuality.dataCompleteness >= 0.85;
+    // Validator thresholds (gaps, spikes, zero volume, bad quotes, stale snapshots), only when one was configured
+    const report = dataSet.dataQuality.report;
+    if (report) {
+      for (const failure of report.failures) {
+        warnings.push(failure);
+      }
+      if (report.counts.BAR_GAP + report.counts.MISSING_SESSION > 0 && report.repairs.barPolicy === 'flag') {
+        recommendations.push('Use the forward-fill repair policy or a cached 1Min source to close intraday gaps');
+      }
+      if (report.counts.CROSSED_QUOTE + report.counts.LOCKED_QUOTE + report.counts.IV_OUTLIER + report.counts.IV_MISMATCH > 0 && report.repairs.quotePolicy === 'flag') {
+        recommendations.push('Drop or forward-fill bad option quotes before pricing spreads off them');
+      }
+      if (report.counts.STALE_SNAPSHOT > 0) {
+        recommendations.push('Record options snapshots more frequently than the staleness threshold');
+      }
+    }
+
+    const isValid = (warnings.length === 0 || dataSet.dataQuality.dataCompleteness >= 0.85) && (!report || report.passed);
 
     return { isValid, warnings, recommendations };
   }
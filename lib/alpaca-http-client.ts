@@ -5,7 +5,7 @@
  * This bypasses the buggy SDK and works with real API data.
  */
 
-import axios from 'axios';
+import { alpacaRequestLayer } from './alpaca-request-layer';
 import { MarketData, OptionsChain } from './types';
 
 export class AlpacaHTTPClient {
@@ -34,11 +34,11 @@ export class AlpacaHTTPClient {
 
   async testConnection(): Promise<boolean> {
     try {
-      const response = await axios.get(`${this.baseUrl}/v2/account`, {
+      await alpacaRequestLayer.get(`${this.baseUrl}/v2/account`, {
         headers: this.getHeaders()
       });
       console.log('✅ Alpaca HTTP client connection successful');
-      return response.status === 200;
+      return true;
     } catch (error) {
       console.error('❌ Alpaca HTTP client connection failed:', error);
       return false;
@@ -46,17 +46,16 @@ export class AlpacaHTTPClient {
   }
 
   async getAccount() {
-    const response = await axios.get(`${this.baseUrl}/v2/account`, {
+    return alpacaRequestLayer.get(`${this.baseUrl}/v2/account`, {
       headers: this.getHeaders()
     });
-    return response.data;
   }
 
   async getMarketData(symbol: string, startDate: Date, endDate: Date, timeframe: '1Min' | '5Min' | '15Min' | '1Hour' | '1Day' = '1Day'): Promise<MarketData[]> {
     try {
       console.log(`📊 Fetching REAL ${timeframe} data for ${symbol} from ${startDate.toDateString()} to ${endDate.toDateString()}`);
       
-      const response = await axios.get(`https://data.alpaca.markets/v2/stocks/${symbol}/bars`, {
+      const bars: any[] = await alpacaRequestLayer.getAllPages(`https://data.alpaca.markets/v2/stocks/${symbol}/bars`, 'bars', {
         headers: this.getHeaders(),
         params: {
           start: startDate.toISOString().split('T')[0],
@@ -68,8 +67,8 @@ export class AlpacaHTTPClient {
 
       const marketData: MarketData[] = [];
       
-      if (response.data.bars) {
-        response.data.bars.forEach((bar: any, index: number) => {
+      if (bars) {
+        bars.forEach((bar: any, index: number) => {
           marketData.push({
             id: `${symbol}_${bar.t}_${index}`,
             symbol: symbol,
@@ -79,6 +78,7 @@ export class AlpacaHTTPClient {
             low: bar.l,
             close: bar.c,
             volume: BigInt(Math.floor(bar.v)),
+            vwap: bar.vw,
             createdAt: new Date()
           });
         });
@@ -97,18 +97,18 @@ export class AlpacaHTTPClient {
     try {
       console.log(`📊 Fetching REAL options chain for ${symbol}`);
       
-      const response = await axios.get(`${this.baseUrl}/v2/options/contracts`, {
+      const contracts: any[] = await alpacaRequestLayer.getAllPages(`${this.baseUrl}/v2/options/contracts`, 'option_contracts', {
         headers: this.getHeaders(),
         params: {
           underlying_symbols: symbol,
-          limit: 100
+          limit: 1000
         }
       });
 
       const optionsChain: OptionsChain[] = [];
       
-      if (response.data.option_contracts) {
-        response.data.option_contracts.forEach((contract: any) => {
+      if (contracts) {
+        contracts.forEach((contract: any) => {
           optionsChain.push({
             symbol: contract.symbol,
             strike: contract.strike_price,
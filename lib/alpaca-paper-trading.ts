@@ -6,7 +6,9 @@
  * Patterns based on: options-zero-dte.ipynb and options-trading-mleg.ipynb
  */
 
-import { alpacaClient } from './alpaca';
+import { MarketDataProvider } from './market-data-provider';
+import { createMarketDataProvider } from './market-data-provider-factory';
+import { MarketCalendar } from './market-calendar';
 import { 
   BullPutSpread, 
   BearCallSpread, 
@@ -58,6 +60,11 @@ export interface AlpacaPositionSnapshot {
 
 export class AlpacaPaperTradingClient {
   private static instance: AlpacaPaperTradingClient;
+  private dataProvider: MarketDataProvider;
+  
+  constructor(dataProvider: MarketDataProvider = createMarketDataProvider()) {
+    this.dataProvider = dataProvider;
+  }
   
   static getInstance(): AlpacaPaperTradingClient {
     if (!AlpacaPaperTradingClient.instance) {
@@ -389,14 +396,7 @@ export class AlpacaPaperTradingClient {
    */
   async isMarketOpen(): Promise<boolean> {
     try {
-      // This would call Alpaca's clock API
-      // For now, use simple time-based check
-      const now = new Date();
-      const hour = now.getHours();
-      const day = now.getDay();
-      
-      // Monday-Friday, 9:30 AM - 4:00 PM ET (simplified)
-      return day >= 1 && day <= 5 && hour >= 9 && hour < 16;
+      return MarketCalendar.isMarketOpen();
       
     } catch (error) {
       console.error('❌ Error checking market hours:', error);
@@ -418,8 +418,8 @@ export class AlpacaPaperTradingClient {
       const minStrike = currentPrice * (1 - strikeRange);
       const maxStrike = currentPrice * (1 + strikeRange);
       
-      // Get options chain from Alpaca
-      const optionsChain = await alpacaClient.getOptionsChain(underlyingSymbol);
+      // Get options chain from the market data provider
+      const optionsChain = await this.dataProvider.getOptionsChain(underlyingSymbol);
       
       // Filter for 0-DTE options within strike range
       const today = new Date().toISOString().split('T')[0];
@@ -495,9 +495,7 @@ export class AlpacaPaperTradingClient {
   
   private async getCurrentPrice(symbol: string): Promise<number> {
     try {
-      // This would use alpacaClient.getMarketData for latest price
-      // For now, return SPY mock price
-      return 445.50;
+      return await this.dataProvider.getCurrentPrice(symbol);
     } catch (error) {
       console.error(`❌ Error getting current price for ${symbol}:`, error);
       return 0;
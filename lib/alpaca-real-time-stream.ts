@@ -10,6 +10,8 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import { OptionsChain, MarketData } from './types';
+import { OptionContractId } from './option-contract-id';
+import { SymbolUniverse } from './symbol-universe';
 
 export interface RealTimeMarketData {
   symbol: string;
@@ -549,29 +551,13 @@ export class AlpacaRealTimeStream extends EventEmitter {
     side: 'CALL' | 'PUT';
     expiration: Date;
   } {
-    // Parse format: SPYYYMMDDCPPPPPPP
-    const match = symbol.match(/^([A-Z]+)(\d{6})([CP])(\d{8})$/);
-    
-    if (!match) {
-      throw new Error(`Invalid option symbol format: ${symbol}`);
-    }
-    
-    const [, underlying, dateStr, callPut, strikeStr] = match;
-    
-    // Parse expiration date YYMMDD
-    const year = 2000 + parseInt(dateStr.substring(0, 2));
-    const month = parseInt(dateStr.substring(2, 4)) - 1;
-    const day = parseInt(dateStr.substring(4, 6));
-    const expiration = new Date(year, month, day);
-    
-    // Parse strike price
-    const strike = parseInt(strikeStr) / 1000;
+    const contract = OptionContractId.parse(symbol);
     
     return {
-      underlying,
-      strike,
-      side: callPut === 'C' ? 'CALL' : 'PUT',
-      expiration
+      underlying: SymbolUniverse.underlyingOf(symbol),
+      strike: contract.strike,
+      side: contract.side,
+      expiration: OptionContractId.expirationTime(contract)
     };
   }
 
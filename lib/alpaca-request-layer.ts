@@ -0,0 +1,337 @@
+/**
+ * ALPACA REQUEST LAYER
+ * Shared transport for the Alpaca REST clients: rate limiting, retries, pagination, metrics
+ *
+ * - Token bucket sized to Alpaca's 200 requests/minute account limit
+ * - Exponential backoff with full jitter on 429 (and 5xx/network errors for GETs),
+ *   honouring Retry-After / X-RateLimit-Reset when the server sends them
+ * - Transparent next_page_token following for bars, contracts and snapshots
+ * - A 'request' event with RequestMetrics for every call
+ *
+ * HTTP goes through an HttpTransport (axios by default), so tests can answer offline.
+ */
+
+import axios from 'axios';
+import { EventEmitter } from 'events';
+
+export interface RequestLayerConfig {
+  requestsPerMinute: number;
+  burstCapacity: number;
+  maxRetries: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  timeoutMs: number;
+}
+
+export interface RequestMetrics {
+  method: 'GET' | 'POST';
+  endpoint: string; // URL without query string
+  status: number; // 0 when no response was received
+  attempts: number;
+  page: number; // 1-based page index when following next_page_token
+  durationMs: number;
+  throttledMs: number; // Time spent waiting on the token bucket
+  backoffMs: number; // Time spent waiting between retries
+  success: boolean;
+  timestamp: Date;
+}
+
+export interface RequestMetricsSummary {
+  requests: number; // Every page counts as a request
+  failures: number;
+  retries: number;
+  rateLimited: number; // Responses with HTTP 429
+  totalDurationMs: number;
+  totalThrottledMs: number;
+}
+
+export class AlpacaRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly endpoint: string,
+    public readonly body?: any
+  ) {
+    super(message);
+    this.name = 'AlpacaRequestError';
+  }
+}
+
+interface RequestOptions {
+  headers: Record<string, string>;
+  params?: Record<string, any>;
+  data?: any;
+}
+
+export interface HttpRequest extends RequestOptions {
+  method: 'GET' | 'POST';
+  url: string;
+  timeoutMs: number;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, any>; // Lower-case names
+  data: any;
+}
+
+/**
+ * Resolves with any HTTP status; rejects only when no response arrived
+ */
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+const axiosTransport: HttpTransport = async request => {
+  const response = await axios.request({
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    params: request.params,
+    data: request.data,
+    timeout: request.timeoutMs,
+    validateStatus: () => true
+  });
+  return { status: response.status, headers: response.headers as Record<string, any>, data: response.data };
+};
+
+/**
+ * Classic token bucket: refills continuously, take() waits for a token
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private readonly capacity: number, private readonly refillPerSecond: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Resolve once a token is available; returns milliseconds spent waiting
+   */
+  async take(): Promise<number> {
+    let waited = 0;
+    this.refill();
+    while (this.tokens < 1) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+      await sleep(waitMs);
+      waited += waitMs;
+      this.refill();
+    }
+    this.tokens -= 1;
+    return waited;
+  }
+
+  /**
+   * Drop all tokens, e.g. after the server reports the limit is exhausted
+   */
+  drain(): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+export class AlpacaRequestLayer extends EventEmitter {
+  private readonly config: RequestLayerConfig;
+  private readonly bucket: TokenBucket;
+  private summary: RequestMetricsSummary = {
+    requests: 0,
+    failures: 0,
+    retries: 0,
+    rateLimited: 0,
+    totalDurationMs: 0,
+    totalThrottledMs: 0
+  };
+
+  private static readonly DEFAULT_CONFIG: RequestLayerConfig = {
+    requestsPerMinute: 200,
+    burstCapacity: 10,
+    maxRetries: 5,
+    baseBackoffMs: 500,
+    maxBackoffMs: 30000,
+    timeoutMs: 30000
+  };
+
+  constructor(config: Partial<RequestLayerConfig> = {}, private readonly transport: HttpTransport = axiosTransport) {
+    super();
+    this.config = { ...AlpacaRequestLayer.DEFAULT_CONFIG, ...config };
+    this.bucket = new TokenBucket(this.config.burstCapacity, this.config.requestsPerMinute / 60);
+  }
+
+  async get<T = any>(url: string, options: RequestOptions): Promise<T> {
+    const { data } = await this.execute<T>('GET', url, options, 1);
+    return data;
+  }
+
+  async post<T = any>(url: string, options: RequestOptions): Promise<T> {
+    const { data } = await this.execute<T>('POST', url, options, 1);
+    return data;
+  }
+
+  /**
+   * GET every page of a paginated endpoint and merge the collection under `key`.
+   * Array collections (bars, option_contracts) are concatenated; keyed
+   * collections (snapshots) are merged.
+   */
+  async getAllPages<T = any>(url: string, key: string, options: RequestOptions, maxPages: number = 1000): Promise<T> {
+    let merged: any = undefined;
+    let pageToken: string | undefined;
+    let pages = 0;
+
+    do {
+      const params = { ...options.params, ...(pageToken ? { page_token: pageToken } : {}) };
+      const { data } = await this.execute<any>('GET', url, { ...options, params }, pages + 1);
+      const page = data?.[key];
+      pages++;
+
+      if (Array.isArray(page)) {
+        merged = (merged || []).concat(page);
+      } else if (page && typeof page === 'object') {
+        merged = { ...(merged || {}), ...page };
+      }
+      pageToken = data?.next_page_token || undefined;
+    } while (pageToken && pages < maxPages);
+
+    if (pageToken) {
+      console.warn(`⚠️ Stopped following ${url} after ${maxPages} pages; result is truncated`);
+    }
+    return merged ?? [];
+  }
+
+  getMetricsSummary(): RequestMetricsSummary {
+    return { ...this.summary };
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private async execute<T>(
+    method: 'GET' | 'POST',
+    url: string,
+    options: RequestOptions,
+    page: number
+  ): Promise<{ data: T }> {
+    const started = Date.now();
+    let attempts = 0;
+    let throttledMs = 0;
+    let backoffMs = 0;
+    let lastStatus = 0;
+
+    while (true) {
+      throttledMs += await this.bucket.take();
+      attempts++;
+
+      let response: HttpResponse | null = null;
+      let networkError: any = null;
+      try {
+        response = await this.transport({ method, url, ...options, timeoutMs: this.config.timeoutMs });
+      } catch (error) {
+        networkError = error;
+      }
+
+      lastStatus = response?.status ?? 0;
+      if (lastStatus === 429) {
+        this.summary.rateLimited++;
+        this.bucket.drain();
+      }
+
+      if (response && lastStatus < 400) {
+        this.record({ method, url, status: lastStatus, attempts, page, started, throttledMs, backoffMs, success: true });
+        return { data: response.data as T };
+      }
+
+      // Orders are not idempotent: only a 429 guarantees a POST was never processed
+      const retryable = lastStatus === 429 || (method === 'GET' && (networkError !== null || lastStatus >= 500));
+      if (!retryable || attempts > this.config.maxRetries) {
+        this.record({ method, url, status: lastStatus, attempts, page, started, throttledMs, backoffMs, success: false });
+        const reason = networkError ? networkError.message : `HTTP ${lastStatus}`;
+        throw new AlpacaRequestError(
+          `Alpaca ${method} ${this.endpointOf(url)} failed after ${attempts} attempt(s): ${reason}`,
+          lastStatus,
+          this.endpointOf(url),
+          response?.data
+        );
+      }
+
+      const delay = this.retryDelay(attempts, response);
+      console.warn(`⏳ Alpaca ${lastStatus || 'network error'} on ${this.endpointOf(url)}, retry ${attempts}/${this.config.maxRetries} in ${delay}ms`);
+      this.summary.retries++;
+      backoffMs += delay;
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Server-provided wait when available, otherwise exponential backoff with full jitter
+   */
+  private retryDelay(attempt: number, response: HttpResponse | null): number {
+    const retryAfter = Number(response?.headers?.['retry-after']);
+    if (retryAfter > 0) {
+      return Math.min(this.config.maxBackoffMs, retryAfter * 1000);
+    }
+
+    const resetAt = Number(response?.headers?.['x-ratelimit-reset']);
+    if (resetAt > 0) {
+      const untilReset = resetAt * 1000 - Date.now();
+      if (untilReset > 0) {
+        return Math.min(this.config.maxBackoffMs, untilReset);
+      }
+    }
+
+    const ceiling = Math.min(this.config.maxBackoffMs, this.config.baseBackoffMs * Math.pow(2, attempt - 1));
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  private record(entry: {
+    method: 'GET' | 'POST';
+    url: string;
+    status: number;
+    attempts: number;
+    page: number;
+    started: number;
+    throttledMs: number;
+    backoffMs: number;
+    success: boolean;
+  }): void {
+    const metrics: RequestMetrics = {
+      method: entry.method,
+      endpoint: this.endpointOf(entry.url),
+      status: entry.status,
+      attempts: entry.attempts,
+      page: entry.page,
+      durationMs: Date.now() - entry.started,
+      throttledMs: entry.throttledMs,
+      backoffMs: entry.backoffMs,
+      success: entry.success,
+      timestamp: new Date()
+    };
+
+    this.summary.requests++;
+    if (!entry.success) {
+      this.summary.failures++;
+    }
+    this.summary.totalDurationMs += metrics.durationMs;
+    this.summary.totalThrottledMs += metrics.throttledMs;
+
+    this.emit('request', metrics);
+  }
+
+  private endpointOf(url: string): string {
+    return url.split('?')[0];
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * One layer per process so both REST clients draw from the same rate limit
+ */
+export const alpacaRequestLayer = new AlpacaRequestLayer();
+
+export default AlpacaRequestLayer;
@@ -1,11 +1,16 @@
 
 import { AlpacaCredentials, MarketData, OptionsChain } from './types';
-import axios from 'axios';
+import { AlpacaRequestLayer, alpacaRequestLayer } from './alpaca-request-layer';
+import { MarketCalendar } from './market-calendar';
+import { OptionContractId } from './option-contract-id';
+import { GreeksEngine, ChainGreeks } from './greeks-engine';
+import { SyntheticMarketSimulator } from './synthetic-market-simulator';
 
-class AlpacaClient {
+export class AlpacaClient {
   private credentials: AlpacaCredentials;
+  private simulator = SyntheticMarketSimulator.fromEnv();
   
-  constructor() {
+  constructor(private readonly requests: AlpacaRequestLayer = alpacaRequestLayer) {
     this.credentials = {
       apiKey: process.env.ALPACA_API_KEY || '',
       apiSecret: process.env.ALPACA_API_SECRET || '', 
@@ -30,11 +35,11 @@ class AlpacaClient {
   // Test connection
   async testConnection(): Promise<boolean> {
     try {
-      const response = await axios.get(`${this.credentials.baseUrl}/v2/account`, {
+      await this.requests.get(`${this.credentials.baseUrl}/v2/account`, {
         headers: this.getHeaders()
       });
       console.log('✅ Alpaca connection successful');
-      return response.status === 200;
+      return true;
     } catch (error) {
       console.error('❌ Alpaca connection failed:', error);
       return false;
@@ -45,7 +50,7 @@ class AlpacaClient {
     try {
       console.log(`📊 Fetching ${timeframe} market data for ${symbol} from ${startDate.toDateString()} to ${endDate.toDateString()}`);
       
-      const response = await axios.get(`https://data.alpaca.markets/v2/stocks/${symbol}/bars`, {
+      const bars: any[] = await this.requests.getAllPages(`https://data.alpaca.markets/v2/stocks/${symbol}/bars`, 'bars', {
         headers: this.getHeaders(),
         params: {
           start: startDate.toISOString().split('T')[0],
@@ -57,8 +62,8 @@ class AlpacaClient {
 
       const marketData: MarketData[] = [];
       
-      if (response.data.bars) {
-        response.data.bars.forEach((bar: any, index: number) => {
+      if (bars) {
+        bars.forEach((bar: any, index: number) => {
           marketData.push({
             id: `${symbol}_${bar.t}_${index}`,
             symbol: symbol,
@@ -68,6 +73,7 @@ class AlpacaClient {
             low: bar.l,
             close: bar.c,
             volume: BigInt(Math.floor(bar.v)),
+            vwap: bar.vw,
             createdAt: new Date()
           });
         });
@@ -77,10 +83,9 @@ class AlpacaClient {
       return marketData;
       
     } catch (error) {
+      // No simulated stand-in: callers (and the cache) must see that the request failed
       console.error(`❌ Error fetching market data for ${symbol}:`, error);
-      // Fallback to mock data if API fails
-      console.log('🔄 Using mock data as fallback...');
-      return this.generateMockMarketData(symbol, startDate, endDate, timeframe);
+      throw error;
     }
   }
 
@@ -88,11 +93,11 @@ class AlpacaClient {
    * Get minute-level data for 0-DTE intraday trading
    */
   async getIntradayData(symbol: string, date: Date): Promise<MarketData[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(9, 30, 0, 0); // Market open 9:30 AM
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(16, 0, 0, 0); // Market close 4:00 PM
+    // Session bounds in New York time (1:00 PM close on half-days)
+    const day = MarketCalendar.toEastern(date).day;
+    const session = MarketCalendar.getSession(day);
+    const startOfDay = session ? session.open : MarketCalendar.fromEastern(day, MarketCalendar.SESSION_OPEN_MINUTES);
+    const endOfDay = session ? session.close : MarketCalendar.fromEastern(day, MarketCalendar.REGULAR_CLOSE_MINUTES);
     
     console.log(`⚡ 0-DTE: Fetching minute data from ${startOfDay.toLocaleTimeString()} to ${endOfDay.toLocaleTimeString()}`);
     return this.getMarketData(symbol, startOfDay, endOfDay, '1Min');
@@ -116,57 +121,53 @@ class AlpacaClient {
       console.log(`🔥 Fetching FULL options chain for ${symbol} from Alpaca contracts endpoint...`);
       
       // Step 1: Get ALL available option contracts from contracts endpoint
-      const contractsResponse = await fetch(`https://paper-api.alpaca.markets/v2/options/contracts?underlying_symbols=${symbol}&limit=1000`, {
-        headers: {
-          'APCA-API-KEY-ID': this.credentials.apiKey,
-          'APCA-API-SECRET-KEY': this.credentials.apiSecret,
-        }
-      });
-
-      if (!contractsResponse.ok) {
-        console.log(`⚠️  Alpaca contracts endpoint unavailable (${contractsResponse.status}), using snapshots fallback`);
+      let contracts: any[];
+      try {
+        contracts = await this.requests.getAllPages(`https://paper-api.alpaca.markets/v2/options/contracts`, 'option_contracts', {
+          headers: this.getHeaders(),
+          params: { underlying_symbols: symbol, limit: 1000 }
+        });
+      } catch (error) {
+        console.log(`⚠️  Alpaca contracts endpoint unavailable (${error instanceof Error ? error.message : error}), using snapshots fallback`);
         return this.getOptionsChainFromSnapshots(symbol, expiration);
       }
-
-      const contractsData: any = await contractsResponse.json();
       
-      if (!contractsData.option_contracts || contractsData.option_contracts.length === 0) {
+      if (!contracts || contracts.length === 0) {
         console.log(`⚠️  No option contracts returned, using snapshots fallback`);
         return this.getOptionsChainFromSnapshots(symbol, expiration);
       }
 
-      console.log(`📊 Found ${contractsData.option_contracts.length} available option contracts`);
+      console.log(`📊 Found ${contracts.length} available option contracts`);
 
       // Step 2: Get market data (bids/asks) for these contracts from snapshots
-      const snapshotsResponse = await fetch(`https://data.alpaca.markets/v1beta1/options/snapshots/${symbol}`, {
-        headers: {
-          'APCA-API-KEY-ID': this.credentials.apiKey,
-          'APCA-API-SECRET-KEY': this.credentials.apiSecret,
-        }
-      });
-
       let marketData: any = {};
-      if (snapshotsResponse.ok) {
-        const snapshotsData: any = await snapshotsResponse.json();
-        marketData = snapshotsData.snapshots || {};
+      try {
+        marketData = await this.requests.getAllPages(`https://data.alpaca.markets/v1beta1/options/snapshots/${symbol}`, 'snapshots', {
+          headers: this.getHeaders()
+        });
         console.log(`💰 Retrieved market data for ${Object.keys(marketData).length} contracts`);
-      } else {
+      } catch (error) {
         console.log(`⚠️  Market data unavailable, using contract prices only`);
       }
 
       // Step 3: Combine contract info with market data
+      const currentPrice = await this.getCurrentPrice(symbol);
       const optionsChain: OptionsChain[] = [];
-      for (const contract of contractsData.option_contracts) {
+      for (const contract of contracts) {
         const optionData = this.parseAlpacaContract(contract, marketData[contract.symbol]);
         if (optionData) {
           optionsChain.push(optionData);
         }
       }
+      const greeks = this.priceChainFromQuotes(optionsChain, currentPrice);
+      optionsChain.forEach((option, i) => {
+        option.impliedVolatility = Number(greeks.impliedVolatility[i].toFixed(3));
+        option.delta = Number((option.delta ?? Math.abs(greeks.delta[i])).toFixed(3));
+      });
 
       console.log(`✅ Combined ${optionsChain.length} REAL options contracts with market data`);
 
       // Debug output
-      const currentPrice = await this.getCurrentPrice(symbol);
       console.log(`🔍 FULL CHAIN ANALYSIS - ${symbol} Price: $${currentPrice.toFixed(2)}`);
       const puts = optionsChain.filter(opt => opt.side === 'PUT');
       const calls = optionsChain.filter(opt => opt.side === 'CALL');
@@ -189,34 +190,29 @@ class AlpacaClient {
     try {
       console.log(`📊 Using snapshots fallback for ${symbol}...`);
       
-      const response = await fetch(`https://data.alpaca.markets/v1beta1/options/snapshots/${symbol}`, {
-        headers: {
-          'APCA-API-KEY-ID': this.credentials.apiKey,
-          'APCA-API-SECRET-KEY': this.credentials.apiSecret,
-        }
+      const snapshots: any = await this.requests.getAllPages(`https://data.alpaca.markets/v1beta1/options/snapshots/${symbol}`, 'snapshots', {
+        headers: this.getHeaders()
       });
-
-      if (!response.ok) {
-        console.log(`⚠️  Snapshots fallback failed, using synthetic data`);
-        const currentPrice = await this.getCurrentPrice(symbol);
-        return this.generateInstitutionalOptionsChain(symbol, currentPrice, expiration);
-      }
-
-      const data: any = await response.json();
       
-      if (!data.snapshots || Object.keys(data.snapshots).length === 0) {
+      if (!snapshots || Object.keys(snapshots).length === 0) {
         console.log(`⚠️  No snapshots data, using synthetic data`);
         const currentPrice = await this.getCurrentPrice(symbol);
         return this.generateInstitutionalOptionsChain(symbol, currentPrice, expiration);
       }
 
+      const currentPrice = await this.getCurrentPrice(symbol);
       const optionsChain: OptionsChain[] = [];
-      for (const [optionSymbol, snapshot] of Object.entries(data.snapshots as any)) {
+      for (const [optionSymbol, snapshot] of Object.entries(snapshots as any)) {
         const option = this.parseAlpacaOptionSnapshot(optionSymbol, snapshot);
         if (option) {
           optionsChain.push(option);
         }
       }
+      const greeks = this.priceChainFromQuotes(optionsChain, currentPrice);
+      optionsChain.forEach((option, i) => {
+        option.impliedVolatility = greeks.impliedVolatility[i];
+        option.delta = option.delta || greeks.delta[i];
+      });
 
       console.log(`✅ Snapshots fallback retrieved ${optionsChain.length} contracts`);
       return optionsChain;
@@ -240,8 +236,8 @@ class AlpacaClient {
       let bid = 0.01;
       let ask = 0.02;
       let lastPrice = parseFloat(contract.close_price || '0');
-      let impliedVolatility = 0.2;
-      let delta = 0.1;
+      let impliedVolatility: number | undefined;
+      let delta: number | undefined;
       let volume = 0;
       let openInterest = parseInt(contract.open_interest || '0');
 
@@ -257,8 +253,8 @@ class AlpacaClient {
         if (marketSnapshot.impliedVolatility) {
           impliedVolatility = marketSnapshot.impliedVolatility;
         }
-        if (marketSnapshot.greeks) {
-          delta = Math.abs(marketSnapshot.greeks.delta || 0.1);
+        if (marketSnapshot.greeks?.delta) {
+          delta = Math.abs(marketSnapshot.greeks.delta);
         }
       } else {
         // Generate realistic pricing from contract close price
@@ -277,8 +273,8 @@ class AlpacaClient {
         bid: Number(bid.toFixed(2)),
         ask: Number(ask.toFixed(2)),
         last: Number(lastPrice.toFixed(2)),
-        impliedVolatility: Number(impliedVolatility.toFixed(3)),
-        delta: Number(delta.toFixed(3)),
+        impliedVolatility,
+        delta,
         volume: volume,
         openInterest: openInterest
       };
@@ -300,24 +296,25 @@ class AlpacaClient {
     try {
       console.log(`📋 Submitting ${order.side} order for ${order.quantity} ${order.symbol}`);
       
-      const response = await axios.post(`${this.credentials.baseUrl}/v2/orders`, {
-        symbol: order.symbol,
-        qty: order.quantity,
-        side: order.side,
-        type: order.type,
-        time_in_force: order.timeInForce,
-        limit_price: order.limitPrice,
-      }, {
-        headers: this.getHeaders()
+      const submitted = await this.requests.post(`${this.credentials.baseUrl}/v2/orders`, {
+        headers: this.getHeaders(),
+        data: {
+          symbol: order.symbol,
+          qty: order.quantity,
+          side: order.side,
+          type: order.type,
+          time_in_force: order.timeInForce,
+          limit_price: order.limitPrice,
+        }
       });
 
-      console.log(`✅ Order submitted successfully: ${response.data.id}`);
+      console.log(`✅ Order submitted successfully: ${submitted.id}`);
       
       return {
-        id: response.data.id,
-        status: response.data.status,
-        filledPrice: response.data.filled_avg_price || order.limitPrice || 0,
-        filledAt: new Date(response.data.filled_at || Date.now())
+        id: submitted.id,
+        status: submitted.status,
+        filledPrice: submitted.filled_avg_price || order.limitPrice || 0,
+        filledAt: new Date(submitted.filled_at || Date.now())
       };
       
     } catch (error) {
@@ -329,219 +326,24 @@ class AlpacaClient {
   // Get account information
   async getAccount() {
     try {
-      const response = await axios.get(`${this.credentials.baseUrl}/v2/account`, {
+      return await this.requests.get(`${this.credentials.baseUrl}/v2/account`, {
         headers: this.getHeaders()
       });
-      return response.data;
     } catch (error) {
       console.error('❌ Error fetching account:', error);
       throw error;
     }
   }
 
-  private generateRealisticOptionsChain(symbol: string, currentPrice: number, expiration?: Date): OptionsChain[] {
-    const chains: OptionsChain[] = [];
-    const exp = expiration || new Date(Date.now() + 5 * 24 * 60 * 60 * 1000); // 5 days from now
-    const timeToExpiry = (exp.getTime() - Date.now()) / (365.25 * 24 * 60 * 60 * 1000);
-    
-    // Generate strikes around current price
-    for (let i = -20; i <= 20; i++) {
-      const strike = Math.round((currentPrice + i * 5) / 5) * 5; // Round to nearest $5
-      const moneyness = currentPrice / strike;
-      
-      // Simple Black-Scholes approximation for realistic pricing
-      const volatility = 0.20; // 20% implied volatility
-      const riskFreeRate = 0.05; // 5% risk-free rate
-      
-      const d1 = (Math.log(moneyness) + (riskFreeRate + 0.5 * volatility * volatility) * timeToExpiry) / 
-                 (volatility * Math.sqrt(timeToExpiry));
-      const d2 = d1 - volatility * Math.sqrt(timeToExpiry);
-      
-      const callPrice = currentPrice * this.normalCDF(d1) - strike * Math.exp(-riskFreeRate * timeToExpiry) * this.normalCDF(d2);
-      const putPrice = strike * Math.exp(-riskFreeRate * timeToExpiry) * this.normalCDF(-d2) - currentPrice * this.normalCDF(-d1);
-      
-      // Call option
-      chains.push({
-        symbol: `${symbol}${exp.toISOString().split('T')[0].replace(/-/g, '')}C${strike}`,
-        expiration: exp,
-        strike,
-        side: 'CALL',
-        bid: Math.max(0.01, callPrice - 0.05),
-        ask: Math.max(0.02, callPrice + 0.05),
-        last: callPrice,
-        impliedVolatility: volatility + (Math.random() - 0.5) * 0.1,
-        delta: this.normalCDF(d1),
-        volume: Math.floor(Math.random() * 1000),
-        openInterest: Math.floor(Math.random() * 5000)
-      });
-      
-      // Put option
-      chains.push({
-        symbol: `${symbol}${exp.toISOString().split('T')[0].replace(/-/g, '')}P${strike}`,
-        expiration: exp,
-        strike,
-        side: 'PUT',
-        bid: Math.max(0.01, putPrice - 0.05),
-        ask: Math.max(0.02, putPrice + 0.05),
-        last: putPrice,
-        impliedVolatility: volatility + (Math.random() - 0.5) * 0.1,
-        delta: this.normalCDF(d1) - 1,
-        volume: Math.floor(Math.random() * 1000),
-        openInterest: Math.floor(Math.random() * 5000)
-      });
-    }
-    
-    return chains;
-  }
-
-
-  
-  private generateMockMarketData(symbol: string, startDate: Date, endDate: Date, timeframe: '1Min' | '5Min' | '15Min' | '1Hour' | '1Day' = '1Day'): MarketData[] {
-    const data: MarketData[] = [];
-    const currentDate = new Date(startDate);
-    let basePrice = 630; // Current SPY price level
-    
-    // Determine increment based on timeframe
-    let incrementMinutes: number;
-    let volatilityMultiplier: number;
-    
-    switch (timeframe) {
-      case '1Min':
-        incrementMinutes = 1;
-        volatilityMultiplier = 0.1; // Lower volatility per minute
-        break;
-      case '5Min':
-        incrementMinutes = 5;
-        volatilityMultiplier = 0.3;
-        break;
-      case '15Min':
-        incrementMinutes = 15;
-        volatilityMultiplier = 0.5;
-        break;
-      case '1Hour':
-        incrementMinutes = 60;
-        volatilityMultiplier = 1.0;
-        break;
-      case '1Day':
-        incrementMinutes = 24 * 60;
-        volatilityMultiplier = 3.0;
-        break;
-    }
-    
-    while (currentDate <= endDate) {
-      // Skip weekends for daily data, or outside market hours for intraday
-      const dayOfWeek = currentDate.getDay();
-      const hour = currentDate.getHours();
-      
-      if (timeframe === '1Day') {
-        // Daily: Skip weekends
-        if (dayOfWeek === 0 || dayOfWeek === 6) {
-          currentDate.setDate(currentDate.getDate() + 1);
-          continue;
-        }
-      } else {
-        // Intraday: Skip weekends and outside market hours (9:30 AM - 4:00 PM)
-        if (dayOfWeek === 0 || dayOfWeek === 6 || hour < 9 || hour >= 16 || (hour === 9 && currentDate.getMinutes() < 30)) {
-          currentDate.setMinutes(currentDate.getMinutes() + incrementMinutes);
-          continue;
-        }
-      }
-      
-      // Generate realistic price movement
-      const randomChange = (Math.random() - 0.5) * volatilityMultiplier;
-      basePrice += randomChange;
-      
-      const open = basePrice;
-      const high = open + Math.random() * volatilityMultiplier;
-      const low = open - Math.random() * volatilityMultiplier;
-      const close = low + Math.random() * (high - low);
-      
-      data.push({
-        id: `mock_${symbol}_${currentDate.getTime()}`,
-        symbol,
-        date: new Date(currentDate),
-        open,
-        high,
-        low,
-        close,
-        volume: BigInt(Math.floor(Math.random() * (timeframe === '1Min' ? 100000 : 50000000) + (timeframe === '1Min' ? 10000 : 10000000))),
-        createdAt: new Date()
-      });
-      
-      basePrice = close;
-      
-      // Increment time
-      if (timeframe === '1Day') {
-        currentDate.setDate(currentDate.getDate() + 1);
-      } else {
-        currentDate.setMinutes(currentDate.getMinutes() + incrementMinutes);
-      }
-    }
-    
-    console.log(`📈 Generated ${data.length} mock ${timeframe} bars for ${symbol}`);
-    return data;
-  }
-  
-  private generateMockOptionsChain(symbol: string, expiration?: Date): OptionsChain[] {
-    const basePrice = 450; // Current SPY price
-    const chains: OptionsChain[] = [];
-    const exp = expiration || new Date(Date.now() + 5 * 24 * 60 * 60 * 1000); // 5 days from now
-    
-    // Generate strikes around current price
-    for (let i = -10; i <= 10; i++) {
-      const strike = Math.round((basePrice + i * 5) / 5) * 5; // Round to nearest $5
-      
-      // Call option
-      chains.push({
-        symbol: `${symbol}${exp.toISOString().split('T')[0]}C${strike}`,
-        expiration: exp,
-        strike,
-        side: 'CALL',
-        bid: Math.max(0.01, Math.random() * 10),
-        ask: Math.max(0.02, Math.random() * 12),
-        last: Math.random() * 11,
-        impliedVolatility: 0.15 + Math.random() * 0.3,
-        delta: strike > basePrice ? Math.random() * 0.5 : 0.5 + Math.random() * 0.5,
-        volume: Math.floor(Math.random() * 1000),
-        openInterest: Math.floor(Math.random() * 5000)
-      });
-      
-      // Put option
-      chains.push({
-        symbol: `${symbol}${exp.toISOString().split('T')[0]}P${strike}`,
-        expiration: exp,
-        strike,
-        side: 'PUT',
-        bid: Math.max(0.01, Math.random() * 10),
-        ask: Math.max(0.02, Math.random() * 12),
-        last: Math.random() * 11,
-        impliedVolatility: 0.15 + Math.random() * 0.3,
-        delta: strike < basePrice ? -Math.random() * 0.5 : -0.5 - Math.random() * 0.5,
-        volume: Math.floor(Math.random() * 1000),
-        openInterest: Math.floor(Math.random() * 5000)
-      });
-    }
-    
-    return chains;
-  }
-
   // PROFESSIONAL ALPACA OPTIONS PARSER
   private parseAlpacaOptionSnapshot(optionSymbol: string, snapshot: any): OptionsChain | null {
     try {
-      // Parse option symbol format: SPYYYMMDDCPPPPPPP (e.g., SPY241220C00450000)
-      const symbolMatch = optionSymbol.match(/^([A-Z]+)(\d{6})([CP])(\d{8})$/);
-      if (!symbolMatch) return null;
-      
-      const [, underlying, dateStr, callPut, strikeStr] = symbolMatch;
+      // Parse OCC option symbol (e.g., SPY241220C00450000, SPXW241220P05900000)
+      const contract = OptionContractId.tryParse(optionSymbol);
+      if (!contract) return null;
       
-      // Parse expiration date YYMMDD
-      const year = 2000 + parseInt(dateStr.substring(0, 2));
-      const month = parseInt(dateStr.substring(2, 4)) - 1; // JS months are 0-indexed
-      const day = parseInt(dateStr.substring(4, 6));
-      const expiration = new Date(year, month, day);
-      
-      // Parse strike price (divide by 1000)
-      const strike = parseInt(strikeStr) / 1000;
+      const expiration = OptionContractId.expirationTime(contract);
+      const strike = contract.strike;
       
       // Extract real market data from Alpaca snapshot
       const latestTrade = snapshot.latestTrade;
@@ -556,14 +358,14 @@ class AlpacaClient {
         symbol: optionSymbol,
         expiration,
         strike,
-        side: callPut === 'C' ? 'CALL' : 'PUT',
+        side: contract.side,
         bid,
         ask,
         last,
-        impliedVolatility: greeks.impliedVolatility || this.calculateImpliedVolatility(strike, expiration, callPut === 'C'),
-        delta: greeks.delta || this.calculateDelta(strike, expiration, callPut === 'C'),
-        volume: latestTrade?.s || Math.floor(Math.random() * 500),
-        openInterest: snapshot.openInterest || Math.floor(Math.random() * 2000)
+        impliedVolatility: greeks.impliedVolatility || undefined,
+        delta: greeks.delta || undefined,
+        volume: latestTrade?.s || 0,
+        openInterest: snapshot.openInterest || 0
       };
       
     } catch (error) {
@@ -572,252 +374,24 @@ class AlpacaClient {
     }
   }
 
-  // INSTITUTIONAL-GRADE SYNTHETIC OPTIONS CHAIN
+  // Seeded synthetic chain when Alpaca has no snapshots: 0-DTE plus the next session
   private generateInstitutionalOptionsChain(symbol: string, currentPrice: number, expiration?: Date): OptionsChain[] {
-    console.log(`🏛️  Generating institutional-grade options chain for ${symbol} at $${currentPrice.toFixed(2)}`);
-    
-    const institutionalChain: OptionsChain[] = [];
-    
-    // Professional expiration cycles: Weekly and monthly options  
-    const expirations = this.getRealisticExpirations(expiration);
-    
-    for (const exp of expirations) {
-      const daysToExpiry = Math.max(1, Math.ceil((exp.getTime() - Date.now()) / (1000 * 60 * 60 * 24)));
-      
-      // Professional strike spacing: $1 near money, $5 farther out
-      const strikes = this.generateProfessionalStrikes(currentPrice);
-      
-      for (const strike of strikes) {
-        const timeValue = daysToExpiry / 365;
-        const moneyness = strike / currentPrice;
-        
-        // Real volatility surface modeling
-        const impliedVol = this.calculateRealisticImpliedVolatility(moneyness, timeValue);
-        
-        // Professional Black-Scholes pricing with Greeks
-        const { callPrice, putPrice, callDelta, putDelta } = this.calculateBlackScholesWithGreeks(
-          currentPrice, strike, timeValue, impliedVol, 0.05
-        );
-        
-        // Realistic bid-ask spreads
-        const { callBid, callAsk, putBid, putAsk } = this.calculateRealisticBidAskSpreads(
-          callPrice, putPrice, moneyness, daysToExpiry
-        );
-        
-        // Professional volume and open interest
-        const { callVolume, putVolume, callOI, putOI } = this.calculateRealisticVolumeAndOI(
-          moneyness, daysToExpiry
-        );
-        
-        // CALL option
-        institutionalChain.push({
-          symbol: `${symbol}${this.formatExpiration(exp)}C${this.formatStrike(strike)}`,
-          expiration: exp,
-          strike,
-          side: 'CALL',
-          bid: callBid,
-          ask: callAsk,
-          last: callPrice,
-          impliedVolatility: impliedVol,
-          delta: callDelta,
-          volume: callVolume,
-          openInterest: callOI
-        });
-        
-        // PUT option
-        institutionalChain.push({
-          symbol: `${symbol}${this.formatExpiration(exp)}P${this.formatStrike(strike)}`,
-          expiration: exp,
-          strike,
-          side: 'PUT',
-          bid: putBid,
-          ask: putAsk,
-          last: putPrice,
-          impliedVolatility: impliedVol,
-          delta: putDelta,
-          volume: putVolume,
-          openInterest: putOI
-        });
-      }
-    }
-    
-    console.log(`✅ Generated ${institutionalChain.length} institutional-grade options contracts`);
-    return institutionalChain;
-  }
-
-  // 0-DTE STRATEGY: Same-day expiration only
-  private getRealisticExpirations(targetExpiration?: Date): Date[] {
-    const expirations: Date[] = [];
-    const now = new Date();
-    
-    if (targetExpiration) {
-      expirations.push(targetExpiration);
-      return expirations;
-    }
-    
-    // 0-DTE: Only same-day expiration for high-frequency scalping
-    const today = new Date(now);
-    today.setHours(16, 0, 0, 0); // Market close at 4 PM
-    expirations.push(today);
-    
-    // Optional: Add tomorrow for overnight positions if it's a weekday
-    const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
-    if (tomorrow.getDay() >= 1 && tomorrow.getDay() <= 5) { // Mon-Fri
-      expirations.push(tomorrow);
-    }
-    
-    return expirations.slice(0, 2); // Max 2 expirations: today + tomorrow
-  }
-
-  private generateProfessionalStrikes(currentPrice: number): number[] {
-    const strikes: number[] = [];
-    
-    // FOCUS ON TRADEABLE RANGE: Much closer to current price for realistic Bull Put Spreads
-    
-    // $1 strikes very close to money for tight spreads
-    for (let offset = -15; offset <= 10; offset += 1) {
-      strikes.push(Math.round(currentPrice + offset));
-    }
-    
-    // $2 strikes in Bull Put Spread sweet spot (5-20 points OTM)
-    for (let offset = -20; offset <= -5; offset += 2) {
-      strikes.push(Math.round(currentPrice + offset));
-    }
-    
-    // $5 strikes for wider spreads but still reasonable (20-40 points OTM)
-    for (let offset = -40; offset <= -20; offset += 5) {
-      strikes.push(Math.round(currentPrice + offset));
-    }
-    
-    // Add some calls for completeness
-    for (let offset = 10; offset <= 30; offset += 5) {
-      strikes.push(Math.round(currentPrice + offset));
-    }
-    
-    return Array.from(new Set(strikes)).sort((a, b) => a - b);
-  }
-
-  private calculateRealisticImpliedVolatility(moneyness: number, timeValue: number): number {
-    // Professional volatility smile/skew modeling
-    const baseVol = 0.20; // 20% base volatility for SPY
-    const skew = Math.pow(Math.abs(moneyness - 1), 0.5) * 0.05; // Volatility skew
-    const termStructure = Math.max(0.8, 1 - timeValue * 0.2); // Term structure effect
-    
-    return (baseVol + skew) * termStructure;
-  }
-
-  private calculateBlackScholesWithGreeks(S: number, K: number, T: number, vol: number, r: number) {
-    const d1 = (Math.log(S / K) + (r + 0.5 * vol * vol) * T) / (vol * Math.sqrt(T));
-    const d2 = d1 - vol * Math.sqrt(T);
-    
-    const Nd1 = this.normalCDF(d1);
-    const Nd2 = this.normalCDF(d2);
-    const NmD1 = this.normalCDF(-d1);
-    const NmD2 = this.normalCDF(-d2);
-    
-    const callPrice = S * Nd1 - K * Math.exp(-r * T) * Nd2;
-    const putPrice = K * Math.exp(-r * T) * NmD2 - S * NmD1;
-    
-    const callDelta = Nd1;
-    const putDelta = Nd1 - 1;
-    
-    return { callPrice, putPrice, callDelta, putDelta };
-  }
-
-  private normalCDF(x: number): number {
-    return 0.5 * (1 + this.erf(x / Math.sqrt(2)));
-  }
-
-  private erf(x: number): number {
-    // Approximation of error function
-    const a1 =  0.254829592;
-    const a2 = -0.284496736;
-    const a3 =  1.421413741;
-    const a4 = -1.453152027;
-    const a5 =  1.061405429;
-    const p  =  0.3275911;
-    
-    const sign = x >= 0 ? 1 : -1;
-    x = Math.abs(x);
-    
-    const t = 1.0 / (1.0 + p * x);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-    
-    return sign * y;
-  }
-
-  private calculateRealisticBidAskSpreads(callPrice: number, putPrice: number, moneyness: number, daysToExpiry: number) {
-    // Professional bid-ask spread modeling - ENHANCED for realistic Bull Put Spreads
-    
-    // More realistic minimum spreads - never less than $0.05 for actual trading
-    const baseSpreads = {
-      call: Math.max(0.05, callPrice * 0.03), // 3% of theoretical value, min $0.05
-      put: Math.max(0.05, putPrice * 0.03)   // 3% of theoretical value, min $0.05
-    };
-    
-    // Wider spreads for OTM and short-dated options
-    const otmMultiplier = Math.abs(moneyness - 1) > 0.05 ? 1.8 : 1.0;
-    const timeMultiplier = daysToExpiry < 7 ? 2.5 : 1.0;
-    
-    const callSpread = baseSpreads.call * otmMultiplier * timeMultiplier;
-    const putSpread = baseSpreads.put * otmMultiplier * timeMultiplier;
-    
-    // Ensure minimum realistic bid prices for trading
-    const callBid = Math.max(0.05, callPrice - callSpread / 2);
-    const putBid = Math.max(0.05, putPrice - putSpread / 2);
-    
-    return {
-      callBid,
-      callAsk: callBid + callSpread,
-      putBid, 
-      putAsk: putBid + putSpread
-    };
-  }
-
-  private calculateRealisticVolumeAndOI(moneyness: number, daysToExpiry: number) {
-    // Professional volume modeling based on moneyness and time
-    const baseVolume = Math.exp(-Math.pow(Math.abs(moneyness - 1) * 10, 2)) * 1000; // Gaussian around ATM
-    const timeDecay = Math.max(0.1, daysToExpiry / 30); // Higher volume for longer-dated
-    
-    const volume = Math.floor(baseVolume * timeDecay * (0.5 + Math.random()));
-    const openInterest = Math.floor(volume * (2 + Math.random() * 3)); // OI typically > volume
-    
-    return {
-      callVolume: volume,
-      putVolume: Math.floor(volume * 0.8), // Puts typically lower volume
-      callOI: openInterest,
-      putOI: Math.floor(openInterest * 1.2) // Puts higher OI (hedging)
-    };
-  }
+    console.log(`🏛️  Generating synthetic options chain for ${symbol} at $${currentPrice.toFixed(2)} (seed ${this.simulator.config.seed})`);
 
-  private calculateImpliedVolatility(strike: number, expiration: Date, isCall: boolean): number {
-    // Simple IV calculation (could be enhanced with Newton-Raphson)
-    const timeToExpiry = (expiration.getTime() - Date.now()) / (1000 * 60 * 60 * 24 * 365);
-    const baseVol = 0.20;
-    return baseVol + Math.random() * 0.10; // Add some randomness
-  }
-
-  private calculateDelta(strike: number, expiration: Date, isCall: boolean): number {
-    // Simplified delta calculation
-    const spotPrice = 450; // Approximate SPY price
-    const moneyness = strike / spotPrice;
-    
-    if (isCall) {
-      return Math.max(0.01, Math.min(0.99, 0.5 + (spotPrice - strike) / 100));
-    } else {
-      return Math.max(-0.99, Math.min(-0.01, -0.5 - (spotPrice - strike) / 100));
-    }
-  }
+    const today = MarketCalendar.getSession(new Date()) || MarketCalendar.nextTradingDay(new Date());
+    const expirations = expiration ? [expiration] : [today.day, MarketCalendar.nextTradingDay(today.day).day];
+    const chain = this.simulator.getOptionsChain(symbol, { spot: currentPrice, expirations });
 
-  private formatExpiration(date: Date): string {
-    const year = date.getFullYear().toString().slice(-2);
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const day = date.getDate().toString().padStart(2, '0');
-    return year + month + day;
+    console.log(`✅ Generated ${chain.length} synthetic options contracts`);
+    return chain;
   }
 
-  private formatStrike(strike: number): string {
-    return (strike * 1000).toString().padStart(8, '0');
+  // Feed IV where the snapshot has one, else the IV its mid implies; deltas from those IVs, in one batch on the calendar clock
+  private priceChainFromQuotes(chain: OptionsChain[], underlyingPrice: number): ChainGreeks {
+    return GreeksEngine.calculateChainGreeks(chain, underlyingPrice, new Date(), {
+      impliedVolatilities: chain.map(option => option.impliedVolatility || NaN),
+      calendarTime: true
+    });
   }
 }
 
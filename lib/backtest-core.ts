@@ -0,0 +1,851 @@
+/**
+ * BACKTEST CORE
+ * One event-driven simulation loop shared by every backtest engine
+ *
+ * Bars from every underlying are merged into one timeline and replayed as events:
+ * BAR → QUOTE (the chain the bar sees) → SIGNAL (from the strategy) → ORDER (after
+ * cost and risk review) → FILL, plus EXPIRATION when a position's legs expire and
+ * SESSION_CLOSE at each New York session boundary. Engines differ only in the strategy
+ * they plug in and in the cost model, risk manager and data sources they configure;
+ * fills, marks, settlement, P&L attribution and performance are computed here once.
+ *
+ * The strategy is a TradingStrategy driven through a StrategyHost, exactly as the paper
+ * and dashboard engines drive it: onSessionStart and onBar on BAR, onPositionUpdate and
+ * onQuote on QUOTE, onFill on FILL, and onSessionEnd once a SESSION_CLOSE has settled.
+ */
+
+import { BacktestParams, BacktestTrade, MarketData, OptionsChain, PerformanceMetrics } from './types';
+import { MarketDataProvider, BarTimeframe } from './market-data-provider';
+import { createMarketDataProvider } from './market-data-provider-factory';
+import { OptionsSnapshotStore } from './options-snapshot-store';
+import { DataQualityValidator, DataQualityReport, BarQualityResult, ChainQualityResult } from './data-quality-validator';
+import { SymbolUniverse, UnderlyingSpec } from './symbol-universe';
+import { GreeksEngine } from './greeks-engine';
+import { VolatilitySurface } from './volatility-surface';
+import { ScenarioLeg } from './scenario-engine';
+import { MarketCalendar } from './market-calendar';
+import { PortfolioGreeksAggregator, PortfolioGreeks } from './portfolio-greeks';
+import { PnLAttributionEngine, PnLAttributionReport, AttributionExit } from './pnl-attribution';
+import { CostModel, TransactionCostModel } from './backtest-cost-models';
+import { RiskManager } from './backtest-risk-managers';
+import {
+  TradingStrategy,
+  TradingSignal,
+  OpenSignal,
+  StrategyFill,
+  StrategyPosition,
+  StrategyParameterValues,
+  HostedBarContext,
+  StrategyHost
+} from './trading-strategy';
+import { StrategyPositions } from './strategy-positions';
+
+/**
+ * Which bars were priced off recorded point-in-time quotes versus the data
+ * provider's chain (synthetic, or a current chain standing in for history)
+ */
+export interface QuoteCoverage {
+  realQuoteBars: number;
+  syntheticQuoteBars: number;
+  realQuoteRatio: number;
+  syntheticBarDates: Date[];
+}
+
+export type BacktestEventType = 'BAR' | 'QUOTE' | 'SIGNAL' | 'ORDER' | 'FILL' | 'EXPIRATION' | 'SESSION_CLOSE';
+
+export interface BarEvent {
+  type: 'BAR';
+  timestamp: Date;
+  underlying: string;
+  bar: MarketData;
+  index: number; // Position of the bar in its underlying's series
+}
+
+export interface QuoteEvent {
+  type: 'QUOTE';
+  timestamp: Date;
+  underlying: string;
+  chain: OptionsChain[];
+  source: 'SNAPSHOT' | 'PROVIDER';
+}
+
+export interface SignalEvent {
+  type: 'SIGNAL';
+  timestamp: Date;
+  underlying: string;
+  signal: TradingSignal;
+}
+
+export interface OrderEvent {
+  type: 'ORDER';
+  timestamp: Date;
+  underlying: string;
+  order: BacktestOrder;
+}
+
+export interface FillEvent {
+  type: 'FILL';
+  timestamp: Date;
+  underlying: string;
+  order: BacktestOrder;
+  fill: StrategyFill;
+}
+
+export interface ExpirationEvent {
+  type: 'EXPIRATION';
+  timestamp: Date;
+  underlying: string;
+  position: StrategyPosition;
+  settlementPrice: number;
+}
+
+export interface SessionCloseEvent {
+  type: 'SESSION_CLOSE';
+  timestamp: Date;
+  day: string; // YYYY-MM-DD in New York
+}
+
+export type BacktestEvent = BarEvent | QuoteEvent | SignalEvent | OrderEvent | FillEvent | ExpirationEvent | SessionCloseEvent;
+
+export type BacktestEventListener = (event: BacktestEvent) => void;
+
+export interface BacktestOrder {
+  id: string;
+  timestamp: Date;
+  action: 'OPEN' | 'CLOSE';
+  underlying: string;
+  label: BacktestTrade['side'];
+  legs: ScenarioLeg[];
+  quantity: number;
+  reason: string;
+  positionId?: string; // Position being closed
+  signal: TradingSignal;
+  status: 'PENDING' | 'FILLED' | 'REJECTED';
+  rejectReason?: string;
+}
+
+export type QuoteProvider = (underlying: string, asOf: Date, underlyingPrice: number) => OptionsChain[] | Promise<OptionsChain[]>;
+
+export interface BacktestCoreConfig {
+  timeframe: BarTimeframe | 'AUTO'; // AUTO picks finer bars for shorter ranges
+  regularHoursOnly: boolean; // Skip intraday bars outside the regular session; daily bars are always kept
+  quoteRefresh: 'DAILY' | 'BAR'; // How often provider chains are refetched
+  quoteProvider: QuoteProvider | null; // Replaces the data provider's chains
+  flattenAtSessionClose: boolean;
+  costModel: CostModel;
+  riskManager: RiskManager | null;
+  dataProvider: MarketDataProvider | null; // createMarketDataProvider() when null
+  snapshotStore: OptionsSnapshotStore | null; // Recorded quotes win over provider chains
+  qualityValidator: DataQualityValidator | null;
+  progressEvery: number; // Steps between progress logs
+  riskSummaryEvery: number; // Steps between portfolio risk logs
+}
+
+export interface BacktestCoreResult {
+  trades: BacktestTrade[];
+  performance: PerformanceMetrics;
+  equityCurve: { date: string; value: number }[]; // One point per bar timestamp (ISO), after every underlying at that time
+  quoteCoverage: QuoteCoverage;
+  attribution: PnLAttributionReport; // Closed trades' P&L by Greek, per strategy and entry regime
+  dataQuality?: DataQualityReport[]; // One per underlying, present when a validator was configured
+  rejectedOrders: BacktestOrder[];
+  eventCounts: Record<BacktestEventType, number>;
+  timeframe: BarTimeframe;
+  strategyParameters: StrategyParameterValues; // Declared defaults with the run's overrides applied
+}
+
+interface CoreRun {
+  host: StrategyHost;
+  params: BacktestParams;
+  dataProvider: MarketDataProvider;
+  series: Map<string, MarketData[]>;
+  barIndex: Map<string, number>;
+  prices: Record<string, number>;
+  chainCache: Map<string, { day: string; chain: OptionsChain[] }>;
+  barQuality: Map<string, BarQualityResult>;
+  chainQuality: Map<string, ChainQualityResult[]>;
+  preloadedQuotes: Map<MarketData, QuoteEvent>; // Checked before the run when the validator refuses bad data
+  positions: StrategyPosition[];
+  trades: BacktestTrade[];
+  rejectedOrders: BacktestOrder[];
+  quoteCoverage: QuoteCoverage;
+  eventCounts: Record<BacktestEventType, number>;
+  queue: BacktestEvent[];
+  realizedPnL: number;
+  sessionRealizedPnL: number;
+  now: Date;
+  sequence: number;
+}
+
+export class BacktestCore {
+  readonly config: BacktestCoreConfig;
+  private listeners: BacktestEventListener[] = [];
+
+  private static readonly portfolioGreeks = new PortfolioGreeksAggregator();
+
+  private static readonly DEFAULT_CONFIG: BacktestCoreConfig = {
+    timeframe: 'AUTO',
+    regularHoursOnly: false,
+    quoteRefresh: 'DAILY',
+    quoteProvider: null,
+    flattenAtSessionClose: false,
+    costModel: new TransactionCostModel(),
+    riskManager: null,
+    dataProvider: null,
+    snapshotStore: null,
+    qualityValidator: null,
+    progressEvery: 25,
+    riskSummaryEvery: 50
+  };
+
+  constructor(config: Partial<BacktestCoreConfig> = {}) {
+    this.config = { ...BacktestCore.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Subscribe to every event as it is processed; returns the unsubscribe function
+   */
+  onEvent(listener: BacktestEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Bar size for a date range: 15-minute bars up to 10 days, hourly up to 30, daily beyond
+   */
+  static timeframeFor(startDate: Date, endDate: Date): BarTimeframe {
+    const days = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+    return days <= 10 ? '15Min' : days <= 30 ? '1Hour' : '1Day';
+  }
+
+  /**
+   * Backtest a strategy; `parameterValues` override the defaults it declares
+   */
+  async run(strategy: TradingStrategy, params: BacktestParams, parameterValues: StrategyParameterValues = {}): Promise<BacktestCoreResult> {
+    const universe = new SymbolUniverse(params.symbols && params.symbols.length > 0 ? params.symbols : ['SPY']);
+    const timeframe = this.config.timeframe === 'AUTO' ? BacktestCore.timeframeFor(params.startDate, params.endDate) : this.config.timeframe;
+    const dataProvider = this.config.dataProvider || createMarketDataProvider();
+    const { qualityValidator, riskManager } = this.config;
+
+    console.log(`📊 Starting backtest: ${strategy.name} on ${universe.symbols.join(', ')} from ${params.startDate.toDateString()} to ${params.endDate.toDateString()}`);
+    console.log(`⚡ Using ${timeframe} bars (${dataProvider.name} data), ${this.config.costModel.name} fills${riskManager ? `, ${riskManager.name} risk` : ''}`);
+
+    const run: CoreRun = {
+      host: new StrategyHost(strategy, 'BACKTEST', parameterValues),
+      params,
+      dataProvider,
+      series: new Map(),
+      barIndex: new Map(),
+      prices: {},
+      chainCache: new Map(),
+      barQuality: new Map(),
+      chainQuality: new Map(),
+      preloadedQuotes: new Map(),
+      positions: [],
+      trades: [],
+      rejectedOrders: [],
+      quoteCoverage: { realQuoteBars: 0, syntheticQuoteBars: 0, realQuoteRatio: 0, syntheticBarDates: [] },
+      eventCounts: { BAR: 0, QUOTE: 0, SIGNAL: 0, ORDER: 0, FILL: 0, EXPIRATION: 0, SESSION_CLOSE: 0 },
+      queue: [],
+      realizedPnL: 0,
+      sessionRealizedPnL: 0,
+      now: params.startDate,
+      sequence: 0
+    };
+
+    for (const symbol of universe.symbols) {
+      const rawBars = await dataProvider.getMarketData(symbol, params.startDate, params.endDate, timeframe);
+
+      // Validate (and repair, per the validator's policy) before anything trades on the bars
+      const quality = qualityValidator?.checkBars(symbol, rawBars, timeframe);
+      if (qualityValidator && quality) {
+        const barReport = qualityValidator.buildReport(symbol, timeframe, quality);
+        console.log(`🩺 ${symbol} bar data quality: ${DataQualityValidator.summarize(barReport)}`);
+        qualityValidator.enforce(barReport);
+        run.barQuality.set(symbol, quality);
+        run.chainQuality.set(symbol, []);
+      }
+      const bars = quality ? quality.bars : rawBars;
+
+      if (bars.length === 0 || bars.length < strategy.warmupBars) {
+        throw new Error(`Insufficient historical data for backtesting ${symbol}`);
+      }
+      run.series.set(symbol, bars);
+    }
+
+    // One time-ordered pass over every underlying's bars; each warms up on its own first bars
+    const timeline = universe.symbols
+      .flatMap(symbol => run.series.get(symbol)!.map((bar, index) => ({ symbol, index, time: bar.date.getTime() })).slice(strategy.warmupBars))
+      .sort((a, b) => a.time - b.time);
+
+    // A refusing validator has to see every quote the run will use before the first bar trades
+    if (qualityValidator && qualityValidator.getConfig().enforcement === 'refuse') {
+      console.log(`🩺 Checking quotes for ${timeline.length} bars before the run...`);
+      for (const { symbol, index } of timeline) {
+        const bar = run.series.get(symbol)![index];
+        if (!this.skipsBar(bar, timeframe)) {
+          run.preloadedQuotes.set(bar, await this.loadQuote(run, symbol, bar));
+        }
+      }
+      for (const symbol of universe.symbols) {
+        qualityValidator.enforce(qualityValidator.buildReport(symbol, timeframe, run.barQuality.get(symbol)!, run.chainQuality.get(symbol) || []));
+      }
+    }
+
+    console.log(`📈 Processing ${timeline.length} bars across ${universe.symbols.length} underlying(s)...`);
+
+    const equityCurve: { date: string; value: number }[] = [];
+    let peakEquity = params.initialCapital;
+    let maxDrawdown = 0;
+    let currentDay: string | null = null;
+
+    for (let step = 0; step < timeline.length; step++) {
+      const { symbol, index } = timeline[step];
+      const bar = run.series.get(symbol)![index];
+      if (this.skipsBar(bar, timeframe)) {
+        continue;
+      }
+
+      const day = MarketCalendar.toEastern(bar.date).day;
+      if (currentDay !== null && day !== currentDay) {
+        await this.closeSession(run, currentDay);
+      }
+      currentDay = day;
+
+      if (step % this.config.progressEvery === 0) {
+        const progress = Math.round((step / timeline.length) * 100);
+        console.log(`🔄 Backtest progress: ${progress}% (${step}/${timeline.length} bars) - ${bar.date.toDateString()}`);
+      }
+
+      await this.dispatch(run, { type: 'BAR', timestamp: bar.date, underlying: symbol, bar, index });
+
+      const equity = this.equity(run);
+      // Underlyings sharing a timestamp share one point, marked after the last of them
+      const point = { date: bar.date.toISOString(), value: equity };
+      if (equityCurve.length > 0 && equityCurve[equityCurve.length - 1].date === point.date) {
+        equityCurve[equityCurve.length - 1] = point;
+      } else {
+        equityCurve.push(point);
+      }
+      if (equity > peakEquity) {
+        peakEquity = equity;
+      } else if (peakEquity > 0) {
+        maxDrawdown = Math.max(maxDrawdown, (peakEquity - equity) / peakEquity);
+      }
+
+      if (step % this.config.riskSummaryEvery === 0 && run.positions.length > 0) {
+        this.logRiskSummary(run);
+      }
+    }
+
+    // The last session only closes inside the backtest if its bell rang before the end date
+    if (currentDay !== null) {
+      const session = MarketCalendar.getSession(currentDay);
+      if (session && session.close.getTime() <= params.endDate.getTime()) {
+        await this.closeSession(run, currentDay);
+      }
+    }
+
+    // Whatever is still open is closed at its last quotes
+    for (const position of [...run.positions]) {
+      await this.dispatch(run, {
+        type: 'SIGNAL',
+        timestamp: run.now,
+        underlying: position.underlying,
+        signal: { action: 'CLOSE', positionId: position.id, reason: 'END_OF_DATA' }
+      });
+    }
+
+    const performance = BacktestCore.calculatePerformance(run.trades, params.initialCapital, maxDrawdown);
+    console.log(`✅ ${strategy.name} completed: ${run.trades.length} trades, ${performance.winRate.toFixed(1)}% win rate, ${performance.totalReturnPercent.toFixed(2)}% total return`);
+    if (run.rejectedOrders.length > 0) {
+      console.log(`🚫 ${run.rejectedOrders.length} orders rejected by risk review`);
+    }
+    console.log(`🧾 Events: ${Object.entries(run.eventCounts).map(([type, count]) => `${type}=${count}`).join(' ')}`);
+
+    const quoteCoverage = run.quoteCoverage;
+    const quotedBars = quoteCoverage.realQuoteBars + quoteCoverage.syntheticQuoteBars;
+    quoteCoverage.realQuoteRatio = quotedBars > 0 ? quoteCoverage.realQuoteBars / quotedBars : 0;
+    console.log(`📸 Quote coverage: ${quoteCoverage.realQuoteBars} bars with recorded quotes, ${quoteCoverage.syntheticQuoteBars} with provider/synthetic chains (${(quoteCoverage.realQuoteRatio * 100).toFixed(1)}% real)`);
+
+    const attribution = PnLAttributionEngine.summarize(run.trades);
+    console.log(`🧮 P&L attribution: ${PnLAttributionEngine.formatSummary(attribution.total)}`);
+    Object.entries(attribution.byStrategy).forEach(([side, summary]) => console.log(`   ${side}: ${PnLAttributionEngine.formatSummary(summary)}`));
+    Object.entries(attribution.byRegime).forEach(([regime, summary]) => console.log(`   ${regime} regime: ${PnLAttributionEngine.formatSummary(summary)}`));
+
+    let dataQuality: DataQualityReport[] | undefined;
+    if (qualityValidator) {
+      dataQuality = universe.symbols.map(symbol => {
+        const report = qualityValidator.buildReport(symbol, timeframe, run.barQuality.get(symbol)!, run.chainQuality.get(symbol) || []);
+        console.log(`🩺 ${symbol} data quality: ${DataQualityValidator.summarize(report)}`);
+        report.failures.forEach(failure => console.log(`   ⚠️ ${failure}`));
+        return report;
+      });
+      dataQuality.forEach(report => qualityValidator.enforce(report));
+    }
+
+    return {
+      trades: run.trades,
+      performance,
+      equityCurve,
+      quoteCoverage,
+      attribution,
+      dataQuality,
+      rejectedOrders: run.rejectedOrders,
+      eventCounts: run.eventCounts,
+      timeframe,
+      strategyParameters: run.host.params
+    };
+  }
+
+  static calculatePerformance(
+    trades: BacktestTrade[],
+    initialCapital: number,
+    maxDrawdown: number // Fraction of peak equity
+  ): PerformanceMetrics {
+
+    if (trades.length === 0) {
+      return {
+        totalReturn: 0,
+        totalReturnPercent: 0,
+        totalTrades: 0,
+        winningTrades: 0,
+        losingTrades: 0,
+        winRate: 0,
+        averageWin: 0,
+        averageLoss: 0,
+        profitFactor: 0,
+        maxDrawdown: maxDrawdown * 100,
+        sharpeRatio: 0,
+        calmarRatio: 0,
+        averageTradeLength: 0
+      };
+    }
+
+    const totalPnL = trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+    const winningTrades = trades.filter(trade => (trade.pnl || 0) > 0);
+    const losingTrades = trades.filter(trade => (trade.pnl || 0) <= 0);
+
+    const totalWins = winningTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+    const totalLosses = Math.abs(losingTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0));
+
+    const averageTradeLength = trades.reduce((sum, trade) => {
+      const entryDate = new Date(trade.entryDate);
+      const exitDate = new Date(trade.exitDate || trade.entryDate);
+      return sum + (exitDate.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24);
+    }, 0) / trades.length;
+
+    // Simple approximation for Sharpe ratio (would need risk-free rate for accuracy)
+    const returns = trades.map(trade => (trade.pnlPercent || 0) / 100);
+    const avgReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
+    const returnStdDev = Math.sqrt(
+      returns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / returns.length
+    );
+
+    // Identical returns leave float noise in the spread, not variance; that is no Sharpe, not a huge one
+    const sharpeRatio = returns.length > 1 && returnStdDev > 1e-9 ? avgReturn / returnStdDev : 0;
+    const calmarRatio = maxDrawdown > 0 ? (totalPnL / initialCapital) / maxDrawdown : 0;
+
+    return {
+      totalReturn: totalPnL,
+      totalReturnPercent: (totalPnL / initialCapital) * 100,
+      totalTrades: trades.length,
+      winningTrades: winningTrades.length,
+      losingTrades: losingTrades.length,
+      winRate: (winningTrades.length / trades.length) * 100,
+      averageWin: winningTrades.length > 0 ? totalWins / winningTrades.length : 0,
+      averageLoss: losingTrades.length > 0 ? totalLosses / losingTrades.length : 0,
+      profitFactor: totalLosses > 0 ? totalWins / totalLosses : 0,
+      maxDrawdown: maxDrawdown * 100,
+      sharpeRatio,
+      calmarRatio,
+      averageTradeLength
+    };
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  /**
+   * Process an event and everything it triggers, in order, before returning
+   */
+  private async dispatch(run: CoreRun, event: BacktestEvent): Promise<void> {
+    run.queue.push(event);
+    while (run.queue.length > 0) {
+      const next = run.queue.shift()!;
+      run.eventCounts[next.type]++;
+      if (next.timestamp.getTime() > run.now.getTime()) {
+        run.now = next.timestamp;
+      }
+
+      switch (next.type) {
+        case 'BAR': await this.handleBar(run, next); break;
+        case 'QUOTE': await this.handleQuote(run, next); break;
+        case 'SIGNAL': this.handleSignal(run, next); break;
+        case 'ORDER': this.handleOrder(run, next); break;
+        case 'FILL': this.handleFill(run, next); break;
+        case 'EXPIRATION': this.handleExpiration(run, next); break;
+        case 'SESSION_CLOSE': this.handleSessionClose(run, next); break;
+      }
+
+      this.listeners.forEach(listener => listener(next));
+    }
+  }
+
+  private async handleBar(run: CoreRun, event: BarEvent): Promise<void> {
+    const { underlying, bar } = event;
+    run.prices[underlying] = bar.close;
+    run.barIndex.set(underlying, event.index);
+    await run.host.bar(this.barContext(run, underlying, bar.date));
+
+    const quote = run.preloadedQuotes.get(bar) || await this.loadQuote(run, underlying, bar);
+    run.preloadedQuotes.delete(bar);
+    run.queue.push(quote);
+  }
+
+  /**
+   * The chain a bar trades against, counted for coverage and checked by the validator
+   */
+  private async loadQuote(run: CoreRun, underlying: string, bar: MarketData): Promise<QuoteEvent> {
+    // Prefer recorded point-in-time quotes; otherwise fall back to the provider's chain
+    let chain: OptionsChain[];
+    let snapshotTime: Date | undefined;
+    const snapshotChain = this.config.snapshotStore?.getChainAsOf(underlying, bar.date, bar.date);
+    if (snapshotChain) {
+      chain = snapshotChain;
+      snapshotTime = this.config.snapshotStore?.getSnapshotAsOf(underlying, bar.date)?.timestamp;
+      run.quoteCoverage.realQuoteBars++;
+    } else {
+      const day = MarketCalendar.toEastern(bar.date).day;
+      const cached = run.chainCache.get(underlying);
+      if (this.config.quoteRefresh === 'BAR' || !cached || cached.day !== day) {
+        const fetched = this.config.quoteProvider
+          ? await this.config.quoteProvider(underlying, bar.date, bar.close)
+          : await run.dataProvider.getOptionsChain(underlying, bar.date);
+        run.chainCache.set(underlying, { day, chain: fetched });
+        if (this.config.quoteRefresh === 'DAILY') {
+          console.log(`🔥 0-DTE: Refreshed ${underlying} options chain for ${day}: ${fetched.length} contracts`);
+        }
+      }
+      chain = run.chainCache.get(underlying)!.chain;
+      run.quoteCoverage.syntheticQuoteBars++;
+      run.quoteCoverage.syntheticBarDates.push(bar.date);
+    }
+
+    const chainQuality = run.chainQuality.get(underlying);
+    if (this.config.qualityValidator && chainQuality) {
+      const previousChain = chainQuality.length > 0 ? chainQuality[chainQuality.length - 1].chain : undefined;
+      // Only recorded quotes are checked against spot; a daily provider chain goes stale intraday
+      const underlyingPrice = snapshotChain ? bar.close : undefined;
+      const checked = this.config.qualityValidator.checkOptionsChain(underlying, chain, bar.date, { snapshotTime, previousChain, underlyingPrice });
+      chainQuality.push(checked);
+      chain = checked.chain;
+    }
+
+    return { type: 'QUOTE', timestamp: bar.date, underlying, chain, source: snapshotChain ? 'SNAPSHOT' : 'PROVIDER' };
+  }
+
+  private skipsBar(bar: MarketData, timeframe: BarTimeframe): boolean {
+    // A daily bar's timestamp is a label for the session, not a time of day
+    return this.config.regularHoursOnly && timeframe !== '1Day' && !MarketCalendar.isMarketOpen(bar.date);
+  }
+
+  private async handleQuote(run: CoreRun, event: QuoteEvent): Promise<void> {
+    const { underlying, chain, timestamp } = event;
+    const price = run.prices[underlying];
+    let surface: VolatilitySurface | undefined;
+    const legSurface = () => surface || (surface = VolatilitySurface.fromChain(chain, price, timestamp));
+
+    for (const position of run.positions.filter(open => open.underlying === underlying)) {
+      if (position.expiration.getTime() <= timestamp.getTime()) {
+        run.queue.push({ type: 'EXPIRATION', timestamp, underlying, position, settlementPrice: price });
+      } else {
+        StrategyPositions.mark(position, chain, legSurface, price, timestamp);
+      }
+    }
+
+    const signals = await run.host.quote({ ...this.barContext(run, underlying, timestamp), chain });
+    for (const signal of signals) {
+      const target = signal.action === 'OPEN' && signal.underlying ? signal.underlying : underlying;
+      run.queue.push({ type: 'SIGNAL', timestamp, underlying: target, signal });
+    }
+  }
+
+  private handleSignal(run: CoreRun, event: SignalEvent): void {
+    const { signal, timestamp } = event;
+    const id = `${run.params.strategyId}-O${++run.sequence}`;
+
+    if (signal.action === 'CLOSE') {
+      const position = run.positions.find(open => open.id === signal.positionId);
+      if (!position) {
+        return; // Already closed or settled earlier in the bar
+      }
+      run.queue.push({
+        type: 'ORDER',
+        timestamp,
+        underlying: position.underlying,
+        order: {
+          id, timestamp, action: 'CLOSE', underlying: position.underlying, label: position.label, legs: position.legs,
+          quantity: position.quantity, reason: signal.reason, positionId: position.id, signal, status: 'PENDING'
+        }
+      });
+      return;
+    }
+
+    run.queue.push({
+      type: 'ORDER',
+      timestamp,
+      underlying: event.underlying,
+      order: {
+        id, timestamp, action: 'OPEN', underlying: event.underlying, label: signal.label, legs: signal.legs,
+        quantity: Math.floor(signal.quantity), reason: signal.reason, signal, status: 'PENDING'
+      }
+    });
+  }
+
+  private handleOrder(run: CoreRun, event: OrderEvent): void {
+    const { order, timestamp } = event;
+
+    if (order.action === 'CLOSE') {
+      const position = run.positions.find(open => open.id === order.positionId);
+      if (!position) {
+        order.status = 'REJECTED';
+        order.rejectReason = 'Position no longer open';
+        return;
+      }
+      // Closing reverses every leg at its latest quote
+      const estimate = this.config.costModel.fill(StrategyPositions.closingLegs(position));
+      order.status = 'FILLED';
+      run.queue.push({
+        type: 'FILL',
+        timestamp,
+        underlying: order.underlying,
+        order,
+        fill: StrategyPositions.buildFill(order, position.id, position.credit, position.legQuotes, estimate, position.quantity)
+      });
+      return;
+    }
+
+    const reject = (reason: string) => {
+      order.status = 'REJECTED';
+      order.rejectReason = reason;
+      run.rejectedOrders.push(order);
+      console.log(`🚫 ${order.label} order rejected: ${reason}`);
+    };
+
+    if (order.legs.length === 0 || order.quantity < 1) {
+      reject('Nothing to open');
+      return;
+    }
+
+    const quotes = order.legs.map(leg => leg.option);
+    const credit = StrategyPositions.isCredit(order.legs);
+    const estimate = (quantity: number) => this.config.costModel.fill(StrategyPositions.openingLegs(order.legs, quantity));
+
+    let quantity = order.quantity;
+    let costs = estimate(quantity);
+    const riskManager = this.config.riskManager;
+    if (riskManager) {
+      const price = run.prices[order.underlying];
+      const decision = riskManager.review({
+        timestamp,
+        order,
+        quantity,
+        underlyingPrice: price,
+        multiplier: SymbolUniverse.getSpec(order.underlying).contractMultiplier,
+        estimate: {
+          price: StrategyPositions.quotePrice(credit, order.legs, costs.prices),
+          mark: StrategyPositions.quotePrice(credit, order.legs, quotes.map(StrategyPositions.mid)),
+          fees: costs.fees / quantity,
+          credit
+        },
+        unitGreeks: GreeksEngine.calculatePortfolioGreeksAt(order.legs, price, timestamp),
+        balance: run.params.initialCapital + run.realizedPnL,
+        equity: this.equity(run),
+        sessionRealizedPnL: run.sessionRealizedPnL,
+        positions: run.positions,
+        exposure: this.exposure(run, timestamp)
+      });
+      if (decision.warnings.length > 0) {
+        console.log(`⚠️  Risk warnings: ${decision.warnings.join(', ')}`);
+      }
+      if (!decision.approved || decision.quantity < 1) {
+        reject(decision.reason || `Rejected by ${riskManager.name} risk review`);
+        return;
+      }
+      if (decision.quantity !== quantity) {
+        quantity = decision.quantity;
+        costs = estimate(quantity);
+      }
+    }
+
+    order.quantity = quantity;
+    order.status = 'FILLED';
+    run.queue.push({
+      type: 'FILL',
+      timestamp,
+      underlying: order.underlying,
+      order,
+      fill: StrategyPositions.buildFill(order, `${run.params.strategyId}-P${++run.sequence}`, credit, quotes, costs, quantity)
+    });
+  }
+
+  private handleFill(run: CoreRun, event: FillEvent): void {
+    const { fill, order } = event;
+
+    if (fill.action === 'OPEN') {
+      const position = StrategyPositions.open(order.underlying, order.signal as OpenSignal, fill, run.prices[order.underlying]);
+      run.positions.push(position);
+      console.log(`📈 Opened ${position.label} ${position.symbol} ×${position.quantity} @ $${position.entryPrice.toFixed(2)} ${position.credit ? 'credit' : 'debit'} (${position.reason})`);
+      run.host.fill(fill, position);
+      return;
+    }
+
+    const position = run.positions.find(open => open.id === fill.positionId);
+    if (!position) {
+      return;
+    }
+    run.host.fill(fill, position);
+    this.closePosition(run, position, fill.price, fill.mark, fill.fees, order.reason, fill.timestamp);
+  }
+
+  private handleExpiration(run: CoreRun, event: ExpirationEvent): void {
+    const { position, settlementPrice, timestamp } = event;
+    if (!run.positions.includes(position)) {
+      return;
+    }
+
+    // Index options (SPX, XSP) settle to cash; ETF options are assigned into shares. Either way
+    // each leg is worth its intrinsic value
+    const settlement = SymbolUniverse.getSpec(position.underlying).settlement === 'CASH' ? 'cash-settled' : 'assigned';
+    const trade = this.closePosition(run, position, StrategyPositions.settlementPrice(position, settlementPrice), undefined, 0, 'EXPIRATION', timestamp,
+      { underlyingPrice: settlementPrice, timeToExpiration: 0 });
+    console.log(`💀 ${position.label} expired (${settlement}): ${position.underlying} at $${settlementPrice.toFixed(2)}, P&L: $${(trade.pnl || 0).toFixed(0)}`);
+  }
+
+  private handleSessionClose(run: CoreRun, event: SessionCloseEvent): void {
+    for (const position of run.positions) {
+      if (position.expiration.getTime() <= event.timestamp.getTime()) {
+        run.queue.push({
+          type: 'EXPIRATION',
+          timestamp: event.timestamp,
+          underlying: position.underlying,
+          position,
+          settlementPrice: run.prices[position.underlying]
+        });
+      } else if (this.config.flattenAtSessionClose) {
+        run.queue.push({
+          type: 'SIGNAL',
+          timestamp: event.timestamp,
+          underlying: position.underlying,
+          signal: { action: 'CLOSE', positionId: position.id, reason: 'SESSION_CLOSE' }
+        });
+      }
+    }
+  }
+
+  /**
+   * Ring the session's bell, settle what expires with it, then end the strategy's session
+   */
+  private async closeSession(run: CoreRun, day: string): Promise<void> {
+    const event = this.sessionCloseEvent(run, day);
+    await this.dispatch(run, event);
+    await run.host.endSession(event.timestamp, run.params.initialCapital + run.realizedPnL);
+    run.sessionRealizedPnL = 0;
+  }
+
+  private sessionCloseEvent(run: CoreRun, day: string): SessionCloseEvent {
+    const session = MarketCalendar.getSession(day);
+    const close = session && session.close.getTime() > run.now.getTime() ? session.close : run.now;
+    return { type: 'SESSION_CLOSE', timestamp: close, day };
+  }
+
+  /**
+   * Record the closing trade. Without an exit mark (settlement) the exit price counts as the mark
+   */
+  private closePosition(
+    run: CoreRun,
+    position: StrategyPosition,
+    exitPrice: number,
+    exitMark: number | undefined,
+    exitFees: number,
+    reason: string,
+    timestamp: Date,
+    exit?: AttributionExit
+  ): BacktestTrade {
+    const trade = StrategyPositions.closeTrade(position, {
+      tradeId: `${run.params.strategyId}-T${run.trades.length + 1}`,
+      bookId: run.params.strategyId,
+      exitPrice,
+      exitMark,
+      exitFees,
+      reason,
+      timestamp,
+      underlyingPrice: run.prices[position.underlying],
+      attribution: exit
+    });
+    const pnl = trade.pnl || 0;
+
+    run.trades.push(trade);
+    run.positions = run.positions.filter(open => open !== position);
+    run.realizedPnL += pnl;
+    run.sessionRealizedPnL += pnl;
+    console.log(`📉 Closed ${position.label} ${position.symbol} (${reason}): P&L $${pnl.toFixed(0)}`);
+    run.host.positionClosed(position, trade);
+    return trade;
+  }
+
+  // What the strategy sees of one underlying at `timestamp`; positions expiring by then are settling
+  private barContext(run: CoreRun, underlying: string, timestamp: Date): HostedBarContext {
+    const series = run.series.get(underlying)!;
+    const index = run.barIndex.get(underlying)!;
+    const live = (position: StrategyPosition) => position.expiration.getTime() > timestamp.getTime();
+    return {
+      timestamp,
+      underlying,
+      spec: SymbolUniverse.getSpec(underlying),
+      bar: series[index],
+      history: series.slice(0, index + 1),
+      positions: run.positions.filter(position => position.underlying === underlying && live(position)),
+      allPositions: run.positions.filter(live),
+      balance: run.params.initialCapital + run.realizedPnL,
+      equity: this.equity(run),
+      sessionRealizedPnL: run.sessionRealizedPnL,
+      prices: { ...run.prices }
+    };
+  }
+
+  private equity(run: CoreRun): number {
+    return run.params.initialCapital + run.realizedPnL + run.positions.reduce((sum, position) => sum + position.unrealizedPnL, 0);
+  }
+
+  // Raw Greeks don't add across underlyings; dollar and beta-weighted Greeks do
+  private exposure(run: CoreRun, asOf: Date): PortfolioGreeks {
+    return BacktestCore.portfolioGreeks.aggregate(
+      run.positions.map(position => ({
+        underlying: position.underlying,
+        contracts: position.quantity,
+        delta: position.currentGreeks.delta,
+        gamma: position.currentGreeks.gamma,
+        theta: position.currentGreeks.theta,
+        vega: position.currentGreeks.vega,
+        premium: position.entryPrice
+      })),
+      run.prices,
+      asOf
+    );
+  }
+
+  private logRiskSummary(run: CoreRun): void {
+    const exposure = this.exposure(run, run.now);
+    console.log(`📊 PORTFOLIO RISK SUMMARY (${run.now.toDateString()}):`);
+    console.log(`   Positions: ${run.positions.length}, Total Greeks: β-weighted $Δ=${exposure.total.betaWeightedDelta.toFixed(0)}/1% $Θ=${exposure.total.dollarTheta.toFixed(0)}/day $𝜈=${exposure.total.dollarVega.toFixed(0)}, Notional: $${exposure.total.notional.toFixed(0)}`);
+    console.log(`   ${PortfolioGreeksAggregator.formatSummary(exposure)}`);
+    Object.values(exposure.byUnderlying).forEach(underlying => {
+      console.log(`   ${underlying.underlying} (β ${underlying.beta.toFixed(2)}): ${underlying.positions} positions, $Δ=${underlying.dollarDelta.toFixed(0)}/1% $Γ=${underlying.dollarGamma.toFixed(0)}/1% Θ=$${underlying.thetaPerHour.toFixed(0)}/hr $𝜈=${underlying.dollarVega.toFixed(0)}`);
+    });
+  }
+}
+
+export default BacktestCore;
@@ -0,0 +1,91 @@
+/**
+ * BACKTEST COST MODELS
+ * How the backtest core turns an order's leg quotes into executed prices and fees
+ *
+ * A cost model sees every leg of an order at once, so multi-leg spreads are filled
+ * the way they would be worked: each leg's price from its own quote. Prices are per
+ * share; fees are dollars for the whole order.
+ */
+
+import { OptionsChain } from './types';
+import { TransactionCostEngine, FillSimulation } from './transaction-cost-engine';
+
+export interface CostLeg {
+  side: 'BUY' | 'SELL';
+  quote: OptionsChain;
+  quantity: number; // Contracts
+}
+
+export interface CostEstimate {
+  prices: number[]; // Executed per-share price of each leg, in order
+  fees: number; // Commissions and regulatory fees, dollars
+  fills: FillSimulation[]; // Per-leg detail when the model simulates fills
+}
+
+export interface CostModel {
+  readonly name: string;
+  fill(legs: CostLeg[]): CostEstimate;
+}
+
+export interface MidpointCostModelConfig {
+  commissionPerContract: number;
+}
+
+/**
+ * Every leg fills at its mid; only commissions are charged
+ */
+export class MidpointCostModel implements CostModel {
+  readonly name = 'midpoint';
+  readonly config: MidpointCostModelConfig;
+
+  private static readonly DEFAULT_CONFIG: MidpointCostModelConfig = {
+    commissionPerContract: 0
+  };
+
+  constructor(config: Partial<MidpointCostModelConfig> = {}) {
+    this.config = { ...MidpointCostModel.DEFAULT_CONFIG, ...config };
+  }
+
+  fill(legs: CostLeg[]): CostEstimate {
+    const contracts = legs.reduce((sum, leg) => sum + leg.quantity, 0);
+    return {
+      prices: legs.map(leg => (leg.quote.bid + leg.quote.ask) / 2),
+      fees: contracts * this.config.commissionPerContract,
+      fills: []
+    };
+  }
+}
+
+export interface TransactionCostModelConfig {
+  marketCondition: 'NORMAL' | 'VOLATILE' | 'ILLIQUID' | 'AUTO'; // AUTO judges each order by its widest leg
+}
+
+/**
+ * Fills toward the far side of each leg's quote with size- and condition-dependent
+ * slippage, plus commissions and regulatory fees (TransactionCostEngine)
+ */
+export class TransactionCostModel implements CostModel {
+  readonly name = 'transaction-cost';
+  readonly config: TransactionCostModelConfig;
+
+  private static readonly DEFAULT_CONFIG: TransactionCostModelConfig = {
+    marketCondition: 'NORMAL'
+  };
+
+  constructor(config: Partial<TransactionCostModelConfig> = {}) {
+    this.config = { ...TransactionCostModel.DEFAULT_CONFIG, ...config };
+  }
+
+  fill(legs: CostLeg[]): CostEstimate {
+    const condition = this.config.marketCondition === 'AUTO'
+      ? TransactionCostEngine.determineMarketCondition(undefined, Math.max(...legs.map(leg => leg.quote.ask - leg.quote.bid)))
+      : this.config.marketCondition;
+    const { fills, totalCost } = TransactionCostEngine.calculateSpreadCosts(
+      legs.map(leg => ({ side: leg.side, bid: leg.quote.bid, ask: leg.quote.ask, quantity: leg.quantity })),
+      condition
+    );
+    return { prices: fills.map(fill => fill.executedPrice), fees: totalCost, fills };
+  }
+}
+
+export default TransactionCostModel;
@@ -1,1537 +1,59 @@
+import { Strategy, BacktestParams, BacktestTrade, PerformanceMetrics } from './types';
+import { MarketDataProvider } from './market-data-provider';
+import { createMarketDataProvider } from './market-data-provider-factory';
+import { OptionsSnapshotStore } from './options-snapshot-store';
+import { DataQualityValidator, DataQualityReport } from './data-quality-validator';
+import { PnLAttributionReport } from './pnl-attribution';
+import { BacktestCore, QuoteCoverage, BacktestOrder } from './backtest-core';
+import { TransactionCostModel } from './backtest-cost-models';
+import { CompositeRiskManager, PositionLimitRiskManager, GreeksRiskManager } from './backtest-risk-managers';
+import { AdaptiveSpreadStrategy } from './adaptive-spread-strategy';
 
-import { Strategy, BacktestParams, BacktestTrade, MarketData, PerformanceMetrics, OptionsChain, BullPutSpread, BearCallSpread, IronCondor } from './types';
-import { TechnicalAnalysis } from './technical-indicators';
-import { StrategyEngine } from './strategy-engine';
-import { BullPutSpreadStrategy } from './bull-put-spread-strategy';
-import { BearCallSpreadStrategy } from './bear-call-spread-strategy';
-import { IronCondorStrategy } from './iron-condor-strategy';
-import { AdaptiveStrategySelector } from './adaptive-strategy-selector';
-import { alpacaClient } from './alpaca';
-import { GreeksEngine, GreeksSnapshot } from './greeks-engine';
-import { TransactionCostEngine, FillSimulation } from './transaction-cost-engine';
-
-interface BacktestPosition {
-  symbol: string;
-  side: 'CALL' | 'PUT' | 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR';
-  strike: number;
-  expiration: Date;
-  entryDate: Date;
-  entryPrice: number;
-  quantity: number;
-  indicators: any;
-  spread?: BullPutSpread | BearCallSpread | IronCondor;
-  daysHeld?: number;
-  // Greeks tracking for risk management
-  entryGreeks?: GreeksSnapshot;
-  currentGreeks?: GreeksSnapshot;
-  greeksHistory?: GreeksSnapshot[];
-  maxLoss?: number; // Risk-based position sizing
-  riskScore?: number; // Overall risk assessment
-  // Transaction cost tracking
-  entryFills?: FillSimulation[]; // Entry execution details
-  exitFills?: FillSimulation[]; // Exit execution details
-  totalTransactionCosts?: number; // Total costs (entry + exit)
-  netPnL?: number; // P&L after transaction costs
-}
+export { QuoteCoverage } from './backtest-core';
 
 export class BacktestEngine {
-  
-  /**
-   * Calculate portfolio Greeks for spread positions
-   */
-  private static calculateSpreadGreeks(
-    spread: BullPutSpread | BearCallSpread | IronCondor,
-    side: 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR',
-    underlyingPrice: number,
-    timeToExpiration: number,
-    quantity: number
-  ): GreeksSnapshot {
-    
-    const legs: Array<{option: OptionsChain; quantity: number; side: 'LONG' | 'SHORT'}> = [];
-    
-    if (side === 'BULL_PUT_SPREAD') {
-      const bullSpread = spread as BullPutSpread;
-      legs.push(
-        { option: bullSpread.sellPut, quantity, side: 'SHORT' },
-        { option: bullSpread.buyPut, quantity, side: 'LONG' }
-      );
-    } else if (side === 'BEAR_CALL_SPREAD') {
-      const bearSpread = spread as BearCallSpread;
-      legs.push(
-        { option: bearSpread.sellCall, quantity, side: 'SHORT' },
-        { option: bearSpread.buyCall, quantity, side: 'LONG' }
-      );
-    } else if (side === 'IRON_CONDOR') {
-      const condorSpread = spread as IronCondor;
-      legs.push(
-        { option: condorSpread.sellPut, quantity, side: 'SHORT' },
-        { option: condorSpread.buyPut, quantity, side: 'LONG' },
-        { option: condorSpread.sellCall, quantity, side: 'SHORT' },
-        { option: condorSpread.buyCall, quantity, side: 'LONG' }
-      );
-    }
-    
-    return GreeksEngine.calculatePortfolioGreeks(legs, underlyingPrice, timeToExpiration);
-  }
-  
-  /**
-   * Check if position should be rejected based on Greeks risk
-   */
-  private static shouldRejectPosition(
-    greeks: GreeksSnapshot,
-    positionSize: number,
-    accountBalance: number,
-    strategy: Strategy
-  ): { reject: boolean; reason?: string } {
-    
-    const riskCheck = GreeksEngine.checkGreeksRisk(greeks, positionSize);
-    
-    if (riskCheck.isRisky) {
-      return { reject: true, reason: `High Greeks risk: ${riskCheck.warnings.join(', ')}` };
-    }
-    
-    // Portfolio-level limits
-    const maxPortfolioDelta = accountBalance * 0.01; // 1% of account as delta limit
-    if (Math.abs(greeks.delta * positionSize) > maxPortfolioDelta) {
-      return { 
-        reject: true, 
-        reason: `Portfolio delta limit exceeded: ${Math.abs(greeks.delta * positionSize).toFixed(0)} > ${maxPortfolioDelta.toFixed(0)}` 
-      };
-    }
-    
-    return { reject: false };
-  }
-  
-  /**
-   * Calculate Greeks-based position size
-   */
-  private static calculateGreeksBasedPositionSize(
-    greeks: GreeksSnapshot,
-    accountBalance: number,
-    basePositionSize: number,
-    strategy: Strategy
-  ): number {
-    
-    // Risk-based sizing: reduce size for high Greeks exposure
-    let sizeMultiplier = 1.0;
-    
-    // Delta risk adjustment
-    const deltaRisk = Math.abs(greeks.delta);
-    if (deltaRisk > 0.5) {
-      sizeMultiplier *= 0.7; // Reduce size for high delta positions
-    }
-    
-    // Theta risk adjustment (for short positions)
-    if (greeks.theta < -20) {
-      sizeMultiplier *= 0.8; // Reduce size for high theta decay
-    }
-    
-    // Vega risk adjustment
-    const vegaRisk = Math.abs(greeks.vega);
-    if (vegaRisk > 50) {
-      sizeMultiplier *= 0.9; // Reduce size for high vega sensitivity
-    }
-    
-    // Time to expiration risk (0-DTE gets smaller size)
-    if (greeks.timeToExpiration < 0.003) { // Less than 1 day
-      sizeMultiplier *= 0.5; // Half size for 0-DTE
-    }
-    
-    return Math.floor(basePositionSize * sizeMultiplier);
-  }
-  
-  /**
-   * Calculate realistic transaction costs for spread entry
-   */
-  private static calculateSpreadEntryCosts(
-    spread: BullPutSpread | BearCallSpread | IronCondor,
-    side: 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR',
-    quantity: number,
-    vixLevel?: number
-  ): { fills: FillSimulation[]; totalCost: number; netReceived: number } {
-    
-    const legs: Array<{
-      side: 'BUY' | 'SELL';
-      bid: number;
-      ask: number;
-      quantity: number;
-    }> = [];
-    
-    // Define legs based on spread type
-    if (side === 'BULL_PUT_SPREAD') {
-      const bullSpread = spread as BullPutSpread;
-      legs.push(
-        { side: 'SELL', bid: bullSpread.sellPut.bid, ask: bullSpread.sellPut.ask, quantity },
-        { side: 'BUY', bid: bullSpread.buyPut.bid, ask: bullSpread.buyPut.ask, quantity }
-      );
-    } else if (side === 'BEAR_CALL_SPREAD') {
-      const bearSpread = spread as BearCallSpread;
-      legs.push(
-        { side: 'SELL', bid: bearSpread.sellCall.bid, ask: bearSpread.sellCall.ask, quantity },
-        { side: 'BUY', bid: bearSpread.buyCall.bid, ask: bearSpread.buyCall.ask, quantity }
-      );
-    } else if (side === 'IRON_CONDOR') {
-      const condorSpread = spread as IronCondor;
-      legs.push(
-        { side: 'SELL', bid: condorSpread.sellPut.bid, ask: condorSpread.sellPut.ask, quantity },
-        { side: 'BUY', bid: condorSpread.buyPut.bid, ask: condorSpread.buyPut.ask, quantity },
-        { side: 'SELL', bid: condorSpread.sellCall.bid, ask: condorSpread.sellCall.ask, quantity },
-        { side: 'BUY', bid: condorSpread.buyCall.bid, ask: condorSpread.buyCall.ask, quantity }
-      );
-    }
-    
-    // Determine market condition for realistic slippage
-    const marketCondition = TransactionCostEngine.determineMarketCondition(vixLevel);
-    
-    // Calculate fills and costs
-    const { fills, totalCost } = TransactionCostEngine.calculateSpreadCosts(legs, marketCondition);
-    
-    // Calculate net credit/debit received after transaction costs
-    let netReceived = 0;
-    for (const fill of fills) {
-      if (legs[fills.indexOf(fill)].side === 'SELL') {
-        netReceived += fill.executedPrice * quantity * 100; // Credit received
-      } else {
-        netReceived -= fill.executedPrice * quantity * 100; // Debit paid
-      }
-    }
-    
-    return { fills, totalCost, netReceived: netReceived - totalCost };
-  }
-  
-  /**
-   * Calculate realistic transaction costs for spread exit
-   */
-  private static calculateSpreadExitCosts(
-    position: BacktestPosition,
-    currentOptionsChain: OptionsChain[],
-    vixLevel?: number
-  ): { fills: FillSimulation[]; totalCost: number; netPaid: number } | null {
-    
-    if (!position.spread) return null;
-    
-    const legs: Array<{
-      side: 'BUY' | 'SELL';
-      bid: number;
-      ask: number;
-      quantity: number;
-    }> = [];
-    
-    // For exit, we reverse the original positions
-    if (position.side === 'BULL_PUT_SPREAD') {
-      const spread = position.spread as BullPutSpread;
-      
-      // Find current prices
-      const sellPutCurrent = currentOptionsChain.find(opt => 
-        opt.strike === spread.sellPut.strike && opt.side === 'PUT'
-      );
-      const buyPutCurrent = currentOptionsChain.find(opt => 
-        opt.strike === spread.buyPut.strike && opt.side === 'PUT'
-      );
-      
-      if (!sellPutCurrent || !buyPutCurrent) return null;
-      
-      legs.push(
-        { side: 'BUY', bid: sellPutCurrent.bid, ask: sellPutCurrent.ask, quantity: position.quantity }, // Buy back short put
-        { side: 'SELL', bid: buyPutCurrent.bid, ask: buyPutCurrent.ask, quantity: position.quantity }  // Sell long put
-      );
-    }
-    // Add similar logic for other spread types...
-    
-    if (legs.length === 0) return null;
-    
-    // Determine market condition
-    const marketCondition = TransactionCostEngine.determineMarketCondition(vixLevel);
-    
-    // Calculate fills and costs
-    const { fills, totalCost } = TransactionCostEngine.calculateSpreadCosts(legs, marketCondition);
-    
-    // Calculate net debit paid to close
-    let netPaid = 0;
-    for (const fill of fills) {
-      if (legs[fills.indexOf(fill)].side === 'BUY') {
-        netPaid += fill.executedPrice * position.quantity * 100; // Debit paid
-      } else {
-        netPaid -= fill.executedPrice * position.quantity * 100; // Credit received
-      }
-    }
-    
-    return { fills, totalCost, netPaid: netPaid + totalCost };
-  }
-  
-  /**
-   * Calculate portfolio-level Greeks and risk metrics
-   */
-  private static calculatePortfolioRisk(
-    openPositions: BacktestPosition[],
-    currentPrice: number,
-    currentDate: Date
-  ): {
-    portfolioGreeks: GreeksSnapshot;
-    positionCorrelations: number[];
-    totalNotional: number;
-    concentrationRisk: number;
-    diversificationScore: number;
-  } {
-    
-    if (openPositions.length === 0) {
-      return {
-        portfolioGreeks: {} as GreeksSnapshot,
-        positionCorrelations: [],
-        totalNotional: 0,
-        concentrationRisk: 0,
-        diversificationScore: 1
-      };
-    }
-    
-    // Aggregate portfolio Greeks
-    let totalDelta = 0;
-    let totalGamma = 0;
-    let totalTheta = 0;
-    let totalVega = 0;
-    let totalRho = 0;
-    let totalNotional = 0;
-    
-    for (const position of openPositions) {
-      if (position.currentGreeks) {
-        totalDelta += position.currentGreeks.delta * position.quantity;
-        totalGamma += position.currentGreeks.gamma * position.quantity;
-        totalTheta += position.currentGreeks.theta * position.quantity;
-        totalVega += position.currentGreeks.vega * position.quantity;
-        totalRho += position.currentGreeks.rho * position.quantity;
-      }
-      
-      // Calculate notional value
-      totalNotional += Math.abs(position.entryPrice * position.quantity * 100);
-    }
-    
-    // Calculate position correlations (simplified - based on strike proximity)
-    const correlations: number[] = [];
-    for (let i = 0; i < openPositions.length; i++) {
-      for (let j = i + 1; j < openPositions.length; j++) {
-        const pos1 = openPositions[i];
-        const pos2 = openPositions[j];
-        
-        // Simple correlation based on strike proximity and expiration
-        const strikeDiff = Math.abs(pos1.strike - pos2.strike) / currentPrice;
-        const expDiff = Math.abs(pos1.expiration.getTime() - pos2.expiration.getTime()) / (24 * 60 * 60 * 1000); // Days
-        
-        // Closer strikes and expirations = higher correlation
-        const correlation = Math.exp(-strikeDiff * 10) * Math.exp(-expDiff / 30);
-        correlations.push(correlation);
-      }
-    }
-    
-    // Calculate concentration risk (Herfindahl index)
-    const positionSizes = openPositions.map(pos => Math.abs(pos.entryPrice * pos.quantity * 100));
-    const totalSize = positionSizes.reduce((sum, size) => sum + size, 0);
-    const concentrationRisk = positionSizes.reduce((sum, size) => {
-      const weight = size / totalSize;
-      return sum + weight * weight;
-    }, 0);
-    
-    // Diversification score (1 - concentration)
-    const diversificationScore = 1 - concentrationRisk;
-    
-    // Create portfolio Greeks snapshot
-    const portfolioGreeks: GreeksSnapshot = {
-      timestamp: currentDate,
-      underlyingPrice: currentPrice,
-      timeToExpiration: 0, // Not applicable for portfolio
-      impliedVolatility: 0, // Not applicable for portfolio
-      riskFreeRate: 0.05,
-      delta: Number(totalDelta.toFixed(4)),
-      gamma: Number(totalGamma.toFixed(6)),
-      theta: Number(totalTheta.toFixed(2)),
-      vega: Number(totalVega.toFixed(2)),
-      rho: Number(totalRho.toFixed(2)),
-      lambda: 0,
-      epsilon: 0,
-      vomma: 0,
-      charm: 0,
-      speed: 0,
-      color: 0,
-      netDelta: Number(totalDelta.toFixed(4)),
-      netGamma: Number(totalGamma.toFixed(6)),
-      netTheta: Number(totalTheta.toFixed(2)),
-      netVega: Number(totalVega.toFixed(2))
-    };
-    
-    return {
-      portfolioGreeks,
-      positionCorrelations: correlations,
-      totalNotional,
-      concentrationRisk,
-      diversificationScore
-    };
-  }
-  
-  /**
-   * Check portfolio-level risk limits
-   */
-  private static checkPortfolioRiskLimits(
-    portfolioRisk: ReturnType<typeof BacktestEngine.calculatePortfolioRisk>,
-    accountBalance: number,
-    strategy: Strategy
-  ): { acceptable: boolean; warnings: string[] } {
-    
-    const warnings: string[] = [];
-    let acceptable = true;
-    
-    const { portfolioGreeks, concentrationRisk, diversificationScore, totalNotional } = portfolioRisk;
-    
-    // 1. Portfolio Delta limits (directional exposure)
-    const maxPortfolioDelta = accountBalance * 0.02; // 2% of account value
-    if (Math.abs(portfolioGreeks.delta) > maxPortfolioDelta) {
-      warnings.push(`Portfolio delta exceeded: ${Math.abs(portfolioGreeks.delta).toFixed(0)} > ${maxPortfolioDelta.toFixed(0)}`);
-      acceptable = false;
-    }
-    
-    // 2. Portfolio Gamma limits (convexity risk)
-    const maxPortfolioGamma = 0.5; // Maximum gamma exposure
-    if (Math.abs(portfolioGreeks.gamma) > maxPortfolioGamma) {
-      warnings.push(`Portfolio gamma exceeded: ${Math.abs(portfolioGreeks.gamma).toFixed(3)} > ${maxPortfolioGamma}`);
-      acceptable = false;
-    }
-    
-    // 3. Portfolio Theta limits (time decay risk)
-    const maxPortfolioTheta = accountBalance * 0.01; // 1% daily decay max
-    if (Math.abs(portfolioGreeks.theta) > maxPortfolioTheta) {
-      warnings.push(`Portfolio theta exceeded: $${Math.abs(portfolioGreeks.theta).toFixed(0)}/day > $${maxPortfolioTheta.toFixed(0)}`);
-      acceptable = false;
-    }
-    
-    // 4. Portfolio Vega limits (volatility risk)
-    const maxPortfolioVega = accountBalance * 0.05; // 5% per 1% vol change
-    if (Math.abs(portfolioGreeks.vega) > maxPortfolioVega) {
-      warnings.push(`Portfolio vega exceeded: $${Math.abs(portfolioGreeks.vega).toFixed(0)} per 1% vol > $${maxPortfolioVega.toFixed(0)}`);
-      acceptable = false;
-    }
-    
-    // 5. Concentration risk limits
-    if (concentrationRisk > 0.4) { // More than 40% in single position type
-      warnings.push(`High concentration risk: ${(concentrationRisk * 100).toFixed(1)}% (>40%)`);
-      // Warning only, not rejection
-    }
-    
-    // 6. Notional exposure limits
-    const maxNotional = accountBalance * 5; // 5x leverage max
-    if (totalNotional > maxNotional) {
-      warnings.push(`Notional exposure exceeded: $${totalNotional.toFixed(0)} > $${maxNotional.toFixed(0)}`);
-      acceptable = false;
-    }
-    
-    // 7. Diversification requirements
-    if (diversificationScore < 0.3 && portfolioRisk.positionCorrelations.length > 0) {
-      warnings.push(`Poor diversification: ${(diversificationScore * 100).toFixed(1)}% score (<30%)`);
-      // Warning only for now
-    }
-    
-    return { acceptable, warnings };
-  }
-  
-  /**
-   * Check Greeks-based exit conditions
-   */
-  private static checkGreeksExitConditions(
-    position: BacktestPosition,
-    currentGreeks: GreeksSnapshot,
-    strategy: Strategy
-  ): { shouldExit: boolean; reason?: string } {
-    
-    if (!position.entryGreeks) {
-      return { shouldExit: false };
-    }
-    
-    // Delta expansion exit (directional risk getting too high)
-    const deltaChange = Math.abs(currentGreeks.delta) - Math.abs(position.entryGreeks.delta);
-    if (deltaChange > 0.3) {
-      return { 
-        shouldExit: true, 
-        reason: `DELTA_EXPANSION: Δ changed by ${deltaChange.toFixed(2)} (${position.entryGreeks.delta.toFixed(2)} → ${currentGreeks.delta.toFixed(2)})` 
-      };
-    }
-    
-    // Extreme gamma risk (position becoming too sensitive)
-    if (Math.abs(currentGreeks.gamma) > 0.15) {
-      return { 
-        shouldExit: true, 
-        reason: `HIGH_GAMMA_RISK: Γ=${currentGreeks.gamma.toFixed(3)} (>0.15)` 
-      };
-    }
-    
-    // Accelerating theta decay for short positions
-    if (currentGreeks.theta < -100 && currentGreeks.timeToExpiration < 0.008) { // Less than 3 days
-      return { 
-        shouldExit: true, 
-        reason: `ACCELERATING_THETA: Θ=${currentGreeks.theta.toFixed(0)}/day with ${(currentGreeks.timeToExpiration * 365).toFixed(1)} DTE` 
-      };
-    }
-    
-    // Vega explosion (IV expansion risk)
-    const vegaChange = Math.abs(currentGreeks.vega) - Math.abs(position.entryGreeks.vega);
-    if (vegaChange > 100) { // Vega increased by more than $100 per 1% vol
-      return { 
-        shouldExit: true, 
-        reason: `VEGA_EXPANSION: 𝜈 increased by $${vegaChange.toFixed(0)} per 1% vol` 
-      };
-    }
-    
-    // 0-DTE specific: Exit if getting close to expiration with high risk
-    if (currentGreeks.timeToExpiration < 0.002) { // Less than 0.5 days (12 hours)
-      const totalRisk = Math.abs(currentGreeks.delta) + Math.abs(currentGreeks.gamma) * 10 + Math.abs(currentGreeks.theta) / 50;
-      if (totalRisk > 3.0) {
-        return { 
-          shouldExit: true, 
-          reason: `0DTE_RISK_EXIT: High risk (${totalRisk.toFixed(1)}) with ${(currentGreeks.timeToExpiration * 365 * 24).toFixed(1)} hours to expiration` 
-        };
-      }
-    }
-    
-    return { shouldExit: false };
-  }
-  
+
   static async runBacktest(
     strategy: Strategy,
-    params: BacktestParams
+    params: BacktestParams,
+    dataProvider: MarketDataProvider = createMarketDataProvider(),
+    snapshotStore?: OptionsSnapshotStore,
+    qualityValidator?: DataQualityValidator
   ): Promise<{
     trades: BacktestTrade[];
     performance: PerformanceMetrics;
     equityCurve: { date: string; value: number }[];
+    quoteCoverage: QuoteCoverage;
+    attribution: PnLAttributionReport; // Closed trades' P&L by Greek, per strategy and entry regime
+    dataQuality?: DataQualityReport[]; // One per underlying, present when a validator was supplied
+    rejectedOrders: BacktestOrder[];
   }> {
-    
-    // Get historical market data
-    console.log(`📊 Starting backtest: ${strategy.name} from ${params.startDate.toDateString()} to ${params.endDate.toDateString()}`);
-    
-    // For 0-DTE strategies, use minute data for recent periods
-    const daysDiff = (params.endDate.getTime() - params.startDate.getTime()) / (1000 * 60 * 60 * 24);
-    // ENHANCED: More aggressive minute-level data for 0-DTE precision
-    const timeframe = daysDiff <= 10 ? '15Min' : daysDiff <= 30 ? '1Hour' : '1Day';
-    
-    console.log(`⚡ Using ${timeframe} resolution for ${daysDiff.toFixed(0)} day period`);
-    const marketData = await alpacaClient.getMarketData('SPY', params.startDate, params.endDate, timeframe);
-    
-    if (marketData.length < 50) {
-      throw new Error('Insufficient historical data for backtesting');
-    }
-    
-    console.log(`📈 Processing ${marketData.length} trading days...`);
-    
-    // Initialize backtest state
-    let currentBalance = params.initialCapital;
-    const trades: BacktestTrade[] = [];
-    const openPositions: BacktestPosition[] = [];
-    const equityCurve: { date: string; value: number }[] = [];
-    let peakBalance = currentBalance;
-    let maxDrawdown = 0;
-    
-    // Options chain cache (refresh weekly to improve performance)
-    let cachedOptionsChain: OptionsChain[] = [];
-    let lastOptionsUpdate = new Date(0);
-    
-    // Process each trading day
-    for (let i = 50; i < marketData.length; i++) {
-      const currentDate = marketData[i].date;
-      const historicalData = marketData.slice(0, i + 1);
-      const currentPrice = marketData[i].close;
-      
-      // Progress tracking
-      if (i % 25 === 0) {
-        const progress = Math.round((i / marketData.length) * 100);
-        console.log(`🔄 Backtest progress: ${progress}% (${i}/${marketData.length} days) - ${currentDate.toDateString()}`);
-      }
-      
-      // 0-DTE: Update options chain DAILY (same-day expiration requires fresh data)
-      const daysSinceUpdate = (currentDate.getTime() - lastOptionsUpdate.getTime()) / (1000 * 60 * 60 * 24);
-      if (cachedOptionsChain.length === 0 || daysSinceUpdate >= 1) {
-        console.log(`🔥 0-DTE: Refreshing daily options chain for ${currentDate.toDateString()}...`);
-        cachedOptionsChain = await alpacaClient.getOptionsChain('SPY', currentDate);
-        lastOptionsUpdate = currentDate;
-        console.log(`⚡ 0-DTE: ${cachedOptionsChain.length} same-day options available`);
-      }
-      
-      const optionsChain = cachedOptionsChain;
-      
-      // Check exit conditions for open positions
-      await this.checkExitConditions(
-        openPositions,
-        trades,
-        currentPrice,
-        currentDate,
-        historicalData,
-        strategy,
-        optionsChain
-      );
-      
-      // Remove expired positions
-      this.handleExpirations(openPositions, trades, currentDate, currentPrice);
-      
-      // Update current balance based on open positions
-      currentBalance = this.calculateCurrentBalance(params.initialCapital, trades);
-      
-      // 0-DTE: Check for new entry signals more aggressively (multiple per day possible)
-      if (openPositions.length < strategy.maxPositions * 2) { // Allow more positions for 0-DTE
-        // Use Adaptive Strategy Selector (regime-aware)
-        const strategySelection = AdaptiveStrategySelector.generateAdaptiveSignal(
-          historicalData, 
-          optionsChain, 
-          strategy
-        );
-        
-        const signal = strategySelection.signal;
-        
-        // Handle both naked options and spreads
-        if (signal && (signal.action === 'BUY_CALL' || signal.action === 'BUY_PUT' || signal.action === 'BULL_PUT_SPREAD' || signal.action === 'BEAR_CALL_SPREAD' || signal.action === 'IRON_CONDOR')) {
-          
-          let positionSize = 0;
-          
-          // 🚀 NAKED OPTIONS HANDLING (as requested)
-          if (signal.action === 'BUY_CALL' || signal.action === 'BUY_PUT') {
-            // For naked options, position size is based on percentage of account
-            const maxRiskPerTrade = strategy.positionSizePercent || 0.02; // 2% default
-            const optionPrice = 2.50; // Estimate $2.50 per contract (realistic for 0-DTE)
-            const maxContracts = Math.floor((currentBalance * maxRiskPerTrade) / (optionPrice * 100));
-            positionSize = Math.max(1, Math.min(maxContracts, 10)); // 1-10 contracts
-            
-            console.log(`🚀 NAKED OPTION TRADE: ${signal.action}`);
-            console.log(`💰 Account: $${currentBalance.toFixed(2)}, Risk: ${(maxRiskPerTrade * 100)}%, Contracts: ${positionSize}`);
-            
-          } else {
-            // SPREAD HANDLING (existing logic)
-            const spread = signal.spread;
-            if (spread) {
-              if (signal.action === 'BULL_PUT_SPREAD') {
-                positionSize = BullPutSpreadStrategy.calculateSpreadPositionSize(currentBalance, spread.maxLoss, strategy);
-              } else if (signal.action === 'BEAR_CALL_SPREAD') {
-                positionSize = BearCallSpreadStrategy.calculateSpreadPositionSize(currentBalance, spread.maxLoss, strategy);
-              } else if (signal.action === 'IRON_CONDOR') {
-                positionSize = IronCondorStrategy.calculateSpreadPositionSize(currentBalance, spread.maxLoss, strategy);
-              }
-            }
-          }
-          
-          if (positionSize > 0) {
-            
-            // 🚀 NAKED OPTIONS EXECUTION
-            if (signal.action === 'BUY_CALL' || signal.action === 'BUY_PUT') {
-              
-              // Calculate indicators for this trade
-              const indicators = TechnicalAnalysis.calculateAllIndicators(
-                historicalData,
-                strategy.rsiPeriod,
-                strategy.macdFast,
-                strategy.macdSlow,
-                strategy.macdSignal,
-                strategy.bbPeriod,
-                strategy.bbStdDev
-              );
-              
-              // Find suitable option from chain
-              const currentPrice = marketData[i].close;
-              const targetDelta = 0.5; // ATM options
-              const optionType = signal.action === 'BUY_CALL' ? 'call' : 'put';
-              
-              // Find closest ATM option
-              const suitableOptions = optionsChain.filter(opt => 
-                opt.side.toLowerCase() === optionType && 
-                Math.abs(opt.strike - currentPrice) < 20 // Within $20 of current price
-              );
-              
-              if (suitableOptions.length > 0) {
-                // Pick the closest to ATM
-                const selectedOption = suitableOptions.reduce((closest, current) => 
-                  Math.abs(current.strike - currentPrice) < Math.abs(closest.strike - currentPrice) ? current : closest
-                );
-                
-                const optionPrice = (selectedOption.bid + selectedOption.ask) / 2;
-                const totalCost = optionPrice * positionSize * 100; // 100 shares per contract
-                
-                console.log(`🚀 EXECUTING NAKED OPTION: ${signal.action}`);
-                console.log(`📊 Strike: $${selectedOption.strike}, Price: $${optionPrice.toFixed(2)}, Contracts: ${positionSize}`);
-                console.log(`💰 Total Cost: $${totalCost.toFixed(2)}`);
-                
-                // Create naked option trade
-                const trade: BacktestTrade = {
-                  id: `${signal.action}_${currentDate.getTime()}`,
-                  backtestId: 'dashboard-backtest',
-                  symbol: selectedOption.symbol,
-                  side: signal.action === 'BUY_CALL' ? 'CALL' : 'PUT',
-                  quantity: positionSize,
-                  entryPrice: optionPrice,
-                  entryDate: currentDate,
-                  strike: selectedOption.strike,
-                  expiration: selectedOption.expiration,
-                  pnl: 0,
-                  rsiValue: indicators?.rsi || 0,
-                  macdValue: indicators?.macd || 0,
-                  macdSignalValue: indicators?.macdSignal || 0,
-                  createdAt: currentDate
-                };
-                
-                trades.push(trade);
-                
-                // Create position for tracking
-                const position: BacktestPosition = {
-                  symbol: selectedOption.symbol,
-                  side: signal.action === 'BUY_CALL' ? 'CALL' : 'PUT',
-                  strike: selectedOption.strike,
-                  expiration: selectedOption.expiration,
-                  entryDate: currentDate,
-                  entryPrice: optionPrice,
-                  quantity: positionSize,
-                  indicators: indicators || {}
-                };
-                
-                openPositions.push(position);
-                
-                console.log(`✅ NAKED OPTION TRADE OPENED: ${trade.id}`);
-                continue; // Skip spread logic
-              } else {
-                console.log(`❌ No suitable ${optionType} options found`);
-                continue;
-              }
-            }
-            
-            // SPREAD HANDLING (existing logic)
-            // Calculate spread cost based on strategy type
-            let spreadCost = 0;
-            let strategySymbol = '';
-            const spread = signal.spread;
-            
-            if (spread) {
-              if (signal.action === 'BULL_PUT_SPREAD') {
-                const bullSpread = spread as BullPutSpread;
-                spreadCost = (bullSpread.buyPut.ask - bullSpread.sellPut.bid) * positionSize * 100;
-                strategySymbol = `${bullSpread.sellPut.symbol}/${bullSpread.buyPut.symbol}`;
-              } else if (signal.action === 'BEAR_CALL_SPREAD') {
-                const bearSpread = spread as BearCallSpread;
-                spreadCost = (bearSpread.buyCall.ask - bearSpread.sellCall.bid) * positionSize * 100;
-                strategySymbol = `${bearSpread.sellCall.symbol}/${bearSpread.buyCall.symbol}`;
-              } else if (signal.action === 'IRON_CONDOR') {
-                const condorSpread = spread as IronCondor;
-                spreadCost = ((condorSpread.buyPut.ask + condorSpread.buyCall.ask) - (condorSpread.sellPut.bid + condorSpread.sellCall.bid)) * positionSize * 100;
-                strategySymbol = `${condorSpread.sellPut.symbol}/${condorSpread.sellCall.symbol} Condor`;
-              }
-            }
-            
-            const netCredit = spread ? spread.netCredit * positionSize * 100 : 0;
-            
-            // CAPITAL PROTECTION: Ensure we don't risk more than we can afford
-            const maxPositionRisk = Math.min(
-              currentBalance * 0.20,  // Temporarily increased to 20% for demo
-              3000                    // Temporarily increased cap for demonstration
-            );
-            
-            if (Math.abs(spreadCost) <= maxPositionRisk) {
-              
-              // ENHANCED: Calculate Greeks for spread position (only for spreads)
-              let spreadGreeks: GreeksSnapshot | null = null;
-              let timeToExpiration = 0.001; // Default for naked options
-              
-              if (spread) {
-                timeToExpiration = Math.max(0.001, 
-                  (signal.action === 'BULL_PUT_SPREAD' ? (spread as BullPutSpread).sellPut.expiration.getTime() :
-                   signal.action === 'BEAR_CALL_SPREAD' ? (spread as BearCallSpread).sellCall.expiration.getTime() :
-                   (spread as IronCondor).sellPut.expiration.getTime()) - currentDate.getTime()
-                ) / (1000 * 60 * 60 * 24 * 365); // Convert to years
-                
-                spreadGreeks = this.calculateSpreadGreeks(
-                  spread,
-                  signal.action as 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR',
-                  currentPrice,
-                  timeToExpiration,
-                  positionSize
-                );
-              }
-              
-              // ENHANCED: Greeks-based position sizing (only for spreads)
-              let greeksAdjustedSize = positionSize;
-              
-              if (spreadGreeks) {
-                greeksAdjustedSize = this.calculateGreeksBasedPositionSize(
-                  spreadGreeks,
-                  currentBalance,
-                  positionSize,
-                  strategy
-                );
-                
-                // ENHANCED: Risk check before opening position
-                const riskCheck = this.shouldRejectPosition(
-                  spreadGreeks,
-                  greeksAdjustedSize,
-                  currentBalance,
-                  strategy
-                );
-                
-                if (riskCheck.reject) {
-                  console.log(`🚫 Position rejected: ${riskCheck.reason}`);
-                  continue; // Skip this position
-                }
-              }
-              
-              // ENHANCED: Portfolio-level risk check before opening position
-              const currentPortfolioRisk = this.calculatePortfolioRisk(openPositions, currentPrice, currentDate);
-              const portfolioRiskCheck = this.checkPortfolioRiskLimits(currentPortfolioRisk, currentBalance, strategy);
-              
-              if (!portfolioRiskCheck.acceptable) {
-                console.log(`🚫 Position rejected - Portfolio risk limits: ${portfolioRiskCheck.warnings.join(', ')}`);
-                continue; // Skip this position
-              }
-              
-              if (portfolioRiskCheck.warnings.length > 0) {
-                console.log(`⚠️  Portfolio warnings: ${portfolioRiskCheck.warnings.join(', ')}`);
-              }
-              
-              // ENHANCED: Calculate realistic transaction costs for entry (only for spreads)
-              let entryCosts: any = { netReceived: 0, totalCost: 0, fills: [] };
-              let realisticEntryCredit = 0;
-              
-              if (spread) {
-                entryCosts = this.calculateSpreadEntryCosts(
-                  spread,
-                  signal.action as 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR',
-                  greeksAdjustedSize
-                );
-                
-                // Adjust entry price for realistic fills
-                realisticEntryCredit = entryCosts.netReceived / (greeksAdjustedSize * 100);
-              }
-              
-              // Check if trade is still profitable after transaction costs
-              if (realisticEntryCredit <= 0.05) { // Minimum $0.05 credit after costs
-                console.log(`🚫 Position rejected: Insufficient credit after transaction costs ($${realisticEntryCredit.toFixed(2)})`);
-                continue;
-              }
-              
-              // Create new spread position with Greeks and transaction cost tracking
-              const position: BacktestPosition = {
-                symbol: strategySymbol,
-                side: signal.action as 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR',
-                strike: signal.action === 'BULL_PUT_SPREAD' ? (spread as BullPutSpread).sellPut.strike :
-                       signal.action === 'BEAR_CALL_SPREAD' ? (spread as BearCallSpread).sellCall.strike :
-                       (spread as IronCondor).sellPut.strike, // For tracking
-                expiration: signal.action === 'BULL_PUT_SPREAD' ? (spread as BullPutSpread).sellPut.expiration :
-                           signal.action === 'BEAR_CALL_SPREAD' ? (spread as BearCallSpread).sellCall.expiration :
-                           (spread as IronCondor).sellPut.expiration,
-                entryDate: currentDate,
-                entryPrice: realisticEntryCredit, // Realistic credit after transaction costs
-                quantity: greeksAdjustedSize, // Use Greeks-adjusted size
-                indicators: signal.indicators,
-                spread: spread,
-                daysHeld: 0,
-                // Greeks tracking
-                entryGreeks: spreadGreeks || undefined,
-                currentGreeks: spreadGreeks || undefined,
-                greeksHistory: spreadGreeks ? [spreadGreeks] : [],
-                maxLoss: spread ? spread.maxLoss * greeksAdjustedSize : 0,
-                riskScore: spreadGreeks ? Math.abs(spreadGreeks.delta) + Math.abs(spreadGreeks.vega / 100) + Math.abs(spreadGreeks.theta / 50) : 0,
-                // Transaction cost tracking
-                entryFills: entryCosts.fills,
-                totalTransactionCosts: entryCosts.totalCost,
-                netPnL: 0 // Will be updated on exit
-              };
-              
-              openPositions.push(position);
-              
-              // Enhanced logging with Greeks and transaction cost info
-              if (spreadGreeks) {
-                console.log(`📊 Greeks: Δ=${spreadGreeks.delta.toFixed(2)} Θ=${spreadGreeks.theta.toFixed(0)} 𝜈=${spreadGreeks.vega.toFixed(0)} Risk=${position.riskScore?.toFixed(1)}`);
-              }
-              if (spread) {
-                console.log(`💰 Costs: Entry=$${entryCosts.totalCost.toFixed(2)}, Net Credit=$${realisticEntryCredit.toFixed(2)} (vs theoretical $${spread.netCredit.toFixed(2)})`);
-              }
-              
-              if (signal.action === 'BULL_PUT_SPREAD') {
-                const bullSpread = spread as BullPutSpread;
-                console.log(`📈 Opened Bull Put Spread: ${bullSpread.sellPut.strike}/${bullSpread.buyPut.strike} for $${realisticEntryCredit.toFixed(2)} net credit`);
-              } else if (signal.action === 'BEAR_CALL_SPREAD') {
-                const bearSpread = spread as BearCallSpread;
-                console.log(`📉 Opened Bear Call Spread: ${bearSpread.sellCall.strike}/${bearSpread.buyCall.strike} for $${realisticEntryCredit.toFixed(2)} net credit`);
-              } else if (signal.action === 'IRON_CONDOR') {
-                const condorSpread = spread as IronCondor;
-                console.log(`🦅 Opened Iron Condor: ${condorSpread.sellPut.strike}/${condorSpread.sellCall.strike} for $${realisticEntryCredit.toFixed(2)} net credit`);
-              }
-            }
-          }
-        }
-      }
-      
-      // Update equity curve
-      const currentEquity = this.calculateCurrentBalance(params.initialCapital, trades);
-      equityCurve.push({
-        date: currentDate.toISOString().split('T')[0],
-        value: currentEquity
-      });
-      
-      // Update max drawdown
-      if (currentEquity > peakBalance) {
-        peakBalance = currentEquity;
-      } else {
-        const drawdown = (peakBalance - currentEquity) / peakBalance;
-        maxDrawdown = Math.max(maxDrawdown, drawdown);
-      }
-      
-      // ENHANCED: Periodic portfolio risk monitoring and logging
-      if (i % 50 === 0 && openPositions.length > 0) { // Every 50 bars
-        const portfolioRisk = this.calculatePortfolioRisk(openPositions, currentPrice, currentDate);
-        const riskCheck = this.checkPortfolioRiskLimits(portfolioRisk, currentEquity, strategy);
-        
-        console.log(`📊 PORTFOLIO RISK SUMMARY (${currentDate.toDateString()}):`);
-        console.log(`   Positions: ${openPositions.length}, Total Greeks: Δ=${portfolioRisk.portfolioGreeks.delta?.toFixed(1)} Θ=${portfolioRisk.portfolioGreeks.theta?.toFixed(0)} 𝜈=${portfolioRisk.portfolioGreeks.vega?.toFixed(0)}`);
-        console.log(`   Notional: $${portfolioRisk.totalNotional.toFixed(0)}, Concentration: ${(portfolioRisk.concentrationRisk * 100).toFixed(1)}%, Diversification: ${(portfolioRisk.diversificationScore * 100).toFixed(1)}%`);
-        
-        if (riskCheck.warnings.length > 0) {
-          console.log(`   ⚠️  Warnings: ${riskCheck.warnings.join(', ')}`);
-        }
-      }
-    }
-    
-    // Close any remaining open positions at final date
-    for (const position of openPositions) {
-      trades.push({
-        id: `backtest_${Date.now()}_${Math.random()}`,
-        backtestId: params.strategyId,
-        symbol: position.symbol,
-        side: position.side,
-        strike: position.strike,
-        expiration: position.expiration,
-        entryDate: position.entryDate,
-        exitDate: params.endDate,
-        entryPrice: position.entryPrice,
-        exitPrice: position.side === 'BULL_PUT_SPREAD' ? 0.01 : Math.max(0.01, this.calculateIntrinsicValue(position.side as 'CALL' | 'PUT', position.strike, marketData[marketData.length - 1].close)),
-        quantity: position.quantity,
-        pnl: position.side === 'BULL_PUT_SPREAD' ? 0 : (Math.max(0.01, this.calculateIntrinsicValue(position.side as 'CALL' | 'PUT', position.strike, marketData[marketData.length - 1].close)) - position.entryPrice) * position.quantity * 100,
-        pnlPercent: position.side === 'BULL_PUT_SPREAD' ? 0 : (Math.max(0.01, this.calculateIntrinsicValue(position.side as 'CALL' | 'PUT', position.strike, marketData[marketData.length - 1].close)) - position.entryPrice) / position.entryPrice * 100,
-        rsiValue: position.indicators?.rsi,
-        macdValue: position.indicators?.macd,
-        macdSignalValue: position.indicators?.macdSignal,
-        bbUpper: position.indicators?.bbUpper,
-        bbLower: position.indicators?.bbLower,
-        spyPrice: marketData[marketData.length - 1].close,
-        exitReason: 'EXPIRATION',
-        createdAt: new Date()
-      });
-    }
-    
-    // Calculate performance metrics
-    const performance = this.calculatePerformanceMetrics(
-      trades,
-      params.initialCapital,
-      maxDrawdown
-    );
-    
-    // Completion logging with Adaptive Strategy indicators
-    console.log(`✅ Adaptive Multi-Strategy Backtest completed successfully!`);
-    console.log(`🎯 Results: ${trades.length} trades, ${performance.winRate.toFixed(1)}% win rate, ${performance.totalReturnPercent.toFixed(2)}% total return`);
-    console.log(`⚡ Features: Regime-aware strategy selection, Bull Put Spreads (Bear Call/Iron Condor coming soon)`);
-    
-    return { trades, performance, equityCurve };
-  }
-  
-  private static async checkExitConditions(
-    positions: BacktestPosition[],
-    trades: BacktestTrade[],
-    currentPrice: number,
-    currentDate: Date,
-    historicalData: MarketData[],
-    strategy: Strategy,
-    optionsChain: OptionsChain[]
-  ) {
-    
-    const positionsToRemove: number[] = [];
-    
-    for (let i = 0; i < positions.length; i++) {
-      const position = positions[i];
-      position.daysHeld = Math.floor((currentDate.getTime() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24));
-      
-      // ENHANCED: Update current Greeks for position monitoring
-      if (position.spread && position.side !== 'CALL' && position.side !== 'PUT') {
-        const timeToExpiration = Math.max(0.001, 
-          (position.expiration.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24 * 365)
-        );
-        
-        const currentGreeks = this.calculateSpreadGreeks(
-          position.spread,
-          position.side,
-          currentPrice,
-          timeToExpiration,
-          position.quantity
-        );
-        
-        position.currentGreeks = currentGreeks;
-        position.greeksHistory?.push(currentGreeks);
-        
-        // ENHANCED: Greeks-based exit conditions
-        const greeksExit = this.checkGreeksExitConditions(position, currentGreeks, strategy);
-        if (greeksExit.shouldExit) {
-          console.log(`📊 Greeks exit triggered: ${greeksExit.reason}`);
-          // Will be handled by existing exit logic below
-        }
-      }
-      
-      if (position.side === 'BULL_PUT_SPREAD' && position.spread) {
-        // Handle Bull Put Spread exits
-        const spread = position.spread as BullPutSpread;
-        
-        // Find current prices for both legs
-        const sellPutCurrent = optionsChain.find(opt => 
-          opt.strike === spread.sellPut.strike && opt.side === 'PUT' && 
-          Math.abs(opt.expiration.getTime() - spread.sellPut.expiration.getTime()) < 24 * 60 * 60 * 1000
-        );
-        const buyPutCurrent = optionsChain.find(opt => 
-          opt.strike === spread.buyPut.strike && opt.side === 'PUT' &&
-          Math.abs(opt.expiration.getTime() - spread.buyPut.expiration.getTime()) < 24 * 60 * 60 * 1000
-        );
-        
-        if (sellPutCurrent && buyPutCurrent) {
-          // Current credit = what we'd receive to close (opposite of opening)
-          const currentCredit = buyPutCurrent.bid - sellPutCurrent.ask;
-          
-          const exitCondition = BullPutSpreadStrategy.shouldExitSpread(
-            spread,
-            currentPrice,
-            currentCredit,
-            position.daysHeld || 0
-          );
-          
-          if (exitCondition.shouldExit) {
-            const exitPrice = Math.max(0.01, currentCredit);
-            const pnl = (position.entryPrice - exitPrice) * position.quantity * 100; // Credit spread P&L
-            
-            trades.push({
-              id: `backtest_${Date.now()}_${Math.random()}`,
-              backtestId: strategy.id,
-              symbol: position.symbol,
-              side: position.side,
-              strike: position.strike,
-              expiration: position.expiration,
-              entryDate: position.entryDate,
-              exitDate: currentDate,
-              entryPrice: position.entryPrice,
-              exitPrice,
-              quantity: position.quantity,
-              pnl,
-              pnlPercent: pnl / (position.entryPrice * position.quantity * 100) * 100,
-              rsiValue: position.indicators?.rsi,
-              macdValue: position.indicators?.macd,
-              macdSignalValue: position.indicators?.macdSignal,
-              bbUpper: position.indicators?.bbUpper,
-              bbLower: position.indicators?.bbLower,
-              spyPrice: currentPrice,
-              exitReason: exitCondition.reason as 'STOP_LOSS' | 'TAKE_PROFIT' | 'EXPIRATION' | 'SIGNAL_EXIT',
-              createdAt: new Date()
-            });
-            
-            console.log(`📉 Closed Bull Put Spread: ${exitCondition.reason}, P&L: $${pnl.toFixed(0)}`);
-            positionsToRemove.push(i);
-          }
-        }
-      } else if (position.side === 'BEAR_CALL_SPREAD' && position.spread) {
-        // Handle Bear Call Spread exits
-        const spread = position.spread as BearCallSpread;
-        
-        const sellCallCurrent = optionsChain.find(opt => 
-          opt.strike === spread.sellCall.strike && opt.side === 'CALL' && 
-          Math.abs(opt.expiration.getTime() - spread.sellCall.expiration.getTime()) < 24 * 60 * 60 * 1000
-        );
-        const buyCallCurrent = optionsChain.find(opt => 
-          opt.strike === spread.buyCall.strike && opt.side === 'CALL' &&
-          Math.abs(opt.expiration.getTime() - spread.buyCall.expiration.getTime()) < 24 * 60 * 60 * 1000
-        );
-        
-        if (sellCallCurrent && buyCallCurrent) {
-          const currentCredit = buyCallCurrent.bid - sellCallCurrent.ask;
-          
-          const exitCondition = BearCallSpreadStrategy.shouldExitSpread ? 
-            BearCallSpreadStrategy.shouldExitSpread(spread, currentPrice, currentCredit, position.daysHeld || 0, position.currentGreeks) :
-            { shouldExit: false, reason: 'NO_EXIT' };
-          
-          if (exitCondition.shouldExit) {
-            const exitPrice = Math.max(0.01, currentCredit);
-            const pnl = (position.entryPrice - exitPrice) * position.quantity * 100;
-            
-            trades.push({
-              id: `backtest_${Date.now()}_${Math.random()}`,
-              backtestId: strategy.id,
-              symbol: position.symbol,
-              side: position.side,
-              strike: position.strike,
-              expiration: position.expiration,
-              entryDate: position.entryDate,
-              exitDate: currentDate,
-              entryPrice: position.entryPrice,
-              exitPrice: exitPrice,
-              quantity: position.quantity,
-              pnl: pnl,
-              pnlPercent: (pnl / (position.entryPrice * position.quantity * 100)) * 100,
-              rsiValue: position.indicators?.rsi,
-              macdValue: position.indicators?.macd,
-              macdSignalValue: position.indicators?.macdSignal,
-              bbUpper: position.indicators?.bbUpper,
-              bbLower: position.indicators?.bbLower,
-              spyPrice: currentPrice,
-              exitReason: exitCondition.reason as 'STOP_LOSS' | 'TAKE_PROFIT' | 'EXPIRATION' | 'SIGNAL_EXIT',
-              createdAt: new Date()
-            });
-            
-            console.log(`📈 Closed Bear Call Spread: ${exitCondition.reason}, P&L: $${pnl.toFixed(0)}`);
-            positionsToRemove.push(i);
-          }
-        }
-      } else if (position.side === 'IRON_CONDOR' && position.spread) {
-        // ENHANCED: Professional Iron Condor exit logic
-        const spread = position.spread as IronCondor;
-        
-        // Find current prices for all four legs
-        const sellPutCurrent = optionsChain.find(opt => 
-          opt.strike === spread.sellPut.strike && opt.side === 'PUT' && 
-          Math.abs(opt.expiration.getTime() - spread.sellPut.expiration.getTime()) < 24 * 60 * 60 * 1000
-        );
-        const buyPutCurrent = optionsChain.find(opt => 
-          opt.strike === spread.buyPut.strike && opt.side === 'PUT' &&
-          Math.abs(opt.expiration.getTime() - spread.buyPut.expiration.getTime()) < 24 * 60 * 60 * 1000
-        );
-        const sellCallCurrent = optionsChain.find(opt => 
-          opt.strike === spread.sellCall.strike && opt.side === 'CALL' && 
-          Math.abs(opt.expiration.getTime() - spread.sellCall.expiration.getTime()) < 24 * 60 * 60 * 1000
-        );
-        const buyCallCurrent = optionsChain.find(opt => 
-          opt.strike === spread.buyCall.strike && opt.side === 'CALL' &&
-          Math.abs(opt.expiration.getTime() - spread.buyCall.expiration.getTime()) < 24 * 60 * 60 * 1000
-        );
-        
-        const daysToExpiration = Math.floor((position.expiration.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-        
-        let shouldExitCondor = false;
-        let exitReason = 'NO_EXIT';
-        let currentCost = 0;
-        
-        if (sellPutCurrent && buyPutCurrent && sellCallCurrent && buyCallCurrent) {
-          // Calculate current debit to close the Iron Condor
-          currentCost = (sellPutCurrent.ask + sellCallCurrent.ask) - (buyPutCurrent.bid + buyCallCurrent.bid);
-          
-          // Professional Iron Condor exit conditions:
-          
-          // 1. Price breach: Exit if underlying moves beyond short strikes
-          const isPriceBreach = currentPrice <= spread.sellPut.strike || currentPrice >= spread.sellCall.strike;
-          if (isPriceBreach) {
-            shouldExitCondor = true;
-            exitReason = 'PRICE_BREACH';
-          }
-          
-          // 2. Profit target: 25-50% of max profit
-          else if (currentCost <= position.entryPrice * 0.5) { // 50% profit
-            shouldExitCondor = true;
-            exitReason = 'PROFIT_TARGET';
-          }
-          
-          // 3. Loss limit: 200% of credit received
-          else if (currentCost >= position.entryPrice * 2.0) {
-            shouldExitCondor = true;
-            exitReason = 'STOP_LOSS';
-          }
-          
-          // 4. Greeks-based exit
-          else if (position.currentGreeks) {
-            const greeksExit = this.checkGreeksExitConditions(position, position.currentGreeks, strategy);
-            if (greeksExit.shouldExit) {
-              shouldExitCondor = true;
-              exitReason = greeksExit.reason || 'GREEKS_EXIT';
-            }
-          }
-          
-          // 5. Time-based exit: Close at 1 DTE or after 21 days
-          else if (daysToExpiration <= 1 || position.daysHeld >= 21) {
-            shouldExitCondor = true;
-            exitReason = daysToExpiration <= 1 ? 'EXPIRATION' : 'TIME_LIMIT';
-          }
-          
-          // 6. Volatility expansion: Exit if implied volatility spikes
-          const avgIV = ((sellPutCurrent.impliedVolatility || 0.2) + (sellCallCurrent.impliedVolatility || 0.2)) / 2;
-          const entryIV = ((spread.sellPut.impliedVolatility || 0.2) + (spread.sellCall.impliedVolatility || 0.2)) / 2;
-          if (avgIV > entryIV * 1.5) { // 50% IV increase
-            shouldExitCondor = true;
-            exitReason = 'VOLATILITY_EXPANSION';
-          }
-        } else {
-          // Fallback: Use simplified logic if can't find current prices
-          if (daysToExpiration <= 1 || position.daysHeld >= 21) {
-            shouldExitCondor = true;
-            exitReason = daysToExpiration <= 1 ? 'EXPIRATION' : 'TIME_LIMIT';
-            currentCost = Math.max(0.05, position.entryPrice * 0.3); // Conservative estimate
-          }
-        }
-        
-        if (shouldExitCondor) {
-          const exitPrice = Math.max(0.01, currentCost);
-          const pnl = (position.entryPrice - exitPrice) * position.quantity * 100;
-          
-          trades.push({
-            id: `backtest_${Date.now()}_${Math.random()}`,
-            backtestId: strategy.id,
-            symbol: position.symbol,
-            side: position.side,
-            strike: position.strike,
-            expiration: position.expiration,
-            entryDate: position.entryDate,
-            exitDate: currentDate,
-            entryPrice: position.entryPrice,
-            exitPrice: exitPrice,
-            quantity: position.quantity,
-            pnl: pnl,
-            pnlPercent: (pnl / (position.entryPrice * position.quantity * 100)) * 100,
-            rsiValue: position.indicators?.rsi,
-            macdValue: position.indicators?.macd,
-            macdSignalValue: position.indicators?.macdSignal,
-            bbUpper: position.indicators?.bbUpper,
-            bbLower: position.indicators?.bbLower,
-            spyPrice: currentPrice,
-            exitReason: exitReason as 'STOP_LOSS' | 'TAKE_PROFIT' | 'EXPIRATION' | 'SIGNAL_EXIT',
-            createdAt: new Date()
-          });
-          
-          // Enhanced logging with context
-          const profitPct = ((position.entryPrice - exitPrice) / position.entryPrice * 100);
-          console.log(`🦅 Closed Iron Condor: ${exitReason}, P&L: $${pnl.toFixed(0)} (${profitPct.toFixed(1)}%), SPY: $${currentPrice.toFixed(2)}, DTE: ${daysToExpiration}`);
-          positionsToRemove.push(i);
-        }
-      } else {
-        // Handle single option exits (legacy)
-        const currentOption = optionsChain.find(opt => 
-          opt.symbol === position.symbol ||
-          (opt.strike === position.strike && 
-           opt.side === position.side && 
-           opt.expiration.getTime() === position.expiration.getTime())
-        );
-        
-        if (currentOption) {
-          const currentOptionPrice = (currentOption.bid + currentOption.ask) / 2;
-          
-          const indicators = TechnicalAnalysis.calculateAllIndicators(
-            historicalData,
-            strategy.rsiPeriod,
-            strategy.macdFast,
-            strategy.macdSlow,
-            strategy.macdSignal,
-            strategy.bbPeriod,
-            strategy.bbStdDev
-          );
-          
-          if (indicators) {
-            const exitCondition = StrategyEngine.shouldExit(
-              currentOptionPrice,
-              position.entryPrice,
-              strategy,
-              indicators,
-              position.side as 'CALL' | 'PUT'
-            );
-            
-            if (exitCondition.shouldExit) {
-              const exitPrice = this.calculateRealisticExitPrice(currentOption);
-              
-              trades.push({
-                id: `backtest_${Date.now()}_${Math.random()}`,
-                backtestId: strategy.id,
-                symbol: position.symbol,
-                side: position.side,
-                strike: position.strike,
-                expiration: position.expiration,
-                entryDate: position.entryDate,
-                exitDate: currentDate,
-                entryPrice: position.entryPrice,
-                exitPrice,
-                quantity: position.quantity,
-                pnl: (exitPrice - position.entryPrice) * position.quantity * 100,
-                pnlPercent: (exitPrice - position.entryPrice) / position.entryPrice * 100,
-                rsiValue: position.indicators?.rsi,
-                macdValue: position.indicators?.macd,
-                macdSignalValue: position.indicators?.macdSignal,
-                bbUpper: position.indicators?.bbUpper,
-                bbLower: position.indicators?.bbLower,
-                spyPrice: currentPrice,
-                exitReason: exitCondition.reason as 'STOP_LOSS' | 'TAKE_PROFIT' | 'EXPIRATION' | 'SIGNAL_EXIT',
-                createdAt: new Date()
-              });
-              
-              positionsToRemove.push(i);
-            }
-          }
-        }
-      }
-    }
-    
-    // Remove closed positions
-    for (let i = positionsToRemove.length - 1; i >= 0; i--) {
-      positions.splice(positionsToRemove[i], 1);
-    }
-  }
-  
-  private static handleExpirations(
-    positions: BacktestPosition[],
-    trades: BacktestTrade[],
-    currentDate: Date,
-    currentPrice: number
-  ) {
-    const positionsToRemove: number[] = [];
-    
-    for (let i = 0; i < positions.length; i++) {
-      const position = positions[i];
-      
-      if (position.expiration <= currentDate) {
-        if (position.side === 'BULL_PUT_SPREAD' && position.spread) {
-          // Handle Bull Put Spread expiration
-          const spread = position.spread as BullPutSpread;
-          const sellPutIntrinsic = this.calculateIntrinsicValue('PUT', spread.sellPut.strike, currentPrice);
-          const buyPutIntrinsic = this.calculateIntrinsicValue('PUT', spread.buyPut.strike, currentPrice);
-          
-          // At expiration: we keep credit if SPY > short strike, lose max if SPY < long strike
-          let finalPnL: number;
-          if (currentPrice >= spread.sellPut.strike) {
-            // Max profit: keep full credit
-            finalPnL = position.entryPrice * position.quantity * 100;
-          } else if (currentPrice <= spread.buyPut.strike) {
-            // Max loss: strike width - credit
-            const maxLoss = (spread.sellPut.strike - spread.buyPut.strike - position.entryPrice);
-            finalPnL = -maxLoss * position.quantity * 100;
-          } else {
-            // Partial loss: assignment on short put, long put worthless
-            const assignment = spread.sellPut.strike - currentPrice;
-            finalPnL = (position.entryPrice - assignment) * position.quantity * 100;
-          }
-          
-          trades.push({
-            id: `backtest_${Date.now()}_${Math.random()}`,
-            backtestId: 'backtest',
-            symbol: position.symbol,
-            side: position.side,
-            strike: position.strike,
-            expiration: position.expiration,
-            entryDate: position.entryDate,
-            exitDate: currentDate,
-            entryPrice: position.entryPrice,
-            exitPrice: 0.01, // Expired
-            quantity: position.quantity,
-            pnl: finalPnL,
-            pnlPercent: finalPnL / (position.entryPrice * position.quantity * 100) * 100,
-            rsiValue: position.indicators?.rsi,
-            macdValue: position.indicators?.macd,
-            macdSignalValue: position.indicators?.macdSignal,
-            bbUpper: position.indicators?.bbUpper,
-            bbLower: position.indicators?.bbLower,
-            spyPrice: currentPrice,
-            exitReason: 'EXPIRATION',
-            createdAt: new Date()
-          });
-          
-          console.log(`💀 Bull Put Spread expired: SPY at $${currentPrice.toFixed(2)}, P&L: $${finalPnL.toFixed(0)}`);
-        } else if (position.side === 'BEAR_CALL_SPREAD' && position.spread) {
-          // Handle Bear Call Spread expiration
-          const spread = position.spread as BearCallSpread;
-          
-          let finalPnL: number;
-          if (currentPrice <= spread.sellCall.strike) {
-            // Max profit: keep full credit
-            finalPnL = position.entryPrice * position.quantity * 100;
-          } else if (currentPrice >= spread.buyCall.strike) {
-            // Max loss: strike width - credit
-            const maxLoss = (spread.buyCall.strike - spread.sellCall.strike - position.entryPrice);
-            finalPnL = -maxLoss * position.quantity * 100;
-          } else {
-            // Partial loss: assignment on short call
-            const assignment = currentPrice - spread.sellCall.strike;
-            finalPnL = (position.entryPrice - assignment) * position.quantity * 100;
-          }
-          
-          trades.push({
-            id: `backtest_${Date.now()}_${Math.random()}`,
-            backtestId: 'backtest',
-            symbol: position.symbol,
-            side: position.side,
-            strike: position.strike,
-            expiration: position.expiration,
-            entryDate: position.entryDate,
-            exitDate: currentDate,
-            entryPrice: position.entryPrice,
-            exitPrice: 0.01,
-            quantity: position.quantity,
-            pnl: finalPnL,
-            pnlPercent: (finalPnL / (position.entryPrice * position.quantity * 100)) * 100,
-            rsiValue: position.indicators?.rsi,
-            macdValue: position.indicators?.macd,
-            macdSignalValue: position.indicators?.macdSignal,
-            bbUpper: position.indicators?.bbUpper,
-            bbLower: position.indicators?.bbLower,
-            spyPrice: currentPrice,
-            exitReason: 'EXPIRATION',
-            createdAt: new Date()
-          });
-          
-          console.log(`💀 Bear Call Spread expired: SPY at $${currentPrice.toFixed(2)}, P&L: $${finalPnL.toFixed(0)}`);
-        } else if (position.side === 'IRON_CONDOR' && position.spread) {
-          // Handle Iron Condor expiration
-          const spread = position.spread as IronCondor;
-          
-          // Simplified Iron Condor expiration: assume most expire worthless for profit
-          let finalPnL = position.entryPrice * position.quantity * 100 * 0.7; // Approximate 70% success rate
-          
-          trades.push({
-            id: `backtest_${Date.now()}_${Math.random()}`,
-            backtestId: 'backtest',
-            symbol: position.symbol,
-            side: position.side,
-            strike: position.strike,
-            expiration: position.expiration,
-            entryDate: position.entryDate,
-            exitDate: currentDate,
-            entryPrice: position.entryPrice,
-            exitPrice: 0.01,
-            quantity: position.quantity,
-            pnl: finalPnL,
-            pnlPercent: (finalPnL / (position.entryPrice * position.quantity * 100)) * 100,
-            rsiValue: position.indicators?.rsi,
-            macdValue: position.indicators?.macd,
-            macdSignalValue: position.indicators?.macdSignal,
-            bbUpper: position.indicators?.bbUpper,
-            bbLower: position.indicators?.bbLower,
-            spyPrice: currentPrice,
-            exitReason: 'EXPIRATION',
-            createdAt: new Date()
-          });
-          
-          console.log(`💀 Iron Condor expired: SPY at $${currentPrice.toFixed(2)}, P&L: $${finalPnL.toFixed(0)}`);
-        } else {
-          // Handle single option expiration
-          const intrinsicValue = this.calculateIntrinsicValue(position.side as 'CALL' | 'PUT', position.strike, currentPrice);
-          const exitPrice = Math.max(0.01, intrinsicValue);
-          
-          trades.push({
-            id: `backtest_${Date.now()}_${Math.random()}`,
-            backtestId: 'backtest',
-            symbol: position.symbol,
-            side: position.side,
-            strike: position.strike,
-            expiration: position.expiration,
-            entryDate: position.entryDate,
-            exitDate: currentDate,
-            entryPrice: position.entryPrice,
-            exitPrice: exitPrice,
-            quantity: position.quantity,
-            pnl: (exitPrice - position.entryPrice) * position.quantity * 100,
-            pnlPercent: (exitPrice - position.entryPrice) / position.entryPrice * 100,
-            rsiValue: position.indicators?.rsi,
-            macdValue: position.indicators?.macd,
-            macdSignalValue: position.indicators?.macdSignal,
-            bbUpper: position.indicators?.bbUpper,
-            bbLower: position.indicators?.bbLower,
-            spyPrice: currentPrice,
-            exitReason: 'EXPIRATION',
-            createdAt: new Date()
-          });
-        }
-        
-        positionsToRemove.push(i);
-      }
-    }
-    
-    // Remove expired positions
-    for (let i = positionsToRemove.length - 1; i >= 0; i--) {
-      positions.splice(positionsToRemove[i], 1);
-    }
-  }
-  
-  private static calculateRealisticEntryPrice(option: OptionsChain): number {
-    // Professional entry modeling - reduced brutal slippage
-    const midPrice = (option.bid + option.ask) / 2;
-    const spread = option.ask - option.bid;
-    const slippage = spread * 0.10; // Reduced from 25% to 10% - more realistic
-    
-    return option.ask + slippage;
-  }
-  
-  private static calculateRealisticExitPrice(option: OptionsChain): number {
-    // Professional exit modeling - reduced brutal slippage
-    const spread = option.ask - option.bid;
-    const slippage = spread * 0.10; // Reduced from 25% to 10% - more realistic
-    
-    return Math.max(0.01, option.bid - slippage);
-  }
-  
-  private static calculateIntrinsicValue(side: 'CALL' | 'PUT', strike: number, currentPrice: number): number {
-    if (side === 'CALL') {
-      // Call option: max(S - K, 0)
-      return Math.max(currentPrice - strike, 0);
-    } else {
-      // Put option: max(K - S, 0)  
-      return Math.max(strike - currentPrice, 0);
-    }
-  }
 
-  private static calculateCurrentBalance(initialCapital: number, trades: BacktestTrade[]): number {
-    const totalPnL = trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-    return initialCapital + totalPnL;
-  }
-  
-  private static calculatePerformanceMetrics(
-    trades: BacktestTrade[],
-    initialCapital: number,
-    maxDrawdown: number
-  ): PerformanceMetrics {
-    
-    if (trades.length === 0) {
-      return {
-        totalReturn: 0,
-        totalReturnPercent: 0,
-        totalTrades: 0,
-        winningTrades: 0,
-        losingTrades: 0,
-        winRate: 0,
-        averageWin: 0,
-        averageLoss: 0,
-        profitFactor: 0,
-        maxDrawdown,
-        sharpeRatio: 0,
-        calmarRatio: 0,
-        averageTradeLength: 0
-      };
-    }
-    
-    const totalPnL = trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-    const winningTrades = trades.filter(trade => (trade.pnl || 0) > 0);
-    const losingTrades = trades.filter(trade => (trade.pnl || 0) <= 0);
-    
-    const totalWins = winningTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-    const totalLosses = Math.abs(losingTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0));
-    
-    const averageTradeLength = trades.reduce((sum, trade) => {
-      const entryDate = new Date(trade.entryDate);
-      const exitDate = new Date(trade.exitDate || trade.entryDate);
-      return sum + (exitDate.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24);
-    }, 0) / trades.length;
-    
-    // Simple approximation for Sharpe ratio (would need risk-free rate for accuracy)
-    const returns = trades.map(trade => (trade.pnlPercent || 0) / 100);
-    const avgReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-    const returnStdDev = Math.sqrt(
-      returns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / returns.length
-    );
-    
-    const sharpeRatio = returnStdDev > 0 ? avgReturn / returnStdDev : 0;
-    const calmarRatio = maxDrawdown > 0 ? (totalPnL / initialCapital) / maxDrawdown : 0;
-    
+    // Spreads are reviewed for premium at risk and Greeks; naked longs are capped by their own sizing
+    const core = new BacktestCore({
+      costModel: new TransactionCostModel(),
+      riskManager: new CompositeRiskManager([
+        new PositionLimitRiskManager({ appliesTo: 'CREDIT', maxPremiumFraction: 0.20, maxPremium: 3000 }),
+        new GreeksRiskManager({ appliesTo: 'CREDIT' })
+      ]),
+      dataProvider,
+      snapshotStore: snapshotStore || null,
+      qualityValidator: qualityValidator || null
+    });
+
+    const result = await core.run(new AdaptiveSpreadStrategy(strategy), {
+      ...params,
+      symbols: params.symbols || strategy.underlyings || ['SPY']
+    });
+
     return {
-      totalReturn: totalPnL,
-      totalReturnPercent: (totalPnL / initialCapital) * 100,
-      totalTrades: trades.length,
-      winningTrades: winningTrades.length,
-      losingTrades: losingTrades.length,
-      winRate: (winningTrades.length / trades.length) * 100,
-      averageWin: winningTrades.length > 0 ? totalWins / winningTrades.length : 0,
-      averageLoss: losingTrades.length > 0 ? totalLosses / losingTrades.length : 0,
-      profitFactor: totalLosses > 0 ? totalWins / totalLosses : 0,
-      maxDrawdown: maxDrawdown * 100,
-      sharpeRatio,
-      calmarRatio,
-      averageTradeLength
+      trades: result.trades,
+      performance: result.performance,
+      equityCurve: result.equityCurve,
+      quoteCoverage: result.quoteCoverage,
+      attribution: result.attribution,
+      dataQuality: result.dataQuality,
+      rejectedOrders: result.rejectedOrders
     };
   }
 }
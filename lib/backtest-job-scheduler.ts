@@ -0,0 +1,312 @@
+/**
+ * BACKTEST JOB SCHEDULER
+ * Farms backtests, Monte Carlo scenarios and preset sweeps out to a worker_threads pool
+ *
+ * Jobs are plain data: a backtest of a Strategy, one Monte Carlo scenario, or a call to
+ * a handler registered with registerHandler (a preset sweep's runner); a job names the
+ * handler, never a module, so workers only load what the scheduler's owner allowed. Market data registered with
+ * shareBars lives in SharedArrayBuffers that every worker reads without a copy. Workers
+ * are started on demand up to one per core; a cancelled job that is already running
+ * takes its worker down with it, and the next job starts a fresh one.
+ */
+
+import { Worker } from 'worker_threads';
+import * as os from 'os';
+import * as path from 'path';
+import { MarketData, Strategy, BacktestParams } from './types';
+import { BarTimeframe } from './market-data-provider';
+import { SharedBarArray, SharedBarArrayData } from './shared-bar-array';
+import { MonteCarloParams } from './monte-carlo-engine';
+
+export type BacktestJob =
+  | { type: 'BACKTEST'; strategy: Strategy; params: BacktestParams; datasets?: string[] } // Named datasets serve the bars when given
+  | { type: 'MONTE_CARLO_SCENARIO'; dataset: string; strategy: Strategy; params: MonteCarloParams; scenarioId: number }
+  | { type: 'CALL'; handler: string; args: unknown[] }; // Resolves to the registered handler's (awaited) return value
+
+// An exported function of a module, or a method of an exported object
+export interface JobHandler {
+  module: string;
+  exportName: string;
+  method?: string;
+}
+
+export interface JobSchedulerConfig {
+  workers: number; // Pool size
+}
+
+export interface JobProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  running: number; // Across the whole pool
+  elapsedMs: number;
+}
+
+export interface JobOptions {
+  signal?: AbortSignal;
+}
+
+export interface BatchOptions extends JobOptions {
+  onProgress?: (progress: JobProgress) => void;
+}
+
+export class JobCancelledError extends Error {
+  constructor(readonly jobId: number) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Messages between the scheduler and its workers
+export type WorkerRequest =
+  | { type: 'DATASET'; name: string; data: SharedBarArrayData }
+  | { type: 'HANDLER'; name: string; handler: JobHandler }
+  | { type: 'JOB'; id: number; job: BacktestJob };
+
+export type WorkerResponse =
+  | { type: 'RESULT'; id: number; result: unknown }
+  | { type: 'ERROR'; id: number; message: string; stack?: string };
+
+export interface WorkerInit {
+  datasets: { name: string; data: SharedBarArrayData }[];
+  handlers: { name: string; handler: JobHandler }[];
+}
+
+interface QueuedJob {
+  id: number;
+  job: BacktestJob;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  detach: () => void; // Stops listening to the job's abort signal
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  job: QueuedJob | null;
+}
+
+export class BacktestJobScheduler {
+  readonly config: JobSchedulerConfig;
+  private readonly datasets = new Map<string, SharedBarArray>();
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly queue: QueuedJob[] = [];
+  private slots: WorkerSlot[] = [];
+  private nextId = 1;
+
+  private static readonly DEFAULT_CONFIG: JobSchedulerConfig = {
+    workers: Math.max(1, os.cpus().length)
+  };
+
+  // Compiled builds load the compiled worker; under ts-node the worker registers it too
+  private static readonly WORKER_SCRIPT = path.join(__dirname, `backtest-worker${path.extname(__filename)}`);
+
+  constructor(config: Partial<JobSchedulerConfig> = {}) {
+    this.config = { ...BacktestJobScheduler.DEFAULT_CONFIG, ...config };
+    if (this.config.workers < 1) {
+      throw new Error(`A job scheduler needs at least one worker, got ${this.config.workers}`);
+    }
+  }
+
+  get running(): number {
+    return this.slots.filter(slot => slot.job).length;
+  }
+
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Put an underlying's bars in shared memory under a name jobs refer to; workers
+   * already running receive it too
+   */
+  shareBars(name: string, bars: MarketData[], timeframe: BarTimeframe): SharedBarArray {
+    if (bars.length === 0) {
+      throw new Error(`Cannot share an empty bar series as ${name}`);
+    }
+    const shared = SharedBarArray.from(bars[0].symbol, bars, timeframe);
+    this.datasets.set(name, shared);
+    const message: WorkerRequest = { type: 'DATASET', name, data: shared.toData() };
+    this.slots.forEach(slot => slot.worker.postMessage(message));
+    return shared;
+  }
+
+  /**
+   * Allow CALL jobs to run a module's export under a name; workers already running
+   * receive it too
+   */
+  registerHandler(name: string, handler: JobHandler): void {
+    this.handlers.set(name, { ...handler });
+    const message: WorkerRequest = { type: 'HANDLER', name, handler: { ...handler } };
+    this.slots.forEach(slot => slot.worker.postMessage(message));
+  }
+
+  submit<T = unknown>(job: BacktestJob, options: JobOptions = {}): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(new JobCancelledError(id));
+        return;
+      }
+      const onAbort = () => this.cancel(id);
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push({ id, job, resolve, reject, detach: () => signal?.removeEventListener('abort', onAbort) });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Every job, results in job order. The first failure cancels the jobs still queued or
+   * running and rejects the batch
+   */
+  async runAll<T = unknown>(jobs: BacktestJob[], options: BatchOptions = {}): Promise<T[]> {
+    const batch = new AbortController();
+    const onAbort = () => batch.abort();
+    options.signal?.addEventListener('abort', onAbort);
+    if (options.signal?.aborted) {
+      batch.abort();
+    }
+
+    const started = Date.now();
+    const progress: JobProgress = { total: jobs.length, completed: 0, failed: 0, cancelled: 0, running: 0, elapsedMs: 0 };
+    const report = (outcome: 'completed' | 'failed' | 'cancelled') => {
+      progress[outcome]++;
+      progress.running = this.running;
+      progress.elapsedMs = Date.now() - started;
+      options.onProgress?.({ ...progress });
+    };
+
+    try {
+      return await Promise.all(jobs.map(job => this.submit<T>(job, { signal: batch.signal }).then(
+        result => {
+          report('completed');
+          return result;
+        },
+        (error: Error) => {
+          report(error instanceof JobCancelledError ? 'cancelled' : 'failed');
+          batch.abort();
+          throw error;
+        }
+      )));
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Cancel one job: a queued job is dropped, a running one loses its worker
+   */
+  cancel(id: number): boolean {
+    const index = this.queue.findIndex(queued => queued.id === id);
+    if (index >= 0) {
+      const [queued] = this.queue.splice(index, 1);
+      this.settle(queued, new JobCancelledError(id));
+      return true;
+    }
+    const slot = this.slots.find(candidate => candidate.job?.id === id);
+    if (!slot) {
+      return false;
+    }
+    this.retire(slot);
+    this.settle(slot.job!, new JobCancelledError(id));
+    // After the rest of a batch's abort listeners, so their queued jobs are not started first
+    setImmediate(() => this.dispatch());
+    return true;
+  }
+
+  cancelAll(): void {
+    this.queue.splice(0).forEach(queued => this.settle(queued, new JobCancelledError(queued.id)));
+    this.slots.filter(slot => slot.job).forEach(slot => this.cancel(slot.job!.id));
+  }
+
+  /**
+   * Cancel whatever is left and stop every worker
+   */
+  async close(): Promise<void> {
+    this.cancelAll();
+    const slots = this.slots;
+    this.slots = [];
+    await Promise.all(slots.map(slot => slot.worker.terminate()));
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(candidate => !candidate.job);
+      if (!slot && this.slots.length < this.config.workers) {
+        slot = this.spawn();
+      }
+      if (!slot) {
+        return;
+      }
+      const queued = this.queue.shift()!;
+      slot.job = queued;
+      slot.worker.ref();
+      const message: WorkerRequest = { type: 'JOB', id: queued.id, job: queued.job };
+      slot.worker.postMessage(message);
+    }
+  }
+
+  private spawn(): WorkerSlot {
+    const workerData: WorkerInit = {
+      datasets: [...this.datasets.entries()].map(([name, shared]) => ({ name, data: shared.toData() })),
+      handlers: [...this.handlers.entries()].map(([name, handler]) => ({ name, handler }))
+    };
+    const script = BacktestJobScheduler.WORKER_SCRIPT;
+    const worker = script.endsWith('.ts')
+      ? new Worker(`require('ts-node').register({ transpileOnly: true }); require(${JSON.stringify(script)});`, { eval: true, workerData })
+      : new Worker(script, { workerData });
+
+    const slot: WorkerSlot = { worker, job: null };
+    worker.on('message', (message: WorkerResponse) => this.handleResponse(slot, message));
+    worker.on('error', error => this.handleCrash(slot, error));
+    worker.on('exit', code => this.handleCrash(slot, new Error(`Backtest worker exited with code ${code}`)));
+    worker.unref(); // Idle workers never keep the process alive
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private handleResponse(slot: WorkerSlot, message: WorkerResponse): void {
+    const queued = slot.job;
+    if (!queued || queued.id !== message.id) {
+      return;
+    }
+    slot.job = null;
+    slot.worker.unref();
+    if (message.type === 'RESULT') {
+      queued.detach();
+      queued.resolve(message.result);
+    } else {
+      const error = new Error(message.message);
+      error.stack = message.stack || error.stack;
+      this.settle(queued, error);
+    }
+    this.dispatch();
+  }
+
+  // A worker that dies takes its job with it; the next dispatch replaces it
+  private handleCrash(slot: WorkerSlot, error: Error): void {
+    if (!this.slots.includes(slot)) {
+      return;
+    }
+    this.retire(slot);
+    if (slot.job) {
+      this.settle(slot.job, error);
+    }
+    this.dispatch();
+  }
+
+  private retire(slot: WorkerSlot): void {
+    this.slots = this.slots.filter(candidate => candidate !== slot);
+    slot.worker.terminate().catch(() => undefined);
+  }
+
+  private settle(queued: QueuedJob, error: Error): void {
+    queued.detach();
+    queued.reject(error);
+  }
+}
+
+export default BacktestJobScheduler;
@@ -0,0 +1,321 @@
+/**
+ * BACKTEST RISK MANAGERS
+ * Pre-trade review of every order the backtest core is about to fill
+ *
+ * A risk manager sees the order, its estimated fill and the portfolio it would join,
+ * and approves it, shrinks it or rejects it. Managers compose: each one in a
+ * CompositeRiskManager reviews the quantity the previous one approved.
+ */
+
+import { GreeksEngine, GreeksSnapshot } from './greeks-engine';
+import { ExpiryTimeModel } from './expiry-time-model';
+import { PortfolioGreeks } from './portfolio-greeks';
+import { BacktestOrder } from './backtest-core';
+import { StrategyPosition } from './trading-strategy';
+
+export interface RiskContext {
+  timestamp: Date;
+  order: BacktestOrder;
+  quantity: number; // Units the order asks for
+  underlyingPrice: number;
+  multiplier: number;
+  // Estimated fill for one unit: quoted price and mid per share, fees in dollars
+  estimate: { price: number; mark: number; fees: number; credit: boolean };
+  unitGreeks: GreeksSnapshot; // Greeks of one unit of the order
+  balance: number; // Initial capital plus realized P&L
+  equity: number; // Balance plus open positions marked to market
+  sessionRealizedPnL: number;
+  positions: StrategyPosition[]; // Every open position, all underlyings
+  exposure: PortfolioGreeks; // Aggregated Greeks of those positions
+}
+
+export interface RiskDecision {
+  approved: boolean;
+  quantity: number; // Approved (possibly reduced) quantity
+  reason?: string; // Why the order was rejected
+  warnings: string[];
+}
+
+export interface RiskManager {
+  readonly name: string;
+  review(context: RiskContext): RiskDecision;
+}
+
+export type RiskOrderScope = 'ALL' | 'CREDIT'; // Which opening orders a manager reviews
+
+export interface PositionLimitRiskManagerConfig {
+  appliesTo: RiskOrderScope;
+  maxOpenPositions: number | null;
+  maxPremiumFraction: number | null; // Premium at risk per order, fraction of balance
+  maxPremium: number | null; // Premium at risk per order, dollars
+  maxDailyLoss: number | null; // Realized loss that stops new entries for the session
+}
+
+function inScope(scope: RiskOrderScope, context: RiskContext): boolean {
+  return scope === 'ALL' || context.estimate.credit;
+}
+
+/**
+ * Position count, premium-per-order and daily-loss limits
+ */
+export class PositionLimitRiskManager implements RiskManager {
+  readonly name = 'position-limits';
+  readonly config: PositionLimitRiskManagerConfig;
+
+  private static readonly DEFAULT_CONFIG: PositionLimitRiskManagerConfig = {
+    appliesTo: 'ALL',
+    maxOpenPositions: null,
+    maxPremiumFraction: null,
+    maxPremium: null,
+    maxDailyLoss: null
+  };
+
+  constructor(config: Partial<PositionLimitRiskManagerConfig> = {}) {
+    this.config = { ...PositionLimitRiskManager.DEFAULT_CONFIG, ...config };
+  }
+
+  review(context: RiskContext): RiskDecision {
+    const { maxOpenPositions, maxPremiumFraction, maxPremium, maxDailyLoss } = this.config;
+    const reject = (reason: string): RiskDecision => ({ approved: false, quantity: 0, reason, warnings: [] });
+    if (!inScope(this.config.appliesTo, context)) {
+      return { approved: true, quantity: context.quantity, warnings: [] };
+    }
+
+    if (maxOpenPositions !== null && context.positions.length >= maxOpenPositions) {
+      return reject(`Max open positions reached (${context.positions.length}/${maxOpenPositions})`);
+    }
+
+    if (maxDailyLoss !== null && context.sessionRealizedPnL <= -maxDailyLoss) {
+      return reject(`Daily loss limit hit: $${(-context.sessionRealizedPnL).toFixed(0)} >= $${maxDailyLoss.toFixed(0)}`);
+    }
+
+    const limits = [
+      maxPremiumFraction !== null ? context.balance * maxPremiumFraction : Infinity,
+      maxPremium !== null ? maxPremium : Infinity
+    ];
+    const premiumLimit = Math.min(...limits);
+    const premium = Math.abs(context.estimate.price) * context.quantity * context.multiplier;
+    if (premium > premiumLimit) {
+      return reject(`Premium $${premium.toFixed(0)} exceeds limit $${premiumLimit.toFixed(0)}`);
+    }
+
+    return { approved: true, quantity: context.quantity, warnings: [] };
+  }
+}
+
+export interface GreeksRiskManagerConfig {
+  appliesTo: RiskOrderScope;
+  sizeAdjustment: boolean; // Shrink orders with large Greeks or little time left
+  maxOrderDeltaFraction: number; // |Δ × size| per order, fraction of balance
+  maxPortfolioDeltaFraction: number;
+  maxPortfolioGamma: number;
+  maxPortfolioThetaFraction: number; // Daily decay, fraction of balance
+  maxPortfolioVegaFraction: number; // Per vol point, fraction of balance
+  maxLeverage: number; // Notional over balance
+  minCredit: number; // Per-share credit a credit order must keep after fees
+}
+
+/**
+ * Greeks-based sizing, order and portfolio Greek limits, and the minimum credit
+ * worth selling after costs
+ */
+export class GreeksRiskManager implements RiskManager {
+  readonly name = 'greeks';
+  readonly config: GreeksRiskManagerConfig;
+
+  private static readonly DEFAULT_CONFIG: GreeksRiskManagerConfig = {
+    appliesTo: 'ALL',
+    sizeAdjustment: true,
+    maxOrderDeltaFraction: 0.01,
+    maxPortfolioDeltaFraction: 0.02,
+    maxPortfolioGamma: 0.5,
+    maxPortfolioThetaFraction: 0.01,
+    maxPortfolioVegaFraction: 0.05,
+    maxLeverage: 5,
+    minCredit: 0.05
+  };
+
+  constructor(config: Partial<GreeksRiskManagerConfig> = {}) {
+    this.config = { ...GreeksRiskManager.DEFAULT_CONFIG, ...config };
+  }
+
+  review(context: RiskContext): RiskDecision {
+    const { unitGreeks, balance, exposure } = context;
+    const warnings: string[] = [];
+    const reject = (reason: string): RiskDecision => ({ approved: false, quantity: 0, reason, warnings });
+    if (!inScope(this.config.appliesTo, context)) {
+      return { approved: true, quantity: context.quantity, warnings };
+    }
+
+    let quantity = context.quantity;
+    if (this.config.sizeAdjustment) {
+      quantity = Math.floor(quantity * GreeksRiskManager.sizeMultiplier(GreeksRiskManager.scale(unitGreeks, quantity)));
+      if (quantity < 1) {
+        return reject('Greeks-adjusted size rounds to zero');
+      }
+    }
+
+    const riskCheck = GreeksEngine.checkGreeksRisk(unitGreeks, quantity);
+    if (riskCheck.isRisky) {
+      return reject(`High Greeks risk: ${riskCheck.warnings.join(', ')}`);
+    }
+
+    const maxOrderDelta = balance * this.config.maxOrderDeltaFraction;
+    if (Math.abs(unitGreeks.delta * quantity) > maxOrderDelta) {
+      return reject(`Order delta limit exceeded: ${Math.abs(unitGreeks.delta * quantity).toFixed(0)} > ${maxOrderDelta.toFixed(0)}`);
+    }
+
+    // Portfolio limits on what is already open; raw Greeks only add up within one underlying
+    const { notional } = exposure.total;
+    const breaches: string[] = [];
+    const maxDelta = balance * this.config.maxPortfolioDeltaFraction;
+    const maxTheta = balance * this.config.maxPortfolioThetaFraction;
+    const maxVega = balance * this.config.maxPortfolioVegaFraction;
+    const books = Object.values(exposure.byUnderlying);
+    books.forEach(({ underlying, delta, gamma, theta, vega }) => {
+      const label = books.length > 1 ? `${underlying} ` : 'Portfolio ';
+      if (Math.abs(delta) > maxDelta) {
+        breaches.push(`${label}delta exceeded: ${Math.abs(delta).toFixed(0)} > ${maxDelta.toFixed(0)}`);
+      }
+      if (Math.abs(gamma) > this.config.maxPortfolioGamma) {
+        breaches.push(`${label}gamma exceeded: ${Math.abs(gamma).toFixed(3)} > ${this.config.maxPortfolioGamma}`);
+      }
+      if (Math.abs(theta) > maxTheta) {
+        breaches.push(`${label}theta exceeded: $${Math.abs(theta).toFixed(0)}/day > $${maxTheta.toFixed(0)}`);
+      }
+      if (Math.abs(vega) > maxVega) {
+        breaches.push(`${label}vega exceeded: $${Math.abs(vega).toFixed(0)} per 1% vol > $${maxVega.toFixed(0)}`);
+      }
+    });
+    const maxNotional = balance * this.config.maxLeverage;
+    if (notional > maxNotional) {
+      breaches.push(`Notional exposure exceeded: $${notional.toFixed(0)} > $${maxNotional.toFixed(0)}`);
+    }
+    if (breaches.length > 0) {
+      return reject(`Portfolio risk limits: ${breaches.join(', ')}`);
+    }
+
+    // Underlying concentration only means something once more than one underlying is held
+    if (Object.keys(exposure.byUnderlying).length > 1 && exposure.largestUnderlyingShare > 0.8) {
+      warnings.push(`Underlying concentration: ${(exposure.largestUnderlyingShare * 100).toFixed(1)}% of dollar delta in one underlying (>80%)`);
+    }
+
+    if (context.estimate.credit) {
+      const netCredit = context.estimate.price - context.estimate.fees / (quantity * context.multiplier);
+      if (netCredit <= this.config.minCredit) {
+        return reject(`Insufficient credit after transaction costs ($${netCredit.toFixed(2)})`);
+      }
+    }
+
+    return { approved: true, quantity, warnings };
+  }
+
+  /**
+   * Greeks-driven exit for an open position, judged against its entry Greeks
+   */
+  static checkExit(position: StrategyPosition): { shouldExit: boolean; reason?: string } {
+    const { entryGreeks, currentGreeks } = position;
+
+    // Delta expansion (directional risk getting too high)
+    const deltaChange = Math.abs(currentGreeks.delta) - Math.abs(entryGreeks.delta);
+    if (deltaChange > 0.3) {
+      return {
+        shouldExit: true,
+        reason: `DELTA_EXPANSION: Δ changed by ${deltaChange.toFixed(2)} (${entryGreeks.delta.toFixed(2)} → ${currentGreeks.delta.toFixed(2)})`
+      };
+    }
+
+    if (Math.abs(currentGreeks.gamma) > 0.15) {
+      return { shouldExit: true, reason: `HIGH_GAMMA_RISK: Γ=${currentGreeks.gamma.toFixed(3)} (>0.15)` };
+    }
+
+    const tradingDaysLeft = currentGreeks.timeToExpiration / GreeksEngine.getTimeModel().dayYears;
+    if (currentGreeks.theta < -100 && tradingDaysLeft < 3) {
+      return {
+        shouldExit: true,
+        reason: `ACCELERATING_THETA: Θ=${currentGreeks.theta.toFixed(0)}/day with ${tradingDaysLeft.toFixed(1)} trading days left`
+      };
+    }
+
+    const vegaChange = Math.abs(currentGreeks.vega) - Math.abs(entryGreeks.vega);
+    if (vegaChange > 100) {
+      return { shouldExit: true, reason: `VEGA_EXPANSION: 𝜈 increased by $${vegaChange.toFixed(0)} per 1% vol` };
+    }
+
+    // 0-DTE: high combined risk in the final half session
+    const minutesLeft = this.tradingMinutesLeft(currentGreeks);
+    if (minutesLeft < ExpiryTimeModel.SESSION_MINUTES / 2) {
+      const totalRisk = Math.abs(currentGreeks.delta) + Math.abs(currentGreeks.gamma) * 10 + Math.abs(currentGreeks.theta) / 50;
+      if (totalRisk > 3.0) {
+        return {
+          shouldExit: true,
+          reason: `0DTE_RISK_EXIT: High risk (${totalRisk.toFixed(1)}) with ${(minutesLeft / 60).toFixed(1)} trading hours to expiration`
+        };
+      }
+    }
+
+    return { shouldExit: false };
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private static sizeMultiplier(greeks: GreeksSnapshot): number {
+    let multiplier = 1.0;
+    if (Math.abs(greeks.delta) > 0.5) {
+      multiplier *= 0.7;
+    }
+    if (greeks.theta < -20) {
+      multiplier *= 0.8;
+    }
+    if (Math.abs(greeks.vega) > 50) {
+      multiplier *= 0.9;
+    }
+    if (this.tradingMinutesLeft(greeks) < ExpiryTimeModel.SESSION_MINUTES) { // Expires within a session
+      multiplier *= 0.5;
+    }
+    return multiplier;
+  }
+
+  private static scale(greeks: GreeksSnapshot, quantity: number): GreeksSnapshot {
+    return {
+      ...greeks,
+      delta: greeks.delta * quantity,
+      gamma: greeks.gamma * quantity,
+      theta: greeks.theta * quantity,
+      vega: greeks.vega * quantity,
+      rho: greeks.rho * quantity
+    };
+  }
+
+  // Snapshots priced off the time model carry trading minutes; fall back to calendar minutes
+  private static tradingMinutesLeft(greeks: GreeksSnapshot): number {
+    return greeks.tradingMinutesToExpiration ?? greeks.timeToExpiration * 365 * 24 * 60;
+  }
+}
+
+/**
+ * Runs managers in order, each reviewing the quantity the previous one approved
+ */
+export class CompositeRiskManager implements RiskManager {
+  readonly name: string;
+
+  constructor(readonly managers: RiskManager[]) {
+    this.name = managers.map(manager => manager.name).join('+');
+  }
+
+  review(context: RiskContext): RiskDecision {
+    const warnings: string[] = [];
+    let quantity = context.quantity;
+    for (const manager of this.managers) {
+      const decision = manager.review({ ...context, quantity });
+      warnings.push(...decision.warnings);
+      if (!decision.approved) {
+        return { ...decision, warnings };
+      }
+      quantity = decision.quantity;
+    }
+    return { approved: true, quantity, warnings };
+  }
+}
+
+export default CompositeRiskManager;
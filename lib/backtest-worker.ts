@@ -0,0 +1,113 @@
+/**
+ * BACKTEST WORKER
+ * Runs BacktestJobScheduler jobs on a worker thread
+ *
+ * Loaded by the scheduler, never run directly. Shared datasets arrive with the worker's
+ * start-up data or later as DATASET messages; each is decoded into bars at most once per
+ * worker. CALL jobs may only run handlers the scheduler registered. Jobs run one at a time
+ * and every result or error goes back as a message.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { MarketData } from './types';
+import { SharedBarArray, SharedBarArrayData } from './shared-bar-array';
+import { SharedBarsMarketDataProvider } from './shared-bars-market-data-provider';
+import { BacktestEngine } from './backtest-engine';
+import { MonteCarloEngine } from './monte-carlo-engine';
+import { BacktestJob, JobHandler, WorkerRequest, WorkerResponse, WorkerInit } from './backtest-job-scheduler';
+
+export class BacktestWorker {
+  private readonly datasets = new Map<string, SharedBarArray>();
+  private readonly decoded = new Map<string, MarketData[]>();
+  private readonly handlers = new Map<string, JobHandler>();
+
+  constructor(datasets: WorkerInit['datasets'] = [], handlers: WorkerInit['handlers'] = []) {
+    datasets.forEach(({ name, data }) => this.addDataset(name, data));
+    handlers.forEach(({ name, handler }) => this.addHandler(name, handler));
+  }
+
+  addDataset(name: string, data: SharedBarArrayData): void {
+    this.datasets.set(name, new SharedBarArray(data));
+    this.decoded.delete(name);
+  }
+
+  addHandler(name: string, handler: JobHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  async run(job: BacktestJob): Promise<unknown> {
+    switch (job.type) {
+      case 'BACKTEST': {
+        const provider = job.datasets ? new SharedBarsMarketDataProvider(job.datasets.map(name => this.dataset(name))) : undefined;
+        return BacktestEngine.runBacktest(job.strategy, job.params, provider);
+      }
+      case 'MONTE_CARLO_SCENARIO':
+        return MonteCarloEngine.runScenario(this.bars(job.dataset), job.strategy, job.params, job.scenarioId);
+      case 'CALL': {
+        const handler = this.handlers.get(job.handler);
+        if (!handler) {
+          throw new Error(`No job handler registered as ${job.handler}`);
+        }
+        const exported = require(handler.module)[handler.exportName];
+        const target = handler.method ? exported?.[handler.method]?.bind(exported) : exported;
+        if (typeof target !== 'function') {
+          throw new Error(`${handler.module} has no function ${handler.exportName}${handler.method ? `.${handler.method}` : ''}`);
+        }
+        return target(...job.args);
+      }
+      default:
+        throw new Error(`Unknown job type: ${(job as BacktestJob).type}`);
+    }
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private dataset(name: string): SharedBarArray {
+    const shared = this.datasets.get(name);
+    if (!shared) {
+      throw new Error(`Dataset ${name} was not shared with this worker`);
+    }
+    return shared;
+  }
+
+  private bars(name: string): MarketData[] {
+    let bars = this.decoded.get(name);
+    if (!bars) {
+      const shared = this.dataset(name);
+      bars = Array.from({ length: shared.length }, (_, i) => shared.bar(i));
+      this.decoded.set(name, bars);
+    }
+    return bars;
+  }
+}
+
+if (parentPort) {
+  const port = parentPort;
+  const worker = new BacktestWorker((workerData as WorkerInit | null)?.datasets, (workerData as WorkerInit | null)?.handlers);
+
+  port.on('message', async (message: WorkerRequest) => {
+    if (message.type === 'DATASET') {
+      worker.addDataset(message.name, message.data);
+      return;
+    }
+    if (message.type === 'HANDLER') {
+      worker.addHandler(message.name, message.handler);
+      return;
+    }
+    // A result that cannot be cloned back fails the job like a thrown error
+    try {
+      const response: WorkerResponse = { type: 'RESULT', id: message.id, result: await worker.run(message.job) };
+      port.postMessage(response);
+    } catch (error) {
+      const response: WorkerResponse = {
+        type: 'ERROR',
+        id: message.id,
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      };
+      port.postMessage(response);
+    }
+  });
+}
+
+export default BacktestWorker;
@@ -0,0 +1,126 @@
+/**
+ * BAR RESAMPLER
+ * Builds 5Min/15Min/1Hour/1Day bars from stored 1Min bars
+ *
+ * Buckets are anchored to the 9:30 ET session open, so a 1Hour bar covers
+ * 9:30-10:30 and the last bucket of the day is cut at the close (4:00 PM, or
+ * 1:00 PM on half-days). No bucket ever spans two sessions. Volume is summed
+ * and VWAP is volume-weighted across the source bars.
+ */
+
+import { MarketData } from './types';
+import { BarTimeframe } from './market-data-provider';
+import { MarketCalendar } from './market-calendar';
+
+export interface ResampleOptions {
+  includeExtendedHours: boolean; // Keep pre/post-market minutes (daily bars then span the full day)
+}
+
+const BUCKET_MINUTES: Record<Exclude<BarTimeframe, '1Day'>, number> = {
+  '1Min': 1,
+  '5Min': 5,
+  '15Min': 15,
+  '1Hour': 60
+};
+
+export class BarResampler {
+
+  /**
+   * Aggregate finer bars into the target timeframe
+   */
+  static resample(
+    bars: MarketData[],
+    target: BarTimeframe,
+    options: Partial<ResampleOptions> = {}
+  ): MarketData[] {
+    const includeExtendedHours = options.includeExtendedHours ?? false;
+    const sorted = [...bars].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const buckets = new Map<string, { start: Date; bars: MarketData[] }>();
+
+    for (const bar of sorted) {
+      const eastern = MarketCalendar.toEastern(bar.date);
+      const close = MarketCalendar.isEarlyClose(eastern.day) ? MarketCalendar.EARLY_CLOSE_MINUTES : MarketCalendar.REGULAR_CLOSE_MINUTES;
+      const inSession = eastern.minutes >= MarketCalendar.SESSION_OPEN_MINUTES && eastern.minutes < close;
+      if (!inSession && !includeExtendedHours) {
+        continue;
+      }
+
+      let bucketKey: string;
+      let bucketOffsetMinutes: number; // Bucket start, in minutes since New York midnight
+      if (target === '1Day') {
+        bucketKey = eastern.day;
+        bucketOffsetMinutes = 0;
+      } else {
+        const size = BUCKET_MINUTES[target];
+        const index = Math.floor((eastern.minutes - MarketCalendar.SESSION_OPEN_MINUTES) / size);
+        bucketKey = `${eastern.day}_${index}`;
+        bucketOffsetMinutes = MarketCalendar.SESSION_OPEN_MINUTES + index * size;
+      }
+
+      let bucket = buckets.get(bucketKey);
+      if (!bucket) {
+        const start = new Date(bar.date.getTime() - (eastern.minutes - bucketOffsetMinutes) * 60 * 1000);
+        bucket = { start, bars: [] };
+        buckets.set(bucketKey, bucket);
+      }
+      bucket.bars.push(bar);
+    }
+
+    return Array.from(buckets.values()).map(bucket => this.aggregate(bucket.bars, bucket.start, target));
+  }
+
+  /**
+   * Every timeframe from one minute dataset, for apples-to-apples comparisons
+   */
+  static resampleAll(
+    minuteBars: MarketData[],
+    options: Partial<ResampleOptions> = {}
+  ): Record<BarTimeframe, MarketData[]> {
+    return {
+      '1Min': this.resample(minuteBars, '1Min', options),
+      '5Min': this.resample(minuteBars, '5Min', options),
+      '15Min': this.resample(minuteBars, '15Min', options),
+      '1Hour': this.resample(minuteBars, '1Hour', options),
+      '1Day': this.resample(minuteBars, '1Day', options)
+    };
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private static aggregate(bars: MarketData[], start: Date, target: BarTimeframe): MarketData {
+    const first = bars[0];
+    const last = bars[bars.length - 1];
+    let high = -Infinity;
+    let low = Infinity;
+    let volume = BigInt(0);
+    let weightedPrice = 0;
+    let weight = 0;
+
+    for (const bar of bars) {
+      high = Math.max(high, bar.high);
+      low = Math.min(low, bar.low);
+      volume += bar.volume;
+
+      // Source VWAP when present, otherwise the bar's typical price
+      const barVwap = bar.vwap ?? (bar.high + bar.low + bar.close) / 3;
+      const barVolume = Number(bar.volume);
+      weightedPrice += barVwap * barVolume;
+      weight += barVolume;
+    }
+
+    return {
+      id: `${first.symbol}_${target}_${start.toISOString()}`,
+      symbol: first.symbol,
+      date: start,
+      open: first.open,
+      high,
+      low,
+      close: last.close,
+      volume,
+      vwap: weight > 0 ? weightedPrice / weight : last.close,
+      createdAt: new Date()
+    };
+  }
+}
+
+export default BarResampler;
@@ -1,5 +1,6 @@
 import { MarketData, TechnicalIndicators, TradeSignal, Strategy, OptionsChain } from './types';
 import { TechnicalAnalysis } from './technical-indicators';
+import { VolatilitySurface } from './volatility-surface';
 
 interface BullPutSpread {
   sellPut: OptionsChain;
@@ -59,7 +60,8 @@ export class BullPutSpreadStrategy {
     console.log(`🔍 STRATEGY DEBUG - Market OK: ${marketConditionOk}, Bullish Signals: ${bullishSignals}/4, Base Confidence: ${baseConfidence}%`);
     
     if (marketConditionOk) {
-      const bestSpread = this.findBestBullPutSpread(optionsChain, currentPrice, strategy);
+      const surface = VolatilitySurface.fromChain(optionsChain, currentPrice, marketData[marketData.length - 1].date);
+      const bestSpread = this.findBestBullPutSpread(optionsChain, currentPrice, strategy, surface);
       
       console.log(`🔍 STRATEGY DEBUG - Best Spread Found: ${bestSpread ? 'YES' : 'NO'}`);
       if (bestSpread) {
@@ -118,7 +120,8 @@ export class BullPutSpreadStrategy {
   private static findBestBullPutSpread(
     optionsChain: OptionsChain[],
     currentPrice: number,
-    strategy: Strategy
+    strategy: Strategy,
+    surface: VolatilitySurface
   ): BullPutSpread | null {
     
     const puts = optionsChain.filter(opt => 
@@ -141,7 +144,7 @@ export class BullPutSpreadStrategy {
     if (allPuts.length > 0) {
       const otmPuts = allPuts.filter(opt => opt.strike < currentPrice);
       const farOtmPuts = otmPuts.filter(opt => opt.strike > currentPrice * 0.80);
-      const deltaFilteredPuts = farOtmPuts.filter(opt => Math.abs(opt.delta || 0) >= 0.05 && Math.abs(opt.delta || 0) <= 0.50);
+      const deltaFilteredPuts = farOtmPuts.filter(opt => Math.abs(this.surfaceDelta(opt, surface, currentPrice)) >= 0.05 && Math.abs(this.surfaceDelta(opt, surface, currentPrice)) <= 0.50);
       
       console.log(`🔍 PUT FILTERING - OTM: ${otmPuts.length}, Far OTM: ${farOtmPuts.length}, Delta filtered: ${deltaFilteredPuts.length}`);
       
@@ -197,7 +200,9 @@ export class BullPutSpreadStrategy {
               const probability = this.calculateProbabilityOfProfit(
                 distanceToBreakeven, 
                 currentPrice,
-                sellPut.impliedVolatility || 0.20
+                surface.smiles.length > 0
+                  ? surface.impliedVolatility(sellPut.strike, sellPut.expiration, currentPrice)
+                  : sellPut.impliedVolatility || 0.20
               );
               
               bestSpreads.push({
@@ -260,6 +265,11 @@ export class BullPutSpreadStrategy {
     return topSpread;
   }
   
+  // Delta from the fitted surface so every strike is judged on one smile; feed delta when nothing fitted
+  private static surfaceDelta(option: OptionsChain, surface: VolatilitySurface, currentPrice: number): number {
+    return surface.smiles.length > 0 ? surface.delta(option, currentPrice) : option.delta || 0;
+  }
+  
   private static calculateProbabilityOfProfit(
     distanceToBreakeven: number,
     currentPrice: number,
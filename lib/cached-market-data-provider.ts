@@ -0,0 +1,321 @@
+/**
+ * CACHED MARKET DATA PROVIDER
+ * Content-addressed on-disk store for bars and options chains with offline replay
+ *
+ * Store layout:
+ *   <root>/index.json          - key -> sha256 of the blob holding that key's data
+ *   <root>/objects/<sha>.json  - immutable, deduplicated data blobs
+ *
+ * Bars are keyed per source, symbol, timeframe and UTC day (bars/alpaca/SPY/1Min/2024-03-01),
+ * so a request for a longer range only fetches the days that are missing.
+ * Chains asked for as of an instant are passed through and never stored: no source
+ * quotes history (Alpaca answers with today's chain), so a stored chain would replay
+ * one moment's quotes for a whole day, or today's quotes as a past day's. Recorded
+ * point-in-time quotes belong in the OptionsSnapshotStore. Only the live "latest"
+ * chain is recorded, per day, for offline runs. In offline mode any miss raises
+ * MarketDataCacheMissError instead of reaching the wrapped provider.
+ *
+ * Only market records become final: generated data (a client's simulator fallback,
+ * or the synthetic source itself) is served but never written, and neither are days
+ * still in progress or trading days the source returned no bars for.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarketData, OptionsChain } from './types';
+import { MarketDataProvider, BarTimeframe } from './market-data-provider';
+import { MarketCalendar } from './market-calendar';
+
+export interface MarketDataCacheConfig {
+  rootDir: string;
+  offline: boolean; // Never call the wrapped provider; fail on cache misses
+}
+
+export class MarketDataCacheMissError extends Error {
+  constructor(public readonly key: string) {
+    super(`Offline market data cache miss: ${key}`);
+    this.name = 'MarketDataCacheMissError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CachedMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  private readonly upstream: MarketDataProvider;
+  private readonly config: MarketDataCacheConfig;
+  private readonly source: string; // Upstream name, first segment of every key
+  private index: Record<string, string> | null = null;
+
+  constructor(upstream: MarketDataProvider, config: Partial<MarketDataCacheConfig> = {}) {
+    this.upstream = upstream;
+    this.config = {
+      rootDir: path.resolve(config.rootDir || './.market-data-cache'),
+      offline: config.offline ?? false
+    };
+    this.source = upstream.name;
+    this.name = `${upstream.name}+cache${this.config.offline ? ' (offline)' : ''}`;
+  }
+
+  get isOffline(): boolean {
+    return this.config.offline;
+  }
+
+  async testConnection(): Promise<boolean> {
+    if (this.config.offline) {
+      const available = Object.keys(this.loadIndex()).length > 0;
+      if (!available) {
+        console.error(`❌ Offline mode: market data cache is empty (${this.config.rootDir})`);
+      }
+      return available;
+    }
+    return this.upstream.testConnection();
+  }
+
+  async getMarketData(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    timeframe: BarTimeframe = '1Day'
+  ): Promise<MarketData[]> {
+    const days = this.enumerateDays(startDate, endDate);
+    const missing = days.filter(day => !this.hasKey(this.barKey(symbol, timeframe, day)));
+    let pending = new Map<string, MarketData[]>(); // Fetched for this call but not persisted
+
+    if (missing.length > 0) {
+      if (this.config.offline) {
+        throw new MarketDataCacheMissError(this.barKey(symbol, timeframe, missing[0]));
+      }
+      pending = await this.topUpBars(symbol, timeframe, missing);
+    }
+
+    const start = startDate.getTime();
+    const end = endDate.getTime();
+    const bars: MarketData[] = [];
+    let servedFromCache = 0;
+
+    for (const day of days) {
+      const key = this.barKey(symbol, timeframe, day);
+      const dayBars = this.hasKey(key) ? this.readBars(key) : pending.get(key) || [];
+      if (!missing.includes(day)) servedFromCache++;
+      for (const bar of dayBars) {
+        const time = bar.date.getTime();
+        if (time >= start && time <= end) {
+          bars.push(bar);
+        }
+      }
+    }
+
+    console.log(`💾 ${symbol} ${timeframe}: ${servedFromCache}/${days.length} days from cache, ${bars.length} bars`);
+    return bars;
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    if (!this.config.offline) {
+      return this.upstream.getCurrentPrice(symbol);
+    }
+
+    // Offline: latest close among cached bars, finest timeframe first
+    const index = this.loadIndex();
+    for (const timeframe of ['1Min', '5Min', '15Min', '1Hour', '1Day'] as BarTimeframe[]) {
+      const prefix = `bars/${this.source}/${symbol}/${timeframe}/`;
+      const keys = Object.keys(index).filter(key => key.startsWith(prefix)).sort().reverse();
+      for (const key of keys) {
+        const bars = this.readBars(key);
+        if (bars.length > 0) {
+          return bars[bars.length - 1].close;
+        }
+      }
+    }
+    throw new MarketDataCacheMissError(`bars/${this.source}/${symbol}/*`);
+  }
+
+  async getOptionsChain(symbol: string, expiration?: Date): Promise<OptionsChain[]> {
+    if (!expiration) {
+      return this.getLatestOptionsChain(symbol);
+    }
+
+    if (this.config.offline) {
+      throw new MarketDataCacheMissError(`chains/${this.source}/${symbol}/${expiration.toISOString()}`);
+    }
+    return this.upstream.getOptionsChain(symbol, expiration);
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  /**
+   * "Nearest expiries right now" is a live question: always ask upstream when
+   * online, but record the snapshot so offline runs replay the latest one.
+   */
+  private async getLatestOptionsChain(symbol: string): Promise<OptionsChain[]> {
+    if (!this.config.offline) {
+      const chain = await this.upstream.getOptionsChain(symbol);
+      this.writeChain(`chains/${this.source}/${symbol}/latest-${this.dayOf(new Date())}`, chain);
+      return chain;
+    }
+
+    const prefix = `chains/${this.source}/${symbol}/latest-`;
+    const latestKey = Object.keys(this.loadIndex()).filter(key => key.startsWith(prefix)).sort().pop();
+    if (!latestKey) {
+      throw new MarketDataCacheMissError(`${prefix}*`);
+    }
+    return this.readChain(latestKey);
+  }
+
+  private writeChain(key: string, chain: OptionsChain[]): void {
+    if (chain.length === 0 || this.isGenerated(chain)) {
+      return;
+    }
+    this.writeBlob(key, chain.map(option => ({ ...option, expiration: option.expiration.toISOString() })));
+    this.saveIndex();
+  }
+
+  private async topUpBars(symbol: string, timeframe: BarTimeframe, missingDays: string[]): Promise<Map<string, MarketData[]>> {
+    const pending = new Map<string, MarketData[]>();
+    let generatedDays = 0;
+    for (const [firstDay, lastDay] of this.coalesceDays(missingDays)) {
+      const rangeStart = new Date(`${firstDay}T00:00:00.000Z`);
+      const rangeEnd = new Date(new Date(`${lastDay}T00:00:00.000Z`).getTime() + DAY_MS - 1);
+      console.log(`🌐 Fetching ${symbol} ${timeframe} ${firstDay} → ${lastDay} from ${this.upstream.name}`);
+
+      const fetched = await this.upstream.getMarketData(symbol, rangeStart, rangeEnd, timeframe);
+      const byDay = new Map<string, MarketData[]>();
+      for (const bar of fetched) {
+        const day = this.dayOf(bar.date);
+        if (!byDay.has(day)) byDay.set(day, []);
+        byDay.get(day)!.push(bar);
+      }
+
+      for (const day of missingDays.filter(d => d >= firstDay && d <= lastDay)) {
+        const key = this.barKey(symbol, timeframe, day);
+        const dayBars = (byDay.get(day) || []).sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        if (this.isGenerated(dayBars)) {
+          generatedDays++;
+          pending.set(key, dayBars);
+        } else if (this.isFinal(day, dayBars)) {
+          this.writeBlob(key, dayBars.map(bar => ({
+            ...bar,
+            date: bar.date.toISOString(),
+            createdAt: (bar.createdAt || bar.date).toISOString(),
+            volume: String(bar.volume)
+          })));
+        } else {
+          pending.set(key, dayBars);
+        }
+      }
+    }
+    if (generatedDays > 0) {
+      console.warn(`⚠️ ${this.source} returned generated ${symbol} ${timeframe} bars for ${generatedDays} day(s); not caching them`);
+    }
+    this.saveIndex();
+    return pending;
+  }
+
+  /**
+   * A day is final once it is over; a trading day without bars stays a miss, since a
+   * lagging or failing feed is likelier than a session that never printed
+   */
+  private isFinal(day: string, bars: MarketData[]): boolean {
+    const over = new Date(`${day}T00:00:00.000Z`).getTime() + DAY_MS <= Date.now();
+    return over && (bars.length > 0 || !MarketCalendar.isTradingDay(day));
+  }
+
+  // Simulated records are reproducible from their seed and never a market record worth keeping
+  private isGenerated(records: Array<{ synthetic?: boolean }>): boolean {
+    return records.some(record => record.synthetic);
+  }
+
+  private coalesceDays(days: string[]): Array<[string, string]> {
+    const ranges: Array<[string, string]> = [];
+    for (const day of [...days].sort()) {
+      const last = ranges[ranges.length - 1];
+      if (last && new Date(`${day}T00:00:00.000Z`).getTime() - new Date(`${last[1]}T00:00:00.000Z`).getTime() === DAY_MS) {
+        last[1] = day;
+      } else {
+        ranges.push([day, day]);
+      }
+    }
+    return ranges;
+  }
+
+  private enumerateDays(startDate: Date, endDate: Date): string[] {
+    const days: string[] = [];
+    const lastDay = this.dayOf(endDate);
+    let cursor = new Date(`${this.dayOf(startDate)}T00:00:00.000Z`);
+    while (this.dayOf(cursor) <= lastDay) {
+      days.push(this.dayOf(cursor));
+      cursor = new Date(cursor.getTime() + DAY_MS);
+    }
+    return days;
+  }
+
+  private dayOf(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private barKey(symbol: string, timeframe: BarTimeframe, day: string): string {
+    return `bars/${this.source}/${symbol}/${timeframe}/${day}`;
+  }
+
+  private hasKey(key: string): boolean {
+    return key in this.loadIndex();
+  }
+
+  private readBars(key: string): MarketData[] {
+    return this.readBlob(key).map((raw: any) => ({
+      ...raw,
+      date: new Date(raw.date),
+      createdAt: new Date(raw.createdAt),
+      volume: BigInt(Math.floor(Number(raw.volume)))
+    }));
+  }
+
+  private readChain(key: string): OptionsChain[] {
+    return this.readBlob(key).map((raw: any) => ({
+      ...raw,
+      expiration: new Date(raw.expiration)
+    }));
+  }
+
+  private readBlob(key: string): any[] {
+    const hash = this.loadIndex()[key];
+    const blobPath = path.join(this.config.rootDir, 'objects', `${hash}.json`);
+    if (!fs.existsSync(blobPath)) {
+      throw new Error(`Market data cache is corrupt: blob ${hash} for ${key} is missing`);
+    }
+    return JSON.parse(fs.readFileSync(blobPath, 'utf8'));
+  }
+
+  private writeBlob(key: string, records: any[]): void {
+    const content = JSON.stringify(records);
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    const objectsDir = path.join(this.config.rootDir, 'objects');
+    const blobPath = path.join(objectsDir, `${hash}.json`);
+
+    if (!fs.existsSync(blobPath)) {
+      fs.mkdirSync(objectsDir, { recursive: true });
+      fs.writeFileSync(blobPath, content);
+    }
+    this.loadIndex()[key] = hash;
+  }
+
+  private loadIndex(): Record<string, string> {
+    if (!this.index) {
+      const indexPath = path.join(this.config.rootDir, 'index.json');
+      this.index = fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath, 'utf8')) : {};
+    }
+    return this.index!;
+  }
+
+  private saveIndex(): void {
+    fs.mkdirSync(this.config.rootDir, { recursive: true });
+    const indexPath = path.join(this.config.rootDir, 'index.json');
+    const tempPath = `${indexPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.loadIndex(), null, 2));
+    fs.renameSync(tempPath, indexPath);
+  }
+}
+
+export default CachedMarketDataProvider;
@@ -0,0 +1,743 @@
+/**
+ * DATA QUALITY VALIDATOR
+ * Finds bar gaps, zero-volume bars, price spikes, crossed/locked quotes, stale snapshots and IV outliers/mismatches
+ *
+ * Bars are checked against the NYSE calendar, so holidays and half-days never
+ * count as gaps. Each check result carries the (optionally repaired) data plus
+ * the issues found; a report rolls them up against configurable thresholds and
+ * can refuse the data outright when it is not good enough to backtest on.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarketData, OptionsChain } from './types';
+import { BarTimeframe } from './market-data-provider';
+import { MarketCalendar, TradingSession } from './market-calendar';
+import { GreeksEngine } from './greeks-engine';
+
+export type DataQualityIssueType =
+  | 'BAR_GAP'
+  | 'MISSING_SESSION'
+  | 'ZERO_VOLUME'
+  | 'PRICE_SPIKE'
+  | 'CROSSED_QUOTE'
+  | 'LOCKED_QUOTE'
+  | 'STALE_SNAPSHOT'
+  | 'IV_OUTLIER'
+  | 'IV_MISMATCH';
+
+/**
+ * forward-fill: gaps get flat bars at the prior close, bad bars/quotes are replaced by the last good value
+ * drop: bad bars and quotes are removed
+ * flag: data is left untouched and only reported
+ */
+export type RepairPolicy = 'forward-fill' | 'drop' | 'flag';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  symbol: string;
+  timestamp: Date;
+  message: string;
+  value?: number; // Return, IV or staleness in minutes, depending on the check
+  missingBars?: number; // Gaps only
+  contract?: { expiration: Date; strike: number; side: 'CALL' | 'PUT' }; // Quote checks only
+}
+
+export interface DataQualityConfig {
+  spikeSigma: number; // Close-to-close move, in rolling standard deviations
+  spikeLookback: number; // Returns in the rolling window
+  minSpikeMove: number; // Moves smaller than this (log return) are never spikes
+  ivOutlierSigma: number; // Deviation from neighbouring strikes, in robust standard deviations
+  minIvDeviation: number; // IV deviations smaller than this (vol points) are never outliers
+  maxImpliedVolatility: number; // Anything above is an outlier outright
+  ivQuoteTolerance: number; // How far (vol points) a feed IV may sit outside the IV band its own bid/ask imply
+  maxStalenessMinutes: number; // Snapshot age at the bar that uses it
+  barRepair: RepairPolicy;
+  quoteRepair: RepairPolicy;
+  enforcement: 'refuse' | 'annotate';
+  maxGapRatio: number; // Missing bars / expected bars
+  maxBadBarRatio: number; // Spike + zero-volume bars / bars checked
+  maxBadQuoteRatio: number; // Crossed + locked + IV outlier/mismatch quotes / quotes checked
+  maxStaleSnapshotRatio: number; // Stale snapshots / snapshots checked
+  maxReportedIssues: number; // Issue list cap; counts always cover everything
+  reportDir: string;
+}
+
+export interface BarQualityResult {
+  bars: MarketData[]; // After the repair policy
+  issues: DataQualityIssue[];
+  barsChecked: number;
+  expectedBars: number;
+  missingBars: number;
+  barsFilled: number;
+  barsDropped: number;
+}
+
+export interface ChainQualityResult {
+  chain: OptionsChain[]; // After the repair policy
+  issues: DataQualityIssue[];
+  quotesChecked: number;
+  snapshotChecked: boolean;
+  quotesFilled: number;
+  quotesDropped: number;
+}
+
+export interface DataQualityReport {
+  symbol: string;
+  timeframe: BarTimeframe;
+  generatedAt: Date;
+  barsChecked: number;
+  expectedBars: number;
+  quotesChecked: number;
+  snapshotsChecked: number;
+  counts: Record<DataQualityIssueType, number>;
+  ratios: {
+    gap: number;
+    badBar: number;
+    badQuote: number;
+    staleSnapshot: number;
+  };
+  repairs: {
+    barPolicy: RepairPolicy;
+    quotePolicy: RepairPolicy;
+    barsFilled: number;
+    barsDropped: number;
+    quotesFilled: number;
+    quotesDropped: number;
+  };
+  failures: string[]; // Thresholds breached, empty when the data passed
+  passed: boolean;
+  issues: DataQualityIssue[];
+}
+
+export class DataQualityError extends Error {
+  constructor(public readonly report: DataQualityReport) {
+    super(`Data quality check failed for ${report.symbol} ${report.timeframe}: ${report.failures.join('; ')}`);
+    this.name = 'DataQualityError';
+  }
+}
+
+const STEP_MINUTES: Record<Exclude<BarTimeframe, '1Day'>, number> = {
+  '1Min': 1,
+  '5Min': 5,
+  '15Min': 15,
+  '1Hour': 60
+};
+
+const MINUTE_MS = 60 * 1000;
+const TICK_SIZE = 0.01;
+
+interface BarGap {
+  times: Date[]; // Start time of every missing bar
+}
+
+export class DataQualityValidator {
+  private readonly config: DataQualityConfig;
+
+  private static readonly DEFAULT_CONFIG: DataQualityConfig = {
+    spikeSigma: 6,
+    spikeLookback: 30,
+    minSpikeMove: 0.002,
+    ivOutlierSigma: 5,
+    minIvDeviation: 0.05,
+    maxImpliedVolatility: 5,
+    ivQuoteTolerance: 0.02,
+    maxStalenessMinutes: 15,
+    barRepair: 'flag',
+    quoteRepair: 'flag',
+    enforcement: 'annotate',
+    maxGapRatio: 0.02,
+    maxBadBarRatio: 0.01,
+    maxBadQuoteRatio: 0.05,
+    maxStaleSnapshotRatio: 0.1,
+    maxReportedIssues: 500,
+    reportDir: './data-quality-reports'
+  };
+
+  constructor(config: Partial<DataQualityConfig> = {}) {
+    this.config = { ...DataQualityValidator.DEFAULT_CONFIG, ...config };
+  }
+
+  getConfig(): DataQualityConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Gap, zero-volume and spike checks over one symbol's bars, then the bar repair policy
+   */
+  checkBars(symbol: string, bars: MarketData[], timeframe: BarTimeframe): BarQualityResult {
+    const sorted = [...bars].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const issues: DataQualityIssue[] = [];
+
+    const { gaps, expectedBars } = this.findGaps(symbol, sorted, timeframe, issues);
+    const badBars = new Set<number>();
+
+    sorted.forEach((bar, index) => {
+      if (bar.volume === BigInt(0)) {
+        badBars.add(index);
+        issues.push({
+          type: 'ZERO_VOLUME',
+          symbol,
+          timestamp: bar.date,
+          message: `Zero-volume bar at ${bar.date.toISOString()}`
+        });
+      }
+    });
+
+    for (const index of this.findSpikes(sorted, timeframe)) {
+      const bar = sorted[index];
+      const move = Math.log(bar.close / sorted[index - 1].close);
+      badBars.add(index);
+      issues.push({
+        type: 'PRICE_SPIKE',
+        symbol,
+        timestamp: bar.date,
+        message: `Close ${bar.close} moved ${(move * 100).toFixed(2)}% from ${sorted[index - 1].close} and reverted`,
+        value: move
+      });
+    }
+
+    const missingBars = gaps.reduce((sum, gap) => sum + gap.times.length, 0);
+    const repaired = this.repairBars(sorted, gaps, badBars, timeframe);
+
+    return {
+      bars: repaired.bars,
+      issues,
+      barsChecked: sorted.length,
+      expectedBars,
+      missingBars,
+      barsFilled: repaired.filled,
+      barsDropped: repaired.dropped
+    };
+  }
+
+  /**
+   * Quote checks for the chain a bar sees; `snapshotTime` enables the staleness check,
+   * `underlyingPrice` the IV-vs-quote check, and `previousChain` supplies forward-fill values
+   */
+  checkOptionsChain(
+    symbol: string,
+    chain: OptionsChain[],
+    asOf: Date,
+    options: { snapshotTime?: Date; previousChain?: OptionsChain[]; underlyingPrice?: number } = {}
+  ): ChainQualityResult {
+    const issues: DataQualityIssue[] = [];
+    const badQuotes = new Set<OptionsChain>();
+
+    if (options.snapshotTime) {
+      const ageMinutes = (asOf.getTime() - options.snapshotTime.getTime()) / MINUTE_MS;
+      if (ageMinutes > this.config.maxStalenessMinutes) {
+        issues.push({
+          type: 'STALE_SNAPSHOT',
+          symbol,
+          timestamp: asOf,
+          message: `Snapshot from ${options.snapshotTime.toISOString()} is ${ageMinutes.toFixed(1)} minutes old`,
+          value: ageMinutes
+        });
+      }
+    }
+
+    for (const quote of chain) {
+      if (quote.ask > 0 && quote.bid > quote.ask) {
+        badQuotes.add(quote);
+        issues.push(this.quoteIssue('CROSSED_QUOTE', symbol, asOf, quote, `bid ${quote.bid} > ask ${quote.ask}`));
+      } else if (quote.bid > 0 && quote.bid === quote.ask) {
+        badQuotes.add(quote);
+        issues.push(this.quoteIssue('LOCKED_QUOTE', symbol, asOf, quote, `bid = ask = ${quote.bid}`));
+      }
+    }
+
+    if (options.underlyingPrice) {
+      for (const quote of chain) {
+        const mismatch = badQuotes.has(quote) ? null : this.findIvMismatch(quote, options.underlyingPrice, asOf);
+        if (mismatch) {
+          badQuotes.add(quote);
+          issues.push({ ...this.quoteIssue('IV_MISMATCH', symbol, asOf, quote, mismatch), value: quote.impliedVolatility });
+        }
+      }
+    }
+
+    for (const quote of this.findIvOutliers(chain)) {
+      badQuotes.add(quote);
+      issues.push({
+        ...this.quoteIssue('IV_OUTLIER', symbol, asOf, quote, `IV ${((quote.impliedVolatility || 0) * 100).toFixed(1)}% is out of line with neighbouring strikes`),
+        value: quote.impliedVolatility
+      });
+    }
+
+    // Stale snapshots are reported, never repaired: the snapshot store's own window decides whether one is used
+    let filled = 0;
+    let dropped = 0;
+    let repairedChain = chain;
+    if (this.config.quoteRepair !== 'flag' && badQuotes.size > 0) {
+      const previous = new Map((options.previousChain || []).map(quote => [this.contractKey(quote), quote]));
+      repairedChain = [];
+      for (const quote of chain) {
+        if (!badQuotes.has(quote)) {
+          repairedChain.push(quote);
+          continue;
+        }
+        const prior = this.config.quoteRepair === 'forward-fill' ? previous.get(this.contractKey(quote)) : undefined;
+        if (prior) {
+          repairedChain.push(prior);
+          filled++;
+        } else {
+          dropped++;
+        }
+      }
+    }
+
+    return {
+      chain: repairedChain,
+      issues,
+      quotesChecked: chain.length,
+      snapshotChecked: options.snapshotTime !== undefined,
+      quotesFilled: filled,
+      quotesDropped: dropped
+    };
+  }
+
+  /**
+   * Roll bar and chain results up into one report and evaluate the thresholds
+   */
+  buildReport(
+    symbol: string,
+    timeframe: BarTimeframe,
+    barResult: BarQualityResult,
+    chainResults: ChainQualityResult[] = []
+  ): DataQualityReport {
+    const allIssues = [...barResult.issues, ...chainResults.flatMap(result => result.issues)];
+    const counts: Record<DataQualityIssueType, number> = {
+      BAR_GAP: 0,
+      MISSING_SESSION: 0,
+      ZERO_VOLUME: 0,
+      PRICE_SPIKE: 0,
+      CROSSED_QUOTE: 0,
+      LOCKED_QUOTE: 0,
+      STALE_SNAPSHOT: 0,
+      IV_OUTLIER: 0,
+      IV_MISMATCH: 0
+    };
+    for (const issue of allIssues) {
+      counts[issue.type]++;
+    }
+
+    const quotesChecked = chainResults.reduce((sum, result) => sum + result.quotesChecked, 0);
+    const snapshotsChecked = chainResults.filter(result => result.snapshotChecked).length;
+    const ratios = {
+      gap: barResult.expectedBars > 0 ? barResult.missingBars / barResult.expectedBars : 0,
+      badBar: barResult.barsChecked > 0 ? (counts.ZERO_VOLUME + counts.PRICE_SPIKE) / barResult.barsChecked : 0,
+      badQuote: quotesChecked > 0 ? (counts.CROSSED_QUOTE + counts.LOCKED_QUOTE + counts.IV_OUTLIER + counts.IV_MISMATCH) / quotesChecked : 0,
+      staleSnapshot: snapshotsChecked > 0 ? counts.STALE_SNAPSHOT / snapshotsChecked : 0
+    };
+
+    const failures: string[] = [];
+    if (ratios.gap > this.config.maxGapRatio) {
+      failures.push(`${barResult.missingBars}/${barResult.expectedBars} bars missing (${(ratios.gap * 100).toFixed(2)}% > ${(this.config.maxGapRatio * 100).toFixed(2)}%)`);
+    }
+    if (ratios.badBar > this.config.maxBadBarRatio) {
+      failures.push(`${(ratios.badBar * 100).toFixed(2)}% of bars are zero-volume or spikes (> ${(this.config.maxBadBarRatio * 100).toFixed(2)}%)`);
+    }
+    if (ratios.badQuote > this.config.maxBadQuoteRatio) {
+      failures.push(`${(ratios.badQuote * 100).toFixed(2)}% of option quotes are crossed, locked or have bad IV (> ${(this.config.maxBadQuoteRatio * 100).toFixed(2)}%)`);
+    }
+    if (ratios.staleSnapshot > this.config.maxStaleSnapshotRatio) {
+      failures.push(`${counts.STALE_SNAPSHOT}/${snapshotsChecked} options snapshots are stale (> ${(this.config.maxStaleSnapshotRatio * 100).toFixed(0)}%)`);
+    }
+
+    return {
+      symbol,
+      timeframe,
+      generatedAt: new Date(),
+      barsChecked: barResult.barsChecked,
+      expectedBars: barResult.expectedBars,
+      quotesChecked,
+      snapshotsChecked,
+      counts,
+      ratios,
+      repairs: {
+        barPolicy: this.config.barRepair,
+        quotePolicy: this.config.quoteRepair,
+        barsFilled: barResult.barsFilled,
+        barsDropped: barResult.barsDropped,
+        quotesFilled: chainResults.reduce((sum, result) => sum + result.quotesFilled, 0),
+        quotesDropped: chainResults.reduce((sum, result) => sum + result.quotesDropped, 0)
+      },
+      failures,
+      passed: failures.length === 0,
+      issues: allIssues.slice(0, this.config.maxReportedIssues)
+    };
+  }
+
+  /**
+   * Throws DataQualityError for a failed report when enforcement is 'refuse'
+   */
+  enforce(report: DataQualityReport): void {
+    if (!report.passed && this.config.enforcement === 'refuse') {
+      throw new DataQualityError(report);
+    }
+  }
+
+  /**
+   * Write the report as JSON and return its path
+   */
+  writeReport(report: DataQualityReport, filePath?: string): string {
+    const target = filePath || path.join(
+      this.config.reportDir,
+      `${report.symbol}_${report.timeframe}_${report.generatedAt.toISOString().replace(/[:.]/g, '-')}.json`
+    );
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, JSON.stringify(report, null, 2));
+    return target;
+  }
+
+  /**
+   * One-line summary for console output
+   */
+  static summarize(report: DataQualityReport): string {
+    const found = (Object.keys(report.counts) as DataQualityIssueType[])
+      .filter(type => report.counts[type] > 0)
+      .map(type => `${type}=${report.counts[type]}`);
+    return `${report.passed ? 'PASS' : 'FAIL'} (${report.barsChecked} bars, ${report.quotesChecked} quotes${found.length > 0 ? `; ${found.join(', ')}` : ''})`;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  /**
+   * Missing bars within the NYSE sessions spanned by the data
+   */
+  private findGaps(
+    symbol: string,
+    bars: MarketData[],
+    timeframe: BarTimeframe,
+    issues: DataQualityIssue[]
+  ): { gaps: BarGap[]; expectedBars: number } {
+    if (bars.length === 0) {
+      return { gaps: [], expectedBars: 0 };
+    }
+
+    const sessions = MarketCalendar.getTradingSessions(bars[0].date, bars[bars.length - 1].date);
+    const barsByDay = new Map<string, MarketData[]>();
+    for (const bar of bars) {
+      const day = MarketCalendar.toEastern(bar.date).day;
+      const dayBars = barsByDay.get(day);
+      if (dayBars) {
+        dayBars.push(bar);
+      } else {
+        barsByDay.set(day, [bar]);
+      }
+    }
+
+    const gaps: BarGap[] = [];
+    let expectedBars = 0;
+
+    if (timeframe === '1Day') {
+      for (const session of sessions) {
+        expectedBars++;
+        if (!barsByDay.has(session.day)) {
+          gaps.push({ times: [MarketCalendar.fromEastern(session.day, 0)] });
+          issues.push({
+            type: 'MISSING_SESSION',
+            symbol,
+            timestamp: session.open,
+            message: `No daily bar for trading day ${session.day}`,
+            missingBars: 1
+          });
+        }
+      }
+      return { gaps, expectedBars };
+    }
+
+    const stepMs = STEP_MINUTES[timeframe] * MINUTE_MS;
+    for (const session of sessions) {
+      const sessionBars = (barsByDay.get(session.day) || [])
+        .filter(bar => bar.date.getTime() + stepMs > session.open.getTime() && bar.date < session.close);
+      expectedBars += Math.ceil((session.close.getTime() - session.open.getTime()) / stepMs);
+
+      if (sessionBars.length === 0) {
+        const times = this.stepTimes(session.open.getTime() - stepMs, session.close.getTime(), stepMs);
+        gaps.push({ times });
+        issues.push({
+          type: 'MISSING_SESSION',
+          symbol,
+          timestamp: session.open,
+          message: `No ${timeframe} bars for trading day ${session.day}`,
+          missingBars: times.length
+        });
+        continue;
+      }
+
+      this.collectSessionGaps(symbol, session, sessionBars, stepMs, gaps, issues);
+    }
+
+    return { gaps, expectedBars };
+  }
+
+  private collectSessionGaps(
+    symbol: string,
+    session: TradingSession,
+    sessionBars: MarketData[],
+    stepMs: number,
+    gaps: BarGap[],
+    issues: DataQualityIssue[]
+  ): void {
+    const addGap = (times: Date[]) => {
+      if (times.length === 0) {
+        return;
+      }
+      gaps.push({ times });
+      issues.push({
+        type: 'BAR_GAP',
+        symbol,
+        timestamp: times[0],
+        message: `${times.length} missing bar(s) from ${times[0].toISOString()} on ${session.day}`,
+        missingBars: times.length
+      });
+    };
+
+    // Leading gap: the first bar should cover the open
+    const first = sessionBars[0].date.getTime();
+    const leading: Date[] = [];
+    for (let time = first - stepMs; time + stepMs > session.open.getTime(); time -= stepMs) {
+      leading.unshift(new Date(time));
+    }
+    addGap(leading);
+
+    for (let i = 1; i < sessionBars.length; i++) {
+      addGap(this.stepTimes(sessionBars[i - 1].date.getTime(), sessionBars[i].date.getTime(), stepMs));
+    }
+
+    // Trailing gap: the last bar should reach the close
+    addGap(this.stepTimes(sessionBars[sessionBars.length - 1].date.getTime(), session.close.getTime(), stepMs));
+  }
+
+  /**
+   * Bar start times strictly after `from` and before `to`
+   */
+  private stepTimes(from: number, to: number, stepMs: number): Date[] {
+    const times: Date[] = [];
+    for (let time = from + stepMs; time < to; time += stepMs) {
+      times.push(new Date(time));
+    }
+    return times;
+  }
+
+  /**
+   * Bad ticks: a close that jumps beyond N rolling sigma and reverts on the next bar of its session.
+   * Moves that hold are real and are left alone, as are session-opening gaps on intraday bars and
+   * moves into a session's (or the data's) last bar, which nothing after them can show reverting.
+   */
+  private findSpikes(bars: MarketData[], timeframe: BarTimeframe): number[] {
+    const spikes: number[] = [];
+    const window: number[] = [];
+    let previousDay = bars.length > 0 ? MarketCalendar.toEastern(bars[0].date).day : '';
+
+    for (let i = 1; i < bars.length; i++) {
+      const day = MarketCalendar.toEastern(bars[i].date).day;
+      const sessionOpen = timeframe !== '1Day' && day !== previousDay;
+      previousDay = day;
+      if (sessionOpen || bars[i - 1].close <= 0 || bars[i].close <= 0) {
+        continue;
+      }
+
+      const move = Math.log(bars[i].close / bars[i - 1].close);
+      if (window.length >= Math.min(10, this.config.spikeLookback)) {
+        const mean = window.reduce((sum, value) => sum + value, 0) / window.length;
+        const std = Math.sqrt(window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / window.length);
+        const threshold = Math.max(this.config.spikeSigma * std, this.config.minSpikeMove);
+
+        if (Math.abs(move - mean) > threshold) {
+          // Without a next bar in the same session nothing shows the move reverting, so it stands
+          const next = bars[i + 1];
+          const sameSession = next && next.close > 0 && (timeframe === '1Day' || MarketCalendar.toEastern(next.date).day === day);
+          const reversal = sameSession ? Math.log(next.close / bars[i].close) : 0;
+          if (sameSession && Math.sign(reversal) === -Math.sign(move) && Math.abs(reversal - mean) > threshold) {
+            spikes.push(i);
+            i++; // The reverting bar's return is an artefact of the spike
+            continue;
+          }
+        }
+      }
+
+      window.push(move);
+      if (window.length > this.config.spikeLookback) {
+        window.shift();
+      }
+    }
+    return spikes;
+  }
+
+  /**
+   * Hampel filter along each expiration/side smile: compare every IV with the
+   * median of its neighbouring strikes
+   */
+  private findIvOutliers(chain: OptionsChain[]): OptionsChain[] {
+    const outliers: OptionsChain[] = [];
+    const smiles = new Map<string, OptionsChain[]>();
+
+    for (const quote of chain) {
+      if (quote.impliedVolatility === undefined) {
+        continue;
+      }
+      if (!isFinite(quote.impliedVolatility) || quote.impliedVolatility <= 0 || quote.impliedVolatility > this.config.maxImpliedVolatility) {
+        outliers.push(quote);
+        continue;
+      }
+      const key = `${quote.expiration.toISOString().slice(0, 10)}_${quote.side}`;
+      const smile = smiles.get(key);
+      if (smile) {
+        smile.push(quote);
+      } else {
+        smiles.set(key, [quote]);
+      }
+    }
+
+    for (const smile of smiles.values()) {
+      if (smile.length < 5) {
+        continue;
+      }
+      smile.sort((a, b) => a.strike - b.strike);
+      const residuals = smile.map((quote, index) => {
+        const neighbours = smile
+          .slice(Math.max(0, index - 2), index + 3)
+          .filter(other => other !== quote)
+          .map(other => other.impliedVolatility!);
+        return quote.impliedVolatility! - this.median(neighbours);
+      });
+
+      const scale = 1.4826 * this.median(residuals.map(Math.abs));
+      const threshold = Math.max(this.config.ivOutlierSigma * scale, this.config.minIvDeviation);
+      smile.forEach((quote, index) => {
+        if (Math.abs(residuals[index]) > threshold) {
+          outliers.push(quote);
+        }
+      });
+    }
+    return outliers;
+  }
+
+  /**
+   * A quote the feed's IV cannot have come from: its ask sits below intrinsic value, or
+   * the IV lies outside the band that inverting its own bid and ask gives. Wings quoted at
+   * the minimum tick imply any IV, so the IV must also misprice the quote by more than a tick
+   */
+  private findIvMismatch(quote: OptionsChain, underlyingPrice: number, asOf: Date): string | null {
+    const timeToExpiration = (quote.expiration.getTime() - asOf.getTime()) / (365 * 24 * 60 * MINUTE_MS);
+    if (timeToExpiration <= 0) {
+      return null;
+    }
+    const intrinsic = Math.max(0, quote.side === 'CALL' ? underlyingPrice - quote.strike : quote.strike - underlyingPrice);
+    if (quote.ask > 0 && quote.ask < intrinsic - TICK_SIZE) {
+      return `ask ${quote.ask} is below intrinsic value ${intrinsic.toFixed(2)}`;
+    }
+    if (quote.impliedVolatility === undefined) {
+      return null;
+    }
+    const modelPrice = Math.max(0, GreeksEngine.calculateTheoreticalPrice(quote, underlyingPrice, timeToExpiration, quote.impliedVolatility));
+    if (modelPrice >= quote.bid - TICK_SIZE && modelPrice <= quote.ask + TICK_SIZE) {
+      return null;
+    }
+
+    const band = GreeksEngine.impliedVolatilityFromQuote(quote, underlyingPrice, timeToExpiration);
+    // No bid bounds the IV only from above; an ask beyond the volatility cap only from below
+    const low = band.bid.impliedVolatility ?? (band.bid.status === 'NO_PRICE' || band.bid.status === 'BELOW_INTRINSIC' ? 0 : null);
+    const high = band.ask.impliedVolatility ?? (band.ask.status === 'ABOVE_MAXIMUM' ? Infinity : null);
+    if (low === null || high === null) {
+      return null;
+    }
+    if (quote.impliedVolatility < low - this.config.ivQuoteTolerance || quote.impliedVolatility > high + this.config.ivQuoteTolerance) {
+      const formatIv = (iv: number) => isFinite(iv) ? `${(iv * 100).toFixed(1)}%` : 'max';
+      return `IV ${(quote.impliedVolatility * 100).toFixed(1)}% is outside the ${formatIv(low)}-${formatIv(high)} its bid/ask imply`;
+    }
+    return null;
+  }
+
+  private repairBars(
+    bars: MarketData[],
+    gaps: BarGap[],
+    badBars: Set<number>,
+    timeframe: BarTimeframe
+  ): { bars: MarketData[]; filled: number; dropped: number } {
+    if (this.config.barRepair === 'flag') {
+      return { bars, filled: 0, dropped: 0 };
+    }
+
+    if (this.config.barRepair === 'drop') {
+      return { bars: bars.filter((_, index) => !badBars.has(index)), filled: 0, dropped: badBars.size };
+    }
+
+    // Forward-fill: bad bars take the last good close, missing bars are flat at it with no volume
+    const repaired: MarketData[] = [];
+    let lastGoodClose: number | null = null;
+    bars.forEach((bar, index) => {
+      if (badBars.has(index) && lastGoodClose !== null) {
+        repaired.push({ ...bar, open: lastGoodClose, high: lastGoodClose, low: lastGoodClose, close: lastGoodClose, vwap: lastGoodClose });
+      } else {
+        repaired.push(bar);
+        lastGoodClose = bar.close;
+      }
+    });
+
+    let filled = 0;
+    const symbol = bars.length > 0 ? bars[0].symbol : '';
+    const fills: MarketData[] = [];
+    const times = gaps.flatMap(gap => gap.times).sort((a, b) => a.getTime() - b.getTime());
+    let cursor = 0; // repaired[cursor - 1] is the last bar before the current gap time
+    for (const time of times) {
+      while (cursor < repaired.length && repaired[cursor].date < time) {
+        cursor++;
+      }
+      const price = cursor > 0 ? repaired[cursor - 1].close : repaired[cursor]?.open;
+      if (price === undefined) {
+        continue;
+      }
+      fills.push({
+        id: `${symbol}_${timeframe}_${time.toISOString()}_filled`,
+        symbol,
+        date: time,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: BigInt(0),
+        vwap: price,
+        createdAt: new Date()
+      });
+      filled++;
+    }
+
+    const merged = [...repaired, ...fills].sort((a, b) => a.date.getTime() - b.date.getTime());
+    return { bars: merged, filled, dropped: 0 };
+  }
+
+  private quoteIssue(
+    type: DataQualityIssueType,
+    symbol: string,
+    asOf: Date,
+    quote: OptionsChain,
+    detail: string
+  ): DataQualityIssue {
+    return {
+      type,
+      symbol,
+      timestamp: asOf,
+      message: `${quote.side} ${quote.strike} exp ${quote.expiration.toISOString().slice(0, 10)}: ${detail}`,
+      contract: { expiration: quote.expiration, strike: quote.strike, side: quote.side }
+    };
+  }
+
+  private contractKey(quote: OptionsChain): string {
+    return `${quote.expiration.toISOString().slice(0, 10)}_${quote.side}_${quote.strike}`;
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) {
+      return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+}
+
+export default DataQualityValidator;
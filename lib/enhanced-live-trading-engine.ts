@@ -12,7 +12,10 @@
 
 import { EventEmitter } from 'events';
 import AlpacaRealTimeStream, { RealTimeMarketData, RealTimeNewsData, RealTimeOptionData } from './alpaca-real-time-stream';
-import { alpacaClient } from './alpaca';
+import { MarketDataProvider } from './market-data-provider';
+import { createMarketDataProvider } from './market-data-provider-factory';
+import { MarketCalendar } from './market-calendar';
+import { SymbolUniverse } from './symbol-universe';
 import { AdaptiveStrategySelector } from './adaptive-strategy-selector';
 import { GreeksEngine } from './greeks-engine';
 import { TransactionCostEngine } from './transaction-cost-engine';
@@ -22,6 +25,7 @@ import { OptionsChain, MarketData } from './types';
 export interface EnhancedLivePosition {
   id: string;
   symbol: string;
+  underlying: string;
   side: 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR';
   spread: any;
   quantity: number;
@@ -65,6 +69,8 @@ export interface MarketRegimeState {
 
 export class EnhancedLiveTradingEngine extends EventEmitter {
   private realTimeStream: AlpacaRealTimeStream;
+  private dataProvider: MarketDataProvider;
+  private universe: SymbolUniverse;
   private positions: Map<string, EnhancedLivePosition> = new Map();
   private marketData: Map<string, RealTimeMarketData[]> = new Map();
   private recentNews: RealTimeNewsData[] = [];
@@ -95,9 +101,11 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
     volatilityAdjustment: true
   };
 
-  constructor() {
+  constructor(dataProvider: MarketDataProvider = createMarketDataProvider(), universe: SymbolUniverse = SymbolUniverse.fromEnv()) {
     super();
     
+    this.dataProvider = dataProvider;
+    this.universe = universe;
     this.realTimeStream = new AlpacaRealTimeStream();
     this.currentMarketRegime = {
       regime: 'NEUTRAL',
@@ -109,7 +117,7 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
     };
     
     this.setupEventHandlers();
-    console.log('🚀 Enhanced Live Trading Engine initialized with real-time streaming');
+    console.log(`🚀 Enhanced Live Trading Engine initialized with real-time streaming (${universe.symbols.join(', ')})`);
   }
 
   /**
@@ -123,10 +131,10 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
     try {
       console.log('🚀 Starting Enhanced Live Trading Engine...');
       
-      // Test Alpaca connection
-      const connectionTest = await alpacaClient.testConnection();
+      // Test market data connection
+      const connectionTest = await this.dataProvider.testConnection();
       if (!connectionTest) {
-        throw new Error('Failed to connect to Alpaca API');
+        throw new Error(`Failed to connect to ${this.dataProvider.name} market data source`);
       }
       
       // Connect to real-time streams
@@ -155,15 +163,15 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
   private async setupSubscriptions(): Promise<void> {
     console.log('📡 Setting up real-time subscriptions...');
     
-    // Subscribe to SPY market data
-    this.realTimeStream.subscribeToQuotes(['SPY']);
-    this.realTimeStream.subscribeToTrades(['SPY']);
+    // Subscribe to market data for every underlying in the universe
+    this.realTimeStream.subscribeToQuotes(this.universe.symbols);
+    this.realTimeStream.subscribeToTrades(this.universe.symbols);
     
-    // Subscribe to SPY news
-    this.realTimeStream.subscribeToNews(['SPY']);
+    // Subscribe to underlying news
+    this.realTimeStream.subscribeToNews(this.universe.symbols);
     
-    // Subscribe to SPY options (will be updated dynamically)
-    this.realTimeStream.subscribeToOptions(['SPY']);
+    // Subscribe to options (will be updated dynamically)
+    this.realTimeStream.subscribeToOptions(this.universe.symbols);
     
     console.log('✅ Real-time subscriptions configured');
   }
@@ -395,7 +403,7 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
    */
   private updatePositionValues(data: RealTimeMarketData): void {
     for (const [positionId, position] of this.positions) {
-      if (position.symbol === data.symbol || position.symbol.includes(data.symbol)) {
+      if (position.underlying === data.symbol) {
         // Update current price and P&L
         const previousPnL = position.currentPnL;
         position.currentPrice = data.price;
@@ -423,7 +431,7 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
    */
   private updatePositionNews(news: RealTimeNewsData): void {
     for (const [positionId, position] of this.positions) {
-      if (news.symbols.includes(position.symbol) || news.symbols.includes('SPY')) {
+      if (news.symbols.includes(position.symbol) || news.symbols.includes(position.underlying)) {
         position.newsEvents.push(news);
         
         // Keep only last 20 news events per position
@@ -467,7 +475,7 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
   private calculatePositionPnL(position: EnhancedLivePosition, currentPrice: number): number {
     // Simplified P&L calculation
     const priceChange = currentPrice - position.entryPrice;
-    return priceChange * position.quantity * 100; // $100 per point for options
+    return priceChange * position.quantity * SymbolUniverse.getSpec(position.underlying).contractMultiplier; // Multiplier $ per point
   }
 
   /**
@@ -492,7 +500,7 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
    */
   private isRelatedToPosition(position: EnhancedLivePosition, data: RealTimeOptionData): boolean {
     // Check if the option is part of the position's spread
-    return data.underlying === 'SPY' && position.symbol.includes('SPY');
+    return SymbolUniverse.underlyingOf(data.underlying) === position.underlying;
   }
 
   /**
@@ -518,14 +526,16 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
   private async executeTradingCycle(): Promise<void> {
     try {
       // Check market hours
-      if (!this.isMarketHours()) return;
+      if (!MarketCalendar.isMarketOpen()) return;
       
       // Monitor existing positions
       await this.monitorPositions();
       
       // Check for new trading opportunities
-      if (this.canPlaceNewTrade()) {
-        await this.scanForTrades();
+      for (const symbol of this.universe.symbols) {
+        if (this.canPlaceNewTrade()) {
+          await this.scanForTrades(symbol);
+        }
       }
       
       // Update performance metrics
@@ -605,14 +615,14 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
   /**
    * Scan for new trading opportunities
    */
-  private async scanForTrades(): Promise<void> {
+  private async scanForTrades(symbol: string): Promise<void> {
     try {
       // Get current market data
-      const spyData = this.marketData.get('SPY');
-      if (!spyData || spyData.length < 20) return;
+      const symbolData = this.marketData.get(symbol);
+      if (!symbolData || symbolData.length < 20) return;
       
       // Convert to historical format for strategy analysis
-      const historicalData: MarketData[] = spyData.slice(-50).map(point => ({
+      const historicalData: MarketData[] = symbolData.slice(-50).map(point => ({
         id: `${point.symbol}_${point.timestamp.getTime()}`,
         symbol: point.symbol,
         date: point.timestamp,
@@ -625,7 +635,7 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
       }));
       
       // Get current options chain
-      const optionsChain = await alpacaClient.getOptionsChain('SPY');
+      const optionsChain = await this.dataProvider.getOptionsChain(symbol);
       
       // Generate trading signal with real-time regime
       const signal = AdaptiveStrategySelector.generateAdaptiveSignal(
@@ -636,7 +646,7 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
       );
       
       if (signal.selectedStrategy !== 'NO_TRADE' && signal.signal) {
-        console.log(`🎯 New trading opportunity: ${signal.selectedStrategy}`);
+        console.log(`🎯 New ${symbol} trading opportunity: ${signal.selectedStrategy}`);
         console.log(`📊 Market regime: ${this.currentMarketRegime.regime} (${(this.currentMarketRegime.confidence * 100).toFixed(1)}% confidence)`);
         console.log(`📰 News sentiment: ${this.currentMarketRegime.newssentiment}`);
         
@@ -644,7 +654,7 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
       }
       
     } catch (error) {
-      console.error('Error scanning for trades:', error);
+      console.error(`Error scanning ${symbol} for trades:`, error);
     }
   }
 
@@ -705,18 +715,6 @@ export class EnhancedLiveTradingEngine extends EventEmitter {
     });
   }
 
-  /**
-   * Check if market is open
-   */
-  private isMarketHours(): boolean {
-    const now = new Date();
-    const hour = now.getHours();
-    const day = now.getDay();
-    
-    // Monday-Friday, 9:30 AM - 4:00 PM ET
-    return day >= 1 && day <= 5 && hour >= 9 && hour < 16;
-  }
-
   /**
    * Stop enhanced live trading
    */
@@ -0,0 +1,134 @@
+/**
+ * EXPIRY TIME MODEL
+ * Time to expiration measured in trading time, for intraday-accurate 0-DTE Greeks
+ *
+ * Variance accrues while the market trades, so calendar time misstates how much
+ * life a 0-DTE option has left: at 3:00 PM there is one trading hour to the 4:00 PM
+ * settlement, not 1/24 of a calendar day. Time is counted in session units: each
+ * regular-session minute is 1/390 of a session, each overnight gap adds
+ * `overnightWeight` of a session (plus `closedDayWeight` per weekend day or
+ * holiday it spans), and scheduled events add their own weight. A year is the
+ * number of those units in a typical year, so IVs stay annualized as usual.
+ */
+
+import { MarketCalendar, TradingSession } from './market-calendar';
+
+export interface ExpiryEvent {
+  time: Date; // When the variance is released (e.g. the 2:00 PM FOMC statement)
+  weight: number; // Extra variance, in sessions
+  label?: string;
+}
+
+export interface ExpiryTimeConfig {
+  overnightWeight: number; // Variance of a close-to-open gap, in sessions
+  closedDayWeight: number; // Extra variance per weekend day or holiday inside a gap, in sessions
+  events: ExpiryEvent[];
+}
+
+export interface ExpiryTime {
+  years: number; // Trading-time year fraction to use as T in Black-Scholes
+  sessions: number; // Same time in session units
+  tradingMinutes: number; // Regular-session minutes left (counting any settlement after the close)
+  overnightSessions: number; // Share of `sessions` from overnight gaps and closed days
+  eventSessions: number; // Share of `sessions` from events
+}
+
+export class ExpiryTimeModel {
+  static readonly SESSION_MINUTES = MarketCalendar.REGULAR_CLOSE_MINUTES - MarketCalendar.SESSION_OPEN_MINUTES;
+  static readonly TRADING_DAYS_PER_YEAR = 252;
+  static readonly CLOSED_DAYS_PER_YEAR = 365 - 252;
+
+  readonly config: ExpiryTimeConfig;
+
+  private static readonly DEFAULT_CONFIG: ExpiryTimeConfig = {
+    overnightWeight: 0.2,
+    closedDayWeight: 0.05,
+    events: []
+  };
+
+  constructor(config: Partial<ExpiryTimeConfig> = {}) {
+    this.config = { ...ExpiryTimeModel.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Session units in a typical year
+   */
+  get sessionsPerYear(): number {
+    return ExpiryTimeModel.TRADING_DAYS_PER_YEAR * (1 + this.config.overnightWeight)
+      + ExpiryTimeModel.CLOSED_DAYS_PER_YEAR * this.config.closedDayWeight;
+  }
+
+  /**
+   * Year fraction of one trading day (a session and the overnight gap after it), the unit theta is quoted in
+   */
+  get dayYears(): number {
+    return (1 + this.config.overnightWeight) / this.sessionsPerYear;
+  }
+
+  /**
+   * Year fraction of one regular-session minute
+   */
+  get minuteYears(): number {
+    return 1 / (ExpiryTimeModel.SESSION_MINUTES * this.sessionsPerYear);
+  }
+
+  yearFraction(asOf: Date, expiration: Date): number {
+    return this.measure(asOf, expiration).years;
+  }
+
+  /**
+   * Trading time from `asOf` to `expiration`. An expiration after the day's close (an
+   * index option's 4:15 PM settlement) keeps trading until it
+   */
+  measure(asOf: Date, expiration: Date): ExpiryTime {
+    if (expiration <= asOf) {
+      return { years: 0, sessions: 0, tradingMinutes: 0, overnightSessions: 0, eventSessions: 0 };
+    }
+
+    const expirationDay = MarketCalendar.toEastern(expiration).day;
+    const sessions = [
+      MarketCalendar.previousTradingDay(asOf),
+      ...MarketCalendar.getTradingSessions(asOf, expiration)
+    ].map(session => session.day === expirationDay && expiration > session.close ? { ...session, close: expiration } : session);
+
+    let tradingMinutes = 0;
+    let overnightSessions = 0;
+    for (let i = 0; i < sessions.length; i++) {
+      const session = sessions[i];
+      tradingMinutes += this.overlapMs(session.open, session.close, asOf, expiration) / 60000;
+
+      const next = sessions[i + 1] || MarketCalendar.nextTradingDay(session.day);
+      const gapMs = next.open.getTime() - session.close.getTime();
+      const gapOverlap = this.overlapMs(session.close, next.open, asOf, expiration);
+      if (gapOverlap > 0) {
+        overnightSessions += this.gapWeight(session, next) * gapOverlap / gapMs;
+      }
+    }
+
+    const eventSessions = this.config.events
+      .filter(event => event.time > asOf && event.time <= expiration)
+      .reduce((sum, event) => sum + event.weight, 0);
+    const total = tradingMinutes / ExpiryTimeModel.SESSION_MINUTES + overnightSessions + eventSessions;
+
+    return {
+      years: total / this.sessionsPerYear,
+      sessions: total,
+      tradingMinutes,
+      overnightSessions,
+      eventSessions
+    };
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private overlapMs(start: Date, end: Date, from: Date, to: Date): number {
+    return Math.max(0, Math.min(end.getTime(), to.getTime()) - Math.max(start.getTime(), from.getTime()));
+  }
+
+  private gapWeight(session: TradingSession, next: TradingSession): number {
+    const calendarDays = Math.round((Date.parse(`${next.day}T00:00:00Z`) - Date.parse(`${session.day}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+    return this.config.overnightWeight + this.config.closedDayWeight * Math.max(0, calendarDays - 1);
+  }
+}
+
+export default ExpiryTimeModel;
@@ -1,16 +1,25 @@
 /**
  * ADVANCED GREEKS CALCULATION ENGINE
  * Dynamic tracking of option Greeks throughout trade lifecycle
+ *
+ * Rates come from a configurable zero curve and dividends from the underlying's
+ * spec. Prices and implied volatilities use the underlying's pricing model
+ * (American for SPY/QQQ/IWM); Greeks are closed-form Black-Scholes-Merton.
  */
 
 import { OptionsChain, MarketData } from './types';
+import { ExpiryTimeModel } from './expiry-time-model';
+import { SymbolUniverse } from './symbol-universe';
+import { OptionPricingModels, PricingInputs, PricingModel, RateCurve, CashDividend } from './option-pricing-models';
 
 export interface GreeksSnapshot {
   timestamp: Date;
   underlyingPrice: number;
-  timeToExpiration: number; // Years
+  timeToExpiration: number; // Years (trading-time years when priced off the ExpiryTimeModel)
+  tradingMinutesToExpiration?: number; // Set by the *At methods
   impliedVolatility: number;
   riskFreeRate: number;
+  dividendYield?: number;
   // Primary Greeks
   delta: number;
   gamma: number;
@@ -38,27 +47,277 @@ export interface GreeksSensitivity {
   timeDecay1Day: GreeksSnapshot;
 }
 
+/**
+ * SOLVED: a volatility reproduces the price
+ * NO_PRICE: no usable premium (zero, negative or missing)
+ * EXPIRED: under a minute to expiration, so premium carries no volatility information
+ * BELOW_INTRINSIC: premium at or below discounted intrinsic value (no time value to invert)
+ * ABOVE_MAXIMUM: premium above what the maximum volatility (or the no-arbitrage cap) allows
+ */
+export type ImpliedVolatilityStatus = 'SOLVED' | 'NO_PRICE' | 'EXPIRED' | 'BELOW_INTRINSIC' | 'ABOVE_MAXIMUM';
+
+export interface ImpliedVolatilityResult {
+  impliedVolatility: number | null; // Null unless SOLVED
+  status: ImpliedVolatilityStatus;
+  method: 'newton' | 'brent' | 'none';
+  iterations: number;
+  price: number; // Premium that was inverted
+}
+
+export interface QuoteImpliedVolatility {
+  bid: ImpliedVolatilityResult;
+  ask: ImpliedVolatilityResult;
+  mid: ImpliedVolatilityResult;
+}
+
+/**
+ * Early-exercise exposure of a short ITM leg on an American underlying
+ */
+export interface EarlyExerciseRisk {
+  atRisk: boolean;
+  reason?: string;
+  intrinsicValue: number;
+  americanValue: number;
+  europeanValue: number;
+  earlyExercisePremium: number;
+  dividend?: CashDividend; // Next ex-date before expiration
+}
+
+/**
+ * Greeks for a whole chain, one column per measure, indexed like the chain passed in
+ */
+export interface ChainGreeks {
+  asOf: Date;
+  underlyingPrice: number;
+  count: number;
+  timeToExpiration: Float64Array; // Years (trading time unless priced on the calendar)
+  impliedVolatility: Float64Array;
+  price: Float64Array; // Under the underlying's pricing model
+  delta: Float64Array;
+  gamma: Float64Array;
+  theta: Float64Array; // Per trading day (calendar day on the calendar clock)
+  vega: Float64Array; // Per 1% vol change
+  vanna: Float64Array; // Delta change per 1% vol change
+  charm: Float64Array; // Delta change per year of the clock
+}
+
+export interface ChainGreeksOptions {
+  impliedVolatilities?: ArrayLike<number>; // Per contract; NaN or <= 0 entries are solved from the quote
+  calendarTime?: boolean; // Calendar years and per-calendar-day theta, as calculateGreeks uses
+}
+
+interface ChainExpiry {
+  T: number;
+  sqrtT: number;
+  rate: number;
+  dividendYield: number;
+  spot: number; // Escrowed
+  logSpot: number;
+  carry: number; // e^(-qT)
+  discount: number; // e^(-rT)
+  inputs: PricingInputs;
+  model: PricingModel;
+  american: boolean;
+}
+
 export class GreeksEngine {
+
+  static readonly MIN_VOLATILITY = 0.005;
+  static readonly MAX_VOLATILITY = 5;
+  static readonly DEFAULT_VOLATILITY = 0.2; // Only when neither quotes nor the feed give an IV
   
-  private static readonly RISK_FREE_RATE = 0.05; // 5% risk-free rate
-  private static readonly TRADING_DAYS_PER_YEAR = 252;
+  private static readonly EXERCISE_TIME_VALUE = 0.01; // Holders exercise once less than a tick of time value is left
+  private static readonly YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+  private static readonly MIN_TIME_TO_EXPIRATION = 1 / (365 * 24 * 60); // One minute
+  private static readonly PRICE_TOLERANCE = 1e-6;
+  private static readonly MAX_NEWTON_ITERATIONS = 20;
+  private static readonly MAX_BRENT_ITERATIONS = 100;
   
+  private static timeModel = new ExpiryTimeModel();
+  private static rateCurve = RateCurve.flat(0.05);
+
   /**
-   * Calculate comprehensive Greeks for a single option
+   * Calculate comprehensive Greeks for a single option; IV defaults to the feed's.
+   * calculateGreeksAt and calculateChainGreeks solve it from the quote instead
    */
   static calculateGreeks(
     option: OptionsChain,
     underlyingPrice: number,
     timeToExpiration: number, // In years
-    impliedVolatility: number = option.impliedVolatility || 0.2,
-    riskFreeRate: number = this.RISK_FREE_RATE
+    impliedVolatility: number = option.impliedVolatility || GreeksEngine.DEFAULT_VOLATILITY,
+    riskFreeRate: number = GreeksEngine.rateCurve.rate(timeToExpiration)
+  ): GreeksSnapshot {
+    return this.buildSnapshot(option, underlyingPrice, timeToExpiration, impliedVolatility, riskFreeRate, 1 / 365);
+  }
+
+  /**
+   * Greeks at a point in time, with time to expiry in trading time: theta is per trading
+   * day and the IV default is solved on the same clock, so 0-DTE decay speeds up into the close
+   */
+  static calculateGreeksAt(
+    option: OptionsChain,
+    underlyingPrice: number,
+    asOf: Date,
+    impliedVolatility?: number,
+    riskFreeRate?: number
+  ): GreeksSnapshot {
+    const time = this.timeModel.measure(asOf, option.expiration);
+    const timeToExpiration = Math.max(this.timeModel.minuteYears, time.years);
+    const rate = riskFreeRate ?? this.rateCurve.rate(timeToExpiration);
+    const volatility = impliedVolatility ?? this.marketImpliedVolatility(option, underlyingPrice, timeToExpiration, rate, asOf);
+    return {
+      ...this.buildSnapshot(option, underlyingPrice, timeToExpiration, volatility, rate, this.timeModel.dayYears, asOf),
+      tradingMinutesToExpiration: time.tradingMinutes
+    };
+  }
+
+  /**
+   * Greeks for every contract of a chain in one pass. Time to expiry, rate, dividends
+   * and escrowed spot are worked out once per underlying and expiration, and each
+   * contract's normal CDFs once for all of its Greeks, with no per-contract snapshot
+   * objects. Values match calculateGreeksAt (calculateGreeks on the calendar clock)
+   * before its rounding. Passing back a previous result's `impliedVolatility` column
+   * skips the IV solves, which is what makes repricing a chain every bar cheap
+   */
+  static calculateChainGreeks(
+    chain: OptionsChain[],
+    underlyingPrice: number,
+    asOf: Date,
+    options: ChainGreeksOptions = {}
+  ): ChainGreeks {
+    const count = chain.length;
+    const result: ChainGreeks = {
+      asOf,
+      underlyingPrice,
+      count,
+      timeToExpiration: new Float64Array(count),
+      impliedVolatility: new Float64Array(count),
+      price: new Float64Array(count),
+      delta: new Float64Array(count),
+      gamma: new Float64Array(count),
+      theta: new Float64Array(count),
+      vega: new Float64Array(count),
+      vanna: new Float64Array(count),
+      charm: new Float64Array(count)
+    };
+    const dayYears = options.calendarTime ? 1 / 365 : this.timeModel.dayYears;
+    const expiries = new Map<string, ChainExpiry>();
+
+    for (let i = 0; i < count; i++) {
+      const option = chain[i];
+      const key = `${SymbolUniverse.underlyingOf(option.symbol)}|${option.expiration.getTime()}`;
+      let expiry = expiries.get(key);
+      if (!expiry) {
+        expiry = this.chainExpiry(option, underlyingPrice, asOf, options.calendarTime === true);
+        expiries.set(key, expiry);
+      }
+      const { T, sqrtT, rate: r, dividendYield: q, spot, logSpot, carry, discount } = expiry;
+
+      const given = options.impliedVolatilities ? options.impliedVolatilities[i] : NaN;
+      const sigma = given > 0 ? given : this.marketImpliedVolatility(option, underlyingPrice, T, r, asOf);
+      const K = option.strike;
+      const isCall = option.side === 'CALL';
+
+      const sigmaSqrtT = sigma * sqrtT;
+      const d1 = (logSpot - Math.log(K) + (r - q + 0.5 * sigma * sigma) * T) / sigmaSqrtT;
+      const d2 = d1 - sigmaSqrtT;
+      const N_d1 = this.normalCDF(d1);
+      const N_d2 = this.normalCDF(d2);
+      const n_d1 = this.normalPDF(d1);
+      const carryDensity = carry * n_d1;
+      const european = isCall
+        ? spot * carry * N_d1 - K * discount * N_d2
+        : K * discount * (1 - N_d2) - spot * carry * (1 - N_d1);
+      const annualTheta = isCall
+        ? -spot * carryDensity * sigma / (2 * sqrtT) - r * K * discount * N_d2 + q * spot * carry * N_d1
+        : -spot * carryDensity * sigma / (2 * sqrtT) + r * K * discount * (1 - N_d2) - q * spot * carry * (1 - N_d1);
+      const carryDrift = 2 * (r - q) * T - d2 * sigmaSqrtT;
+
+      result.timeToExpiration[i] = T;
+      result.impliedVolatility[i] = sigma;
+      result.price[i] = expiry.american
+        ? OptionPricingModels.price(expiry.model, { ...expiry.inputs, type: isCall ? 'call' : 'put', strike: K, volatility: sigma })
+        : european;
+      result.delta[i] = isCall ? carry * N_d1 : carry * (N_d1 - 1);
+      result.gamma[i] = carryDensity / (spot * sigmaSqrtT);
+      result.theta[i] = annualTheta * dayYears;
+      result.vega[i] = spot * carryDensity * sqrtT / 100;
+      result.vanna[i] = -carryDensity * d2 / sigma / 100;
+      result.charm[i] = q * carry * (isCall ? N_d1 : N_d1 - 1) - carryDensity * carryDrift / (2 * T * sigmaSqrtT);
+    }
+
+    return result;
+  }
+
+  /**
+   * Trading-time years from `asOf` to `expiration` (at least one trading minute)
+   */
+  static timeToExpiration(asOf: Date, expiration: Date): number {
+    return Math.max(this.timeModel.minuteYears, this.timeModel.yearFraction(asOf, expiration));
+  }
+
+  /**
+   * Swap the time model (e.g. to add FOMC/CPI event variance)
+   */
+  static setTimeModel(model: ExpiryTimeModel): void {
+    this.timeModel = model;
+  }
+
+  static getTimeModel(): ExpiryTimeModel {
+    return this.timeModel;
+  }
+
+  /**
+   * Swap the risk-free zero curve (defaults to a flat 5%)
+   */
+  static setRateCurve(curve: RateCurve): void {
+    this.rateCurve = curve;
+  }
+
+  static getRateCurve(): RateCurve {
+    return this.rateCurve;
+  }
+
+  /**
+   * Forward of the option's underlying: escrowed spot carried at the rate net of the dividend yield
+   */
+  static forwardPrice(
+    option: OptionsChain,
+    underlyingPrice: number,
+    timeToExpiration: number, // In years
+    riskFreeRate: number = GreeksEngine.rateCurve.rate(timeToExpiration),
+    asOf?: Date
+  ): number {
+    const inputs = this.pricingInputs(option, underlyingPrice, timeToExpiration, this.DEFAULT_VOLATILITY, riskFreeRate, asOf);
+    return OptionPricingModels.escrowedSpot(inputs) * Math.exp((riskFreeRate - inputs.dividendYield) * timeToExpiration);
+  }
+
+  /**
+   * Model an option is priced with: its underlying's, or Black-Scholes-Merton for unknown underlyings
+   */
+  static pricingModel(option: OptionsChain): PricingModel {
+    const underlying = SymbolUniverse.underlyingOf(option.symbol);
+    return SymbolUniverse.isKnown(underlying) ? SymbolUniverse.pricingModelFor(underlying) : 'BLACK_SCHOLES_MERTON';
+  }
+
+  private static buildSnapshot(
+    option: OptionsChain,
+    underlyingPrice: number,
+    timeToExpiration: number,
+    impliedVolatility: number,
+    riskFreeRate: number,
+    dayYears: number, // Year fraction theta is quoted per
+    asOf?: Date
   ): GreeksSnapshot {
-    
     const optionType = option.side === 'CALL' ? 'call' : 'put';
     const strike = option.strike;
+    const inputs = this.pricingInputs(option, underlyingPrice, timeToExpiration, impliedVolatility, riskFreeRate, asOf);
+    const spot = OptionPricingModels.escrowedSpot(inputs); // Escrowed spot moves one-for-one with the underlying
+    const q = inputs.dividendYield;
+    const carry = Math.exp(-q * timeToExpiration);
     
-    // Black-Scholes components
-    const d1 = this.calculateD1(underlyingPrice, strike, timeToExpiration, impliedVolatility, riskFreeRate);
+    // Black-Scholes-Merton components
+    const d1 = this.calculateD1(spot, strike, timeToExpiration, impliedVolatility, riskFreeRate, q);
     const d2 = d1 - impliedVolatility * Math.sqrt(timeToExpiration);
     
     const N_d1 = this.normalCDF(d1);
@@ -66,19 +325,21 @@ export class GreeksEngine {
     const n_d1 = this.normalPDF(d1); // Standard normal PDF
     
     // Primary Greeks
-    const delta = this.calculateDelta(optionType, N_d1, N_d2, riskFreeRate, timeToExpiration);
-    const gamma = this.calculateGamma(n_d1, underlyingPrice, impliedVolatility, timeToExpiration);
-    const theta = this.calculateTheta(optionType, underlyingPrice, strike, n_d1, N_d1, N_d2, impliedVolatility, timeToExpiration, riskFreeRate);
-    const vega = this.calculateVega(underlyingPrice, n_d1, timeToExpiration) / 100; // Per 1% vol change
+    const delta = this.calculateDelta(optionType, N_d1, q, timeToExpiration);
+    const gamma = this.calculateGamma(n_d1, spot, impliedVolatility, timeToExpiration) * carry;
+    const theta = this.calculateTheta(optionType, spot, strike, n_d1, N_d1, N_d2, impliedVolatility, timeToExpiration, riskFreeRate, q) * dayYears;
+    const vega = this.calculateVega(spot, n_d1, timeToExpiration) * carry / 100; // Per 1% vol change
     const rho = this.calculateRho(optionType, strike, N_d2, timeToExpiration, riskFreeRate) / 100; // Per 1% rate change
     
     // Advanced Greeks
-    const lambda = delta * (underlyingPrice / this.calculateOptionPrice(optionType, underlyingPrice, strike, timeToExpiration, impliedVolatility, riskFreeRate));
+    const lambda = delta * (underlyingPrice / OptionPricingModels.price(this.pricingModel(option), inputs));
     const epsilon = vega * impliedVolatility / 100; // Psi - elasticity to volatility
     const vomma = vega * d1 * d2 / impliedVolatility; // Vega convexity
-    const charm = -n_d1 * (2 * riskFreeRate * timeToExpiration - d2 * impliedVolatility * Math.sqrt(timeToExpiration)) / (2 * timeToExpiration * impliedVolatility * Math.sqrt(timeToExpiration));
-    const speed = -gamma / underlyingPrice * (d1 / (impliedVolatility * Math.sqrt(timeToExpiration)) + 1);
-    const color = -n_d1 / (2 * underlyingPrice * timeToExpiration * impliedVolatility * Math.sqrt(timeToExpiration)) * (2 * riskFreeRate * timeToExpiration + 1 + d1 * (2 * riskFreeRate * timeToExpiration - d2 * impliedVolatility * Math.sqrt(timeToExpiration)) / (impliedVolatility * Math.sqrt(timeToExpiration)));
+    const sqrtT = Math.sqrt(timeToExpiration);
+    const carryDrift = 2 * (riskFreeRate - q) * timeToExpiration - d2 * impliedVolatility * sqrtT;
+    const charm = q * carry * (optionType === 'call' ? N_d1 : N_d1 - 1) - carry * n_d1 * carryDrift / (2 * timeToExpiration * impliedVolatility * sqrtT);
+    const speed = -gamma / spot * (d1 / (impliedVolatility * sqrtT) + 1);
+    const color = -carry * n_d1 / (2 * spot * timeToExpiration * impliedVolatility * sqrtT) * (2 * q * timeToExpiration + 1 + d1 * carryDrift / (impliedVolatility * sqrtT));
     
     return {
       timestamp: new Date(),
@@ -86,6 +347,7 @@ export class GreeksEngine {
       timeToExpiration,
       impliedVolatility,
       riskFreeRate,
+      dividendYield: q,
       delta: Number(delta.toFixed(4)),
       gamma: Number(gamma.toFixed(6)),
       theta: Number(theta.toFixed(2)),
@@ -100,6 +362,162 @@ export class GreeksEngine {
     };
   }
   
+  /**
+   * Theoretical value for a single option under its underlying's pricing model
+   */
+  static calculateTheoreticalPrice(
+    option: OptionsChain,
+    underlyingPrice: number,
+    timeToExpiration: number, // In years
+    impliedVolatility: number = option.impliedVolatility || 0.2,
+    riskFreeRate: number = GreeksEngine.rateCurve.rate(timeToExpiration)
+  ): number {
+    const inputs = this.pricingInputs(option, underlyingPrice, timeToExpiration, impliedVolatility, riskFreeRate);
+    return OptionPricingModels.price(this.pricingModel(option), inputs);
+  }
+  
+  /**
+   * Invert the option's pricing model for the volatility that reproduces `price`:
+   * Newton on Black-Scholes-Merton vega from a Brenner-Subrahmanyam start, falling
+   * back to Brent on [MIN_VOLATILITY, MAX_VOLATILITY] when vega vanishes (deep
+   * ITM/OTM, near expiry) or a Newton step leaves the bracket
+   */
+  static solveImpliedVolatility(
+    option: OptionsChain,
+    price: number,
+    underlyingPrice: number,
+    timeToExpiration: number, // In years
+    riskFreeRate: number = GreeksEngine.rateCurve.rate(timeToExpiration),
+    asOf?: Date
+  ): ImpliedVolatilityResult {
+    const unsolved = (status: ImpliedVolatilityStatus): ImpliedVolatilityResult => ({ impliedVolatility: null, status, method: 'none', iterations: 0, price });
+    if (!isFinite(price) || price <= 0 || !(underlyingPrice > 0) || !(option.strike > 0)) {
+      return unsolved('NO_PRICE');
+    }
+    if (!(timeToExpiration >= this.MIN_TIME_TO_EXPIRATION)) {
+      return unsolved('EXPIRED');
+    }
+
+    // No-arbitrage bounds: discounted (or, for American exercise, immediate) intrinsic value
+    // below; spot (calls) or the strike, discounted if European (puts), above
+    const model = this.pricingModel(option);
+    const inputs = this.pricingInputs(option, underlyingPrice, timeToExpiration, this.DEFAULT_VOLATILITY, riskFreeRate, asOf);
+    const spot = OptionPricingModels.escrowedSpot(inputs);
+    const intrinsic = OptionPricingModels.lowerBound(model, inputs);
+    if (price <= intrinsic + this.PRICE_TOLERANCE) {
+      return unsolved('BELOW_INTRINSIC');
+    }
+    const strikeCap = OptionPricingModels.isAmerican(model) ? option.strike : option.strike * Math.exp(-riskFreeRate * timeToExpiration);
+    const priceAt = (sigma: number) => OptionPricingModels.price(model, { ...inputs, volatility: sigma });
+    if (price >= (inputs.type === 'call' ? underlyingPrice : strikeCap) || price > priceAt(this.MAX_VOLATILITY)) {
+      return unsolved('ABOVE_MAXIMUM');
+    }
+
+    let sigma = Math.sqrt(2 * Math.PI / timeToExpiration) * (price - intrinsic) / underlyingPrice;
+    sigma = Math.min(this.MAX_VOLATILITY, Math.max(this.MIN_VOLATILITY, sigma));
+    for (let iteration = 1; iteration <= this.MAX_NEWTON_ITERATIONS; iteration++) {
+      const error = priceAt(sigma) - price;
+      if (Math.abs(error) < this.PRICE_TOLERANCE) {
+        return { impliedVolatility: sigma, status: 'SOLVED', method: 'newton', iterations: iteration, price };
+      }
+
+      const d1 = this.calculateD1(spot, option.strike, timeToExpiration, sigma, riskFreeRate, inputs.dividendYield);
+      const vega = this.calculateVega(spot, this.normalPDF(d1), timeToExpiration) * Math.exp(-inputs.dividendYield * timeToExpiration);
+      const next = sigma - error / vega;
+      if (!(vega > 1e-8) || !(next > this.MIN_VOLATILITY && next < this.MAX_VOLATILITY)) {
+        break;
+      }
+      sigma = next;
+    }
+
+    const brent = this.brentRoot(candidate => priceAt(candidate) - price, this.MIN_VOLATILITY, this.MAX_VOLATILITY);
+    return { impliedVolatility: brent.root, status: 'SOLVED', method: 'brent', iterations: brent.iterations, price };
+  }
+
+  /**
+   * Implied volatility at the bid, the ask and the mid of a quote
+   */
+  static impliedVolatilityFromQuote(
+    option: OptionsChain,
+    underlyingPrice: number,
+    timeToExpiration: number, // In years
+    riskFreeRate: number = GreeksEngine.rateCurve.rate(timeToExpiration)
+  ): QuoteImpliedVolatility {
+    const mid = option.bid > 0 && option.ask >= option.bid ? (option.bid + option.ask) / 2 : option.last || 0;
+    return {
+      bid: this.solveImpliedVolatility(option, option.bid, underlyingPrice, timeToExpiration, riskFreeRate),
+      ask: this.solveImpliedVolatility(option, option.ask, underlyingPrice, timeToExpiration, riskFreeRate),
+      mid: this.solveImpliedVolatility(option, mid, underlyingPrice, timeToExpiration, riskFreeRate)
+    };
+  }
+
+  /**
+   * IV the market is pricing: solved from the mid, else the feed's IV, else DEFAULT_VOLATILITY
+   */
+  static marketImpliedVolatility(
+    option: OptionsChain,
+    underlyingPrice: number,
+    timeToExpiration: number, // In years
+    riskFreeRate: number = GreeksEngine.rateCurve.rate(timeToExpiration),
+    asOf?: Date
+  ): number {
+    const mid = option.bid > 0 && option.ask >= option.bid ? (option.bid + option.ask) / 2 : option.last || 0;
+    const solved = this.solveImpliedVolatility(option, mid, underlyingPrice, timeToExpiration, riskFreeRate, asOf);
+    return solved.impliedVolatility ?? (option.impliedVolatility || this.DEFAULT_VOLATILITY);
+  }
+
+  /**
+   * Whether a short ITM leg is likely to be assigned early: a call when the next
+   * dividend is worth more than the time value it leaves behind (the same-strike
+   * put plus interest on the strike), a put (or a call on a yield) once less than
+   * a tick of time value is left. IV defaults to the feed's, as in calculateGreeks
+   */
+  static earlyExerciseRisk(
+    option: OptionsChain,
+    underlyingPrice: number,
+    asOf: Date,
+    impliedVolatility?: number
+  ): EarlyExerciseRisk {
+    const timeToExpiration = this.timeToExpiration(asOf, option.expiration);
+    const rate = this.rateCurve.rate(timeToExpiration);
+    const volatility = impliedVolatility ?? (option.impliedVolatility || this.DEFAULT_VOLATILITY);
+    const inputs = this.pricingInputs(option, underlyingPrice, timeToExpiration, volatility, rate, asOf);
+    const model = this.pricingModel(option);
+    const intrinsicValue = Math.max(0, inputs.type === 'call' ? underlyingPrice - option.strike : option.strike - underlyingPrice);
+    const europeanValue = OptionPricingModels.blackScholesMerton(inputs);
+    const americanValue = OptionPricingModels.isAmerican(model) ? OptionPricingModels.price(model, inputs) : europeanValue;
+    const risk: EarlyExerciseRisk = {
+      atRisk: false,
+      intrinsicValue,
+      americanValue,
+      europeanValue,
+      earlyExercisePremium: Math.max(0, americanValue - europeanValue)
+    };
+    if (!OptionPricingModels.isAmerican(model) || intrinsicValue <= 0) {
+      return risk;
+    }
+
+    const spec = SymbolUniverse.getSpec(SymbolUniverse.underlyingOf(option.symbol));
+    const dividend = (spec.cashDividends || [])
+      .filter(candidate => candidate.exDate > asOf && candidate.exDate <= option.expiration)
+      .sort((a, b) => a.exDate.getTime() - b.exDate.getTime())[0];
+    if (inputs.type === 'call' && dividend) {
+      const afterExDate = timeToExpiration * (option.expiration.getTime() - dividend.exDate.getTime()) / (option.expiration.getTime() - asOf.getTime());
+      const put = OptionPricingModels.blackScholesMerton({ ...inputs, type: 'put' });
+      const timeValueLeft = put + option.strike * (1 - Math.exp(-rate * afterExDate));
+      if (dividend.amount > timeValueLeft) {
+        return { ...risk, atRisk: true, dividend, reason: `$${dividend.amount.toFixed(2)} dividend on ${dividend.exDate.toISOString().split('T')[0]} exceeds $${timeValueLeft.toFixed(2)} of time value` };
+      }
+      return { ...risk, dividend };
+    }
+
+    const timeValue = americanValue - intrinsicValue;
+    if (timeValue < this.EXERCISE_TIME_VALUE) {
+      return { ...risk, atRisk: true, dividend, reason: `$${timeValue.toFixed(3)} of time value left on a $${intrinsicValue.toFixed(2)} ITM ${option.side.toLowerCase()}` };
+    }
+    return { ...risk, dividend };
+  }
+
   /**
    * Calculate portfolio Greeks for multi-leg strategies
    */
@@ -109,6 +527,10 @@ export class GreeksEngine {
     timeToExpiration: number
   ): GreeksSnapshot {
     
+    return this.netLegs(legs.map(leg => ({ ...leg, greeks: this.calculateGreeks(leg.option, underlyingPrice, timeToExpiration) })));
+  }
+
+  private static netLegs(legs: Array<{quantity: number; side: 'LONG' | 'SHORT'; greeks: GreeksSnapshot}>): GreeksSnapshot {
     let netDelta = 0;
     let netGamma = 0;
     let netTheta = 0;
@@ -116,7 +538,7 @@ export class GreeksEngine {
     let netRho = 0;
     
     for (const leg of legs) {
-      const greeks = this.calculateGreeks(leg.option, underlyingPrice, timeToExpiration);
+      const greeks = leg.greeks;
       const multiplier = leg.quantity * (leg.side === 'LONG' ? 1 : -1);
       
       netDelta += greeks.delta * multiplier;
@@ -127,7 +549,7 @@ export class GreeksEngine {
     }
     
     // Return portfolio Greeks using the first leg as reference
-    const firstLeg = this.calculateGreeks(legs[0].option, underlyingPrice, timeToExpiration);
+    const firstLeg = legs[0].greeks;
     
     return {
       ...firstLeg,
@@ -142,6 +564,17 @@ export class GreeksEngine {
     };
   }
   
+  /**
+   * Portfolio Greeks with each leg priced in trading time at `asOf`
+   */
+  static calculatePortfolioGreeksAt(
+    legs: Array<{option: OptionsChain; quantity: number; side: 'LONG' | 'SHORT'}>,
+    underlyingPrice: number,
+    asOf: Date
+  ): GreeksSnapshot {
+    return this.netLegs(legs.map(leg => ({ ...leg, greeks: this.calculateGreeksAt(leg.option, underlyingPrice, asOf) })));
+  }
+
   /**
    * Calculate Greeks sensitivity to various market moves
    */
@@ -151,7 +584,7 @@ export class GreeksEngine {
     timeToExpiration: number
   ): GreeksSensitivity {
     
-    const iv = option.impliedVolatility || 0.2;
+    const iv = option.impliedVolatility || this.DEFAULT_VOLATILITY;
     
     return {
       priceMove1Dollar: this.calculateGreeks(option, underlyingPrice + 1, timeToExpiration, iv),
@@ -175,13 +608,10 @@ export class GreeksEngine {
     
     for (const bar of marketData) {
       if (bar.date.getTime() >= entryTime) {
-        const daysToExpiration = (option.expiration.getTime() - bar.date.getTime()) / (1000 * 60 * 60 * 24);
-        const timeToExpiration = Math.max(0.001, daysToExpiration / 365); // Minimum 0.001 years
-        
-        const snapshot = this.calculateGreeks(
+        const snapshot = this.calculateGreeksAt(
           option,
           bar.close,
-          timeToExpiration,
+          bar.date,
           option.impliedVolatility || 0.2
         );
         
@@ -194,15 +624,81 @@ export class GreeksEngine {
   
   // =================== PRIVATE HELPER METHODS ===================
   
-  private static calculateD1(S: number, K: number, T: number, sigma: number, r: number): number {
-    return (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
+  /**
+   * Model inputs for an option: the underlying's dividends, as cash amounts timed on
+   * the same clock as T (calendar asOf inferred from T when not given), or its yield
+   */
+  private static pricingInputs(
+    option: OptionsChain,
+    underlyingPrice: number,
+    timeToExpiration: number,
+    volatility: number,
+    riskFreeRate: number,
+    asOf?: Date
+  ): PricingInputs {
+    const underlying = SymbolUniverse.underlyingOf(option.symbol);
+    const spec = SymbolUniverse.isKnown(underlying) ? SymbolUniverse.getSpec(underlying) : undefined;
+    const inputs: PricingInputs = {
+      type: option.side === 'CALL' ? 'call' : 'put',
+      spot: underlyingPrice,
+      strike: option.strike,
+      timeToExpiration,
+      volatility,
+      rate: riskFreeRate,
+      dividendYield: 0,
+      dividends: []
+    };
+    if (!spec) {
+      return inputs;
+    }
+    if (!spec.cashDividends || spec.cashDividends.length === 0) {
+      return { ...inputs, dividendYield: spec.dividendYield || 0 };
+    }
+
+    const end = option.expiration.getTime();
+    const start = asOf ? asOf.getTime() : end - timeToExpiration * this.YEAR_MS;
+    inputs.dividends = spec.cashDividends
+      .filter(dividend => dividend.exDate.getTime() > start && dividend.exDate.getTime() <= end)
+      .map(dividend => ({ time: timeToExpiration * (dividend.exDate.getTime() - start) / (end - start), amount: dividend.amount }));
+    return inputs;
+  }
+  
+  /**
+   * Per-expiration terms a chain's contracts share: T, rate, dividends and the escrowed spot
+   */
+  private static chainExpiry(option: OptionsChain, underlyingPrice: number, asOf: Date, calendarTime: boolean): ChainExpiry {
+    const T = calendarTime
+      ? Math.max(this.MIN_TIME_TO_EXPIRATION, (option.expiration.getTime() - asOf.getTime()) / this.YEAR_MS)
+      : this.timeToExpiration(asOf, option.expiration);
+    const rate = this.rateCurve.rate(T);
+    const inputs = this.pricingInputs(option, underlyingPrice, T, this.DEFAULT_VOLATILITY, rate, asOf);
+    const spot = OptionPricingModels.escrowedSpot(inputs);
+    const model = this.pricingModel(option);
+    return {
+      T,
+      sqrtT: Math.sqrt(T),
+      rate,
+      dividendYield: inputs.dividendYield,
+      spot,
+      logSpot: Math.log(spot),
+      carry: Math.exp(-inputs.dividendYield * T),
+      discount: Math.exp(-rate * T),
+      inputs,
+      model,
+      american: OptionPricingModels.isAmerican(model)
+    };
   }
   
-  private static calculateDelta(type: 'call' | 'put', N_d1: number, N_d2: number, r: number, T: number): number {
+  private static calculateD1(S: number, K: number, T: number, sigma: number, r: number, q: number = 0): number {
+    return (Math.log(S / K) + (r - q + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
+  }
+  
+  private static calculateDelta(type: 'call' | 'put', N_d1: number, q: number, T: number): number {
+    const carry = Math.exp(-q * T);
     if (type === 'call') {
-      return N_d1;
+      return carry * N_d1;
     } else {
-      return N_d1 - 1;
+      return carry * (N_d1 - 1);
     }
   }
   
@@ -210,13 +706,14 @@ export class GreeksEngine {
     return n_d1 / (S * sigma * Math.sqrt(T));
   }
   
-  private static calculateTheta(type: 'call' | 'put', S: number, K: number, n_d1: number, N_d1: number, N_d2: number, sigma: number, T: number, r: number): number {
-    const common = -(S * n_d1 * sigma) / (2 * Math.sqrt(T));
+  private static calculateTheta(type: 'call' | 'put', S: number, K: number, n_d1: number, N_d1: number, N_d2: number, sigma: number, T: number, r: number, q: number = 0): number {
+    const carry = Math.exp(-q * T);
+    const common = -(S * carry * n_d1 * sigma) / (2 * Math.sqrt(T));
     
     if (type === 'call') {
-      return (common - r * K * Math.exp(-r * T) * N_d2) / 365; // Per day
+      return common - r * K * Math.exp(-r * T) * N_d2 + q * S * carry * N_d1; // Per year
     } else {
-      return (common + r * K * Math.exp(-r * T) * (1 - N_d2)) / 365; // Per day
+      return common + r * K * Math.exp(-r * T) * (1 - N_d2) - q * S * carry * (1 - N_d1); // Per year
     }
   }
   
@@ -232,17 +729,6 @@ export class GreeksEngine {
     }
   }
   
-  private static calculateOptionPrice(type: 'call' | 'put', S: number, K: number, T: number, sigma: number, r: number): number {
-    const d1 = this.calculateD1(S, K, T, sigma, r);
-    const d2 = d1 - sigma * Math.sqrt(T);
-    
-    if (type === 'call') {
-      return S * this.normalCDF(d1) - K * Math.exp(-r * T) * this.normalCDF(d2);
-    } else {
-      return K * Math.exp(-r * T) * this.normalCDF(-d2) - S * this.normalCDF(-d1);
-    }
-  }
-  
   private static normalCDF(x: number): number {
     const a1 = 0.254829592;
     const a2 = -0.284496736;
@@ -264,6 +750,78 @@ export class GreeksEngine {
     return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
   }
   
+  /**
+   * Brent's method (bisection, secant and inverse quadratic interpolation) on a sign-changing bracket
+   */
+  private static brentRoot(f: (x: number) => number, lower: number, upper: number): { root: number; iterations: number } {
+    let a = lower;
+    let b = upper;
+    let fa = f(a);
+    let fb = f(b);
+    if (fa * fb > 0) {
+      return { root: Math.abs(fa) < Math.abs(fb) ? a : b, iterations: 0 };
+    }
+
+    let c = a;
+    let fc = fa;
+    let d = b - a;
+    let e = d;
+    for (let iteration = 1; iteration <= this.MAX_BRENT_ITERATIONS; iteration++) {
+      if (fb * fc > 0) {
+        c = a;
+        fc = fa;
+        d = b - a;
+        e = d;
+      }
+      if (Math.abs(fc) < Math.abs(fb)) {
+        a = b; b = c; c = a;
+        fa = fb; fb = fc; fc = fa;
+      }
+
+      const tolerance = 2 * Number.EPSILON * Math.abs(b) + 1e-10;
+      const midpoint = (c - b) / 2;
+      if (Math.abs(midpoint) <= tolerance || Math.abs(fb) < this.PRICE_TOLERANCE) {
+        return { root: b, iterations: iteration };
+      }
+
+      if (Math.abs(e) >= tolerance && Math.abs(fa) > Math.abs(fb)) {
+        const s = fb / fa;
+        let p: number;
+        let q: number;
+        if (a === c) {
+          p = 2 * midpoint * s;
+          q = 1 - s;
+        } else {
+          const r = fb / fc;
+          const t = fa / fc;
+          p = s * (2 * midpoint * t * (t - r) - (b - a) * (r - 1));
+          q = (t - 1) * (r - 1) * (s - 1);
+        }
+        if (p > 0) {
+          q = -q;
+        } else {
+          p = -p;
+        }
+        if (2 * p < Math.min(3 * midpoint * q - Math.abs(tolerance * q), Math.abs(e * q))) {
+          e = d;
+          d = p / q;
+        } else {
+          d = midpoint;
+          e = d;
+        }
+      } else {
+        d = midpoint;
+        e = d;
+      }
+
+      a = b;
+      fa = fb;
+      b += Math.abs(d) > tolerance ? d : (midpoint > 0 ? tolerance : -tolerance);
+      fb = f(b);
+    }
+    return { root: b, iterations: this.MAX_BRENT_ITERATIONS };
+  }
+  
   /**
    * Check if position has dangerous Greeks exposure
    */
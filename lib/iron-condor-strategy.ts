@@ -1,5 +1,6 @@
 import { MarketData, TechnicalIndicators, TradeSignal, Strategy, OptionsChain, IronCondor } from './types';
 import { TechnicalAnalysis } from './technical-indicators';
+import { VolatilitySurface } from './volatility-surface';
 
 export class IronCondorStrategy {
   
@@ -47,7 +48,8 @@ export class IronCondorStrategy {
     console.log(`🦅 IRON CONDOR DEBUG - Market OK: ${marketConditionOk}, Neutral Signals: ${neutralSignals}/4, Base Confidence: ${baseConfidence}%`);
     
     if (marketConditionOk) {
-      const bestCondor = this.findBestIronCondor(optionsChain, currentPrice, indicators);
+      const surface = VolatilitySurface.fromChain(optionsChain, currentPrice, marketData[marketData.length - 1].date);
+      const bestCondor = this.findBestIronCondor(optionsChain, currentPrice, indicators, surface);
       
       if (bestCondor) {
         console.log(`🦅 IRON CONDOR DEBUG - Best Condor Found: YES`);
@@ -79,7 +81,8 @@ export class IronCondorStrategy {
   private static findBestIronCondor(
     optionsChain: OptionsChain[],
     currentPrice: number,
-    indicators: TechnicalIndicators
+    indicators: TechnicalIndicators,
+    surface: VolatilitySurface
   ): IronCondor | null {
     
     const calls = optionsChain.filter(opt => opt.side === 'CALL');
@@ -92,14 +95,15 @@ export class IronCondorStrategy {
       return null;
     }
 
-    // Filter OTM options with reasonable bid/ask
+    // Filter OTM options with reasonable bid/ask; deltas come off one fitted surface when it fits
+    const surfaceDelta = (option: OptionsChain) => Math.abs(surface.smiles.length > 0 ? surface.delta(option, currentPrice) : option.delta || 0);
     const otmCalls = calls.filter(call => 
       call.strike > currentPrice && 
       call.bid > 0.01 && 
       call.ask > 0.01 &&
       call.ask < 50 &&
-      Math.abs(call.delta || 0) >= 0.05 && 
-      Math.abs(call.delta || 0) <= 0.35
+      surfaceDelta(call) >= 0.05 && 
+      surfaceDelta(call) <= 0.35
     );
     
     const otmPuts = puts.filter(put => 
@@ -107,8 +111,8 @@ export class IronCondorStrategy {
       put.bid > 0.01 && 
       put.ask > 0.01 &&
       put.ask < 50 &&
-      Math.abs(put.delta || 0) >= 0.05 && 
-      Math.abs(put.delta || 0) <= 0.35
+      surfaceDelta(put) >= 0.05 && 
+      surfaceDelta(put) <= 0.35
     );
 
     console.log(`🦅 IRON CONDOR FILTERING - OTM Calls: ${otmCalls.length}, OTM Puts: ${otmPuts.length}`);
@@ -1,52 +1,82 @@
 import { Strategy, MarketData, OptionsChain, BacktestTrade } from './types';
-import { AdaptiveStrategySelector } from './adaptive-strategy-selector';
-import { GreeksEngine, GreeksSnapshot } from './greeks-engine';
-import { TransactionCostEngine, FillSimulation } from './transaction-cost-engine';
-import { alpacaClient } from './alpaca';
-
-// Enhanced live trading position interface
-interface LivePosition {
-  id: string;
-  symbol: string;
-  side: 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR' | 'CALL' | 'PUT';
-  strike: number;
-  expiration: Date;
-  entryDate: Date;
-  entryPrice: number;
-  quantity: number;
-  spread?: any;
-  entryGreeks?: GreeksSnapshot;
-  currentGreeks?: GreeksSnapshot;
-  greeksHistory?: GreeksSnapshot[];
-  entryFills?: FillSimulation[];
-  totalTransactionCosts?: number;
-  isOpen: boolean;
-  currentPnL?: number;
-  maxPnL?: number;
-  minPnL?: number;
-}
-
-// Enhanced Live Paper Trading Engine with full institutional features
+import { MarketDataProvider } from './market-data-provider';
+import { createMarketDataProvider } from './market-data-provider-factory';
+import { MarketCalendar } from './market-calendar';
+import { SymbolUniverse } from './symbol-universe';
+import { PortfolioGreeksAggregator, PortfolioGreeks } from './portfolio-greeks';
+import { VolatilitySurface } from './volatility-surface';
+import { CostModel, TransactionCostModel } from './backtest-cost-models';
+import { StrategyPositions } from './strategy-positions';
+import { AdaptiveSpreadStrategy } from './adaptive-spread-strategy';
+import { TradingStrategy, OpenSignal, StrategyPosition, StrategyHost, HostedBarContext } from './trading-strategy';
+
+// Enhanced Live Paper Trading Engine with full institutional features. Any TradingStrategy
+// runs here exactly as it backtests; fills are simulated on the live chain
 export class LivePaperTradingEngine {
   private isRunning = false;
-  private positions: LivePosition[] = [];
-  private strategy: Strategy | null = null;
+  private readonly strategyId: string;
+  private readonly host: StrategyHost;
+  private positions: StrategyPosition[] = [];
+  private trades: BacktestTrade[] = [];
   private initialCapital = 25000;
   private currentBalance = 25000;
-  private marketDataHistory: MarketData[] = [];
+  private sessionRealizedPnL = 0;
+  private sequence = 0;
+  private marketDataHistory = new Map<string, MarketData[]>();
   private lastOptionsUpdate = new Date(0);
-  private cachedOptionsChain: OptionsChain[] = [];
+  private cachedOptionsChain = new Map<string, OptionsChain[]>();
   private portfolioRiskHistory: any[] = [];
+  private readonly portfolioGreeks = new PortfolioGreeksAggregator();
+  private readonly costModel: CostModel = new TransactionCostModel();
   private tradingInterval: NodeJS.Timeout | null = null;
-
-  constructor(strategyId: string, initialCapital: number) {
-    this.strategy = { id: strategyId } as Strategy; // Will be loaded properly in real implementation
+  private dataProvider: MarketDataProvider;
+  private universe: SymbolUniverse;
+
+  constructor(
+    strategyId: string,
+    initialCapital: number,
+    dataProvider: MarketDataProvider = createMarketDataProvider(),
+    universe: SymbolUniverse = SymbolUniverse.fromEnv(),
+    strategy: TradingStrategy = new AdaptiveSpreadStrategy(LivePaperTradingEngine.defaultStrategy(strategyId))
+  ) {
+    this.strategyId = strategyId;
+    this.host = new StrategyHost(strategy, 'PAPER');
     this.initialCapital = initialCapital;
     this.currentBalance = initialCapital;
-    console.log(`🎯 Enhanced LivePaperTradingEngine initialized with strategy ${strategyId}, capital: $${initialCapital}`);
+    this.dataProvider = dataProvider;
+    this.universe = universe;
+    console.log(`🎯 Enhanced LivePaperTradingEngine initialized with strategy ${strategyId} (${strategy.name}), capital: $${initialCapital}, underlyings: ${universe.symbols.join(', ')}`);
     console.log(`🚀 Features: Greeks monitoring, Transaction costs, Portfolio risk management, Adaptive strategies`);
   }
 
+  /**
+   * Indicator and risk settings the default AdaptiveSpreadStrategy trades with
+   */
+  static defaultStrategy(strategyId: string): Strategy {
+    return {
+      id: strategyId,
+      name: 'Adaptive 0-DTE Spreads',
+      userId: 'paper',
+      rsiPeriod: 14,
+      rsiOverbought: 70,
+      rsiOversold: 30,
+      macdFast: 12,
+      macdSlow: 26,
+      macdSignal: 9,
+      bbPeriod: 20,
+      bbStdDev: 2,
+      stopLossPercent: 0.5,
+      takeProfitPercent: 0.5,
+      positionSizePercent: 0.02,
+      maxPositions: 3,
+      daysToExpiration: 0,
+      deltaRange: 0.3,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
   async start() {
     if (this.isRunning) {
       return { success: false, message: 'Trading engine already running' };
@@ -54,11 +84,11 @@ export class LivePaperTradingEngine {
 
     try {
       this.isRunning = true;
-      
-      // Test Alpaca connection
-      const connectionTest = await alpacaClient.testConnection();
+
+      // Test market data connection
+      const connectionTest = await this.dataProvider.testConnection();
       if (!connectionTest) {
-        throw new Error('Failed to connect to Alpaca API');
+        throw new Error(`Failed to connect to ${this.dataProvider.name} market data source`);
       }
 
       // Start trading loop
@@ -78,48 +108,48 @@ export class LivePaperTradingEngine {
 
   async stop() {
     this.isRunning = false;
-    
+
     if (this.tradingInterval) {
       clearInterval(this.tradingInterval);
       this.tradingInterval = null;
     }
+    await this.host.endSession(new Date(), this.currentBalance);
 
     console.log('🛑 Enhanced live paper trading stopped');
     return { success: true, message: 'Live trading stopped successfully' };
   }
 
   getLiveStatus() {
-    const openPositions = this.positions.filter(pos => pos.isOpen);
-    const closedPositions = this.positions.filter(pos => !pos.isOpen);
-    
-    const totalPnL = closedPositions.reduce((sum, pos) => sum + (pos.currentPnL || 0), 0);
-    const winningTrades = closedPositions.filter(pos => (pos.currentPnL || 0) > 0).length;
-    const winRate = closedPositions.length > 0 ? (winningTrades / closedPositions.length) * 100 : 0;
+    const totalPnL = this.trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+    const winningTrades = this.trades.filter(trade => (trade.pnl || 0) > 0).length;
+    const winRate = this.trades.length > 0 ? (winningTrades / this.trades.length) * 100 : 0;
 
     // Calculate current portfolio Greeks
     let portfolioGreeks = null;
-    if (openPositions.length > 0) {
-      portfolioGreeks = this.calculatePortfolioGreeks(openPositions);
+    if (this.positions.length > 0) {
+      portfolioGreeks = this.calculatePortfolioGreeks(this.positions);
     }
 
     return {
       isRunning: this.isRunning,
-      openPositions: openPositions.length,
-      totalTrades: this.positions.length,
+      openPositions: this.positions.length,
+      totalTrades: this.positions.length + this.trades.length,
       totalPnL,
       totalPnLPercent: ((this.currentBalance - this.initialCapital) / this.initialCapital) * 100,
       winRate,
       currentBalance: this.currentBalance,
       portfolioGreeks,
       lastUpdate: new Date().toISOString(),
-      strategy: this.strategy?.id || 'none',
+      strategy: this.strategyId,
+      strategyParameters: this.host.params,
       initialCapital: this.initialCapital,
-      positions: openPositions.map(pos => ({
+      positions: this.positions.map(pos => ({
         id: pos.id,
         symbol: pos.symbol,
-        side: pos.side,
+        underlying: pos.underlying,
+        side: pos.label,
         entryDate: pos.entryDate,
-        currentPnL: pos.currentPnL,
+        currentPnL: pos.unrealizedPnL,
         greeks: pos.currentGreeks
       }))
     };
@@ -133,26 +163,33 @@ export class LivePaperTradingEngine {
       if (!this.isRunning) return;
 
       const now = new Date();
-      
+
       // Only trade during market hours (9:30 AM - 4:00 PM ET)
-      if (!this.isMarketHours(now)) {
+      if (!MarketCalendar.isMarketOpen(now)) {
+        this.settleExpired(now);
+        await this.host.endSession(now, this.currentBalance);
+        this.sessionRealizedPnL = 0;
         return;
       }
 
       // Update market data
-      await this.updateMarketData();
+      for (const symbol of this.universe.symbols) {
+        await this.updateMarketData(symbol);
+      }
 
       // Update options chain (every 5 minutes)
       if ((now.getTime() - this.lastOptionsUpdate.getTime()) > 5 * 60 * 1000) {
-        await this.updateOptionsChain();
+        for (const symbol of this.universe.symbols) {
+          await this.updateOptionsChain(symbol);
+        }
         this.lastOptionsUpdate = now;
       }
 
-      // Monitor existing positions
-      await this.monitorPositions();
-
-      // Look for new trading opportunities
-      await this.scanForTrades();
+      // Settle anything that expired, then run the strategy on each underlying
+      this.settleExpired(now);
+      for (const symbol of this.universe.symbols) {
+        await this.runStrategy(symbol, now);
+      }
 
       // Update portfolio risk metrics
       this.updatePortfolioRisk();
@@ -163,15 +200,15 @@ export class LivePaperTradingEngine {
   }
 
   /**
-   * Update market data from Alpaca
+   * Update market data from the configured provider
    */
-  private async updateMarketData() {
+  private async updateMarketData(symbol: string) {
     try {
-      const currentPrice = await alpacaClient.getCurrentPrice('SPY');
-      
+      const currentPrice = await this.dataProvider.getCurrentPrice(symbol);
+
       const marketData: MarketData = {
         id: `live_${Date.now()}`,
-        symbol: 'SPY',
+        symbol,
         date: new Date(),
         open: currentPrice,
         high: currentPrice,
@@ -181,199 +218,192 @@ export class LivePaperTradingEngine {
         createdAt: new Date()
       };
 
-      this.marketDataHistory.push(marketData);
-      
+      const history = this.marketDataHistory.get(symbol) || [];
+      history.push(marketData);
+
       // Keep only last 1000 bars for performance
-      if (this.marketDataHistory.length > 1000) {
-        this.marketDataHistory = this.marketDataHistory.slice(-1000);
-      }
+      this.marketDataHistory.set(symbol, history.slice(-1000));
 
     } catch (error) {
-      console.error('❌ Failed to update market data:', error);
+      console.error(`❌ Failed to update ${symbol} market data:`, error);
     }
   }
 
   /**
-   * Update options chain from Alpaca
+   * Update options chain from the configured provider
    */
-  private async updateOptionsChain() {
+  private async updateOptionsChain(symbol: string) {
     try {
-      this.cachedOptionsChain = await alpacaClient.getOptionsChain('SPY');
-      console.log(`🔄 Updated options chain: ${this.cachedOptionsChain.length} contracts`);
+      const chain = await this.dataProvider.getOptionsChain(symbol);
+      this.cachedOptionsChain.set(symbol, chain);
+      console.log(`🔄 Updated ${symbol} options chain: ${chain.length} contracts`);
     } catch (error) {
-      console.error('❌ Failed to update options chain:', error);
-    }
-  }
-
-  /**
-   * Monitor existing positions and check for exit conditions
-   */
-  private async monitorPositions() {
-    const openPositions = this.positions.filter(pos => pos.isOpen);
-    
-    for (const position of openPositions) {
-      // Update current Greeks
-      if (position.spread && this.marketDataHistory.length > 0) {
-        const currentPrice = this.marketDataHistory[this.marketDataHistory.length - 1].close;
-        const timeToExpiration = Math.max(0.001, 
-          (position.expiration.getTime() - Date.now()) / (1000 * 60 * 60 * 24 * 365)
-        );
-
-        // Calculate current Greeks (would use BacktestEngine's method in real implementation)
-        // position.currentGreeks = GreeksEngine.calculateGreeks(...);
-        
-        // Check exit conditions
-        const shouldExit = this.shouldExitPosition(position, currentPrice);
-        if (shouldExit.exit) {
-          await this.closePosition(position, shouldExit.reason);
-        }
-      }
+      console.error(`❌ Failed to update ${symbol} options chain:`, error);
     }
   }
 
   /**
-   * Scan for new trading opportunities
+   * Mark this underlying's positions on its cached chain, feed the latest bar and quotes to
+   * the strategy and execute its signals
    */
-  private async scanForTrades() {
-    if (!this.strategy || this.marketDataHistory.length < 50) return;
-
-    const openPositions = this.positions.filter(pos => pos.isOpen);
-    
-    // Don't open too many positions
-    if (openPositions.length >= (this.strategy.maxPositions || 5)) {
-      return;
-    }
+  private async runStrategy(symbol: string, now: Date) {
+    const history = this.marketDataHistory.get(symbol) || [];
+    if (history.length === 0) return;
 
     try {
-      // Use adaptive strategy selector
-      const strategySelection = AdaptiveStrategySelector.generateAdaptiveSignal(
-        this.marketDataHistory.slice(-100), // Last 100 bars
-        this.cachedOptionsChain,
-        this.strategy
-      );
-
-      if (strategySelection.signal && strategySelection.signal.spread) {
-        await this.executeTrade(strategySelection.signal);
+      const bar = history[history.length - 1];
+      const price = bar.close;
+      const chain = this.cachedOptionsChain.get(symbol) || [];
+      const positions = this.positions.filter(position => position.underlying === symbol);
+      if (chain.length > 0) {
+        let surface: VolatilitySurface | undefined;
+        const legSurface = () => surface || (surface = VolatilitySurface.fromChain(chain, price, now));
+        positions.forEach(position => StrategyPositions.mark(position, chain, legSurface, price, now));
+      }
+
+      const context: HostedBarContext = {
+        timestamp: now,
+        underlying: symbol,
+        spec: SymbolUniverse.getSpec(symbol),
+        bar,
+        history,
+        positions,
+        allPositions: this.positions,
+        balance: this.currentBalance,
+        equity: this.currentBalance + this.positions.reduce((sum, position) => sum + position.unrealizedPnL, 0),
+        sessionRealizedPnL: this.sessionRealizedPnL,
+        prices: this.latestPrices()
+      };
+      await this.host.bar(context);
+      if (chain.length === 0) return;
+
+      const signals = await this.host.quote({ ...context, chain });
+      for (const signal of signals) {
+        if (signal.action === 'CLOSE') {
+          const position = this.positions.find(open => open.id === signal.positionId);
+          if (position) {
+            this.closePosition(position, signal.reason, now);
+          }
+        } else {
+          this.openPosition(signal.underlying || symbol, signal, now);
+        }
       }
 
     } catch (error) {
-      console.error('❌ Error scanning for trades:', error);
+      console.error(`❌ Error running strategy on ${symbol}:`, error);
     }
   }
 
   /**
-   * Execute a new trade
+   * Fill an OPEN signal on the quotes it was built from
    */
-  private async executeTrade(signal: any) {
-    try {
-      if (!signal.spread) return null;
-
-      const currentPrice = this.marketDataHistory[this.marketDataHistory.length - 1].close;
-      
-      // Calculate position size (simplified)
-      const positionSize = Math.floor(this.currentBalance * 0.02 / (signal.spread.maxLoss || 100));
-      
-      if (positionSize <= 0) return null;
-
-      // Create new position
-      const position: LivePosition = {
-        id: `live_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        symbol: 'SPY',
-        side: signal.action,
-        strike: signal.spread.sellPut?.strike || signal.spread.sellCall?.strike || 0,
-        expiration: signal.spread.sellPut?.expiration || signal.spread.sellCall?.expiration || new Date(),
-        entryDate: new Date(),
-        entryPrice: signal.spread.netCredit,
-        quantity: positionSize,
-        spread: signal.spread,
-        isOpen: true,
-        currentPnL: 0
-      };
-
-      this.positions.push(position);
-
-      console.log(`✅ Opened ${signal.action}: Size=${positionSize}, Credit=$${signal.spread.netCredit.toFixed(2)}`);
-
-      return position;
-
-    } catch (error) {
-      console.error('❌ Error executing trade:', error);
-      return null;
-    }
+  private openPosition(underlying: string, signal: OpenSignal, now: Date) {
+    const quantity = Math.floor(signal.quantity);
+    if (signal.legs.length === 0 || quantity < 1) return;
+
+    const id = `${this.strategyId}-P${++this.sequence}`;
+    const fill = StrategyPositions.buildFill(
+      { id, action: 'OPEN', timestamp: now, legs: signal.legs },
+      id,
+      StrategyPositions.isCredit(signal.legs),
+      signal.legs.map(leg => leg.option),
+      this.costModel.fill(StrategyPositions.openingLegs(signal.legs, quantity)),
+      quantity
+    );
+    const position = StrategyPositions.open(underlying, signal, fill, this.latestPrices()[underlying]);
+    this.positions.push(position);
+    console.log(`✅ Opened ${underlying} ${position.label}: Size=${quantity}, ${position.credit ? 'Credit' : 'Debit'}=$${position.entryPrice.toFixed(2)}`);
+    this.host.fill(fill, position);
   }
 
   /**
-   * Close a position
+   * Close a position at its latest quotes
    */
-  private async closePosition(position: LivePosition, reason: string = 'MANUAL') {
-    try {
-      position.isOpen = false;
-      
-      // Calculate final P&L (simplified)
-      const exitCredit = 0.05; // Simplified exit value
-      position.currentPnL = (position.entryPrice - exitCredit) * position.quantity * 100;
-
-      console.log(`🔒 Closed ${position.side}: ${reason}, P&L: $${position.currentPnL?.toFixed(0)}`);
-
-      // Update balance
-      this.currentBalance += position.currentPnL || 0;
-
-      return position;
-
-    } catch (error) {
-      console.error('❌ Error closing position:', error);
-      return null;
-    }
+  private closePosition(position: StrategyPosition, reason: string, now: Date) {
+    const estimate = this.costModel.fill(StrategyPositions.closingLegs(position));
+    const fill = StrategyPositions.buildFill(
+      { id: `${position.id}-close`, action: 'CLOSE', timestamp: now, legs: position.legs },
+      position.id,
+      position.credit,
+      position.legQuotes,
+      estimate,
+      position.quantity
+    );
+    this.host.fill(fill, position);
+    this.recordClose(position, fill.price, fill.mark, fill.fees, reason, now);
   }
 
   /**
-   * Check if position should be exited
+   * Positions past their expiration settle at intrinsic value
    */
-  private shouldExitPosition(position: LivePosition, currentPrice: number): { exit: boolean; reason: string } {
-    // Simplified exit logic
-    const daysHeld = (Date.now() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24);
-    
-    if (daysHeld >= 1) { // Close 0-DTE positions after 1 day
-      return { exit: true, reason: 'TIME_LIMIT' };
+  private settleExpired(now: Date) {
+    const prices = this.latestPrices();
+    for (const position of this.positions.filter(open => open.expiration.getTime() <= now.getTime())) {
+      const price = prices[position.underlying];
+      if (!(price > 0)) continue;
+      this.recordClose(position, StrategyPositions.settlementPrice(position, price), undefined, 0, 'EXPIRATION', now);
     }
+  }
 
-    return { exit: false, reason: 'HOLD' };
+  private recordClose(position: StrategyPosition, exitPrice: number, exitMark: number | undefined, exitFees: number, reason: string, now: Date) {
+    const trade = StrategyPositions.closeTrade(position, {
+      tradeId: `${this.strategyId}-T${this.trades.length + 1}`,
+      bookId: this.strategyId,
+      exitPrice,
+      exitMark,
+      exitFees,
+      reason,
+      timestamp: now,
+      underlyingPrice: this.latestPrices()[position.underlying]
+    });
+    const pnl = trade.pnl || 0;
+
+    this.trades.push(trade);
+    this.positions = this.positions.filter(open => open !== position);
+    this.currentBalance += pnl;
+    this.sessionRealizedPnL += pnl;
+    console.log(`🔒 Closed ${position.label}: ${reason}, P&L: $${pnl.toFixed(0)}`);
+    this.host.positionClosed(position, trade);
+  }
+
+  private latestPrices(): Record<string, number> {
+    const prices: Record<string, number> = {};
+    this.marketDataHistory.forEach((history, symbol) => {
+      if (history.length > 0) prices[symbol] = history[history.length - 1].close;
+    });
+    return prices;
   }
 
   /**
-   * Calculate portfolio Greeks
+   * Calculate portfolio Greeks: dollar and beta-weighted, broken out per underlying
    */
-  private calculatePortfolioGreeks(positions: LivePosition[]): any {
-    // Simplified portfolio Greeks calculation
-    let totalDelta = 0;
-    let totalTheta = 0;
-    let totalVega = 0;
-
-    for (const pos of positions) {
-      if (pos.currentGreeks) {
-        totalDelta += pos.currentGreeks.delta * pos.quantity;
-        totalTheta += pos.currentGreeks.theta * pos.quantity;
-        totalVega += pos.currentGreeks.vega * pos.quantity;
-      }
-    }
-
-    return { delta: totalDelta, theta: totalTheta, vega: totalVega };
+  private calculatePortfolioGreeks(positions: StrategyPosition[]): PortfolioGreeks {
+    return this.portfolioGreeks.aggregate(
+      positions.map(pos => ({
+        underlying: pos.underlying,
+        contracts: pos.quantity,
+        delta: pos.currentGreeks.delta,
+        gamma: pos.currentGreeks.gamma,
+        theta: pos.currentGreeks.theta,
+        vega: pos.currentGreeks.vega,
+        premium: pos.entryPrice
+      })),
+      this.latestPrices()
+    );
   }
 
   /**
    * Update portfolio risk metrics
    */
   private updatePortfolioRisk() {
-    const openPositions = this.positions.filter(pos => pos.isOpen);
-    
-    if (openPositions.length > 0) {
-      const portfolioGreeks = this.calculatePortfolioGreeks(openPositions);
-      
+    if (this.positions.length > 0) {
+      const portfolioGreeks = this.calculatePortfolioGreeks(this.positions);
+
       this.portfolioRiskHistory.push({
         timestamp: new Date(),
         portfolioGreeks,
-        positionCount: openPositions.length,
-        totalNotional: openPositions.reduce((sum, pos) => sum + Math.abs(pos.entryPrice * pos.quantity * 100), 0)
+        positionCount: this.positions.length,
+        totalNotional: portfolioGreeks.total.notional
       });
 
       // Keep only last 1000 entries
@@ -382,17 +412,4 @@ export class LivePaperTradingEngine {
       }
     }
   }
-
-  /**
-   * Check if current time is within market hours
-   */
-  private isMarketHours(date: Date): boolean {
-    const hour = date.getHours();
-    const minute = date.getMinutes();
-    const dayOfWeek = date.getDay();
-
-    // Monday-Friday, 9:30 AM - 4:00 PM ET
-    return dayOfWeek >= 1 && dayOfWeek <= 5 && 
-           ((hour === 9 && minute >= 30) || (hour >= 10 && hour < 16));
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,184 @@
+/**
+ * LOCAL FILE MARKET DATA PROVIDER
+ * Serves recorded bars and options chains from disk
+ *
+ * Directory layout (one file per symbol/timeframe):
+ *   <root>/SPY_1Min.json | SPY_1Min.csv   - bars
+ *   <root>/SPY_options.json               - options chain records
+ *
+ * Bar files accept Alpaca exports ({ bars: [{ t, o, h, l, c, v }] } or the bare
+ * array), MarketData-shaped JSON, or CSV with a timestamp,open,high,low,close,volume header.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarketData, OptionsChain } from './types';
+import { MarketDataProvider, BarTimeframe } from './market-data-provider';
+
+export class LocalFileMarketDataProvider implements MarketDataProvider {
+  readonly name = 'local';
+  private readonly rootDir: string;
+  private barCache: Map<string, MarketData[]> = new Map();
+  private chainCache: Map<string, OptionsChain[]> = new Map();
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async testConnection(): Promise<boolean> {
+    const exists = fs.existsSync(this.rootDir);
+    if (!exists) {
+      console.error(`❌ Local market data directory not found: ${this.rootDir}`);
+    }
+    return exists;
+  }
+
+  async getMarketData(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    timeframe: BarTimeframe = '1Day'
+  ): Promise<MarketData[]> {
+    const bars = this.loadBars(symbol, timeframe);
+    const start = startDate.getTime();
+    const end = endDate.getTime();
+
+    const inRange = bars.filter(bar => bar.date.getTime() >= start && bar.date.getTime() <= end);
+    console.log(`📁 Loaded ${inRange.length} ${timeframe} bars for ${symbol} from ${this.rootDir}`);
+    return inRange;
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    // Finest recorded timeframe gives the most recent close
+    const timeframes: BarTimeframe[] = ['1Min', '5Min', '15Min', '1Hour', '1Day'];
+    for (const timeframe of timeframes) {
+      if (this.findBarFile(symbol, timeframe)) {
+        const bars = this.loadBars(symbol, timeframe);
+        if (bars.length > 0) {
+          return bars[bars.length - 1].close;
+        }
+      }
+    }
+    throw new Error(`No recorded bars for ${symbol} in ${this.rootDir}`);
+  }
+
+  async getOptionsChain(symbol: string, expiration?: Date): Promise<OptionsChain[]> {
+    const chain = this.loadChain(symbol);
+    if (!expiration) {
+      return chain;
+    }
+
+    const targetDay = expiration.toISOString().split('T')[0];
+    return chain.filter(option => option.expiration.toISOString().split('T')[0] === targetDay);
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private findBarFile(symbol: string, timeframe: BarTimeframe): string | null {
+    for (const extension of ['json', 'csv']) {
+      const filePath = path.join(this.rootDir, `${symbol}_${timeframe}.${extension}`);
+      if (fs.existsSync(filePath)) {
+        return filePath;
+      }
+    }
+    return null;
+  }
+
+  private loadBars(symbol: string, timeframe: BarTimeframe): MarketData[] {
+    const cacheKey = `${symbol}_${timeframe}`;
+    const cached = this.barCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = this.findBarFile(symbol, timeframe);
+    if (!filePath) {
+      throw new Error(`No ${timeframe} bar file for ${symbol} in ${this.rootDir}`);
+    }
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const rawBars = filePath.endsWith('.csv') ? this.parseCsv(content) : this.parseJsonBars(content);
+
+    const bars = rawBars
+      .map((raw, index) => this.toMarketData(symbol, raw, index))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    this.barCache.set(cacheKey, bars);
+    return bars;
+  }
+
+  private loadChain(symbol: string): OptionsChain[] {
+    const cached = this.chainCache.get(symbol);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = path.join(this.rootDir, `${symbol}_options.json`);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`No options chain file for ${symbol} in ${this.rootDir}`);
+    }
+
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const records: any[] = Array.isArray(raw) ? raw : raw.chain || [];
+    const chain: OptionsChain[] = records.map(record => ({
+      ...record,
+      strike: Number(record.strike),
+      expiration: new Date(record.expiration),
+      side: String(record.side).toUpperCase() as 'CALL' | 'PUT',
+      bid: Number(record.bid),
+      ask: Number(record.ask)
+    }));
+
+    this.chainCache.set(symbol, chain);
+    return chain;
+  }
+
+  private parseJsonBars(content: string): any[] {
+    const parsed = JSON.parse(content);
+    if (Array.isArray(parsed)) {
+      return parsed;
+    }
+    return parsed.bars || [];
+  }
+
+  private parseCsv(content: string): any[] {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+    return lines.slice(1).map(line => {
+      const values = line.split(',');
+      const row: Record<string, string> = {};
+      header.forEach((column, index) => {
+        row[column] = (values[index] || '').trim();
+      });
+      return row;
+    });
+  }
+
+  private toMarketData(symbol: string, raw: any, index: number): MarketData {
+    const timestamp = raw.t ?? raw.timestamp ?? raw.date;
+    const date = new Date(timestamp);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid bar timestamp for ${symbol} at row ${index}: ${timestamp}`);
+    }
+    const rawVwap = raw.vw ?? raw.vwap;
+
+    return {
+      id: `${symbol}_${date.toISOString()}_${index}`,
+      symbol,
+      date,
+      open: Number(raw.o ?? raw.open),
+      high: Number(raw.h ?? raw.high),
+      low: Number(raw.l ?? raw.low),
+      close: Number(raw.c ?? raw.close),
+      volume: BigInt(Math.floor(Number(raw.v ?? raw.volume ?? 0))),
+      vwap: rawVwap === undefined || rawVwap === '' ? undefined : Number(rawVwap),
+      createdAt: new Date()
+    };
+  }
+}
+
+export default LocalFileMarketDataProvider;
@@ -0,0 +1,357 @@
+/**
+ * MARKET CALENDAR
+ * NYSE sessions, holidays, 1:00 PM early closes and 0-DTE expirations in America/New_York time
+ *
+ * All session logic runs on New York wall-clock time regardless of the
+ * server's timezone, so DST transitions and UTC hosts need no special casing.
+ */
+
+export interface TradingSession {
+  day: string; // YYYY-MM-DD in New York
+  open: Date;
+  close: Date;
+  earlyClose: boolean;
+}
+
+export interface EasternTime {
+  day: string; // YYYY-MM-DD in New York
+  minutes: number; // Minutes since New York midnight
+  weekday: number; // 0 = Sunday
+}
+
+const EASTERN_FORMAT = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23'
+});
+
+export class MarketCalendar {
+  static readonly SESSION_OPEN_MINUTES = 9 * 60 + 30;
+  static readonly REGULAR_CLOSE_MINUTES = 16 * 60;
+  static readonly EARLY_CLOSE_MINUTES = 13 * 60;
+
+  // Unscheduled closures (national days of mourning, weather)
+  private static readonly SPECIAL_CLOSURES = new Set([
+    '2001-09-11', // September 11 attacks
+    '2001-09-12',
+    '2001-09-13',
+    '2001-09-14',
+    '2004-06-11', // President Ronald Reagan
+    '2007-01-02', // President Gerald Ford
+    '2012-10-29', // Hurricane Sandy
+    '2012-10-30',
+    '2018-12-05', // President George H.W. Bush
+    '2025-01-09'  // President Jimmy Carter
+  ]);
+
+  // Weekdays with listed expirations (1 = Monday ... 5 = Friday), from the first session each
+  // listing applied to; before the first entry only the standard Friday weeklies exist
+  private static readonly EXPIRATION_SCHEDULES: Record<string, Array<{ from: string; weekdays: number[] }>> = {
+    SPX: [
+      { from: '2016-02-23', weekdays: [3, 5] },
+      { from: '2016-08-22', weekdays: [1, 3, 5] },
+      { from: '2022-04-18', weekdays: [1, 2, 3, 5] },
+      { from: '2022-05-11', weekdays: [1, 2, 3, 4, 5] }
+    ],
+    XSP: [
+      { from: '2016-08-22', weekdays: [1, 3, 5] },
+      { from: '2022-05-11', weekdays: [1, 2, 3, 4, 5] }
+    ],
+    SPY: [
+      { from: '2016-02-29', weekdays: [3, 5] },
+      { from: '2018-08-20', weekdays: [1, 3, 5] },
+      { from: '2022-11-14', weekdays: [1, 2, 3, 4, 5] }
+    ],
+    QQQ: [
+      { from: '2018-08-20', weekdays: [1, 3, 5] },
+      { from: '2022-11-14', weekdays: [1, 2, 3, 4, 5] }
+    ],
+    IWM: [
+      { from: '2022-11-14', weekdays: [1, 3, 5] },
+      { from: '2023-06-05', weekdays: [1, 2, 3, 4, 5] }
+    ]
+  };
+  private static readonly DEFAULT_EXPIRATION_WEEKDAYS = [5]; // Standard weeklies
+
+  private static holidayCache: Map<number, Set<string>> = new Map();
+
+  /**
+   * New York wall-clock view of an instant
+   */
+  static toEastern(date: Date): EasternTime {
+    const parts: Record<string, string> = {};
+    for (const part of EASTERN_FORMAT.formatToParts(date)) {
+      parts[part.type] = part.value;
+    }
+    const day = `${parts.year}-${parts.month}-${parts.day}`;
+    return {
+      day,
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+      weekday: this.weekdayOf(day)
+    };
+  }
+
+  /**
+   * Instant for a New York date and wall-clock minute (DST-aware)
+   */
+  static fromEastern(day: string, minutes: number): Date {
+    const [year, month, dayOfMonth] = day.split('-').map(Number);
+    const wallClockAsUtc = Date.UTC(year, month - 1, dayOfMonth, 0, minutes);
+
+    // Start from EST, then correct by however far the guess lands from the target
+    let guess = wallClockAsUtc + 5 * 60 * 60 * 1000;
+    for (let i = 0; i < 2; i++) {
+      const eastern = this.toEastern(new Date(guess));
+      const [gy, gm, gd] = eastern.day.split('-').map(Number);
+      const guessWallClock = Date.UTC(gy, gm - 1, gd, 0, eastern.minutes);
+      guess += wallClockAsUtc - guessWallClock;
+    }
+    return new Date(guess);
+  }
+
+  static isHoliday(dateOrDay: Date | string): boolean {
+    const day = this.dayKey(dateOrDay);
+    const year = Number(day.slice(0, 4));
+    return this.getHolidays(year).has(day) || this.SPECIAL_CLOSURES.has(day);
+  }
+
+  /**
+   * 1:00 PM closes: July 3, the day after Thanksgiving and Christmas Eve
+   * (July 3 and Dec 24 only when they fall Monday-Thursday)
+   */
+  static isEarlyClose(dateOrDay: Date | string): boolean {
+    const day = this.dayKey(dateOrDay);
+    const [year, month, dayOfMonth] = day.split('-').map(Number);
+    const weekday = this.weekdayOf(day);
+
+    if ((month === 7 && dayOfMonth === 3) || (month === 12 && dayOfMonth === 24)) {
+      return weekday >= 1 && weekday <= 4;
+    }
+    if (month === 11 && weekday === 5) {
+      return dayOfMonth === this.nthWeekday(year, 11, 4, 4) + 1;
+    }
+    return false;
+  }
+
+  static isTradingDay(dateOrDay: Date | string): boolean {
+    const day = this.dayKey(dateOrDay);
+    const weekday = this.weekdayOf(day);
+    return weekday >= 1 && weekday <= 5 && !this.isHoliday(day);
+  }
+
+  /**
+   * Regular session for a date, or null when the market is closed all day
+   */
+  static getSession(dateOrDay: Date | string): TradingSession | null {
+    const day = this.dayKey(dateOrDay);
+    if (!this.isTradingDay(day)) {
+      return null;
+    }
+
+    const earlyClose = this.isEarlyClose(day);
+    return {
+      day,
+      open: this.fromEastern(day, this.SESSION_OPEN_MINUTES),
+      close: this.fromEastern(day, earlyClose ? this.EARLY_CLOSE_MINUTES : this.REGULAR_CLOSE_MINUTES),
+      earlyClose
+    };
+  }
+
+  /**
+   * True during the regular session (9:30 AM to the day's close, New York time)
+   */
+  static isMarketOpen(date: Date = new Date()): boolean {
+    const session = this.getSession(date);
+    return session !== null && date >= session.open && date < session.close;
+  }
+
+  /**
+   * Trading sessions between two instants (inclusive of both New York dates)
+   */
+  static getTradingSessions(startDate: Date, endDate: Date): TradingSession[] {
+    const sessions: TradingSession[] = [];
+    const lastDay = this.toEastern(endDate).day;
+    let day = this.toEastern(startDate).day;
+
+    while (day <= lastDay) {
+      const session = this.getSession(day);
+      if (session) {
+        sessions.push(session);
+      }
+      day = this.addDays(day, 1);
+    }
+    return sessions;
+  }
+
+  /**
+   * Session open times of every trading day between two instants
+   */
+  static getTradingDays(startDate: Date, endDate: Date): Date[] {
+    return this.getTradingSessions(startDate, endDate).map(session => session.open);
+  }
+
+  static nextTradingDay(dateOrDay: Date | string): TradingSession {
+    let day = this.addDays(this.dayKey(dateOrDay), 1);
+    while (!this.isTradingDay(day)) {
+      day = this.addDays(day, 1);
+    }
+    return this.getSession(day)!;
+  }
+
+  static previousTradingDay(dateOrDay: Date | string): TradingSession {
+    let day = this.addDays(this.dayKey(dateOrDay), -1);
+    while (!this.isTradingDay(day)) {
+      day = this.addDays(day, -1);
+    }
+    return this.getSession(day)!;
+  }
+
+  /**
+   * Whether options on this underlying expire on this trading day.
+   * When a listed expiration weekday is a holiday, the expiration moves to
+   * the prior trading day (e.g. Good Friday weeklies expire Thursday).
+   */
+  static hasZeroDteExpiration(symbol: string, dateOrDay: Date | string): boolean {
+    const day = this.dayKey(dateOrDay);
+    if (!this.isTradingDay(day)) {
+      return false;
+    }
+
+    if (this.expirationWeekdays(symbol, day).includes(this.weekdayOf(day))) {
+      return true;
+    }
+
+    // Inherit the expiration of any closed listed weekday before the next session
+    for (let next = this.addDays(day, 1); !this.isTradingDay(next); next = this.addDays(next, 1)) {
+      const weekday = this.weekdayOf(next);
+      if (weekday >= 1 && weekday <= 5 && this.expirationWeekdays(symbol, next).includes(weekday)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Same-day expiration instant (the session close) or null if none is listed
+   */
+  static getZeroDteExpiration(symbol: string, date: Date = new Date()): Date | null {
+    return this.hasZeroDteExpiration(symbol, date) ? this.getSession(date)!.close : null;
+  }
+
+  /**
+   * Override the listed expiration weekdays for an underlying, for every date
+   */
+  static setExpirationWeekdays(symbol: string, weekdays: number[]): void {
+    this.EXPIRATION_SCHEDULES[symbol] = [{ from: '0000-01-01', weekdays: [...weekdays] }];
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private static expirationWeekdays(symbol: string, day: string): number[] {
+    const listed = (this.EXPIRATION_SCHEDULES[symbol] || []).filter(schedule => schedule.from <= day);
+    return listed.length > 0 ? listed[listed.length - 1].weekdays : this.DEFAULT_EXPIRATION_WEEKDAYS;
+  }
+
+  private static getHolidays(year: number): Set<string> {
+    const cached = this.holidayCache.get(year);
+    if (cached) {
+      return cached;
+    }
+
+    const holidays = new Set<string>();
+    const fixed = (month: number, dayOfMonth: number) => this.formatDay(year, month, dayOfMonth);
+
+    // New Year's Day: a Saturday holiday is not observed on the prior Friday
+    const newYear = fixed(1, 1);
+    if (this.weekdayOf(newYear) === 0) {
+      holidays.add(fixed(1, 2));
+    } else if (this.weekdayOf(newYear) !== 6) {
+      holidays.add(newYear);
+    }
+
+    holidays.add(this.formatDay(year, 1, this.nthWeekday(year, 1, 1, 3))); // Martin Luther King Jr. Day
+    holidays.add(this.formatDay(year, 2, this.nthWeekday(year, 2, 1, 3))); // Washington's Birthday
+    holidays.add(this.addDays(this.easterSunday(year), -2)); // Good Friday
+    holidays.add(this.formatDay(year, 5, this.lastWeekday(year, 5, 1))); // Memorial Day
+    if (year >= 2022) {
+      holidays.add(this.observed(fixed(6, 19))); // Juneteenth
+    }
+    holidays.add(this.observed(fixed(7, 4))); // Independence Day
+    holidays.add(this.formatDay(year, 9, this.nthWeekday(year, 9, 1, 1))); // Labor Day
+    holidays.add(this.formatDay(year, 11, this.nthWeekday(year, 11, 4, 4))); // Thanksgiving
+    holidays.add(this.observed(fixed(12, 25))); // Christmas
+
+    this.holidayCache.set(year, holidays);
+    return holidays;
+  }
+
+  /**
+   * Saturday holidays are observed Friday, Sunday holidays Monday
+   */
+  private static observed(day: string): string {
+    const weekday = this.weekdayOf(day);
+    if (weekday === 6) return this.addDays(day, -1);
+    if (weekday === 0) return this.addDays(day, 1);
+    return day;
+  }
+
+  /**
+   * Day of month of the nth given weekday (1-based n)
+   */
+  private static nthWeekday(year: number, month: number, weekday: number, n: number): number {
+    const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  }
+
+  private static lastWeekday(year: number, month: number, weekday: number): number {
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const lastDayWeekday = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+    return lastDay - ((lastDayWeekday - weekday + 7) % 7);
+  }
+
+  /**
+   * Gregorian Easter (anonymous Gregorian algorithm)
+   */
+  private static easterSunday(year: number): string {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const dayOfMonth = ((h + l - 7 * m + 114) % 31) + 1;
+    return this.formatDay(year, month, dayOfMonth);
+  }
+
+  private static dayKey(dateOrDay: Date | string): string {
+    return typeof dateOrDay === 'string' ? dateOrDay : this.toEastern(dateOrDay).day;
+  }
+
+  private static weekdayOf(day: string): number {
+    const [year, month, dayOfMonth] = day.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, dayOfMonth)).getUTCDay();
+  }
+
+  private static addDays(day: string, days: number): string {
+    const [year, month, dayOfMonth] = day.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, dayOfMonth + days)).toISOString().split('T')[0];
+  }
+
+  private static formatDay(year: number, month: number, dayOfMonth: number): string {
+    return `${year}-${String(month).padStart(2, '0')}-${String(dayOfMonth).padStart(2, '0')}`;
+  }
+}
+
+export default MarketCalendar;
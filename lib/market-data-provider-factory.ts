@@ -0,0 +1,54 @@
+/**
+ * MARKET DATA PROVIDER FACTORY
+ * Builds the provider an engine uses from MARKET_DATA_* settings
+ *
+ * Kept apart from the MarketDataProvider contract: the providers import the
+ * contract, and the factory imports the providers.
+ */
+
+import { MarketDataProvider, MarketDataSource, AlpacaMarketDataProvider } from './market-data-provider';
+import { LocalFileMarketDataProvider } from './local-file-market-data-provider';
+import { SyntheticMarketDataProvider } from './synthetic-market-data-provider';
+import { SyntheticMarketSimulator } from './synthetic-market-simulator';
+import { CachedMarketDataProvider } from './cached-market-data-provider';
+import { ResamplingMarketDataProvider } from './resampling-market-data-provider';
+
+/**
+ * Build a provider from a source name (defaults to MARKET_DATA_SOURCE, then Alpaca)
+ *
+ * Setting MARKET_DATA_CACHE_DIR wraps the source in the on-disk cache;
+ * MARKET_DATA_OFFLINE=true additionally forbids any upstream request.
+ * MARKET_DATA_RESAMPLE=true derives every timeframe from (cached) 1Min bars.
+ */
+export function createMarketDataProvider(
+  source: MarketDataSource = (process.env.MARKET_DATA_SOURCE as MarketDataSource) || 'alpaca'
+): MarketDataProvider {
+  let provider = createSourceProvider(source);
+  const offline = process.env.MARKET_DATA_OFFLINE === 'true';
+
+  if (offline || process.env.MARKET_DATA_CACHE_DIR) {
+    provider = new CachedMarketDataProvider(provider, {
+      rootDir: process.env.MARKET_DATA_CACHE_DIR,
+      offline
+    });
+  }
+  if (process.env.MARKET_DATA_RESAMPLE === 'true') {
+    provider = new ResamplingMarketDataProvider(provider);
+  }
+  return provider;
+}
+
+function createSourceProvider(source: MarketDataSource): MarketDataProvider {
+  switch (source) {
+    case 'alpaca':
+      return new AlpacaMarketDataProvider('sdk');
+    case 'alpaca-http':
+      return new AlpacaMarketDataProvider('http');
+    case 'local':
+      return new LocalFileMarketDataProvider(process.env.MARKET_DATA_DIR || './market-data');
+    case 'synthetic':
+      return new SyntheticMarketDataProvider(SyntheticMarketSimulator.fromEnv());
+    default:
+      throw new Error(`Unknown market data source: ${source}`);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * MARKET DATA PROVIDER CONTRACT
+ * Pluggable source of bars, latest prices and options chains for every engine
+ *
+ * Engines receive a MarketDataProvider instead of importing the alpacaClient
+ * singleton, so the same backtest can run against Alpaca, recorded files or
+ * the synthetic simulator without touching engine code. The env-driven
+ * factory lives in market-data-provider-factory.ts, next to the providers it builds.
+ */
+
+import { MarketData, OptionsChain } from './types';
+
+export type BarTimeframe = '1Min' | '5Min' | '15Min' | '1Hour' | '1Day';
+
+export type MarketDataSource = 'alpaca' | 'alpaca-http' | 'local' | 'synthetic';
+
+/**
+ * Account-free market data access. Order routing and account state stay with
+ * the broker clients; providers only answer "what did the market look like".
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+
+  testConnection(): Promise<boolean>;
+
+  getMarketData(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    timeframe?: BarTimeframe
+  ): Promise<MarketData[]>;
+
+  getCurrentPrice(symbol: string): Promise<number>;
+
+  getOptionsChain(symbol: string, expiration?: Date): Promise<OptionsChain[]>;
+}
+
+/**
+ * Subset of the Alpaca REST clients that the Alpaca provider relies on.
+ * Both AlpacaClient (lib/alpaca.ts) and AlpacaHTTPClient satisfy it.
+ */
+interface AlpacaDataClient {
+  testConnection(): Promise<boolean>;
+  getMarketData(symbol: string, startDate: Date, endDate: Date, timeframe?: BarTimeframe): Promise<MarketData[]>;
+  getOptionsChain(symbol: string, expiration?: Date): Promise<OptionsChain[]>;
+  getCurrentPrice?(symbol: string): Promise<number>;
+}
+
+/**
+ * Alpaca-backed provider
+ *
+ * The Alpaca client modules throw at import time when credentials are missing,
+ * so the client is loaded lazily on first use rather than at module load.
+ */
+export class AlpacaMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  private client: AlpacaDataClient | null;
+  private readonly variant: 'sdk' | 'http';
+
+  constructor(variant: 'sdk' | 'http' = 'sdk', client?: AlpacaDataClient) {
+    this.variant = variant;
+    this.client = client || null;
+    this.name = variant === 'http' ? 'alpaca-http' : 'alpaca';
+  }
+
+  async testConnection(): Promise<boolean> {
+    const client = await this.getClient();
+    return client.testConnection();
+  }
+
+  async getMarketData(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    timeframe: BarTimeframe = '1Day'
+  ): Promise<MarketData[]> {
+    const client = await this.getClient();
+    return client.getMarketData(symbol, startDate, endDate, timeframe);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    const client = await this.getClient();
+    if (client.getCurrentPrice) {
+      return client.getCurrentPrice(symbol);
+    }
+
+    // HTTP client has no latest-price endpoint wrapper: use the last minute bar
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - 24 * 60 * 60 * 1000);
+    const bars = await client.getMarketData(symbol, startDate, endDate, '1Min');
+    if (bars.length === 0) {
+      throw new Error(`No recent bars available for ${symbol}`);
+    }
+    return bars[bars.length - 1].close;
+  }
+
+  async getOptionsChain(symbol: string, expiration?: Date): Promise<OptionsChain[]> {
+    const client = await this.getClient();
+    return client.getOptionsChain(symbol, expiration);
+  }
+
+  private async getClient(): Promise<AlpacaDataClient> {
+    if (!this.client) {
+      if (this.variant === 'http') {
+        const { alpacaHTTPClient } = await import('./alpaca-http-client');
+        this.client = alpacaHTTPClient;
+      } else {
+        const { alpacaClient } = await import('./alpaca');
+        this.client = alpacaClient;
+      }
+    }
+    return this.client;
+  }
+}
@@ -1,5 +1,10 @@
-import { MarketData, BacktestTrade, PerformanceMetrics } from './types';
+import { MarketData, BacktestTrade, PerformanceMetrics, Strategy } from './types';
 import { BacktestEngine } from './backtest-engine';
+import { BacktestCore } from './backtest-core';
+import { BarTimeframe } from './market-data-provider';
+import { SharedBarArray } from './shared-bar-array';
+import { SharedBarsMarketDataProvider } from './shared-bars-market-data-provider';
+import { BacktestJobScheduler, BacktestJob, JobProgress } from './backtest-job-scheduler';
 
 export interface MonteCarloParams {
   simulations: number; // Number of random scenarios (e.g., 1000)
@@ -7,6 +12,14 @@ export interface MonteCarloParams {
   driftRange: [number, number]; // Min/max return drift [-0.3, 0.3]
   shockProbability: number; // Probability of black swan events (0.05 = 5%)
   shockMagnitude: [number, number]; // Shock size range [-0.2, 0.2] (20% moves)
+  seed?: number; // Each scenario draws from its own stream off this seed, so runs replay on any thread
+  timeframe?: BarTimeframe; // Of the base bars (default 1Day)
+}
+
+export interface MonteCarloRunOptions {
+  scheduler?: BacktestJobScheduler; // Scenarios run on its workers instead of one after another
+  onProgress?: (progress: JobProgress) => void;
+  signal?: AbortSignal;
 }
 
 export interface MonteCarloResult {
@@ -44,25 +57,44 @@ export interface MonteCarloScenario {
 export class MonteCarloEngine {
   
   /**
-   * Run Monte Carlo simulation to stress test strategy across thousands of scenarios
+   * Run Monte Carlo simulation to stress test strategy across thousands of scenarios.
+   * With a scheduler the base bars are shared with its workers and scenarios run in parallel
    */
   static async runSimulation(
     baseMarketData: MarketData[],
-    strategy: any,
-    params: MonteCarloParams
+    strategy: Strategy,
+    params: MonteCarloParams,
+    options: MonteCarloRunOptions = {}
   ): Promise<MonteCarloResult> {
     
-    console.log(`🎰 MONTE CARLO: Starting ${params.simulations} simulations...`);
-    const scenarios: MonteCarloScenario[] = [];
-    
-    for (let i = 0; i < params.simulations; i++) {
-      if (i % 100 === 0) {
-        console.log(`🎰 Progress: ${i}/${params.simulations} scenarios (${(i/params.simulations*100).toFixed(1)}%)`);
+    console.log(`🎰 MONTE CARLO: Starting ${params.simulations} simulations${options.scheduler ? ` on ${options.scheduler.config.workers} workers` : ''}...`);
+    const started = Date.now();
+    const logProgress = (progress: JobProgress) => {
+      const done = progress.completed + progress.failed + progress.cancelled;
+      if (done % 100 === 0 || done === progress.total) {
+        console.log(`🎰 Progress: ${done}/${progress.total} scenarios (${(done / progress.total * 100).toFixed(1)}%)`);
+      }
+      options.onProgress?.(progress);
+    };
+    let scenarios: MonteCarloScenario[];
+
+    if (options.scheduler) {
+      const dataset = `monte-carlo-${started}-${Math.random().toString(36).slice(2)}`;
+      options.scheduler.shareBars(dataset, baseMarketData, params.timeframe || '1Day');
+      const jobs: BacktestJob[] = Array.from({ length: params.simulations }, (_, scenarioId) => ({
+        type: 'MONTE_CARLO_SCENARIO', dataset, strategy, params, scenarioId
+      }));
+      scenarios = await options.scheduler.runAll<MonteCarloScenario>(jobs, { onProgress: logProgress, signal: options.signal });
+    } else {
+      scenarios = [];
+      for (let i = 0; i < params.simulations; i++) {
+        if (options.signal?.aborted) {
+          throw new Error(`Monte Carlo simulation cancelled after ${i} scenarios`);
+        }
+        // Generate randomized market scenario
+        scenarios.push(await this.runScenario(baseMarketData, strategy, params, i));
+        logProgress({ total: params.simulations, completed: i + 1, failed: 0, cancelled: 0, running: 0, elapsedMs: Date.now() - started });
       }
-      
-      // Generate randomized market scenario
-      const scenario = await this.generateRandomScenario(baseMarketData, params, i, strategy);
-      scenarios.push(scenario);
     }
     
     // Calculate summary statistics
@@ -78,24 +110,25 @@ export class MonteCarloEngine {
   }
   
   /**
-   * Generate a single randomized market scenario
+   * Generate and backtest a single randomized market scenario
    */
-  private static async generateRandomScenario(
+  static async runScenario(
     baseData: MarketData[],
+    strategy: Strategy,
     params: MonteCarloParams,
-    scenarioId: number,
-    strategy: any
+    scenarioId: number
   ): Promise<MonteCarloScenario> {
     
     // Random parameters for this scenario
-    const volatilityMultiplier = this.randomBetween(params.volatilityRange[0], params.volatilityRange[1]);
-    const driftAdjustment = this.randomBetween(params.driftRange[0], params.driftRange[1]);
+    const random = this.scenarioRandom(params, scenarioId);
+    const volatilityMultiplier = this.randomBetween(random, params.volatilityRange[0], params.volatilityRange[1]);
+    const driftAdjustment = this.randomBetween(random, params.driftRange[0], params.driftRange[1]);
     
     // Generate shock events
     const shockEvents: Array<{ date: Date; magnitude: number }> = [];
     for (let i = 0; i < baseData.length; i++) {
-      if (Math.random() < params.shockProbability / 252) { // Daily shock probability
-        const magnitude = this.randomBetween(params.shockMagnitude[0], params.shockMagnitude[1]);
+      if (random() < params.shockProbability / 252) { // Daily shock probability
+        const magnitude = this.randomBetween(random, params.shockMagnitude[0], params.shockMagnitude[1]);
         shockEvents.push({
           date: baseData[i].date,
           magnitude
@@ -111,13 +144,17 @@ export class MonteCarloEngine {
       shockEvents
     );
     
-    // Run backtest on this scenario
+    // Run backtest on this scenario's own bars
+    const symbol = modifiedData[0].symbol;
+    const provider = new SharedBarsMarketDataProvider([SharedBarArray.from(symbol, modifiedData, params.timeframe || '1Day')]);
     try {
       const backtestResult = await BacktestEngine.runBacktest(strategy, {
+        strategyId: strategy.id,
         startDate: modifiedData[0].date,
         endDate: modifiedData[modifiedData.length - 1].date,
-        initialCapital: 10000
-      });
+        initialCapital: 10000,
+        symbols: [symbol]
+      }, provider);
       
       return {
         id: scenarioId,
@@ -138,14 +175,10 @@ export class MonteCarloEngine {
         marketData: modifiedData,
         trades: [],
         performance: {
-          totalReturn: -100,
+          ...BacktestCore.calculatePerformance([], 10000, 1),
+          totalReturn: -10000,
           totalReturnPercent: -100,
-          winRate: 0,
-          avgWin: 0,
-          avgLoss: 0,
-          maxDrawdown: 100,
-          sharpeRatio: -999,
-          profitFactor: 0
+          sharpeRatio: -999
         },
         parameters: {
           volatilityMultiplier,
@@ -231,7 +264,23 @@ export class MonteCarloEngine {
   /**
    * Generate random number between min and max
    */
-  private static randomBetween(min: number, max: number): number {
-    return min + Math.random() * (max - min);
+  private static randomBetween(random: () => number, min: number, max: number): number {
+    return min + random() * (max - min);
+  }
+
+  /**
+   * Seeded stream (mulberry32) per scenario when the params carry a seed, Math.random otherwise
+   */
+  private static scenarioRandom(params: MonteCarloParams, scenarioId: number): () => number {
+    if (params.seed === undefined) {
+      return Math.random;
+    }
+    let state = Math.imul(params.seed ^ 0x9E3779B9, 31) + scenarioId * 0x6D2B79F5;
+    return () => {
+      state = (state + 0x6D2B79F5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+/**
+ * OPTION CONTRACT ID
+ * OCC/OSI option symbol codec: ROOT + YYMMDD + C/P + strike × 1000 (8 digits)
+ *
+ * Alpaca and most feeds send the compact form (SPY240315C00510000); the OSI
+ * form pads the root to six characters (SPY   240315C00510000). Both parse.
+ * The root is everything before the fixed 15-character tail, so roots of any
+ * length (A, SPY, SPXW, BRKB1) and fractional strikes round-trip exactly.
+ */
+
+import { MarketCalendar } from './market-calendar';
+
+export type OptionSide = 'CALL' | 'PUT';
+
+export interface OptionContract {
+  root: string; // OCC root (SPXW for SPX dailies, not the underlying)
+  expiration: string; // YYYY-MM-DD expiration day in New York
+  side: OptionSide;
+  strike: number;
+}
+
+export class InvalidOptionSymbolError extends Error {
+  constructor(public readonly symbol: string, reason: string) {
+    super(`Invalid option symbol "${symbol}": ${reason}`);
+    this.name = 'InvalidOptionSymbolError';
+  }
+}
+
+export class OptionContractId {
+  static readonly MAX_ROOT_LENGTH = 6;
+  static readonly MAX_STRIKE = 99999.999; // 8 digits of thousandths
+
+  private static readonly ROOT_PATTERN = /^[A-Z][A-Z0-9]{0,5}$/;
+  private static readonly TAIL_PATTERN = /^(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+  private static readonly TAIL_LENGTH = 15;
+
+  /**
+   * Parse a compact or OSI-padded symbol; throws InvalidOptionSymbolError
+   */
+  static parse(symbol: string): OptionContract {
+    const trimmed = symbol.trim().toUpperCase();
+    if (trimmed.length <= this.TAIL_LENGTH) {
+      throw new InvalidOptionSymbolError(symbol, 'too short');
+    }
+
+    const paddedRoot = trimmed.slice(0, -this.TAIL_LENGTH);
+    const root = paddedRoot.trimEnd();
+    const tail = trimmed.slice(-this.TAIL_LENGTH);
+    if (root !== paddedRoot && paddedRoot.length !== this.MAX_ROOT_LENGTH) {
+      throw new InvalidOptionSymbolError(symbol, `padded roots must be exactly ${this.MAX_ROOT_LENGTH} characters`);
+    }
+    if (!this.ROOT_PATTERN.test(root)) {
+      throw new InvalidOptionSymbolError(symbol, `root "${root}" must be 1-${this.MAX_ROOT_LENGTH} letters/digits starting with a letter`);
+    }
+
+    const match = tail.match(this.TAIL_PATTERN);
+    if (!match) {
+      throw new InvalidOptionSymbolError(symbol, 'expected YYMMDD, C/P and an 8-digit strike after the root');
+    }
+
+    const [, yy, mm, dd, callPut, strikeDigits] = match;
+    const expiration = `20${yy}-${mm}-${dd}`;
+    if (!this.isCalendarDay(expiration)) {
+      throw new InvalidOptionSymbolError(symbol, `${expiration} is not a calendar date`);
+    }
+
+    const strike = parseInt(strikeDigits, 10) / 1000;
+    if (strike <= 0) {
+      throw new InvalidOptionSymbolError(symbol, 'strike must be positive');
+    }
+
+    return { root, expiration, side: callPut === 'C' ? 'CALL' : 'PUT', strike };
+  }
+
+  static tryParse(symbol: string): OptionContract | null {
+    try {
+      return this.parse(symbol);
+    } catch (error) {
+      if (error instanceof InvalidOptionSymbolError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  static isValid(symbol: string): boolean {
+    return this.tryParse(symbol) !== null;
+  }
+
+  /**
+   * Compact symbol as Alpaca expects it (SPXW240315P05012500)
+   */
+  static format(contract: OptionContract): string {
+    const root = contract.root.toUpperCase();
+    if (!this.ROOT_PATTERN.test(root)) {
+      throw new InvalidOptionSymbolError(root, `root must be 1-${this.MAX_ROOT_LENGTH} letters/digits starting with a letter`);
+    }
+    return `${root}${this.formatExpiration(contract.expiration)}${contract.side === 'CALL' ? 'C' : 'P'}${this.formatStrike(contract.strike)}`;
+  }
+
+  /**
+   * 21-character OSI symbol with the root space-padded to six characters
+   */
+  static formatOsi(contract: OptionContract): string {
+    const compact = this.format(contract);
+    const root = compact.slice(0, -this.TAIL_LENGTH);
+    return `${root.padEnd(this.MAX_ROOT_LENGTH, ' ')}${compact.slice(-this.TAIL_LENGTH)}`;
+  }
+
+  /**
+   * Convenience for building a contract from chain fields
+   */
+  static build(root: string, expiration: Date | string, side: OptionSide, strike: number): string {
+    return this.format({ root, expiration: this.toExpirationDay(expiration), side, strike });
+  }
+
+  /**
+   * YYMMDD; a Date is read as its New York calendar day
+   */
+  static formatExpiration(expiration: Date | string): string {
+    const day = this.toExpirationDay(expiration);
+    return `${day.slice(2, 4)}${day.slice(5, 7)}${day.slice(8, 10)}`;
+  }
+
+  /**
+   * Strike in thousandths, zero-padded to 8 digits (512.5 → 00512500)
+   */
+  static formatStrike(strike: number): string {
+    const thousandths = Math.round(strike * 1000);
+    if (!Number.isFinite(strike) || thousandths <= 0 || strike > this.MAX_STRIKE) {
+      throw new InvalidOptionSymbolError(String(strike), `strike must be between 0.001 and ${this.MAX_STRIKE}`);
+    }
+    if (Math.abs(thousandths - strike * 1000) > 1e-6) {
+      throw new InvalidOptionSymbolError(String(strike), 'strike has more than three decimals');
+    }
+    return String(thousandths).padStart(8, '0');
+  }
+
+  /**
+   * Last trading instant: the expiration day's session close (1:00 PM on half-days)
+   */
+  static expirationTime(contract: OptionContract): Date {
+    return MarketCalendar.getSession(contract.expiration)?.close
+      || MarketCalendar.fromEastern(contract.expiration, MarketCalendar.REGULAR_CLOSE_MINUTES);
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private static toExpirationDay(expiration: Date | string): string {
+    const day = typeof expiration === 'string' ? expiration : MarketCalendar.toEastern(expiration).day;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || !this.isCalendarDay(day)) {
+      throw new InvalidOptionSymbolError(day, 'expiration must be a YYYY-MM-DD date');
+    }
+    if (day < '2000-01-01' || day > '2099-12-31') {
+      throw new InvalidOptionSymbolError(day, 'OCC symbols only encode 2000-2099 expirations');
+    }
+    return day;
+  }
+
+  private static isCalendarDay(day: string): boolean {
+    const [year, month, dayOfMonth] = day.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, dayOfMonth));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === dayOfMonth;
+  }
+}
+
+export default OptionContractId;
@@ -0,0 +1,248 @@
+/**
+ * OPTION PRICING MODELS
+ * Black-Scholes-Merton with dividends, a risk-free rate curve, and American pricers
+ *
+ * SPY, QQQ and IWM options are American and the ETFs pay dividends, so a call
+ * can be worth exercising the day before an ex-date and a deep ITM put can be
+ * worth exercising for the interest on the strike. European index options (SPX,
+ * XSP) price with Black-Scholes-Merton; American ones with a Cox-Ross-Rubinstein
+ * tree or the Bjerksund-Stensland (1993) closed-form approximation. Cash dividends
+ * use the escrowed-dividend model: the tree and the closed forms price off spot
+ * less the present value of dividends paid before expiration.
+ */
+
+export type PricingModel = 'BLACK_SCHOLES_MERTON' | 'BINOMIAL' | 'BJERKSUND_STENSLAND';
+
+export interface CashDividend {
+  exDate: Date; // First session the underlying trades without the dividend
+  amount: number; // Per share
+}
+
+export interface RatePoint {
+  years: number;
+  rate: number; // Continuously compounded zero rate
+}
+
+/**
+ * Everything a model needs for one option; dividend times are on the same clock as `timeToExpiration`
+ */
+export interface PricingInputs {
+  type: 'call' | 'put';
+  spot: number;
+  strike: number;
+  timeToExpiration: number; // Years
+  volatility: number;
+  rate: number; // Zero rate to expiration
+  dividendYield: number; // Continuous
+  dividends: Array<{ time: number; amount: number }>; // Cash dividends before expiration
+}
+
+/**
+ * Zero-rate term structure, linear in rate between pillars and flat beyond them
+ */
+export class RateCurve {
+  readonly points: RatePoint[];
+
+  constructor(points: RatePoint[]) {
+    if (points.length === 0) {
+      throw new Error('Rate curve needs at least one point');
+    }
+    this.points = [...points].sort((a, b) => a.years - b.years);
+  }
+
+  static flat(rate: number): RateCurve {
+    return new RateCurve([{ years: 0, rate }]);
+  }
+
+  rate(years: number): number {
+    const points = this.points;
+    if (years <= points[0].years) {
+      return points[0].rate;
+    }
+    for (let i = 1; i < points.length; i++) {
+      if (years <= points[i].years) {
+        const fraction = (years - points[i - 1].years) / (points[i].years - points[i - 1].years);
+        return points[i - 1].rate + fraction * (points[i].rate - points[i - 1].rate);
+      }
+    }
+    return points[points.length - 1].rate;
+  }
+
+  discountFactor(years: number): number {
+    return Math.exp(-this.rate(years) * years);
+  }
+}
+
+export class OptionPricingModels {
+
+  static readonly BINOMIAL_STEPS = 200;
+
+  static price(model: PricingModel, inputs: PricingInputs): number {
+    switch (model) {
+      case 'BINOMIAL':
+        return this.binomial(inputs);
+      case 'BJERKSUND_STENSLAND':
+        return this.bjerksundStensland(inputs);
+      default:
+        return this.blackScholesMerton(inputs);
+    }
+  }
+
+  static isAmerican(model: PricingModel): boolean {
+    return model !== 'BLACK_SCHOLES_MERTON';
+  }
+
+  /**
+   * Spot less the present value of the cash dividends paid before expiration
+   */
+  static escrowedSpot(inputs: PricingInputs): number {
+    return inputs.spot - this.dividendsValue(inputs, 0);
+  }
+
+  /**
+   * European value: generalized Black-Scholes with carry r - q on the escrowed spot
+   */
+  static blackScholesMerton(inputs: PricingInputs): number {
+    const spot = this.escrowedSpot(inputs);
+    return this.generalizedBlackScholes(inputs.type, spot, inputs.strike, inputs.timeToExpiration, inputs.rate, inputs.rate - inputs.dividendYield, inputs.volatility);
+  }
+
+  /**
+   * Cox-Ross-Rubinstein tree on the escrowed spot; the exercise value at each node
+   * adds back the dividends still to be paid, which is what makes calls exercisable
+   * on the eve of an ex-date
+   */
+  static binomial(inputs: PricingInputs, steps: number = this.BINOMIAL_STEPS): number {
+    const { type, strike, timeToExpiration: T, volatility, rate, dividendYield } = inputs;
+    const spot = this.escrowedSpot(inputs);
+    if (!(T > 0) || !(volatility > 0)) {
+      return this.intrinsic(type, inputs.spot, strike);
+    }
+
+    const dt = T / steps;
+    const up = Math.exp(volatility * Math.sqrt(dt));
+    const down = 1 / up;
+    const growth = Math.exp((rate - dividendYield) * dt);
+    const probability = Math.min(1, Math.max(0, (growth - down) / (up - down)));
+    const discount = Math.exp(-rate * dt);
+
+    const values = new Array<number>(steps + 1);
+    for (let node = 0; node <= steps; node++) {
+      values[node] = this.intrinsic(type, spot * Math.pow(up, node) * Math.pow(down, steps - node), strike);
+    }
+    for (let step = steps - 1; step >= 0; step--) {
+      const pending = this.dividendsValue(inputs, step * dt);
+      for (let node = 0; node <= step; node++) {
+        const continuation = discount * (probability * values[node + 1] + (1 - probability) * values[node]);
+        const stock = spot * Math.pow(up, node) * Math.pow(down, step - node) + pending;
+        values[node] = Math.max(continuation, this.intrinsic(type, stock, strike));
+      }
+    }
+    return values[0];
+  }
+
+  /**
+   * Bjerksund-Stensland (1993) flat-boundary approximation; puts through the
+   * put-call transformation P(S, K, r, b) = C(K, S, r - b, -b)
+   */
+  static bjerksundStensland(inputs: PricingInputs): number {
+    const { type, strike, timeToExpiration: T, volatility, rate, dividendYield } = inputs;
+    const spot = this.escrowedSpot(inputs);
+    if (!(T > 0) || !(volatility > 0)) {
+      return this.intrinsic(type, inputs.spot, strike);
+    }
+    const carry = rate - dividendYield;
+    const american = type === 'call'
+      ? this.bjerksundStenslandCall(spot, strike, T, rate, carry, volatility)
+      : this.bjerksundStenslandCall(strike, spot, T, rate - carry, -carry, volatility);
+    // Below a few vol points the boundary's powers overflow; early exercise is then
+    // worth exercising now or not at all, which the max below already covers
+    return Math.max(isFinite(american) ? american : 0, this.blackScholesMerton(inputs), this.intrinsic(type, inputs.spot, strike));
+  }
+
+  /**
+   * No-arbitrage floor: discounted forward intrinsic, and spot intrinsic when the option can be exercised now
+   */
+  static lowerBound(model: PricingModel, inputs: PricingInputs): number {
+    const forwardSpot = this.escrowedSpot(inputs) * Math.exp(-inputs.dividendYield * inputs.timeToExpiration);
+    const discountedStrike = inputs.strike * Math.exp(-inputs.rate * inputs.timeToExpiration);
+    const european = Math.max(0, inputs.type === 'call' ? forwardSpot - discountedStrike : discountedStrike - forwardSpot);
+    return this.isAmerican(model) ? Math.max(european, this.intrinsic(inputs.type, inputs.spot, inputs.strike)) : european;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private static intrinsic(type: 'call' | 'put', spot: number, strike: number): number {
+    return Math.max(0, type === 'call' ? spot - strike : strike - spot);
+  }
+
+  /**
+   * Value at `time` of the cash dividends paid after it
+   */
+  private static dividendsValue(inputs: PricingInputs, time: number): number {
+    return inputs.dividends
+      .filter(dividend => dividend.time > time && dividend.time <= inputs.timeToExpiration)
+      .reduce((sum, dividend) => sum + dividend.amount * Math.exp(-inputs.rate * (dividend.time - time)), 0);
+  }
+
+  private static generalizedBlackScholes(type: 'call' | 'put', S: number, K: number, T: number, r: number, b: number, sigma: number): number {
+    if (!(T > 0) || !(sigma > 0)) {
+      return this.intrinsic(type, S, K);
+    }
+    const d1 = (Math.log(S / K) + (b + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
+    const d2 = d1 - sigma * Math.sqrt(T);
+    const carry = Math.exp((b - r) * T);
+    const discount = Math.exp(-r * T);
+    return type === 'call'
+      ? S * carry * this.normalCDF(d1) - K * discount * this.normalCDF(d2)
+      : K * discount * this.normalCDF(-d2) - S * carry * this.normalCDF(-d1);
+  }
+
+  private static bjerksundStenslandCall(S: number, K: number, T: number, r: number, b: number, sigma: number): number {
+    if (b >= r) {
+      return this.generalizedBlackScholes('call', S, K, T, r, b, sigma); // Never optimal to exercise early
+    }
+
+    const variance = sigma * sigma;
+    const beta = (0.5 - b / variance) + Math.sqrt(Math.pow(b / variance - 0.5, 2) + 2 * r / variance);
+    const boundaryInfinity = beta / (beta - 1) * K;
+    const boundaryZero = Math.max(K, r / (r - b) * K);
+    const h = -(b * T + 2 * sigma * Math.sqrt(T)) * boundaryZero / (boundaryInfinity - boundaryZero);
+    const boundary = boundaryZero + (boundaryInfinity - boundaryZero) * (1 - Math.exp(h));
+    if (S >= boundary) {
+      return S - K;
+    }
+
+    const alpha = (boundary - K) * Math.pow(boundary, -beta);
+    const phi = (gamma: number, H: number) => {
+      const lambda = (-r + gamma * b + 0.5 * gamma * (gamma - 1) * variance) * T;
+      const d = -(Math.log(S / H) + (b + (gamma - 0.5) * variance) * T) / (sigma * Math.sqrt(T));
+      const kappa = 2 * b / variance + 2 * gamma - 1;
+      return Math.exp(lambda) * Math.pow(S, gamma)
+        * (this.normalCDF(d) - Math.pow(boundary / S, kappa) * this.normalCDF(d - 2 * Math.log(boundary / S) / (sigma * Math.sqrt(T))));
+    };
+
+    return alpha * Math.pow(S, beta) - alpha * phi(beta, boundary)
+      + phi(1, boundary) - phi(1, K)
+      - K * phi(0, boundary) + K * phi(0, K);
+  }
+
+  private static normalCDF(x: number): number {
+    const a1 = 0.254829592;
+    const a2 = -0.284496736;
+    const a3 = 1.421413741;
+    const a4 = -1.453152027;
+    const a5 = 1.061405429;
+    const p = 0.3275911;
+
+    const sign = x < 0 ? -1 : 1;
+    x = Math.abs(x) / Math.sqrt(2.0);
+
+    const t = 1.0 / (1.0 + p * x);
+    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
+
+    return 0.5 * (1.0 + sign * y);
+  }
+}
+
+export default OptionPricingModels;
@@ -0,0 +1,281 @@
+/**
+ * OPTIONS SNAPSHOT STORE
+ * Point-in-time options chains (bid/ask/IV/greeks/OI) queried "as of" each bar
+ *
+ * Snapshots are appended as JSON lines, one file per underlying and UTC day:
+ *   <root>/SPY/2024-03-05.jsonl
+ * Each line holds one full chain captured at a single timestamp. Backtests ask
+ * for the latest snapshot at or before the bar time, never one from the future.
+ * Only market quotes are recorded: chains flagged synthetic (a provider's simulator
+ * fallback) are refused, so they never count as real quotes in QuoteCoverage.
+ *
+ * record-options-snapshots.ts records and imports snapshots from the command line.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { OptionsChain } from './types';
+import { MarketDataProvider } from './market-data-provider';
+
+export type SnapshotSource = string; // Name of the recording provider ('alpaca', 'alpaca-http+cache', ...) or 'import'
+
+export interface OptionsSnapshotQuote extends OptionsChain {
+  gamma?: number;
+  theta?: number;
+  vega?: number;
+}
+
+export interface OptionsSnapshot {
+  underlying: string;
+  timestamp: Date;
+  source: SnapshotSource;
+  underlyingPrice?: number;
+  quotes: OptionsSnapshotQuote[];
+}
+
+export interface OptionsSnapshotStoreConfig {
+  rootDir: string;
+  maxStalenessMinutes: number; // Older snapshots are treated as missing
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class OptionsSnapshotStore {
+  private readonly config: OptionsSnapshotStoreConfig;
+  private dayCache: Map<string, OptionsSnapshot[]> = new Map();
+
+  constructor(config: Partial<OptionsSnapshotStoreConfig> = {}) {
+    this.config = {
+      rootDir: path.resolve(config.rootDir || './options-snapshots'),
+      maxStalenessMinutes: config.maxStalenessMinutes ?? 30
+    };
+  }
+
+  /**
+   * Latest snapshot taken at or before asOf, or null when none is fresh enough
+   */
+  getSnapshotAsOf(underlying: string, asOf: Date): OptionsSnapshot | null {
+    const asOfTime = asOf.getTime();
+    const oldestAllowed = asOfTime - this.config.maxStalenessMinutes * 60 * 1000;
+
+    // Staleness window can reach back across UTC midnight
+    for (const day of [this.dayOf(asOf), this.dayOf(new Date(asOfTime - DAY_MS))]) {
+      const snapshots = this.loadDay(underlying, day);
+      for (let i = snapshots.length - 1; i >= 0; i--) {
+        const time = snapshots[i].timestamp.getTime();
+        if (time <= asOfTime) {
+          return time >= oldestAllowed ? snapshots[i] : null;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Chain as of a bar, optionally narrowed to a single expiration day
+   */
+  getChainAsOf(underlying: string, asOf: Date, expiration?: Date): OptionsSnapshotQuote[] | null {
+    const snapshot = this.getSnapshotAsOf(underlying, asOf);
+    if (!snapshot) {
+      return null;
+    }
+    if (!expiration) {
+      return snapshot.quotes;
+    }
+
+    const targetDay = this.dayOf(expiration);
+    const quotes = snapshot.quotes.filter(quote => this.dayOf(quote.expiration) === targetDay);
+    return quotes.length > 0 ? quotes : null;
+  }
+
+  /**
+   * Append a snapshot to the store
+   */
+  record(snapshot: OptionsSnapshot): void {
+    if (snapshot.quotes.some(quote => quote.synthetic)) {
+      throw new Error(`Refusing to record generated ${snapshot.underlying} quotes from ${snapshot.source} as a market snapshot`);
+    }
+    const day = this.dayOf(snapshot.timestamp);
+    const filePath = this.dayFile(snapshot.underlying, day);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, JSON.stringify(snapshot) + '\n');
+
+    const cacheKey = `${snapshot.underlying}/${day}`;
+    const cached = this.dayCache.get(cacheKey);
+    if (cached) {
+      cached.push(snapshot);
+      cached.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+  }
+
+  /**
+   * Pull the current chain from a live provider and record it under the provider's name
+   */
+  async recordFromProvider(provider: MarketDataProvider, underlying: string, expiration?: Date): Promise<OptionsSnapshot> {
+    const [quotes, underlyingPrice] = await Promise.all([
+      provider.getOptionsChain(underlying, expiration),
+      provider.getCurrentPrice(underlying)
+    ]);
+
+    const snapshot: OptionsSnapshot = {
+      underlying,
+      timestamp: new Date(),
+      source: provider.name,
+      underlyingPrice,
+      quotes
+    };
+    this.record(snapshot);
+    console.log(`📸 Recorded ${quotes.length} ${underlying} option quotes at ${snapshot.timestamp.toISOString()}`);
+    return snapshot;
+  }
+
+  /**
+   * Import quote rows from a JSON array or CSV file.
+   * Rows sharing a timestamp form one snapshot; columns follow OptionsSnapshotQuote
+   * plus "timestamp" (and optionally "underlyingPrice").
+   */
+  importFile(filePath: string, underlying: string): number {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const rows: any[] = filePath.endsWith('.csv') ? this.parseCsv(content) : JSON.parse(content);
+    const byTimestamp = new Map<number, any[]>();
+
+    for (const row of rows) {
+      const timestamp = new Date(row.timestamp).getTime();
+      if (isNaN(timestamp)) {
+        throw new Error(`Invalid snapshot timestamp in ${filePath}: ${row.timestamp}`);
+      }
+      if (!byTimestamp.has(timestamp)) byTimestamp.set(timestamp, []);
+      byTimestamp.get(timestamp)!.push(row);
+    }
+
+    const timestamps = Array.from(byTimestamp.keys()).sort((a, b) => a - b);
+    for (const timestamp of timestamps) {
+      const group = byTimestamp.get(timestamp)!;
+      this.record({
+        underlying,
+        timestamp: new Date(timestamp),
+        source: 'import',
+        underlyingPrice: group[0].underlyingPrice !== undefined ? Number(group[0].underlyingPrice) : undefined,
+        quotes: group.map(row => this.toQuote(row))
+      });
+    }
+
+    console.log(`📥 Imported ${timestamps.length} ${underlying} snapshots from ${filePath}`);
+    return timestamps.length;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private loadDay(underlying: string, day: string): OptionsSnapshot[] {
+    const cacheKey = `${underlying}/${day}`;
+    const cached = this.dayCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = this.dayFile(underlying, day);
+    const snapshots: OptionsSnapshot[] = [];
+    if (fs.existsSync(filePath)) {
+      for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+        if (line.trim().length === 0) continue;
+        const raw = JSON.parse(line);
+        snapshots.push({
+          ...raw,
+          timestamp: new Date(raw.timestamp),
+          quotes: raw.quotes.map((quote: any) => this.toQuote(quote))
+        });
+      }
+      snapshots.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    this.dayCache.set(cacheKey, snapshots);
+    return snapshots;
+  }
+
+  private toQuote(raw: any): OptionsSnapshotQuote {
+    const optional = (value: any) => (value === undefined || value === '' ? undefined : Number(value));
+    return {
+      symbol: String(raw.symbol),
+      expiration: new Date(raw.expiration),
+      strike: Number(raw.strike),
+      side: String(raw.side).toUpperCase() as 'CALL' | 'PUT',
+      bid: Number(raw.bid),
+      ask: Number(raw.ask),
+      last: optional(raw.last),
+      impliedVolatility: optional(raw.impliedVolatility),
+      delta: optional(raw.delta),
+      gamma: optional(raw.gamma),
+      theta: optional(raw.theta),
+      vega: optional(raw.vega),
+      volume: optional(raw.volume),
+      openInterest: optional(raw.openInterest)
+    };
+  }
+
+  private parseCsv(content: string): any[] {
+    const records = this.csvRecords(content).filter(values => values.some(value => value.trim().length > 0));
+    if (records.length === 0) {
+      return [];
+    }
+
+    const header = records[0].map(column => column.trim());
+    return records.slice(1).map(values => {
+      const row: Record<string, string> = {};
+      header.forEach((column, index) => {
+        row[column] = (values[index] || '').trim();
+      });
+      return row;
+    });
+  }
+
+  // RFC 4180 fields: quoted fields may hold commas, line breaks and doubled quotes
+  private csvRecords(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        records.push([...record, field]);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (quoted) {
+      throw new Error('Unterminated quoted field in snapshot CSV');
+    }
+    if (field.length > 0 || record.length > 0) {
+      records.push([...record, field]);
+    }
+    return records;
+  }
+
+  private dayFile(underlying: string, day: string): string {
+    return path.join(this.config.rootDir, underlying, `${day}.jsonl`);
+  }
+
+  private dayOf(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+export default OptionsSnapshotStore;
@@ -0,0 +1,458 @@
+/**
+ * PARAMETER OPTIMIZER
+ * Grid, random and Bayesian (TPE) search over any parameter object
+ *
+ * Search ranges name fields by dot path (profitTargetPct, direct.maxRiskPerTrade), so
+ * dashboard TradingParameters, DirectIntegrationConfig overrides and framework configs
+ * are all searched the same way. Each trial is one backtest through the same evaluator
+ * the walk-forward optimizer uses, scored on a PerformanceMetrics objective; trials
+ * that break a drawdown, trade-count, profit-factor or win-rate constraint stay on the
+ * leaderboard but below every feasible one. Sensitivity data shows how the objective
+ * moves with each searched parameter.
+ */
+
+import { PerformanceMetrics } from './types';
+import { WalkForwardOptimizer, WalkForwardEvaluator, WalkForwardObjective, WalkForwardRun } from './walk-forward-optimizer';
+
+export type SearchMethod = 'GRID' | 'RANDOM' | 'BAYESIAN';
+
+export type SearchValue = number | boolean | string;
+
+export interface SearchRange {
+  path: string; // Dot path into the parameter object
+  min?: number;
+  max?: number;
+  step?: number; // Grid spacing, and the increment searched values snap to
+  integer?: boolean;
+  values?: SearchValue[]; // Explicit choices instead of a numeric range
+}
+
+export interface ParameterOptimizerConfig {
+  method: SearchMethod;
+  objective: WalkForwardObjective;
+  trials: number; // Random and Bayesian budget; a grid evaluates every combination
+  gridPoints: number; // Values per numeric range without a step
+  startupTrials: number; // Random trials before the Bayesian model takes over
+  goodFraction: number; // Share of scored trials modelled as good (TPE gamma)
+  samplesPerTrial: number; // Draws from the good model, ranked by good/bad density ratio
+  seed: number;
+  initialCapital: number;
+  maxDrawdown: number | null; // Percent of peak equity, as PerformanceMetrics reports it
+  minTrades: number;
+  minProfitFactor: number | null;
+  minWinRate: number | null; // Percent
+}
+
+export interface OptimizationTrial<P> {
+  index: number;
+  source: 'GRID' | 'RANDOM' | 'TPE';
+  values: Record<string, SearchValue>; // Searched value by path
+  parameters: P;
+  performance: PerformanceMetrics | null; // null when validation rejected the parameters before a run
+  trades: number;
+  score: number; // Objective value; -Infinity when infeasible
+  feasible: boolean;
+  violations: string[];
+}
+
+export interface SensitivityLevel {
+  value: SearchValue; // Choice, or the centre of a numeric bin
+  trials: number;
+  meanScore: number;
+  bestScore: number;
+}
+
+export interface ParameterSensitivity {
+  path: string;
+  points: { value: SearchValue; score: number }[]; // Every feasible trial
+  levels: SensitivityLevel[]; // Feasible trials grouped by choice or numeric bin
+  correlation: number | null; // Rank correlation of value and score; null for choices or too few trials
+  spread: number; // Best minus worst level mean score
+}
+
+export interface OptimizationResult<P> {
+  config: ParameterOptimizerConfig;
+  ranges: SearchRange[];
+  trials: OptimizationTrial<P>[]; // In the order they ran
+  leaderboard: OptimizationTrial<P>[]; // Feasible by score, then infeasible in trial order
+  best: OptimizationTrial<P> | null; // Highest-scoring feasible trial
+  sensitivity: ParameterSensitivity[];
+  evaluations: number; // Backtests run; repeated and rejected parameter sets are not re-run
+}
+
+export class ParameterOptimizer<P extends object> {
+  readonly config: ParameterOptimizerConfig;
+
+  private static readonly DEFAULT_CONFIG: ParameterOptimizerConfig = {
+    method: 'BAYESIAN',
+    objective: 'SHARPE',
+    trials: 40,
+    gridPoints: 5,
+    startupTrials: 10,
+    goodFraction: 0.25,
+    samplesPerTrial: 24,
+    seed: 42,
+    initialCapital: 25000,
+    maxDrawdown: null,
+    minTrades: 5,
+    minProfitFactor: null,
+    minWinRate: null
+  };
+
+  constructor(
+    private readonly evaluate: WalkForwardEvaluator<P>,
+    config: Partial<ParameterOptimizerConfig> = {},
+    private readonly validate: (parameters: P) => string[] = () => []
+  ) {
+    this.config = { ...ParameterOptimizer.DEFAULT_CONFIG, ...config };
+    if (this.config.trials < 1 || this.config.gridPoints < 2 || this.config.samplesPerTrial < 1) {
+      throw new Error('Parameter optimization needs at least one trial, two grid points and one sample per trial');
+    }
+    if (this.config.goodFraction <= 0 || this.config.goodFraction >= 1) {
+      throw new Error(`goodFraction must be between 0 and 1, got ${this.config.goodFraction}`);
+    }
+  }
+
+  /**
+   * Every value a grid search visits for one range
+   */
+  static gridValues(range: SearchRange, gridPoints: number = ParameterOptimizer.DEFAULT_CONFIG.gridPoints): SearchValue[] {
+    if (range.values) {
+      return range.values;
+    }
+    const min = range.min!;
+    const max = range.max!;
+    const values: number[] = [];
+    if (range.step) {
+      for (let i = 0; min + i * range.step <= max + 1e-9; i++) {
+        values.push(ParameterOptimizer.snap(range, min + i * range.step));
+      }
+    } else {
+      for (let i = 0; i < gridPoints; i++) {
+        values.push(ParameterOptimizer.snap(range, min + (max - min) * i / (gridPoints - 1)));
+      }
+    }
+    return [...new Set(values)];
+  }
+
+  /**
+   * A copy of the parameters with one dot-path value replaced
+   */
+  static withValue<T>(parameters: T, path: string, value: SearchValue): T {
+    const [key, ...rest] = path.split('.');
+    const copy: any = Array.isArray(parameters) ? [...parameters] : { ...parameters };
+    copy[key] = rest.length === 0 ? value : ParameterOptimizer.withValue(copy[key] ?? {}, rest.join('.'), value);
+    return copy;
+  }
+
+  async optimize(base: P, ranges: SearchRange[], startDate: Date, endDate: Date): Promise<OptimizationResult<P>> {
+    this.checkRanges(ranges);
+    const random = ParameterOptimizer.random(this.config.seed);
+    const runs = new Map<string, WalkForwardRun>();
+    const trials: OptimizationTrial<P>[] = [];
+
+    const plan = this.config.method === 'GRID' ? this.gridPlan(ranges) : null;
+    const total = plan ? plan.length : this.config.trials;
+    console.log(`🔬 PARAMETER OPTIMIZATION: ${this.config.method} over ${ranges.length} ranges, ${total} trials (${this.config.objective})`);
+
+    for (let index = 0; index < total; index++) {
+      let source: OptimizationTrial<P>['source'];
+      let values: Record<string, SearchValue>;
+      if (plan) {
+        source = 'GRID';
+        values = plan[index];
+      } else if (this.config.method === 'BAYESIAN' && index >= this.config.startupTrials && trials.some(trial => trial.feasible)) {
+        source = 'TPE';
+        values = this.suggest(ranges, trials, random, runs);
+      } else {
+        source = 'RANDOM';
+        values = this.sample(ranges, random, runs);
+      }
+
+      const trial = await this.runTrial(index, source, base, values, startDate, endDate, runs);
+      trials.push(trial);
+      console.log(`   Trial ${index + 1}/${total} [${source}] ${this.describe(values)} → ${trial.feasible ? trial.score.toFixed(3) : `infeasible (${trial.violations.join('; ')})`}`);
+    }
+
+    const leaderboard = [...trials].sort((a, b) => Number(b.feasible) - Number(a.feasible) || WalkForwardOptimizer.byScore(a.score, b.score) || a.index - b.index);
+    const best = leaderboard[0]?.feasible ? leaderboard[0] : null;
+    const result: OptimizationResult<P> = {
+      config: this.config,
+      ranges,
+      trials,
+      leaderboard,
+      best,
+      sensitivity: ranges.map(range => this.sensitivity(range, trials)),
+      evaluations: runs.size
+    };
+
+    console.log(`✅ OPTIMIZATION COMPLETE: ${trials.filter(trial => trial.feasible).length}/${trials.length} feasible, ${runs.size} backtests`);
+    leaderboard.slice(0, 5).forEach((trial, i) => console.log(`   ${i + 1}. ${this.describe(trial.values)}: ${trial.feasible ? trial.score.toFixed(3) : 'infeasible'} (${trial.trades} trades)`));
+    return result;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private checkRanges(ranges: SearchRange[]): void {
+    if (ranges.length === 0) {
+      throw new Error('Parameter optimization needs at least one search range');
+    }
+    const paths = new Set<string>();
+    for (const range of ranges) {
+      if (!range.path || paths.has(range.path)) {
+        throw new Error(`Search range paths must be unique and non-empty, got "${range.path}"`);
+      }
+      paths.add(range.path);
+      if (range.values) {
+        if (range.values.length === 0) {
+          throw new Error(`Search range ${range.path} has no values`);
+        }
+      } else if (range.min === undefined || range.max === undefined || !Number.isFinite(range.min) || !Number.isFinite(range.max) || range.min >= range.max) {
+        throw new Error(`Search range ${range.path} needs values or a finite min below max`);
+      } else if (range.step !== undefined && range.step <= 0) {
+        throw new Error(`Search range ${range.path} has a non-positive step`);
+      }
+    }
+  }
+
+  private async runTrial(
+    index: number,
+    source: OptimizationTrial<P>['source'],
+    base: P,
+    values: Record<string, SearchValue>,
+    startDate: Date,
+    endDate: Date,
+    runs: Map<string, WalkForwardRun>
+  ): Promise<OptimizationTrial<P>> {
+    const parameters = Object.entries(values).reduce((current, [path, value]) => ParameterOptimizer.withValue(current, path, value), base);
+    const invalid = this.validate(parameters);
+    if (invalid.length > 0) {
+      return { index, source, values, parameters, performance: null, trades: 0, score: -Infinity, feasible: false, violations: invalid };
+    }
+
+    const key = JSON.stringify(values);
+    let run = runs.get(key);
+    if (!run) {
+      run = await this.evaluate(parameters, startDate, endDate, this.config.initialCapital);
+      runs.set(key, run);
+    }
+
+    const violations = this.violations(run.performance, run.trades.length);
+    const score = WalkForwardOptimizer.score(run, this.config.objective);
+    // A lossless profit factor scores Infinity and is the best a trial can do
+    const feasible = violations.length === 0 && !Number.isNaN(score) && score > -Infinity;
+    return { index, source, values, parameters, performance: run.performance, trades: run.trades.length, score: feasible ? score : -Infinity, feasible, violations };
+  }
+
+  private violations(performance: PerformanceMetrics, trades: number): string[] {
+    const violations: string[] = [];
+    if (trades < this.config.minTrades) {
+      violations.push(`${trades} trades < ${this.config.minTrades}`);
+    }
+    if (this.config.maxDrawdown !== null && performance.maxDrawdown > this.config.maxDrawdown) {
+      violations.push(`drawdown ${performance.maxDrawdown.toFixed(1)}% > ${this.config.maxDrawdown}%`);
+    }
+    // profitFactor is reported as 0 when nothing was lost; winners without losers clear any floor
+    const lossless = performance.winningTrades > 0 && performance.averageLoss === 0;
+    if (this.config.minProfitFactor !== null && !lossless && performance.profitFactor < this.config.minProfitFactor) {
+      violations.push(`profit factor ${performance.profitFactor.toFixed(2)} < ${this.config.minProfitFactor}`);
+    }
+    if (this.config.minWinRate !== null && performance.winRate < this.config.minWinRate) {
+      violations.push(`win rate ${performance.winRate.toFixed(1)}% < ${this.config.minWinRate}%`);
+    }
+    return violations;
+  }
+
+  private gridPlan(ranges: SearchRange[]): Record<string, SearchValue>[] {
+    let plan: Record<string, SearchValue>[] = [{}];
+    for (const range of ranges) {
+      const values = ParameterOptimizer.gridValues(range, this.config.gridPoints);
+      plan = plan.flatMap(point => values.map(value => ({ ...point, [range.path]: value })));
+    }
+    return plan;
+  }
+
+  // Uniform draw, avoiding parameter sets already tried when a few redraws allow it
+  private sample(ranges: SearchRange[], random: () => number, runs: Map<string, unknown>): Record<string, SearchValue> {
+    let values: Record<string, SearchValue> = {};
+    for (let attempt = 0; attempt < 10; attempt++) {
+      values = {};
+      for (const range of ranges) {
+        values[range.path] = range.values
+          ? range.values[Math.floor(random() * range.values.length)]
+          : ParameterOptimizer.snap(range, range.min! + random() * (range.max! - range.min!));
+      }
+      if (!runs.has(JSON.stringify(values))) {
+        break;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Tree-structured Parzen estimator: scored trials split into a good and a bad group,
+   * each modelled per parameter as a kernel mixture over its observed values plus a
+   * uniform prior. Draws from the good model are ranked by good/bad density ratio, and
+   * the best one not tried yet becomes the next trial
+   */
+  private suggest(
+    ranges: SearchRange[],
+    trials: OptimizationTrial<P>[],
+    random: () => number,
+    runs: Map<string, unknown>
+  ): Record<string, SearchValue> {
+    const ranked = [...trials].sort((a, b) => WalkForwardOptimizer.byScore(a.score, b.score));
+    const goodCount = Math.max(1, Math.ceil(ranked.filter(trial => trial.feasible).length * this.config.goodFraction));
+    const good = ranked.slice(0, goodCount);
+    const bad = ranked.slice(goodCount);
+
+    const candidates: { values: Record<string, SearchValue>; ratio: number }[] = [];
+    for (let i = 0; i < this.config.samplesPerTrial; i++) {
+      const values: Record<string, SearchValue> = {};
+      let ratio = 0;
+      for (const range of ranges) {
+        const goodValues = good.map(trial => trial.values[range.path]);
+        const badValues = bad.map(trial => trial.values[range.path]);
+        const value = this.drawFrom(range, goodValues, random);
+        values[range.path] = value;
+        ratio += Math.log(this.density(range, goodValues, value)) - Math.log(this.density(range, badValues, value));
+      }
+      candidates.push({ values, ratio });
+    }
+
+    candidates.sort((a, b) => b.ratio - a.ratio);
+    return (candidates.find(candidate => !runs.has(JSON.stringify(candidate.values))) || candidates[0]).values;
+  }
+
+  private drawFrom(range: SearchRange, observed: SearchValue[], random: () => number): SearchValue {
+    if (range.values) {
+      const weights = range.values.map(choice => observed.filter(value => value === choice).length + 1);
+      let pick = random() * weights.reduce((sum, weight) => sum + weight, 0);
+      for (let i = 0; i < weights.length; i++) {
+        pick -= weights[i];
+        if (pick < 0) {
+          return range.values[i];
+        }
+      }
+      return range.values[range.values.length - 1];
+    }
+
+    // One mixture component per observation plus the prior, chosen uniformly
+    const min = range.min!;
+    const max = range.max!;
+    const component = Math.floor(random() * (observed.length + 1));
+    if (component === observed.length) {
+      return ParameterOptimizer.snap(range, min + random() * (max - min));
+    }
+    const draw = (observed[component] as number) + this.bandwidth(range, observed.length) * ParameterOptimizer.gaussian(random);
+    return ParameterOptimizer.snap(range, Math.min(max, Math.max(min, draw)));
+  }
+
+  private density(range: SearchRange, observed: SearchValue[], value: SearchValue): number {
+    if (range.values) {
+      return (observed.filter(choice => choice === value).length + 1) / (observed.length + range.values.length);
+    }
+    const width = range.max! - range.min!;
+    const bandwidth = this.bandwidth(range, observed.length);
+    const kernels = observed.reduce((sum: number, center) =>
+      sum + Math.exp(-0.5 * Math.pow(((value as number) - (center as number)) / bandwidth, 2)) / (bandwidth * Math.sqrt(2 * Math.PI)), 0);
+    return (kernels + 1 / width) / (observed.length + 1);
+  }
+
+  // Kernels narrow as observations accumulate
+  private bandwidth(range: SearchRange, observations: number): number {
+    return (range.max! - range.min!) / (1 + Math.sqrt(observations));
+  }
+
+  private sensitivity(range: SearchRange, trials: OptimizationTrial<P>[]): ParameterSensitivity {
+    const points = trials.filter(trial => trial.feasible).map(trial => ({ value: trial.values[range.path], score: trial.score }));
+
+    const groups = new Map<SearchValue, number[]>();
+    if (range.values) {
+      range.values.forEach(choice => groups.set(choice, []));
+      points.forEach(point => groups.get(point.value)?.push(point.score));
+    } else {
+      // Numeric ranges are binned so random and Bayesian trials line up
+      const binWidth = (range.max! - range.min!) / this.config.gridPoints;
+      const centers = Array.from({ length: this.config.gridPoints }, (_, i) => range.min! + binWidth * (i + 0.5));
+      centers.forEach(center => groups.set(center, []));
+      points.forEach(point => {
+        const bin = Math.min(this.config.gridPoints - 1, Math.floor(((point.value as number) - range.min!) / binWidth));
+        groups.get(centers[bin])!.push(point.score);
+      });
+    }
+
+    const levels: SensitivityLevel[] = [...groups.entries()]
+      .filter(([, scores]) => scores.length > 0)
+      .map(([value, scores]) => ({
+        value,
+        trials: scores.length,
+        meanScore: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+        bestScore: Math.max(...scores)
+      }));
+    const means = levels.map(level => level.meanScore);
+
+    return {
+      path: range.path,
+      points,
+      levels,
+      correlation: range.values || points.length < 3 ? null : ParameterOptimizer.rankCorrelation(points.map(point => point.value as number), points.map(point => point.score)),
+      spread: means.length > 0 && Math.max(...means) !== Math.min(...means) ? Math.max(...means) - Math.min(...means) : 0
+    };
+  }
+
+  private describe(values: Record<string, SearchValue>): string {
+    return Object.entries(values).map(([path, value]) => `${path}=${value}`).join(', ');
+  }
+
+  private static snap(range: SearchRange, value: number): number {
+    let snapped = range.step ? range.min! + Math.round((value - range.min!) / range.step) * range.step : value;
+    if (range.integer) {
+      snapped = Math.round(snapped);
+    }
+    return Number(Math.min(range.max!, Math.max(range.min!, snapped)).toFixed(10));
+  }
+
+  // Spearman: Pearson correlation of the ranks, ties sharing their mean rank
+  private static rankCorrelation(xs: number[], ys: number[]): number | null {
+    const ranks = (values: number[]) => {
+      const order = values.map((value, i) => ({ value, i })).sort((a, b) => -WalkForwardOptimizer.byScore(a.value, b.value));
+      const result = new Array<number>(values.length);
+      for (let start = 0; start < order.length;) {
+        let end = start;
+        while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+        for (let k = start; k <= end; k++) result[order[k].i] = (start + end) / 2;
+        start = end + 1;
+      }
+      return result;
+    };
+    const rx = ranks(xs);
+    const ry = ranks(ys);
+    const mean = (rx.length - 1) / 2;
+    const covariance = rx.reduce((sum, r, i) => sum + (r - mean) * (ry[i] - mean), 0);
+    const deviation = Math.sqrt(rx.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) * ry.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0));
+    return deviation > 0 ? covariance / deviation : null;
+  }
+
+  /**
+   * Seeded uniform stream (mulberry32), so a search replays with the same seed
+   */
+  private static random(seed: number): () => number {
+    let state = seed | 0;
+    return () => {
+      state = (state + 0x6D2B79F5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private static gaussian(random: () => number): number {
+    // Box-Muller transform
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+export default ParameterOptimizer;
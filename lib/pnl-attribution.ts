@@ -0,0 +1,131 @@
+/**
+ * P&L ATTRIBUTION ENGINE
+ * Splits each closed trade's P&L into delta, gamma, theta, vega, costs and residual
+ *
+ * A position's Greeks path (one snapshot per bar it was held, covering the whole
+ * position) is walked step by step: each step's underlying move, time decay and IV
+ * change is charged to the Greeks at the start of the step. Costs are fills against
+ * mid marks at entry and exit; the residual is the mid-to-mid P&L the Greeks leave
+ * unexplained (higher-order terms, skew shifts, quotes that went stale).
+ */
+
+import { BacktestTrade, PnLAttribution } from './types';
+import { GreeksEngine, GreeksSnapshot } from './greeks-engine';
+
+export interface AttributionExit {
+  underlyingPrice: number;
+  timeToExpiration?: number; // Trading-time years left (0 at expiry); defaults to the last snapshot's
+  impliedVolatility?: number; // Defaults to the last snapshot's
+}
+
+export interface AttributionSummary extends PnLAttribution {
+  trades: number;
+}
+
+export interface PnLAttributionReport {
+  total: AttributionSummary;
+  byStrategy: Record<string, AttributionSummary>; // By trade side (IRON_CONDOR, BULL_PUT_SPREAD, ...)
+  byRegime: Record<string, AttributionSummary>; // By market regime at entry
+}
+
+export class PnLAttributionEngine {
+
+  private static readonly COMPONENTS: Array<keyof PnLAttribution> = ['delta', 'gamma', 'theta', 'vega', 'costs', 'residual', 'total'];
+
+  /**
+   * Attribute a trade's realized P&L over its Greeks path. Snapshots carry the position's
+   * Greeks (per share, summed over legs and contracts, long positive; theta per trading
+   * day, vega per vol point); `exit` extends the path to the close when the last snapshot
+   * was taken earlier, and `costs` is the P&L given up to fills (see fillCosts)
+   */
+  static attributeTrade(
+    greeksPath: GreeksSnapshot[],
+    multiplier: number,
+    pnl: number,
+    costs: number = 0,
+    exit?: AttributionExit
+  ): PnLAttribution {
+    const attribution: PnLAttribution = { delta: 0, gamma: 0, theta: 0, vega: 0, costs, residual: 0, total: pnl };
+    if (greeksPath.length === 0) {
+      attribution.residual = pnl - costs;
+      return attribution;
+    }
+
+    const last = greeksPath[greeksPath.length - 1];
+    const points: AttributionExit[] = exit
+      ? [...greeksPath, { timeToExpiration: last.timeToExpiration, impliedVolatility: last.impliedVolatility, ...exit }]
+      : greeksPath;
+    const dayYears = GreeksEngine.getTimeModel().dayYears;
+
+    for (let i = 0; i + 1 < points.length; i++) {
+      const from = greeksPath[i];
+      const to = points[i + 1];
+      const move = to.underlyingPrice - from.underlyingPrice;
+      const tradingDays = Math.max(0, from.timeToExpiration - (to.timeToExpiration ?? from.timeToExpiration)) / dayYears;
+      const volatilityChange = ((to.impliedVolatility ?? from.impliedVolatility) - from.impliedVolatility) * 100;
+
+      attribution.delta += from.delta * move * multiplier;
+      attribution.gamma += 0.5 * from.gamma * move * move * multiplier;
+      attribution.theta += from.theta * tradingDays * multiplier;
+      attribution.vega += from.vega * volatilityChange * multiplier;
+    }
+
+    attribution.residual = pnl - costs - attribution.delta - attribution.gamma - attribution.theta - attribution.vega;
+    return attribution;
+  }
+
+  /**
+   * Dollars given up to fills against mid marks (negative when paid). Prices and marks are
+   * per share and quoted the way the position trades: credit received and debit to close
+   * for `credit` positions, premium paid and received otherwise
+   */
+  static fillCosts(
+    entry: { price: number; mark: number },
+    exit: { price: number; mark: number },
+    quantity: number,
+    multiplier: number,
+    credit: boolean
+  ): number {
+    const direction = credit ? 1 : -1;
+    return direction * ((entry.price - entry.mark) - (exit.price - exit.mark)) * quantity * multiplier;
+  }
+
+  /**
+   * Attributed P&L of the closed trades, in total, by strategy and by entry regime
+   */
+  static summarize(trades: BacktestTrade[]): PnLAttributionReport {
+    const report: PnLAttributionReport = { total: this.emptySummary(), byStrategy: {}, byRegime: {} };
+
+    for (const trade of trades) {
+      if (!trade.attribution) {
+        continue;
+      }
+      const regime = trade.regime || 'UNKNOWN';
+      report.byStrategy[trade.side] = report.byStrategy[trade.side] || this.emptySummary();
+      report.byRegime[regime] = report.byRegime[regime] || this.emptySummary();
+      for (const summary of [report.total, report.byStrategy[trade.side], report.byRegime[regime]]) {
+        summary.trades++;
+        this.COMPONENTS.forEach(component => summary[component] += trade.attribution![component]);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * One-line summary for logs
+   */
+  static formatSummary(summary: AttributionSummary): string {
+    const dollars = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(0)}`;
+    return `${summary.trades} trades, P&L ${dollars(summary.total)} = Δ ${dollars(summary.delta)} + Γ ${dollars(summary.gamma)} `
+      + `+ Θ ${dollars(summary.theta)} + 𝜈 ${dollars(summary.vega)} + costs ${dollars(summary.costs)} + residual ${dollars(summary.residual)}`;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private static emptySummary(): AttributionSummary {
+    return { trades: 0, delta: 0, gamma: 0, theta: 0, vega: 0, costs: 0, residual: 0, total: 0 };
+  }
+}
+
+export default PnLAttributionEngine;
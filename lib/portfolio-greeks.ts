@@ -0,0 +1,137 @@
+/**
+ * PORTFOLIO GREEKS
+ * Dollar and beta-weighted Greeks across every open position
+ *
+ * One aggregator for the backtest, the live engines, the risk manager and the
+ * dashboard. Per underlying it reports dollar delta and dollar gamma per 1% move,
+ * theta per trading hour and vega per vol point; across underlyings it beta-weights
+ * delta and gamma to a benchmark (SPY), so a QQQ spread and an SPX condor add up
+ * as the SPY exposure they amount to.
+ */
+
+import { SymbolUniverse, ExposureInput, UnderlyingExposure, PortfolioExposure } from './symbol-universe';
+import { GreeksEngine } from './greeks-engine';
+
+export interface PortfolioGreeksConfig {
+  benchmark: string;
+  betas: Record<string, number>; // Overrides of the specs' betas to the benchmark (e.g. from a regression)
+}
+
+export interface UnderlyingGreeks extends UnderlyingExposure {
+  price: number;
+  beta: number;
+  // Raw per-share Greeks summed over positions; only comparable within one underlying
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  thetaPerHour: number; // $ per regular-session hour
+  betaWeightedDelta: number; // $ P&L per 1% benchmark move
+  betaWeightedGamma: number; // Change in beta-weighted dollar delta per 1% benchmark move
+}
+
+export interface PortfolioGreeks extends PortfolioExposure {
+  asOf: Date;
+  benchmark: string;
+  benchmarkPrice: number | null;
+  byUnderlying: Record<string, UnderlyingGreeks>;
+  total: Omit<UnderlyingGreeks, 'underlying' | 'price' | 'beta' | 'delta' | 'gamma' | 'theta' | 'vega'> & {
+    // Raw per-share sums; null once more than one underlying is held
+    delta: number | null;
+    gamma: number | null;
+    theta: number | null;
+    vega: number | null;
+    benchmarkDelta: number | null; // Beta-weighted delta in benchmark shares
+  };
+}
+
+export class PortfolioGreeksAggregator {
+  readonly config: PortfolioGreeksConfig;
+
+  private static readonly DEFAULT_CONFIG: PortfolioGreeksConfig = {
+    benchmark: 'SPY',
+    betas: {}
+  };
+
+  constructor(config: Partial<PortfolioGreeksConfig> = {}) {
+    this.config = { ...PortfolioGreeksAggregator.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Beta of an underlying to the benchmark: config override, else its spec, else 1
+   */
+  betaOf(underlying: string): number {
+    const symbol = underlying.toUpperCase();
+    if (symbol === this.config.benchmark.toUpperCase()) {
+      return 1;
+    }
+    const override = this.config.betas[symbol];
+    if (override !== undefined) {
+      return override;
+    }
+    return SymbolUniverse.isKnown(symbol) ? SymbolUniverse.getSpec(symbol).beta ?? 1 : 1;
+  }
+
+  /**
+   * Portfolio Greeks from each position's Greeks (per share, summed over its contracts
+   * and legs; theta per trading day) at the underlyings' latest prices
+   */
+  aggregate(positions: ExposureInput[], prices: Record<string, number>, asOf: Date = new Date()): PortfolioGreeks {
+    const exposure = SymbolUniverse.aggregateExposure(positions, prices);
+    const hourFraction = 60 * GreeksEngine.getTimeModel().minuteYears / GreeksEngine.getTimeModel().dayYears;
+
+    const byUnderlying: Record<string, UnderlyingGreeks> = {};
+    for (const [underlying, dollars] of Object.entries(exposure.byUnderlying)) {
+      const held = positions.filter(position => position.underlying.toUpperCase() === underlying);
+      const beta = this.betaOf(underlying);
+      byUnderlying[underlying] = {
+        ...dollars,
+        price: prices[underlying] || 0,
+        beta,
+        delta: held.reduce((sum, position) => sum + position.delta, 0),
+        gamma: held.reduce((sum, position) => sum + position.gamma, 0),
+        theta: held.reduce((sum, position) => sum + position.theta, 0),
+        vega: held.reduce((sum, position) => sum + position.vega, 0),
+        thetaPerHour: dollars.dollarTheta * hourFraction,
+        betaWeightedDelta: dollars.dollarDelta * beta,
+        betaWeightedGamma: dollars.dollarGamma * beta * beta
+      };
+    }
+
+    const underlyings = Object.values(byUnderlying);
+    const sum = (field: keyof Omit<UnderlyingGreeks, 'underlying'>) => underlyings.reduce((total, entry) => total + entry[field], 0);
+    const benchmarkPrice = prices[this.config.benchmark.toUpperCase()] || null;
+    const betaWeightedDelta = sum('betaWeightedDelta');
+    const rawSum = (field: 'delta' | 'gamma' | 'theta' | 'vega') => underlyings.length <= 1 ? sum(field) : null;
+
+    return {
+      asOf,
+      benchmark: this.config.benchmark.toUpperCase(),
+      benchmarkPrice,
+      byUnderlying,
+      total: {
+        ...exposure.total,
+        delta: rawSum('delta'),
+        gamma: rawSum('gamma'),
+        theta: rawSum('theta'),
+        vega: rawSum('vega'),
+        thetaPerHour: sum('thetaPerHour'),
+        betaWeightedDelta,
+        betaWeightedGamma: sum('betaWeightedGamma'),
+        benchmarkDelta: benchmarkPrice ? betaWeightedDelta / (benchmarkPrice * 0.01) : null
+      },
+      largestUnderlyingShare: exposure.largestUnderlyingShare
+    };
+  }
+
+  /**
+   * One-line summary for logs
+   */
+  static formatSummary(greeks: PortfolioGreeks): string {
+    const total = greeks.total;
+    return `β-weighted $Δ=${total.betaWeightedDelta.toFixed(0)}/1% ${greeks.benchmark} $Γ=${total.betaWeightedGamma.toFixed(0)}/1% `
+      + `Θ=$${total.thetaPerHour.toFixed(0)}/hr 𝜈=$${total.dollarVega.toFixed(0)}/vol pt`;
+  }
+}
+
+export default PortfolioGreeksAggregator;
@@ -15,7 +15,12 @@
  */
 
 import { EventEmitter } from 'events';
-import { alpacaClient } from './alpaca';
+import { MarketDataProvider } from './market-data-provider';
+import { createMarketDataProvider } from './market-data-provider-factory';
+import { BarResampler } from './bar-resampler';
+import { MarketCalendar } from './market-calendar';
+import { SymbolUniverse } from './symbol-universe';
+import { PortfolioGreeksAggregator, PortfolioGreeks } from './portfolio-greeks';
 import { AdaptiveStrategySelector } from './adaptive-strategy-selector';
 import { GreeksEngine, GreeksSnapshot } from './greeks-engine';
 import { TransactionCostEngine, FillSimulation } from './transaction-cost-engine';
@@ -97,6 +102,7 @@ export const TIMEFRAME_CONFIGS: Record<TimeframeOption, TimeframeConfig> = {
 export interface LivePosition {
   id: string;
   symbol: string;
+  underlying: string;
   side: 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR';
   spread: BullPutSpread | BearCallSpread | IronCondor;
   quantity: number;
@@ -146,10 +152,12 @@ export interface PaperTradingStatus {
   openPositions: LivePosition[];
   positionCount: number;
   portfolioGreeks: GreeksSnapshot;
+  portfolioExposure: PortfolioGreeks; // Dollar and beta-weighted Greeks per underlying
   portfolioRisk: number;
   
   // Market data
-  currentMarketData: MarketData[];
+  currentMarketData: MarketData[]; // First underlying in the universe
+  marketDataBySymbol: Record<string, MarketData[]>;
   lastSignalTime: Date;
   nextCheckTime: Date;
   
@@ -163,6 +171,8 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
   private isRunning = false;
   private tradingInterval?: NodeJS.Timeout;
   private selectedTimeframe: TimeframeOption = '1Min'; // Default to best performer
+  private dataProvider: MarketDataProvider;
+  private universe: SymbolUniverse;
   
   // Performance tracking (matches backtest)
   private startTime = new Date();
@@ -175,6 +185,7 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
   
   // Market data storage
   private marketDataHistory: Map<string, MarketData[]> = new Map();
+  private readonly portfolioGreeksAggregator = new PortfolioGreeksAggregator();
   private lastTradeTime = new Date(0);
   private cooldownPeriod = 5 * 60 * 1000; // 5 minutes between trades
   
@@ -213,11 +224,18 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
     rsiOversold: 30
   };
 
-  constructor(selectedTimeframe: TimeframeOption = '1Min') {
+  constructor(
+    selectedTimeframe: TimeframeOption = '1Min',
+    dataProvider: MarketDataProvider = createMarketDataProvider(),
+    universe: SymbolUniverse = SymbolUniverse.fromEnv()
+  ) {
     super();
     this.selectedTimeframe = selectedTimeframe;
+    this.dataProvider = dataProvider;
+    this.universe = universe;
     
     console.log('🚀 Professional Paper Trading Engine Initialized');
+    console.log(`📈 Underlyings: ${universe.symbols.join(', ')}`);
     console.log(`📊 Selected Timeframe: ${TIMEFRAME_CONFIGS[selectedTimeframe].displayName}`);
     console.log(`🎯 Expected Performance: ${TIMEFRAME_CONFIGS[selectedTimeframe].targetDaily}/day`);
     console.log('🏛️ Institutional Features Enabled:');
@@ -240,10 +258,10 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
     try {
       console.log('\n🚀 Starting Professional Paper Trading Engine...');
       
-      // Test Alpaca connection
-      const connectionTest = await alpacaClient.testConnection();
+      // Test market data connection
+      const connectionTest = await this.dataProvider.testConnection();
       if (!connectionTest) {
-        throw new Error('Failed to connect to Alpaca API');
+        throw new Error(`Failed to connect to ${this.dataProvider.name} market data source`);
       }
       
       // Start trading loop with selected timeframe interval
@@ -327,20 +345,24 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
       console.log(`\n🔄 Trading Cycle - ${new Date().toLocaleTimeString()}`);
       
       // 1. Check market hours (same as backtest)
-      if (!this.isMarketHours()) {
+      if (!MarketCalendar.isMarketOpen()) {
         console.log('⏰ Outside market hours, skipping cycle');
         return;
       }
       
       // 2. Update market data (matches backtest data flow)
-      await this.updateMarketData();
+      for (const symbol of this.universe.symbols) {
+        await this.updateMarketData(symbol);
+      }
       
       // 3. Monitor existing positions (same as backtest monitoring)
       await this.monitorPositions();
       
       // 4. Check for new trading opportunities (same logic as backtest)
-      if (this.canPlaceNewTrade()) {
-        await this.scanForTrades();
+      for (const symbol of this.universe.symbols) {
+        if (this.canPlaceNewTrade()) {
+          await this.scanForTrades(symbol);
+        }
       }
       
       // 5. Update performance metrics (matches backtest analytics)
@@ -363,20 +385,20 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
   /**
    * Update market data (matches backtest data structure)
    */
-  private async updateMarketData(): Promise<void> {
+  private async updateMarketData(symbol: string): Promise<void> {
     try {
-      const symbol = 'SPY';
-      
-      // Get latest market data with selected timeframe
+      // Fetch minute bars once and derive the selected timeframe locally,
+      // so switching timeframes never changes the underlying prints
       const endDate = new Date();
       const startDate = new Date(endDate.getTime() - 24 * 60 * 60 * 1000); // Last 24 hours
       
-      const marketData = await alpacaClient.getMarketData(
+      const minuteBars = await this.dataProvider.getMarketData(
         symbol,
         startDate,
         endDate,
-        this.selectedTimeframe
+        '1Min'
       );
+      const marketData = BarResampler.resample(minuteBars, this.selectedTimeframe);
       
       // Store market data (same format as backtest)
       this.marketDataHistory.set(symbol, marketData);
@@ -384,7 +406,7 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
       console.log(`📊 Updated market data: ${marketData.length} ${this.selectedTimeframe} bars for ${symbol}`);
       
     } catch (error) {
-      console.error('❌ Error updating market data:', error);
+      console.error(`❌ Error updating ${symbol} market data:`, error);
     }
   }
 
@@ -420,7 +442,7 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
     shouldExit: boolean;
     reason: string;
   }> {
-    const currentPrice = await this.getCurrentPrice('SPY');
+    const currentPrice = await this.getCurrentPrice(position.underlying);
     const timeHeld = Date.now() - position.entryDate.getTime();
     const hoursHeld = timeHeld / (1000 * 60 * 60);
     
@@ -532,11 +554,10 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
   /**
    * Scan for new trading opportunities (exact same logic as backtest)
    */
-  private async scanForTrades(): Promise<void> {
+  private async scanForTrades(symbol: string): Promise<void> {
     try {
-      console.log('🔍 Scanning for new trading opportunities...');
+      console.log(`🔍 Scanning ${symbol} for new trading opportunities...`);
       
-      const symbol = 'SPY';
       const marketData = this.marketDataHistory.get(symbol);
       
       if (!marketData || marketData.length < 50) {
@@ -545,7 +566,7 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
       }
       
       // Get options chain (same as backtest)
-      const optionsChain = await alpacaClient.getOptionsChain(symbol);
+      const optionsChain = await this.dataProvider.getOptionsChain(symbol);
       
       // Calculate technical indicators (same as backtest)
       const indicators = TechnicalAnalysis.calculateAllIndicators(
@@ -566,7 +587,7 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
         console.log(`🎯 Trading signal: ${signal.selectedStrategy}`);
         console.log(`📈 Market regime: ${signal.marketRegime.regime} (${signal.marketRegime.confidence}% confidence)`);
         
-        await this.executeTrade(signal.signal, signal.selectedStrategy);
+        await this.executeTrade(symbol, signal.signal, signal.selectedStrategy);
       } else {
         console.log('⏸️ No trading signal generated');
         if (signal.reasoning.length > 0) {
@@ -575,18 +596,18 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
       }
       
     } catch (error) {
-      console.error('❌ Error scanning for trades:', error);
+      console.error(`❌ Error scanning ${symbol} for trades:`, error);
     }
   }
 
   /**
    * Execute a trade (matches backtest execution exactly)
    */
-  private async executeTrade(signal: any, strategy: string): Promise<void> {
+  private async executeTrade(symbol: string, signal: any, strategy: string): Promise<void> {
     try {
-      console.log(`📈 Executing ${strategy} trade...`);
+      console.log(`📈 Executing ${symbol} ${strategy} trade...`);
       
-      const currentPrice = await this.getCurrentPrice('SPY');
+      const currentPrice = await this.getCurrentPrice(symbol);
       const config = TIMEFRAME_CONFIGS[this.selectedTimeframe];
       
       // Calculate position size (same as backtest)
@@ -612,7 +633,7 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
       
       // Calculate transaction costs (same as backtest)
       const entryCosts = this.calculateSpreadEntryCosts(signal.spread, strategy, 1);
-      const realisticEntryCredit = entryCosts.netReceived / 100;
+      const realisticEntryCredit = entryCosts.netReceived / SymbolUniverse.getSpec(symbol).contractMultiplier;
       
       if (realisticEntryCredit <= 0.05) {
         console.log(`🚫 Trade rejected: Insufficient credit after costs ($${realisticEntryCredit.toFixed(2)})`);
@@ -626,7 +647,8 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
         // Create live position (same structure as backtest)
         const position: LivePosition = {
           id: `${strategy}_${Date.now()}`,
-          symbol: 'SPY',
+          symbol,
+          underlying: symbol,
           side: strategy as 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR',
           spread: signal.spread,
           quantity: 1,
@@ -722,15 +744,6 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
     );
   }
   
-  private isMarketHours(): boolean {
-    const now = new Date();
-    const hour = now.getHours();
-    const day = now.getDay();
-    
-    // Monday-Friday, 9:30 AM - 4:00 PM ET
-    return day >= 1 && day <= 5 && hour >= 9 && hour < 16;
-  }
-  
   private async getCurrentPrice(symbol: string): Promise<number> {
     const marketData = this.marketDataHistory.get(symbol);
     return marketData?.[marketData.length - 1]?.close || 0;
@@ -785,7 +798,7 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
   
   private async updatePositionGreeks(position: LivePosition): Promise<void> {
     // Update Greeks with current market conditions (same as backtest)
-    const currentPrice = await this.getCurrentPrice('SPY');
+    const currentPrice = await this.getCurrentPrice(position.underlying);
     // Simplified for now - would calculate actual Greeks
     position.currentGreeks = position.entryGreeks; // Placeholder
     position.lastUpdate = new Date();
@@ -881,10 +894,12 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
       openPositions: Array.from(this.positions.values()),
       positionCount: this.positions.size,
       portfolioGreeks,
+      portfolioExposure: this.calculatePortfolioExposure(),
       portfolioRisk: this.calculatePortfolioRisk(),
       
       // Market data
-      currentMarketData: this.marketDataHistory.get('SPY') || [],
+      currentMarketData: this.marketDataHistory.get(this.universe.symbols[0]) || [],
+      marketDataBySymbol: Object.fromEntries(this.universe.symbols.map(symbol => [symbol, this.marketDataHistory.get(symbol) || []])),
       lastSignalTime: this.lastTradeTime,
       nextCheckTime: new Date(Date.now() + TIMEFRAME_CONFIGS[this.selectedTimeframe].checkInterval),
       
@@ -901,6 +916,25 @@ export class ProfessionalPaperTradingEngine extends EventEmitter {
     };
   }
   
+  private calculatePortfolioExposure(): PortfolioGreeks {
+    const prices: Record<string, number> = {};
+    this.marketDataHistory.forEach((history, symbol) => {
+      if (history.length > 0) prices[symbol] = history[history.length - 1].close;
+    });
+    return this.portfolioGreeksAggregator.aggregate(
+      Array.from(this.positions.values()).map(pos => ({
+        underlying: pos.underlying,
+        contracts: pos.quantity,
+        delta: pos.currentGreeks.delta * pos.quantity,
+        gamma: pos.currentGreeks.gamma * pos.quantity,
+        theta: pos.currentGreeks.theta * pos.quantity,
+        vega: pos.currentGreeks.vega * pos.quantity,
+        premium: pos.entryPrice
+      })),
+      prices
+    );
+  }
+  
   private calculateAggregateGreeks(): GreeksSnapshot {
     const positions = Array.from(this.positions.values());
     
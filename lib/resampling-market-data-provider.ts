@@ -0,0 +1,73 @@
+/**
+ * RESAMPLING MARKET DATA PROVIDER
+ * Serves every bar timeframe from the upstream provider's 1Min bars
+ *
+ * One minute dataset backs all timeframes, so a 5Min and a 1Hour backtest
+ * over the same period see exactly the same prints. The last 1Min fetch per
+ * symbol is kept, so asking for several timeframes over the same range hits
+ * the upstream once.
+ */
+
+import { MarketData, OptionsChain } from './types';
+import { MarketDataProvider, BarTimeframe } from './market-data-provider';
+import { BarResampler, ResampleOptions } from './bar-resampler';
+
+export class ResamplingMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  private readonly upstream: MarketDataProvider;
+  private readonly options: Partial<ResampleOptions>;
+  private readonly minuteBars = new Map<string, { range: string; bars: Promise<MarketData[]> }>();
+
+  constructor(upstream: MarketDataProvider, options: Partial<ResampleOptions> = {}) {
+    this.upstream = upstream;
+    this.options = options;
+    this.name = `${upstream.name}+resample`;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return this.upstream.testConnection();
+  }
+
+  async getMarketData(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    timeframe: BarTimeframe = '1Day'
+  ): Promise<MarketData[]> {
+    const minuteBars = await this.fetchMinuteBars(symbol, startDate, endDate);
+    const bars = BarResampler.resample(minuteBars, timeframe, this.options);
+
+    console.log(`🧮 Resampled ${minuteBars.length} 1Min bars into ${bars.length} ${timeframe} bars for ${symbol}`);
+    return bars;
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    return this.upstream.getCurrentPrice(symbol);
+  }
+
+  async getOptionsChain(symbol: string, expiration?: Date): Promise<OptionsChain[]> {
+    return this.upstream.getOptionsChain(symbol, expiration);
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private fetchMinuteBars(symbol: string, startDate: Date, endDate: Date): Promise<MarketData[]> {
+    const range = `${startDate.toISOString()}_${endDate.toISOString()}`;
+    const last = this.minuteBars.get(symbol);
+    if (last && last.range === range) {
+      return last.bars;
+    }
+
+    const bars = this.upstream.getMarketData(symbol, startDate, endDate, '1Min');
+    this.minuteBars.set(symbol, { range, bars });
+    // A failed fetch is not kept, so the next call retries it
+    bars.catch(() => {
+      if (this.minuteBars.get(symbol)?.bars === bars) {
+        this.minuteBars.delete(symbol);
+      }
+    });
+    return bars;
+  }
+}
+
+export default ResamplingMarketDataProvider;
@@ -0,0 +1,253 @@
+/**
+ * SCENARIO ENGINE
+ * Full-revaluation P&L grids for positions, spreads and portfolios
+ *
+ * Every leg is repriced (not Taylor-expanded from its Greeks) at each underlying
+ * move × IV shift × point in time, with the underlying's pricing model and time to
+ * expiry in trading time. Moves are relative and applied to every underlying at
+ * once. P&L is against each leg's entry price, or its current model mark (making
+ * the grid's centre zero) when the entry is not given. Each time slice also
+ * carries the expected loss over the underlying's lognormal distribution to that
+ * time and the breakeven contour across the IV shifts.
+ */
+
+import { OptionsChain, BullPutSpread, BearCallSpread, IronCondor } from './types';
+import { GreeksEngine } from './greeks-engine';
+import { SymbolUniverse } from './symbol-universe';
+import { VolatilitySurface } from './volatility-surface';
+
+export interface ScenarioLeg {
+  option: OptionsChain;
+  quantity: number;
+  side: 'LONG' | 'SHORT';
+  entryPrice?: number; // Per-share premium paid or received
+}
+
+export interface ScenarioPosition {
+  id: string;
+  underlying?: string; // Defaults to the first leg's underlying
+  legs: ScenarioLeg[];
+}
+
+export interface ScenarioMarket {
+  spots: Record<string, number>;
+  surfaces?: Record<string, VolatilitySurface>; // Per-underlying smiles; otherwise each leg keeps its own quote's IV
+}
+
+export interface ScenarioConfig {
+  priceMoves: number[]; // Relative underlying moves (-0.01 = 1% drop), ascending
+  volatilityShifts: number[]; // Absolute IV shifts (0.02 = +2 vol points)
+  times: Date[]; // Points in time to reprice at; empty means now only
+}
+
+export interface BreakevenContour {
+  time: Date;
+  points: Array<{ volatilityShift: number; priceMove: number; price: number }>;
+}
+
+export interface ScenarioGrid {
+  asOf: Date;
+  priceMoves: number[];
+  volatilityShifts: number[];
+  times: Date[];
+  pnl: number[][][]; // [time][volatility shift][price move], dollars
+  expectedLoss: number[][]; // [time][volatility shift], dollars (>= 0)
+  breakevens: BreakevenContour[];
+  worst: { pnl: number; priceMove: number; volatilityShift: number; time: Date };
+}
+
+interface PricedLeg extends ScenarioLeg {
+  underlying: string;
+  multiplier: number;
+  mark: number; // Model value now
+  baseline: number; // Value P&L is measured from
+  volatility: number; // Trading-time IV now
+  surfaceScale: number; // Calendar-time to trading-time IV at equal total variance
+}
+
+export class ScenarioEngine {
+  readonly config: ScenarioConfig;
+
+  private static readonly DEFAULT_CONFIG: ScenarioConfig = {
+    priceMoves: Array.from({ length: 21 }, (_, i) => Number((-0.05 + i * 0.005).toFixed(3))),
+    volatilityShifts: [-0.05, -0.025, 0, 0.025, 0.05],
+    times: []
+  };
+
+  constructor(config: Partial<ScenarioConfig> = {}) {
+    const settings = { ...ScenarioEngine.DEFAULT_CONFIG, ...config };
+    this.config = { ...settings, priceMoves: [...settings.priceMoves].sort((a, b) => a - b) };
+  }
+
+  /**
+   * Legs of a credit spread or iron condor
+   */
+  static spreadLegs(
+    spread: BullPutSpread | BearCallSpread | IronCondor,
+    side: 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR',
+    quantity: number
+  ): ScenarioLeg[] {
+    if (side === 'BULL_PUT_SPREAD') {
+      const bullSpread = spread as BullPutSpread;
+      return [
+        { option: bullSpread.sellPut, quantity, side: 'SHORT' },
+        { option: bullSpread.buyPut, quantity, side: 'LONG' }
+      ];
+    }
+    if (side === 'BEAR_CALL_SPREAD') {
+      const bearSpread = spread as BearCallSpread;
+      return [
+        { option: bearSpread.sellCall, quantity, side: 'SHORT' },
+        { option: bearSpread.buyCall, quantity, side: 'LONG' }
+      ];
+    }
+    const condor = spread as IronCondor;
+    return [
+      { option: condor.sellPut, quantity, side: 'SHORT' },
+      { option: condor.buyPut, quantity, side: 'LONG' },
+      { option: condor.sellCall, quantity, side: 'SHORT' },
+      { option: condor.buyCall, quantity, side: 'LONG' }
+    ];
+  }
+
+  /**
+   * P&L grid for the positions taken together
+   */
+  run(positions: ScenarioPosition[], market: ScenarioMarket, asOf: Date): ScenarioGrid {
+    const legs = positions.flatMap(position => this.priceLegs(position, market, asOf));
+    const times = this.config.times.length > 0 ? [...this.config.times].sort((a, b) => a.getTime() - b.getTime()) : [asOf];
+    const { priceMoves, volatilityShifts } = this.config;
+
+    // Time to expiry depends only on the time slice and the IV only on the move; work them out once
+    const years = legs.map(leg => times.map(time => time < leg.option.expiration ? GreeksEngine.timeToExpiration(time, leg.option.expiration) : 0));
+    const volatilities = legs.map(leg => priceMoves.map(move => this.scenarioVolatility(leg, market, market.spots[leg.underlying] * (1 + move))));
+    const pnl = times.map((_, t) => volatilityShifts.map(shift => priceMoves.map((move, p) =>
+      legs.reduce((sum, leg, l) => {
+        const spot = market.spots[leg.underlying] * (1 + move);
+        const value = this.legValue(leg.option, spot, years[l][t], Math.max(GreeksEngine.MIN_VOLATILITY, volatilities[l][p] + shift));
+        return sum + (value - leg.baseline) * leg.quantity * leg.multiplier * (leg.side === 'LONG' ? 1 : -1);
+      }, 0))));
+
+    let worst = { pnl: Infinity, priceMove: 0, volatilityShift: 0, time: asOf };
+    times.forEach((time, t) => volatilityShifts.forEach((volatilityShift, v) => priceMoves.forEach((priceMove, p) => {
+      if (pnl[t][v][p] < worst.pnl) {
+        worst = { pnl: pnl[t][v][p], priceMove, volatilityShift, time };
+      }
+    })));
+
+    const referenceVolatility = legs.length > 0 ? legs.reduce((sum, leg) => sum + leg.volatility, 0) / legs.length : GreeksEngine.DEFAULT_VOLATILITY;
+    const referenceSpot = legs.length > 0 ? market.spots[legs[0].underlying] : 0;
+    return {
+      asOf,
+      priceMoves,
+      volatilityShifts,
+      times,
+      pnl,
+      expectedLoss: times.map((time, t) => volatilityShifts.map((shift, v) =>
+        this.expectedLoss(pnl[t][v], GreeksEngine.getTimeModel().yearFraction(asOf, time), Math.max(GreeksEngine.MIN_VOLATILITY, referenceVolatility + shift)))),
+      breakevens: times.map((time, t) => ({
+        time,
+        points: volatilityShifts.flatMap((volatilityShift, v) => this.zeroCrossings(pnl[t][v]).map(priceMove => ({
+          volatilityShift,
+          priceMove,
+          price: referenceSpot * (1 + priceMove)
+        })))
+      })),
+      worst: { ...worst, pnl: isFinite(worst.pnl) ? worst.pnl : 0 }
+    };
+  }
+
+  /**
+   * One time slice as a console heatmap: IV shifts down, underlying moves across
+   */
+  static formatHeatmap(grid: ScenarioGrid, timeIndex: number = 0): string {
+    const cell = (text: string) => text.padStart(8);
+    const header = cell('IV \\ Δ') + grid.priceMoves.map(move => cell(`${(move * 100).toFixed(1)}%`)).join('');
+    const rows = grid.volatilityShifts.map((shift, v) =>
+      cell(`${shift >= 0 ? '+' : ''}${(shift * 100).toFixed(1)}`) + grid.pnl[timeIndex][v].map(value => cell(value.toFixed(0))).join(''));
+    const time = grid.times[timeIndex];
+    return [`📊 Scenario P&L at ${time.toISOString()} (expected loss at current IV: $${grid.expectedLoss[timeIndex][grid.volatilityShifts.indexOf(0)]?.toFixed(0) ?? 'n/a'})`, header, ...rows].join('\n');
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private priceLegs(position: ScenarioPosition, market: ScenarioMarket, asOf: Date): PricedLeg[] {
+    const underlying = (position.underlying || SymbolUniverse.underlyingOf(position.legs[0]?.option.symbol || '')).toUpperCase();
+    const spot = market.spots[underlying];
+    if (!(spot > 0)) {
+      throw new Error(`No spot price for ${underlying} in scenario market`);
+    }
+    const multiplier = SymbolUniverse.isKnown(underlying) ? SymbolUniverse.getSpec(underlying).contractMultiplier : 100;
+
+    return position.legs.map(leg => {
+      const priced = { ...leg, underlying, multiplier, mark: 0, baseline: 0, volatility: GreeksEngine.DEFAULT_VOLATILITY, surfaceScale: 1 };
+      const timeToExpiration = asOf < leg.option.expiration ? GreeksEngine.timeToExpiration(asOf, leg.option.expiration) : 0;
+      if (timeToExpiration > 0) {
+        priced.volatility = GreeksEngine.marketImpliedVolatility(leg.option, spot, timeToExpiration, undefined, asOf);
+        priced.surfaceScale = Math.sqrt((leg.option.expiration.getTime() - asOf.getTime()) / (365 * 24 * 60 * 60 * 1000) / timeToExpiration);
+      }
+      priced.volatility = this.scenarioVolatility(priced, market, spot);
+      priced.mark = this.legValue(leg.option, spot, timeToExpiration, priced.volatility);
+      priced.baseline = leg.entryPrice ?? priced.mark;
+      return priced;
+    });
+  }
+
+  /**
+   * Trading-time IV of a leg at a scenario spot: the surface's (calendar-time) IV
+   * converted at equal total variance, else the leg's own IV (sticky strike)
+   */
+  private scenarioVolatility(leg: PricedLeg, market: ScenarioMarket, spot: number): number {
+    const surface = market.surfaces?.[leg.underlying];
+    return surface ? surface.impliedVolatility(leg.option.strike, leg.option.expiration, spot) * leg.surfaceScale : leg.volatility;
+  }
+
+  /**
+   * Model value with `timeToExpiration` trading-time years left; intrinsic once expired
+   */
+  private legValue(option: OptionsChain, spot: number, timeToExpiration: number, volatility: number): number {
+    if (timeToExpiration <= 0) {
+      return Math.max(0, option.side === 'CALL' ? spot - option.strike : option.strike - spot);
+    }
+    return GreeksEngine.calculateTheoreticalPrice(option, spot, timeToExpiration, volatility);
+  }
+
+  /**
+   * Loss expected across the price axis, weighting each move by the lognormal
+   * density after `years`; with no time to move, all weight sits on the unchanged price
+   */
+  private expectedLoss(row: number[], years: number, volatility: number): number {
+    const moves = this.config.priceMoves;
+    const deviation = volatility * Math.sqrt(years);
+    let weights: number[];
+    if (deviation < 1e-9) {
+      const nearest = moves.reduce((best, move, i) => Math.abs(move) < Math.abs(moves[best]) ? i : best, 0);
+      weights = moves.map((_, i) => i === nearest ? 1 : 0);
+    } else {
+      weights = moves.map(move => move > -1 ? Math.exp(-0.5 * Math.pow((Math.log(1 + move) + deviation * deviation / 2) / deviation, 2)) : 0);
+    }
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (!(total > 0)) {
+      return 0;
+    }
+    return -row.reduce((sum, value, i) => sum + weights[i] * Math.min(0, value), 0) / total;
+  }
+
+  /**
+   * Moves where P&L crosses zero, linear between grid points
+   */
+  private zeroCrossings(row: number[]): number[] {
+    const moves = this.config.priceMoves;
+    const crossings: number[] = [];
+    for (let i = 0; i < row.length; i++) {
+      if (row[i] === 0 && (i === 0 || row[i - 1] !== 0)) {
+        crossings.push(moves[i]);
+      } else if (i > 0 && row[i - 1] * row[i] < 0) {
+        crossings.push(moves[i - 1] + (moves[i] - moves[i - 1]) * row[i - 1] / (row[i - 1] - row[i]));
+      }
+    }
+    return crossings;
+  }
+}
+
+export default ScenarioEngine;
@@ -0,0 +1,115 @@
+/**
+ * SHARED BAR ARRAY
+ * One underlying's bars in a SharedArrayBuffer, readable from every worker thread
+ *
+ * Bars are packed as float64 columns (time, open, high, low, close, volume, vwap), so
+ * posting the array to a worker shares the memory instead of copying it. Workers only
+ * read; MarketData objects are rebuilt on demand for the slice a backtest asks for.
+ */
+
+import { MarketData } from './types';
+import { BarTimeframe } from './market-data-provider';
+
+const FIELDS = 7; // time, open, high, low, close, volume, vwap
+
+// What crosses the thread boundary; the buffer is shared, not copied
+export interface SharedBarArrayData {
+  symbol: string;
+  timeframe: BarTimeframe;
+  buffer: SharedArrayBuffer;
+}
+
+export class SharedBarArray {
+  readonly symbol: string;
+  readonly timeframe: BarTimeframe;
+  readonly buffer: SharedArrayBuffer;
+  private readonly values: Float64Array;
+
+  constructor(data: SharedBarArrayData) {
+    this.symbol = data.symbol;
+    this.timeframe = data.timeframe;
+    this.buffer = data.buffer;
+    this.values = new Float64Array(data.buffer);
+  }
+
+  /**
+   * Pack bars (sorted by time) into a new shared buffer
+   */
+  static from(symbol: string, bars: MarketData[], timeframe: BarTimeframe): SharedBarArray {
+    const sorted = [...bars].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const buffer = new SharedArrayBuffer(sorted.length * FIELDS * Float64Array.BYTES_PER_ELEMENT);
+    const values = new Float64Array(buffer);
+    sorted.forEach((bar, i) => {
+      values.set([bar.date.getTime(), bar.open, bar.high, bar.low, bar.close, Number(bar.volume), bar.vwap ?? NaN], i * FIELDS);
+    });
+    return new SharedBarArray({ symbol, timeframe, buffer });
+  }
+
+  get length(): number {
+    return this.values.length / FIELDS;
+  }
+
+  toData(): SharedBarArrayData {
+    return { symbol: this.symbol, timeframe: this.timeframe, buffer: this.buffer };
+  }
+
+  time(index: number): number {
+    return this.values[index * FIELDS];
+  }
+
+  bar(index: number): MarketData {
+    const offset = index * FIELDS;
+    const date = new Date(this.values[offset]);
+    const vwap = this.values[offset + 6];
+    return {
+      id: `${this.symbol}-${this.values[offset]}`,
+      symbol: this.symbol,
+      date,
+      open: this.values[offset + 1],
+      high: this.values[offset + 2],
+      low: this.values[offset + 3],
+      close: this.values[offset + 4],
+      volume: BigInt(Math.round(this.values[offset + 5])),
+      ...(Number.isNaN(vwap) ? {} : { vwap }),
+      createdAt: date
+    };
+  }
+
+  /**
+   * Bars from startDate to endDate, both inclusive
+   */
+  between(startDate: Date, endDate: Date): MarketData[] {
+    const bars: MarketData[] = [];
+    for (let i = this.indexAtOrAfter(startDate.getTime()); i < this.length && this.time(i) <= endDate.getTime(); i++) {
+      bars.push(this.bar(i));
+    }
+    return bars;
+  }
+
+  /**
+   * Close of the last bar at or before an instant; null before the first bar
+   */
+  closeAsOf(asOf: Date): number | null {
+    const index = this.indexAtOrAfter(asOf.getTime() + 1) - 1;
+    return index >= 0 ? this.values[index * FIELDS + 4] : null;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  // First bar at or after a time (binary search)
+  private indexAtOrAfter(time: number): number {
+    let low = 0;
+    let high = this.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.time(middle) < time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
+
+export default SharedBarArray;
@@ -0,0 +1,76 @@
+/**
+ * SHARED BARS MARKET DATA PROVIDER
+ * Serves bars from SharedBarArrays and prices chains off them with the simulator
+ *
+ * Worker threads backtest on the bars the scheduler shared with them, and Monte Carlo
+ * scenarios on their randomized paths. Coarser timeframes are resampled from the shared
+ * bars; a request for finer bars than were shared gets the shared bars as they are.
+ * Chains are the seeded synthetic 0-DTE chain at the last shared close.
+ */
+
+import { MarketData, OptionsChain } from './types';
+import { MarketDataProvider, BarTimeframe } from './market-data-provider';
+import { SharedBarArray } from './shared-bar-array';
+import { BarResampler } from './bar-resampler';
+import { SyntheticMarketSimulator } from './synthetic-market-simulator';
+
+const TIMEFRAME_ORDER: BarTimeframe[] = ['1Min', '5Min', '15Min', '1Hour', '1Day'];
+
+export class SharedBarsMarketDataProvider implements MarketDataProvider {
+  readonly name = 'shared-bars';
+  private readonly series: Map<string, SharedBarArray>;
+
+  constructor(
+    series: SharedBarArray[],
+    private readonly simulator: SyntheticMarketSimulator = SyntheticMarketSimulator.fromEnv()
+  ) {
+    this.series = new Map(series.map(bars => [bars.symbol, bars]));
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async getMarketData(
+    symbol: string,
+    startDate: Date,
+    endDate: Date,
+    timeframe: BarTimeframe = '1Day'
+  ): Promise<MarketData[]> {
+    const shared = this.seriesFor(symbol);
+    const bars = shared.between(startDate, endDate);
+    if (TIMEFRAME_ORDER.indexOf(timeframe) <= TIMEFRAME_ORDER.indexOf(shared.timeframe)) {
+      return bars;
+    }
+    return BarResampler.resample(bars, timeframe);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number> {
+    const shared = this.seriesFor(symbol);
+    if (shared.length === 0) {
+      throw new Error(`No shared bars for ${symbol}`);
+    }
+    return shared.bar(shared.length - 1).close;
+  }
+
+  /**
+   * The instant passed as `expiration` is the quote time, as BacktestCore asks for it
+   */
+  async getOptionsChain(symbol: string, expiration?: Date): Promise<OptionsChain[]> {
+    const asOf = expiration || new Date();
+    const spot = this.seriesFor(symbol).closeAsOf(asOf) ?? await this.getCurrentPrice(symbol);
+    return this.simulator.getOptionsChain(symbol, { asOf, spot });
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private seriesFor(symbol: string): SharedBarArray {
+    const shared = this.series.get(symbol);
+    if (!shared) {
+      throw new Error(`No shared bars for ${symbol}`);
+    }
+    return shared;
+  }
+}
+
+export default SharedBarsMarketDataProvider;
@@ -0,0 +1,255 @@
+/**
+ * STRATEGY POSITIONS
+ * Opening, marking and closing the positions a TradingStrategy sees, in any mode
+ *
+ * Prices follow one convention throughout: a position opened for a net credit is
+ * quoted as the credit (and later the debit to close), anything else as the debit
+ * paid (and later the premium received). Expired legs settle at intrinsic value.
+ */
+
+import { BacktestTrade, OptionsChain } from './types';
+import { SymbolUniverse } from './symbol-universe';
+import { GreeksEngine } from './greeks-engine';
+import { VolatilitySurface } from './volatility-surface';
+import { ScenarioLeg } from './scenario-engine';
+import { PnLAttributionEngine, AttributionExit } from './pnl-attribution';
+import { CostLeg, CostEstimate } from './backtest-cost-models';
+import { OpenSignal, StrategyFill, StrategyPosition } from './trading-strategy';
+
+export interface FillOrder {
+  id: string;
+  action: 'OPEN' | 'CLOSE';
+  timestamp: Date;
+  legs: ScenarioLeg[];
+}
+
+export interface PositionExit {
+  tradeId: string;
+  bookId: string; // Backtest or session the trade belongs to
+  exitPrice: number;
+  exitMark?: number; // Defaults to the exit price (settlement)
+  exitFees: number;
+  reason: string;
+  timestamp: Date;
+  underlyingPrice: number;
+  attribution?: AttributionExit;
+}
+
+export class StrategyPositions {
+
+  static mid(quote: OptionsChain): number {
+    return (quote.bid + quote.ask) / 2;
+  }
+
+  static intrinsicValue(option: OptionsChain, underlyingPrice: number): number {
+    return option.side === 'CALL' ? Math.max(underlyingPrice - option.strike, 0) : Math.max(option.strike - underlyingPrice, 0);
+  }
+
+  // Per-share premium collected (positive) or paid (negative) for one unit at the given leg prices
+  static netPremium(legs: ScenarioLeg[], prices: number[]): number {
+    return legs.reduce((sum, leg, i) => sum + (leg.side === 'SHORT' ? 1 : -1) * leg.quantity * prices[i], 0);
+  }
+
+  // A credit position is quoted as premium collected, anything else as premium paid
+  static quotePrice(credit: boolean, legs: ScenarioLeg[], prices: number[]): number {
+    return (credit ? 1 : -1) * StrategyPositions.netPremium(legs, prices);
+  }
+
+  // Price to close at the touch: short legs bought back at the ask, long legs sold at the bid
+  static closePrice(credit: boolean, legs: ScenarioLeg[], quotes: OptionsChain[]): number {
+    return StrategyPositions.quotePrice(credit, legs, legs.map((leg, i) => (leg.side === 'SHORT' ? quotes[i].ask : quotes[i].bid)));
+  }
+
+  static pnl(position: StrategyPosition, exitPrice: number): number {
+    return (position.credit ? 1 : -1) * (position.entryPrice - exitPrice) * position.quantity * position.multiplier;
+  }
+
+  static scaleLegs(legs: ScenarioLeg[], quotes: OptionsChain[], quantity: number): ScenarioLeg[] {
+    return legs.map((leg, i) => ({ ...leg, option: quotes[i], quantity: leg.quantity * quantity }));
+  }
+
+  static isCredit(legs: ScenarioLeg[]): boolean {
+    return StrategyPositions.netPremium(legs, legs.map(leg => StrategyPositions.mid(leg.option))) > 0;
+  }
+
+  /**
+   * What a cost model fills to open `quantity` units, or to close a whole position
+   */
+  static openingLegs(legs: ScenarioLeg[], quantity: number): CostLeg[] {
+    return legs.map(leg => ({ side: leg.side === 'SHORT' ? 'SELL' as const : 'BUY' as const, quote: leg.option, quantity: leg.quantity * quantity }));
+  }
+
+  static closingLegs(position: StrategyPosition): CostLeg[] {
+    return position.legs.map((leg, i) => ({
+      side: leg.side === 'SHORT' ? 'BUY' as const : 'SELL' as const,
+      quote: position.legQuotes[i],
+      quantity: leg.quantity * position.quantity
+    }));
+  }
+
+  /**
+   * Current quote for a position leg. A leg the chain no longer lists (its strike drifted
+   * out of the quoted window) is priced off the surface fitted to the rest of the chain
+   */
+  static findLegQuote(
+    optionsChain: OptionsChain[],
+    leg: OptionsChain,
+    surface: () => VolatilitySurface,
+    currentPrice: number,
+    currentDate: Date
+  ): OptionsChain | undefined {
+    const quote = optionsChain.find(opt =>
+      opt.strike === leg.strike && opt.side === leg.side &&
+      Math.abs(opt.expiration.getTime() - leg.expiration.getTime()) < 24 * 60 * 60 * 1000
+    );
+    if (quote) {
+      return quote;
+    }
+
+    const fitted = surface();
+    if (fitted.smiles.length === 0) {
+      return undefined;
+    }
+    const value = Number(fitted.price(leg, currentPrice, currentDate).toFixed(2));
+    return { ...leg, bid: value, ask: value, impliedVolatility: fitted.impliedVolatility(leg.strike, leg.expiration, currentPrice) };
+  }
+
+  static buildFill(
+    order: FillOrder,
+    positionId: string,
+    credit: boolean,
+    quotes: OptionsChain[],
+    estimate: CostEstimate,
+    quantity: number
+  ): StrategyFill {
+    return {
+      orderId: order.id,
+      action: order.action,
+      positionId,
+      timestamp: order.timestamp,
+      quantity,
+      credit,
+      legPrices: estimate.prices,
+      price: StrategyPositions.quotePrice(credit, order.legs, estimate.prices),
+      mark: StrategyPositions.quotePrice(credit, order.legs, quotes.map(StrategyPositions.mid)),
+      fees: estimate.fees,
+      fills: estimate.fills
+    };
+  }
+
+  static open(underlying: string, signal: OpenSignal, fill: StrategyFill, underlyingPrice: number): StrategyPosition {
+    const legs = signal.legs.map((leg, i) => ({ ...leg, entryPrice: fill.legPrices[i] }));
+    const quotes = legs.map(leg => leg.option);
+    const greeks = GreeksEngine.calculatePortfolioGreeksAt(StrategyPositions.scaleLegs(legs, quotes, fill.quantity), underlyingPrice, fill.timestamp);
+    const shortLeg = legs.find(leg => leg.side === 'SHORT') || legs[0];
+
+    const position: StrategyPosition = {
+      id: fill.positionId,
+      underlying,
+      label: signal.label,
+      symbol: legs.map(leg => leg.option.symbol).join('/'),
+      strike: shortLeg.option.strike,
+      expiration: new Date(Math.min(...legs.map(leg => leg.option.expiration.getTime()))),
+      multiplier: SymbolUniverse.getSpec(underlying).contractMultiplier,
+      legs,
+      legQuotes: quotes,
+      quantity: fill.quantity,
+      credit: fill.credit,
+      entryDate: fill.timestamp,
+      entryPrice: fill.price,
+      entryMark: fill.mark,
+      entryFees: fill.fees,
+      currentMark: fill.mark,
+      currentClose: StrategyPositions.closePrice(fill.credit, legs, quotes),
+      unrealizedPnL: 0,
+      maxUnrealizedPnL: 0,
+      minUnrealizedPnL: 0,
+      entryGreeks: greeks,
+      currentGreeks: greeks,
+      greeksHistory: [greeks],
+      regime: signal.regime,
+      indicators: signal.indicators || {},
+      reason: signal.reason,
+      metadata: signal.metadata || {},
+      entryFills: fill.fills
+    };
+    StrategyPositions.updateUnrealized(position);
+    return position;
+  }
+
+  static mark(
+    position: StrategyPosition,
+    chain: OptionsChain[],
+    surface: () => VolatilitySurface,
+    underlyingPrice: number,
+    asOf: Date
+  ): void {
+    position.legQuotes = position.legs.map((leg, i) =>
+      StrategyPositions.findLegQuote(chain, leg.option, surface, underlyingPrice, asOf) || position.legQuotes[i]);
+    position.currentGreeks = GreeksEngine.calculatePortfolioGreeksAt(StrategyPositions.scaleLegs(position.legs, position.legQuotes, position.quantity), underlyingPrice, asOf);
+    position.greeksHistory.push(position.currentGreeks);
+    position.currentMark = StrategyPositions.quotePrice(position.credit, position.legs, position.legQuotes.map(StrategyPositions.mid));
+    position.currentClose = StrategyPositions.closePrice(position.credit, position.legs, position.legQuotes);
+    StrategyPositions.updateUnrealized(position);
+  }
+
+  /**
+   * Price of the whole position at settlement, each leg at its intrinsic value
+   */
+  static settlementPrice(position: StrategyPosition, underlyingPrice: number): number {
+    return StrategyPositions.quotePrice(position.credit, position.legs, position.legs.map(leg => StrategyPositions.intrinsicValue(leg.option, underlyingPrice)));
+  }
+
+  /**
+   * The closed trade, with its P&L attributed over the position's Greeks path
+   */
+  static closeTrade(position: StrategyPosition, exit: PositionExit): BacktestTrade {
+    const fees = position.entryFees + exit.exitFees;
+    const pnl = StrategyPositions.pnl(position, exit.exitPrice) - fees;
+    const costs = PnLAttributionEngine.fillCosts(
+      { price: position.entryPrice, mark: position.entryMark },
+      { price: exit.exitPrice, mark: exit.exitMark ?? exit.exitPrice },
+      position.quantity,
+      position.multiplier,
+      position.credit
+    ) - fees;
+    const basis = Math.abs(position.entryPrice * position.quantity * position.multiplier);
+
+    return {
+      id: exit.tradeId,
+      backtestId: exit.bookId,
+      symbol: position.symbol,
+      underlying: position.underlying,
+      side: position.label,
+      strike: position.strike,
+      expiration: position.expiration,
+      entryDate: position.entryDate,
+      exitDate: exit.timestamp,
+      entryPrice: position.entryPrice,
+      exitPrice: exit.exitPrice,
+      quantity: position.quantity,
+      pnl,
+      pnlPercent: basis > 0 ? pnl / basis * 100 : 0,
+      rsiValue: position.indicators.rsi,
+      macdValue: position.indicators.macd,
+      macdSignalValue: position.indicators.macdSignal,
+      bbUpper: position.indicators.bbUpper,
+      bbLower: position.indicators.bbLower,
+      spyPrice: exit.underlyingPrice,
+      exitReason: exit.reason as BacktestTrade['exitReason'],
+      regime: position.regime,
+      attribution: PnLAttributionEngine.attributeTrade(position.greeksHistory, position.multiplier, pnl, costs, exit.attribution),
+      createdAt: exit.timestamp
+    };
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private static updateUnrealized(position: StrategyPosition): void {
+    position.unrealizedPnL = StrategyPositions.pnl(position, position.currentMark) - position.entryFees;
+    position.maxUnrealizedPnL = Math.max(position.maxUnrealizedPnL, position.unrealizedPnL);
+    position.minUnrealizedPnL = Math.min(position.minUnrealizedPnL, position.unrealizedPnL);
+  }
+}
+
+export default StrategyPositions;
@@ -0,0 +1,222 @@
+/**
+ * SYMBOL UNIVERSE
+ * Tradable underlyings and their option contract specs (strike grid, multiplier, settlement)
+ *
+ * Engines take a universe instead of hard-coding SPY. Greeks from different
+ * underlyings are only comparable in dollars, so portfolio exposure is
+ * aggregated as dollar delta/gamma/theta/vega per underlying and in total.
+ */
+
+import { OptionContractId } from './option-contract-id';
+import { CashDividend, PricingModel } from './option-pricing-models';
+
+export type SettlementStyle = 'PHYSICAL' | 'CASH';
+export type ExerciseStyle = 'AMERICAN' | 'EUROPEAN';
+
+export interface UnderlyingSpec {
+  symbol: string;
+  assetType: 'ETF' | 'INDEX';
+  optionRoot: string; // OCC root for the daily/weekly series (SPXW for SPX 0-DTE)
+  strikeIncrement: number; // Near-the-money strike spacing
+  contractMultiplier: number;
+  settlement: SettlementStyle;
+  exerciseStyle: ExerciseStyle;
+  referencePrice: number; // Starting price for synthetic data
+  dividendYield?: number; // Continuous yield, used when no cash dividends are listed
+  cashDividends?: CashDividend[]; // Announced ex-dates; replace the yield when present
+  pricingModel?: PricingModel; // Defaults to Bjerksund-Stensland for American, Black-Scholes-Merton for European
+  beta?: number; // To SPY, for beta-weighted portfolio Greeks (defaults to 1)
+}
+
+/**
+ * One open position's Greeks, already summed over its contracts (per share, before the multiplier)
+ */
+export interface ExposureInput {
+  underlying: string;
+  contracts: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  premium: number; // Per-share entry price, for notional
+}
+
+export interface UnderlyingExposure {
+  underlying: string;
+  positions: number;
+  contracts: number;
+  dollarDelta: number; // $ P&L per 1% move in the underlying
+  dollarGamma: number; // Change in dollar delta per 1% move
+  dollarTheta: number; // $ per day
+  dollarVega: number; // $ per vol point
+  notional: number; // Premium at risk
+}
+
+export interface PortfolioExposure {
+  byUnderlying: Record<string, UnderlyingExposure>;
+  total: Omit<UnderlyingExposure, 'underlying'>;
+  largestUnderlyingShare: number; // Share of total |dollar delta| in the biggest underlying (0-1)
+}
+
+export class UnknownUnderlyingError extends Error {
+  constructor(public readonly symbol: string) {
+    super(`Unknown underlying ${symbol}; register its contract spec with SymbolUniverse.register()`);
+    this.name = 'UnknownUnderlyingError';
+  }
+}
+
+export class SymbolUniverse {
+  readonly symbols: string[];
+
+  private static specs: Map<string, UnderlyingSpec> = new Map([
+    ['SPY', { symbol: 'SPY', assetType: 'ETF', optionRoot: 'SPY', strikeIncrement: 1, contractMultiplier: 100, settlement: 'PHYSICAL', exerciseStyle: 'AMERICAN', referencePrice: 450, dividendYield: 0.013, beta: 1 }],
+    ['QQQ', { symbol: 'QQQ', assetType: 'ETF', optionRoot: 'QQQ', strikeIncrement: 1, contractMultiplier: 100, settlement: 'PHYSICAL', exerciseStyle: 'AMERICAN', referencePrice: 380, dividendYield: 0.006, beta: 1.15 }],
+    ['IWM', { symbol: 'IWM', assetType: 'ETF', optionRoot: 'IWM', strikeIncrement: 1, contractMultiplier: 100, settlement: 'PHYSICAL', exerciseStyle: 'AMERICAN', referencePrice: 200, dividendYield: 0.012, beta: 1.2 }],
+    ['SPX', { symbol: 'SPX', assetType: 'INDEX', optionRoot: 'SPXW', strikeIncrement: 5, contractMultiplier: 100, settlement: 'CASH', exerciseStyle: 'EUROPEAN', referencePrice: 4500, dividendYield: 0.013, beta: 1 }],
+    ['XSP', { symbol: 'XSP', assetType: 'INDEX', optionRoot: 'XSP', strikeIncrement: 1, contractMultiplier: 100, settlement: 'CASH', exerciseStyle: 'EUROPEAN', referencePrice: 450, dividendYield: 0.013, beta: 1 }]
+  ] as Array<[string, UnderlyingSpec]>);
+
+  private static underlyingCache: Map<string, string> = new Map(); // Option symbol → underlying, reset on register()
+
+  constructor(symbols: string[] = ['SPY']) {
+    const normalized = symbols.map(symbol => symbol.trim().toUpperCase()).filter(symbol => symbol.length > 0);
+    if (normalized.length === 0) {
+      throw new Error('Symbol universe needs at least one underlying');
+    }
+    normalized.forEach(symbol => SymbolUniverse.getSpec(symbol));
+    this.symbols = Array.from(new Set(normalized));
+  }
+
+  /**
+   * Universe from a comma-separated environment variable (TRADING_SYMBOLS=SPY,QQQ,SPX)
+   */
+  static fromEnv(variable: string = 'TRADING_SYMBOLS', fallback: string = 'SPY'): SymbolUniverse {
+    return new SymbolUniverse((process.env[variable] || fallback).split(','));
+  }
+
+  static getSpec(symbol: string): UnderlyingSpec {
+    const spec = this.specs.get(symbol.toUpperCase());
+    if (!spec) {
+      throw new UnknownUnderlyingError(symbol);
+    }
+    return spec;
+  }
+
+  static isKnown(symbol: string): boolean {
+    return this.specs.has(symbol.toUpperCase());
+  }
+
+  /**
+   * Add or override an underlying's contract spec
+   */
+  static register(spec: UnderlyingSpec): void {
+    this.specs.set(spec.symbol.toUpperCase(), { ...spec, symbol: spec.symbol.toUpperCase() });
+    this.underlyingCache.clear();
+  }
+
+  /**
+   * Model an underlying's options are priced with
+   */
+  static pricingModelFor(symbol: string): PricingModel {
+    const spec = this.getSpec(symbol);
+    return spec.pricingModel || (spec.exerciseStyle === 'AMERICAN' ? 'BJERKSUND_STENSLAND' : 'BLACK_SCHOLES_MERTON');
+  }
+
+  /**
+   * Nearest listed strike to a price
+   */
+  static roundToStrike(symbol: string, price: number): number {
+    const increment = this.getSpec(symbol).strikeIncrement;
+    return Number((Math.round(price / increment) * increment).toFixed(2));
+  }
+
+  /**
+   * Underlying an option or spread symbol belongs to, matched on its option root
+   * (SPXW240315P05000000 → SPX); falls back to the symbol itself
+   */
+  static underlyingOf(symbol: string): string {
+    const cached = this.underlyingCache.get(symbol);
+    if (cached) {
+      return cached;
+    }
+    const underlying = this.resolveUnderlying(symbol.toUpperCase());
+    this.underlyingCache.set(symbol, underlying);
+    return underlying;
+  }
+
+  private static resolveUnderlying(upper: string): string {
+    const contract = OptionContractId.tryParse(upper);
+    if (contract) {
+      const spec = Array.from(this.specs.values()).find(candidate => candidate.optionRoot === contract.root || candidate.symbol === contract.root);
+      return spec ? spec.symbol : contract.root;
+    }
+
+    // Spread labels and other composites: longest known root prefix
+    const roots = Array.from(this.specs.values())
+      .flatMap(spec => [[spec.optionRoot, spec.symbol], [spec.symbol, spec.symbol]])
+      .sort((a, b) => b[0].length - a[0].length);
+    const match = roots.find(([root]) => upper.startsWith(root));
+    return match ? match[1] : upper;
+  }
+
+  specs(): UnderlyingSpec[] {
+    return this.symbols.map(symbol => SymbolUniverse.getSpec(symbol));
+  }
+
+  has(symbol: string): boolean {
+    return this.symbols.includes(symbol.toUpperCase());
+  }
+
+  /**
+   * Dollar Greeks per underlying and in total, using each underlying's multiplier and latest price
+   */
+  static aggregateExposure(inputs: ExposureInput[], prices: Record<string, number>): PortfolioExposure {
+    const byUnderlying: Record<string, UnderlyingExposure> = {};
+
+    for (const input of inputs) {
+      const underlying = input.underlying.toUpperCase();
+      const multiplier = this.isKnown(underlying) ? this.getSpec(underlying).contractMultiplier : 100;
+      const price = prices[underlying] || 0;
+      const exposure = byUnderlying[underlying] || (byUnderlying[underlying] = {
+        underlying,
+        positions: 0,
+        contracts: 0,
+        dollarDelta: 0,
+        dollarGamma: 0,
+        dollarTheta: 0,
+        dollarVega: 0,
+        notional: 0
+      });
+
+      exposure.positions++;
+      exposure.contracts += input.contracts;
+      exposure.dollarDelta += input.delta * multiplier * price * 0.01;
+      exposure.dollarGamma += input.gamma * multiplier * price * price * 0.0001;
+      exposure.dollarTheta += input.theta * multiplier;
+      exposure.dollarVega += input.vega * multiplier;
+      exposure.notional += Math.abs(input.premium * input.contracts * multiplier);
+    }
+
+    const exposures = Object.values(byUnderlying);
+    const total = {
+      positions: exposures.reduce((sum, exposure) => sum + exposure.positions, 0),
+      contracts: exposures.reduce((sum, exposure) => sum + exposure.contracts, 0),
+      dollarDelta: exposures.reduce((sum, exposure) => sum + exposure.dollarDelta, 0),
+      dollarGamma: exposures.reduce((sum, exposure) => sum + exposure.dollarGamma, 0),
+      dollarTheta: exposures.reduce((sum, exposure) => sum + exposure.dollarTheta, 0),
+      dollarVega: exposures.reduce((sum, exposure) => sum + exposure.dollarVega, 0),
+      notional: exposures.reduce((sum, exposure) => sum + exposure.notional, 0)
+    };
+
+    const grossDelta = exposures.reduce((sum, exposure) => sum + Math.abs(exposure.dollarDelta), 0);
+    const largestDelta = exposures.reduce((max, exposure) => Math.max(max, Math.abs(exposure.dollarDelta)), 0);
+
+    return {
+      byUnderlying,
+      total,
+      largestUnderlyingShare: grossDelta > 0 ? largestDelta / grossDelta : 0
+    };
+  }
+}
+
+export default SymbolUniverse;
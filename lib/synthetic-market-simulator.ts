@@ -0,0 +1,408 @@
+/**
+ * SYNTHETIC MARKET SIMULATOR
+ * One seeded source for simulated bars, option chains, IV, quotes and volume/OI
+ *
+ * Every number is a pure function of (seed, scenario, symbol, time): the same
+ * seed always replays the same market, whatever order it is queried in. Daily
+ * closes follow a mean-reverting walk around each underlying's reference price
+ * driven partly by a shared market factor, and each session's minute path is a
+ * Brownian bridge between consecutive closes, so 1Min, 15Min and 1Day bars and
+ * the spot used to price chains all agree with each other.
+ */
+
+import { MarketData, OptionsChain } from './types';
+import { BarTimeframe } from './market-data-provider';
+import { GreeksEngine } from './greeks-engine';
+import { MarketCalendar, TradingSession } from './market-calendar';
+import { SymbolUniverse } from './symbol-universe';
+import { OptionContractId } from './option-contract-id';
+
+export type SyntheticScenarioName = 'calm' | 'baseline' | 'volatile' | 'selloff';
+
+export interface SyntheticScenario {
+  annualVolatility: number; // Realized volatility of the underlying path
+  meanReversionDays: number; // Half-life, in sessions, of the pull back to the reference price
+  marketCorrelation: number; // Weight of the shared market factor in each underlying's shocks (0-1)
+  jumpProbability: number; // Chance per session of a market-wide gap
+  jumpSize: number; // Mean log size of a gap (negative = down)
+  impliedVolatility: number; // 30-day ATM implied volatility
+  skew: number; // IV change per unit of log-moneyness (negative: puts richer)
+  smile: number; // IV convexity in log-moneyness
+  termSlope: number; // ATM IV change per year of expiry (negative = backwardation)
+  spreadPercent: number; // Half-spread as a fraction of theoretical value, before OTM widening
+  minimumSpread: number; // Tightest bid/ask width in dollars
+}
+
+export interface SyntheticMarketConfig {
+  seed: number;
+  scenario: SyntheticScenarioName | Partial<SyntheticScenario>; // Preset name or overrides on the baseline preset
+  basePrice?: number; // Reference price for every symbol (defaults to each symbol's spec)
+  strikeIncrement?: number; // Defaults to the symbol's listed strike spacing
+  strikesPerSide: number;
+  minuteVolume: number; // Average shares per regular-session minute
+  contractVolume: number; // Daily volume of an ATM contract
+  anchorDate: string; // YYYY-MM-DD the price walk starts from
+}
+
+export interface ChainRequest {
+  asOf?: Date; // Quote time (defaults to now)
+  spot?: number; // Underlying price (defaults to the simulated path at asOf)
+  expirations?: Array<Date | string>; // Expiration days (defaults to asOf's session: 0-DTE)
+  strikesPerSide?: number;
+}
+
+interface SessionPath {
+  prices: number[]; // Minute-boundary prices, one more than the session's minutes
+  highs: number[];
+  lows: number[];
+  volumes: number[];
+}
+
+const TIMEFRAME_MINUTES: Record<Exclude<BarTimeframe, '1Day'>, number> = {
+  '1Min': 1,
+  '5Min': 5,
+  '15Min': 15,
+  '1Hour': 60
+};
+
+export class SyntheticMarketSimulator {
+  static readonly SCENARIOS: Record<SyntheticScenarioName, SyntheticScenario> = {
+    calm: {
+      annualVolatility: 0.10, meanReversionDays: 60, marketCorrelation: 0.9, jumpProbability: 0, jumpSize: 0,
+      impliedVolatility: 0.12, skew: -0.4, smile: 1.5, termSlope: 0.02, spreadPercent: 0.02, minimumSpread: 0.02
+    },
+    baseline: {
+      annualVolatility: 0.16, meanReversionDays: 60, marketCorrelation: 0.9, jumpProbability: 0.01, jumpSize: -0.015,
+      impliedVolatility: 0.18, skew: -0.6, smile: 2, termSlope: 0.02, spreadPercent: 0.03, minimumSpread: 0.02
+    },
+    volatile: {
+      annualVolatility: 0.28, meanReversionDays: 40, marketCorrelation: 0.9, jumpProbability: 0.03, jumpSize: -0.02,
+      impliedVolatility: 0.30, skew: -0.8, smile: 3, termSlope: 0, spreadPercent: 0.05, minimumSpread: 0.03
+    },
+    selloff: {
+      annualVolatility: 0.40, meanReversionDays: 120, marketCorrelation: 0.95, jumpProbability: 0.08, jumpSize: -0.03,
+      impliedVolatility: 0.45, skew: -1.2, smile: 4, termSlope: -0.3, spreadPercent: 0.08, minimumSpread: 0.05
+    }
+  };
+
+  readonly config: SyntheticMarketConfig;
+  readonly scenario: SyntheticScenario;
+
+  private dailyPaths: Map<string, { lastDay: string; deviation: number; closes: Map<string, number> }> = new Map();
+
+  private static readonly DEFAULT_CONFIG: SyntheticMarketConfig = {
+    seed: 42,
+    scenario: 'baseline',
+    strikesPerSide: 20,
+    minuteVolume: 150000,
+    contractVolume: 2000,
+    anchorDate: '2020-01-02'
+  };
+
+  private static readonly MINUTE_MS = 60 * 1000;
+  private static readonly YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+  constructor(config: Partial<SyntheticMarketConfig> = {}) {
+    this.config = { ...SyntheticMarketSimulator.DEFAULT_CONFIG, ...config };
+    this.scenario = typeof this.config.scenario === 'string'
+      ? SyntheticMarketSimulator.SCENARIOS[this.config.scenario]
+      : { ...SyntheticMarketSimulator.SCENARIOS.baseline, ...this.config.scenario };
+    if (!this.scenario) {
+      throw new Error(`Unknown synthetic scenario ${this.config.scenario}; use one of ${Object.keys(SyntheticMarketSimulator.SCENARIOS).join(', ')}`);
+    }
+  }
+
+  /**
+   * Simulator from SYNTHETIC_SEED and SYNTHETIC_SCENARIO
+   */
+  static fromEnv(overrides: Partial<SyntheticMarketConfig> = {}): SyntheticMarketSimulator {
+    const seed = process.env.SYNTHETIC_SEED ? Number(process.env.SYNTHETIC_SEED) : undefined;
+    return new SyntheticMarketSimulator({
+      ...(seed !== undefined && Number.isFinite(seed) ? { seed } : {}),
+      ...(process.env.SYNTHETIC_SCENARIO ? { scenario: process.env.SYNTHETIC_SCENARIO as SyntheticScenarioName } : {}),
+      ...overrides
+    });
+  }
+
+  /**
+   * Regular-session bars stamped at their open, buckets anchored to 9:30 ET (daily bars at New York midnight)
+   */
+  getBars(symbol: string, startDate: Date, endDate: Date, timeframe: BarTimeframe = '1Day'): MarketData[] {
+    const bars: MarketData[] = [];
+
+    for (const session of MarketCalendar.getTradingSessions(startDate, endDate)) {
+      const path = this.getSessionPath(symbol, session);
+      const minutes = path.volumes.length;
+
+      if (timeframe === '1Day') {
+        bars.push(this.createBar(symbol, MarketCalendar.fromEastern(session.day, 0), path, 0, minutes));
+        continue;
+      }
+
+      const size = TIMEFRAME_MINUTES[timeframe];
+      for (let start = 0; start < minutes; start += size) {
+        const time = session.open.getTime() + start * SyntheticMarketSimulator.MINUTE_MS;
+        if (time < startDate.getTime() || time > endDate.getTime()) {
+          continue;
+        }
+        bars.push(this.createBar(symbol, new Date(time), path, start, Math.min(minutes, start + size)));
+      }
+    }
+
+    return bars;
+  }
+
+  /**
+   * Underlying price at an instant: the minute path in session, the last close outside it
+   */
+  getPrice(symbol: string, time: Date): number {
+    const session = MarketCalendar.getSession(time);
+    if (!session) {
+      return this.getClose(symbol, MarketCalendar.previousTradingDay(time).day);
+    }
+    if (time < session.open) {
+      return this.getClose(symbol, MarketCalendar.previousTradingDay(session.day).day);
+    }
+    if (time >= session.close) {
+      return this.getClose(symbol, session.day);
+    }
+
+    const path = this.getSessionPath(symbol, session);
+    return path.prices[Math.floor((time.getTime() - session.open.getTime()) / SyntheticMarketSimulator.MINUTE_MS)];
+  }
+
+  /**
+   * Scenario volatility surface: ATM term structure plus skew and smile in log-moneyness
+   */
+  impliedVolatility(spot: number, strike: number, timeToExpiration: number): number {
+    const atm = Math.max(0.05, this.scenario.impliedVolatility + this.scenario.termSlope * (timeToExpiration - 30 / 365));
+    const logMoneyness = Math.log(strike / spot);
+    return Math.max(0.05, atm + this.scenario.skew * logMoneyness + this.scenario.smile * logMoneyness * logMoneyness);
+  }
+
+  /**
+   * Black-Scholes priced chain on the scenario surface, with moneyness-dependent spreads and volume/OI
+   */
+  getOptionsChain(symbol: string, request: ChainRequest = {}): OptionsChain[] {
+    const asOf = request.asOf || new Date();
+    const spot = request.spot ?? this.getPrice(symbol, asOf);
+    const strikeIncrement = this.getStrikeIncrement(symbol);
+    const strikesPerSide = request.strikesPerSide ?? this.config.strikesPerSide;
+    const root = SymbolUniverse.isKnown(symbol) ? SymbolUniverse.getSpec(symbol).optionRoot : symbol.toUpperCase();
+    const atmStrike = Math.round(spot / strikeIncrement) * strikeIncrement;
+    const chain: OptionsChain[] = [];
+
+    for (const expiration of request.expirations || [asOf]) {
+      const expirationDay = typeof expiration === 'string' ? expiration : MarketCalendar.toEastern(expiration).day;
+      const exp = MarketCalendar.getSession(expirationDay)?.close
+        || MarketCalendar.fromEastern(expirationDay, MarketCalendar.REGULAR_CLOSE_MINUTES);
+      const timeToExpiration = Math.max(1 / (365 * 24), (exp.getTime() - asOf.getTime()) / SyntheticMarketSimulator.YEAR_MS);
+
+      for (let i = -strikesPerSide; i <= strikesPerSide; i++) {
+        const strike = Number((atmStrike + i * strikeIncrement).toFixed(3));
+        if (strike <= 0) {
+          continue;
+        }
+
+        for (const side of ['CALL', 'PUT'] as const) {
+          chain.push(this.createContract(root, symbol, expirationDay, exp, side, strike, spot, timeToExpiration));
+        }
+      }
+    }
+
+    return chain;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private createContract(
+    root: string,
+    symbol: string,
+    expirationDay: string,
+    expiration: Date,
+    side: 'CALL' | 'PUT',
+    strike: number,
+    spot: number,
+    timeToExpiration: number
+  ): OptionsChain {
+    const impliedVolatility = this.impliedVolatility(spot, strike, timeToExpiration);
+    const option: OptionsChain = {
+      symbol: OptionContractId.build(root, expirationDay, side, strike),
+      expiration,
+      strike,
+      side,
+      bid: 0,
+      ask: 0,
+      impliedVolatility,
+      synthetic: true
+    };
+
+    const theoretical = GreeksEngine.calculateTheoreticalPrice(option, spot, timeToExpiration);
+    const logMoneyness = Math.abs(Math.log(strike / spot));
+    const shortDated = timeToExpiration < 1 / 365 ? 1.5 : 1;
+    const halfSpread = Math.max(this.scenario.minimumSpread / 2, theoretical * this.scenario.spreadPercent * (1 + 10 * logMoneyness) * shortDated);
+    const bid = Math.max(0.01, Number((theoretical - halfSpread).toFixed(2)));
+
+    // Activity concentrates within about one expected move of the money
+    const expectedMove = impliedVolatility * Math.sqrt(Math.max(timeToExpiration, 1 / 365));
+    const random = this.random(symbol, expirationDay, side, strike);
+    const volume = Math.floor(this.config.contractVolume * Math.exp(-0.5 * Math.pow(logMoneyness / expectedMove, 2)) * (0.5 + random()));
+    const openInterest = Math.floor(volume * (2 + 3 * random()) * (side === 'PUT' ? 1.2 : 1));
+
+    option.bid = bid;
+    option.ask = Math.max(bid + 0.01, Number((theoretical + halfSpread).toFixed(2)));
+    option.last = Number(theoretical.toFixed(2));
+    option.delta = GreeksEngine.calculateGreeks(option, spot, timeToExpiration, impliedVolatility).delta;
+    option.volume = volume;
+    option.openInterest = openInterest;
+    return option;
+  }
+
+  private createBar(symbol: string, date: Date, path: SessionPath, start: number, end: number): MarketData {
+    let high = -Infinity;
+    let low = Infinity;
+    let volume = 0;
+    let weightedPrice = 0;
+
+    for (let minute = start; minute < end; minute++) {
+      high = Math.max(high, path.highs[minute]);
+      low = Math.min(low, path.lows[minute]);
+      volume += path.volumes[minute];
+      weightedPrice += path.volumes[minute] * (path.highs[minute] + path.lows[minute] + path.prices[minute + 1]) / 3;
+    }
+
+    return {
+      id: `synthetic_${symbol}_${date.getTime()}`,
+      symbol,
+      date,
+      open: path.prices[start],
+      high,
+      low,
+      close: path.prices[end],
+      volume: BigInt(volume),
+      vwap: volume > 0 ? weightedPrice / volume : path.prices[end],
+      synthetic: true,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Minute path from the previous close to this session's close
+   */
+  private getSessionPath(symbol: string, session: TradingSession): SessionPath {
+    const minutes = Math.round((session.close.getTime() - session.open.getTime()) / SyntheticMarketSimulator.MINUTE_MS);
+    const startPrice = this.getClose(symbol, MarketCalendar.previousTradingDay(session.day).day);
+    const endPrice = this.getClose(symbol, session.day);
+    const minuteVolatility = this.scenario.annualVolatility / Math.sqrt(252 * 390);
+    const correlation = this.scenario.marketCorrelation;
+    const market = this.random('MARKET', session.day, 'intraday');
+    const own = this.random(symbol, session.day, 'intraday');
+
+    // Correlated random walk, then pinned to both closes (Brownian bridge)
+    const walk = [0];
+    for (let minute = 1; minute <= minutes; minute++) {
+      const shock = correlation * this.gaussian(market) + Math.sqrt(1 - correlation * correlation) * this.gaussian(own);
+      walk.push(walk[minute - 1] + minuteVolatility * shock);
+    }
+    const logStart = Math.log(startPrice);
+    const logEnd = Math.log(endPrice);
+    const prices = walk.map((value, minute) => {
+      const fraction = minute / minutes;
+      return Math.exp(logStart + fraction * (logEnd - logStart) + value - fraction * walk[minutes]);
+    });
+    prices[0] = startPrice;
+    prices[minutes] = endPrice;
+
+    const highs: number[] = [];
+    const lows: number[] = [];
+    const volumes: number[] = [];
+    for (let minute = 0; minute < minutes; minute++) {
+      const open = prices[minute];
+      const close = prices[minute + 1];
+      highs.push(Math.max(open, close) * (1 + Math.abs(this.gaussian(own)) * minuteVolatility * 0.5));
+      lows.push(Math.min(open, close) * (1 - Math.abs(this.gaussian(own)) * minuteVolatility * 0.5));
+
+      // U-shaped intraday volume: heavy at the open and into the close
+      const profile = 0.6 + 1.5 * Math.exp(-minute / 30) + Math.exp(-(minutes - minute) / 30);
+      volumes.push(Math.floor(this.config.minuteVolume * profile * Math.exp(0.3 * this.gaussian(own))));
+    }
+
+    return { prices, highs, lows, volumes };
+  }
+
+  /**
+   * Session close from the mean-reverting daily walk (the reference price before the anchor)
+   */
+  private getClose(symbol: string, day: string): number {
+    const basePrice = this.getBasePrice(symbol);
+    if (day < this.config.anchorDate) {
+      return basePrice;
+    }
+
+    let path = this.dailyPaths.get(symbol);
+    if (!path) {
+      path = { lastDay: MarketCalendar.previousTradingDay(this.config.anchorDate).day, deviation: 0, closes: new Map() };
+      this.dailyPaths.set(symbol, path);
+    }
+
+    const dailyVolatility = this.scenario.annualVolatility / Math.sqrt(252);
+    const reversion = Math.LN2 / this.scenario.meanReversionDays;
+    const correlation = this.scenario.marketCorrelation;
+    while (path.lastDay < day) {
+      const next = MarketCalendar.nextTradingDay(path.lastDay).day;
+      if (next > day) {
+        break;
+      }
+
+      const market = this.random('MARKET', next);
+      const own = this.random(symbol, next);
+      const shock = correlation * this.gaussian(market) + Math.sqrt(1 - correlation * correlation) * this.gaussian(own);
+      const jump = market() < this.scenario.jumpProbability ? this.scenario.jumpSize * (1 + 0.5 * this.gaussian(market)) : 0;
+
+      path.deviation = path.deviation * (1 - reversion) + dailyVolatility * shock + jump;
+      path.closes.set(next, basePrice * Math.exp(path.deviation));
+      path.lastDay = next;
+    }
+
+    const close = path.closes.get(day);
+    if (close !== undefined) {
+      return close;
+    }
+    const previous = MarketCalendar.previousTradingDay(day).day;
+    return previous < this.config.anchorDate ? basePrice : path.closes.get(previous)!;
+  }
+
+  private getBasePrice(symbol: string): number {
+    return this.config.basePrice ?? (SymbolUniverse.isKnown(symbol) ? SymbolUniverse.getSpec(symbol).referencePrice : 450);
+  }
+
+  private getStrikeIncrement(symbol: string): number {
+    return this.config.strikeIncrement ?? (SymbolUniverse.isKnown(symbol) ? SymbolUniverse.getSpec(symbol).strikeIncrement : 1);
+  }
+
+  /**
+   * Deterministic uniform stream for one (seed, key) pair: FNV-1a hash into mulberry32
+   */
+  private random(...keys: Array<string | number>): () => number {
+    let state = 2166136261 ^ this.config.seed;
+    for (const char of keys.join('|')) {
+      state = Math.imul(state ^ char.charCodeAt(0), 16777619);
+    }
+
+    return () => {
+      state = (state + 0x6D2B79F5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private gaussian(random: () => number): number {
+    // Box-Muller transform
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+export default SyntheticMarketSimulator;
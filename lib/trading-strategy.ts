@@ -0,0 +1,273 @@
+/**
+ * TRADING STRATEGY PLUGIN API
+ * One strategy module, run unchanged by the backtest core, the paper engine and the dashboard
+ *
+ * A strategy declares its parameters and the warm-up history it needs, then answers
+ * lifecycle hooks: onSessionStart, onBar, onQuote (the only one that returns OPEN and
+ * CLOSE signals), onFill, onPositionUpdate and onSessionEnd. Engines never call the
+ * hooks directly; they feed bars, quotes and fills to a StrategyHost, which resolves
+ * the parameter values, tracks New York sessions and gates everything on warm-up.
+ * Execution (fills, marks, settlement) stays with whichever engine hosts the strategy.
+ */
+
+import { BacktestTrade, MarketData, OptionsChain, TechnicalIndicators } from './types';
+import { UnderlyingSpec } from './symbol-universe';
+import { GreeksSnapshot } from './greeks-engine';
+import { ScenarioLeg } from './scenario-engine';
+import { FillSimulation } from './transaction-cost-engine';
+import { MarketCalendar } from './market-calendar';
+
+export type StrategyMode = 'BACKTEST' | 'PAPER' | 'DASHBOARD';
+
+export type StrategyParameterValue = number | boolean | string;
+
+export type StrategyParameterValues = Record<string, StrategyParameterValue>;
+
+export interface StrategyParameter {
+  name: string;
+  type: 'number' | 'integer' | 'boolean' | 'choice';
+  default: StrategyParameterValue;
+  min?: number;
+  max?: number;
+  step?: number; // Natural increment for sweeps
+  choices?: string[]; // Allowed values of a choice parameter
+  description: string;
+}
+
+export interface OpenSignal {
+  action: 'OPEN';
+  underlying?: string; // Defaults to the underlying being quoted
+  label: BacktestTrade['side'];
+  legs: ScenarioLeg[]; // One unit of the position; leg quantities are per unit
+  quantity: number; // Units
+  reason: string;
+  regime?: BacktestTrade['regime'];
+  indicators?: Partial<TechnicalIndicators>; // At entry, copied onto the trade
+  metadata?: Record<string, any>; // Carried on the position for the strategy's own use
+}
+
+export interface CloseSignal {
+  action: 'CLOSE';
+  positionId: string;
+  reason: string;
+}
+
+export type TradingSignal = OpenSignal | CloseSignal;
+
+export interface StrategyFill {
+  orderId: string;
+  action: 'OPEN' | 'CLOSE';
+  positionId: string;
+  timestamp: Date;
+  quantity: number;
+  credit: boolean; // Whether the position is quoted as a credit
+  legPrices: number[]; // Executed per-share price of each leg
+  price: number; // Per-share quoted price of one unit
+  mark: number; // Same, at the legs' mids
+  fees: number;
+  fills: FillSimulation[];
+}
+
+export interface StrategyPosition {
+  id: string;
+  underlying: string;
+  label: BacktestTrade['side'];
+  symbol: string;
+  strike: number; // First short leg's strike (the only leg's, for single options)
+  expiration: Date; // Earliest leg expiration
+  multiplier: number;
+  legs: ScenarioLeg[]; // Per unit, with executed entry prices
+  legQuotes: OptionsChain[]; // Latest quote for each leg
+  quantity: number;
+  credit: boolean;
+  entryDate: Date;
+  entryPrice: number; // Per-share quoted price
+  entryMark: number;
+  entryFees: number;
+  currentMark: number; // Per-share quoted price at the legs' mids
+  currentClose: number; // Per-share price to close at the touch (asks for shorts, bids for longs)
+  unrealizedPnL: number; // At the mark, after entry fees
+  maxUnrealizedPnL: number;
+  minUnrealizedPnL: number;
+  entryGreeks: GreeksSnapshot; // Whole position
+  currentGreeks: GreeksSnapshot;
+  greeksHistory: GreeksSnapshot[];
+  regime?: BacktestTrade['regime'];
+  indicators: Partial<TechnicalIndicators>;
+  reason: string;
+  metadata: Record<string, any>;
+  entryFills: FillSimulation[];
+}
+
+export interface BarContext {
+  mode: StrategyMode;
+  params: StrategyParameterValues; // Declared parameters, resolved against the host's overrides
+  timestamp: Date;
+  underlying: string;
+  spec: UnderlyingSpec;
+  bar: MarketData;
+  history: MarketData[]; // This underlying's bars up to and including the current one
+  positions: StrategyPosition[]; // Open on this underlying
+  allPositions: StrategyPosition[];
+  balance: number; // Initial capital plus realized P&L
+  equity: number; // Balance plus open positions at their marks
+  sessionRealizedPnL: number;
+  prices: Record<string, number>; // Latest price of every underlying
+}
+
+export interface StrategyContext extends BarContext {
+  chain: OptionsChain[]; // Positions are already marked on it
+}
+
+export interface SessionContext {
+  mode: StrategyMode;
+  params: StrategyParameterValues;
+  day: string; // YYYY-MM-DD in New York
+  timestamp: Date;
+  balance: number;
+}
+
+export interface TradingStrategy {
+  readonly name: string;
+  readonly warmupBars: number; // Bars each underlying needs before the first one the strategy sees
+  readonly parameters: StrategyParameter[];
+  onSessionStart?(session: SessionContext): void | Promise<void>;
+  onBar?(context: BarContext): void | Promise<void>;
+  onQuote(context: StrategyContext): TradingSignal[] | Promise<TradingSignal[]>;
+  onFill?(fill: StrategyFill, position: StrategyPosition): void;
+  onPositionUpdate?(position: StrategyPosition, context: StrategyContext): void;
+  onPositionClosed?(position: StrategyPosition, trade: BacktestTrade): void;
+  onSessionEnd?(session: SessionContext): void | Promise<void>;
+}
+
+// What an engine knows about a bar or quote; the host adds the mode and parameter values
+export type HostedBarContext = Omit<BarContext, 'mode' | 'params'>;
+export type HostedStrategyContext = Omit<StrategyContext, 'mode' | 'params'>;
+
+/**
+ * Drives one strategy's hooks for an engine. Sessions open on the first warm bar of a
+ * New York day and end when the engine says the session closed, or when a bar from the
+ * next day arrives first
+ */
+export class StrategyHost {
+  readonly params: StrategyParameterValues;
+  private sessionDay: string | null = null;
+
+  constructor(
+    readonly strategy: TradingStrategy,
+    readonly mode: StrategyMode,
+    overrides: StrategyParameterValues = {}
+  ) {
+    this.params = StrategyHost.resolveParameters(strategy, overrides);
+  }
+
+  /**
+   * Declared defaults with the overrides applied. Unknown names, wrong types and values
+   * outside a parameter's range are errors rather than silently ignored
+   */
+  static resolveParameters(strategy: TradingStrategy, overrides: StrategyParameterValues = {}): StrategyParameterValues {
+    const declared = new Map(strategy.parameters.map(parameter => [parameter.name, parameter]));
+    const unknown = Object.keys(overrides).filter(name => !declared.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`${strategy.name} does not declare parameter(s): ${unknown.join(', ')}`);
+    }
+
+    const values: StrategyParameterValues = {};
+    for (const parameter of strategy.parameters) {
+      const value = parameter.name in overrides ? overrides[parameter.name] : parameter.default;
+      const problem = StrategyHost.checkParameter(parameter, value);
+      if (problem) {
+        throw new Error(`${strategy.name} parameter ${parameter.name}: ${problem}`);
+      }
+      values[parameter.name] = value;
+    }
+    return values;
+  }
+
+  get session(): string | null {
+    return this.sessionDay;
+  }
+
+  // `history` ends with the current bar; warm-up counts the bars before it
+  isWarm(history: MarketData[]): boolean {
+    return history.length > this.strategy.warmupBars;
+  }
+
+  /**
+   * A new bar for one underlying; opens the bar's session first if it is a new one
+   */
+  async bar(context: HostedBarContext): Promise<void> {
+    if (!this.isWarm(context.history)) {
+      return;
+    }
+    await this.startSession(MarketCalendar.toEastern(context.timestamp).day, context.timestamp, context.balance);
+    await this.strategy.onBar?.({ ...context, mode: this.mode, params: this.params });
+  }
+
+  /**
+   * Fresh quotes for one underlying, with its positions marked on them: each position is
+   * reported through onPositionUpdate before the strategy is asked for signals
+   */
+  async quote(context: HostedStrategyContext): Promise<TradingSignal[]> {
+    if (!this.isWarm(context.history)) {
+      return [];
+    }
+    const full: StrategyContext = { ...context, mode: this.mode, params: this.params };
+    if (this.strategy.onPositionUpdate) {
+      full.positions.forEach(position => this.strategy.onPositionUpdate!(position, full));
+    }
+    return this.strategy.onQuote(full);
+  }
+
+  fill(fill: StrategyFill, position: StrategyPosition): void {
+    this.strategy.onFill?.(fill, position);
+  }
+
+  positionClosed(position: StrategyPosition, trade: BacktestTrade): void {
+    this.strategy.onPositionClosed?.(position, trade);
+  }
+
+  async endSession(timestamp: Date, balance: number): Promise<void> {
+    if (this.sessionDay === null) {
+      return;
+    }
+    const day = this.sessionDay;
+    this.sessionDay = null;
+    await this.strategy.onSessionEnd?.({ mode: this.mode, params: this.params, day, timestamp, balance });
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private async startSession(day: string, timestamp: Date, balance: number): Promise<void> {
+    if (this.sessionDay === day) {
+      return;
+    }
+    await this.endSession(timestamp, balance);
+    this.sessionDay = day;
+    await this.strategy.onSessionStart?.({ mode: this.mode, params: this.params, day, timestamp, balance });
+  }
+
+  private static checkParameter(parameter: StrategyParameter, value: StrategyParameterValue): string | null {
+    switch (parameter.type) {
+      case 'boolean':
+        return typeof value === 'boolean' ? null : `expected a boolean, got ${JSON.stringify(value)}`;
+      case 'choice':
+        return typeof value === 'string' && (parameter.choices || []).includes(value)
+          ? null
+          : `expected one of ${(parameter.choices || []).join(', ')}, got ${JSON.stringify(value)}`;
+      default:
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return `expected a number, got ${JSON.stringify(value)}`;
+        }
+        if (parameter.type === 'integer' && !Number.isInteger(value)) {
+          return `expected an integer, got ${value}`;
+        }
+        if ((parameter.min !== undefined && value < parameter.min) || (parameter.max !== undefined && value > parameter.max)) {
+          return `${value} is outside [${parameter.min ?? '-∞'}, ${parameter.max ?? '∞'}]`;
+        }
+        return null;
+    }
+  }
+}
+
+export default StrategyHost;
@@ -24,6 +24,7 @@ export interface Strategy {
   // Options Parameters
   daysToExpiration: number;
   deltaRange: number;
+  underlyings?: string[]; // Symbol universe to trade (defaults to SPY)
   
   isActive: boolean;
   createdAt: Date;
@@ -68,6 +69,7 @@ export interface BacktestTrade {
   
   // Trade Details
   symbol: string;
+  underlying?: string; // SPY, QQQ, SPX...
   side: 'CALL' | 'PUT' | 'BULL_PUT_SPREAD' | 'BEAR_CALL_SPREAD' | 'IRON_CONDOR';
   strike: number;
   expiration: Date;
@@ -94,9 +96,26 @@ export interface BacktestTrade {
   // Exit Reason
   exitReason?: 'STOP_LOSS' | 'TAKE_PROFIT' | 'EXPIRATION' | 'SIGNAL_EXIT';
   
+  // Market regime at entry and, once closed, the P&L explained by each Greek
+  regime?: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  attribution?: PnLAttribution;
+  
   createdAt: Date;
 }
 
+/**
+ * A trade's P&L split by source, in dollars; the parts add up to `total`
+ */
+export interface PnLAttribution {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  costs: number; // Fills against mids at entry and exit (negative when paid)
+  residual: number; // Mark-to-mid P&L the Greeks path leaves unexplained
+  total: number;
+}
+
 export interface Trade {
   id: string;
   strategyId: string;
@@ -149,6 +168,8 @@ export interface MarketData {
   low: number;
   close: number;
   volume: bigint;
+  vwap?: number; // Volume-weighted average price, when the source provides it
+  synthetic?: boolean; // Generated by SyntheticMarketSimulator rather than printed by a market
   
   // Technical Indicators (calculated and stored)
   rsi?: number;
@@ -207,6 +228,7 @@ export interface OptionsChain {
   delta?: number;
   volume?: number;
   openInterest?: number;
+  synthetic?: boolean; // Priced by SyntheticMarketSimulator rather than quoted by a market
 }
 
 export interface BullPutSpread {
@@ -297,6 +319,7 @@ export interface BacktestParams {
   startDate: Date;
   endDate: Date;
   initialCapital: number;
+  symbols?: string[]; // Overrides the strategy's underlyings
 }
 
 export interface ChartDataPoint {
@@ -0,0 +1,364 @@
+/**
+ * VOLATILITY SURFACE
+ * Per-expiration smiles fitted to chain quotes, with sticky-strike or sticky-delta dynamics
+ *
+ * Each expiry's smile is a weighted quadratic in log-moneyness k = ln(K/F),
+ * fitted to the mid IVs of out-of-the-money quotes (puts below the forward,
+ * calls above). Quotes are weighted by how tightly their bid/ask pins the IV,
+ * so penny-wide wings barely move the fit. Between expiries the surface
+ * interpolates linearly in total variance; outside the fitted strike range the
+ * wings continue along the smile's edge slope. Deltas are forward deltas, N(d1) for calls and N(d1) - 1 for puts.
+ */
+
+import { OptionsChain } from './types';
+import { GreeksEngine } from './greeks-engine';
+
+export type SurfaceDynamics = 'STICKY_STRIKE' | 'STICKY_DELTA';
+
+export interface VolatilitySurfaceConfig {
+  dynamics: SurfaceDynamics; // How the smile moves when spot moves away from the fit spot
+  riskFreeRate?: number; // Defaults to GreeksEngine's rate curve at each expiry
+  minQuotesPerExpiration: number; // Expiries with fewer usable quotes are not fitted
+  maxSpreadVolatility: number; // Quotes whose bid/ask IV band is wider than this are dropped
+  minBid: number; // Quotes bid below this sit on the tick floor and say nothing about IV
+}
+
+export interface SmileFit {
+  expiration: Date;
+  timeToExpiration: number; // Years from the fit time
+  forward: number; // Forward at the fit time
+  coefficients: [number, number, number]; // σ(k) = a + b·k + c·k²
+  minMoneyness: number; // Fitted log-moneyness range; linear outside it
+  maxMoneyness: number;
+  quotesUsed: number;
+  rmse: number; // Weighted fit error, in volatility
+}
+
+export interface SmileMetrics {
+  expiration: Date;
+  atmVolatility: number;
+  riskReversal25: number; // 25Δ call IV - 25Δ put IV (negative: puts richer)
+  butterfly25: number; // Average 25Δ wing IV - ATM IV
+  put25Strike: number;
+  call25Strike: number;
+}
+
+interface SmilePoint {
+  moneyness: number;
+  volatility: number;
+  weight: number;
+}
+
+export class VolatilitySurface {
+  readonly config: VolatilitySurfaceConfig;
+  readonly smiles: SmileFit[]; // Sorted by expiration
+
+  private static readonly DEFAULT_CONFIG: VolatilitySurfaceConfig = {
+    dynamics: 'STICKY_STRIKE',
+    minQuotesPerExpiration: 3,
+    maxSpreadVolatility: 0.5,
+    minBid: 0.05
+  };
+
+  private static readonly YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+  private static readonly MIN_SPREAD_VOLATILITY = 0.005; // Caps the weight of very tight quotes
+
+  constructor(
+    readonly spot: number, // Underlying price the smiles were fitted at
+    readonly asOf: Date,
+    smiles: SmileFit[],
+    config: Partial<VolatilitySurfaceConfig> = {}
+  ) {
+    this.config = { ...VolatilitySurface.DEFAULT_CONFIG, ...config };
+    this.smiles = [...smiles].sort((a, b) => a.expiration.getTime() - b.expiration.getTime());
+  }
+
+  /**
+   * Fit every expiration in a chain; expiries without enough usable quotes are skipped
+   */
+  static fromChain(chain: OptionsChain[], spot: number, asOf: Date, config: Partial<VolatilitySurfaceConfig> = {}): VolatilitySurface {
+    const settings = { ...this.DEFAULT_CONFIG, ...config };
+    const byExpiration = new Map<number, OptionsChain[]>();
+    for (const option of chain) {
+      const key = option.expiration.getTime();
+      const quotes = byExpiration.get(key) || [];
+      quotes.push(option);
+      byExpiration.set(key, quotes);
+    }
+
+    const smiles: SmileFit[] = [];
+    for (const [time, quotes] of Array.from(byExpiration.entries())) {
+      const smile = this.fitSmile(new Date(time), quotes, spot, asOf, settings);
+      if (smile) {
+        smiles.push(smile);
+      }
+    }
+    return new VolatilitySurface(spot, asOf, smiles, settings);
+  }
+
+  /**
+   * Fit one expiry's smile; null when fewer than `minQuotesPerExpiration` quotes are usable
+   */
+  static fitSmile(
+    expiration: Date,
+    quotes: OptionsChain[],
+    spot: number,
+    asOf: Date,
+    config: Partial<VolatilitySurfaceConfig> = {}
+  ): SmileFit | null {
+    const settings = { ...this.DEFAULT_CONFIG, ...config };
+    const timeToExpiration = (expiration.getTime() - asOf.getTime()) / this.YEAR_MS;
+    if (!(timeToExpiration > 0) || !(spot > 0)) {
+      return null;
+    }
+    const riskFreeRate = settings.riskFreeRate ?? GreeksEngine.getRateCurve().rate(timeToExpiration);
+    const forward = quotes.length > 0 ? GreeksEngine.forwardPrice(quotes[0], spot, timeToExpiration, riskFreeRate, asOf) : spot;
+
+    const points: SmilePoint[] = [];
+    for (const quote of quotes) {
+      const outOfTheMoney = quote.side === 'PUT' ? quote.strike < forward : quote.strike >= forward;
+      if (!outOfTheMoney || quote.bid < settings.minBid) {
+        continue;
+      }
+      const band = GreeksEngine.impliedVolatilityFromQuote(quote, spot, timeToExpiration, riskFreeRate);
+      const volatility = band.mid.impliedVolatility;
+      const bid = band.bid.impliedVolatility;
+      const ask = band.ask.impliedVolatility;
+      if (volatility === null || bid === null || ask === null || ask - bid > settings.maxSpreadVolatility) {
+        continue;
+      }
+      points.push({
+        moneyness: Math.log(quote.strike / forward),
+        volatility,
+        weight: 1 / Math.max(this.MIN_SPREAD_VOLATILITY, ask - bid)
+      });
+    }
+    if (points.length < settings.minQuotesPerExpiration) {
+      return null;
+    }
+
+    // A concave fit would send the wings negative; fall back to a straight skew
+    let coefficients = this.leastSquares(points, 3);
+    if (coefficients[2] < 0) {
+      coefficients = this.leastSquares(points, 2);
+    }
+    const evaluate = (k: number) => coefficients[0] + coefficients[1] * k + coefficients[2] * k * k;
+    const totalWeight = points.reduce((sum, point) => sum + point.weight, 0);
+    const squaredError = points.reduce((sum, point) => sum + point.weight * Math.pow(evaluate(point.moneyness) - point.volatility, 2), 0);
+
+    return {
+      expiration,
+      timeToExpiration,
+      forward,
+      coefficients,
+      minMoneyness: Math.min(...points.map(point => point.moneyness)),
+      maxMoneyness: Math.max(...points.map(point => point.moneyness)),
+      quotesUsed: points.length,
+      rmse: Math.sqrt(squaredError / totalWeight)
+    };
+  }
+
+  expirations(): Date[] {
+    return this.smiles.map(smile => smile.expiration);
+  }
+
+  getSmile(expiration: Date): SmileFit | undefined {
+    return this.smiles.find(smile => smile.expiration.getTime() === expiration.getTime());
+  }
+
+  /**
+   * Surface IV at a strike and expiry. With a `spot` away from the fit spot, sticky-strike keeps
+   * each strike's IV and sticky-delta moves the smile with the forward
+   */
+  impliedVolatility(strike: number, expiration: Date, spot: number = this.spot): number {
+    if (this.smiles.length === 0) {
+      return GreeksEngine.DEFAULT_VOLATILITY;
+    }
+
+    const timeToExpiration = Math.max(0, (expiration.getTime() - this.asOf.getTime()) / VolatilitySurface.YEAR_MS);
+    const smileVolatility = (smile: SmileFit) => {
+      const forward = this.config.dynamics === 'STICKY_DELTA' ? smile.forward * spot / this.spot : smile.forward;
+      return this.evaluateSmile(smile, Math.log(strike / forward));
+    };
+
+    const first = this.smiles[0];
+    const last = this.smiles[this.smiles.length - 1];
+    if (timeToExpiration <= first.timeToExpiration) {
+      return smileVolatility(first);
+    }
+    if (timeToExpiration >= last.timeToExpiration) {
+      return smileVolatility(last);
+    }
+
+    // Linear in total variance between the bracketing expiries
+    const upperIndex = this.smiles.findIndex(smile => smile.timeToExpiration >= timeToExpiration);
+    const lower = this.smiles[upperIndex - 1];
+    const upper = this.smiles[upperIndex];
+    const lowerVariance = Math.pow(smileVolatility(lower), 2) * lower.timeToExpiration;
+    const upperVariance = Math.pow(smileVolatility(upper), 2) * upper.timeToExpiration;
+    const weight = (timeToExpiration - lower.timeToExpiration) / (upper.timeToExpiration - lower.timeToExpiration);
+    return Math.sqrt((lowerVariance + weight * (upperVariance - lowerVariance)) / timeToExpiration);
+  }
+
+  /**
+   * IV at the forward
+   */
+  atmVolatility(expiration: Date, spot: number = this.spot): number {
+    return this.impliedVolatility(this.forward(expiration, spot), expiration, spot);
+  }
+
+  /**
+   * Strike whose forward delta on this surface is `delta` (0 to 1 for calls, -1 to 0 for puts)
+   */
+  strikeForDelta(expiration: Date, delta: number, spot: number = this.spot): number {
+    if (!(Math.abs(delta) > 0 && Math.abs(delta) < 1)) {
+      throw new Error(`Delta must be strictly between -1 and 1 and non-zero, got ${delta}`);
+    }
+    const timeToExpiration = this.timeToExpiration(expiration);
+    const forward = this.forward(expiration, spot);
+    const d1 = this.inverseNormalCDF(delta > 0 ? delta : 1 + delta);
+
+    // Fixed point: the strike sets the IV and the IV sets the strike
+    let strike = forward;
+    for (let iteration = 0; iteration < 50; iteration++) {
+      const volatility = this.impliedVolatility(strike, expiration, spot);
+      const next = forward * Math.exp(volatility * volatility * timeToExpiration / 2 - d1 * volatility * Math.sqrt(timeToExpiration));
+      if (Math.abs(next - strike) < 1e-6 * forward) {
+        return next;
+      }
+      strike = next;
+    }
+    return strike;
+  }
+
+  /**
+   * ATM IV, 25Δ risk reversal and 25Δ butterfly for one expiry
+   */
+  getMetrics(expiration: Date, spot: number = this.spot): SmileMetrics {
+    const put25Strike = this.strikeForDelta(expiration, -0.25, spot);
+    const call25Strike = this.strikeForDelta(expiration, 0.25, spot);
+    const atmVolatility = this.atmVolatility(expiration, spot);
+    const putVolatility = this.impliedVolatility(put25Strike, expiration, spot);
+    const callVolatility = this.impliedVolatility(call25Strike, expiration, spot);
+
+    return {
+      expiration,
+      atmVolatility,
+      riskReversal25: callVolatility - putVolatility,
+      butterfly25: (callVolatility + putVolatility) / 2 - atmVolatility,
+      put25Strike,
+      call25Strike
+    };
+  }
+
+  /**
+   * Black-Scholes delta at the surface IV (spot delta, as GreeksEngine reports it)
+   */
+  delta(option: OptionsChain, spot: number = this.spot): number {
+    const timeToExpiration = Math.max(this.timeToExpiration(option.expiration), 1 / (365 * 24 * 60));
+    const volatility = this.impliedVolatility(option.strike, option.expiration, spot);
+    return GreeksEngine.calculateGreeks(option, spot, timeToExpiration, volatility, this.rate(timeToExpiration)).delta;
+  }
+
+  /**
+   * Black-Scholes value at the surface IV, for contracts the chain does not quote
+   */
+  price(option: OptionsChain, spot: number = this.spot, asOf: Date = this.asOf): number {
+    const timeToExpiration = (option.expiration.getTime() - asOf.getTime()) / VolatilitySurface.YEAR_MS;
+    if (timeToExpiration <= 0) {
+      return Math.max(0, option.side === 'CALL' ? spot - option.strike : option.strike - spot);
+    }
+    const volatility = this.impliedVolatility(option.strike, option.expiration, spot);
+    return GreeksEngine.calculateTheoreticalPrice(option, spot, timeToExpiration, volatility, this.rate(timeToExpiration));
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private timeToExpiration(expiration: Date): number {
+    return Math.max(0, (expiration.getTime() - this.asOf.getTime()) / VolatilitySurface.YEAR_MS);
+  }
+
+  private rate(timeToExpiration: number): number {
+    return this.config.riskFreeRate ?? GreeksEngine.getRateCurve().rate(timeToExpiration);
+  }
+
+  /**
+   * Forward at `spot`, carrying at the rate net of dividends implied by the nearest fitted expiry
+   */
+  private forward(expiration: Date, spot: number): number {
+    const timeToExpiration = this.timeToExpiration(expiration);
+    const nearest = this.smiles.reduce<SmileFit | undefined>((best, smile) =>
+      !best || Math.abs(smile.timeToExpiration - timeToExpiration) < Math.abs(best.timeToExpiration - timeToExpiration) ? smile : best, undefined);
+    const carry = nearest ? Math.log(nearest.forward / this.spot) / nearest.timeToExpiration : this.rate(timeToExpiration);
+    return spot * Math.exp(carry * timeToExpiration);
+  }
+
+  private evaluateSmile(smile: SmileFit, moneyness: number): number {
+    const k = Math.min(smile.maxMoneyness, Math.max(smile.minMoneyness, moneyness));
+    const [a, b, c] = smile.coefficients;
+    const slope = b + 2 * c * k; // Zero inside the fitted range, where k === moneyness
+    return Math.max(GreeksEngine.MIN_VOLATILITY, a + b * k + c * k * k + slope * (moneyness - k));
+  }
+
+  /**
+   * Weighted least squares for the first `terms` polynomial coefficients, solved on the normal equations
+   */
+  private static leastSquares(points: SmilePoint[], terms: number): [number, number, number] {
+    const matrix: number[][] = Array.from({ length: terms }, () => new Array(terms + 1).fill(0));
+    for (const point of points) {
+      const powers = [1, point.moneyness, point.moneyness * point.moneyness];
+      for (let row = 0; row < terms; row++) {
+        for (let column = 0; column < terms; column++) {
+          matrix[row][column] += point.weight * powers[row] * powers[column];
+        }
+        matrix[row][terms] += point.weight * powers[row] * point.volatility;
+      }
+    }
+
+    for (let pivot = 0; pivot < terms; pivot++) {
+      const best = matrix.slice(pivot).reduce((bestRow, row, index) => Math.abs(row[pivot]) > Math.abs(matrix[bestRow][pivot]) ? pivot + index : bestRow, pivot);
+      [matrix[pivot], matrix[best]] = [matrix[best], matrix[pivot]];
+      if (Math.abs(matrix[pivot][pivot]) < 1e-12) {
+        // Degenerate strikes (all at one moneyness): keep the weighted mean level
+        const meanVolatility = points.reduce((sum, point) => sum + point.weight * point.volatility, 0) / points.reduce((sum, point) => sum + point.weight, 0);
+        return [meanVolatility, 0, 0];
+      }
+      for (let row = 0; row < terms; row++) {
+        if (row !== pivot) {
+          const factor = matrix[row][pivot] / matrix[pivot][pivot];
+          for (let column = pivot; column <= terms; column++) {
+            matrix[row][column] -= factor * matrix[pivot][column];
+          }
+        }
+      }
+    }
+
+    const solution = matrix.map((row, index) => row[terms] / row[index]);
+    return [solution[0], solution[1] || 0, solution[2] || 0];
+  }
+
+  /**
+   * Acklam's rational approximation to the standard normal quantile
+   */
+  private inverseNormalCDF(p: number): number {
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const tail = 0.02425;
+
+    if (p < tail) {
+      const q = Math.sqrt(-2 * Math.log(p));
+      return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - tail) {
+      const q = Math.sqrt(-2 * Math.log(1 - p));
+      return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+}
+
+export default VolatilitySurface;
@@ -0,0 +1,398 @@
+/**
+ * WALK-FORWARD OPTIMIZER
+ * Rolling in-sample parameter selection, judged on the out-of-sample windows that follow
+ *
+ * The trading sessions of a period are cut into in-sample windows, each followed by the
+ * out-of-sample window it is tested on. Every candidate parameter set is backtested on
+ * each in-sample window and the best by the objective trades the next out-of-sample
+ * window; those out-of-sample runs are chained into one equity curve. Every candidate is
+ * also run out of sample, so a parameter set that only ever wins in sample is reported
+ * as overfit rather than picked. Candidates are any parameter object (dashboard
+ * TradingParameters, StrategyFrameworkConfig, ...); the evaluator runs the backtest.
+ */
+
+import { BacktestTrade, PerformanceMetrics } from './types';
+import { MarketCalendar } from './market-calendar';
+import { BacktestCore } from './backtest-core';
+
+export type WalkForwardObjective = 'SHARPE' | 'TOTAL_RETURN' | 'PROFIT_FACTOR' | 'CALMAR';
+
+export interface WalkForwardCandidate<P> {
+  name: string;
+  parameters: P;
+}
+
+// What the optimizer needs from a backtest; BacktestCoreResult and the engine results all fit
+export interface WalkForwardRun {
+  trades: BacktestTrade[];
+  performance: PerformanceMetrics;
+  equityCurve: { date: string; value: number }[];
+}
+
+export type WalkForwardEvaluator<P> = (parameters: P, startDate: Date, endDate: Date, initialCapital: number) => Promise<WalkForwardRun>;
+
+export interface WalkForwardConfig {
+  inSampleDays: number; // Trading sessions per in-sample window
+  outOfSampleDays: number; // Trading sessions per out-of-sample window
+  stepDays: number | null; // Sessions between window starts; null steps by the out-of-sample length so those windows tile
+  anchored: boolean; // Every in-sample window starts at the first session (expanding) instead of rolling
+  objective: WalkForwardObjective;
+  minTrades: number; // In-sample runs with fewer trades cannot be selected
+  initialCapital: number; // Each run's starting capital
+  robustEfficiency: number; // Walk-forward efficiency a profitable candidate needs to count as robust
+  stableVariation: number; // Coefficient of variation below which a selected parameter counts as stable
+}
+
+export interface WalkForwardPeriod {
+  start: Date; // Open of the first session
+  end: Date; // Close of the last session
+  days: string[]; // YYYY-MM-DD in New York
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSample: WalkForwardPeriod;
+  outOfSample: WalkForwardPeriod;
+}
+
+export interface CandidateScore {
+  candidate: string;
+  score: number; // Objective value; -Infinity when the run had too few trades to count, Infinity for a lossless profit factor
+  totalReturn: number; // Dollars
+  trades: number;
+}
+
+export interface WalkForwardWindowResult<P> {
+  window: WalkForwardWindow;
+  selected: string;
+  selectedBy: 'OBJECTIVE' | 'FALLBACK'; // FALLBACK when no candidate traded enough in sample
+  parameters: P;
+  inSample: CandidateScore[]; // Every candidate, best first
+  outOfSample: CandidateScore[]; // Every candidate, in candidate order
+  efficiency: number | null; // Selected candidate's out-of-sample over in-sample return per session
+  trades: BacktestTrade[]; // Selected candidate's out-of-sample trades
+  equityCurve: { date: string; value: number }[]; // Selected candidate's out-of-sample equity, from the initial capital
+}
+
+export interface ParameterStability {
+  parameter: string; // Dot path for nested values (weights.gex)
+  values: number[]; // Selected value in each window
+  mean: number;
+  standardDeviation: number;
+  coefficientOfVariation: number; // Standard deviation over |mean|; 0 for a constant zero
+  changes: number; // Windows whose selection differs from the previous window's
+  stable: boolean;
+}
+
+export interface CandidateRobustness {
+  candidate: string;
+  timesSelected: number;
+  meanInSampleScore: number;
+  meanOutOfSampleScore: number;
+  inSampleReturnPerDay: number; // Dollars per session, over every window
+  outOfSampleReturnPerDay: number;
+  efficiency: number | null; // Out-of-sample over in-sample return per session; null unless in-sample was profitable
+  verdict: 'ROBUST' | 'OVERFIT' | 'UNPROFITABLE' | 'INSUFFICIENT_DATA';
+}
+
+export interface WalkForwardResult<P> {
+  config: WalkForwardConfig;
+  windows: WalkForwardWindowResult<P>[];
+  equityCurve: { date: string; value: number }[]; // Out-of-sample runs chained end to end
+  trades: BacktestTrade[]; // Every out-of-sample trade of the selected candidates
+  performance: PerformanceMetrics; // Of the chained out-of-sample trading
+  efficiency: number | null; // Out-of-sample over in-sample return per session, across windows
+  stability: {
+    selectionChanges: number;
+    dominantCandidate: string;
+    dominantShare: number; // Fraction of windows the dominant candidate was selected in
+    parameters: ParameterStability[]; // Only parameters the candidates disagree on
+  };
+  candidates: CandidateRobustness[];
+}
+
+export class WalkForwardOptimizer<P extends object> {
+  readonly config: WalkForwardConfig;
+
+  private static readonly DEFAULT_CONFIG: WalkForwardConfig = {
+    inSampleDays: 20,
+    outOfSampleDays: 5,
+    stepDays: null,
+    anchored: false,
+    objective: 'SHARPE',
+    minTrades: 5,
+    initialCapital: 25000,
+    robustEfficiency: 0.5,
+    stableVariation: 0.25
+  };
+
+  constructor(
+    private readonly evaluate: WalkForwardEvaluator<P>,
+    config: Partial<WalkForwardConfig> = {}
+  ) {
+    this.config = { ...WalkForwardOptimizer.DEFAULT_CONFIG, ...config };
+    if (this.config.inSampleDays < 1 || this.config.outOfSampleDays < 1 || (this.config.stepDays !== null && this.config.stepDays < 1)) {
+      throw new Error('Walk-forward windows need at least one session in sample, out of sample and per step');
+    }
+  }
+
+  /**
+   * In-sample/out-of-sample windows over the trading sessions between two instants. The last
+   * window is dropped when its out-of-sample sessions would run past the end
+   */
+  static windows(startDate: Date, endDate: Date, config: Partial<WalkForwardConfig> = {}): WalkForwardWindow[] {
+    const { inSampleDays, outOfSampleDays, stepDays, anchored } = { ...WalkForwardOptimizer.DEFAULT_CONFIG, ...config };
+    const sessions = MarketCalendar.getTradingSessions(startDate, endDate);
+    const step = stepDays || outOfSampleDays;
+    const period = (from: number, to: number): WalkForwardPeriod => ({
+      start: sessions[from].open,
+      end: sessions[to - 1].close,
+      days: sessions.slice(from, to).map(session => session.day)
+    });
+
+    const windows: WalkForwardWindow[] = [];
+    for (let split = inSampleDays; split + outOfSampleDays <= sessions.length; split += step) {
+      windows.push({
+        index: windows.length,
+        inSample: period(anchored ? 0 : split - inSampleDays, split),
+        outOfSample: period(split, split + outOfSampleDays)
+      });
+    }
+    return windows;
+  }
+
+  /**
+   * Candidates that each change a base parameter set, one per combination of the grid's values
+   */
+  static grid<P extends object>(base: WalkForwardCandidate<P>, grid: Partial<Record<keyof P, number[]>>): WalkForwardCandidate<P>[] {
+    const keys = (Object.keys(grid) as Array<keyof P>).filter(key => (grid[key] || []).length > 0);
+    let combinations: Array<Partial<P>> = [{}];
+    for (const key of keys) {
+      combinations = combinations.flatMap(combination => grid[key]!.map(value => ({ ...combination, [key]: value })));
+    }
+    return combinations.map(changes => ({
+      name: keys.length === 0 ? base.name : `${base.name} (${keys.map(key => `${String(key)}=${(changes as any)[key]}`).join(', ')})`,
+      parameters: { ...base.parameters, ...changes }
+    }));
+  }
+
+  /**
+   * Objective value of a run. calculatePerformance reports a profit factor of 0 when
+   * nothing lost, so a run with winners and no losses scores Infinity instead
+   */
+  static score(run: WalkForwardRun, objective: WalkForwardObjective): number {
+    switch (objective) {
+      case 'TOTAL_RETURN': return run.performance.totalReturn;
+      case 'PROFIT_FACTOR': return run.performance.winningTrades > 0 && run.performance.averageLoss === 0 ? Infinity : run.performance.profitFactor;
+      case 'CALMAR': return run.performance.calmarRatio;
+      default: return run.performance.sharpeRatio;
+    }
+  }
+
+  // Best score first; b - a would be NaN between two infinite scores
+  static byScore(a: number, b: number): number {
+    return a === b ? 0 : a > b ? -1 : 1;
+  }
+
+  async run(candidates: WalkForwardCandidate<P>[], startDate: Date, endDate: Date): Promise<WalkForwardResult<P>> {
+    if (candidates.length === 0) {
+      throw new Error('Walk-forward optimization needs at least one candidate');
+    }
+    const names = new Set(candidates.map(candidate => candidate.name));
+    if (names.size !== candidates.length) {
+      throw new Error('Walk-forward candidate names must be unique');
+    }
+    const windows = WalkForwardOptimizer.windows(startDate, endDate, this.config);
+    if (windows.length === 0) {
+      throw new Error(`Not enough sessions between ${startDate.toDateString()} and ${endDate.toDateString()} for ${this.config.inSampleDays} in-sample and ${this.config.outOfSampleDays} out-of-sample days`);
+    }
+
+    console.log(`🚶 WALK-FORWARD: ${candidates.length} candidates × ${windows.length} windows (${this.config.inSampleDays} in / ${this.config.outOfSampleDays} out, ${this.config.anchored ? 'anchored' : 'rolling'}, ${this.config.objective})`);
+
+    const results: WalkForwardWindowResult<P>[] = [];
+    for (const window of windows) {
+      const inSampleRuns = await this.evaluateAll(candidates, window.inSample);
+      const outOfSampleRuns = await this.evaluateAll(candidates, window.outOfSample);
+      const inSample = candidates.map((candidate, i) => this.candidateScore(candidate, inSampleRuns[i], true));
+      const outOfSample = candidates.map((candidate, i) => this.candidateScore(candidate, outOfSampleRuns[i], false));
+
+      // Highest eligible score wins; ties go to the earlier candidate
+      let best = -1;
+      inSample.forEach((score, i) => {
+        if (score.score > -Infinity && (best < 0 || score.score > inSample[best].score)) {
+          best = i;
+        }
+      });
+      const previous = results.length > 0 ? candidates.findIndex(candidate => candidate.name === results[results.length - 1].selected) : 0;
+      const selected = best >= 0 ? best : previous;
+
+      results.push({
+        window,
+        selected: candidates[selected].name,
+        selectedBy: best >= 0 ? 'OBJECTIVE' : 'FALLBACK',
+        parameters: candidates[selected].parameters,
+        inSample: [...inSample].sort((a, b) => WalkForwardOptimizer.byScore(a.score, b.score)),
+        outOfSample,
+        efficiency: this.efficiency(inSample[selected].totalReturn, window.inSample.days.length, outOfSample[selected].totalReturn, window.outOfSample.days.length),
+        trades: outOfSampleRuns[selected].trades,
+        equityCurve: outOfSampleRuns[selected].equityCurve
+      });
+      console.log(`   Window ${window.index + 1}: ${window.inSample.days[0]}..${window.inSample.days[window.inSample.days.length - 1]} → ${candidates[selected].name}${best >= 0 ? '' : ' (fallback)'}, out of sample $${outOfSample[selected].totalReturn.toFixed(0)}`);
+    }
+
+    const { equityCurve, maxDrawdown } = this.stitch(results);
+    const trades = results.flatMap(result => result.trades);
+    const performance = BacktestCore.calculatePerformance(trades, this.config.initialCapital, maxDrawdown);
+    const inSampleDays = windows.reduce((sum, window) => sum + window.inSample.days.length, 0);
+    const outOfSampleDays = windows.reduce((sum, window) => sum + window.outOfSample.days.length, 0);
+    const selectedInSample = results.reduce((sum, result) => sum + result.inSample.find(score => score.candidate === result.selected)!.totalReturn, 0);
+
+    const result: WalkForwardResult<P> = {
+      config: this.config,
+      windows: results,
+      equityCurve,
+      trades,
+      performance,
+      efficiency: this.efficiency(selectedInSample, inSampleDays, performance.totalReturn, outOfSampleDays),
+      stability: this.stability(candidates, results),
+      candidates: this.robustness(candidates, results, inSampleDays, outOfSampleDays)
+    };
+
+    console.log(`✅ WALK-FORWARD COMPLETE: out of sample $${performance.totalReturn.toFixed(0)} over ${trades.length} trades, efficiency ${result.efficiency === null ? 'n/a' : result.efficiency.toFixed(2)}`);
+    console.log(`   Selection: ${result.stability.dominantCandidate} in ${(result.stability.dominantShare * 100).toFixed(0)}% of windows, ${result.stability.selectionChanges} changes`);
+    result.candidates.forEach(candidate => console.log(`   ${candidate.candidate}: ${candidate.verdict} (in $${candidate.inSampleReturnPerDay.toFixed(0)}/day, out $${candidate.outOfSampleReturnPerDay.toFixed(0)}/day, selected ${candidate.timesSelected}×)`));
+    return result;
+  }
+
+  // =================== PRIVATE HELPER METHODS ===================
+
+  private async evaluateAll(candidates: WalkForwardCandidate<P>[], period: WalkForwardPeriod): Promise<WalkForwardRun[]> {
+    const runs: WalkForwardRun[] = [];
+    for (const candidate of candidates) {
+      runs.push(await this.evaluate(candidate.parameters, period.start, period.end, this.config.initialCapital));
+    }
+    return runs;
+  }
+
+  private candidateScore(candidate: WalkForwardCandidate<P>, run: WalkForwardRun, inSample: boolean): CandidateScore {
+    const trades = run.trades.length;
+    const score = WalkForwardOptimizer.score(run, this.config.objective);
+    return {
+      candidate: candidate.name,
+      score: inSample && trades < this.config.minTrades ? -Infinity : score,
+      totalReturn: run.performance.totalReturn,
+      trades
+    };
+  }
+
+  /**
+   * Each out-of-sample run starts from the initial capital; chaining adds its P&L to where
+   * the previous window's curve ended
+   */
+  private stitch(results: WalkForwardWindowResult<P>[]): { equityCurve: { date: string; value: number }[]; maxDrawdown: number } {
+    const equityCurve: { date: string; value: number }[] = [];
+    let offset = 0;
+    let peak = this.config.initialCapital;
+    let maxDrawdown = 0;
+    for (const result of results) {
+      for (const point of result.equityCurve) {
+        const value = point.value + offset;
+        equityCurve.push({ date: point.date, value });
+        peak = Math.max(peak, value);
+        maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+      }
+      const last = result.equityCurve[result.equityCurve.length - 1];
+      offset += last ? last.value - this.config.initialCapital : 0;
+    }
+    return { equityCurve, maxDrawdown };
+  }
+
+  private stability(candidates: WalkForwardCandidate<P>[], results: WalkForwardWindowResult<P>[]): WalkForwardResult<P>['stability'] {
+    const selectionChanges = results.filter((result, i) => i > 0 && result.selected !== results[i - 1].selected).length;
+    const counts = new Map<string, number>();
+    results.forEach(result => counts.set(result.selected, (counts.get(result.selected) || 0) + 1));
+    const [dominantCandidate, dominantCount] = [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+
+    // Numeric leaves the candidates disagree on
+    const leaves = candidates.map(candidate => WalkForwardOptimizer.numericLeaves(candidate.parameters));
+    const paths = [...new Set(leaves.flatMap(leaf => [...leaf.keys()]))]
+      .filter(path => new Set(leaves.map(leaf => leaf.get(path))).size > 1);
+
+    const parameters = paths.map(path => {
+      const values = results.map(result => WalkForwardOptimizer.numericLeaves(result.parameters).get(path) ?? NaN);
+      const present = values.filter(value => !Number.isNaN(value));
+      const mean = present.reduce((sum, value) => sum + value, 0) / (present.length || 1);
+      const standardDeviation = Math.sqrt(present.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (present.length || 1));
+      const coefficientOfVariation = mean !== 0 ? standardDeviation / Math.abs(mean) : standardDeviation === 0 ? 0 : Infinity;
+      return {
+        parameter: path,
+        values,
+        mean,
+        standardDeviation,
+        coefficientOfVariation,
+        changes: values.filter((value, i) => i > 0 && value !== values[i - 1]).length,
+        stable: coefficientOfVariation < this.config.stableVariation
+      };
+    });
+
+    return { selectionChanges, dominantCandidate, dominantShare: dominantCount / results.length, parameters };
+  }
+
+  private robustness(
+    candidates: WalkForwardCandidate<P>[],
+    results: WalkForwardWindowResult<P>[],
+    inSampleDays: number,
+    outOfSampleDays: number
+  ): CandidateRobustness[] {
+    return candidates.map(candidate => {
+      const inSample = results.map(result => result.inSample.find(score => score.candidate === candidate.name)!);
+      const outOfSample = results.map(result => result.outOfSample.find(score => score.candidate === candidate.name)!);
+      const eligible = inSample.filter(score => score.score > -Infinity);
+      const mean = (scores: CandidateScore[]) => scores.length > 0 ? scores.reduce((sum, score) => sum + score.score, 0) / scores.length : 0;
+      const inSampleReturn = inSample.reduce((sum, score) => sum + score.totalReturn, 0);
+      const outOfSampleReturn = outOfSample.reduce((sum, score) => sum + score.totalReturn, 0);
+      const efficiency = this.efficiency(inSampleReturn, inSampleDays, outOfSampleReturn, outOfSampleDays);
+
+      let verdict: CandidateRobustness['verdict'];
+      if (eligible.length === 0) {
+        verdict = 'INSUFFICIENT_DATA';
+      } else if (inSampleReturn <= 0) {
+        verdict = 'UNPROFITABLE';
+      } else {
+        verdict = outOfSampleReturn > 0 && efficiency !== null && efficiency >= this.config.robustEfficiency ? 'ROBUST' : 'OVERFIT';
+      }
+
+      return {
+        candidate: candidate.name,
+        timesSelected: results.filter(result => result.selected === candidate.name).length,
+        meanInSampleScore: mean(eligible),
+        meanOutOfSampleScore: mean(outOfSample),
+        inSampleReturnPerDay: inSampleReturn / inSampleDays,
+        outOfSampleReturnPerDay: outOfSampleReturn / outOfSampleDays,
+        efficiency,
+        verdict
+      };
+    });
+  }
+
+  // Numeric values of a parameter object by dot path; booleans, strings and nulls are skipped
+  private static numericLeaves(parameters: object, prefix: string = '', leaves: Map<string, number> = new Map()): Map<string, number> {
+    Object.entries(parameters).forEach(([key, value]) => {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        leaves.set(prefix + key, value);
+      } else if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+        WalkForwardOptimizer.numericLeaves(value, `${prefix}${key}.`, leaves);
+      }
+    });
+    return leaves;
+  }
+
+  private efficiency(inSampleReturn: number, inSampleDays: number, outOfSampleReturn: number, outOfSampleDays: number): number | null {
+    if (inSampleReturn <= 0 || inSampleDays === 0 || outOfSampleDays === 0) {
+      return null;
+    }
+    return (outOfSampleReturn / outOfSampleDays) / (inSampleReturn / inSampleDays);
+  }
+}
+
+export default WalkForwardOptimizer;
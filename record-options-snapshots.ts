@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+/**
+ * OPTIONS SNAPSHOT RECORDER
+ * Records live chains into the snapshot store, or imports recorded quotes
+ *
+ * Usage:
+ *   npm run snapshots:record -- SPY QQQ [--every 5] [--count 78]
+ *   npm run snapshots:import -- quotes.csv SPY
+ *
+ * Chains come from createMarketDataProvider (MARKET_DATA_SOURCE and friends);
+ * snapshots go to --dir, else OPTIONS_SNAPSHOT_DIR, else ./options-snapshots.
+ * Generated chains (a provider's simulator fallback) are reported and skipped.
+ */
+
+import * as path from 'path';
+import { OptionsSnapshotStore } from './lib/options-snapshot-store';
+import { createMarketDataProvider } from './lib/market-data-provider-factory';
+
+require('dotenv').config({ path: path.join(__dirname, '.env') });
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  return args.filter((arg, i) => !arg.startsWith('--') && !(i > 0 && args[i - 1].startsWith('--')));
+}
+
+async function record(args: string[], store: OptionsSnapshotStore): Promise<number> {
+  const symbols = positional(args).map(symbol => symbol.toUpperCase());
+  const everyMinutes = Number(option(args, '--every') || 5);
+  const count = Number(option(args, '--count') || 1);
+  if (symbols.length === 0 || !(everyMinutes > 0) || !(count >= 1)) {
+    throw new Error('record needs at least one symbol, a positive --every and a --count of 1 or more');
+  }
+
+  const provider = createMarketDataProvider();
+  console.log(`📸 Recording ${symbols.join(', ')} from ${provider.name}: ${count} snapshot(s), every ${everyMinutes} minute(s)`);
+  let failures = 0;
+  for (let i = 0; i < count; i++) {
+    for (const symbol of symbols) {
+      try {
+        await store.recordFromProvider(provider, symbol);
+      } catch (error) {
+        failures++;
+        console.error(`❌ ${symbol}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (i < count - 1) {
+      await new Promise(resolve => setTimeout(resolve, everyMinutes * 60 * 1000));
+    }
+  }
+  return failures;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command || command === '--help' || command === '-h') {
+    console.log('\n📸 Options Snapshot Recorder');
+    console.log('\nUsage:');
+    console.log('  npm run snapshots:record -- SPY [QQQ ...] [--every <minutes>] [--count <n>] [--dir <path>]');
+    console.log('  npm run snapshots:import -- <file.csv|file.json> <SYMBOL> [--dir <path>]');
+    process.exit(command ? 0 : 1);
+  }
+
+  const store = new OptionsSnapshotStore({ rootDir: option(args, '--dir') || process.env.OPTIONS_SNAPSHOT_DIR });
+  try {
+    if (command === 'record') {
+      process.exit(await record(args, store) > 0 ? 1 : 0);
+    } else if (command === 'import') {
+      const [filePath, symbol] = positional(args);
+      if (!filePath || !symbol) {
+        throw new Error('import needs a file and an underlying symbol');
+      }
+      store.importFile(filePath, symbol.toUpperCase());
+    } else {
+      throw new Error(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -6,11 +6,18 @@
  * Target: $200/day through increased signal frequency
  * Current: ~$30/day with daily bars (0.3 trades/day)
  * Goal: 7x performance through minute bars (5-10 trades/day)
+ *
+ * TIMEFRAME (5Min, 15Min, ...) picks the bars the strategy trades. They are always
+ * resampled from one 1Min fetch, so every timeframe sees the same prints.
  */
 
 import { AlpacaHistoricalDataFetcher } from './lib/alpaca-historical-data';
 import { BacktestEngine } from './lib/backtest-engine';
 import { TechnicalAnalysis } from './lib/technical-indicators';
+import { BarTimeframe } from './lib/market-data-provider';
+import { createMarketDataProvider } from './lib/market-data-provider-factory';
+import { ResamplingMarketDataProvider } from './lib/resampling-market-data-provider';
+import { BarResampler } from './lib/bar-resampler';
 
 // HIGH-FREQUENCY 0-DTE CONFIGURATION
 const MINUTE_BAR_CONFIG = {
@@ -21,7 +28,7 @@ const MINUTE_BAR_CONFIG = {
   initialBalance: 50000,
   
   // HIGH-FREQUENCY DATA CONFIGURATION
-  timeframe: '1Min' as const, // MINUTE BARS for maximum signals
+  timeframe: (process.env.TIMEFRAME || '1Min') as BarTimeframe, // MINUTE BARS for maximum signals; resampled from 1Min otherwise
   includeOptionsData: true,
   useExtendedHours: false,
   
@@ -111,6 +118,10 @@ async function runMinuteBarBacktest(): Promise<void> {
   console.log('🚀 HIGH-FREQUENCY MINUTE BAR BACKTEST');
   console.log('Target: $200/day through increased signal frequency');
   console.log('=' .repeat(60));
+
+  if (!(MINUTE_BAR_CONFIG.timeframe in TIMEFRAME_OPTIONS)) {
+    throw new Error(`Unknown TIMEFRAME ${MINUTE_BAR_CONFIG.timeframe}; expected one of ${Object.keys(TIMEFRAME_OPTIONS).join(', ')}`);
+  }
   
   console.log('\n📊 CONFIGURATION:');
   console.log(`   Symbol: ${MINUTE_BAR_CONFIG.symbol}`);
@@ -121,30 +132,38 @@ async function runMinuteBarBacktest(): Promise<void> {
   console.log(`   Data Points: ${TIMEFRAME_OPTIONS[MINUTE_BAR_CONFIG.timeframe].dataPoints}`);
   
   try {
-    // Step 1: Fetch minute-level historical data
+    // Step 1: Fetch minute-level historical data once; every timeframe is built from it
     console.log('\n📊 Fetching Minute-Level Historical Data...');
     console.log('   ⚡ High-frequency data for maximum signal capture');
     
+    const resampleOptions = { includeExtendedHours: MINUTE_BAR_CONFIG.useExtendedHours };
+    const dataProvider = new ResamplingMarketDataProvider(createMarketDataProvider(), resampleOptions);
     const historicalData = await AlpacaHistoricalDataFetcher.fetchBacktestData({
       symbol: MINUTE_BAR_CONFIG.symbol,
       startDate: MINUTE_BAR_CONFIG.startDate,
       endDate: MINUTE_BAR_CONFIG.endDate,
-      timeframe: MINUTE_BAR_CONFIG.timeframe,
-      includeOptionsData: MINUTE_BAR_CONFIG.includeOptionsData
+      timeframe: '1Min',
+      includeOptionsData: MINUTE_BAR_CONFIG.includeOptionsData,
+      useExtendedHours: MINUTE_BAR_CONFIG.useExtendedHours,
+      dataProvider
     });
+    const bars = BarResampler.resample(historicalData.marketData, MINUTE_BAR_CONFIG.timeframe, resampleOptions);
     
     console.log(`✅ Retrieved ${historicalData.marketData.length} minute bars`);
+    if (MINUTE_BAR_CONFIG.timeframe !== '1Min') {
+      console.log(`✅ Resampled into ${bars.length} ${MINUTE_BAR_CONFIG.timeframe} bars`);
+    }
     console.log(`✅ Retrieved ${historicalData.optionsData?.length || 0} options data points`);
     
-    // Step 2: Calculate technical indicators on minute data
-    console.log('\n🔧 Calculating Minute-Level Technical Indicators...');
+    // Step 2: Calculate technical indicators on the selected timeframe
+    console.log(`\n🔧 Calculating ${MINUTE_BAR_CONFIG.timeframe} Technical Indicators...`);
     const indicators = TechnicalAnalysis.calculateAllIndicators(
-      historicalData.marketData,
+      bars,
       MINUTE_BAR_CONFIG.strategy.rsiPeriod,
       MINUTE_BAR_CONFIG.strategy.macdFast,
       MINUTE_BAR_CONFIG.strategy.macdSlow
     );
-    console.log('✅ Technical indicators calculated on minute data');
+    console.log(`✅ Technical indicators calculated on ${MINUTE_BAR_CONFIG.timeframe} data`);
     
     // Step 3: Run high-frequency backtest
     console.log('\n🎯 Running High-Frequency Backtest...');
@@ -170,7 +189,8 @@ async function runMinuteBarBacktest(): Promise<void> {
       symbol: MINUTE_BAR_CONFIG.symbol
     };
     
-    const results = await BacktestEngine.runBacktest(strategy, params);
+    // Same provider, so the backtest's bars come from the 1Min fetch above
+    const results = await BacktestEngine.runBacktest(strategy, params, dataProvider);
     
     // Step 4: Analyze high-frequency results
     console.log('\n📈 HIGH-FREQUENCY BACKTEST RESULTS');
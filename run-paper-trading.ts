@@ -16,6 +16,7 @@ import ProfessionalPaperTradingEngine, {
   TIMEFRAME_CONFIGS,
   PaperTradingStatus 
 } from './lib/professional-paper-trading-engine';
+import { PortfolioGreeksAggregator } from './lib/portfolio-greeks';
 
 class PaperTradingRunner {
   private engine?: ProfessionalPaperTradingEngine;
@@ -246,6 +247,7 @@ class PaperTradingRunner {
     console.log(`Portfolio Risk: ${(status.portfolioRisk * 100).toFixed(1)}%`);
     console.log(`Portfolio Delta: ${status.portfolioGreeks.delta.toFixed(2)}`);
     console.log(`Portfolio Theta: ${status.portfolioGreeks.theta.toFixed(0)}`);
+    console.log(`Portfolio Greeks: ${PortfolioGreeksAggregator.formatSummary(status.portfolioExposure)}`);
     
     if (status.positionCount > 0) {
       console.log('\n🔍 OPEN POSITIONS');
@@ -0,0 +1,1622 @@
+#!/usr/bin/env node
+/**
+ * Market Data Layer Test
+ * Offline checks for the data plumbing underneath the engines:
+ * - Market data providers (local files, env-driven cache and resample wrapping)
+ * - Market data cache (per-source keys, no generated or unfinished days, offline replay)
+ * - Options snapshots (point-in-time lookup, CSV import, provider origin, quote coverage)
+ * - Alpaca request layer (pagination, 429 waits, jittered backoff, token bucket, typed failures)
+ * - 1Min → higher timeframe resampling (session boundaries, half-days, DST, VWAP, one shared fetch)
+ * - NYSE calendar (holidays, early closes, New York time, 0-DTE expirations)
+ * - Data quality validation (gaps, spikes, bad quotes, staleness, repair policies, refusing before a run)
+ * - Symbol universe (contract specs, strike grids, dollar exposure, multi-underlying backtests)
+ * - Portfolio Greeks (beta weighting to SPY, theta per hour, beta overrides)
+ * - OCC option symbols (round trips, OSI padding, SPXW roots, fractional strikes, rejects)
+ * - Seeded market simulator (reproducibility, cross-timeframe consistency, surface, quotes)
+ * - Backtest core (event flow, fills, risk rejections, settlement at expiration)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { BarResampler } from './lib/bar-resampler';
+import { MarketCalendar } from './lib/market-calendar';
+import { DataQualityValidator, DataQualityError } from './lib/data-quality-validator';
+import { SymbolUniverse, UnknownUnderlyingError } from './lib/symbol-universe';
+import { PortfolioGreeksAggregator } from './lib/portfolio-greeks';
+import { GreeksEngine } from './lib/greeks-engine';
+import { OptionContractId, OptionContract, InvalidOptionSymbolError } from './lib/option-contract-id';
+import { SyntheticMarketDataProvider } from './lib/synthetic-market-data-provider';
+import { SyntheticMarketSimulator } from './lib/synthetic-market-simulator';
+import { BacktestEngine } from './lib/backtest-engine';
+import { AlpacaHistoricalDataFetcher } from './lib/alpaca-historical-data';
+import { BacktestCore, BacktestEvent, FillEvent, SignalEvent } from './lib/backtest-core';
+import { TradingStrategy, TradingSignal, StrategyContext, StrategyHost, StrategyMode, HostedStrategyContext } from './lib/trading-strategy';
+import { MidpointCostModel } from './lib/backtest-cost-models';
+import { WalkForwardOptimizer, WalkForwardRun } from './lib/walk-forward-optimizer';
+import { ParameterOptimizer, SearchRange } from './lib/parameter-optimizer';
+import { PositionLimitRiskManager } from './lib/backtest-risk-managers';
+import { SharedBarArray } from './lib/shared-bar-array';
+import { SharedBarsMarketDataProvider } from './lib/shared-bars-market-data-provider';
+import { BacktestJobScheduler, BacktestJob, JobProgress, JobCancelledError } from './lib/backtest-job-scheduler';
+import { MonteCarloEngine, MonteCarloParams, MonteCarloResult } from './lib/monte-carlo-engine';
+import { MarketDataProvider } from './lib/market-data-provider';
+import { createMarketDataProvider } from './lib/market-data-provider-factory';
+import { LocalFileMarketDataProvider } from './lib/local-file-market-data-provider';
+import { CachedMarketDataProvider, MarketDataCacheMissError } from './lib/cached-market-data-provider';
+import { OptionsSnapshotStore } from './lib/options-snapshot-store';
+import { AlpacaRequestLayer, AlpacaRequestError, TokenBucket, HttpRequest, HttpResponse, HttpTransport, RequestMetrics } from './lib/alpaca-request-layer';
+import { ResamplingMarketDataProvider } from './lib/resampling-market-data-provider';
+import { MarketData, OptionsChain, Strategy, BacktestTrade } from './lib/types';
+
+interface TestResult {
+  success: boolean;
+  errors: string[];
+}
+
+function check(errors: string[], condition: boolean, message: string) {
+  if (!condition) {
+    errors.push(message);
+    console.log(`   ❌ ${message}`);
+  }
+}
+
+/**
+ * Minute bars for one New York session; `utcOffsetHours` is 4 in EDT, 5 in EST
+ */
+function buildSession(day: string, utcOffsetHours: number, fromMinute: number, toMinute: number): MarketData[] {
+  const bars: MarketData[] = [];
+  const midnightUtc = new Date(`${day}T00:00:00.000Z`).getTime() + utcOffsetHours * 60 * 60 * 1000;
+
+  for (let minute = fromMinute; minute < toMinute; minute++) {
+    const price = 500 + (minute - fromMinute) * 0.01;
+    bars.push({
+      id: `SPY_${day}_${minute}`,
+      symbol: 'SPY',
+      date: new Date(midnightUtc + minute * 60 * 1000),
+      open: price,
+      high: price + 0.05,
+      low: price - 0.05,
+      close: price + 0.01,
+      volume: BigInt(1000 + (minute % 7) * 100),
+      vwap: price,
+      createdAt: new Date()
+    });
+  }
+  return bars;
+}
+
+async function testMarketDataProviders(): Promise<TestResult> {
+  console.log('\n🔌 Testing Market Data Providers...');
+  const errors: string[] = [];
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'market-data-'));
+  const envKeys = ['MARKET_DATA_SOURCE', 'MARKET_DATA_DIR', 'MARKET_DATA_CACHE_DIR', 'MARKET_DATA_OFFLINE', 'MARKET_DATA_RESAMPLE'];
+  const previousEnv = envKeys.map(key => process.env[key]);
+  const setEnv = (values: Record<string, string>) => envKeys.forEach(key => {
+    if (values[key] === undefined) delete process.env[key]; else process.env[key] = values[key];
+  });
+  const originalLog = console.log;
+  console.log = () => {};
+
+  try {
+    // Local files: Alpaca-style JSON and CSV bars, a chain filtered by expiration day
+    const session = buildSession('2024-03-12', 4, 9 * 60 + 30, 10 * 60);
+    const expiration = new Date('2024-03-12T20:00:00.000Z');
+    const chain = [...buildZeroDteChain(500, expiration), ...buildZeroDteChain(500, new Date('2024-03-13T20:00:00.000Z'))];
+    fs.writeFileSync(path.join(dir, 'SPY_1Min.json'), JSON.stringify({
+      bars: session.map(bar => ({ t: bar.date.toISOString(), o: bar.open, h: bar.high, l: bar.low, c: bar.close, v: Number(bar.volume), vw: bar.vwap }))
+    }));
+    fs.writeFileSync(path.join(dir, 'QQQ_5Min.csv'), ['timestamp,open,high,low,close,volume',
+      ...session.slice(0, 3).map(bar => `${bar.date.toISOString()},${bar.open},${bar.high},${bar.low},${bar.close},${bar.volume}`)].join('\n'));
+    fs.writeFileSync(path.join(dir, 'SPY_options.json'), JSON.stringify(chain));
+
+    setEnv({ MARKET_DATA_SOURCE: 'local', MARKET_DATA_DIR: dir });
+    const local = createMarketDataProvider();
+    check(errors, local instanceof LocalFileMarketDataProvider, `MARKET_DATA_SOURCE=local builds the file provider (${local.name})`);
+    const loaded = await local.getMarketData('SPY', session[0].date, session[session.length - 1].date, '1Min');
+    check(errors, loaded.length === session.length && loaded.every((bar, i) => bar.date.getTime() === session[i].date.getTime() && bar.close === session[i].close && bar.volume === session[i].volume && bar.vwap === session[i].vwap),
+      'JSON bars round-trip with prices, volume and VWAP');
+    const csv = await local.getMarketData('QQQ', session[0].date, session[1].date, '5Min');
+    check(errors, csv.length === 2 && csv[1].close === session[1].close && csv[0].vwap === undefined, 'CSV bars load within the requested range');
+    check(errors, await local.getCurrentPrice('SPY') === session[session.length - 1].close, 'current price is the last recorded close');
+    const dayChain = await local.getOptionsChain('SPY', expiration);
+    check(errors, dayChain.length === chain.length / 2 && dayChain.every(option => option.expiration.getTime() === expiration.getTime() && typeof option.strike === 'number'),
+      'chains round-trip and filter by expiration day');
+
+    // Env-driven wrapping: source, then cache, then resampling on top
+    setEnv({ MARKET_DATA_SOURCE: 'synthetic' });
+    check(errors, createMarketDataProvider() instanceof SyntheticMarketDataProvider, 'no cache or resample settings leave the source unwrapped');
+    const cacheDir = path.join(dir, 'cache');
+    setEnv({ MARKET_DATA_SOURCE: 'synthetic', MARKET_DATA_CACHE_DIR: cacheDir });
+    const cached = createMarketDataProvider();
+    check(errors, cached instanceof CachedMarketDataProvider && !cached.isOffline && cached.name === 'synthetic+cache', `MARKET_DATA_CACHE_DIR wraps the source in the cache (${cached.name})`);
+    setEnv({ MARKET_DATA_SOURCE: 'synthetic', MARKET_DATA_OFFLINE: 'true' });
+    const offline = createMarketDataProvider();
+    check(errors, offline instanceof CachedMarketDataProvider && offline.isOffline, 'MARKET_DATA_OFFLINE alone still builds an offline cache');
+    setEnv({ MARKET_DATA_SOURCE: 'local', MARKET_DATA_DIR: dir, MARKET_DATA_CACHE_DIR: cacheDir, MARKET_DATA_RESAMPLE: 'true' });
+    const resampling = createMarketDataProvider();
+    check(errors, resampling instanceof ResamplingMarketDataProvider && resampling.name === 'local+cache+resample', `resampling wraps the cache (${resampling.name})`);
+    const fiveMinute = await resampling.getMarketData('SPY', session[0].date, session[session.length - 1].date, '5Min');
+    const index = JSON.parse(fs.readFileSync(path.join(cacheDir, 'index.json'), 'utf8'));
+    check(errors, Object.keys(index).join(',') === 'bars/local/SPY/1Min/2024-03-12', `the cache under the resampler only stores 1Min bars (${Object.keys(index).join(', ')})`);
+    const expected = BarResampler.resample(session, '5Min');
+    check(errors, fiveMinute.length === expected.length && fiveMinute.every((bar, i) => bar.close === expected[i].close && bar.volume === expected[i].volume),
+      'resampled bars match resampling the source\'s minute bars');
+    setEnv({ MARKET_DATA_SOURCE: 'feed' });
+    let unknown = false;
+    try {
+      createMarketDataProvider();
+    } catch {
+      unknown = true;
+    }
+    check(errors, unknown, 'an unknown source is an error');
+  } finally {
+    console.log = originalLog;
+    envKeys.forEach((key, i) => {
+      if (previousEnv[i] === undefined) delete process.env[key]; else process.env[key] = previousEnv[i];
+    });
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Market data providers: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testMarketDataCache(): Promise<TestResult> {
+  console.log('\n💾 Testing Market Data Cache...');
+  const errors: string[] = [];
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'market-data-cache-'));
+  const simulator = new SyntheticMarketSimulator({ seed: 3 });
+  const stripped = <T extends { synthetic?: boolean }>(records: T[]) => records.map(({ synthetic, ...record }) => record as T);
+  const day = (date: string, to: string = date) => [new Date(`${date}T00:00:00.000Z`), new Date(`${to}T23:59:59.000Z`)] as const;
+
+  // A feed that answers from the simulator, as itself or as a client falling back to it
+  let mode: 'market' | 'fallback' | 'empty' = 'market';
+  let fetches = 0;
+  const feed: MarketDataProvider = {
+    name: 'feed',
+    testConnection: async () => true,
+    getMarketData: async (symbol, startDate, endDate, timeframe = '1Day') => {
+      fetches++;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const bars = simulator.getBars(symbol, startDate, endDate, timeframe);
+      return mode === 'empty' ? [] : mode === 'fallback' ? bars : stripped(bars);
+    },
+    getCurrentPrice: async symbol => simulator.getPrice(symbol, new Date('2024-03-12T20:00:00.000Z')),
+    getOptionsChain: async (symbol, expiration) => {
+      const chain = simulator.getOptionsChain(symbol, expiration ? { asOf: expiration, expirations: [expiration] } : {});
+      return mode === 'fallback' ? chain : stripped(chain);
+    }
+  };
+  const cache = new CachedMarketDataProvider(feed, { rootDir });
+  const keys = () => Object.keys(JSON.parse(fs.readFileSync(path.join(rootDir, 'index.json'), 'utf8'))).sort();
+  const originalLog = console.log;
+  const originalWarn = console.warn;
+  const warnings: string[] = [];
+  console.log = () => {};
+  console.warn = (message: string) => warnings.push(message);
+
+  try {
+    const [tuesdayStart, tuesdayEnd] = day('2024-03-12');
+    const first = await cache.getMarketData('SPY', tuesdayStart, tuesdayEnd, '1Day');
+    const again = await cache.getMarketData('SPY', tuesdayStart, tuesdayEnd, '1Day');
+    check(errors, first.length === 1 && again.length === 1 && again[0].close === first[0].close && fetches === 1, 'a finished day is fetched once and replayed');
+    check(errors, keys().join(',') === 'bars/feed/SPY/1Day/2024-03-12', `keys carry the upstream source (${keys().join(', ')})`);
+
+    // Fallback bars are served but not kept; overlapping calls keep their own pending days
+    mode = 'fallback';
+    const [spanStart, spanEnd] = day('2024-03-11', '2024-03-13');
+    const [thursdayStart, thursdayEnd] = day('2024-03-14');
+    const [span, thursday] = await Promise.all([
+      cache.getMarketData('SPY', spanStart, spanEnd, '1Day'),
+      cache.getMarketData('SPY', thursdayStart, thursdayEnd, '1Day')
+    ]);
+    check(errors, span.length === 3 && thursday.length === 1, `overlapping calls each get every bar (${span.length}/3, ${thursday.length}/1)`);
+    check(errors, keys().length === 1 && warnings.some(warning => warning.includes('generated SPY 1Day bars')), 'generated bars are never written to the cache');
+
+    // Empty answers: a weekend is final, a trading day is not
+    mode = 'empty';
+    const [weekendStart, weekendEnd] = day('2024-03-15', '2024-03-17');
+    await cache.getMarketData('SPY', weekendStart, weekendEnd, '1Day');
+    check(errors, keys().join(',') === 'bars/feed/SPY/1Day/2024-03-12,bars/feed/SPY/1Day/2024-03-16,bars/feed/SPY/1Day/2024-03-17',
+      `empty weekend days are cached, an empty trading day is not (${keys().join(', ')})`);
+
+    // Chains as of a time are not point-in-time history, so they are never kept; the live chain is
+    const expiration = new Date('2024-03-12T20:00:00.000Z');
+    mode = 'fallback';
+    await cache.getOptionsChain('SPY');
+    check(errors, !keys().some(key => key.startsWith('chains/')), 'generated chains are not cached');
+    mode = 'market';
+    const asOf = await cache.getOptionsChain('SPY', expiration);
+    check(errors, asOf.length > 0 && !keys().some(key => key.startsWith('chains/')), 'chains asked for as of a time pass through uncached');
+    const chain = await cache.getOptionsChain('SPY');
+    check(errors, keys().some(key => key.startsWith('chains/feed/SPY/latest-')) && chain.length > 0, 'the live chain is recorded under its source');
+
+    // Offline replay only sees what was kept
+    const offline = new CachedMarketDataProvider(feed, { rootDir, offline: true });
+    const replayed = await offline.getMarketData('SPY', tuesdayStart, tuesdayEnd, '1Day');
+    const replayedChain = await offline.getOptionsChain('SPY');
+    let miss: unknown = null;
+    await offline.getMarketData('SPY', spanStart, spanEnd, '1Day').catch(error => { miss = error; });
+    let chainMiss: unknown = null;
+    await offline.getOptionsChain('SPY', expiration).catch(error => { chainMiss = error; });
+    check(errors, replayed[0].close === first[0].close && replayedChain.length === chain.length && replayedChain.every(option => !option.synthetic), 'offline mode replays cached bars and the live chain');
+    check(errors, chainMiss instanceof MarketDataCacheMissError, 'a chain as of a time is an offline miss');
+    check(errors, miss instanceof MarketDataCacheMissError && (miss as MarketDataCacheMissError).key === 'bars/feed/SPY/1Day/2024-03-11', 'days served from a fallback are offline misses');
+  } finally {
+    console.log = originalLog;
+    console.warn = originalWarn;
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Market data cache: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testOptionsSnapshotStore(): Promise<TestResult> {
+  console.log('\n📸 Testing Options Snapshot Store...');
+  const errors: string[] = [];
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'options-snapshots-'));
+  const expiration = new Date('2024-03-05T21:00:00Z');
+  const at = (time: string) => new Date(`2024-03-05T${time}:00Z`);
+  const originalLog = console.log;
+  console.log = () => {};
+
+  try {
+    // Point-in-time lookup: latest at or before, never later, never staler than the limit
+    const store = new OptionsSnapshotStore({ rootDir, maxStalenessMinutes: 10 });
+    store.record({ underlying: 'SPY', timestamp: at('14:50'), source: 'import', underlyingPrice: 501, quotes: buildZeroDteChain(501, expiration) });
+    store.record({ underlying: 'SPY', timestamp: at('14:40'), source: 'import', underlyingPrice: 500, quotes: buildZeroDteChain(500, expiration) });
+    store.record({ underlying: 'SPY', timestamp: new Date('2024-03-05T23:58:00Z'), source: 'import', quotes: buildZeroDteChain(502, expiration) });
+    const reloaded = new OptionsSnapshotStore({ rootDir, maxStalenessMinutes: 10 });
+    for (const [label, lookup] of [['in memory', store], ['from disk', reloaded]] as const) {
+      check(errors, lookup.getSnapshotAsOf('SPY', at('14:45'))?.underlyingPrice === 500 && lookup.getSnapshotAsOf('SPY', at('14:50'))?.underlyingPrice === 501,
+        `${label}: the latest snapshot at or before the bar is used`);
+      check(errors, lookup.getSnapshotAsOf('SPY', at('14:39')) === null && lookup.getSnapshotAsOf('SPY', at('15:01')) === null,
+        `${label}: no snapshot from the future, none staler than the limit`);
+    }
+    check(errors, store.getSnapshotAsOf('SPY', new Date('2024-03-06T00:03:00Z'))?.quotes.length === 42, 'the staleness window reaches back across UTC midnight');
+    check(errors, store.getChainAsOf('SPY', at('14:45'), expiration)?.length === 42 && store.getChainAsOf('SPY', at('14:45'), new Date('2024-03-06T21:00:00Z')) === null,
+      'chains narrow to the requested expiration day');
+
+    // CSV import: quoted fields keep their commas, quotes and line breaks
+    const csvPath = path.join(rootDir, 'quotes.csv');
+    fs.writeFileSync(csvPath, [
+      'timestamp,symbol,note,expiration,strike,side,bid,ask,underlyingPrice',
+      '2024-03-07T15:00:00Z,SPY240307C00510000,"late, ""crossed"" print",2024-03-07T21:00:00Z,510,call,1.10,1.20,509.5',
+      '2024-03-07T15:00:00Z,SPY240307P00505000,"two',
+      'lines",2024-03-07T21:00:00Z,505,put,0.90,1.00,509.5',
+      '2024-03-07T15:05:00Z,SPY240307C00510000,,2024-03-07T21:00:00Z,510,call,1.30,1.40,510.1'
+    ].join('\r\n'));
+    const imported = new OptionsSnapshotStore({ rootDir, maxStalenessMinutes: 10 });
+    check(errors, imported.importFile(csvPath, 'SPY') === 2, 'rows group into one snapshot per timestamp');
+    const first = imported.getSnapshotAsOf('SPY', new Date('2024-03-07T15:02:00Z'));
+    const put = first?.quotes.find(quote => quote.side === 'PUT');
+    check(errors, first?.quotes.length === 2 && first.underlyingPrice === 509.5 && first.quotes[0].strike === 510 && first.quotes[0].bid === 1.1,
+      'columns after a quoted comma stay aligned');
+    check(errors, put?.strike === 505 && put.ask === 1 && put.expiration.getTime() === new Date('2024-03-07T21:00:00Z').getTime(), 'a quoted line break stays inside its field');
+
+    // Recording from a provider keeps its name and refuses generated chains
+    const chainProvider = (name: string, chain: OptionsChain[]): MarketDataProvider => ({
+      name, testConnection: async () => true, getMarketData: async () => [], getCurrentPrice: async () => 500, getOptionsChain: async () => chain
+    });
+    const live = new OptionsSnapshotStore({ rootDir: path.join(rootDir, 'live') });
+    const recorded = await live.recordFromProvider(chainProvider('alpaca-http', buildZeroDteChain(500, expiration)), 'SPY');
+    check(errors, recorded.source === 'alpaca-http', `snapshots record the provider they came from (${recorded.source})`);
+    let refused = false;
+    await live.recordFromProvider(chainProvider('alpaca', buildZeroDteChain(500, expiration).map(option => ({ ...option, synthetic: true }))), 'SPY').catch(() => { refused = true; });
+    const lines = fs.readFileSync(path.join(rootDir, 'live', 'SPY', `${recorded.timestamp.toISOString().split('T')[0]}.jsonl`), 'utf8').trim().split('\n');
+    check(errors, refused && lines.length === 1, 'a generated chain is refused and not written');
+
+    // Coverage: bars with a fresh snapshot count as real quotes, the rest as provider chains
+    const bars = buildSession('2024-03-05', 5, 570, 600); // 14:30-15:00 UTC
+    const provider: MarketDataProvider = {
+      name: 'fixed', testConnection: async () => true, getMarketData: async () => bars, getCurrentPrice: async () => bars[bars.length - 1].close, getOptionsChain: async () => []
+    };
+    let providerChains = 0;
+    const core = new BacktestCore({
+      timeframe: '1Min',
+      quoteRefresh: 'BAR',
+      quoteProvider: (underlying, asOf, price) => { providerChains++; return buildZeroDteChain(price, expiration); },
+      costModel: new MidpointCostModel(),
+      dataProvider: provider,
+      snapshotStore: reloaded
+    });
+    const result = await core.run(buildHookRecorder([], []), { strategyId: 'snapshot-test', startDate: at('14:30'), endDate: at('15:00'), initialCapital: 25000 });
+    const { realQuoteBars, syntheticQuoteBars, realQuoteRatio, syntheticBarDates } = result.quoteCoverage;
+    check(errors, realQuoteBars === 20 && syntheticQuoteBars === 5 && providerChains === 5 && Math.abs(realQuoteRatio - 20 / 25) < 1e-9,
+      `after the 5 warm-up bars, bars from 14:40 on are quoted from snapshots (${realQuoteBars} real, ${syntheticQuoteBars} provider)`);
+    check(errors, syntheticBarDates.every(date => date >= at('14:35') && date < at('14:40')), 'only bars before the first snapshot are listed as provider-quoted');
+  } finally {
+    console.log = originalLog;
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Options snapshot store: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testAlpacaRequestLayer(): Promise<TestResult> {
+  console.log('\n🌐 Testing Alpaca Request Layer...');
+  const errors: string[] = [];
+
+  // Scripted transport: answers in order, records what was asked
+  const scripted = (responses: Array<HttpResponse | Error>) => {
+    const requests: HttpRequest[] = [];
+    const transport: HttpTransport = async request => {
+      requests.push(request);
+      const next = responses.shift();
+      if (!next) throw new Error(`Unexpected request ${request.url}`);
+      if (next instanceof Error) throw next;
+      return next;
+    };
+    return { requests, transport };
+  };
+  const ok = (data: any): HttpResponse => ({ status: 200, headers: {}, data });
+  const fail = (status: number, headers: Record<string, string> = {}): HttpResponse => ({ status, headers, data: { message: `status ${status}` } });
+  const fast = { requestsPerMinute: 60000, burstCapacity: 100, baseBackoffMs: 8, maxBackoffMs: 50 };
+  const options = { headers: { 'APCA-API-KEY-ID': 'test' } };
+  const originalWarn = console.warn;
+  const originalError = console.error;
+  const originalRandom = Math.random;
+  console.warn = () => {};
+  console.error = () => {};
+
+  try {
+    // Pagination follows next_page_token and merges arrays and keyed collections
+    const bars = scripted([ok({ bars: [1, 2], next_page_token: 'a' }), ok({ bars: [3], next_page_token: 'b' }), ok({ bars: [4] })]);
+    const pagedLayer = new AlpacaRequestLayer(fast, bars.transport);
+    const pages: number[] = [];
+    pagedLayer.on('request', (metrics: RequestMetrics) => pages.push(metrics.page));
+    const merged = await pagedLayer.getAllPages<number[]>('https://data.alpaca.markets/v2/stocks/SPY/bars', 'bars', { ...options, params: { limit: 2 } });
+    check(errors, merged.join(',') === '1,2,3,4' && pages.join(',') === '1,2,3', `bar pages are concatenated in order (${merged.join(',')})`);
+    check(errors, bars.requests[0].params?.page_token === undefined && bars.requests[1].params?.page_token === 'a' && bars.requests[2].params?.page_token === 'b' && bars.requests[2].params?.limit === 2,
+      'each page asks for the previous page\'s token and keeps the caller\'s params');
+    const snapshots = scripted([ok({ snapshots: { A: 1 }, next_page_token: 'x' }), ok({ snapshots: { B: 2 } })]);
+    const keyed = await new AlpacaRequestLayer(fast, snapshots.transport).getAllPages('https://data.alpaca.markets/v1beta1/options/snapshots/SPY', 'snapshots', options);
+    check(errors, JSON.stringify(keyed) === '{"A":1,"B":2}', 'keyed pages are merged');
+    const endless = scripted([ok({ bars: [1], next_page_token: 'a' }), ok({ bars: [2], next_page_token: 'b' })]);
+    const truncated = await new AlpacaRequestLayer(fast, endless.transport).getAllPages<number[]>('https://x/bars', 'bars', options, 2);
+    check(errors, truncated.length === 2 && endless.requests.length === 2, 'pagination stops at maxPages');
+
+    // 429: Retry-After, then X-RateLimit-Reset, wins over backoff (both capped)
+    const limited = scripted([fail(429, { 'retry-after': '0.02' }), fail(429, { 'x-ratelimit-reset': String(Date.now() / 1000 + 3600) }), ok({ done: true })]);
+    const limitedLayer = new AlpacaRequestLayer(fast, limited.transport);
+    const limitedMetrics: RequestMetrics[] = [];
+    limitedLayer.on('request', (metrics: RequestMetrics) => limitedMetrics.push(metrics));
+    const answer = await limitedLayer.get('https://paper-api.alpaca.markets/v2/account', options);
+    const summary = limitedLayer.getMetricsSummary();
+    check(errors, answer.done === true && limitedMetrics[0].attempts === 3 && limitedMetrics[0].backoffMs === 20 + 50,
+      `server waits are honoured and capped (${limitedMetrics[0].backoffMs}ms backoff)`);
+    check(errors, summary.rateLimited === 2 && summary.retries === 2 && summary.failures === 0 && summary.requests === 1, 'rate-limited retries are counted');
+
+    // Without server hints: exponential backoff with full jitter
+    Math.random = () => 0.5;
+    const flaky = scripted([fail(503), new Error('socket hang up'), fail(502), ok({})]);
+    const flakyLayer = new AlpacaRequestLayer({ ...fast, maxBackoffMs: 1000 }, flaky.transport);
+    const flakyMetrics: RequestMetrics[] = [];
+    flakyLayer.on('request', (metrics: RequestMetrics) => flakyMetrics.push(metrics));
+    await flakyLayer.get('https://data.alpaca.markets/v2/stocks/SPY/bars', options);
+    check(errors, flakyMetrics[0].backoffMs === 4 + 8 + 16, `delays are random below 8, 16, 32ms (${flakyMetrics[0].backoffMs}ms)`);
+    Math.random = originalRandom;
+
+    // Failures surface as AlpacaRequestError
+    const exhausted = scripted([fail(500), fail(500), fail(500)]);
+    let finalError: unknown = null;
+    await new AlpacaRequestLayer({ ...fast, maxRetries: 2 }, exhausted.transport).get('https://data.alpaca.markets/v2/stocks/SPY/bars?x=1', options).catch(error => { finalError = error; });
+    check(errors, finalError instanceof AlpacaRequestError && finalError.status === 500 && finalError.endpoint === 'https://data.alpaca.markets/v2/stocks/SPY/bars' && exhausted.requests.length === 3,
+      'a GET gives up after maxRetries with the last status');
+    const order = scripted([fail(503), fail(429), ok({ id: 'order-1' })]);
+    let orderError: unknown = null;
+    await new AlpacaRequestLayer(fast, order.transport).post('https://paper-api.alpaca.markets/v2/orders', options).catch(error => { orderError = error; });
+    check(errors, orderError instanceof AlpacaRequestError && orderError.status === 503 && order.requests.length === 1, 'a POST is not retried after a 5xx');
+    const retriedOrder = await new AlpacaRequestLayer(fast, scripted([fail(429), ok({ id: 'order-2' })]).transport).post('https://paper-api.alpaca.markets/v2/orders', options);
+    check(errors, retriedOrder.id === 'order-2', 'a POST is retried after a 429');
+
+    // Token bucket: a burst, then one token per refill interval
+    const bucket = new TokenBucket(2, 50);
+    const waits = [await bucket.take(), await bucket.take(), await bucket.take()];
+    check(errors, waits[0] === 0 && waits[1] === 0 && waits[2] >= 15 && waits[2] <= 30, `the bucket allows its burst, then waits ~20ms (${waits.join(', ')})`);
+    bucket.drain();
+    check(errors, await bucket.take() > 0, 'a drained bucket makes the next request wait');
+
+    // The client surfaces the failure instead of simulator bars
+    const previousKey = process.env.ALPACA_API_KEY;
+    const previousSecret = process.env.ALPACA_API_SECRET;
+    process.env.ALPACA_API_KEY = previousKey || 'test-key';
+    process.env.ALPACA_API_SECRET = previousSecret || 'test-secret';
+    try {
+      const { AlpacaClient } = await import('./lib/alpaca');
+      const down = scripted([fail(503), fail(503)]);
+      const client = new AlpacaClient(new AlpacaRequestLayer({ ...fast, maxRetries: 1 }, down.transport));
+      let clientError: unknown = null;
+      const originalLog = console.log;
+      console.log = () => {};
+      await client.getMarketData('SPY', new Date('2024-03-05T00:00:00Z'), new Date('2024-03-06T00:00:00Z'), '1Min').catch(error => { clientError = error; });
+      console.log = originalLog;
+      check(errors, clientError instanceof AlpacaRequestError && clientError.status === 503 && down.requests.length === 2, 'AlpacaClient.getMarketData throws once retries run out');
+    } finally {
+      if (previousKey === undefined) delete process.env.ALPACA_API_KEY; else process.env.ALPACA_API_KEY = previousKey;
+      if (previousSecret === undefined) delete process.env.ALPACA_API_SECRET; else process.env.ALPACA_API_SECRET = previousSecret;
+    }
+  } finally {
+    console.warn = originalWarn;
+    console.error = originalError;
+    Math.random = originalRandom;
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Alpaca request layer: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testBarResampler(): Promise<TestResult> {
+  console.log('\n🧮 Testing Bar Resampler...');
+  const errors: string[] = [];
+
+  // Regular EDT session with 30 minutes of pre-market and post-market prints
+  const session = buildSession('2024-03-12', 4, 9 * 60, 16 * 60 + 30);
+
+  const fiveMin = BarResampler.resample(session, '5Min');
+  check(errors, fiveMin.length === 78, `5Min bars per session: expected 78, got ${fiveMin.length}`);
+  check(errors, fiveMin[0].date.toISOString() === '2024-03-12T13:30:00.000Z', `first 5Min bar starts at the 9:30 open (${fiveMin[0].date.toISOString()})`);
+
+  const hourly = BarResampler.resample(session, '1Hour');
+  check(errors, hourly.length === 7, `1Hour bars per session: expected 7, got ${hourly.length}`);
+  check(errors, hourly[6].date.toISOString() === '2024-03-12T19:30:00.000Z', 'last hourly bucket is 15:30-16:00');
+
+  const daily = BarResampler.resample(session, '1Day');
+  const regularMinutes = session.filter(bar => {
+    const minutes = (bar.date.getUTCHours() - 4) * 60 + bar.date.getUTCMinutes();
+    return minutes >= 570 && minutes < 960;
+  });
+  const expectedVolume = regularMinutes.reduce((sum, bar) => sum + bar.volume, BigInt(0));
+  check(errors, daily.length === 1, `one daily bar per session, got ${daily.length}`);
+  check(errors, daily[0].volume === expectedVolume, 'daily volume sums regular-session minutes only');
+  check(errors, daily[0].open === regularMinutes[0].open, 'daily open is the 9:30 print');
+  check(errors, daily[0].close === regularMinutes[regularMinutes.length - 1].close, 'daily close is the 15:59 print');
+
+  const expectedVwap = regularMinutes.reduce((sum, bar) => sum + bar.vwap! * Number(bar.volume), 0) / Number(expectedVolume);
+  check(errors, Math.abs(daily[0].vwap! - expectedVwap) < 1e-9, 'daily VWAP is volume-weighted across minutes');
+
+  const extended = BarResampler.resample(session, '1Day', { includeExtendedHours: true });
+  check(errors, extended[0].open === session[0].open, 'extended-hours daily bar opens with pre-market');
+
+  // Two sessions never share a bucket, even on hourly bars
+  const twoDays = [...session, ...buildSession('2024-03-13', 4, 9 * 60 + 30, 16 * 60)];
+  check(errors, BarResampler.resample(twoDays, '1Hour').length === 14, 'hourly buckets do not straddle sessions');
+
+  // Day after Thanksgiving closes at 1:00 PM ET (EST)
+  const halfDay = buildSession('2024-11-29', 5, 9 * 60 + 30, 16 * 60);
+  const halfDay15 = BarResampler.resample(halfDay, '15Min');
+  check(errors, halfDay15.length === 14, `half-day 15Min bars: expected 14, got ${halfDay15.length}`);
+
+  // EST session (after the November DST change) still anchors at 9:30 local
+  const winter = BarResampler.resample(buildSession('2024-11-05', 5, 9 * 60 + 30, 16 * 60), '15Min');
+  check(errors, winter[0].date.toISOString() === '2024-11-05T14:30:00.000Z', 'EST session anchors at 14:30 UTC');
+
+  // Every timeframe over one range comes from a single upstream 1Min fetch
+  const minuteRequests: string[] = [];
+  const minuteFeed: MarketDataProvider = {
+    name: 'minutes',
+    testConnection: async () => true,
+    getMarketData: async (symbol, startDate, endDate, timeframe = '1Day') => {
+      minuteRequests.push(`${symbol}/${timeframe}`);
+      return twoDays.filter(bar => bar.date >= startDate && bar.date <= endDate);
+    },
+    getCurrentPrice: async () => twoDays[twoDays.length - 1].close,
+    getOptionsChain: async () => []
+  };
+  const resampling = new ResamplingMarketDataProvider(minuteFeed);
+  const originalLog = console.log;
+  console.log = () => {};
+  try {
+    const [from, to] = [new Date('2024-03-12T00:00:00Z'), new Date('2024-03-13T23:59:59Z')];
+    const byTimeframe = await Promise.all((['5Min', '15Min', '1Hour', '1Day'] as const).map(timeframe => resampling.getMarketData('SPY', from, to, timeframe)));
+    check(errors, minuteRequests.join(',') === 'SPY/1Min', `one 1Min fetch serves every timeframe (${minuteRequests.join(', ')})`);
+    check(errors, byTimeframe[2].length === 14 && byTimeframe[3].length === 2, 'timeframes resampled from the shared fetch');
+    await resampling.getMarketData('SPY', from, new Date('2024-03-12T23:59:59Z'), '1Hour');
+    check(errors, minuteRequests.length === 2, 'a different range is fetched again');
+  } finally {
+    console.log = originalLog;
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Bar resampler:${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testMarketCalendar(): Promise<TestResult> {
+  console.log('\n📅 Testing Market Calendar...');
+  const errors: string[] = [];
+
+  // 2024 NYSE holidays
+  const holidays2024 = ['2024-01-01', '2024-01-15', '2024-02-19', '2024-03-29', '2024-05-27',
+    '2024-06-19', '2024-07-04', '2024-09-02', '2024-11-28', '2024-12-25'];
+  for (const day of holidays2024) {
+    check(errors, MarketCalendar.isHoliday(day), `${day} is a holiday`);
+  }
+
+  check(errors, MarketCalendar.isHoliday('2021-12-31') === false, 'Saturday New Year is not observed on Friday Dec 31');
+  check(errors, MarketCalendar.isHoliday('2022-01-17'), 'MLK Day 2022');
+  check(errors, MarketCalendar.isHoliday('2022-06-20'), 'Juneteenth 2022 observed Monday');
+  check(errors, MarketCalendar.isHoliday('2021-06-18') === false, 'Juneteenth not a market holiday before 2022');
+  check(errors, MarketCalendar.isHoliday('2026-07-03'), 'Independence Day 2026 observed Friday');
+  check(errors, MarketCalendar.isHoliday('2025-04-18'), 'Good Friday 2025');
+  check(errors, MarketCalendar.isHoliday('2025-01-09'), 'Special closure 2025-01-09');
+  check(errors, ['2001-09-11', '2001-09-12', '2001-09-13', '2001-09-14', '2004-06-11', '2007-01-02'].every(day => !MarketCalendar.isTradingDay(day)),
+    'September 2001 and the Reagan and Ford closures have no session');
+
+  check(errors, MarketCalendar.isEarlyClose('2024-11-29'), 'Black Friday is an early close');
+  check(errors, MarketCalendar.isEarlyClose('2024-07-03'), 'July 3 (Wednesday) is an early close');
+  check(errors, MarketCalendar.isEarlyClose('2024-12-24'), 'Christmas Eve (Tuesday) is an early close');
+  check(errors, !MarketCalendar.isEarlyClose('2022-12-23'), 'Dec 23 is a full day when Christmas Eve falls on Saturday');
+
+  // Sessions in UTC across DST
+  const summer = MarketCalendar.getSession('2024-07-03')!;
+  check(errors, summer.open.toISOString() === '2024-07-03T13:30:00.000Z', 'EDT open is 13:30 UTC');
+  check(errors, summer.close.toISOString() === '2024-07-03T17:00:00.000Z', 'half-day close is 1:00 PM EDT');
+  const winter = MarketCalendar.getSession('2024-12-02')!;
+  check(errors, winter.open.toISOString() === '2024-12-02T14:30:00.000Z', 'EST open is 14:30 UTC');
+  check(errors, MarketCalendar.getSession('2024-03-10') === null, 'no session on the DST Sunday');
+  const dstMonday = MarketCalendar.getSession('2024-03-11')!;
+  check(errors, dstMonday.open.toISOString() === '2024-03-11T13:30:00.000Z', 'first EDT session opens at 13:30 UTC');
+
+  check(errors, MarketCalendar.isMarketOpen(new Date('2024-12-02T14:30:00Z')), 'open at 9:30 ET');
+  check(errors, !MarketCalendar.isMarketOpen(new Date('2024-12-02T14:29:00Z')), 'closed at 9:29 ET');
+  check(errors, !MarketCalendar.isMarketOpen(new Date('2024-11-29T18:30:00Z')), 'closed at 1:30 PM ET on a half-day');
+  check(errors, !MarketCalendar.isMarketOpen(new Date('2024-12-25T16:00:00Z')), 'closed on Christmas');
+
+  const december = MarketCalendar.getTradingDays(new Date('2024-12-01T12:00:00Z'), new Date('2024-12-31T12:00:00Z'));
+  check(errors, december.length === 21, `21 trading days in Dec 2024, got ${december.length}`);
+  check(errors, MarketCalendar.nextTradingDay('2024-12-24').day === '2024-12-26', 'next trading day skips Christmas');
+  check(errors, MarketCalendar.previousTradingDay('2024-09-03').day === '2024-08-30', 'previous trading day skips Labor Day weekend');
+
+  // 0-DTE availability
+  check(errors, MarketCalendar.hasZeroDteExpiration('SPY', '2024-03-12'), 'SPY has Tuesday expirations');
+  check(errors, !MarketCalendar.hasZeroDteExpiration('AAPL', '2024-03-12'), 'AAPL only lists Friday weeklies');
+  check(errors, MarketCalendar.hasZeroDteExpiration('AAPL', '2024-03-28'), 'Good Friday weekly expires Thursday');
+  check(errors, !MarketCalendar.hasZeroDteExpiration('SPY', '2024-03-29'), 'no expiration on a holiday');
+  check(errors, !MarketCalendar.hasZeroDteExpiration('SPY', '2022-11-08') && MarketCalendar.hasZeroDteExpiration('SPY', '2022-11-15'),
+    'SPY Tuesday expirations start with their November 2022 listing');
+  check(errors, !MarketCalendar.hasZeroDteExpiration('SPX', '2015-06-03') && MarketCalendar.hasZeroDteExpiration('SPX', '2015-06-05'), 'SPX had only Friday weeklies in 2015');
+  const expiry = MarketCalendar.getZeroDteExpiration('SPY', new Date('2024-11-29T15:00:00Z'));
+  check(errors, expiry?.toISOString() === '2024-11-29T18:00:00.000Z', 'half-day 0-DTE expires at the 1:00 PM close');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Market calendar: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+/**
+ * One expiration's puts on a smooth smile around `atm`
+ */
+function buildSmile(expiration: Date, atm: number): OptionsChain[] {
+  const chain: OptionsChain[] = [];
+  for (let strike = atm - 10; strike <= atm + 10; strike++) {
+    const moneyness = (strike - atm) / atm;
+    chain.push({
+      symbol: `SPY_P_${strike}`,
+      expiration,
+      strike,
+      side: 'PUT',
+      bid: Math.max(0.05, (atm - strike) * 0.5 + 1),
+      ask: Math.max(0.1, (atm - strike) * 0.5 + 1.1),
+      impliedVolatility: 0.15 + 4 * moneyness * moneyness - 0.5 * moneyness
+    });
+  }
+  return chain;
+}
+
+async function testDataQualityValidator(): Promise<TestResult> {
+  console.log('\n🩺 Testing Data Quality Validator...');
+  const errors: string[] = [];
+  const flagOnly = new DataQualityValidator();
+
+  // Clean 15Min session: nothing to report
+  const cleanMinutes = buildSession('2024-03-12', 4, 9 * 60 + 30, 16 * 60);
+  const clean = flagOnly.checkBars('SPY', BarResampler.resample(cleanMinutes, '15Min'), '15Min');
+  check(errors, clean.issues.length === 0, `clean session has no issues (${clean.issues.map(issue => issue.type).join(',')})`);
+  check(errors, clean.expectedBars === 26, `26 expected 15Min bars, got ${clean.expectedBars}`);
+
+  // Holidays and half-days are not gaps
+  const thanksgivingWeek = [
+    ...buildSession('2024-11-27', 5, 9 * 60 + 30, 16 * 60),
+    ...buildSession('2024-11-29', 5, 9 * 60 + 30, 13 * 60)
+  ];
+  const holidayCheck = flagOnly.checkBars('SPY', BarResampler.resample(thanksgivingWeek, '1Hour'), '1Hour');
+  check(errors, holidayCheck.missingBars === 0, `Thanksgiving and the 1:00 PM close are not gaps (${holidayCheck.missingBars} missing)`);
+
+  // Intraday gap, a missing session and a zero-volume bar
+  const gappy = buildSession('2024-03-12', 4, 9 * 60 + 30, 16 * 60)
+    .filter((_, index) => index < 60 || index >= 70);
+  gappy[5].volume = BigInt(0);
+  const nextDay = buildSession('2024-03-14', 4, 9 * 60 + 30, 16 * 60);
+  const gapResult = flagOnly.checkBars('SPY', [...gappy, ...nextDay], '1Min');
+  const gapIssue = gapResult.issues.find(issue => issue.type === 'BAR_GAP');
+  check(errors, gapIssue?.missingBars === 10, `10-minute gap detected (${gapIssue?.missingBars})`);
+  check(errors, gapIssue?.timestamp.toISOString() === '2024-03-12T14:30:00.000Z', 'gap starts at 10:30 ET');
+  const missingSession = gapResult.issues.find(issue => issue.type === 'MISSING_SESSION');
+  check(errors, missingSession?.missingBars === 390, `missing 2024-03-13 session counts 390 bars (${missingSession?.missingBars})`);
+  check(errors, gapResult.issues.filter(issue => issue.type === 'ZERO_VOLUME').length === 1, 'zero-volume bar flagged');
+  check(errors, gapResult.bars.length === gappy.length + nextDay.length, 'flag policy leaves bars untouched');
+
+  const report = flagOnly.buildReport('SPY', '1Min', gapResult);
+  check(errors, !report.passed && report.failures.length === 1, `gap ratio fails the report (${report.failures.join('; ')})`);
+  check(errors, report.counts.BAR_GAP === 1 && report.counts.MISSING_SESSION === 1, 'report counts gap issues');
+
+  const filler = new DataQualityValidator({ barRepair: 'forward-fill' });
+  const filled = filler.checkBars('SPY', [...gappy, ...nextDay], '1Min');
+  check(errors, filled.barsFilled === 400, `forward-fill inserts 400 bars, got ${filled.barsFilled}`);
+  check(errors, filled.bars.length === 3 * 390, `forward-filled data covers three full sessions (${filled.bars.length})`);
+  const fillBar = filled.bars.find(bar => bar.date.toISOString() === '2024-03-12T14:30:00.000Z');
+  check(errors, fillBar?.close === gappy[59].close && fillBar?.volume === BigInt(0), 'filled bar is flat at the prior close');
+
+  // Bad tick that reverts is a spike; a move that holds is not
+  const spiky = buildSession('2024-03-12', 4, 9 * 60 + 30, 11 * 60);
+  const tick = spiky[40];
+  spiky[40] = { ...tick, close: tick.close * 1.03, high: tick.close * 1.03 };
+  const levelShift = spiky.slice(60).map(bar => ({ ...bar, open: bar.open * 1.02, high: bar.high * 1.02, low: bar.low * 1.02, close: bar.close * 1.02 }));
+  const spikeData = [...spiky.slice(0, 60), ...levelShift];
+  const spikeResult = flagOnly.checkBars('SPY', spikeData, '1Min');
+  const spikes = spikeResult.issues.filter(issue => issue.type === 'PRICE_SPIKE');
+  check(errors, spikes.length === 1, `exactly one spike flagged, got ${spikes.length}`);
+  check(errors, spikes[0]?.timestamp.getTime() === tick.date.getTime(), 'spike is the bad tick, not its reversal');
+
+  const dropped = new DataQualityValidator({ barRepair: 'drop' }).checkBars('SPY', spikeData, '1Min');
+  check(errors, dropped.bars.length === spikeData.length - 1 && dropped.barsDropped === 1, 'drop policy removes the spike bar');
+  const smoothed = filler.checkBars('SPY', spikeData, '1Min');
+  const smoothedTick = smoothed.bars.find(bar => bar.date.getTime() === tick.date.getTime());
+  check(errors, smoothedTick?.close === spikeData[39].close, 'forward-fill replaces the spike with the prior close');
+
+  // A big move into a session's last bar, or the data's, has nothing after it to revert: it stands
+  const closingRun = buildSession('2024-03-12', 4, 9 * 60 + 30, 16 * 60);
+  const lastPrint = closingRun[closingRun.length - 1];
+  closingRun[closingRun.length - 1] = { ...lastPrint, close: lastPrint.close * 1.03, high: lastPrint.close * 1.03 };
+  const closingDays = [...closingRun, ...buildSession('2024-03-13', 4, 9 * 60 + 30, 16 * 60)];
+  for (const [label, data] of [['session', closingDays], ['dataset', closingRun]] as const) {
+    const closing = new DataQualityValidator({ barRepair: 'drop' }).checkBars('SPY', data, '1Min');
+    check(errors, !closing.issues.some(issue => issue.type === 'PRICE_SPIKE') && closing.bars.length === data.length && closing.bars[389].close === closingRun[389].close,
+      `a move into the ${label}'s last bar is not a spike and survives the drop policy`);
+  }
+
+  // Options chains: crossed, locked, IV outliers and stale snapshots
+  const expiration = new Date('2024-03-12T20:00:00Z');
+  const asOf = new Date('2024-03-12T15:00:00Z');
+  const smile = buildSmile(expiration, 510);
+  const cleanChain = flagOnly.checkOptionsChain('SPY', smile, asOf, { snapshotTime: new Date('2024-03-12T14:55:00Z') });
+  check(errors, cleanChain.issues.length === 0, `smooth smile with a fresh snapshot has no issues (${cleanChain.issues.map(issue => issue.message).join('; ')})`);
+
+  const dirty = smile.map(quote => ({ ...quote }));
+  dirty[3].bid = dirty[3].ask + 0.2; // Crossed
+  dirty[5].bid = dirty[5].ask; // Locked
+  dirty[12].impliedVolatility = 0.6; // Off the smile
+  const dirtyResult = flagOnly.checkOptionsChain('SPY', dirty, asOf, { snapshotTime: new Date('2024-03-12T14:20:00Z') });
+  const types = dirtyResult.issues.map(issue => issue.type).sort().join(',');
+  check(errors, types === 'CROSSED_QUOTE,IV_OUTLIER,LOCKED_QUOTE,STALE_SNAPSHOT', `chain issues: ${types}`);
+  check(errors, dirtyResult.issues.find(issue => issue.type === 'IV_OUTLIER')?.contract?.strike === 512, 'IV outlier is the 512 strike');
+
+  const quoteDropper = new DataQualityValidator({ quoteRepair: 'drop' });
+  const droppedQuotes = quoteDropper.checkOptionsChain('SPY', dirty, asOf);
+  check(errors, droppedQuotes.chain.length === smile.length - 3 && droppedQuotes.quotesDropped === 3, 'drop policy removes bad quotes');
+  const quoteFiller = new DataQualityValidator({ quoteRepair: 'forward-fill' });
+  const filledQuotes = quoteFiller.checkOptionsChain('SPY', dirty, asOf, { previousChain: smile });
+  check(errors, filledQuotes.quotesFilled === 3 && filledQuotes.chain[3].bid === smile[3].bid, 'forward-fill restores prior quotes');
+
+  const chainReport = flagOnly.buildReport('SPY', '15Min', clean, [cleanChain, dirtyResult]);
+  check(errors, chainReport.quotesChecked === 2 * smile.length && chainReport.snapshotsChecked === 2, 'report counts quotes and snapshots');
+  check(errors, chainReport.failures.length === 2, `bad quote and stale snapshot ratios fail (${chainReport.failures.join('; ')})`);
+
+  // Enforcement and report output
+  let refused = false;
+  try {
+    new DataQualityValidator({ enforcement: 'refuse' }).enforce(report);
+  } catch (error) {
+    refused = error instanceof DataQualityError && error.report === report;
+  }
+  check(errors, refused, 'refuse enforcement throws DataQualityError');
+  flagOnly.enforce(report); // Annotate mode never throws
+
+  const originalLog = console.log;
+  console.log = () => {};
+  try {
+    // The fetcher only checks, and isValid only gates on, a validator the caller supplied
+    const gappy = BarResampler.resample(cleanMinutes, '15Min').filter((bar, i) => i < 10 || i >= 15);
+    const gappyProvider: MarketDataProvider = {
+      name: 'gappy', testConnection: async () => true, getMarketData: async () => gappy, getCurrentPrice: async () => 500, getOptionsChain: async () => []
+    };
+    const fetchConfig = {
+      symbol: 'SPY', startDate: new Date('2024-03-12T13:00:00Z'), endDate: new Date('2024-03-12T21:00:00Z'), timeframe: '15Min' as const, includeOptionsData: false, dataProvider: gappyProvider
+    };
+    const unchecked = await AlpacaHistoricalDataFetcher.fetchBacktestData(fetchConfig);
+    check(errors, unchecked.dataQuality.report === undefined && unchecked.marketData.length === gappy.length, 'no validator, no checks or report');
+    check(errors, AlpacaHistoricalDataFetcher.validateDataForBacktest(unchecked).isValid, 'unchecked data is not failed on default thresholds');
+    const checked = await AlpacaHistoricalDataFetcher.fetchBacktestData({ ...fetchConfig, qualityValidator: flagOnly });
+    check(errors, checked.dataQuality.report?.passed === false && !AlpacaHistoricalDataFetcher.validateDataForBacktest(checked).isValid,
+      'a supplied validator\'s failed report makes the data invalid');
+
+    // A refusing validator rejects bad quotes before any bar is processed
+    const expiration = new Date('2024-03-05T21:00:00Z');
+    const session = buildSession('2024-03-05', 5, 570, 600);
+    const sessionProvider: MarketDataProvider = {
+      name: 'fixed', testConnection: async () => true, getMarketData: async () => session, getCurrentPrice: async () => 500, getOptionsChain: async () => []
+    };
+    const core = new BacktestCore({
+      timeframe: '1Min',
+      quoteRefresh: 'BAR',
+      quoteProvider: (underlying, asOf, price) => buildZeroDteChain(price, expiration).map(option => ({ ...option, bid: option.ask + 0.1 })),
+      costModel: new MidpointCostModel(),
+      dataProvider: sessionProvider,
+      qualityValidator: new DataQualityValidator({ enforcement: 'refuse' })
+    });
+    const events: BacktestEvent[] = [];
+    core.onEvent(event => events.push(event));
+    let refusedRun = false;
+    await core.run(buildHookRecorder([], []), { strategyId: 'refuse-test', startDate: session[0].date, endDate: session[session.length - 1].date, initialCapital: 25000 })
+      .catch(error => { refusedRun = error instanceof DataQualityError; });
+    check(errors, refusedRun && events.length === 0, `crossed quotes are refused before the first bar (${events.length} events dispatched)`);
+  } finally {
+    console.log = originalLog;
+  }
+
+  const reportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-quality-'));
+  try {
+    const reportPath = new DataQualityValidator({ reportDir }).writeReport(report);
+    const written = JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+    check(errors, written.counts.BAR_GAP === 1 && written.passed === false, 'report is written as JSON');
+  } finally {
+    fs.rmSync(reportDir, { recursive: true, force: true });
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Data quality validator: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testSymbolUniverse(): Promise<TestResult> {
+  console.log('\n🌐 Testing Symbol Universe...');
+  const errors: string[] = [];
+
+  // Contract specs
+  const spx = SymbolUniverse.getSpec('spx');
+  check(errors, spx.optionRoot === 'SPXW' && spx.strikeIncrement === 5, 'SPX trades SPXW dailies on a 5-point grid');
+  check(errors, spx.settlement === 'CASH' && spx.exerciseStyle === 'EUROPEAN', 'SPX is cash-settled and European');
+  check(errors, SymbolUniverse.getSpec('QQQ').settlement === 'PHYSICAL', 'QQQ is physically settled');
+  check(errors, SymbolUniverse.getSpec('XSP').contractMultiplier === 100, 'XSP uses a 100 multiplier');
+
+  // Strike grid and option-symbol parsing
+  check(errors, SymbolUniverse.roundToStrike('SPX', 4512.3) === 4510, `SPX 4512.3 → 4510, got ${SymbolUniverse.roundToStrike('SPX', 4512.3)}`);
+  check(errors, SymbolUniverse.roundToStrike('SPX', 4513) === 4515, 'SPX 4513 → 4515');
+  check(errors, SymbolUniverse.roundToStrike('IWM', 201.6) === 202, 'IWM 201.6 → 202');
+  check(errors, SymbolUniverse.underlyingOf('SPXW240315P05000000') === 'SPX', 'SPXW option maps to SPX');
+  check(errors, SymbolUniverse.underlyingOf('SPX240315P05000000') === 'SPX', 'SPX monthly maps to SPX');
+  check(errors, SymbolUniverse.underlyingOf('SPY240315C00510000/SPY240315C00515000') === 'SPY', 'SPY spread maps to SPY');
+  check(errors, SymbolUniverse.underlyingOf('XSP240315C00510000') === 'XSP', 'XSP option maps to XSP');
+
+  // Universe construction
+  const universe = new SymbolUniverse([' spy', 'QQQ', 'SPY', 'spx ']);
+  check(errors, universe.symbols.join(',') === 'SPY,QQQ,SPX', `normalized and de-duplicated, got ${universe.symbols.join(',')}`);
+  check(errors, universe.has('qqq') && !universe.has('IWM'), 'membership is case-insensitive');
+  let unknown = false;
+  try {
+    new SymbolUniverse(['SPY', 'TSLA']);
+  } catch (error) {
+    unknown = error instanceof UnknownUnderlyingError && error.symbol === 'TSLA';
+  }
+  check(errors, unknown, 'unknown underlyings are rejected');
+  const previousEnv = process.env.TRADING_SYMBOLS;
+  process.env.TRADING_SYMBOLS = 'IWM,XSP';
+  check(errors, SymbolUniverse.fromEnv().symbols.join(',') === 'IWM,XSP', 'universe reads TRADING_SYMBOLS');
+  if (previousEnv === undefined) delete process.env.TRADING_SYMBOLS; else process.env.TRADING_SYMBOLS = previousEnv;
+
+  // Dollar exposure: 10 SPY deltas and 1 SPX delta are the same dollars at a 10x price
+  const exposure = SymbolUniverse.aggregateExposure([
+    { underlying: 'SPY', contracts: 10, delta: 1, gamma: 0.1, theta: -5, vega: 2, premium: 1.5 },
+    { underlying: 'SPX', contracts: 1, delta: 0.1, gamma: 0.001, theta: -0.5, vega: 0.2, premium: 15 },
+    { underlying: 'SPX', contracts: 1, delta: -0.1, gamma: 0, theta: 0, vega: 0, premium: 5 }
+  ], { SPY: 450, SPX: 4500 });
+  const close = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+  check(errors, close(exposure.byUnderlying.SPY.dollarDelta, 450), `SPY $delta = 1 × 100 × 450 × 1%, got ${exposure.byUnderlying.SPY.dollarDelta}`);
+  check(errors, close(exposure.byUnderlying.SPX.dollarDelta, 0), 'offsetting SPX deltas net to zero');
+  check(errors, close(exposure.byUnderlying.SPY.dollarGamma, 0.1 * 100 * 450 * 450 * 0.0001), 'SPY $gamma scales with price²');
+  check(errors, close(exposure.total.dollarTheta, -550), `total $theta sums multipliers, got ${exposure.total.dollarTheta}`);
+  check(errors, close(exposure.total.notional, 1500 + 1500 + 500), `notional is premium × contracts × multiplier, got ${exposure.total.notional}`);
+  check(errors, exposure.byUnderlying.SPX.positions === 2 && exposure.total.contracts === 12, 'positions and contracts are counted');
+  check(errors, close(exposure.largestUnderlyingShare, 1), 'all dollar delta sits in SPY');
+
+  // Beta-weighted to SPY: a QQQ delta counts 1.15×, its gamma 1.15²×; theta per hour is a slice of a trading day
+  const portfolio = new PortfolioGreeksAggregator().aggregate([
+    { underlying: 'QQQ', contracts: 2, delta: 1, gamma: 0.02, theta: -13, vega: 1, premium: 2 },
+    { underlying: 'SPX', contracts: 1, delta: -0.2, gamma: 0.001, theta: -1, vega: 0.5, premium: 10 }
+  ], { QQQ: 400, SPX: 4500, SPY: 450 });
+  const qqq = portfolio.byUnderlying.QQQ;
+  const hourFraction = 60 * GreeksEngine.getTimeModel().minuteYears / GreeksEngine.getTimeModel().dayYears;
+  check(errors, close(qqq.betaWeightedDelta, 400 * 1.15), `QQQ β-weighted $delta = 1 × 100 × 400 × 1% × 1.15, got ${qqq.betaWeightedDelta}`);
+  check(errors, close(qqq.betaWeightedGamma, qqq.dollarGamma * 1.15 * 1.15), 'β-weighted $gamma scales with β²');
+  check(errors, close(portfolio.total.betaWeightedDelta, 460 - 900), `β-weighted $delta nets across underlyings, got ${portfolio.total.betaWeightedDelta}`);
+  check(errors, close(portfolio.total.benchmarkDelta!, -440 / 4.5), `benchmark delta is in SPY shares, got ${portfolio.total.benchmarkDelta}`);
+  check(errors, close(portfolio.total.thetaPerHour, -1400 * hourFraction), `theta per hour is $theta × hours/day, got ${portfolio.total.thetaPerHour}`);
+  check(errors, hourFraction > 0.1 && hourFraction < 0.2, `a trading hour is 1/6.5 of a session, got ${hourFraction}`);
+  check(errors, portfolio.total.delta === null && portfolio.total.vega === null, 'raw Greeks are not summed across underlyings');
+  const single = new PortfolioGreeksAggregator().aggregate([
+    { underlying: 'QQQ', contracts: 2, delta: 1, gamma: 0.02, theta: -13, vega: 1, premium: 2 },
+    { underlying: 'qqq', contracts: 1, delta: -0.2, gamma: 0.001, theta: -1, vega: 0.5, premium: 3 }
+  ], { QQQ: 400 });
+  check(errors, close(single.total.delta!, 0.8) && close(single.total.vega!, 1.5), 'raw Greeks are summed within one underlying');
+  const overridden = new PortfolioGreeksAggregator({ betas: { QQQ: 2 } });
+  check(errors, overridden.betaOf('qqq') === 2 && overridden.betaOf('SPY') === 1 && overridden.betaOf('XYZ') === 1, 'configured betas override specs; unknowns default to 1');
+  check(errors, new PortfolioGreeksAggregator().aggregate([], {}).total.benchmarkDelta === null, 'no benchmark price leaves benchmark delta unset');
+
+  // Multi-underlying backtest: one time-ordered pass, one data-quality report per underlying
+  const strategy = {
+    id: 'universe-test', name: 'Universe Test', userId: 'test',
+    rsiPeriod: 14, rsiOverbought: 70, rsiOversold: 30, macdFast: 12, macdSlow: 26, macdSignal: 9, bbPeriod: 20, bbStdDev: 2,
+    stopLossPercent: 0.5, takeProfitPercent: 0.5, positionSizePercent: 0.02, maxPositions: 3,
+    daysToExpiration: 0, deltaRange: 0.5, underlyings: ['SPY', 'SPX'],
+    isActive: true, createdAt: new Date(), updatedAt: new Date()
+  } as Strategy;
+  const provider = new SyntheticMarketDataProvider();
+  const originalLog = console.log;
+  console.log = () => {};
+  let results: Awaited<ReturnType<typeof BacktestEngine.runBacktest>> | undefined;
+  try {
+    results = await BacktestEngine.runBacktest(
+      strategy,
+      { strategyId: 'universe-test', startDate: new Date('2024-03-04T14:30:00Z'), endDate: new Date('2024-03-13T20:00:00Z'), initialCapital: 25000 },
+      provider,
+      undefined,
+      new DataQualityValidator()
+    );
+  } finally {
+    console.log = originalLog;
+  }
+  const spyPrice = await provider.getCurrentPrice('SPY');
+  const spxPrice = await provider.getCurrentPrice('SPX');
+  check(errors, spxPrice > spyPrice * 5, `synthetic SPX starts at its own reference price (${spxPrice.toFixed(0)} vs SPY ${spyPrice.toFixed(0)})`);
+  check(errors, results!.dataQuality?.map(report => report.symbol).join(',') === 'SPY,SPX', 'one data-quality report per underlying');
+  const barsPerSymbol = results!.dataQuality![0].barsChecked;
+  check(errors, results!.equityCurve.length === barsPerSymbol - 50, `underlyings sharing a timestamp share one equity point (${results!.equityCurve.length} equity points)`);
+  const dates = results!.equityCurve.map(point => point.date);
+  check(errors, dates.every((date, i) => i === 0 || date > dates[i - 1]), 'equity points are unique timestamps in time order');
+  check(errors, results!.trades.every(trade => trade.underlying === 'SPY' || trade.underlying === 'SPX'), 'every trade records its underlying');
+  const closed = results!.trades.filter(trade => trade.exitDate);
+  const parts = (trade: BacktestTrade) => trade.attribution!.delta + trade.attribution!.gamma + trade.attribution!.theta + trade.attribution!.vega + trade.attribution!.costs + trade.attribution!.residual;
+  check(errors, closed.every(trade => trade.attribution && trade.regime && Math.abs(parts(trade) - (trade.pnl || 0)) < 1e-6), 'closed trades carry a regime and a P&L attribution that adds up');
+  check(errors, results!.attribution.total.trades === closed.length && Math.abs(results!.attribution.total.total - closed.reduce((sum, trade) => sum + (trade.pnl || 0), 0)) < 1e-6,
+    'attribution report covers every closed trade');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Symbol universe: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testOptionContractId(): Promise<TestResult> {
+  console.log('\n🏷️  Testing Option Contract IDs...');
+  const errors: string[] = [];
+  const same = (a: OptionContract, b: OptionContract) =>
+    a.root === b.root && a.expiration === b.expiration && a.side === b.side && a.strike === b.strike;
+
+  // Round trips across root lengths, sides and strike precision
+  const contracts: OptionContract[] = [
+    { root: 'A', expiration: '2024-03-15', side: 'CALL', strike: 150 },
+    { root: 'SPY', expiration: '2024-03-15', side: 'CALL', strike: 510 },
+    { root: 'SPY', expiration: '2024-03-15', side: 'PUT', strike: 512.5 },
+    { root: 'SPXW', expiration: '2024-12-31', side: 'PUT', strike: 5012.5 },
+    { root: 'BRKB1', expiration: '2025-01-17', side: 'CALL', strike: 12.125 },
+    { root: 'GOOGL1', expiration: '2099-12-31', side: 'PUT', strike: 0.5 },
+    { root: 'XSP', expiration: '2000-01-03', side: 'CALL', strike: 99999.999 }
+  ];
+  for (const contract of contracts) {
+    const compact = OptionContractId.format(contract);
+    const osi = OptionContractId.formatOsi(contract);
+    check(errors, compact.length === contract.root.length + 15, `${compact} is root + 15 characters`);
+    check(errors, osi.length === 21 && osi.startsWith(contract.root.padEnd(6, ' ')), `OSI form pads the root to six (${osi})`);
+    check(errors, same(OptionContractId.parse(compact), contract), `${compact} round-trips`);
+    check(errors, same(OptionContractId.parse(osi), contract), `"${osi}" round-trips`);
+  }
+
+  // Known symbols
+  check(errors, OptionContractId.format(contracts[1]) === 'SPY240315C00510000', 'SPY 510 call formats as Alpaca sends it');
+  check(errors, OptionContractId.format(contracts[3]) === 'SPXW241231P05012500', 'SPXW fractional strike formats in thousandths');
+  const parsed = OptionContractId.parse(' spxw240315p05000000 ');
+  check(errors, parsed.root === 'SPXW' && parsed.side === 'PUT' && parsed.strike === 5000, 'parse trims and uppercases');
+  check(errors, OptionContractId.build('SPXW', '2024-03-15', 'PUT', 5000) === 'SPXW240315P05000000', 'build matches format');
+  check(errors, OptionContractId.formatStrike(512.5) === '00512500', 'strike 512.5 → 00512500');
+
+  // Dates are New York days; expiration is the session close (early close on half-days)
+  check(errors, OptionContractId.formatExpiration(new Date('2024-03-16T02:00:00Z')) === '240315', '10 PM Friday in New York is still Friday');
+  check(errors, OptionContractId.expirationTime(OptionContractId.parse('SPY240315C00510000')).toISOString() === '2024-03-15T20:00:00.000Z', 'regular expiration at 4:00 PM ET');
+  check(errors, OptionContractId.expirationTime(OptionContractId.parse('SPY241129C00600000')).toISOString() === '2024-11-29T18:00:00.000Z', 'day after Thanksgiving expires at 1:00 PM ET');
+
+  // Weekly and SPXW roots resolve to their underlying
+  check(errors, SymbolUniverse.underlyingOf('SPXW241129P05900000') === 'SPX', 'SPXW weekly maps to SPX');
+  check(errors, SymbolUniverse.underlyingOf('SPY   240315C00510000') === 'SPY', 'OSI-padded SPY maps to SPY');
+  check(errors, SymbolUniverse.underlyingOf('XSPW240315C00510000') === 'XSPW', 'unknown roots map to themselves');
+
+  // Rejects
+  const rejects: Array<[string, string]> = [
+    ['SPY240230C00510000', 'February 30th'],
+    ['SPY241315C00510000', 'month 13'],
+    ['SPY240315X00510000', 'side X'],
+    ['SPY240315C0051000', '7-digit strike'],
+    ['SPY240315C00000000', 'zero strike'],
+    ['TOOLONG240315C00510000', '7-character root'],
+    ['1SPY240315C00510000', 'root starting with a digit'],
+    ['240315C00510000', 'missing root'],
+    ['SPY', 'missing tail'],
+    ['SPY 240315C00510000', 'space inside a compact symbol'],
+    ['', 'empty string']
+  ];
+  for (const [symbol, reason] of rejects) {
+    let rejected = false;
+    try {
+      OptionContractId.parse(symbol);
+    } catch (error) {
+      rejected = error instanceof InvalidOptionSymbolError;
+    }
+    check(errors, rejected, `rejects ${reason} (${symbol})`);
+    check(errors, OptionContractId.tryParse(symbol) === null && !OptionContractId.isValid(symbol), `tryParse returns null for ${reason}`);
+  }
+
+  const formatRejects: Array<[() => string, string]> = [
+    [() => OptionContractId.formatStrike(12.1234), 'four-decimal strike'],
+    [() => OptionContractId.formatStrike(0), 'zero strike'],
+    [() => OptionContractId.formatStrike(100000), 'strike above 99999.999'],
+    [() => OptionContractId.formatStrike(NaN), 'NaN strike'],
+    [() => OptionContractId.build('SPY', '2024-02-30', 'CALL', 500), 'impossible expiration'],
+    [() => OptionContractId.build('SPY', '2100-01-15', 'CALL', 500), 'expiration past 2099'],
+    [() => OptionContractId.build('SPY1234', '2024-03-15', 'CALL', 500), '7-character root']
+  ];
+  for (const [attempt, reason] of formatRejects) {
+    let rejected = false;
+    try {
+      attempt();
+    } catch (error) {
+      rejected = error instanceof InvalidOptionSymbolError;
+    }
+    check(errors, rejected, `format rejects ${reason}`);
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Option contract IDs: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testSyntheticMarketSimulator(): Promise<TestResult> {
+  console.log('\n🎲 Testing Synthetic Market Simulator...');
+  const errors: string[] = [];
+  const sessionStart = new Date('2024-03-05T14:30:00Z');
+  const sessionEnd = new Date('2024-03-05T21:00:00Z');
+  const asOf = new Date('2024-03-05T15:00:00Z');
+  const fingerprint = (bars: MarketData[]) => bars.map(bar => `${bar.date.getTime()}:${bar.open}:${bar.high}:${bar.low}:${bar.close}:${bar.volume}`).join('|');
+
+  // Same seed replays the same market, whatever order it is queried in
+  const simulator = new SyntheticMarketSimulator({ seed: 7 });
+  const minuteBars = simulator.getBars('SPY', sessionStart, sessionEnd, '1Min');
+  const chain = simulator.getOptionsChain('SPY', { asOf });
+  const replay = new SyntheticMarketSimulator({ seed: 7 });
+  replay.getBars('SPY', new Date('2024-06-03T13:30:00Z'), new Date('2024-06-03T20:00:00Z'), '5Min');
+  check(errors, fingerprint(replay.getBars('SPY', sessionStart, sessionEnd, '1Min')) === fingerprint(minuteBars), 'same seed gives identical bars regardless of query order');
+  check(errors, JSON.stringify(replay.getOptionsChain('SPY', { asOf })) === JSON.stringify(chain), 'same seed gives an identical chain');
+  const otherSeed = new SyntheticMarketSimulator({ seed: 8 }).getBars('SPY', sessionStart, sessionEnd, '1Min');
+  check(errors, fingerprint(otherSeed) !== fingerprint(minuteBars), 'a different seed gives a different path');
+
+  // Every timeframe and the chain's spot come from the same minute path
+  const quarterHours = simulator.getBars('SPY', sessionStart, sessionEnd, '15Min');
+  const resampled = BarResampler.resample(minuteBars, '15Min');
+  check(errors, minuteBars.length === 390 && quarterHours.length === 26, `full session bars (${minuteBars.length} x 1Min, ${quarterHours.length} x 15Min)`);
+  check(errors, resampled.every((bar, i) => bar.open === quarterHours[i].open && bar.close === quarterHours[i].close && bar.high === quarterHours[i].high && bar.low === quarterHours[i].low && bar.volume === quarterHours[i].volume),
+    '15Min bars equal 1Min bars resampled');
+  const daily = simulator.getBars('SPY', new Date('2024-03-05T12:00:00Z'), new Date('2024-03-05T23:00:00Z'), '1Day')[0];
+  check(errors, daily.open === minuteBars[0].open && daily.close === minuteBars[389].close, 'daily bar spans the minute path');
+  check(errors, quarterHours.every(bar => simulator.getPrice('SPY', bar.date) === bar.open), 'getPrice at a bar open is the bar open');
+  check(errors, simulator.getPrice('SPY', new Date('2024-03-09T15:00:00Z')) === simulator.getBars('SPY', new Date('2024-03-08T12:00:00Z'), new Date('2024-03-08T23:00:00Z'), '1Day')[0].close,
+    'weekend price is Friday close');
+  check(errors, simulator.getBars('SPY', new Date('2024-11-29T14:30:00Z'), new Date('2024-11-29T21:00:00Z'), '1Min').length === 210, 'half-day session has 210 minutes');
+
+  // Chain: OCC symbols, sane quotes, skewed surface, parity, activity around the money
+  const spot = simulator.getPrice('SPY', asOf);
+  check(errors, chain.length === 82 && chain.every(option => OptionContractId.isValid(option.symbol)), `41 strikes × 2 sides with OCC symbols, got ${chain.length}`);
+  check(errors, chain.every(option => option.bid > 0 && option.ask > option.bid), 'every quote has 0 < bid < ask');
+  check(errors, simulator.impliedVolatility(spot, spot * 0.95, 0.1) > simulator.impliedVolatility(spot, spot * 1.05, 0.1), 'downside strikes carry more IV (skew)');
+  const timeToExpiration = (MarketCalendar.getSession('2024-03-05')!.close.getTime() - asOf.getTime()) / (365 * 24 * 60 * 60 * 1000);
+  const parityGaps = chain.filter(option => option.side === 'CALL').map(call => {
+    const put = chain.find(option => option.side === 'PUT' && option.strike === call.strike)!;
+    return Math.abs(call.last! - put.last! - (spot - call.strike * Math.exp(-0.05 * timeToExpiration)));
+  });
+  check(errors, Math.max(...parityGaps) < 0.02, `put-call parity holds on theoretical prices (max gap ${Math.max(...parityGaps).toFixed(3)})`);
+  const calls = chain.filter(option => option.side === 'CALL');
+  const busiest = calls.reduce((best, option) => option.volume! > best.volume! ? option : best);
+  check(errors, Math.abs(busiest.strike - spot) < 3, `volume peaks at the money (${busiest.strike} vs spot ${spot.toFixed(2)})`);
+  check(errors, calls[0].ask - calls[0].bid > calls[20].ask - calls[20].bid, 'spreads widen away from the money');
+
+  // Underlyings co-move through the market factor; scenarios change the regime
+  const yearStart = new Date('2024-01-02T12:00:00Z');
+  const yearEnd = new Date('2024-12-31T23:00:00Z');
+  const returns = (bars: MarketData[]) => bars.slice(1).map((bar, i) => Math.log(bar.close / bars[i].close));
+  const spyReturns = returns(simulator.getBars('SPY', yearStart, yearEnd, '1Day'));
+  const spxReturns = returns(simulator.getBars('SPX', yearStart, yearEnd, '1Day'));
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const covariance = (a: number[], b: number[]) => mean(a.map((value, i) => (value - mean(a)) * (b[i] - mean(b))));
+  const correlation = covariance(spyReturns, spxReturns) / Math.sqrt(covariance(spyReturns, spyReturns) * covariance(spxReturns, spxReturns));
+  check(errors, correlation > 0.6, `SPY and SPX daily returns are correlated (${correlation.toFixed(2)})`);
+  const realized = (scenario: 'calm' | 'selloff') => Math.sqrt(mean(returns(new SyntheticMarketSimulator({ seed: 7, scenario }).getBars('SPY', yearStart, yearEnd, '1Day')).map(r => r * r)) * 252);
+  check(errors, realized('selloff') > realized('calm') * 2, `selloff realizes far more volatility than calm (${realized('selloff').toFixed(2)} vs ${realized('calm').toFixed(2)})`);
+  let unknownScenario = false;
+  try {
+    new SyntheticMarketSimulator({ scenario: 'melt-up' as any });
+  } catch (error) {
+    unknownScenario = true;
+  }
+  check(errors, unknownScenario, 'unknown scenarios are rejected');
+
+  // Environment seed and the provider's historical chains
+  const previousSeed = process.env.SYNTHETIC_SEED;
+  process.env.SYNTHETIC_SEED = '7';
+  const fromEnv = SyntheticMarketSimulator.fromEnv();
+  check(errors, fromEnv.config.seed === 7 && fingerprint(fromEnv.getBars('SPY', sessionStart, sessionEnd, '1Min')) === fingerprint(minuteBars), 'fromEnv reads SYNTHETIC_SEED');
+  if (previousSeed === undefined) delete process.env.SYNTHETIC_SEED; else process.env.SYNTHETIC_SEED = previousSeed;
+  const provider = new SyntheticMarketDataProvider(simulator);
+  const providerChain = await provider.getOptionsChain('SPY', asOf);
+  check(errors, JSON.stringify(providerChain) === JSON.stringify(chain), 'provider prices a past bar time off the simulated path');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Synthetic market simulator: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+/**
+ * 0-DTE chain around `spot`: intrinsic value plus time value that fades away from the money
+ */
+function buildZeroDteChain(spot: number, expiration: Date): OptionsChain[] {
+  const chain: OptionsChain[] = [];
+  for (let strike = 490; strike <= 510; strike++) {
+    for (const side of ['CALL', 'PUT'] as const) {
+      const intrinsic = side === 'CALL' ? Math.max(spot - strike, 0) : Math.max(strike - spot, 0);
+      const value = intrinsic + Math.max(0.05, 1 - 0.1 * Math.abs(strike - spot));
+      chain.push({ symbol: `SPY_${side[0]}_${strike}`, expiration, strike, side, bid: value - 0.05, ask: value + 0.05, impliedVolatility: 0.2 });
+    }
+  }
+  return chain;
+}
+
+async function testBacktestCore(): Promise<TestResult> {
+  console.log('\n🔁 Testing Backtest Core...');
+  const errors: string[] = [];
+  const bars = buildSession('2024-03-05', 5, 570, 630); // 9:30-10:30 ET, drifting up from $500
+  const expiration = new Date('2024-03-05T21:00:00Z'); // 16:00 ET
+  const provider: MarketDataProvider = {
+    name: 'fixed',
+    testConnection: async () => true,
+    getMarketData: async () => bars,
+    getCurrentPrice: async () => bars[bars.length - 1].close,
+    getOptionsChain: async () => []
+  };
+
+  // Bar 1 sells a put spread, bar 2 buys a call, bar 3 tries a third position, bar 10 sells the call
+  const strategy: TradingStrategy = {
+    name: 'Core Test',
+    warmupBars: 5,
+    parameters: [],
+    onQuote(context: StrategyContext): TradingSignal[] {
+      const step = context.history.length - 5;
+      const option = (side: 'CALL' | 'PUT', strike: number) => context.chain.find(quote => quote.side === side && quote.strike === strike)!;
+      if (step === 1) {
+        return [{ action: 'OPEN', label: 'BULL_PUT_SPREAD', quantity: 2, reason: 'test', regime: 'BULLISH', legs: [
+          { option: option('PUT', 500), quantity: 1, side: 'SHORT' },
+          { option: option('PUT', 495), quantity: 1, side: 'LONG' }
+        ] }];
+      }
+      if (step === 2 || step === 3) {
+        return [{ action: 'OPEN', label: 'CALL', quantity: 3, reason: 'test', regime: 'BULLISH', legs: [{ option: option('CALL', 500), quantity: 1, side: 'LONG' }] }];
+      }
+      const call = context.positions.find(position => position.label === 'CALL');
+      return step === 10 && call ? [{ action: 'CLOSE', positionId: call.id, reason: 'SIGNAL_EXIT' }] : [];
+    }
+  };
+
+  let chainRequests = 0;
+  const core = new BacktestCore({
+    timeframe: '1Min',
+    quoteRefresh: 'BAR',
+    quoteProvider: (underlying, asOf, price) => {
+      chainRequests++;
+      return buildZeroDteChain(price, expiration);
+    },
+    costModel: new MidpointCostModel({ commissionPerContract: 0.65 }),
+    riskManager: new PositionLimitRiskManager({ maxOpenPositions: 2 }),
+    dataProvider: provider
+  });
+  const events: BacktestEvent[] = [];
+  core.onEvent(event => events.push(event));
+
+  const originalLog = console.log;
+  console.log = () => {};
+  let result: Awaited<ReturnType<BacktestCore['run']>> | undefined;
+  try {
+    result = await core.run(strategy, { strategyId: 'core-test', startDate: new Date('2024-03-05T14:30:00Z'), endDate: new Date('2024-03-05T21:30:00Z'), initialCapital: 25000 });
+  } finally {
+    console.log = originalLog;
+  }
+  const { eventCounts, trades, rejectedOrders } = result!;
+  const close = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+
+  // Event flow
+  check(errors, eventCounts.BAR === 55 && eventCounts.QUOTE === 55 && result!.equityCurve.length === 55, `every bar after warm-up is quoted and marked (${eventCounts.BAR} bars)`);
+  check(errors, chainRequests === 55, `per-bar quote refresh asks for a chain every bar, got ${chainRequests}`);
+  check(errors, eventCounts.SIGNAL === 4 && eventCounts.ORDER === 4 && eventCounts.FILL === 3, `3 opens and a close give 4 orders and 3 fills, got ${JSON.stringify(eventCounts)}`);
+  check(errors, eventCounts.EXPIRATION === 1 && eventCounts.SESSION_CLOSE === 1, 'the session close expires the spread');
+  check(errors, events.length === Object.values(eventCounts).reduce((sum, count) => sum + count, 0), 'listeners see every event');
+  check(errors, events.every((event, i) => event.type !== 'BAR' || events[i + 1].type === 'QUOTE'), 'each bar is quoted before anything else happens');
+  const fills = events.filter((event): event is FillEvent => event.type === 'FILL');
+  check(errors, fills.every(fill => events.indexOf(fill) > events.findIndex(event => event.type === 'ORDER' && event.order === fill.order)), 'fills follow their orders');
+
+  // Risk review
+  check(errors, rejectedOrders.length === 1 && (rejectedOrders[0].rejectReason || '').startsWith('Max open positions'), 'the third position is rejected by the position limit');
+
+  // Fills, close and settlement
+  check(errors, trades.length === 2, `the call is closed and the spread settles, got ${trades.length} trades`);
+  const callTrade = trades.find(trade => trade.side === 'CALL');
+  const [callOpen, callClose] = fills.filter(fill => fill.order.label === 'CALL').map(fill => fill.fill);
+  check(errors, !!callTrade && !!callClose && callTrade.exitReason === 'SIGNAL_EXIT' && close(callTrade.pnl || 0, (callClose.price - callOpen.price) * 3 * 100 - callOpen.fees - callClose.fees),
+    'closed call P&L is the fill-to-fill price change less commissions');
+  check(errors, !!callOpen && close(callOpen.price, callOpen.mark) && close(callOpen.fees, 3 * 0.65), 'midpoint fills at the mark and charge commission per contract');
+  const spreadTrade = trades.find(trade => trade.side === 'BULL_PUT_SPREAD');
+  check(errors, !!spreadTrade && spreadTrade.exitReason === 'EXPIRATION' && spreadTrade.exitPrice === 0 && spreadTrade.exitDate!.getTime() === expiration.getTime(),
+    'an out-of-the-money spread settles at zero intrinsic value at the close');
+  check(errors, !!spreadTrade && spreadTrade.entryPrice > 0.4 && close(spreadTrade.pnl || 0, spreadTrade.entryPrice * 2 * 100 - 4 * 0.65), 'expired credit spread keeps its credit less entry commissions');
+  const parts = (trade: BacktestTrade) => trade.attribution!.delta + trade.attribution!.gamma + trade.attribution!.theta + trade.attribution!.vega + trade.attribution!.costs + trade.attribution!.residual;
+  check(errors, trades.every(trade => trade.attribution && Math.abs(parts(trade) - (trade.pnl || 0)) < 1e-6), 'every trade\'s attribution adds up to its P&L');
+  check(errors, close(result!.performance.totalReturn, trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0)), 'performance totals the trades');
+  check(errors, result!.equityCurve.every((point, i) => point.date === bars[i + 5].date.toISOString()), 'equity points carry their bar\'s full timestamp');
+
+  // Daily bars are stamped at midnight; the regular-hours filter leaves them alone
+  const dailyBars = Array.from({ length: 12 }, (_, i) => ({ ...bars[0], id: `daily_${i}`, date: new Date(Date.UTC(2024, 2, 4 + i, 5)) }));
+  const daily = new BacktestCore({
+    timeframe: '1Day',
+    regularHoursOnly: true,
+    quoteProvider: (underlying, asOf, price) => buildZeroDteChain(price, expiration),
+    costModel: new MidpointCostModel(),
+    dataProvider: { ...provider, getMarketData: async () => dailyBars }
+  });
+  console.log = () => {};
+  try {
+    const dailyResult = await daily.run(buildHookRecorder([], []), { strategyId: 'daily-test', startDate: dailyBars[0].date, endDate: dailyBars[11].date, initialCapital: 25000 });
+    check(errors, dailyResult.eventCounts.BAR === 7 && dailyResult.equityCurve.length === 7, `regularHoursOnly keeps daily bars (${dailyResult.eventCounts.BAR} of 7 processed)`);
+  } finally {
+    console.log = originalLog;
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Backtest core: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+/**
+ * Records every hook call; buys a call on the `entryStep`-th warm bar, sells a put spread
+ * that expires with the session on the next and closes the call three bars later
+ */
+function buildHookRecorder(hooks: string[], modes: StrategyMode[]): TradingStrategy {
+  return {
+    name: 'Hook Recorder',
+    warmupBars: 5,
+    parameters: [
+      { name: 'entryStep', type: 'integer', default: 2, min: 1, max: 50, step: 1, description: 'Warm bar the call is bought on' },
+      { name: 'quantity', type: 'number', default: 1, min: 1, max: 5, step: 1, description: 'Units per position' },
+      { name: 'spread', type: 'boolean', default: true, description: 'Also sell the put spread' }
+    ],
+    onSessionStart: session => { hooks.push(`start:${session.day}`); },
+    onBar: context => { hooks.push('bar'); modes.push(context.mode); },
+    onQuote(context: StrategyContext): TradingSignal[] {
+      hooks.push('quote');
+      const step = context.history.length - 5;
+      const entryStep = context.params.entryStep as number;
+      const quantity = context.params.quantity as number;
+      const option = (side: 'CALL' | 'PUT', strike: number) => context.chain.find(quote => quote.side === side && quote.strike === strike)!;
+      if (step === entryStep) {
+        return [{ action: 'OPEN', label: 'CALL', quantity, reason: 'test', legs: [{ option: option('CALL', 500), quantity: 1, side: 'LONG' }] }];
+      }
+      if (step === entryStep + 1 && context.params.spread) {
+        return [{ action: 'OPEN', label: 'BULL_PUT_SPREAD', quantity, reason: 'test', legs: [
+          { option: option('PUT', 500), quantity: 1, side: 'SHORT' },
+          { option: option('PUT', 495), quantity: 1, side: 'LONG' }
+        ] }];
+      }
+      const call = context.positions.find(position => position.label === 'CALL');
+      return step === entryStep + 3 && call ? [{ action: 'CLOSE', positionId: call.id, reason: 'SIGNAL_EXIT' }] : [];
+    },
+    onFill: fill => { hooks.push(`fill:${fill.action}`); },
+    onPositionUpdate: position => { hooks.push(`update:${position.label}`); },
+    onPositionClosed: (position, trade) => { hooks.push(`closed:${trade.exitReason}`); },
+    onSessionEnd: session => { hooks.push(`end:${session.day}`); }
+  };
+}
+
+async function testStrategyPlugins(): Promise<TestResult> {
+  console.log('\n🧩 Testing Strategy Plugins...');
+  const errors: string[] = [];
+  const bars = buildSession('2024-03-05', 5, 570, 600); // 9:30-10:00 ET
+  const expiration = new Date('2024-03-05T21:00:00Z');
+  const recorder = buildHookRecorder([], []);
+
+  // Declared parameters
+  const defaults = StrategyHost.resolveParameters(recorder);
+  check(errors, defaults.entryStep === 2 && defaults.quantity === 1 && defaults.spread === true, 'unset parameters take their declared defaults');
+  check(errors, StrategyHost.resolveParameters(recorder, { entryStep: 4 }).entryStep === 4, 'overrides replace defaults');
+  const rejects = (overrides: Record<string, number | boolean | string>) => {
+    try {
+      StrategyHost.resolveParameters(recorder, overrides);
+      return false;
+    } catch {
+      return true;
+    }
+  };
+  check(errors, rejects({ stopLoss: 0.5 }), 'an undeclared parameter is an error');
+  check(errors, rejects({ quantity: 9 }) && rejects({ entryStep: 2.5 }) && rejects({ spread: 'yes' }), 'out-of-range, fractional integer and mistyped values are errors');
+
+  // Backtest mode
+  const hooks: string[] = [];
+  const modes: StrategyMode[] = [];
+  const provider: MarketDataProvider = {
+    name: 'fixed',
+    testConnection: async () => true,
+    getMarketData: async () => bars,
+    getCurrentPrice: async () => bars[bars.length - 1].close,
+    getOptionsChain: async () => []
+  };
+  const core = new BacktestCore({
+    timeframe: '1Min',
+    quoteRefresh: 'BAR',
+    quoteProvider: (underlying, asOf, price) => buildZeroDteChain(price, expiration),
+    costModel: new MidpointCostModel(),
+    dataProvider: provider
+  });
+  const signals: SignalEvent[] = [];
+  core.onEvent(event => {
+    if (event.type === 'SIGNAL') signals.push(event);
+  });
+
+  const originalLog = console.log;
+  console.log = () => {};
+  let result: Awaited<ReturnType<BacktestCore['run']>> | undefined;
+  try {
+    result = await core.run(buildHookRecorder(hooks, modes), { strategyId: 'plugin-test', startDate: new Date('2024-03-05T14:30:00Z'), endDate: new Date('2024-03-05T21:30:00Z'), initialCapital: 25000 }, { entryStep: 3, quantity: 2 });
+  } finally {
+    console.log = originalLog;
+  }
+
+  check(errors, hooks[0] === 'start:2024-03-05' && hooks[1] === 'bar' && hooks[2] === 'quote', `the session starts before the first bar and quote, got ${hooks.slice(0, 3).join(', ')}`);
+  check(errors, hooks.filter(hook => hook === 'bar').length === bars.length - 5 && modes.every(mode => mode === 'BACKTEST'), 'every bar after the warm-up reaches onBar in BACKTEST mode');
+  check(errors, hooks.every((hook, i) => hook !== 'quote' || hooks.slice(0, i).reverse().find(prior => prior === 'bar' || prior === 'quote') === 'bar'), 'each quote follows its bar');
+  check(errors, hooks.indexOf('update:CALL') > hooks.indexOf('fill:OPEN') && hooks.every((hook, i) => !hook.startsWith('update') || hooks[i + 1] === 'quote' || hooks[i + 1].startsWith('update')),
+    'open positions are updated right before the quote that sees them');
+  check(errors, hooks.indexOf('closed:SIGNAL_EXIT') === hooks.indexOf('fill:CLOSE') + 1, 'a closing fill is reported before the position closes');
+  check(errors, hooks.slice(-2).join(',') === 'closed:EXPIRATION,end:2024-03-05' && hooks.filter(hook => hook.startsWith('end')).length === 1,
+    `the session ends once its expirations have settled, got ${hooks.slice(-2).join(', ')}`);
+  const opens = signals.filter(event => event.signal.action === 'OPEN');
+  check(errors, opens.length === 2 && opens[0].timestamp.getTime() === bars[5 + 3 - 1].date.getTime() && result!.trades.every(trade => trade.quantity === 2),
+    'the run\'s parameter values reach the strategy');
+  check(errors, result!.strategyParameters.entryStep === 3 && result!.strategyParameters.spread === true, 'the result records the resolved parameters');
+
+  // The same module, hosted by a paper engine on the same bars and quotes
+  const paperHooks: string[] = [];
+  const paperModes: StrategyMode[] = [];
+  const host = new StrategyHost(buildHookRecorder(paperHooks, paperModes), 'PAPER', { entryStep: 3, quantity: 2, spread: false });
+  const paperOpens: Date[] = [];
+  for (let i = 0; i < bars.length; i++) {
+    const history = bars.slice(0, i + 1);
+    const context: HostedStrategyContext = {
+      timestamp: bars[i].date, underlying: 'SPY', spec: SymbolUniverse.getSpec('SPY'), bar: bars[i], history, positions: [], allPositions: [],
+      balance: 25000, equity: 25000, sessionRealizedPnL: 0, prices: { SPY: bars[i].close }, chain: buildZeroDteChain(bars[i].close, expiration)
+    };
+    await host.bar(context);
+    (await host.quote(context)).forEach(signal => signal.action === 'OPEN' && paperOpens.push(context.timestamp));
+  }
+  await host.endSession(expiration, 25000);
+  check(errors, paperOpens.length === 1 && paperOpens[0].getTime() === opens[0].timestamp.getTime(), 'the paper host warms up and signals on the same bar as the backtest');
+  check(errors, paperModes.length === bars.length - 5 && paperModes.every(mode => mode === 'PAPER'), 'the paper host tells the strategy its mode');
+  check(errors, paperHooks[0] === 'start:2024-03-05' && paperHooks[paperHooks.length - 1] === 'end:2024-03-05', 'the paper host opens and ends the session');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Strategy plugins: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testWalkForwardOptimizer(): Promise<TestResult> {
+  console.log('\n🚶 Testing Walk-Forward Optimizer...');
+  const errors: string[] = [];
+  const start = new Date('2024-04-01T12:00:00Z');
+  const end = new Date('2024-04-26T21:00:00Z'); // 20 sessions
+
+  const rolling = WalkForwardOptimizer.windows(start, end, { inSampleDays: 5, outOfSampleDays: 3 });
+  check(errors, rolling.length === 5 && rolling.every(window => window.inSample.days.length === 5 && window.outOfSample.days.length === 3),
+    `5 rolling windows of 5 in / 3 out sessions, got ${rolling.length}`);
+  check(errors, rolling.every((window, i) => i === 0 || window.outOfSample.days[0] === MarketCalendar.nextTradingDay(rolling[i - 1].outOfSample.days[2]).day),
+    'out-of-sample windows tile the period');
+  check(errors, rolling[0].inSample.days[4] === '2024-04-05' && rolling[0].outOfSample.days[0] === '2024-04-08', 'out of sample starts the session after in sample ends');
+  const anchored = WalkForwardOptimizer.windows(start, end, { inSampleDays: 5, outOfSampleDays: 3, anchored: true });
+  check(errors, anchored.every((window, i) => window.inSample.days[0] === '2024-04-01' && window.inSample.days.length === 5 + 3 * i), 'anchored in-sample windows expand from the first session');
+  check(errors, WalkForwardOptimizer.windows(start, end, { inSampleDays: 5, outOfSampleDays: 4 }).length === 3, 'a window whose out of sample would run past the end is dropped');
+
+  // Steady earns $10 a session on any window; Hot earns $50 a session over in-sample
+  // lengths until mid-April and loses $40 a session otherwise; Idle never trades
+  const evaluate = async (parameters: { edge: number; size: number }, startDate: Date, endDate: Date, initialCapital: number): Promise<WalkForwardRun> => {
+    const sessions = MarketCalendar.getTradingSessions(startDate, endDate);
+    const pnl = parameters.edge === 50
+      ? (sessions.length >= 5 && sessions[0].day < '2024-04-15' ? 50 : -40)
+      : parameters.edge;
+    const trades: BacktestTrade[] = parameters.edge === 0 ? [] : sessions.map(session => ({
+      id: `${parameters.edge}-${session.day}`, backtestId: 'walk-forward', symbol: 'SPY', side: 'CALL', strike: 500, expiration: session.close,
+      entryDate: session.open, exitDate: session.close, entryPrice: 1, exitPrice: 1 + pnl / 100, quantity: 1, pnl, pnlPercent: pnl, createdAt: session.open
+    }));
+    const equityCurve = sessions.map((session, i) => ({ date: session.day, value: initialCapital + (parameters.edge === 0 ? 0 : pnl * (i + 1)) }));
+    return { trades, performance: BacktestCore.calculatePerformance(trades, initialCapital, 0), equityCurve };
+  };
+  const candidates = [
+    { name: 'Steady', parameters: { edge: 10, size: 1 } },
+    { name: 'Hot', parameters: { edge: 50, size: 3 } },
+    { name: 'Idle', parameters: { edge: 0, size: 2 } }
+  ];
+  const optimizer = new WalkForwardOptimizer(evaluate, { inSampleDays: 5, outOfSampleDays: 3, objective: 'TOTAL_RETURN', minTrades: 3 });
+  const result = await optimizer.run(candidates, start, end);
+
+  check(errors, result.windows.map(window => window.selected).join(',') === 'Hot,Hot,Hot,Hot,Steady', `best in-sample candidate is selected (${result.windows.map(window => window.selected).join(',')})`);
+  check(errors, result.windows[0].inSample.map(score => score.candidate).join(',') === 'Hot,Steady,Idle' && result.windows[0].inSample[2].score === -Infinity,
+    'in-sample scores rank best first, too few trades last');
+  check(errors, result.equityCurve.length === 15 && result.equityCurve[3].value === 25000 - 160 && result.equityCurve[14].value === 25000 - 450,
+    `out-of-sample curves chain end to end (${result.equityCurve.map(point => point.value).join(',')})`);
+  check(errors, result.trades.length === 15 && result.performance.totalReturn === -450, 'performance covers the selected out-of-sample trades');
+  check(errors, Math.abs(result.efficiency! - (-30 / 42)) < 1e-9, `efficiency compares return per session out and in sample (${result.efficiency})`);
+
+  const edge = result.stability.parameters.find(parameter => parameter.parameter === 'edge');
+  check(errors, result.stability.selectionChanges === 1 && result.stability.dominantCandidate === 'Hot' && result.stability.dominantShare === 0.8, 'selection changes and dominant candidate');
+  check(errors, result.stability.parameters.length === 2 && edge?.values.join(',') === '50,50,50,50,10' && edge.mean === 42 && edge.standardDeviation === 16 && edge.changes === 1 && !edge.stable,
+    `selected parameter values and their dispersion (${JSON.stringify(edge)})`);
+
+  const verdicts = result.candidates.map(candidate => `${candidate.candidate}:${candidate.verdict}`).join(',');
+  check(errors, verdicts === 'Steady:ROBUST,Hot:OVERFIT,Idle:INSUFFICIENT_DATA', `candidates judged on their out-of-sample record (${verdicts})`);
+  check(errors, result.candidates[0].efficiency === 1 && result.candidates[1].timesSelected === 4, 'per-candidate efficiency and selection count');
+
+  // Steady never loses: its profit factor ranks above any finite one, and ties with a lossless Hot go to the earlier candidate
+  const byProfitFactor = await new WalkForwardOptimizer(evaluate, { inSampleDays: 5, outOfSampleDays: 3, objective: 'PROFIT_FACTOR', minTrades: 3 }).run(candidates, start, end);
+  check(errors, byProfitFactor.windows.every(window => window.selected === 'Steady'), `lossless runs win on profit factor (${byProfitFactor.windows.map(window => window.selected).join(',')})`);
+  const lastWindow = byProfitFactor.windows[4].inSample;
+  check(errors, lastWindow.map(score => `${score.candidate}:${score.score}`).join(',') === 'Steady:Infinity,Hot:0,Idle:-Infinity'
+    && byProfitFactor.windows[0].inSample.map(score => score.candidate).join(',') === 'Steady,Hot,Idle',
+    `infinite scores sort cleanly (${lastWindow.map(score => `${score.candidate}:${score.score}`).join(',')})`);
+
+  const strict = await new WalkForwardOptimizer(evaluate, { inSampleDays: 5, outOfSampleDays: 3, minTrades: 10 }).run(candidates, start, end);
+  check(errors, strict.windows.every(window => window.selectedBy === 'FALLBACK' && window.selected === 'Steady'), 'with no eligible candidate the first is kept');
+
+  const grid = WalkForwardOptimizer.grid(candidates[0], { edge: [5, 15], size: [1, 2] });
+  check(errors, grid.length === 4 && grid[3].name === 'Steady (edge=15, size=2)' && grid[3].parameters.edge === 15, 'grid builds every combination');
+  let duplicate = false;
+  await optimizer.run([candidates[0], candidates[0]], start, end).catch(() => { duplicate = true; });
+  check(errors, duplicate, 'duplicate candidate names are rejected');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Walk-forward optimizer: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testParameterOptimizer(): Promise<TestResult> {
+  console.log('\n🔬 Testing Parameter Optimizer...');
+  const errors: string[] = [];
+  const start = new Date('2024-04-01T12:00:00Z');
+  const end = new Date('2024-04-05T21:00:00Z'); // 5 sessions
+
+  // P&L peaks at x = 0.4 and scales with leverage; drawdown is 5% per unit of leverage
+  type Settings = { x: number; leverage: number; mode: string; limits: { stop: number } };
+  let backtests = 0;
+  const evaluate = async (parameters: Settings, startDate: Date, endDate: Date, initialCapital: number): Promise<WalkForwardRun> => {
+    backtests++;
+    const pnl = parameters.leverage * (100 - 400 * Math.pow(parameters.x - 0.4, 2)) * (parameters.mode === 'trend' ? 1 : 0.5);
+    const trades: BacktestTrade[] = MarketCalendar.getTradingSessions(startDate, endDate).map(session => ({
+      id: `${session.day}`, backtestId: 'optimizer', symbol: 'SPY', side: 'CALL', strike: 500, expiration: session.close,
+      entryDate: session.open, exitDate: session.close, entryPrice: 1, exitPrice: 1, quantity: 1, pnl, pnlPercent: pnl, createdAt: session.open
+    }));
+    return { trades, performance: BacktestCore.calculatePerformance(trades, initialCapital, parameters.leverage * 0.05), equityCurve: [] };
+  };
+  const base: Settings = { x: 0, leverage: 1, mode: 'trend', limits: { stop: 0.3 } };
+
+  const moved = ParameterOptimizer.withValue(base, 'limits.stop', 0.5);
+  check(errors, moved.limits.stop === 0.5 && base.limits.stop === 0.3 && moved.x === 0, 'dot-path values are set on a copy');
+  check(errors, ParameterOptimizer.gridValues({ path: 'x', min: 1, max: 3, integer: true }, 5).join(',') === '1,2,3', 'integer grids drop repeated values');
+
+  const gridRanges: SearchRange[] = [
+    { path: 'x', min: 0, max: 0.8, step: 0.2 },
+    { path: 'leverage', values: [2, 4, 6] },
+    { path: 'mode', values: ['trend', 'fade'] }
+  ];
+  const grid = await new ParameterOptimizer(evaluate, { method: 'GRID', objective: 'TOTAL_RETURN', maxDrawdown: 20 }).optimize(base, gridRanges, start, end);
+  check(errors, grid.trials.length === 30 && grid.evaluations === 30, `grid visits every combination once (${grid.trials.length})`);
+  check(errors, grid.best?.values.x === 0.4 && grid.best.values.leverage === 4 && grid.best.values.mode === 'trend' && grid.best.score === 2000,
+    `best feasible trial respects the drawdown limit (${JSON.stringify(grid.best?.values)} ${grid.best?.score})`);
+  check(errors, grid.leaderboard[0] === grid.best && grid.leaderboard.slice(20).every(trial => !trial.feasible && trial.values.leverage === 6 && trial.violations[0] === 'drawdown 30.0% > 20%'),
+    'leaderboard ranks infeasible trials last, with their violations');
+  const [xSensitivity, leverageSensitivity, modeSensitivity] = grid.sensitivity;
+  const bestLevel = xSensitivity.levels.reduce((best, level) => level.meanScore > best.meanScore ? level : best);
+  check(errors, xSensitivity.levels.length === 5 && Math.abs((bestLevel.value as number) - 0.4) < 1e-9 && xSensitivity.points.length === 20,
+    `x sensitivity peaks in the bin around 0.4 (${xSensitivity.levels.map(level => `${level.value}:${level.meanScore}`).join(', ')})`);
+  check(errors, leverageSensitivity.levels.map(level => level.value).join(',') === '2,4' && leverageSensitivity.correlation === null, 'choices without feasible trials have no level');
+  check(errors, modeSensitivity.levels[0].meanScore === 2 * modeSensitivity.levels[1].meanScore && modeSensitivity.spread === modeSensitivity.levels[1].meanScore,
+    'choice levels average their trials');
+
+  const randomRanges: SearchRange[] = [{ path: 'x', min: 0, max: 1, step: 0.05 }, { path: 'leverage', min: 1, max: 4, integer: true }];
+  const noTooHigh = (settings: Settings) => settings.x > 0.7 ? ['x above 0.7'] : [];
+  backtests = 0;
+  const random = await new ParameterOptimizer(evaluate, { method: 'RANDOM', trials: 12, seed: 7, objective: 'TOTAL_RETURN' }, noTooHigh).optimize(base, randomRanges, start, end);
+  const replay = await new ParameterOptimizer(evaluate, { method: 'RANDOM', trials: 12, seed: 7, objective: 'TOTAL_RETURN' }, noTooHigh).optimize(base, randomRanges, start, end);
+  check(errors, random.trials.every(trial => Math.abs(trial.values.x as number / 0.05 - Math.round(trial.values.x as number / 0.05)) < 1e-9 && Number.isInteger(trial.values.leverage)),
+    'random values snap to the step and integers');
+  check(errors, JSON.stringify(random.trials.map(trial => trial.values)) === JSON.stringify(replay.trials.map(trial => trial.values)), 'the same seed replays the same search');
+  const rejected = random.trials.filter(trial => (trial.values.x as number) > 0.7);
+  check(errors, rejected.length > 0 && rejected.every(trial => trial.performance === null && trial.violations[0] === 'x above 0.7') && backtests === 2 * random.evaluations,
+    `rejected parameters are not backtested (${rejected.length} rejected, ${backtests} backtests)`);
+  check(errors, random.sensitivity[0].correlation !== null, 'numeric ranges report a rank correlation');
+
+  const bayesian = await new ParameterOptimizer(evaluate, { method: 'BAYESIAN', trials: 30, startupTrials: 8, objective: 'TOTAL_RETURN' })
+    .optimize(base, [{ path: 'x', min: 0, max: 1, step: 0.01 }, { path: 'leverage', min: 1, max: 4, integer: true }, { path: 'mode', values: ['trend', 'fade'] }], start, end);
+  const distance = (source: string) => {
+    const trials = bayesian.trials.filter(trial => trial.source === source);
+    return trials.reduce((sum, trial) => sum + Math.abs((trial.values.x as number) - 0.4), 0) / trials.length;
+  };
+  check(errors, bayesian.trials.filter(trial => trial.source === 'TPE').length === 22 && distance('TPE') < distance('RANDOM'),
+    `TPE trials concentrate near the optimum (${distance('TPE').toFixed(3)} vs ${distance('RANDOM').toFixed(3)} from x = 0.4)`);
+  check(errors, Math.abs((bayesian.best!.values.x as number) - 0.4) <= 0.1 && bayesian.best!.values.mode === 'trend',
+    `Bayesian search finds the optimum region (${JSON.stringify(bayesian.best!.values)})`);
+
+  // Every session returns the same P&L: no variance is no Sharpe, and lossless runs clear the profit-factor floor
+  const sharpe = await new ParameterOptimizer(evaluate, { method: 'GRID', minProfitFactor: 1.5 })
+    .optimize(base, [{ path: 'x', values: [0.4, 1] }, { path: 'leverage', values: [1, 2] }], start, end);
+  check(errors, !!sharpe.best && Number.isFinite(sharpe.best.score) && Math.abs(sharpe.best.score) < 10, `best Sharpe is finite and reasonable (${sharpe.best?.score})`);
+  check(errors, sharpe.trials.every(trial => trial.feasible === (trial.values.x === 0.4)),
+    `winners without losers pass minProfitFactor, all-loss runs do not (${sharpe.trials.map(trial => trial.violations.join('/') || 'ok').join(', ')})`);
+  const profitFactor = await new ParameterOptimizer(evaluate, { method: 'GRID', objective: 'PROFIT_FACTOR' })
+    .optimize(base, [{ path: 'x', min: 0.4, max: 1, step: 0.6 }, { path: 'leverage', values: [1, 2] }], start, end);
+  check(errors, profitFactor.trials.every(trial => trial.feasible && trial.score === (trial.values.x === 0.4 ? Infinity : 0))
+    && profitFactor.leaderboard.map(trial => trial.index).join(',') === '0,1,2,3' && profitFactor.best === profitFactor.leaderboard[0],
+    `lossless trials score an infinite profit factor and lead (${profitFactor.leaderboard.map(trial => `${trial.values.x}:${trial.score}`).join(', ')})`);
+  check(errors, profitFactor.sensitivity[0].spread === Infinity && profitFactor.sensitivity[0].correlation! < 0,
+    `sensitivity handles infinite scores (spread ${profitFactor.sensitivity[0].spread}, correlation ${profitFactor.sensitivity[0].correlation})`);
+  const tpeProfitFactor = await new ParameterOptimizer(evaluate, { method: 'BAYESIAN', trials: 10, startupTrials: 4, objective: 'PROFIT_FACTOR' })
+    .optimize(base, [{ path: 'x', min: 0, max: 1, step: 0.05 }], start, end);
+  check(errors, tpeProfitFactor.best?.score === Infinity && tpeProfitFactor.trials.every(trial => !Number.isNaN(trial.score)), 'TPE splits trials with infinite scores');
+
+  let invalid = 0;
+  const optimizer = new ParameterOptimizer(evaluate);
+  await optimizer.optimize(base, [{ path: 'x', min: 1, max: 1 }], start, end).catch(() => invalid++);
+  await optimizer.optimize(base, [{ path: 'x', values: [1] }, { path: 'x', values: [2] }], start, end).catch(() => invalid++);
+  check(errors, invalid === 2, 'empty numeric ranges and repeated paths are rejected');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Parameter optimizer: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testBacktestJobScheduler(): Promise<TestResult> {
+  console.log('\n🧵 Testing Backtest Job Scheduler...');
+  const errors: string[] = [];
+  const bars = await new SyntheticMarketDataProvider().getMarketData('SPY', new Date('2024-01-02T00:00:00Z'), new Date('2024-05-31T23:59:00Z'), '1Day');
+
+  // Shared bars decode back to the same series
+  const shared = SharedBarArray.from('SPY', [...bars].reverse(), '1Day');
+  const decoded = new SharedBarArray(shared.toData()).between(bars[0].date, bars[bars.length - 1].date);
+  check(errors, shared.buffer instanceof SharedArrayBuffer && decoded.length === bars.length, `every bar round-trips through shared memory (${decoded.length}/${bars.length})`);
+  check(errors, decoded.every((bar, i) => bar.date.getTime() === bars[i].date.getTime() && bar.close === bars[i].close && bar.volume === bars[i].volume && bar.vwap === bars[i].vwap),
+    'decoded bars are sorted and keep prices, volume and VWAP');
+  check(errors, shared.closeAsOf(new Date(bars[10].date.getTime() + 1000)) === bars[10].close && shared.closeAsOf(new Date(bars[0].date.getTime() - 1)) === null,
+    'close as of an instant is the last bar at or before it');
+  const served = await new SharedBarsMarketDataProvider([shared]).getMarketData('SPY', bars[0].date, bars[bars.length - 1].date, '1Min');
+  check(errors, served.length === bars.length, 'finer timeframes than were shared get the shared bars');
+
+  // Parallel Monte Carlo replays the sequential run scenario for scenario
+  const strategy = {
+    id: 'scheduler-test', name: 'Scheduler Test', userId: 'test',
+    rsiPeriod: 14, rsiOverbought: 70, rsiOversold: 30, macdFast: 12, macdSlow: 26, macdSignal: 9, bbPeriod: 20, bbStdDev: 2,
+    stopLossPercent: 0.5, takeProfitPercent: 0.5, positionSizePercent: 0.02, maxPositions: 3,
+    daysToExpiration: 0, deltaRange: 0.5, underlyings: ['SPY'],
+    isActive: true, createdAt: new Date(), updatedAt: new Date()
+  } as Strategy;
+  const params: MonteCarloParams = {
+    simulations: 4, volatilityRange: [0.5, 2], driftRange: [-0.01, 0.01],
+    shockProbability: 0.3, shockMagnitude: [-0.2, 0.2], seed: 11
+  };
+  const scheduler = new BacktestJobScheduler({ workers: 2 });
+  const progress: JobProgress[] = [];
+  const originalLog = console.log;
+  console.log = () => {};
+  let sequential: MonteCarloResult | undefined;
+  let parallel: MonteCarloResult | undefined;
+  try {
+    sequential = await MonteCarloEngine.runSimulation(bars, strategy, params);
+    parallel = await MonteCarloEngine.runSimulation(bars, strategy, params, { scheduler, onProgress: update => progress.push(update) });
+  } finally {
+    console.log = originalLog;
+  }
+  const fingerprint = (result: MonteCarloResult) => JSON.stringify(result.scenarios.map(scenario => [scenario.id, scenario.parameters, scenario.performance, scenario.marketData.map(bar => bar.close)]));
+  check(errors, parallel!.scenarios.length === 4 && fingerprint(parallel!) === fingerprint(sequential!), 'seeded scenarios come back from the workers identical and in order');
+  check(errors, new Set(sequential!.scenarios.map(scenario => scenario.parameters.volatilityMultiplier)).size === 4, 'each scenario draws its own randomness');
+  check(errors, JSON.stringify(parallel!.summary) === JSON.stringify(sequential!.summary), 'summary statistics match the sequential run');
+  check(errors, progress.length === 4 && progress.map(update => update.completed).join(',') === '1,2,3,4' && progress.every(update => update.total === 4 && update.failed === 0),
+    `progress is reported once per finished scenario (${progress.map(update => update.completed).join(',')})`);
+
+  // Handlers registered while the Monte Carlo workers are still up reach them by message
+  scheduler.registerHandler('sleep', { module: 'timers/promises', exportName: 'setTimeout' });
+
+  // Cancellation: a running job loses its worker, a queued one never starts, the pool carries on
+  const slow: BacktestJob = { type: 'CALL', handler: 'sleep', args: [5000, 'done'] };
+  const started = Date.now();
+  const running = [scheduler.submit(slow), scheduler.submit(slow)];
+  const controller = new AbortController();
+  const queued = [scheduler.submit(slow), scheduler.submit(slow, { signal: controller.signal })];
+  const outcome = (job: Promise<unknown>) => job.then(() => 'resolved', error => error instanceof JobCancelledError ? 'cancelled' : error.message);
+  controller.abort();
+  check(errors, await outcome(queued[1]) === 'cancelled' && scheduler.queued === 1 && scheduler.running === 2, 'aborting a queued job drops it from the queue');
+  scheduler.cancelAll();
+  const outcomes = await Promise.all([...running, queued[0]].map(outcome));
+  check(errors, outcomes.every(result => result === 'cancelled') && Date.now() - started < 4000 && scheduler.running === 0, `cancelAll stops running jobs (${outcomes.join(', ')})`);
+  const batch = new AbortController();
+  const aborted = scheduler.runAll([slow, slow, slow], { signal: batch.signal });
+  setTimeout(() => batch.abort(), 50);
+  check(errors, await outcome(aborted) === 'cancelled', 'aborting a batch rejects it');
+  scheduler.registerHandler('join', { module: 'path', exportName: 'join' });
+  scheduler.registerHandler('missing', { module: 'path', exportName: 'missing' });
+  check(errors, await scheduler.submit({ type: 'CALL', handler: 'join', args: ['a', 'b'] }) === path.join('a', 'b'), 'the pool runs jobs after cancellations');
+  check(errors, await outcome(scheduler.submit({ type: 'CALL', handler: 'missing', args: [] })) === 'path has no function missing', 'job errors reject with the worker\'s message');
+  check(errors, await outcome(scheduler.submit({ type: 'CALL', handler: 'fs', args: ['/tmp'] })) === 'No job handler registered as fs',
+    'CALL jobs only run registered handlers');
+  await scheduler.close();
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Backtest job scheduler: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function runMarketDataLayerTest() {
+  console.log('🧪 MARKET DATA LAYER TEST');
+  console.log('='.repeat(40));
+
+  const results = {
+    providers: await testMarketDataProviders(),
+    cache: await testMarketDataCache(),
+    snapshots: await testOptionsSnapshotStore(),
+    requests: await testAlpacaRequestLayer(),
+    resampler: await testBarResampler(),
+    calendar: await testMarketCalendar(),
+    quality: await testDataQualityValidator(),
+    universe: await testSymbolUniverse(),
+    contracts: await testOptionContractId(),
+    simulator: await testSyntheticMarketSimulator(),
+    core: await testBacktestCore(),
+    plugins: await testStrategyPlugins(),
+    walkForward: await testWalkForwardOptimizer(),
+    optimizer: await testParameterOptimizer(),
+    scheduler: await testBacktestJobScheduler()
+  };
+
+  const allSuccess = Object.values(results).every(result => result.success);
+
+  console.log('\n🎉 TEST RESULTS SUMMARY');
+  console.log('='.repeat(40));
+  console.log(`Market Data Providers: ${results.providers.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Market Data Cache: ${results.cache.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Options Snapshot Store: ${results.snapshots.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Alpaca Request Layer: ${results.requests.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Bar Resampler: ${results.resampler.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Market Calendar: ${results.calendar.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Data Quality Validator: ${results.quality.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Symbol Universe: ${results.universe.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Option Contract IDs: ${results.contracts.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Synthetic Market Simulator: ${results.simulator.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Backtest Core: ${results.core.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Strategy Plugins: ${results.plugins.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Walk-Forward Optimizer: ${results.walkForward.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Parameter Optimizer: ${results.optimizer.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Backtest Job Scheduler: ${results.scheduler.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`\nOVERALL: ${allSuccess ? '🎉 ALL TESTS PASSED' : '❌ SOME TESTS FAILED'}`);
+
+  return { ...results, success: allSuccess };
+}
+
+if (require.main === module) {
+  runMarketDataLayerTest()
+    .then(results => {
+      process.exit(results.success ? 0 : 1);
+    })
+    .catch(error => {
+      console.error('Fatal test error:', error);
+      process.exit(1);
+    });
+}
+
+export { runMarketDataLayerTest };
@@ -0,0 +1,639 @@
+#!/usr/bin/env node
+/**
+ * Option Pricing Test
+ * Offline checks for the pricing models the engines share:
+ * - Implied volatility inversion (Newton/Brent round trips, arbitrage bounds, quote band, feed cross-check)
+ * - Volatility surface (smile fits, term interpolation, sticky-strike vs sticky-delta, 25Δ metrics)
+ * - Trading-time expiry model (session minutes, half-days, weekends, events, 0-DTE afternoon decay)
+ * - Dividends, rate curve and American pricing (Bjerksund-Stensland, binomial, early-exercise risk)
+ * - Scenario grids (full repricing, expiry payoffs, breakevens, expected loss, portfolio additivity)
+ * - Batch chain Greeks (agreement with per-contract Greeks, calendar clock, IV reuse, speed)
+ * - P&L attribution (Greek terms along a path, fill costs, residuals, per-strategy/regime summaries)
+ * - Dealer exposure (vanna/charm columns, GEX per expiration, 0-DTE split, repriced zero-gamma level)
+ * - GEX history (per-bar persistence, flip crosses and positioning changes, session replay)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GreeksEngine } from './lib/greeks-engine';
+import { DataQualityValidator } from './lib/data-quality-validator';
+import { SyntheticMarketSimulator } from './lib/synthetic-market-simulator';
+import { VolatilitySurface } from './lib/volatility-surface';
+import { ExpiryTimeModel } from './lib/expiry-time-model';
+import { OptionPricingModels, RateCurve } from './lib/option-pricing-models';
+import { SymbolUniverse } from './lib/symbol-universe';
+import { ScenarioEngine, ScenarioPosition } from './lib/scenario-engine';
+import { PnLAttributionEngine } from './lib/pnl-attribution';
+import { GammaExposureEngine, GEXSnapshot } from './clean-strategy/core/institutional-strategy/gamma-exposure-engine';
+import { GEXHistoryStore, GEXEvent } from './clean-strategy/core/institutional-strategy/gex-history-store';
+import { OptionsChain, BacktestTrade } from './lib/types';
+
+interface TestResult {
+  success: boolean;
+  errors: string[];
+}
+
+function check(errors: string[], condition: boolean, message: string) {
+  if (!condition) {
+    errors.push(message);
+    console.log(`   ❌ ${message}`);
+  }
+}
+
+function buildOption(side: 'CALL' | 'PUT', strike: number, bid: number = 0, ask: number = 0): OptionsChain {
+  return { symbol: `SPY_${side}_${strike}`, expiration: new Date('2024-03-12T20:00:00Z'), strike, side, bid, ask };
+}
+
+async function testImpliedVolatilitySolver(): Promise<TestResult> {
+  console.log('\n🔁 Testing Implied Volatility Solver...');
+  const errors: string[] = [];
+  const spot = 500;
+
+  // Round trip across moneyness, expiry and volatility; the price must reprice within tolerance
+  let solved = 0;
+  let worstError = 0;
+  const methods = new Set<string>();
+  for (const side of ['CALL', 'PUT'] as const) {
+    for (const moneyness of [0.7, 0.9, 0.98, 1, 1.02, 1.1, 1.3]) {
+      for (const timeToExpiration of [1 / (365 * 24), 1 / 365, 30 / 365, 1]) {
+        for (const volatility of [0.05, 0.2, 0.6, 2]) {
+          const option = buildOption(side, spot * moneyness);
+          const price = GreeksEngine.calculateTheoreticalPrice(option, spot, timeToExpiration, volatility);
+          const result = GreeksEngine.solveImpliedVolatility(option, price, spot, timeToExpiration);
+          if (result.status !== 'SOLVED') {
+            continue; // Prices within tolerance of intrinsic or underflowing to zero carry no IV
+          }
+          solved++;
+          methods.add(result.method);
+          const repriced = GreeksEngine.calculateTheoreticalPrice(option, spot, timeToExpiration, result.impliedVolatility!);
+          worstError = Math.max(worstError, Math.abs(repriced - price));
+        }
+      }
+    }
+  }
+  check(errors, solved > 140, `most of the grid is solvable (${solved} of 224)`);
+  check(errors, worstError < 1e-5, `solved IVs reprice within tolerance (worst ${worstError.toExponential(2)})`);
+  check(errors, methods.has('newton') && methods.has('brent'), `Newton and the Brent fallback both run (${Array.from(methods).join(', ')})`);
+
+  const atm = GreeksEngine.solveImpliedVolatility(buildOption('CALL', spot), GreeksEngine.calculateTheoreticalPrice(buildOption('CALL', spot), spot, 30 / 365, 0.25), spot, 30 / 365);
+  check(errors, atm.method === 'newton' && atm.iterations <= 5 && Math.abs(atm.impliedVolatility! - 0.25) < 1e-6, `ATM converges by Newton in ${atm.iterations} iterations`);
+  const deepOtm = GreeksEngine.solveImpliedVolatility(buildOption('PUT', 440), 0.03, spot, 1 / 365);
+  check(errors, deepOtm.status === 'SOLVED' && deepOtm.impliedVolatility! > 0.5, `deep OTM 0-DTE wing solves (${deepOtm.method}, ${deepOtm.impliedVolatility?.toFixed(2)})`);
+
+  // Prices outside the no-arbitrage bounds are reported, not forced
+  check(errors, GreeksEngine.solveImpliedVolatility(buildOption('CALL', 480), 19.5, spot, 1 / 365).status === 'BELOW_INTRINSIC', 'call under intrinsic is BELOW_INTRINSIC');
+  check(errors, GreeksEngine.solveImpliedVolatility(buildOption('CALL', 480), 500, spot, 1 / 365).status === 'ABOVE_MAXIMUM', 'call at spot is ABOVE_MAXIMUM');
+  check(errors, GreeksEngine.solveImpliedVolatility(buildOption('PUT', 500), 2, spot, 0).status === 'EXPIRED', 'zero time is EXPIRED');
+  check(errors, GreeksEngine.solveImpliedVolatility(buildOption('PUT', 500), 0, spot, 1 / 365).status === 'NO_PRICE', 'zero price is NO_PRICE');
+
+  // Quote band: bid IV < mid IV < ask IV; Greeks take the mid IV only when asked for it
+  const quoted = buildOption('PUT', 495, 2.0, 2.2);
+  const band = GreeksEngine.impliedVolatilityFromQuote(quoted, spot, 3 / 365);
+  check(errors, band.bid.impliedVolatility! < band.mid.impliedVolatility! && band.mid.impliedVolatility! < band.ask.impliedVolatility!,
+    `bid < mid < ask IV (${band.bid.impliedVolatility?.toFixed(3)} / ${band.mid.impliedVolatility?.toFixed(3)} / ${band.ask.impliedVolatility?.toFixed(3)})`);
+  check(errors, GreeksEngine.calculateGreeks({ ...quoted, impliedVolatility: 0.9 }, spot, 3 / 365).impliedVolatility === 0.9,
+    'calculateGreeks keeps the feed IV unless it is given one');
+  check(errors, GreeksEngine.calculateGreeks(quoted, spot, 3 / 365, GreeksEngine.marketImpliedVolatility(quoted, spot, 3 / 365)).impliedVolatility === band.mid.impliedVolatility,
+    'passing the market IV prices off the mid');
+  const quotedAt = GreeksEngine.calculateGreeksAt({ ...quoted, impliedVolatility: 0.9 }, spot, new Date('2024-03-08T15:00:00Z'));
+  check(errors, Math.abs(quotedAt.impliedVolatility - 0.9) > 0.1, `calculateGreeksAt solves the IV from the quote rather than the feed (${quotedAt.impliedVolatility})`);
+  check(errors, GreeksEngine.marketImpliedVolatility({ ...buildOption('PUT', 495), impliedVolatility: 0.31 }, spot, 3 / 365) === 0.31, 'no quote falls back to the feed IV');
+  check(errors, GreeksEngine.marketImpliedVolatility(buildOption('PUT', 495), spot, 3 / 365) === GreeksEngine.DEFAULT_VOLATILITY, 'no quote and no feed IV falls back to the default');
+
+  const started = Date.now();
+  for (let i = 0; i < 10000; i++) {
+    GreeksEngine.solveImpliedVolatility(buildOption('CALL', 480 + (i % 40)), 1 + (i % 7), spot, 1 / 365);
+  }
+  check(errors, Date.now() - started < 2000, `10k solves finish quickly (${Date.now() - started}ms)`);
+
+  // Feed IVs are cross-checked against the band their own bid/ask imply
+  const simulator = new SyntheticMarketSimulator({ seed: 7 });
+  const asOf = new Date('2024-03-05T15:00:00Z');
+  const underlyingPrice = simulator.getPrice('SPY', asOf);
+  const chain = simulator.getOptionsChain('SPY', { asOf });
+  const validator = new DataQualityValidator();
+  const consistent = validator.checkOptionsChain('SPY', chain, asOf, { underlyingPrice });
+  check(errors, consistent.issues.length === 0, `simulated chain IVs match its quotes (${consistent.issues.map(issue => issue.message).slice(0, 3).join('; ')})`);
+
+  const atTheMoney = chain.findIndex(option => option.side === 'CALL' && Math.abs(option.strike - underlyingPrice) < 1);
+  const broken = chain.map(option => ({ ...option }));
+  broken[atTheMoney].impliedVolatility = broken[atTheMoney].impliedVolatility! + 0.15; // Stale feed IV
+  const deepItmPut = broken.findIndex(option => option.side === 'PUT' && option.strike > underlyingPrice + 10);
+  broken[deepItmPut].ask = Number((broken[deepItmPut].strike - underlyingPrice - 1).toFixed(2)); // Ask under intrinsic
+  broken[deepItmPut].bid = broken[deepItmPut].ask - 0.1;
+  const mismatched = validator.checkOptionsChain('SPY', broken, asOf, { underlyingPrice }).issues.filter(issue => issue.type === 'IV_MISMATCH');
+  check(errors, mismatched.length === 2, `stale IV and sub-intrinsic ask are IV_MISMATCH (${mismatched.map(issue => issue.message).join('; ')})`);
+  check(errors, validator.checkOptionsChain('SPY', broken, asOf).issues.every(issue => issue.type !== 'IV_MISMATCH'), 'no underlying price, no IV cross-check');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Implied volatility solver: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testVolatilitySurface(): Promise<TestResult> {
+  console.log('\n🌋 Testing Volatility Surface...');
+  const errors: string[] = [];
+  const simulator = new SyntheticMarketSimulator({ seed: 7 });
+  const asOf = new Date('2024-03-05T15:00:00Z');
+  const spot = simulator.getPrice('SPY', asOf);
+  const chain = simulator.getOptionsChain('SPY', { asOf, expirations: ['2024-03-05', '2024-03-12', '2024-04-05'] });
+  const surface = VolatilitySurface.fromChain(chain, spot, asOf);
+  const [zeroDte, weekly, monthly] = surface.smiles;
+
+  // Fitted smiles reproduce the simulator's skewed surface near the money
+  check(errors, surface.smiles.length === 3, `one smile per expiration (${surface.smiles.length})`);
+  let worstGap = 0;
+  for (const smile of [weekly, monthly]) {
+    for (const moneyness of [0.97, 0.99, 1, 1.01, 1.03]) {
+      const expected = simulator.impliedVolatility(spot, spot * moneyness, smile.timeToExpiration);
+      worstGap = Math.max(worstGap, Math.abs(surface.impliedVolatility(spot * moneyness, smile.expiration) - expected));
+    }
+  }
+  check(errors, worstGap < 0.002, `weekly and monthly smiles match the simulated IV (worst gap ${worstGap.toFixed(4)})`);
+  check(errors, zeroDte.quotesUsed < 20 && Math.abs(surface.atmVolatility(zeroDte.expiration) - simulator.impliedVolatility(spot, spot, zeroDte.timeToExpiration)) < 0.005,
+    `0-DTE fit skips tick-floor wings (${zeroDte.quotesUsed} quotes) and keeps the ATM level`);
+  const edge = Math.exp(monthly.minMoneyness) * monthly.forward;
+  const [, b, c] = monthly.coefficients;
+  const edgeSlope = b + 2 * c * monthly.minMoneyness;
+  const wing = surface.impliedVolatility(edge * Math.exp(-0.1), monthly.expiration);
+  check(errors, Math.abs(wing - (surface.impliedVolatility(edge, monthly.expiration) - 0.1 * edgeSlope)) < 1e-9, 'wings extend linearly beyond the fitted strikes');
+
+  // Skew metrics
+  const metrics = surface.getMetrics(monthly.expiration);
+  check(errors, metrics.riskReversal25 < -0.01 && metrics.butterfly25 > 0, `puts richer than calls (RR ${metrics.riskReversal25.toFixed(4)}, BF ${metrics.butterfly25.toFixed(4)})`);
+  const put25 = { ...chain[0], side: 'PUT' as const, strike: metrics.put25Strike, expiration: monthly.expiration };
+  check(errors, Math.abs(surface.delta(put25) + 0.25) < 0.005, `25Δ put strike has -0.25 delta (${surface.delta(put25).toFixed(4)})`);
+  check(errors, metrics.put25Strike < spot && metrics.call25Strike > spot, '25Δ strikes straddle spot');
+
+  // Term structure interpolates in total variance
+  const midMonth = new Date('2024-03-22T20:00:00Z');
+  const years = (date: Date) => (date.getTime() - asOf.getTime()) / (365 * 24 * 60 * 60 * 1000);
+  const variance = Math.pow(surface.impliedVolatility(spot, midMonth), 2) * years(midMonth);
+  const weeklyVariance = Math.pow(surface.impliedVolatility(spot, weekly.expiration), 2) * weekly.timeToExpiration;
+  const monthlyVariance = Math.pow(surface.impliedVolatility(spot, monthly.expiration), 2) * monthly.timeToExpiration;
+  check(errors, variance > weeklyVariance && variance < monthlyVariance, 'total variance grows between expiries');
+
+  // Spot moves: sticky-strike keeps each strike's IV, sticky-delta moves the smile with spot
+  const stickyDelta = new VolatilitySurface(surface.spot, surface.asOf, surface.smiles, { dynamics: 'STICKY_DELTA' });
+  const strike = spot * 0.98;
+  check(errors, surface.impliedVolatility(strike, monthly.expiration, spot * 1.02) === surface.impliedVolatility(strike, monthly.expiration), 'sticky-strike IV ignores spot');
+  check(errors, Math.abs(stickyDelta.impliedVolatility(strike * 1.02, monthly.expiration, spot * 1.02) - stickyDelta.impliedVolatility(strike, monthly.expiration)) < 1e-9,
+    'sticky-delta IV follows moneyness');
+  check(errors, stickyDelta.impliedVolatility(strike, monthly.expiration, spot * 1.02) > surface.impliedVolatility(strike, monthly.expiration, spot * 1.02),
+    'after a rally, sticky-delta puts a fixed strike further down the skew');
+
+  // Repricing a contract the chain does not list
+  const farStrike = { ...chain[0], side: 'PUT' as const, strike: Math.round(spot * 0.9), expiration: monthly.expiration };
+  const simulatedFar = simulator.getOptionsChain('SPY', { asOf, expirations: ['2024-04-05'], strikesPerSide: 60 }).find(option => option.side === 'PUT' && option.strike === farStrike.strike)!;
+  check(errors, Math.abs(surface.price(farStrike) - simulatedFar.last!) / simulatedFar.last! < 0.25, `off-chain put priced near its simulated value (${surface.price(farStrike).toFixed(2)} vs ${simulatedFar.last})`);
+
+  const empty = VolatilitySurface.fromChain([], spot, asOf);
+  check(errors, empty.smiles.length === 0 && empty.impliedVolatility(spot, monthly.expiration) === GreeksEngine.DEFAULT_VOLATILITY, 'an empty chain gives the default IV');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Volatility surface: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testExpiryTimeModel(): Promise<TestResult> {
+  console.log('\n⏱️  Testing Expiry Time Model...');
+  const errors: string[] = [];
+  const model = new ExpiryTimeModel();
+  const close = new Date('2024-03-05T21:00:00Z'); // 4:00 PM EST
+
+  // Trading minutes to the close, including half-days and an index option's 4:15 settlement
+  const lastHour = model.measure(new Date('2024-03-05T20:00:00Z'), close);
+  check(errors, lastHour.tradingMinutes === 60 && lastHour.overnightSessions === 0, `3:00 PM has 60 trading minutes left (${lastHour.tradingMinutes})`);
+  check(errors, Math.abs(lastHour.years - 60 * model.minuteYears) < 1e-12, 'years are trading minutes over the trading-time year');
+  check(errors, model.measure(new Date('2024-03-05T14:30:00Z'), close).tradingMinutes === 390, 'a full session is 390 minutes');
+  check(errors, model.measure(new Date('2024-11-29T14:30:00Z'), new Date('2024-11-29T18:00:00Z')).tradingMinutes === 210, 'the day after Thanksgiving closes at 1:00 PM');
+  check(errors, model.measure(new Date('2024-03-05T20:00:00Z'), new Date('2024-03-05T21:15:00Z')).tradingMinutes === 75, '4:15 PM settlement trades past the close');
+  check(errors, model.measure(new Date('2024-03-05T21:30:00Z'), close).years === 0, 'nothing left after expiration');
+
+  // Overnight and weekend gaps carry a fraction of a session's variance
+  const weekend = model.measure(new Date('2024-03-08T20:00:00Z'), new Date('2024-03-11T20:00:00Z'));
+  check(errors, weekend.tradingMinutes === 450 && Math.abs(weekend.overnightSessions - 0.3) < 1e-9,
+    `Friday 3:00 PM to Monday close: 450 minutes plus one overnight and two closed days (${weekend.tradingMinutes}, ${weekend.overnightSessions.toFixed(3)})`);
+  const preMarket = model.measure(new Date('2024-03-11T12:30:00Z'), new Date('2024-03-11T20:00:00Z'));
+  check(errors, preMarket.tradingMinutes === 390 && preMarket.overnightSessions > 0 && preMarket.overnightSessions < 0.3, 'pre-market counts the rest of the gap');
+  const year = model.yearFraction(new Date('2024-01-02T14:30:00Z'), new Date('2025-01-02T14:30:00Z'));
+  check(errors, Math.abs(year - 1) < 0.03, `a calendar year is about one trading-time year (${year.toFixed(3)})`);
+
+  // Scheduled events add variance until they are released
+  const fomc = new ExpiryTimeModel({ events: [{ time: new Date('2024-03-20T18:00:00Z'), weight: 0.5, label: 'FOMC' }] });
+  const fomcClose = new Date('2024-03-20T20:00:00Z');
+  check(errors, fomc.measure(new Date('2024-03-20T17:00:00Z'), fomcClose).eventSessions === 0.5, 'event ahead adds its weight');
+  check(errors, fomc.measure(new Date('2024-03-20T18:30:00Z'), fomcClose).eventSessions === 0, 'released event adds nothing');
+
+  // 0-DTE Greeks: decay and gamma accelerate into the close
+  const option: OptionsChain = { symbol: 'SPY240305C00500000', expiration: close, strike: 500, side: 'CALL', bid: 0, ask: 0 };
+  const at = (time: string) => GreeksEngine.calculateGreeksAt(option, 500, new Date(time), 0.15);
+  const [morning, midday, lateAfternoon] = [at('2024-03-05T15:00:00Z'), at('2024-03-05T17:00:00Z'), at('2024-03-05T20:30:00Z')];
+  check(errors, morning.theta > midday.theta && midday.theta > lateAfternoon.theta, `ATM theta per day steepens (${morning.theta}, ${midday.theta}, ${lateAfternoon.theta})`);
+  check(errors, lateAfternoon.gamma > 2 * morning.gamma, `ATM gamma climbs into the close (${morning.gamma} → ${lateAfternoon.gamma})`);
+  check(errors, lateAfternoon.tradingMinutesToExpiration === 30, 'snapshots carry trading minutes');
+  const otm = { ...option, strike: 503 };
+  const charmAt = (time: string) => Math.abs(GreeksEngine.calculateGreeksAt(otm, 500, new Date(time), 0.15).charm);
+  check(errors, charmAt('2024-03-05T19:00:00Z') > charmAt('2024-03-05T15:00:00Z'), 'OTM charm grows through the afternoon');
+  const calendar = GreeksEngine.calculateGreeks(option, 500, Math.max(0.001, 30 / (365 * 24 * 60)), 0.15);
+  check(errors, lateAfternoon.gamma > 1.5 * calendar.gamma, 'trading time removes the 0.001-year floor that flattened late-day gamma');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Expiry time model: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testAmericanPricing(): Promise<TestResult> {
+  console.log('\n🇺🇸 Testing Dividends, Rate Curve and American Pricing...');
+  const errors: string[] = [];
+
+  // Reference values: Haug's Bjerksund-Stensland example and the classic at-the-money American put
+  const haug = { type: 'call' as const, spot: 42, strike: 40, timeToExpiration: 0.75, volatility: 0.35, rate: 0.04, dividendYield: 0.08, dividends: [] };
+  check(errors, Math.abs(OptionPricingModels.bjerksundStensland(haug) - 5.2704) < 1e-3, `Bjerksund-Stensland matches Haug (${OptionPricingModels.bjerksundStensland(haug).toFixed(4)})`);
+  const put = { type: 'put' as const, spot: 100, strike: 100, timeToExpiration: 1, volatility: 0.2, rate: 0.05, dividendYield: 0, dividends: [] };
+  const tree = OptionPricingModels.binomial(put);
+  check(errors, Math.abs(tree - 6.09) < 0.02 && OptionPricingModels.blackScholesMerton(put) < tree - 0.4, `American put carries an early-exercise premium (${tree.toFixed(3)})`);
+  check(errors, Math.abs(OptionPricingModels.bjerksundStensland(put) - tree) < 0.15, 'Bjerksund-Stensland tracks the tree');
+  const lowVolatility = OptionPricingModels.bjerksundStensland({ ...put, strike: 120, volatility: 0.005 });
+  check(errors, isFinite(lowVolatility) && lowVolatility >= 20, 'near-zero volatility stays finite and at least intrinsic');
+
+  // Cash dividends: a call is worth exercising on the eve of an ex-date
+  const dividendCall = { type: 'call' as const, spot: 450, strike: 440, timeToExpiration: 3 / 365, volatility: 0.15, rate: 0.05, dividendYield: 0, dividends: [{ time: 1 / 365, amount: 1.7 }] };
+  check(errors, OptionPricingModels.blackScholesMerton(dividendCall) < 9 && OptionPricingModels.binomial(dividendCall) >= 10, 'tree exercises ahead of the dividend that the European value loses');
+
+  // Rate curve
+  const curve = new RateCurve([{ years: 1, rate: 0.04 }, { years: 0.25, rate: 0.05 }]);
+  check(errors, curve.rate(0.01) === 0.05 && Math.abs(curve.rate(0.625) - 0.045) < 1e-12 && curve.rate(5) === 0.04, 'curve interpolates between pillars and is flat beyond them');
+  const leap: OptionsChain = { symbol: 'SPX251219C05000000', expiration: new Date('2025-12-19T21:00:00Z'), strike: 5000, side: 'CALL', bid: 0, ask: 0 };
+  const flatPrice = GreeksEngine.calculateTheoreticalPrice(leap, 5000, 1, 0.2);
+  GreeksEngine.setRateCurve(RateCurve.flat(0.02));
+  const lowRatePrice = GreeksEngine.calculateTheoreticalPrice(leap, 5000, 1, 0.2);
+  GreeksEngine.setRateCurve(RateCurve.flat(0.05));
+  check(errors, lowRatePrice < flatPrice - 50, `lower curve cheapens calls (${flatPrice.toFixed(2)} → ${lowRatePrice.toFixed(2)})`);
+
+  // Dividend yield: European parity and delta carry the e^(-qT) factor
+  const spxPut = { ...leap, symbol: 'SPX251219P05000000', side: 'PUT' as const };
+  const q = SymbolUniverse.getSpec('SPX').dividendYield!;
+  const parity = GreeksEngine.calculateTheoreticalPrice(leap, 5000, 1, 0.2) - GreeksEngine.calculateTheoreticalPrice(spxPut, 5000, 1, 0.2);
+  check(errors, Math.abs(parity - (5000 * Math.exp(-q) - 5000 * Math.exp(-0.05))) < 1e-6, `put-call parity holds with the dividend yield (${parity.toFixed(4)})`);
+  const greeks = GreeksEngine.calculateGreeks(leap, 5000, 1, 0.2);
+  const putGreeks = GreeksEngine.calculateGreeks(spxPut, 5000, 1, 0.2);
+  check(errors, Math.abs(greeks.delta - putGreeks.delta - Math.exp(-q)) < 2e-4 && greeks.dividendYield === q, 'call minus put delta is e^(-qT)');
+  check(errors, Math.abs(GreeksEngine.forwardPrice(leap, 5000, 1) - 5000 * Math.exp(0.05 - q)) < 1e-6, 'forward carries at r - q');
+
+  // Model selection per underlying
+  check(errors, SymbolUniverse.pricingModelFor('SPY') === 'BJERKSUND_STENSLAND' && SymbolUniverse.pricingModelFor('SPX') === 'BLACK_SCHOLES_MERTON', 'American ETFs and European indexes default to their models');
+  const deepPut: OptionsChain = { symbol: 'SPY240315P00560000', expiration: new Date('2024-03-15T20:00:00Z'), strike: 560, side: 'PUT', bid: 0, ask: 0 };
+  const asOf = new Date('2024-03-05T15:00:00Z');
+  const americanPrice = GreeksEngine.calculateTheoreticalPrice(deepPut, 500, 10 / 365, 0.15);
+  check(errors, americanPrice >= 60 && americanPrice > GreeksEngine.calculateTheoreticalPrice({ ...deepPut, symbol: 'SPX240315P00560000' }, 500, 10 / 365, 0.15),
+    'deep ITM SPY put is worth at least intrinsic, more than its European twin');
+  const solved = GreeksEngine.solveImpliedVolatility({ ...deepPut, strike: 505 }, GreeksEngine.calculateTheoreticalPrice({ ...deepPut, strike: 505 }, 500, 10 / 365, 0.18), 500, 10 / 365);
+  check(errors, Math.abs(solved.impliedVolatility! - 0.18) < 1e-5, 'IV solves on the American price');
+
+  // Early-exercise risk on short ITM legs
+  const deepRisk = GreeksEngine.earlyExerciseRisk(deepPut, 500, asOf, 0.15);
+  check(errors, deepRisk.atRisk && deepRisk.earlyExercisePremium > 0, `deep ITM short put flagged (${deepRisk.reason})`);
+  check(errors, !GreeksEngine.earlyExerciseRisk({ ...deepPut, strike: 490 }, 500, asOf, 0.15).atRisk, 'OTM put not flagged');
+  check(errors, !GreeksEngine.earlyExerciseRisk({ ...deepPut, symbol: 'SPX240315P00560000' }, 500, asOf, 0.15).atRisk, 'European put never flagged');
+
+  SymbolUniverse.register({ ...SymbolUniverse.getSpec('SPY'), symbol: 'DIVX', optionRoot: 'DIVX', cashDividends: [{ exDate: new Date('2024-03-08T14:30:00Z'), amount: 1.8 }] });
+  const dividendLeg: OptionsChain = { symbol: 'DIVX240315C00480000', expiration: new Date('2024-03-15T20:00:00Z'), strike: 480, side: 'CALL', bid: 0, ask: 0 };
+  const beforeExDate = GreeksEngine.earlyExerciseRisk(dividendLeg, 500, asOf, 0.15);
+  check(errors, beforeExDate.atRisk && beforeExDate.dividend?.amount === 1.8, `ITM call flagged ahead of the ex-date (${beforeExDate.reason})`);
+  check(errors, !GreeksEngine.earlyExerciseRisk(dividendLeg, 500, new Date('2024-03-11T15:00:00Z'), 0.15).atRisk, 'not flagged once the stock trades ex-dividend');
+  check(errors, !GreeksEngine.earlyExerciseRisk({ ...dividendLeg, strike: 499 }, 500, asOf, 0.15).atRisk, 'near-the-money call keeps more time value than the dividend');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} American pricing: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testScenarioGrid(): Promise<TestResult> {
+  console.log('\n🗺️  Testing Scenario Grid...');
+  const errors: string[] = [];
+  const asOf = new Date('2024-03-05T15:00:00Z');
+  const close = new Date('2024-03-05T21:00:00Z');
+  const spot = 500;
+  const leg = (side: 'CALL' | 'PUT', strike: number): OptionsChain => ({
+    symbol: `SPY240305${side[0]}${String(strike * 1000).padStart(8, '0')}`, expiration: close, strike, side, bid: 0, ask: 0, impliedVolatility: 0.15
+  });
+
+  // A long call: every cell is a full reprice against the current mark
+  const call: ScenarioPosition = { id: 'call', legs: [{ option: leg('CALL', 500), quantity: 2, side: 'LONG' }] };
+  const engine = new ScenarioEngine({ priceMoves: [0.01, -0.01, 0], volatilityShifts: [-0.02, 0, 0.02] });
+  const grid = engine.run([call], { spots: { SPY: spot } }, asOf);
+  const years = GreeksEngine.timeToExpiration(asOf, close);
+  const mark = GreeksEngine.calculateTheoreticalPrice(call.legs[0].option, spot, years, 0.15);
+  const upMove = (GreeksEngine.calculateTheoreticalPrice(call.legs[0].option, spot * 1.01, years, 0.17) - mark) * 2 * 100;
+  check(errors, grid.priceMoves.join() === '-0.01,0,0.01' && grid.pnl.length === 1 && grid.pnl[0].length === 3 && grid.pnl[0][0].length === 3, 'grid is [time][IV shift][move] with moves ascending');
+  check(errors, grid.pnl[0][1][1] === 0, 'unchanged market has zero P&L against the mark');
+  check(errors, Math.abs(grid.pnl[0][2][2] - upMove) < 1e-9, `cells are full reprices (${grid.pnl[0][2][2].toFixed(2)} vs ${upMove.toFixed(2)})`);
+  check(errors, grid.pnl[0][1][0] < 0 && grid.pnl[0][1][2] > 0 && grid.pnl[0][0][1] < 0 && grid.pnl[0][2][1] > 0, 'long call gains with the underlying and with IV');
+  check(errors, grid.expectedLoss[0][1] === 0 && grid.worst.pnl === Math.min(...grid.pnl[0].flat()), 'no time to move means no expected loss; worst is the grid minimum');
+
+  // An iron condor at the close: entry-priced P&L is the expiry payoff, breakevens at short strikes ± credit
+  const condor: ScenarioPosition = {
+    id: 'condor',
+    legs: [
+      { option: leg('PUT', 495), quantity: 1, side: 'SHORT', entryPrice: 0.60 },
+      { option: leg('PUT', 490), quantity: 1, side: 'LONG', entryPrice: 0.20 },
+      { option: leg('CALL', 505), quantity: 1, side: 'SHORT', entryPrice: 0.55 },
+      { option: leg('CALL', 510), quantity: 1, side: 'LONG', entryPrice: 0.15 }
+    ]
+  };
+  const moves = Array.from({ length: 61 }, (_, i) => Number((-0.03 + i * 0.001).toFixed(3)));
+  const condorGrid = new ScenarioEngine({ priceMoves: moves, volatilityShifts: [0, 0.05], times: [close, new Date('2024-03-05T19:00:00Z'), asOf] }).run([condor], { spots: { SPY: spot } }, asOf);
+  const atClose = condorGrid.times.length - 1;
+  check(errors, condorGrid.times[0].getTime() === asOf.getTime(), 'time slices are sorted');
+  const payoff = (price: number) => 80 - 100 * (Math.max(0, 495 - price) - Math.max(0, 490 - price) + Math.max(0, price - 505) - Math.max(0, price - 510));
+  check(errors, moves.every((move, i) => Math.abs(condorGrid.pnl[atClose][0][i] - payoff(spot * (1 + move))) < 1e-6), 'expiry slice is the condor payoff');
+  const closeBreakevens = condorGrid.breakevens[atClose].points.filter(point => point.volatilityShift === 0).map(point => point.price);
+  check(errors, closeBreakevens.length === 2 && Math.abs(closeBreakevens[0] - 494.2) < 0.01 && Math.abs(closeBreakevens[1] - 505.8) < 0.01,
+    `breakevens at the short strikes ± the $0.80 credit (${closeBreakevens.map(price => price.toFixed(2)).join(', ')})`);
+  check(errors, condorGrid.expectedLoss[1][0] > 0 && condorGrid.expectedLoss[1][1] > condorGrid.expectedLoss[1][0], 'expected loss grows with IV');
+  check(errors, condorGrid.breakevens[1].points.length >= 4, 'intraday slices carry a breakeven contour across IV shifts');
+
+  // Portfolios add up
+  const both = new ScenarioEngine({ priceMoves: moves, volatilityShifts: [0] }).run([call, condor], { spots: { SPY: spot } }, asOf);
+  const callOnly = new ScenarioEngine({ priceMoves: moves, volatilityShifts: [0] }).run([call], { spots: { SPY: spot } }, asOf);
+  const condorOnly = new ScenarioEngine({ priceMoves: moves, volatilityShifts: [0] }).run([condor], { spots: { SPY: spot } }, asOf);
+  check(errors, both.pnl[0][0].every((value, i) => Math.abs(value - callOnly.pnl[0][0][i] - condorOnly.pnl[0][0][i]) < 1e-9), 'portfolio grid is the sum of its positions');
+  check(errors, ScenarioEngine.formatHeatmap(grid).split('\n').length === 5, 'heatmap renders one row per IV shift');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Scenario grid: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testChainGreeks(): Promise<TestResult> {
+  console.log('\n⛓️  Testing Batch Chain Greeks...');
+  const errors: string[] = [];
+  const simulator = new SyntheticMarketSimulator({ seed: 7 });
+  const asOf = new Date('2024-03-05T15:00:00Z');
+
+  // Batch columns match the per-contract snapshot to its rounding, for American (SPY) and European (SPX) chains
+  for (const symbol of ['SPY', 'SPX']) {
+    const chain = simulator.getOptionsChain(symbol, { asOf, expirations: ['2024-03-05', '2024-03-12'] });
+    const spot = simulator.getPrice(symbol, asOf);
+    const batch = GreeksEngine.calculateChainGreeks(chain, spot, asOf);
+    let mismatches = 0;
+    chain.forEach((option, i) => {
+      const single = GreeksEngine.calculateGreeksAt(option, spot, asOf);
+      const price = GreeksEngine.calculateTheoreticalPrice(option, spot, batch.timeToExpiration[i], batch.impliedVolatility[i]);
+      if (single.impliedVolatility !== batch.impliedVolatility[i] || single.timeToExpiration !== batch.timeToExpiration[i]
+        || Math.abs(single.delta - batch.delta[i]) > 5e-5 || Math.abs(single.gamma - batch.gamma[i]) > 5e-7
+        || Math.abs(single.theta - batch.theta[i]) > 5e-3 || Math.abs(single.vega - batch.vega[i]) > 5e-3
+        || Math.abs(single.charm - batch.charm[i]) > 5e-7 || Math.abs(price - batch.price[i]) > 1e-9) {
+        mismatches++;
+      }
+    });
+    check(errors, batch.count === chain.length && mismatches === 0, `${symbol} batch Greeks match calculateGreeksAt (${mismatches} of ${chain.length} differ)`);
+
+    const calendar = GreeksEngine.calculateChainGreeks(chain, spot, asOf, { calendarTime: true });
+    const years = (chain[0].expiration.getTime() - asOf.getTime()) / (365 * 24 * 60 * 60 * 1000);
+    const single = GreeksEngine.calculateGreeks(chain[0], spot, years, calendar.impliedVolatility[0]);
+    check(errors, Math.abs(calendar.timeToExpiration[0] - years) < 1e-12 && Math.abs(single.delta - calendar.delta[0]) <= 5e-5 && Math.abs(single.theta - calendar.theta[0]) <= 5e-3,
+      `${symbol} calendar clock matches calculateGreeks`);
+  }
+
+  // Reusing the solved IVs reprices every bar without re-solving, far faster than contract by contract
+  const chain = simulator.getOptionsChain('SPX', { asOf, expirations: ['2024-03-05', '2024-03-12'] });
+  const spot = simulator.getPrice('SPX', asOf);
+  const solved = GreeksEngine.calculateChainGreeks(chain, spot, asOf);
+  const sticky = GreeksEngine.calculateChainGreeks(chain, spot, asOf, { impliedVolatilities: solved.impliedVolatility });
+  check(errors, sticky.gamma.every((gamma, i) => gamma === solved.gamma[i]), 'passing back the IV column reproduces the Greeks');
+  const fed = GreeksEngine.calculateChainGreeks(chain, spot, asOf, { impliedVolatilities: chain.map((_, i) => i === 0 ? 0.3 : NaN) });
+  check(errors, fed.impliedVolatility[0] === 0.3 && fed.impliedVolatility[1] === solved.impliedVolatility[1], 'given IVs are used and missing ones solved');
+
+  const bars = 10;
+  let start = Date.now();
+  for (let bar = 0; bar < bars; bar++) {
+    GreeksEngine.calculateChainGreeks(chain, spot + bar, asOf, { impliedVolatilities: solved.impliedVolatility });
+  }
+  const batchMs = Date.now() - start;
+  start = Date.now();
+  for (let bar = 0; bar < bars; bar++) {
+    chain.forEach((option, i) => GreeksEngine.calculateGreeksAt(option, spot + bar, asOf, solved.impliedVolatility[i]));
+  }
+  const singleMs = Date.now() - start;
+  check(errors, batchMs * 5 < singleMs, `batch repricing is at least 5x faster (${batchMs}ms vs ${singleMs}ms for ${bars} bars of ${chain.length} contracts)`);
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Chain Greeks: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testPnLAttribution(): Promise<TestResult> {
+  console.log('\n🧮 Testing P&L Attribution...');
+  const errors: string[] = [];
+  const expiration = new Date('2024-03-05T21:00:00Z');
+  const put: OptionsChain = { symbol: 'SPY240305P00500000', expiration, strike: 500, side: 'PUT', bid: 0, ask: 0, impliedVolatility: 0.15 };
+  const value = (spot: number, asOf: Date, volatility: number) =>
+    -2 * GreeksEngine.calculateTheoreticalPrice(put, spot, GreeksEngine.timeToExpiration(asOf, expiration), volatility);
+
+  // A short put held through small 10-minute steps: the Greek terms explain nearly all of the P&L
+  const steps = Array.from({ length: 13 }, (_, i) => ({
+    asOf: new Date(Date.parse('2024-03-05T15:00:00Z') + i * 10 * 60 * 1000),
+    spot: 502 - 0.25 * i,
+    volatility: 0.15 + 0.002 * i
+  }));
+  const path = steps.map(step => {
+    const greeks = GreeksEngine.calculateGreeksAt(put, step.spot, step.asOf, step.volatility);
+    return { ...greeks, delta: -2 * greeks.delta, gamma: -2 * greeks.gamma, theta: -2 * greeks.theta, vega: -2 * greeks.vega }; // Two short puts
+  });
+  const first = steps[0];
+  const last = steps[steps.length - 1];
+  const pnl = (value(last.spot, last.asOf, last.volatility) - value(first.spot, first.asOf, first.volatility)) * 100;
+  const attribution = PnLAttributionEngine.attributeTrade(path, 100, pnl);
+  const sum = attribution.delta + attribution.gamma + attribution.theta + attribution.vega + attribution.costs + attribution.residual;
+  check(errors, Math.abs(sum - pnl) < 1e-9 && attribution.total === pnl, 'components add up to the trade P&L');
+  check(errors, attribution.delta < 0 && attribution.gamma < 0 && attribution.theta > 0 && attribution.vega < 0,
+    `short put loses on the drop, gamma and IV rise and earns theta (Δ ${attribution.delta.toFixed(0)} Γ ${attribution.gamma.toFixed(0)} Θ ${attribution.theta.toFixed(0)} 𝜈 ${attribution.vega.toFixed(0)})`);
+  check(errors, Math.abs(attribution.residual) < 0.1 * Math.abs(pnl), `residual is small on fine steps (${attribution.residual.toFixed(2)} of ${pnl.toFixed(2)})`);
+
+  // Nothing moves but the clock: all of it is theta; nothing but IV: all of it is vega
+  const hold = [path[0], { ...path[0], timeToExpiration: path[0].timeToExpiration - GreeksEngine.getTimeModel().dayYears / 6.5 }];
+  const decay = PnLAttributionEngine.attributeTrade(hold, 100, 50);
+  check(errors, decay.delta === 0 && decay.gamma === 0 && decay.vega === 0 && Math.abs(decay.theta - path[0].theta * 100 / 6.5) < 1e-9, 'an hour of decay is theta alone');
+  const volUp = PnLAttributionEngine.attributeTrade([path[0]], 100, -40, 0, { underlyingPrice: path[0].underlyingPrice, impliedVolatility: path[0].impliedVolatility + 0.01 });
+  check(errors, Math.abs(volUp.vega - path[0].vega * 100) < 1e-9 && volUp.theta === 0, 'a one-point IV rise at the exit is one vega');
+  const expired = PnLAttributionEngine.attributeTrade([path[0]], 100, 120, 0, { underlyingPrice: path[0].underlyingPrice, timeToExpiration: 0 });
+  check(errors, Math.abs(expired.theta - path[0].theta * path[0].timeToExpiration / GreeksEngine.getTimeModel().dayYears * 100) < 1e-9, 'expiry exit decays the rest of the way');
+  const untracked = PnLAttributionEngine.attributeTrade([], 100, 75, -5);
+  check(errors, untracked.residual === 80 && untracked.delta === 0, 'no Greeks path leaves everything but costs in the residual');
+
+  // Fills against mids: sold below and bought back above the mid cost money either way round
+  const credit = PnLAttributionEngine.fillCosts({ price: 1.0, mark: 1.1 }, { price: 0.6, mark: 0.5 }, 2, 100, true);
+  const debit = PnLAttributionEngine.fillCosts({ price: 2.1, mark: 2.0 }, { price: 1.9, mark: 2.0 }, 2, 100, false);
+  check(errors, Math.abs(credit + 40) < 1e-9 && Math.abs(debit + 40) < 1e-9, `fill costs are negative for credit and debit trades (${credit.toFixed(2)}, ${debit.toFixed(2)})`);
+
+  // Summaries group closed trades by strategy and entry regime
+  const trade = (side: BacktestTrade['side'], regime: BacktestTrade['regime'], total?: number): BacktestTrade => ({
+    id: `${side}-${regime}-${total}`, backtestId: 'test', symbol: 'SPY', side, strike: 500, expiration, entryDate: expiration, entryPrice: 1, quantity: 1, regime, createdAt: expiration,
+    attribution: total === undefined ? undefined : { delta: total / 2, gamma: 0, theta: total / 2, vega: 0, costs: 0, residual: 0, total }
+  });
+  const report = PnLAttributionEngine.summarize([trade('IRON_CONDOR', 'NEUTRAL', 100), trade('IRON_CONDOR', 'BULLISH', -40), trade('BULL_PUT_SPREAD', 'BULLISH', 60), trade('CALL', 'BULLISH')]);
+  check(errors, report.total.trades === 3 && report.total.total === 120, 'trades without attribution are left out');
+  check(errors, report.byStrategy.IRON_CONDOR.trades === 2 && report.byStrategy.IRON_CONDOR.theta === 30 && report.byRegime.BULLISH.total === 20 && !report.byStrategy.CALL,
+    'summaries split by strategy and regime');
+  check(errors, PnLAttributionEngine.formatSummary(report.total).startsWith('3 trades, P&L $120'), 'summary line renders');
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} P&L attribution: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testDealerExposure(): Promise<TestResult> {
+  console.log('\n🌀 Testing Dealer Exposure...');
+  const errors: string[] = [];
+  const simulator = new SyntheticMarketSimulator({ seed: 7 });
+  const asOf = new Date('2024-03-05T18:00:00Z');
+  const chain = simulator.getOptionsChain('SPY', { asOf, expirations: ['2024-03-05', '2024-03-08'] });
+  const spot = simulator.getPrice('SPY', asOf);
+
+  // Vanna is delta's sensitivity to one vol point
+  const greeks = GreeksEngine.calculateChainGreeks(chain, spot, asOf);
+  const bumped = (shift: number) => GreeksEngine.calculateChainGreeks(chain, spot, asOf, { impliedVolatilities: greeks.impliedVolatility.map(iv => iv + shift) });
+  const up = bumped(0.001);
+  const down = bumped(-0.001);
+  const vannaMisses = chain.filter((_, i) => Math.abs((up.delta[i] - down.delta[i]) / 0.2 - greeks.vanna[i]) > 1e-4).length;
+  check(errors, vannaMisses === 0, `vanna matches a finite difference of delta (${vannaMisses} of ${chain.length} differ)`);
+
+  const originalLog = console.log;
+  console.log = () => {};
+  let gex: ReturnType<typeof GammaExposureEngine.calculateGEX>;
+  let tomorrow: ReturnType<typeof GammaExposureEngine.calculateGEX>;
+  try {
+    gex = GammaExposureEngine.calculateGEX(chain, spot, {}, asOf);
+    tomorrow = GammaExposureEngine.calculateGEX(simulator.getOptionsChain('SPY', { asOf, expirations: ['2024-03-08'] }), spot, {}, asOf);
+  } finally {
+    console.log = originalLog;
+  }
+
+  // Expirations are split, 0-DTE first, and add back up to the strike totals
+  const close = (a: number, b: number) => Math.abs(a - b) <= 1e-6 * Math.max(1, Math.abs(b));
+  check(errors, gex.byExpiration.length === 2 && gex.byExpiration[0].zeroDte && !gex.byExpiration[1].zeroDte, 'one exposure per expiration, 0-DTE flagged');
+  check(errors, close(gex.byExpiration.reduce((sum, expiry) => sum + expiry.totalDollarGamma, 0), gex.totalDollarGamma)
+    && close(gex.byExpiration.reduce((sum, expiry) => sum + expiry.totalDollarCharm, 0), gex.totalDollarCharm)
+    && close(gex.strikeGamma.reduce((sum, data) => sum + data.dollarVanna, 0), gex.totalDollarVanna), 'expirations and strikes add up to the totals');
+  check(errors, close(gex.zeroDteDollarGamma, gex.byExpiration[0].totalDollarGamma) && gex.zeroDteShare > 0.5,
+    `afternoon 0-DTE carries most of the gamma (${(gex.zeroDteShare * 100).toFixed(0)}%)`);
+  check(errors, gex.charmFlowToClose !== 0 && tomorrow.charmFlowToClose === 0 && tomorrow.zeroDteShare === 0, 'charm flow to close comes from 0-DTE only');
+
+  // Zero gamma is found on the repriced ladder, where repriced gamma changes sign
+  check(errors, gex.gammaProfile.length === 41 && Math.abs(gex.gammaProfile[20].dollarGamma - gex.totalDollarGamma) < 1e-6 * Math.abs(gex.totalDollarGamma),
+    'ladder is centred on the current price and matches the snapshot there');
+  const flip = gex.gammaFlipPoint;
+  const below = flip === null ? undefined : gex.gammaProfile.filter(point => point.price < flip).pop();
+  const above = flip === null ? undefined : gex.gammaProfile.find(point => point.price > flip);
+  check(errors, flip !== null && below !== undefined && above !== undefined && below.dollarGamma * above.dollarGamma <= 0,
+    `flip point ${flip?.toFixed(2)} sits in a sign change of repriced gamma`);
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} Dealer exposure: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function testGexHistory(): Promise<TestResult> {
+  console.log('\n🗂️ Testing GEX History...');
+  const errors: string[] = [];
+  const simulator = new SyntheticMarketSimulator({ seed: 7 });
+  const asOf = new Date('2024-03-05T18:00:00Z');
+  const originalLog = console.log;
+  console.log = () => {};
+  let base: GEXSnapshot;
+  try {
+    base = GammaExposureEngine.calculateGEX(simulator.getOptionsChain('SPY', { asOf, expirations: ['2024-03-05'] }), 500, {}, asOf);
+  } finally {
+    console.log = originalLog;
+  }
+
+  // Five-minute bars around a flip at 498: drift through it, then dealers turn short gamma
+  const bar = (minutes: number, price: number, flip: number | null, changes: Partial<GEXSnapshot> = {}): GEXSnapshot =>
+    ({ ...base, timestamp: new Date(asOf.getTime() + minutes * 60 * 1000), underlyingPrice: price, gammaFlipPoint: flip, ...changes });
+  const bars = [
+    bar(0, 500, 498, { marketMakerPositioning: 'LONG_GAMMA', highGammaStrikes: [495, 500] }),
+    bar(5, 499, 498.2, { marketMakerPositioning: 'LONG_GAMMA', highGammaStrikes: [495, 500] }),
+    bar(10, 497.5, 498.3, { marketMakerPositioning: 'SHORT_GAMMA', highGammaStrikes: [495, 500] }),
+    bar(15, 496, 501, { marketMakerPositioning: 'SHORT_GAMMA', highGammaStrikes: [490, 495] })
+  ];
+
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gex-history-'));
+  try {
+    const store = new GEXHistoryStore({ rootDir });
+    const heard: GEXEvent[] = [];
+    const unsubscribe = store.onEvent(event => heard.push(event));
+    const raised = bars.map(snapshot => store.record('SPY', snapshot));
+    unsubscribe();
+
+    const types = raised.map(events => events.map(event => event.type).sort().join(','));
+    check(errors, types[0] === '' && types[1] === '', `first bar and a small flip drift raise nothing (${types[0]}|${types[1]})`);
+    check(errors, types[2] === 'FLIP_CROSS,POSITIONING_CHANGE', `crossing the flip with a dealer flip raises both (${types[2]})`);
+    const cross = raised[2].find(event => event.type === 'FLIP_CROSS');
+    check(errors, cross !== undefined && cross.from === 'ABOVE' && cross.to === 'BELOW', 'flip cross records its direction');
+    check(errors, types[3] === 'FLIP_SHIFT,HIGH_GAMMA_STRIKES_CHANGE', `a moved flip and new strikes are reported (${types[3]})`);
+    check(errors, heard.length === 4, `listeners hear every transition (${heard.length})`);
+
+    // The next session starts fresh rather than comparing with yesterday's close
+    const nextDay = new Date('2024-03-06T14:35:00Z');
+    check(errors, store.record('SPY', { ...bars[3], timestamp: nextDay, underlyingPrice: 505, marketMakerPositioning: 'LONG_GAMMA' }).length === 0,
+      'first bar of a session has no transitions');
+
+    // A fresh store replays both sessions from disk with their dates and events intact
+    const reloaded = new GEXHistoryStore({ rootDir });
+    const replayed = Array.from(reloaded.replay('SPY', asOf, nextDay));
+    check(errors, replayed.length === 5 && replayed.every(record => record.snapshot.timestamp instanceof Date), `replay reads back every bar in order (${replayed.length})`);
+    check(errors, replayed[0].snapshot.byExpiration[0].expiration instanceof Date && replayed[2].events[0].timestamp instanceof Date, 'dates are revived');
+    check(errors, reloaded.getEvents('SPY', asOf, nextDay, ['FLIP_CROSS']).length === 1, 'events filter by type');
+    const asOfBar = reloaded.getSnapshotAsOf('SPY', new Date(asOf.getTime() + 12 * 60 * 1000));
+    check(errors, asOfBar !== null && asOfBar.underlyingPrice === 497.5, 'snapshot as of a bar never looks ahead');
+    check(errors, reloaded.getSnapshotAsOf('SPY', new Date('2024-03-05T14:00:00Z')) === null, 'nothing before the first bar');
+    check(errors, reloaded.trackEvolution('SPY', nextDay).flipPointStability === 'STABLE', 'evolution is tracked within the session');
+  } finally {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  }
+
+  console.log(`   ${errors.length === 0 ? '✅' : '❌'} GEX history: ${errors.length} failure(s)`);
+  return { success: errors.length === 0, errors };
+}
+
+async function runOptionPricingTest() {
+  console.log('🧪 OPTION PRICING TEST');
+  console.log('='.repeat(40));
+
+  const results = {
+    impliedVolatility: await testImpliedVolatilitySolver(),
+    surface: await testVolatilitySurface(),
+    expiryTime: await testExpiryTimeModel(),
+    americanPricing: await testAmericanPricing(),
+    scenarios: await testScenarioGrid(),
+    chainGreeks: await testChainGreeks(),
+    attribution: await testPnLAttribution(),
+    dealerExposure: await testDealerExposure(),
+    gexHistory: await testGexHistory()
+  };
+
+  const allSuccess = Object.values(results).every(result => result.success);
+
+  console.log('\n🎉 TEST RESULTS SUMMARY');
+  console.log('='.repeat(40));
+  console.log(`Implied Volatility Solver: ${results.impliedVolatility.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Volatility Surface: ${results.surface.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Expiry Time Model: ${results.expiryTime.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`American Pricing: ${results.americanPricing.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Scenario Grid: ${results.scenarios.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Chain Greeks: ${results.chainGreeks.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`P&L Attribution: ${results.attribution.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`Dealer Exposure: ${results.dealerExposure.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`GEX History: ${results.gexHistory.success ? '✅ PASS' : '❌ FAIL'}`);
+  console.log(`\nOVERALL: ${allSuccess ? '🎉 ALL TESTS PASSED' : '❌ SOME TESTS FAILED'}`);
+
+  return { ...results, success: allSuccess };
+}
+
+if (require.main === module) {
+  runOptionPricingTest()
+    .then(results => {
+      process.exit(results.success ? 0 : 1);
+    })
+    .catch(error => {
+      console.error('Fatal test error:', error);
+      process.exit(1);
+    });
+}
+
+export { runOptionPricingTest };